@@ -83,6 +83,27 @@ export interface Metrics {
   performance: Array<{ hora: string; latencia: number; throughput: number }>;
 }
 
+export interface VariacaoOrcamento {
+  categoriaId: string;
+  categoriaNome: string;
+  natureza: 'receita' | 'despesa';
+  centroCusto?: string;
+  orcado: number;
+  realizado: number;
+  desvio: number;
+  percentual: number | null;
+  limiar: number | null;
+}
+
+export interface OrcamentoResumo {
+  clientId: string;
+  mes: string;
+  limiares: number[];
+  itens: VariacaoOrcamento[];
+  total: number;
+  despesas: { orcado: number; realizado: number; acimaDoLimiar: number };
+}
+
 export interface CycleResult {
   id?: string;
   status?: string;
@@ -108,12 +129,30 @@ interface ActionResult {
 }
 
 const BASE_URL = '/api';
+const TOKEN_KEY = 'bpo_token';
+
+/** Token de acesso do usuário (salvo pelo campo da barra superior) */
+export function getToken(): string | null {
+  return localStorage.getItem(TOKEN_KEY);
+}
+
+export function setToken(token: string | null): void {
+  if (token) localStorage.setItem(TOKEN_KEY, token);
+  else localStorage.removeItem(TOKEN_KEY);
+}
+
+/** Bearer token do usuário */
+function authHeaders(): Record<string, string> {
+  const token = getToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
 
 async function request<T>(path: string, options?: RequestInit): Promise<T> {
-  const res = await fetch(`${BASE_URL}${path}`, {
-    headers: { 'Content-Type': 'application/json' },
-    ...options,
-  });
+  // Headers da chamada somam-se aos padrões (não os substituem)
+  const headers = new Headers({ 'Content-Type': 'application/json', ...authHeaders() });
+  new Headers(options?.headers).forEach((value, key) => headers.set(key, value));
+
+  const res = await fetch(`${BASE_URL}${path}`, { ...options, headers });
   if (!res.ok) {
     throw new Error(`API Error: ${res.status} ${res.statusText}`);
   }
@@ -161,6 +200,8 @@ export const api = {
     return [];
   },
   getMetrics: (clientId?: string) => request<Metrics>(clientId ? `/bpo/metrics/${clientId}` : '/bpo/metrics'),
+  getOrcamentos: (clientId: string, mes?: string) =>
+    request<OrcamentoResumo>(`/bpo/clientes/${clientId}/orcamentos${mes ? `?mes=${mes}` : ''}`),
 
   // Historico
   getHistorico: async () => {
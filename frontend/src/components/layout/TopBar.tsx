@@ -1,9 +1,12 @@
-import { Bell, RefreshCw, Search } from 'lucide-react';
+import { Bell, KeyRound, RefreshCw, Search } from 'lucide-react';
 import { useState } from 'react';
-import { api } from '../../api/client';
+import type { FormEvent } from 'react';
+import { api, getToken, setToken } from '../../api/client';
 
 export function TopBar() {
   const [syncing, setSyncing] = useState(false);
+  const [tokenOpen, setTokenOpen] = useState(false);
+  const [tokenValue, setTokenValue] = useState(() => getToken() || '');
 
   const handleSync = async () => {
     setSyncing(true);
@@ -16,6 +19,14 @@ export function TopBar() {
     }
   };
 
+  // Token emitido em bpo/usuarios; recarrega para refazer as chamadas autenticadas
+  const handleSaveToken = (e: FormEvent) => {
+    e.preventDefault();
+    setToken(tokenValue.trim() || null);
+    setTokenOpen(false);
+    window.location.reload();
+  };
+
   return (
     <header className="topbar sticky top-0 z-30 h-16 flex items-center justify-between px-8 bg-white/80 backdrop-blur-md border-b border-surface-200/60">
       {/* Search */}
@@ -40,6 +51,38 @@ export function TopBar() {
           <span>Sincronizar</span>
         </button>
 
+        {/* Access token */}
+        <div className="relative">
+          <button
+            onClick={() => setTokenOpen((open) => !open)}
+            className={`p-2.5 rounded-xl transition-colors hover:bg-surface-100 ${getToken() ? 'text-surface-400 hover:text-surface-600' : 'text-amber-500'}`}
+            title="Token de acesso"
+          >
+            <KeyRound className="w-[18px] h-[18px]" />
+          </button>
+          {tokenOpen && (
+            <form
+              onSubmit={handleSaveToken}
+              className="absolute right-0 mt-2 w-80 p-4 rounded-xl bg-white border border-surface-200/60 shadow-lg space-y-3"
+            >
+              <label className="block text-xs font-medium text-surface-600">Token de acesso</label>
+              <input
+                type="password"
+                value={tokenValue}
+                onChange={(e) => setTokenValue(e.target.value)}
+                placeholder="Cole o token do seu usuário"
+                className="w-full px-3 py-2 rounded-xl bg-surface-100 border border-surface-200/60 text-sm text-surface-700 placeholder:text-surface-400 focus:outline-none focus:bg-white focus:border-primary-500/40 focus:ring-2 focus:ring-primary-500/10 transition-all"
+              />
+              <button
+                type="submit"
+                className="w-full px-3.5 py-2 rounded-xl bg-primary-500 text-white text-xs font-medium hover:bg-primary-600 transition-colors shadow-sm"
+              >
+                Salvar
+              </button>
+            </form>
+          )}
+        </div>
+
         {/* Notifications */}
         <button className="relative p-2.5 rounded-xl text-surface-400 hover:text-surface-600 hover:bg-surface-100 transition-colors">
           <Bell className="w-[18px] h-[18px]" />
@@ -90,3 +90,18 @@ export const mockMetrics = {
     { hora: '18:00', latencia: 140, throughput: 80 },
   ],
 };
+
+export const mockOrcamento = {
+  clientId: 'c1',
+  mes: '2026-02',
+  limiares: [80, 100],
+  itens: [
+    { categoriaId: 'desp-folha', categoriaNome: 'Folha de pagamento', natureza: 'despesa' as const, orcado: 48000, realizado: 46500, desvio: -1500, percentual: 96.9, limiar: 80 },
+    { categoriaId: 'desp-aluguel', categoriaNome: 'Aluguel', natureza: 'despesa' as const, centroCusto: 'Matriz', orcado: 12000, realizado: 12000, desvio: 0, percentual: 100, limiar: 100 },
+    { categoriaId: 'desp-marketing', categoriaNome: 'Marketing', natureza: 'despesa' as const, orcado: 8000, realizado: 9350, desvio: 1350, percentual: 116.9, limiar: 100 },
+    { categoriaId: 'desp-software', categoriaNome: 'Software e licenças', natureza: 'despesa' as const, orcado: 5000, realizado: 2100, desvio: -2900, percentual: 42, limiar: null },
+    { categoriaId: 'rec-servicos', categoriaNome: 'Receita de serviços', natureza: 'receita' as const, orcado: 120000, realizado: 98400, desvio: -21600, percentual: 82, limiar: 80 },
+  ],
+  total: 5,
+  despesas: { orcado: 73000, realizado: 69950, acimaDoLimiar: 3 },
+};
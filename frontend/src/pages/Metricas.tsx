@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { BarChart3, Target, Gauge, GitCompare } from 'lucide-react';
+import { BarChart3, Target, Gauge, GitCompare, Wallet } from 'lucide-react';
 import {
   LineChart,
   Line,
@@ -15,8 +15,8 @@ import {
 import { Card, CardHeader } from '../components/ui/Card';
 import { KPICard } from '../components/ui/KPICard';
 import { PageLoader } from '../components/ui/LoadingSpinner';
-import { api } from '../api/client';
-import { mockFilas, mockMetrics } from '../data/mock';
+import { api, type Cliente, type OrcamentoResumo, type VariacaoOrcamento } from '../api/client';
+import { mockClientes, mockFilas, mockMetrics, mockOrcamento } from '../data/mock';
 
 const COLORS = ['#7c3aed', '#10b981', '#f59e0b', '#ef4444', '#06b6d4', '#ec4899'];
 
@@ -30,26 +30,54 @@ const tooltipStyle = {
 
 const axisTick = { fill: '#9ca3b4', fontSize: 12 };
 
+const selectClass =
+  'px-3 py-2 bg-surface-50 border border-surface-200 rounded-xl text-sm text-surface-900 focus:outline-none focus:ring-2 focus:ring-primary-500/30 focus:border-primary-400 transition-colors';
+
+const formatBRL = (v: number) => v.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+/** Cor da barra pelo limiar atingido (despesa acima do orçado é vermelho) */
+function corVariacao(v: VariacaoOrcamento): string {
+  if (v.limiar === null) return 'bg-emerald-500';
+  if (v.natureza === 'receita') return 'bg-sky-500';
+  return v.limiar >= 100 ? 'bg-red-500' : 'bg-amber-500';
+}
+
 export function Metricas() {
   const [filas, setFilas] = useState(mockFilas);
   const [metrics, setMetrics] = useState(mockMetrics);
+  const [clientes, setClientes] = useState<Cliente[]>(mockClientes);
+  const [clienteId, setClienteId] = useState(mockClientes[0].id);
+  const [mes, setMes] = useState(mockOrcamento.mes);
+  const [orcamento, setOrcamento] = useState<OrcamentoResumo>(mockOrcamento);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     async function load() {
       try {
-        const [filasRes, metricsRes] = await Promise.allSettled([
+        const [filasRes, metricsRes, clientesRes] = await Promise.allSettled([
           api.getFilas(),
           api.getMetrics(),
+          api.getClientes(),
         ]);
         if (filasRes.status === 'fulfilled' && Array.isArray(filasRes.value) && filasRes.value.length > 0) setFilas(filasRes.value);
         if (metricsRes.status === 'fulfilled' && metricsRes.value?.classificacao) setMetrics(metricsRes.value);
+        if (clientesRes.status === 'fulfilled' && clientesRes.value.length > 0) {
+          setClientes(clientesRes.value);
+          setClienteId(clientesRes.value[0].id);
+        }
       } catch { /* use mock */ }
       finally { setLoading(false); }
     }
     load();
   }, []);
 
+  useEffect(() => {
+    if (!clienteId) return;
+    api.getOrcamentos(clienteId, mes)
+      .then((res) => { if (Array.isArray(res?.itens)) setOrcamento(res); })
+      .catch(() => { /* keep mock */ });
+  }, [clienteId, mes]);
+
   const pieData = filas.map((f) => ({
     name: f.nome,
     value: f.concluidos,
@@ -145,6 +173,80 @@ export function Metricas() {
         </div>
       </Card>
 
+      {/* Budget variance */}
+      <Card>
+        <CardHeader
+          title="Orçado x Realizado"
+          subtitle={`${orcamento.despesas.acimaDoLimiar} despesa(s) acima de ${orcamento.limiares[0] ?? 80}% do orçado`}
+          action={
+            <div className="flex items-center gap-2">
+              <select value={clienteId} onChange={(e) => setClienteId(e.target.value)} className={selectClass}>
+                {clientes.map((c) => (
+                  <option key={c.id} value={c.id}>{c.nome}</option>
+                ))}
+              </select>
+              <input type="month" value={mes} onChange={(e) => e.target.value && setMes(e.target.value)} className={selectClass} />
+            </div>
+          }
+        />
+        {orcamento.itens.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-10 text-surface-400">
+            <Wallet className="w-8 h-8 mb-2" />
+            <p className="text-sm">Nenhum orçamento importado para o mês</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-surface-100">
+                  <th className="text-left py-3 px-4 text-surface-400 text-xs uppercase tracking-wide font-medium">Categoria</th>
+                  <th className="text-right py-3 px-4 text-surface-400 text-xs uppercase tracking-wide font-medium">Orçado</th>
+                  <th className="text-right py-3 px-4 text-surface-400 text-xs uppercase tracking-wide font-medium">Realizado</th>
+                  <th className="text-right py-3 px-4 text-surface-400 text-xs uppercase tracking-wide font-medium">Desvio</th>
+                  <th className="text-left py-3 px-4 text-surface-400 text-xs uppercase tracking-wide font-medium">Execução</th>
+                </tr>
+              </thead>
+              <tbody>
+                {orcamento.itens.map((v) => {
+                  const pct = v.percentual ?? 0;
+                  return (
+                    <tr
+                      key={`${v.categoriaId}-${v.centroCusto || ''}`}
+                      className="border-b border-surface-100 hover:bg-surface-50/80 transition-colors"
+                    >
+                      <td className="py-3 px-4">
+                        <p className="font-medium text-surface-900">{v.categoriaNome}</p>
+                        <p className="text-xs text-surface-400">
+                          {v.natureza === 'receita' ? 'Receita' : 'Despesa'}{v.centroCusto ? ` · ${v.centroCusto}` : ''}
+                        </p>
+                      </td>
+                      <td className="py-3 px-4 text-right tabular-nums text-surface-500">{formatBRL(v.orcado)}</td>
+                      <td className="py-3 px-4 text-right tabular-nums text-surface-900">{formatBRL(v.realizado)}</td>
+                      <td className={`py-3 px-4 text-right tabular-nums font-medium ${v.natureza === 'despesa' && v.desvio > 0 ? 'text-red-500' : 'text-surface-500'}`}>
+                        {v.desvio > 0 ? '+' : ''}{formatBRL(v.desvio)}
+                      </td>
+                      <td className="py-3 px-4">
+                        <div className="flex items-center gap-2">
+                          <div className="flex-1 h-2 bg-surface-100 rounded-full overflow-hidden">
+                            <div
+                              className={`h-full rounded-full ${corVariacao(v)}`}
+                              style={{ width: `${Math.min(pct, 100)}%` }}
+                            />
+                          </div>
+                          <span className="text-xs text-surface-500 tabular-nums w-12">
+                            {v.percentual === null ? '—' : `${v.percentual}%`}
+                          </span>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+
       {/* Queues */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Queue Table */}
@@ -8,6 +8,7 @@
  *   npx ts-node scripts/integration-test.ts                              # usa URL padrão
  *   npx ts-node scripts/integration-test.ts https://my-app.azurewebsites.net
  *   FUNCTION_KEY=xxx npx ts-node scripts/integration-test.ts             # com function key
+ *   BPO_TOKEN=xxx npx ts-node scripts/integration-test.ts                # bearer token (admin) das rotas bpo/*
  *   BASE_URL=https://my-app.azurewebsites.net npm run test:integration
  *
  * Exit codes:
@@ -21,6 +22,7 @@ const BASE_URL =
   'https://wf-operacao-mesh.azurewebsites.net';
 
 const FUNCTION_KEY = process.env.FUNCTION_KEY || '';
+const BPO_TOKEN = process.env.BPO_TOKEN || '';
 
 // ============================================================================
 // HTTP Client (uses curl for proxy compatibility)
@@ -78,6 +80,10 @@ async function request(
       curlArgs.push(`-H 'x-functions-key: ${FUNCTION_KEY}'`);
     }
 
+    if (BPO_TOKEN) {
+      curlArgs.push(`-H 'Authorization: Bearer ${BPO_TOKEN}'`);
+    }
+
     if (body) {
       const escaped = JSON.stringify(body).replace(/'/g, "'\\''");
       curlArgs.push(`-d '${escaped}'`);
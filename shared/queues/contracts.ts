@@ -14,6 +14,8 @@ export const CAPTURE_QUEUES = {
   NIBO: 'queue-capture-nibo',
   OMIE: 'queue-capture-omie',
   SANTANDER: 'queue-capture-santander',
+  INTER: 'queue-capture-inter',
+  CONTROLLE: 'queue-capture-controlle',
   GETNET: 'queue-capture-getnet',
   OFX: 'queue-capture-ofx',
 } as const;
@@ -29,6 +31,7 @@ export const PROCESS_QUEUES = {
 export const SYNC_QUEUES = {
   NIBO: 'queue-sync-nibo',
   OMIE: 'queue-sync-omie',
+  CONTROLLE: 'queue-sync-controlle',
 } as const;
 
 /** Filas de notificação */
@@ -43,6 +46,11 @@ export const REVIEW_QUEUES = {
   AUTHORIZATION: 'queue-review-authorization',
 } as const;
 
+/** Filas de reprocessamento (uma mensagem por data) */
+export const BACKFILL_QUEUES = {
+  GETNET: 'queue-backfill-getnet',
+} as const;
+
 /** Todas as filas */
 export const ALL_QUEUES = {
   ...CAPTURE_QUEUES,
@@ -50,8 +58,30 @@ export const ALL_QUEUES = {
   ...SYNC_QUEUES,
   ...NOTIFY_QUEUES,
   ...REVIEW_QUEUES,
+  BACKFILL_GETNET: BACKFILL_QUEUES.GETNET, // chave própria: GETNET já é a fila de captura
 } as const;
 
+/** Fila de sync do ERP (undefined se o ERP não tem fila) */
+export function syncQueueName(destination: string): string | undefined {
+  return (SYNC_QUEUES as Record<string, string>)[destination.toUpperCase()];
+}
+
+/** Fila de captura da fonte (undefined se a fonte não tem fila) */
+export function captureQueueName(source: string): string | undefined {
+  return (CAPTURE_QUEUES as Record<string, string>)[source.toUpperCase()];
+}
+
+/** Sufixo das filas de mensagens que esgotaram as tentativas */
+export const POISON_SUFFIX = '-poison';
+
+/** Máximo de tentativas antes de mover a mensagem para a fila poison */
+export const MAX_QUEUE_RETRIES = 5;
+
+/** Nome da fila poison de uma fila */
+export function poisonQueueName(queueName: string): string {
+  return `${queueName}${POISON_SUFFIX}`;
+}
+
 // ============================================================================
 // MESSAGE CONTRACTS
 // ============================================================================
@@ -63,11 +93,13 @@ export interface BaseQueueMessage {
   clientId: string;
   timestamp: string;
   retryCount?: number;
+  lastError?: string; // erro da última tentativa
+  failedAt?: string; // quando foi para a fila poison
 }
 
 /** Mensagem de captura */
 export interface CaptureQueueMessage extends BaseQueueMessage {
-  source: 'nibo' | 'omie' | 'santander' | 'getnet' | 'ofx';
+  source: 'nibo' | 'omie' | 'santander' | 'inter' | 'controlle' | 'getnet' | 'ofx';
   config?: {
     startDate?: string;
     endDate?: string;
@@ -86,10 +118,15 @@ export interface ClassifyQueueMessage extends BaseQueueMessage {
   };
 }
 
+/** Mensagem das etapas de enriquecimento e matching */
+export interface TransactionQueueMessage extends BaseQueueMessage {
+  transactionId: string;
+}
+
 /** Mensagem de sync */
 export interface SyncQueueMessage extends BaseQueueMessage {
   transactionId: string;
-  destination: 'nibo' | 'omie';
+  destination: 'nibo' | 'omie' | 'controlle';
   action: 'create' | 'update';
   data: {
     descricao: string;
@@ -100,14 +137,41 @@ export interface SyncQueueMessage extends BaseQueueMessage {
   };
 }
 
-/** Mensagem de notificação */
-export interface NotifyQueueMessage extends BaseQueueMessage {
-  tipo: 'resumo_diario' | 'alerta_vencimento' | 'alerta_inadimplencia';
-  canal: 'email' | 'whatsapp';
-  destinatario: string;
-  dados: Record<string, unknown>;
+/** Dados do resumo diário do ciclo */
+export interface NotifyResumoDados {
+  processed: number;
+  autoApproved: number;
+  needsReview: number;
+  anomalies: number;
+  totalValue: number;
+}
+
+/** Dados de um alerta (vencimento, inadimplência, anomalia) */
+export interface NotifyAlertaDados {
+  title: string;
+  message: string;
+  severity: 'alta' | 'critica';
+  transactionId?: string;
 }
 
+/** Formato de dados de cada tipo de notificação */
+export interface NotifyDadosPorTipo {
+  resumo_diario: NotifyResumoDados;
+  alerta_vencimento: NotifyAlertaDados;
+  alerta_inadimplencia: NotifyAlertaDados;
+  alerta_anomalia: NotifyAlertaDados;
+}
+
+/** Mensagem de notificação (o tipo define o formato de dados) */
+export type NotifyQueueMessage = {
+  [K in keyof NotifyDadosPorTipo]: BaseQueueMessage & {
+    tipo: K;
+    canal: 'email' | 'whatsapp';
+    destinatario: string;
+    dados: NotifyDadosPorTipo[K];
+  };
+}[keyof NotifyDadosPorTipo];
+
 /** Mensagem de revisão */
 export interface ReviewQueueMessage extends BaseQueueMessage {
   transactionId: string;
@@ -120,6 +184,11 @@ export interface ReviewQueueMessage extends BaseQueueMessage {
   };
 }
 
+/** Mensagem de backfill: um arquivo (data) por mensagem */
+export interface BackfillQueueMessage extends BaseQueueMessage {
+  data: string; // YYYY-MM-DD
+}
+
 // ============================================================================
 // RESPONSE CONTRACTS
 // ============================================================================
@@ -202,6 +271,21 @@ export function createClassifyMessage(
   };
 }
 
+/** Cria a mensagem da próxima etapa para a mesma transação/ciclo */
+export function createTransactionMessage(
+  clientId: string,
+  cycleId: string,
+  transactionId: string
+): TransactionQueueMessage {
+  return {
+    messageId: crypto.randomUUID(),
+    cycleId,
+    clientId,
+    timestamp: new Date().toISOString(),
+    transactionId,
+  };
+}
+
 /** Cria uma mensagem de sync */
 export function createSyncMessage(
   clientId: string,
@@ -222,3 +306,56 @@ export function createSyncMessage(
     data,
   };
 }
+
+/** Cria uma mensagem de notificação */
+export function createNotifyMessage<T extends NotifyQueueMessage['tipo']>(
+  clientId: string,
+  cycleId: string,
+  tipo: T,
+  canal: NotifyQueueMessage['canal'],
+  destinatario: string,
+  dados: NotifyDadosPorTipo[T]
+): NotifyQueueMessage {
+  return {
+    messageId: crypto.randomUUID(),
+    cycleId,
+    clientId,
+    timestamp: new Date().toISOString(),
+    tipo,
+    canal,
+    destinatario,
+    dados,
+  } as NotifyQueueMessage;
+}
+
+/** Cria uma mensagem de revisão */
+export function createReviewMessage(
+  clientId: string,
+  cycleId: string,
+  transactionId: string,
+  tipo: ReviewQueueMessage['tipo'],
+  motivo: string,
+  sugestao?: ReviewQueueMessage['sugestao']
+): ReviewQueueMessage {
+  return {
+    messageId: crypto.randomUUID(),
+    cycleId,
+    clientId,
+    timestamp: new Date().toISOString(),
+    transactionId,
+    tipo,
+    motivo,
+    sugestao,
+  };
+}
+
+/** Cria uma mensagem de backfill de uma data */
+export function createBackfillMessage(clientId: string, cycleId: string, data: string): BackfillQueueMessage {
+  return {
+    messageId: crypto.randomUUID(),
+    cycleId,
+    clientId,
+    timestamp: new Date().toISOString(),
+    data,
+  };
+}
@@ -164,7 +164,7 @@ export interface Client {
 export interface ClientConfig {
   // Credenciais ERP - Nibo
   niboTenantId?: string;
-  niboApiKey?: string; // login → Table Storage
+  niboApiKey?: string; // legado — novos clientes usam "kv:{tenantId}-NIBO-API-TOKEN"
 
   // Credenciais ERP - Omie
   omieAppKey?: string; // login → Table Storage (secret via KV)
@@ -178,13 +178,34 @@ export interface ClientConfig {
   bancoAgencia?: string;
   bancoConta?: string;
   bancoContaDigito?: string;
+  bancoConvenio?: string; // Código de convênio CNAB 240 (remessa de pagamentos)
+  pagamentoModo?: 'api' | 'cnab'; // Execução de pagamentos aprovados (default: api se o banco suportar)
+
+  // Aprovação de pagamentos (default: DEFAULT_APPROVAL_POLICY)
+  politicaAprovacao?: ApprovalPolicy;
   santanderClientId?: string; // login OAuth → Table Storage (secret via KV)
 
+  // Banco - Inter
+  interClientId?: string; // login OAuth → Table Storage (secret e certificado mTLS via KV)
+  interContaCorrente?: string;
+
   // Adquirente - Getnet
   adquirente?: string;
   getnetEstabelecimento?: string;
+  getnetEstabelecimentos?: string[]; // rede com várias lojas: um código por estabelecimento
   getnetUser?: string; // login SFTP → Table Storage (password via KV)
 
+  // Conta no ERP de cada banco, usada na baixa dos previstos conciliados
+  // (Nibo: accountId, Omie: nCodCC). Ausente: procura pelo banco no ERP,
+  // exceto Getnet (liquida na conta do cliente): obrigatória para a baixa.
+  contasErp?: Partial<Record<'santander' | 'inter' | 'getnet', string>>;
+
+  // Processamento do ciclo: 'orquestrador' (durable, default) ou 'filas' (workers por etapa)
+  pipeline?: 'orquestrador' | 'filas';
+
+  // Orçamento: % do orçado que disparam alerta de despesa (default: [80, 100])
+  limiaresOrcamento?: number[];
+
   // Notificações
   notificacoes: {
     email: boolean;
@@ -236,6 +257,7 @@ export interface Transaction {
   sourceName?: string; // "Santander", "Nibo", etc.
   niboId?: string;
   omieId?: string;
+  controlleId?: string;
   codigoBarras?: string;
   nossoNumero?: string;
   numeroDocumento?: string;
@@ -267,6 +289,48 @@ export interface Category {
   ativo: boolean;
 }
 
+// ============================================================================
+// INTERFACES - Importação de Planilhas (CSV/Excel)
+// ============================================================================
+
+/**
+ * Convenção de sinal do extrato:
+ * - negativo_debito: valor negativo = saída (padrão dos bancos)
+ * - positivo_debito: valor positivo = saída (faturas de cartão)
+ * - colunas_separadas: colunas distintas de débito e crédito
+ * - coluna_tipo: coluna indicando D/C (ver valoresDebito)
+ */
+export type ImportSignConvention = 'negativo_debito' | 'positivo_debito' | 'colunas_separadas' | 'coluna_tipo';
+
+/** Perfil de mapeamento de colunas de uma planilha, salvo por cliente */
+export interface ImportMappingProfile {
+  id: string;
+  clientId: string;
+  nome: string;
+  formato: 'csv' | 'excel';
+  delimitador?: string; // CSV: ';' | ',' | '\t' (ausente = detecta)
+  planilha?: string; // Excel: nome da aba (ausente = primeira)
+  linhaCabecalho?: number; // 1-based (default 1; 0 = sem cabeçalho)
+  // Nome da coluna no cabeçalho ou índice 1-based ("3")
+  colunas: {
+    data: string;
+    valor?: string;
+    debito?: string;
+    credito?: string;
+    descricao: string;
+    contraparte?: string;
+    documento?: string;
+    tipo?: string;
+  };
+  separadorDecimal: ',' | '.';
+  separadorMilhar?: '.' | ',' | ' ' | '';
+  formatoData: string; // ex: DD/MM/YYYY, YYYY-MM-DD, DD/MM/YY
+  convencaoSinal: ImportSignConvention;
+  valoresDebito?: string[]; // coluna_tipo: valores que indicam saída (default D, DEBITO)
+  criadoEm: string;
+  atualizadoEm: string;
+}
+
 // ============================================================================
 // INTERFACES - Ciclo Diário
 // ============================================================================
@@ -295,8 +359,25 @@ export interface DailyCycle {
 
   // Erros
   errors: CycleError[];
+
+  // Write-back por ERP
+  syncReport?: SyncReport;
+}
+
+/** ERPs que recebem o write-back (mesmo contrato SyncRequest/SyncResponse) */
+export type SyncDestination = 'nibo' | 'omie' | 'controlle';
+
+/** Resultado do write-back em um ERP */
+export interface SyncCounts {
+  created: number;
+  updated: number;
+  skipped: number;
+  errors: number;
 }
 
+/** Relatório de sync do ciclo, por ERP */
+export type SyncReport = Partial<Record<SyncDestination, SyncCounts>>;
+
 /** Erro no ciclo */
 export interface CycleError {
   clientId: string;
@@ -343,6 +424,35 @@ export interface PendingAuthorization {
   resolvidoEm?: string;
   resolvidoPor?: string;
   notas?: string;
+
+  // Aprovação (política por faixa de valor; status só vira 'aprovado' quando satisfeita)
+  preparadoPor?: string; // quem preparou o lançamento — não pode aprovar o próprio item
+  aprovacoes?: AuthorizationApproval[];
+  aprovacoesNecessarias?: number;
+
+  // Pagamento
+  remessaId?: string; // Remessa CNAB em que o pagamento aprovado foi incluído
+  pagamento?: PaymentExecution; // Execução via API bancária (Santander/Inter)
+}
+
+/** Voto de aprovação registrado em uma autorização */
+export interface AuthorizationApproval {
+  usuario: string;
+  data: string;
+  notas?: string;
+}
+
+/** Faixa de valor da política: aplica-se quando |valor| > acimaDe */
+export interface ApprovalBand {
+  acimaDe: number;
+  aprovacoes: number; // votos distintos necessários
+  aprovadores?: string[]; // quem pode aprovar nesta faixa (vazio = qualquer usuário)
+}
+
+/** Política de aprovação de pagamentos do cliente */
+export interface ApprovalPolicy {
+  faixas: ApprovalBand[];
+  preparadorPodeAprovar?: boolean; // default false (quatro olhos)
 }
 
 /** Dúvida de enriquecimento */
@@ -377,21 +487,189 @@ export interface EnrichmentDoubt {
   status: 'pendente' | 'resolvido' | 'pulado';
   criadoEm: string;
   resolvidoEm?: string;
+  resolvidoPor?: string;
   resolucao?: Record<string, unknown>;
   notas?: string;
 }
 
+// ============================================================================
+// INTERFACES - Usuários e Acesso (API bpo/*)
+// ============================================================================
+
+/**
+ * Papéis da API bpo/*:
+ * - client-viewer: só leitura dos clientes atribuídos
+ * - operator: resolve dúvidas, dispara ciclos
+ * - supervisor: aprova/rejeita pagamentos, altera regras
+ * - admin: cadastro de clientes e usuários; acesso a todos os clientes
+ */
+export type UserRole = 'operator' | 'supervisor' | 'admin' | 'client-viewer';
+
+/** Usuário autenticado por bearer token */
+export interface OperatorUser {
+  id: string; // login — gravado em resolvidoPor e HistoryAction.usuario
+  nome: string;
+  email?: string;
+  role: UserRole;
+  clientes: string[]; // clientes atribuídos ('*' = todos)
+  ativo: boolean;
+  criadoEm: string;
+  atualizadoEm: string;
+}
+
 /** Ação no histórico */
 export interface HistoryAction {
   id: string;
   clientId: string;
-  tipo: 'aprovacao' | 'rejeicao' | 'classificacao' | 'sync' | 'captura' | 'erro';
+  tipo: 'aprovacao' | 'rejeicao' | 'classificacao' | 'sync' | 'captura' | 'pagamento' | 'alerta' | 'erro';
   descricao: string;
   usuario?: string;
   data: string;
   detalhes?: Record<string, unknown>;
 }
 
+// ============================================================================
+// INTERFACES - Execução de Pagamentos (API bancária)
+// ============================================================================
+
+/** Estado da execução de um pagamento aprovado via API do banco */
+export interface PaymentExecution {
+  idempotencyKey: string; // {authorizationId}-{tentativa}: reenvio não duplica no banco
+  tentativa: number;
+  banco: 'santander' | 'inter';
+  forma: 'pix' | 'boleto';
+  status: 'enviado' | 'agendado' | 'pago' | 'falha';
+  bancoPagamentoId?: string; // id/codigoTransacao/codigoSolicitacao retornado pelo banco
+  statusBanco?: string;
+  comprovanteId?: string;
+  dataPagamento?: string;
+  erro?: string;
+  enviadoEm?: string;
+  atualizadoEm: string;
+}
+
+// ============================================================================
+// INTERFACES - Remessa de Pagamentos (CNAB 240)
+// ============================================================================
+
+/** Item de remessa: um pagamento aprovado, acompanhado até o retorno */
+export interface RemessaItem {
+  authorizationId: string;
+  transactionId: string;
+  seuNumero: string; // Identificador da empresa, devolvido pelo banco no retorno
+  forma: 'boleto' | 'ted' | 'pix';
+  valor: number;
+  dataPagamento: string;
+  favorecido: string;
+  documentoFavorecido?: string;
+
+  // Boleto (segmentos J/J-52)
+  codigoBarras?: string;
+  vencimento?: string;
+
+  // TED / PIX (segmentos A/B)
+  banco?: string;
+  agencia?: string;
+  agenciaDigito?: string;
+  conta?: string;
+  contaDigito?: string;
+  chavePix?: string;
+  tipoChavePix?: 'cpf' | 'cnpj' | 'email' | 'telefone' | 'aleatoria';
+
+  // Acompanhamento
+  status: 'pendente' | 'agendado' | 'pago' | 'rejeitado';
+  ocorrencia?: string;
+  atualizadoEm?: string;
+}
+
+/** Arquivo de remessa gerado para uma conta bancária */
+export interface Remessa {
+  id: string;
+  clientId: string;
+  banco: string; // Código de compensação (033, 077, 341...)
+  agencia: string;
+  agenciaDigito?: string;
+  conta: string;
+  contaDigito?: string;
+  convenio?: string;
+  cnpjEmpresa: string;
+  nomeEmpresa: string;
+  sequencial: number; // NSA
+  nomeArquivo: string;
+  geradaEm: string;
+  status: 'gerada' | 'parcial' | 'concluida';
+  valorTotal: number;
+  itens: RemessaItem[];
+}
+
+// ============================================================================
+// INTERFACES - Getnet (controle de arquivos e agenda de recebíveis)
+// ============================================================================
+
+/** Arquivo diário Getnet ingerido (uma linha por cliente/data de movimento) */
+export interface GetnetArquivoProcessado {
+  clientId: string;
+  dataMovimento: string; // YYYY-MM-DD
+  arquivo: string; // getnetextr_YYYYMMDD.txt
+  processadoEm: string;
+  cycleId: string;
+  origem: 'diario' | 'backfill' | 'manual';
+  transacoes: number;
+  trailer: {
+    totalRegistros: number;
+    valorTotalBruto: number;
+    valorTotalLiquido: number;
+    quantidadeRVs: number;
+  } | null;
+  apurado: {
+    linhas: number;
+    registros: number;
+    rvs: number;
+    valorBruto: number;
+  };
+  divergencias: string[];
+  status: 'ok' | 'divergente';
+}
+
+/**
+ * Item da agenda de recebíveis de cartão. URs somam na data prevista;
+ * antecipações e cessões retiram o valor da data original.
+ */
+export interface RecebivelAgenda {
+  id: string;
+  clientId: string;
+  tipo: 'ur' | 'antecipacao' | 'cessao';
+  dataPrevista: string; // YYYY-MM-DD
+  estabelecimento: string;
+  bandeira: string; // vazio na cessão (vale para todas as bandeiras do estabelecimento)
+  produto?: string;
+  valorBruto: number;
+  valorLiquido: number; // UR: a receber; antecipação/cessão: valor retirado da data
+  numeroOperacao?: string;
+  indicador?: string;
+  dataMovimento: string;
+  arquivo: string;
+}
+
+/** Taxa contratada para uma combinação bandeira/produto/parcelas */
+export interface TaxaCartao {
+  bandeira: string; // '*' = qualquer bandeira
+  produto?: string; // ausente = qualquer produto
+  parcelasDe: number;
+  parcelasAte: number;
+  mdr: number; // % sobre o valor bruto
+}
+
+/** Tabela de taxas contratadas com a adquirente, vigente a partir de uma data */
+export interface TabelaTaxasCartao {
+  clientId: string;
+  vigenciaInicio: string; // YYYY-MM-DD
+  taxas: TaxaCartao[];
+  antecipacaoMensal?: number; // % a.m. cobrado na antecipação
+  observacao?: string;
+  atualizadoEm: string;
+}
+
 // ============================================================================
 // INTERFACES - Filas
 // ============================================================================
@@ -400,6 +678,7 @@ export interface HistoryAction {
 export interface QueueStatus {
   nome: string;
   mensagens: number;
+  poison?: number; // mensagens que esgotaram as tentativas
   status: 'idle' | 'processing' | 'waiting' | 'error';
 }
 
@@ -483,6 +762,76 @@ export interface CashFlow {
     descricao: string;
     realizado: boolean;
   }>;
+  /** Saldo dia a dia (realizado até hoje, projetado depois) */
+  dias?: FluxoCaixaDia[];
+}
+
+/** Um dia do fluxo de caixa projetado */
+export interface FluxoCaixaDia {
+  data: string;
+  entradas: number;
+  saidas: number;
+  saldo: number; // saldo ao final do dia
+  negativo: boolean;
+}
+
+/** Orçamento mensal de uma categoria do plano de contas (opcionalmente por centro de custo) */
+export interface OrcamentoCategoria {
+  clientId: string;
+  mes: string; // YYYY-MM
+  categoriaId: string;
+  categoriaNome?: string;
+  centroCusto?: string; // sem centro de custo = categoria inteira
+  valor: number;
+  limiarAlertado?: number; // maior limiar (%) já notificado no mês
+  atualizadoEm: string;
+}
+
+/** Realizado x orçado de uma linha de orçamento */
+export interface VariacaoOrcamento {
+  categoriaId: string;
+  categoriaNome: string;
+  natureza: 'receita' | 'despesa';
+  centroCusto?: string;
+  orcado: number;
+  realizado: number;
+  desvio: number; // realizado - orçado
+  percentual: number | null; // % do orçado realizado
+  limiar: number | null; // maior limiar configurado já atingido
+}
+
+/** Linha da DRE: conta do plano com o valor do mês e comparativos */
+export interface DreLinha {
+  categoriaId: string;
+  codigo: string;
+  nome: string;
+  natureza: 'receita' | 'despesa';
+  nivel: number;
+  pai?: string;
+  valor: number;
+  quantidade: number; // transações na conta (e filhas) no mês
+  anterior: number; // mesmo valor no mês anterior
+  variacao: number | null; // % sobre o mês anterior (null se anterior = 0)
+  orcado?: number;
+  desvio?: number; // valor - orçado
+  execucao?: number; // % do orçado realizado
+}
+
+/** DRE mensal por plano de contas */
+export interface Dre {
+  clientId: string;
+  mes: string; // YYYY-MM
+  mesAnterior: string;
+  receitas: DreLinha[];
+  despesas: DreLinha[];
+  totais: {
+    receitas: { valor: number; anterior: number; orcado?: number };
+    despesas: { valor: number; anterior: number; orcado?: number };
+    resultado: { valor: number; anterior: number; orcado?: number };
+  };
+  transferencias: number; // movimentos em contas de transferência (fora do resultado)
+  naoClassificadas: number; // transações sem conta nem natureza identificável
+  geradoEm: string;
 }
 
 // ============================================================================
@@ -510,6 +859,8 @@ export interface SentNotification {
   conteudo: string;
   enviadoEm: string;
   status: 'enviado' | 'falha';
+  tentativas: number;
+  provedor?: string; // smtp, log...
   erro?: string;
 }
 
@@ -635,7 +986,10 @@ export interface MatchResult {
     campo: string;
     esperado: any;
     encontrado: any;
+    /** Em split/agrupamento: id do previsto/realizado componente da divergência */
+    componenteId?: string;
   }>;
+  /** Em split/agrupamento: previstoIds, realizadoIds, diferencaResidual */
   metadados?: Record<string, any>;
 }
 
@@ -648,6 +1002,50 @@ export interface Decision {
   regrasAplicadas: string[];
 }
 
+/** Campos que uma condição de regra de decisão pode avaliar */
+export type DecisionRuleField =
+  | 'valor'
+  | 'tipo'
+  | 'source'
+  | 'contraparte'
+  | 'categoria'
+  | 'confianca'
+  | 'anomalia_severidade'
+  | 'match_tipo'
+  | 'match_confianca';
+
+/** Condição de uma regra de decisão */
+export interface DecisionRuleCondition {
+  campo: DecisionRuleField;
+  operador: 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'nin' | 'contains';
+  valor: string | number | Array<string | number>;
+}
+
+/** Regra declarativa do motor de decisão (por tenant) */
+export interface DecisionRule {
+  id: string; // Vai para Decision.regrasAplicadas quando dispara
+  descricao?: string;
+  prioridade: number; // Menor = avaliada primeiro
+  ativo: boolean;
+  condicoes: DecisionRuleCondition[]; // Vazio = sempre dispara
+  combinacao?: 'todas' | 'qualquer'; // Default: 'todas'
+  acao: Decision['acao'];
+  requisitoHumano: boolean;
+  confianca?: number | 'classificacao' | 'match'; // Default: 'classificacao'
+  razao: string; // Placeholders: {anomalia}, {confianca}, {valor}
+}
+
+/** Conjunto versionado de regras de decisão de um cliente */
+export interface DecisionRuleSet {
+  clientId: string;
+  versao: number;
+  regras: DecisionRule[];
+  ativo: boolean;
+  criadoEm: string;
+  criadoPor?: string;
+  notas?: string;
+}
+
 /** Registro de feedback para aprendizado */
 export interface FeedbackRecord {
   id: string;
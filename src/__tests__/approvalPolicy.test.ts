@@ -0,0 +1,500 @@
+/**
+ * Tests for Approval Policy (quatro olhos)
+ *
+ * Tests approvalPolicy (faixas, preparador, aprovadores, votos duplicados),
+ * o fluxo de votos em POST /bpo/autorizacoes/{id}/aprovar, a rejeição em
+ * POST /bpo/autorizacoes/{id}/rejeitar, o preparador
+ * registrado ao resolver a dúvida e as respostas por WhatsApp (webhook).
+ * Storage é mockado.
+ */
+
+// ============================================================================
+// MOCKS
+// ============================================================================
+
+const registeredRoutes: Record<string, any> = {};
+jest.mock('@azure/functions', () => ({
+  app: {
+    http: (name: string, options: any) => {
+      registeredRoutes[name] = options;
+    },
+    timer: jest.fn(),
+  },
+}));
+
+const mockTableGet = jest.fn();
+const mockTableUpdate = jest.fn();
+jest.mock('@azure/data-tables', () => ({
+  TableClient: {
+    fromConnectionString: jest.fn(() => ({ getEntity: mockTableGet, updateEntity: mockTableUpdate })),
+  },
+}));
+
+const mockStartNew = jest.fn().mockResolvedValue('pagamento-auth-1');
+jest.mock('durable-functions', () => ({
+  input: { durableClient: jest.fn(() => ({ type: 'durableClient' })) },
+  getClient: jest.fn(() => ({
+    startNew: mockStartNew,
+    getStatus: jest.fn().mockRejectedValue(new Error('not found')),
+  })),
+  app: { orchestration: jest.fn(), activity: jest.fn() },
+}));
+
+const mockGetAuthorization = jest.fn();
+const mockRecordApproval = jest.fn();
+const mockRejectAuthorization = jest.fn().mockResolvedValue({ rejeitada: true, status: 'rejeitado' });
+const mockAddHistory = jest.fn();
+const mockGetClient = jest.fn();
+const mockGetUserByTokenHash = jest.fn();
+const mockGetDoubt = jest.fn();
+const mockGetTransaction = jest.fn();
+const mockUpdateTransaction = jest.fn();
+const mockSetPreparer = jest.fn();
+jest.mock('../storage/tableClient', () => ({
+  getUserByTokenHash: (...args: any[]) => mockGetUserByTokenHash(...args),
+  getPendingAuthorizations: jest.fn().mockResolvedValue([]),
+  getAuthorization: (...args: any[]) => mockGetAuthorization(...args),
+  // Aplica o voto sobre a autorização atual; mockRecordApproval recebe o que seria gravado
+  recordAuthorizationApproval: async (id: string, votar: (atual: any) => any) => {
+    const voto = votar(await mockGetAuthorization(id));
+    if (voto) await mockRecordApproval(id, voto.aprovacoes, voto.aprovacoesNecessarias, voto.concluida);
+    return voto;
+  },
+  rejectAuthorization: (...args: any[]) => mockRejectAuthorization(...args),
+  addHistoryAction: (...args: any[]) => mockAddHistory(...args),
+  getClient: (...args: any[]) => mockGetClient(...args),
+  getDoubt: (...args: any[]) => mockGetDoubt(...args),
+  resolveDoubt: jest.fn().mockResolvedValue(undefined),
+  getTransaction: (...args: any[]) => mockGetTransaction(...args),
+  updateTransaction: (...args: any[]) => mockUpdateTransaction(...args),
+  setAuthorizationPreparer: (...args: any[]) => mockSetPreparer(...args),
+}));
+
+import {
+  DEFAULT_APPROVAL_POLICY,
+  evaluateApproval,
+  resolveApprovalBand,
+  validateApprovalPolicy,
+} from '../infra/approvalPolicy';
+import { hashToken } from '../infra/auth';
+import { createHmac } from 'crypto';
+import '../functions/bpoAutorizacoes';
+import '../functions/bpoDuvidas';
+import '../functions/whatsappWebhook';
+import { ApprovalPolicy, PendingAuthorization } from '../types';
+
+function makeAuth(overrides: Partial<PendingAuthorization> = {}): PendingAuthorization {
+  return {
+    id: 'auth-1',
+    clientId: 'client-1',
+    transactionId: 'tx-1',
+    tipo: 'pagar',
+    descricao: 'Fornecedor XPTO',
+    valor: 80000,
+    vencimento: '2026-03-10',
+    contraparte: 'XPTO LTDA',
+    categoria: 'Fornecedores',
+    status: 'pendente',
+    criadoEm: '2026-03-01T00:00:00Z',
+    preparadoPor: 'paulo',
+    aprovacoes: [],
+    ...overrides,
+  };
+}
+
+// Token de teste = id do usuário (supervisores, exceto 'olivia', operadora)
+function mockRequest(id: string, body: any, usuario: string) {
+  return {
+    method: 'POST',
+    params: { id },
+    query: new URLSearchParams(),
+    headers: new Map([['authorization', `Bearer ${usuario}`]]),
+    json: async () => body,
+  };
+}
+
+function mockContext() {
+  return { log: jest.fn(), error: jest.fn(), extraInputs: { get: jest.fn() } };
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockGetClient.mockResolvedValue({ id: 'client-1', config: { banco: 'itau' } });
+  mockGetUserByTokenHash.mockImplementation(async (hash: string) => {
+    const id = ['ana', 'bruno', 'paulo', 'olivia'].find((u) => hashToken(u) === hash);
+    if (!id) return null;
+    return {
+      id,
+      nome: id,
+      role: id === 'olivia' ? 'operator' : 'supervisor',
+      clientes: id === 'bruno' ? ['client-1'] : ['*'],
+      ativo: true,
+      criadoEm: '2026-01-01T00:00:00Z',
+      atualizadoEm: '2026-01-01T00:00:00Z',
+    };
+  });
+});
+
+// ============================================================================
+// POLICY
+// ============================================================================
+
+describe('approvalPolicy', () => {
+  test('default policy: 1 approver up to 50k, 2 above', () => {
+    expect(resolveApprovalBand(DEFAULT_APPROVAL_POLICY, 50000).aprovacoes).toBe(1);
+    expect(resolveApprovalBand(DEFAULT_APPROVAL_POLICY, 50000.01).aprovacoes).toBe(2);
+    expect(resolveApprovalBand(DEFAULT_APPROVAL_POLICY, -80000).aprovacoes).toBe(2);
+  });
+
+  test('preparer cannot approve own item', () => {
+    const result = evaluateApproval(makeAuth(), 'Paulo ');
+
+    expect(result.permitido).toBe(false);
+    expect(result.motivo).toContain('preparou');
+  });
+
+  test('preparer may approve when policy allows', () => {
+    const policy: ApprovalPolicy = { ...DEFAULT_APPROVAL_POLICY, preparadorPodeAprovar: true };
+    const result = evaluateApproval(makeAuth({ valor: 1000 }), 'paulo', policy);
+
+    expect(result.permitido).toBe(true);
+    expect(result.concluida).toBe(true);
+  });
+
+  test('second distinct vote completes a high-value band', () => {
+    const first = evaluateApproval(makeAuth(), 'ana');
+    expect(first).toMatchObject({ permitido: true, concluida: false, aprovacoesRegistradas: 1, aprovacoesNecessarias: 2 });
+
+    const auth = makeAuth({ aprovacoes: [{ usuario: 'ana', data: '2026-03-02T10:00:00Z' }] });
+    expect(evaluateApproval(auth, 'ANA').motivo).toContain('já aprovou');
+    expect(evaluateApproval(auth, 'bruno')).toMatchObject({ permitido: true, concluida: true });
+  });
+
+  test('band approvers restrict who may vote', () => {
+    const policy: ApprovalPolicy = {
+      faixas: [
+        { acimaDe: 0, aprovacoes: 1 },
+        { acimaDe: 100000, aprovacoes: 2, aprovadores: ['diretor', 'cfo'] },
+      ],
+    };
+
+    expect(evaluateApproval(makeAuth({ valor: 150000 }), 'ana', policy).permitido).toBe(false);
+    expect(evaluateApproval(makeAuth({ valor: 150000 }), 'cfo', policy).permitido).toBe(true);
+    expect(evaluateApproval(makeAuth({ valor: 90000 }), 'ana', policy).concluida).toBe(true);
+  });
+
+  test('validateApprovalPolicy reports invalid bands', () => {
+    const errors = validateApprovalPolicy({
+      faixas: [
+        { acimaDe: 0, aprovacoes: 0 },
+        { acimaDe: 0, aprovacoes: 1 },
+        { acimaDe: 1000, aprovacoes: 3, aprovadores: ['a', 'b'] },
+      ],
+    });
+
+    expect(errors.some((e) => e.includes('inteiro'))).toBe(true);
+    expect(errors.some((e) => e.includes('duplicado'))).toBe(true);
+    expect(errors.some((e) => e.includes('aprovador(es)'))).toBe(true);
+    expect(validateApprovalPolicy({ faixas: [] })).toEqual(['faixas deve ser uma lista não vazia']);
+    expect(validateApprovalPolicy(DEFAULT_APPROVAL_POLICY)).toEqual([]);
+  });
+});
+
+// ============================================================================
+// APPROVE ENDPOINT
+// ============================================================================
+
+describe('bpoAutorizacoesAprovar', () => {
+  const handler = () => registeredRoutes['bpoAutorizacoesAprovar'].handler;
+
+  test('first vote on high-value item keeps it pending', async () => {
+    mockGetAuthorization.mockResolvedValue(makeAuth());
+
+    const result = await handler()(mockRequest('auth-1', {}, 'ana'), mockContext());
+
+    expect(result.status).toBe(202);
+    expect(result.jsonBody.concluida).toBe(false);
+    expect(mockRecordApproval).toHaveBeenCalledWith('auth-1', [expect.objectContaining({ usuario: 'ana' })], 2, false);
+    expect(mockAddHistory).toHaveBeenCalledWith(expect.objectContaining({ tipo: 'aprovacao', usuario: 'ana' }));
+  });
+
+  test('second vote approves and records it in history', async () => {
+    mockGetAuthorization.mockResolvedValue(
+      makeAuth({ aprovacoes: [{ usuario: 'ana', data: '2026-03-02T10:00:00Z' }] })
+    );
+
+    const result = await handler()(mockRequest('auth-1', { notas: 'ok' }, 'bruno'), mockContext());
+
+    expect(result.status).toBe(200);
+    expect(result.jsonBody.concluida).toBe(true);
+    expect(result.jsonBody.pagamento).toEqual({ modo: 'cnab' });
+    expect(mockRecordApproval).toHaveBeenCalledWith('auth-1', expect.any(Array), 2, true);
+    expect(mockRecordApproval.mock.calls[0][1]).toHaveLength(2);
+    expect(mockAddHistory.mock.calls[0][0].descricao).toContain('aprovada (2/2)');
+  });
+
+  test('preparer vote is refused', async () => {
+    mockGetAuthorization.mockResolvedValue(makeAuth());
+
+    const result = await handler()(mockRequest('auth-1', {}, 'paulo'), mockContext());
+
+    expect(result.status).toBe(403);
+    expect(mockRecordApproval).not.toHaveBeenCalled();
+  });
+
+  test('uses the client policy when configured', async () => {
+    mockGetClient.mockResolvedValue({
+      id: 'client-1',
+      config: { politicaAprovacao: { faixas: [{ acimaDe: 0, aprovacoes: 1 }] } },
+    });
+    mockGetAuthorization.mockResolvedValue(makeAuth());
+
+    const result = await handler()(mockRequest('auth-1', {}, 'ana'), mockContext());
+
+    expect(result.status).toBe(200);
+    expect(mockRecordApproval).toHaveBeenCalledWith('auth-1', expect.any(Array), 1, true);
+  });
+
+  test('operator cannot approve', async () => {
+    mockGetAuthorization.mockResolvedValue(makeAuth());
+
+    const result = await handler()(mockRequest('auth-1', {}, 'olivia'), mockContext());
+
+    expect(result.status).toBe(403);
+    expect(mockGetAuthorization).not.toHaveBeenCalled();
+  });
+
+  test('supervisor without access to the client cannot approve', async () => {
+    mockGetAuthorization.mockResolvedValue(makeAuth({ clientId: 'client-2' }));
+
+    const result = await handler()(mockRequest('auth-1', {}, 'bruno'), mockContext());
+
+    expect(result.status).toBe(403);
+    expect(result.jsonBody.message).toContain('client-2');
+    expect(mockRecordApproval).not.toHaveBeenCalled();
+  });
+
+  test('already resolved authorization returns 409', async () => {
+    mockGetAuthorization.mockResolvedValue(makeAuth({ status: 'aprovado' }));
+
+    const result = await handler()(mockRequest('auth-1', {}, 'ana'), mockContext());
+
+    expect(result.status).toBe(409);
+  });
+
+  test('authorization approved by a concurrent vote returns 409 without writing', async () => {
+    mockGetAuthorization
+      .mockResolvedValueOnce(makeAuth())
+      .mockResolvedValueOnce(makeAuth({ status: 'aprovado' }));
+
+    const result = await handler()(mockRequest('auth-1', {}, 'ana'), mockContext());
+
+    expect(result.status).toBe(409);
+    expect(mockRecordApproval).not.toHaveBeenCalled();
+  });
+});
+
+describe('bpoAutorizacoesRejeitar', () => {
+  const handler = () => registeredRoutes['bpoAutorizacoesRejeitar'].handler;
+
+  test('rejects a pending authorization and records the history', async () => {
+    mockGetAuthorization.mockResolvedValue(makeAuth());
+
+    const result = await handler()(mockRequest('auth-1', { motivo: 'Valor errado' }, 'ana'), mockContext());
+
+    expect(result.status).toBe(200);
+    expect(mockRejectAuthorization).toHaveBeenCalledWith('auth-1', 'Valor errado', 'ana');
+    expect(mockAddHistory).toHaveBeenCalledWith(expect.objectContaining({ tipo: 'rejeicao' }));
+  });
+
+  test('already resolved authorization returns 409', async () => {
+    mockGetAuthorization.mockResolvedValue(makeAuth({ status: 'aprovado' }));
+
+    const result = await handler()(mockRequest('auth-1', { motivo: 'Valor errado' }, 'ana'), mockContext());
+
+    expect(result.status).toBe(409);
+    expect(mockRejectAuthorization).not.toHaveBeenCalled();
+  });
+
+  test('authorization approved after the read returns 409 without history', async () => {
+    mockGetAuthorization.mockResolvedValue(makeAuth());
+    mockRejectAuthorization.mockResolvedValueOnce({ rejeitada: false, status: 'aprovado' });
+
+    const result = await handler()(mockRequest('auth-1', { motivo: 'Valor errado' }, 'ana'), mockContext());
+
+    expect(result.status).toBe(409);
+    expect(result.jsonBody.message).toBe('Autorização já aprovado');
+    expect(mockAddHistory).not.toHaveBeenCalled();
+  });
+});
+
+// ============================================================================
+// VOTE STORAGE (ETag)
+// ============================================================================
+
+describe('recordAuthorizationApproval', () => {
+  const { recordAuthorizationApproval } = jest.requireActual('../storage/tableClient');
+
+  beforeAll(() => {
+    process.env.AZURE_STORAGE_CONNECTION_STRING = process.env.AZURE_STORAGE_CONNECTION_STRING || 'UseDevelopmentStorage=true';
+  });
+
+  test('re-reads and recomputes the vote when another vote was written first', async () => {
+    const votoAna = JSON.stringify([{ usuario: 'ana', data: '2026-03-02T10:00:00Z' }]);
+    mockTableGet
+      .mockResolvedValueOnce({ rowKey: 'auth-1', status: 'pendente', aprovacoes: '[]', etag: 'e1' })
+      .mockResolvedValueOnce({ rowKey: 'auth-1', status: 'pendente', aprovacoes: votoAna, etag: 'e2' });
+    mockTableUpdate.mockRejectedValueOnce({ statusCode: 412 }).mockResolvedValueOnce({ etag: 'e3' });
+
+    const votar = jest.fn((atual: PendingAuthorization) => {
+      const aprovacoes = [...(atual.aprovacoes || []), { usuario: 'bruno', data: '2026-03-02T10:00:01Z' }];
+      return { aprovacoes, aprovacoesNecessarias: 2, concluida: aprovacoes.length >= 2 };
+    });
+
+    const voto = await recordAuthorizationApproval('auth-1', votar);
+
+    expect(votar).toHaveBeenCalledTimes(2);
+    expect(voto.concluida).toBe(true);
+    expect(mockTableUpdate).toHaveBeenNthCalledWith(1, expect.anything(), 'Merge', { etag: 'e1' });
+    expect(mockTableUpdate).toHaveBeenLastCalledWith(
+      expect.objectContaining({ status: 'aprovado', resolvidoPor: 'ana, bruno' }), 'Merge', { etag: 'e2' }
+    );
+  });
+});
+
+describe('rejectAuthorization', () => {
+  const { rejectAuthorization } = jest.requireActual('../storage/tableClient');
+
+  beforeAll(() => {
+    process.env.AZURE_STORAGE_CONNECTION_STRING = process.env.AZURE_STORAGE_CONNECTION_STRING || 'UseDevelopmentStorage=true';
+  });
+
+  test('does not overwrite an approval written first', async () => {
+    mockTableGet
+      .mockResolvedValueOnce({ rowKey: 'auth-1', status: 'pendente', etag: 'e1' })
+      .mockResolvedValueOnce({ rowKey: 'auth-1', status: 'aprovado', etag: 'e2' });
+    mockTableUpdate.mockRejectedValueOnce({ statusCode: 412 });
+
+    const resultado = await rejectAuthorization('auth-1', 'Valor errado', 'ana');
+
+    expect(resultado).toEqual({ rejeitada: false, status: 'aprovado' });
+    expect(mockTableUpdate).toHaveBeenCalledTimes(1);
+    expect(mockTableUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'rejeitado', resolvidoPor: 'ana' }), 'Merge', { etag: 'e1' }
+    );
+  });
+});
+
+// ============================================================================
+// PREPARER (DÚVIDA → APROVAÇÃO)
+// ============================================================================
+
+describe('preparer recorded from the doubt', () => {
+  const resolver = () => registeredRoutes['bpoDuvidasResolver'].handler;
+  const aprovar = () => registeredRoutes['bpoAutorizacoesAprovar'].handler;
+
+  test('operator who resolved the doubt cannot approve the same item', async () => {
+    // Autorização escalada pela IA, ainda sem preparador
+    const autorizacoes = new Map([['auth-tx-1', makeAuth({ id: 'auth-tx-1', valor: 1000, preparadoPor: undefined })]]);
+    mockGetAuthorization.mockImplementation(async (id: string) => autorizacoes.get(id) || null);
+    mockSetPreparer.mockImplementation(async (id: string, usuario: string) => {
+      autorizacoes.set(id, { ...autorizacoes.get(id)!, preparadoPor: usuario });
+    });
+    mockGetDoubt.mockResolvedValue({ id: 'doubt-tx-1', clientId: 'client-1', transactionId: 'tx-1', status: 'pendente' });
+    mockGetTransaction.mockResolvedValue({ id: 'tx-1', clientId: 'client-1', metadata: { aiDecision: 'escalar' } });
+
+    const resolvida = await resolver()(mockRequest('doubt-tx-1', { resolucao: { categoria: 'Aluguel' } }, 'ana'), mockContext());
+    expect(resolvida.status).toBe(200);
+    expect(mockUpdateTransaction).toHaveBeenCalledWith('client-1', 'tx-1', {
+      metadata: { aiDecision: 'escalar', preparadoPor: 'ana' },
+    });
+
+    const propria = await aprovar()(mockRequest('auth-tx-1', {}, 'ana'), mockContext());
+    expect(propria.status).toBe(403);
+    expect(propria.jsonBody.message).toContain('preparou');
+    expect(mockRecordApproval).not.toHaveBeenCalled();
+
+    const outra = await aprovar()(mockRequest('auth-tx-1', {}, 'bruno'), mockContext());
+    expect(outra.status).toBe(200);
+    expect(mockRecordApproval).toHaveBeenCalledWith('auth-tx-1', [expect.objectContaining({ usuario: 'bruno' })], 1, true);
+  });
+});
+
+// ============================================================================
+// WHATSAPP REPLIES
+// ============================================================================
+
+describe('whatsappWebhook', () => {
+  const handler = () => registeredRoutes['whatsappWebhook'].handler;
+  const SECRET = 'app-secret';
+
+  function replyRequest(from: string, buttonId: string, secret = SECRET) {
+    const corpo = JSON.stringify({
+      entry: [{
+        changes: [{
+          value: {
+            messages: [{ from, type: 'interactive', interactive: { type: 'button_reply', button_reply: { id: buttonId, title: 'x' } } }],
+          },
+        }],
+      }],
+    });
+    const assinatura = `sha256=${createHmac('sha256', secret).update(corpo).digest('hex')}`;
+    return {
+      method: 'POST',
+      query: new URLSearchParams(),
+      headers: new Map([['x-hub-signature-256', assinatura]]),
+      text: async () => corpo,
+    };
+  }
+
+  beforeAll(() => {
+    process.env.WHATSAPP_APP_SECRET = SECRET;
+  });
+
+  afterAll(() => {
+    delete process.env.WHATSAPP_APP_SECRET;
+  });
+
+  beforeEach(() => {
+    mockGetClient.mockResolvedValue({
+      id: 'client-1',
+      config: {
+        politicaAprovacao: { faixas: [{ acimaDe: 0, aprovacoes: 1 }] },
+        notificacoes: { whatsapp: true, whatsappNumero: '(11) 99999-8888' },
+      },
+    });
+    mockGetAuthorization.mockResolvedValue(makeAuth());
+  });
+
+  test('approve reply from the client number goes through the approval flow', async () => {
+    const result = await handler()(replyRequest('5511999998888', 'aprovar:auth-1'), { ...mockContext(), warn: jest.fn() });
+
+    expect(result.status).toBe(200);
+    expect(mockRecordApproval).toHaveBeenCalledWith(
+      'auth-1', [expect.objectContaining({ usuario: 'whatsapp:5511999998888' })], 1, true
+    );
+    expect(mockAddHistory).toHaveBeenCalledWith(expect.objectContaining({ tipo: 'aprovacao' }));
+  });
+
+  test('reject reply rejects the authorization', async () => {
+    await handler()(replyRequest('5511999998888', 'rejeitar:auth-1'), { ...mockContext(), warn: jest.fn() });
+
+    expect(mockRejectAuthorization).toHaveBeenCalledWith('auth-1', expect.stringContaining('WhatsApp'), 'whatsapp:5511999998888');
+  });
+
+  test('reply from another number is ignored', async () => {
+    const context = { ...mockContext(), warn: jest.fn() };
+    const result = await handler()(replyRequest('5511000000000', 'aprovar:auth-1'), context);
+
+    expect(result.status).toBe(200);
+    expect(mockRecordApproval).not.toHaveBeenCalled();
+    expect(context.warn).toHaveBeenCalledWith(expect.stringContaining('not the WhatsApp of client-1'));
+  });
+
+  test('invalid signature is refused', async () => {
+    const result = await handler()(replyRequest('5511999998888', 'aprovar:auth-1', 'other'), mockContext());
+
+    expect(result.status).toBe(401);
+    expect(mockGetAuthorization).not.toHaveBeenCalled();
+  });
+});
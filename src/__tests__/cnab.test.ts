@@ -0,0 +1,664 @@
+/**
+ * Tests for CNAB Ops Module
+ *
+ * Tests fileHelper (retorno 240/400), vinculação com transações, handler de retorno
+ * e geração de remessa CNAB 240 de pagamentos.
+ * Table Storage é mockado.
+ */
+
+// ============================================================================
+// MOCKS
+// ============================================================================
+
+const registeredRoutes: Record<string, any> = {};
+jest.mock('@azure/functions', () => ({
+  app: {
+    http: (name: string, options: any) => {
+      registeredRoutes[name] = options;
+    },
+    timer: jest.fn(),
+  },
+  HttpRequest: jest.fn(),
+  InvocationContext: jest.fn(),
+}));
+
+// Tabela em memória com ETag, para exercitar o tableClient real (partes e lease)
+const tabela = new Map<string, any>();
+let etagSeq = 0;
+const chave = (pk: string, rk: string) => `${pk}|${rk}`;
+jest.mock('@azure/data-tables', () => ({
+  TableClient: {
+    fromConnectionString: jest.fn(() => ({
+      createEntity: async (e: any) => {
+        if (tabela.has(chave(e.partitionKey, e.rowKey))) throw { statusCode: 409 };
+        const etag = `e${++etagSeq}`;
+        tabela.set(chave(e.partitionKey, e.rowKey), { ...e, etag });
+        return { etag };
+      },
+      upsertEntity: async (e: any) => {
+        tabela.set(chave(e.partitionKey, e.rowKey), { ...e, etag: `e${++etagSeq}` });
+      },
+      updateEntity: async (e: any, _mode: string, opts: any) => {
+        const atual = tabela.get(chave(e.partitionKey, e.rowKey));
+        if (!atual) throw { statusCode: 404 };
+        if (opts?.etag && opts.etag !== atual.etag) throw { statusCode: 412 };
+        const etag = `e${++etagSeq}`;
+        tabela.set(chave(e.partitionKey, e.rowKey), { ...e, etag });
+        return { etag };
+      },
+      getEntity: async (pk: string, rk: string) => {
+        const e = tabela.get(chave(pk, rk));
+        if (!e) throw { statusCode: 404 };
+        return { ...e };
+      },
+      deleteEntity: async (pk: string, rk: string, opts: any) => {
+        const atual = tabela.get(chave(pk, rk));
+        if (!atual) throw { statusCode: 404 };
+        if (opts?.etag && opts.etag !== atual.etag) throw { statusCode: 412 };
+        tabela.delete(chave(pk, rk));
+      },
+    })),
+  },
+}));
+
+const mockGetWithReference = jest.fn();
+const mockUpdateTransaction = jest.fn();
+const mockGetTransaction = jest.fn();
+const mockGetClient = jest.fn();
+const mockGetApproved = jest.fn();
+const mockSetAuthRemessa = jest.fn();
+const mockGetRemessas = jest.fn();
+const mockGetRemessa = jest.fn();
+const mockSaveRemessa = jest.fn();
+const mockAcquireLease = jest.fn();
+const mockReleaseLease = jest.fn();
+jest.mock('../storage/tableClient', () => ({
+  getTransactionsWithReference: (...args: any[]) => mockGetWithReference(...args),
+  getTransaction: (...args: any[]) => mockGetTransaction(...args),
+  updateTransaction: (...args: any[]) => mockUpdateTransaction(...args),
+  getActiveClients: jest.fn().mockResolvedValue([]),
+  getClient: (...args: any[]) => mockGetClient(...args),
+  getApprovedAuthorizations: (...args: any[]) => mockGetApproved(...args),
+  setAuthorizationRemessa: (...args: any[]) => mockSetAuthRemessa(...args),
+  getRemessas: (...args: any[]) => mockGetRemessas(...args),
+  getRemessa: (...args: any[]) => mockGetRemessa(...args),
+  saveRemessa: (...args: any[]) => mockSaveRemessa(...args),
+  acquireRemessaLease: (...args: any[]) => mockAcquireLease(...args),
+  releaseRemessaLease: (...args: any[]) => mockReleaseLease(...args),
+  addHistoryAction: jest.fn().mockResolvedValue(undefined),
+}));
+
+import { parseRetorno, detectLayout, parseDataDDMMAA } from '../ops/cnab/adapters/fileHelper';
+import { gerarArquivoRemessa, toCodigoBarras } from '../ops/cnab/adapters/remessa';
+import { findTransactionForDetalhe, statusRemessa } from '../ops/cnab/functions/retorno';
+import '../ops/cnab/functions/remessa';
+import {
+  PendingAuthorization,
+  Remessa,
+  RemessaItem,
+  Transaction,
+  TransactionSource,
+  TransactionStatus,
+  TransactionType,
+} from '../types';
+
+// ============================================================================
+// HELPERS - Build positional lines
+// ============================================================================
+
+/** Escreve campos em posições 0-indexed de uma linha em branco */
+function line(size: number, fields: Array<[number, string]>): string {
+  const chars = ' '.repeat(size).split('');
+  for (const [pos, value] of fields) {
+    for (let i = 0; i < value.length; i++) chars[pos + i] = value[i];
+  }
+  return chars.join('');
+}
+
+function num(n: number, len: number): string {
+  return String(n).padStart(len, '0');
+}
+
+function header240(banco = '033'): string {
+  return line(240, [[0, banco], [3, '0000'], [7, '0'], [18, '12345678000199'], [72, 'EMPRESA TESTE'], [102, 'BANCO SANTANDER'], [142, '2'], [143, '20022026'], [157, '000042']]);
+}
+
+function segmentoT(opts: { movimento: string; nosso: string; documento: string; valor: number }): string {
+  return line(240, [
+    [0, '033'], [7, '3'], [8, '00001'], [13, 'T'], [15, opts.movimento],
+    [37, opts.nosso.padStart(20, '0')], [58, opts.documento], [73, '15022026'],
+    [81, num(opts.valor, 15)], [148, 'CLIENTE PAGADOR'], [198, num(350, 15)],
+  ]);
+}
+
+function segmentoU(opts: { pago: number; juros?: number }): string {
+  return line(240, [
+    [0, '033'], [7, '3'], [8, '00002'], [13, 'U'], [15, '06'],
+    [17, num(opts.juros || 0, 15)], [77, num(opts.pago, 15)], [137, '19022026'], [145, '20022026'],
+  ]);
+}
+
+function segmentoJ(opts: { ocorrencias: string; seuNumero: string; valor: number }): string {
+  return line(240, [
+    [0, '033'], [7, '3'], [8, '00003'], [13, 'J'], [17, '03399876543210000000000000000000000000000000'],
+    [61, 'FORNECEDOR ABC'], [91, '18022026'], [99, num(opts.valor, 15)], [144, '18022026'],
+    [152, num(opts.valor, 15)], [182, opts.seuNumero], [202, '00000000000000007777'], [230, opts.ocorrencias],
+  ]);
+}
+
+function segmentoJ52(): string {
+  return line(240, [[0, '033'], [7, '3'], [8, '00004'], [13, 'J'], [17, '52']]);
+}
+
+function segmentoA(opts: { ocorrencias: string; seuNumero: string; valor: number }): string {
+  return line(240, [
+    [0, '033'], [7, '3'], [8, '00005'], [13, 'A'], [20, '341'], [43, 'FAVORECIDO PIX'],
+    [73, opts.seuNumero], [93, '19022026'], [119, num(opts.valor, 15)], [154, '19022026'],
+    [162, num(opts.valor, 15)], [230, opts.ocorrencias],
+  ]);
+}
+
+function makeTx(overrides: Partial<Transaction> = {}): Transaction {
+  return {
+    id: 'tx-1',
+    clientId: 'client-1',
+    type: TransactionType.RECEBER,
+    status: TransactionStatus.RECEBIMENTO_PENDENTE,
+    source: TransactionSource.NIBO,
+    valor: 1500,
+    descricao: 'Boleto cliente',
+    createdAt: '2026-02-01T00:00:00Z',
+    updatedAt: '2026-02-01T00:00:00Z',
+    capturedAt: '2026-02-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+const RETORNO_240 = [
+  header240(),
+  line(240, [[0, '033'], [3, '0001'], [7, '1'], [8, 'T'], [9, '01']]),
+  segmentoT({ movimento: '06', nosso: '123456', documento: 'NF-100', valor: 150000 }),
+  segmentoU({ pago: 151000, juros: 1000 }),
+  segmentoT({ movimento: '03', nosso: '123457', documento: 'NF-101', valor: 5000 }),
+  segmentoU({ pago: 0 }),
+  segmentoT({ movimento: '02', nosso: '123458', documento: 'NF-102', valor: 7000 }),
+  segmentoJ({ ocorrencias: '00', seuNumero: 'PAG-1', valor: 89990 }),
+  segmentoJ52(),
+  segmentoA({ ocorrencias: 'HD', seuNumero: 'PAG-2', valor: 20000 }),
+  segmentoA({ ocorrencias: 'BD', seuNumero: 'PAG-3', valor: 30000 }),
+  line(240, [[0, '033'], [7, '9']]),
+].join('\r\n');
+
+// ============================================================================
+// TESTS - FILE HELPER
+// ============================================================================
+
+describe('CNAB FileHelper - retorno 240', () => {
+  test('parses header and detects layout', () => {
+    const retorno = parseRetorno(RETORNO_240);
+
+    expect(detectLayout(RETORNO_240)).toBe('240');
+    expect(retorno.header).toMatchObject({
+      layout: '240', banco: '033', tipoArquivo: 'retorno', dataGeracao: '2026-02-20', sequencial: 42,
+    });
+  });
+
+  test('pairs T/U and maps cobrança occurrences', () => {
+    const [liquidado, rejeitado, confirmado] = parseRetorno(RETORNO_240).detalhes;
+
+    expect(liquidado).toMatchObject({
+      segmento: 'T',
+      operacao: 'cobranca',
+      codigoOcorrencia: '06',
+      status: TransactionStatus.RECEBIDO,
+      nossoNumero: '123456',
+      numeroDocumento: 'NF-100',
+      dataVencimento: '2026-02-15',
+      dataOcorrencia: '2026-02-19',
+      dataCredito: '2026-02-20',
+      valorTitulo: 1500,
+      valorPago: 1510,
+      juros: 10,
+      tarifa: 3.5,
+    });
+    expect(rejeitado.status).toBe(TransactionStatus.REJEITADO);
+    expect(confirmado.status).toBeNull();
+  });
+
+  test('parses J (skipping J-52) and A with payment occurrences', () => {
+    const detalhes = parseRetorno(RETORNO_240).detalhes;
+    const pagamentos = detalhes.filter((d) => d.operacao === 'pagamento');
+
+    expect(detalhes).toHaveLength(6);
+    expect(pagamentos.map((d) => [d.segmento, d.status])).toEqual([
+      ['J', TransactionStatus.PAGO],
+      ['A', TransactionStatus.REJEITADO],
+      ['A', TransactionStatus.AGENDADO],
+    ]);
+    expect(pagamentos[0]).toMatchObject({
+      numeroDocumento: 'PAG-1', nossoNumero: '7777', valorPago: 899.9, dataCredito: '2026-02-18',
+    });
+    expect(pagamentos[1].descricaoOcorrencia).toContain('saldo');
+  });
+
+  test('throws without file header', () => {
+    expect(() => parseRetorno(segmentoT({ movimento: '06', nosso: '1', documento: 'x', valor: 1 }))).toThrow('CNAB 240');
+  });
+});
+
+describe('CNAB FileHelper - retorno 400', () => {
+  test('parses cobrança detail records', () => {
+    const conteudo = [
+      line(400, [[0, '0'], [1, '2'], [2, 'RETORNO'], [46, 'EMPRESA TESTE'], [76, '033'], [79, 'SANTANDER'], [94, '200226']]),
+      line(400, [[0, '1'], [62, '00004321'], [108, '06'], [110, '190226'], [116, 'NF-200'], [146, '150226'], [152, num(25000, 13)], [253, num(25000, 13)], [295, '200226']]),
+      line(400, [[0, '9']]),
+    ].join('\n');
+
+    const retorno = parseRetorno(conteudo);
+
+    expect(retorno.header).toMatchObject({ layout: '400', banco: '033', dataGeracao: '2026-02-20' });
+    expect(retorno.detalhes).toHaveLength(1);
+    expect(retorno.detalhes[0]).toMatchObject({
+      nossoNumero: '4321', numeroDocumento: 'NF-200', status: TransactionStatus.RECEBIDO, valorPago: 250, dataCredito: '2026-02-20',
+    });
+    expect(parseDataDDMMAA('000000')).toBeNull();
+  });
+});
+
+// ============================================================================
+// TESTS - VINCULAÇÃO + HANDLER
+// ============================================================================
+
+describe('CNAB Retorno - vinculação', () => {
+  test('matches by nossoNumero ignoring leading zeros, then numeroDocumento', () => {
+    const [liquidado] = parseRetorno(RETORNO_240).detalhes;
+    const txs = [
+      makeTx({ id: 'por-doc', numeroDocumento: 'NF-100' }),
+      makeTx({ id: 'por-nosso', nossoNumero: '000123456' }),
+    ];
+
+    expect(findTransactionForDetalhe(liquidado, txs)?.id).toBe('por-nosso');
+    expect(findTransactionForDetalhe(liquidado, [txs[0]])?.id).toBe('por-doc');
+    expect(findTransactionForDetalhe(liquidado, [])).toBeUndefined();
+  });
+
+  test('prefers transaction type compatible with operation', () => {
+    const pagamento = parseRetorno(RETORNO_240).detalhes.find((d) => d.segmento === 'J')!;
+    const txs = [
+      makeTx({ id: 'receber', numeroDocumento: 'PAG-1' }),
+      makeTx({ id: 'pagar', numeroDocumento: 'PAG-1', type: TransactionType.PAGAR }),
+    ];
+
+    expect(findTransactionForDetalhe(pagamento, txs)?.id).toBe('pagar');
+  });
+});
+
+describe('CNAB Retorno Handler', () => {
+  beforeEach(() => {
+    mockUpdateTransaction.mockReset();
+    mockGetWithReference.mockReset();
+    mockGetRemessas.mockReset().mockResolvedValue([]);
+    mockSaveRemessa.mockReset();
+    mockGetWithReference.mockResolvedValue([
+      makeTx({ id: 'tx-boleto', nossoNumero: '123456' }),
+      makeTx({ id: 'tx-forn', numeroDocumento: 'PAG-1', type: TransactionType.PAGAR, status: TransactionStatus.AGENDADO }),
+      makeTx({ id: 'tx-conc', numeroDocumento: 'PAG-3', type: TransactionType.PAGAR, status: TransactionStatus.CONCILIADO }),
+    ]);
+  });
+
+  test('retorno function is registered', () => {
+    expect(registeredRoutes['cnab-retorno']).toBeDefined();
+    expect(registeredRoutes['cnab-retorno'].route).toBe('cnab/retorno');
+  });
+
+  test('updates linked transactions and reports unlinked', async () => {
+    const req = { json: async () => ({ clientId: 'client-1', nomeArquivo: 'ret.txt', conteudo: RETORNO_240 }) };
+
+    const result = await registeredRoutes['cnab-retorno'].handler(req, {});
+
+    expect(result.status).toBe(200);
+    expect(result.jsonBody).toMatchObject({ banco: '033', layout: '240', registros: 6, liquidados: 2, rejeitados: 2 });
+    expect(result.jsonBody.vinculados.map((v: any) => v.transactionId)).toEqual(['tx-boleto', 'tx-forn']);
+    expect(result.jsonBody.naoVinculados).toHaveLength(3);
+
+    const [clientId, txId, updates] = mockUpdateTransaction.mock.calls[0];
+    expect([clientId, txId]).toEqual(['client-1', 'tx-boleto']);
+    expect(updates).toMatchObject({ status: TransactionStatus.RECEBIDO, dataRealizacao: '2026-02-20' });
+    expect(updates.metadata.cnab).toMatchObject({ ocorrencia: '06', valorPago: 1510, arquivo: 'ret.txt' });
+    expect(mockUpdateTransaction).toHaveBeenCalledTimes(2);
+  });
+
+  test('does not regress settled transactions', async () => {
+    mockGetWithReference.mockResolvedValue([
+      makeTx({ id: 'tx-boleto', nossoNumero: '123456', status: TransactionStatus.RECEBIDO }),
+      makeTx({ id: 'tx-forn', numeroDocumento: 'PAG-1', type: TransactionType.PAGAR, status: TransactionStatus.PAGO }),
+    ]);
+    const req = { json: async () => ({ clientId: 'client-1', conteudo: RETORNO_240 }) };
+
+    const result = await registeredRoutes['cnab-retorno'].handler(req, {});
+
+    expect(result.jsonBody.vinculados).toEqual([]);
+    expect(result.jsonBody.naoVinculados).toEqual(expect.arrayContaining([
+      expect.objectContaining({ transactionId: 'tx-forn', motivo: `Transação já ${TransactionStatus.PAGO}` }),
+    ]));
+    expect(mockUpdateTransaction).not.toHaveBeenCalled();
+  });
+
+  test('action=listar does not touch storage', async () => {
+    const req = { json: async () => ({ clientId: 'client-1', conteudo: RETORNO_240, action: 'listar' }) };
+
+    const result = await registeredRoutes['cnab-retorno'].handler(req, {});
+
+    expect(result.status).toBe(200);
+    expect(result.jsonBody.detalhes).toHaveLength(6);
+    expect(mockGetWithReference).not.toHaveBeenCalled();
+  });
+
+  test('returns 400 without content', async () => {
+    const result = await registeredRoutes['cnab-retorno'].handler({ json: async () => ({ clientId: 'client-1' }) }, {});
+    expect(result.status).toBe(400);
+  });
+
+  test('tracks items of a generated remessa by seuNumero', async () => {
+    const remessa = makeRemessa([
+      makeItem({ seuNumero: 'PAG-1', transactionId: 'tx-rem-1' }),
+      makeItem({ seuNumero: 'PAG-2', transactionId: 'tx-rem-2', forma: 'pix', codigoBarras: undefined }),
+    ]);
+    mockGetRemessas.mockResolvedValue([remessa]);
+    mockGetTransaction.mockImplementation(async (_c: string, id: string) =>
+      makeTx({ id, type: TransactionType.PAGAR, status: TransactionStatus.PAGAMENTO_PENDENTE }));
+    const req = { json: async () => ({ clientId: 'client-1', conteudo: RETORNO_240 }) };
+
+    const result = await registeredRoutes['cnab-retorno'].handler(req, {});
+
+    expect(result.jsonBody.vinculados).toEqual(expect.arrayContaining([
+      expect.objectContaining({ transactionId: 'tx-rem-1', remessaId: remessa.id, status: TransactionStatus.PAGO }),
+      expect.objectContaining({ transactionId: 'tx-rem-2', remessaId: remessa.id, status: TransactionStatus.REJEITADO }),
+    ]));
+    const saved: Remessa = mockSaveRemessa.mock.calls[0][0];
+    expect(saved.itens.map((i) => [i.status, i.ocorrencia])).toEqual([['pago', '00'], ['rejeitado', 'HD']]);
+    expect(saved.status).toBe('concluida');
+  });
+});
+
+// ============================================================================
+// TESTS - REMESSA
+// ============================================================================
+
+// Código de barras de boleto Santander (44 posições) e a linha digitável equivalente
+const CODIGO_BARRAS = '03399876543210000012345678901234567890123456';
+const LINHA_DIGITAVEL = CODIGO_BARRAS.substring(0, 4) + CODIGO_BARRAS.substring(19, 24) + '0'
+  + CODIGO_BARRAS.substring(24, 34) + '0' + CODIGO_BARRAS.substring(34, 44) + '0'
+  + CODIGO_BARRAS.substring(4, 5) + CODIGO_BARRAS.substring(5, 19);
+
+function makeItem(overrides: Partial<RemessaItem> = {}): RemessaItem {
+  return {
+    authorizationId: 'auth-1',
+    transactionId: 'tx-1',
+    seuNumero: 'ABC123',
+    forma: 'boleto',
+    valor: 899.9,
+    dataPagamento: '2026-02-18',
+    favorecido: 'Fornecedor ABC',
+    documentoFavorecido: '11.222.333/0001-44',
+    codigoBarras: CODIGO_BARRAS,
+    vencimento: '2026-02-18',
+    status: 'pendente',
+    ...overrides,
+  };
+}
+
+function makeRemessa(itens: RemessaItem[]): Remessa {
+  return {
+    id: 'rem-033-000001',
+    clientId: 'client-1',
+    banco: '033',
+    agencia: '1234',
+    conta: '130012345',
+    contaDigito: '6',
+    convenio: '0033123412345678',
+    cnpjEmpresa: '12345678000199',
+    nomeEmpresa: 'Empresa Teste Ltda',
+    sequencial: 1,
+    nomeArquivo: 'REM033_20260217_000001.REM',
+    geradaEm: '2026-02-17T12:00:00.000Z',
+    status: 'gerada',
+    valorTotal: itens.reduce((s, i) => s + i.valor, 0),
+    itens,
+  };
+}
+
+function makeAuth(overrides: Partial<PendingAuthorization> = {}): PendingAuthorization {
+  return {
+    id: 'auth-1',
+    clientId: 'client-1',
+    transactionId: 'tx-1',
+    tipo: 'pagar',
+    descricao: 'Fornecedor',
+    valor: 500,
+    vencimento: '2026-01-10',
+    contraparte: 'Fornecedor ABC',
+    categoria: 'Fornecedores',
+    status: 'aprovado',
+    criadoEm: '2026-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('CNAB Remessa - arquivo', () => {
+  const remessa = makeRemessa([
+    makeItem(),
+    makeItem({ seuNumero: 'PIX001', forma: 'pix', codigoBarras: undefined, chavePix: 'fornecedor@abc.com.br', tipoChavePix: 'email', valor: 200 }),
+    makeItem({ seuNumero: 'TED001', forma: 'ted', codigoBarras: undefined, banco: '341', agencia: '4321', conta: '98765', contaDigito: '0', valor: 300.1 }),
+  ]);
+
+  test('generates 240-column lines with one batch per forma de lançamento', () => {
+    const linhas = gerarArquivoRemessa(remessa).split('\r\n').filter(Boolean);
+
+    expect(linhas.every((l) => l.length === 240)).toBe(true);
+    // header arquivo + 3 lotes × (header + 2 detalhes + trailer) + trailer arquivo
+    expect(linhas).toHaveLength(14);
+    expect(linhas.filter((l) => l[7] === '1').map((l) => l.substring(11, 13))).toEqual(['30', '45', '41']);
+    expect(linhas[0].substring(142, 143)).toBe('1');
+    expect(linhas[0].substring(157, 163)).toBe('000001');
+
+    const trailer = linhas[linhas.length - 1];
+    expect(trailer.substring(17, 23)).toBe('000003');
+    expect(trailer.substring(23, 29)).toBe('000014');
+  });
+
+  test('is read back by the retorno parser with the same seuNumero and values', () => {
+    const detalhes = parseRetorno(gerarArquivoRemessa(remessa)).detalhes;
+
+    expect(detalhes.map((d) => [d.segmento, d.numeroDocumento, d.valorPago])).toEqual([
+      ['J', 'ABC123', 899.9],
+      ['A', 'PIX001', 200],
+      ['A', 'TED001', 300.1],
+    ]);
+  });
+
+  test('converts linha digitável to código de barras', () => {
+    expect(toCodigoBarras(LINHA_DIGITAVEL)).toBe(CODIGO_BARRAS);
+    expect(toCodigoBarras(CODIGO_BARRAS)).toBe(CODIGO_BARRAS);
+    expect(toCodigoBarras('8'.repeat(48))).toBeNull();
+  });
+
+  test('statusRemessa reflects item progress', () => {
+    expect(statusRemessa([makeItem(), makeItem()])).toBe('gerada');
+    expect(statusRemessa([makeItem({ status: 'agendado' }), makeItem()])).toBe('parcial');
+    expect(statusRemessa([makeItem({ status: 'pago' }), makeItem({ status: 'rejeitado' })])).toBe('concluida');
+  });
+});
+
+describe('CNAB Remessa Handlers', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetClient.mockResolvedValue({
+      id: 'client-1',
+      nome: 'Empresa Teste',
+      cnpj: '12345678000199',
+      config: { banco: 'santander', pagamentoModo: 'cnab', bancoAgencia: '1234', bancoConta: '130012345', bancoConvenio: '0033123412345678' },
+    });
+    mockGetRemessas.mockResolvedValue([makeRemessa([makeItem()])]);
+    mockAcquireLease.mockResolvedValue('etag-1');
+    mockReleaseLease.mockResolvedValue(undefined);
+    mockGetApproved.mockResolvedValue([
+      makeAuth({ id: 'auth-boleto', transactionId: 'tx-boleto' }),
+      makeAuth({ id: 'auth-pix', transactionId: 'tx-pix', valor: 250 }),
+      makeAuth({ id: 'auth-sem-dados', transactionId: 'tx-sem-dados' }),
+      makeAuth({ id: 'auth-ja-enviada', transactionId: 'tx-x', remessaId: 'rem-anterior' }),
+      makeAuth({ id: 'auth-receber', transactionId: 'tx-y', tipo: 'receber' }),
+    ]);
+    mockGetTransaction.mockImplementation(async (_c: string, id: string) => {
+      const base = { id, type: TransactionType.PAGAR, status: TransactionStatus.PAGAMENTO_PENDENTE };
+      if (id === 'tx-boleto') return makeTx({ ...base, codigoBarras: LINHA_DIGITAVEL, dataVencimento: '2026-01-10' });
+      if (id === 'tx-pix') return makeTx({ ...base, metadata: { favorecido: { nome: 'Prestador', chavePix: '11122233344', tipoChavePix: 'cpf' } } });
+      return makeTx(base);
+    });
+  });
+
+  test('remessa functions are registered', () => {
+    expect(registeredRoutes['cnab-remessa-gerar'].route).toBe('cnab/remessa/gerar');
+    expect(registeredRoutes['cnab-remessas-list'].route).toBe('cnab/remessas');
+    expect(registeredRoutes['cnab-remessa-arquivo'].route).toBe('cnab/remessas/{clientId}/{remessaId}/arquivo');
+  });
+
+  test('groups approved payments into a remessa and marks them pending', async () => {
+    const result = await registeredRoutes['cnab-remessa-gerar'].handler(
+      { json: async () => ({ clientId: 'client-1' }) }, {}
+    );
+
+    expect(result.status).toBe(200);
+    expect(result.jsonBody.remessas).toHaveLength(1);
+    expect(result.jsonBody.ignorados).toEqual([
+      expect.objectContaining({ authorizationId: 'auth-sem-dados' }),
+    ]);
+
+    const saved: Remessa = mockSaveRemessa.mock.calls[0][0];
+    expect(saved).toMatchObject({ banco: '033', sequencial: 2, valorTotal: 750, status: 'gerada' });
+    expect(saved.itens.map((i) => [i.authorizationId, i.forma])).toEqual([['auth-boleto', 'boleto'], ['auth-pix', 'pix']]);
+    expect(saved.itens[0].codigoBarras).toBe(CODIGO_BARRAS);
+    expect(saved.itens[0].dataPagamento >= '2026-01-10').toBe(true);
+
+    expect(mockSetAuthRemessa).toHaveBeenCalledWith('auth-boleto', saved.id);
+    expect(mockUpdateTransaction).toHaveBeenCalledWith('client-1', 'tx-pix', expect.objectContaining({
+      status: TransactionStatus.PAGAMENTO_PENDENTE,
+      metadata: expect.objectContaining({ remessaId: saved.id, seuNumero: saved.itens[1].seuNumero }),
+    }));
+  });
+
+  test('returns 409 while another run holds the client lease', async () => {
+    mockAcquireLease.mockResolvedValue(null);
+
+    const result = await registeredRoutes['cnab-remessa-gerar'].handler(
+      { json: async () => ({ clientId: 'client-1' }) }, {}
+    );
+
+    expect(result.status).toBe(409);
+    expect(mockGetApproved).not.toHaveBeenCalled();
+    expect(mockSaveRemessa).not.toHaveBeenCalled();
+  });
+
+  test('releases the lease when generation fails', async () => {
+    mockSaveRemessa.mockRejectedValueOnce(new Error('storage indisponível'));
+
+    const result = await registeredRoutes['cnab-remessa-gerar'].handler(
+      { json: async () => ({ clientId: 'client-1' }) }, {}
+    );
+
+    expect(result.status).toBe(500);
+    expect(mockReleaseLease).toHaveBeenCalledWith('client-1', 'etag-1');
+  });
+
+  test('returns 400 when the client has no bank account configured', async () => {
+    mockGetClient.mockResolvedValue({ id: 'client-1', config: { banco: 'santander' } });
+
+    const result = await registeredRoutes['cnab-remessa-gerar'].handler(
+      { json: async () => ({ clientId: 'client-1' }) }, {}
+    );
+
+    expect(result.status).toBe(400);
+    expect(mockSaveRemessa).not.toHaveBeenCalled();
+  });
+
+  test('refuses clients that pay through the bank API', async () => {
+    mockGetClient.mockResolvedValue({
+      id: 'client-1',
+      config: { banco: 'santander', bancoAgencia: '1234', bancoConta: '130012345' },
+    });
+
+    const result = await registeredRoutes['cnab-remessa-gerar'].handler(
+      { json: async () => ({ clientId: 'client-1' }) }, {}
+    );
+
+    expect(result.status).toBe(400);
+    expect(result.jsonBody.error).toContain('via API');
+    expect(mockAcquireLease).not.toHaveBeenCalled();
+    expect(mockSaveRemessa).not.toHaveBeenCalled();
+  });
+
+  test('downloads the regenerated file', async () => {
+    const remessa = makeRemessa([makeItem()]);
+    mockGetRemessa.mockResolvedValue(remessa);
+
+    const result = await registeredRoutes['cnab-remessa-arquivo'].handler(
+      { params: { clientId: 'client-1', remessaId: remessa.id } }, {}
+    );
+
+    expect(result.status).toBe(200);
+    expect(result.headers['Content-Disposition']).toContain(remessa.nomeArquivo);
+    expect(result.body).toBe(gerarArquivoRemessa(remessa));
+  });
+
+  test('download returns 404 for unknown remessa', async () => {
+    mockGetRemessa.mockResolvedValue(null);
+
+    const result = await registeredRoutes['cnab-remessa-arquivo'].handler(
+      { params: { clientId: 'client-1', remessaId: 'x' } }, {}
+    );
+
+    expect(result.status).toBe(404);
+  });
+});
+
+describe('CNAB Remessa - armazenamento', () => {
+  const storage = jest.requireActual('../storage/tableClient');
+
+  beforeAll(() => {
+    process.env.AZURE_STORAGE_CONNECTION_STRING = process.env.AZURE_STORAGE_CONNECTION_STRING || 'UseDevelopmentStorage=true';
+  });
+
+  beforeEach(() => tabela.clear());
+
+  test('splits items over 32K characters across properties and reads them back', async () => {
+    const itens = Array.from({ length: 100 }, (_, i) =>
+      makeItem({ authorizationId: `auth-${i}`, favorecido: `FAVORECIDO ${'X'.repeat(300)} ${i}` })
+    );
+    const remessa = makeRemessa(itens);
+
+    await storage.saveRemessa(remessa);
+
+    const entity = tabela.get(chave('client-1', remessa.id));
+    expect(entity.itensPartes).toBeGreaterThan(1);
+    for (let i = 0; i < entity.itensPartes; i++) {
+      expect(entity[i === 0 ? 'itens' : `itens${i}`].length).toBeLessThanOrEqual(32 * 1024);
+    }
+    expect((await storage.getRemessa('client-1', remessa.id)).itens).toEqual(itens);
+  });
+
+  test('lease is exclusive until released or expired', async () => {
+    const lease = await storage.acquireRemessaLease('client-1', 60_000);
+
+    expect(lease).toBeTruthy();
+    expect(await storage.acquireRemessaLease('client-1', 60_000)).toBeNull();
+
+    await storage.releaseRemessaLease('client-1', lease);
+    const vencido = await storage.acquireRemessaLease('client-1', -1);
+    expect(vencido).toBeTruthy();
+
+    const novo = await storage.acquireRemessaLease('client-1', 60_000);
+    expect(novo).toBeTruthy();
+    await storage.releaseRemessaLease('client-1', vencido);
+    expect(await storage.acquireRemessaLease('client-1', 60_000)).toBeNull();
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Tests for Controlle Ops Module - write-back (sync)
+ *
+ * Categoria por id/nome, resolução/cadastro do contato, marca do mesh
+ * para reenvio sem duplicar, POST sem retry e o handler controlle/sync.
+ * ControlleClient e Table Storage são mockados.
+ */
+
+// ============================================================================
+// MOCKS
+// ============================================================================
+
+const registeredRoutes: Record<string, any> = {};
+jest.mock('@azure/functions', () => ({
+  app: {
+    http: (name: string, options: any) => {
+      registeredRoutes[name] = options;
+    },
+  },
+  HttpRequest: jest.fn(),
+  InvocationContext: jest.fn(),
+}));
+
+const mockGetCategories = jest.fn();
+const mockUpdateTransaction = jest.fn().mockResolvedValue(undefined);
+jest.mock('../storage/tableClient', () => ({
+  getCategories: (...args: any[]) => mockGetCategories(...args),
+  updateTransaction: (...args: any[]) => mockUpdateTransaction(...args),
+}));
+
+const mockResolveControlleClient = jest.fn();
+jest.mock('../ops/controlle/adapters/tenant', () => ({
+  resolveControlleClient: (...args: any[]) => mockResolveControlleClient(...args),
+}));
+
+import {
+  ControlleSyncError,
+  resetControlleWriteBackCache,
+  syncToControlle,
+} from '../ops/controlle/adapters/writeBack';
+import { SyncRequest } from '../ops/controlle/adapters/types';
+import { ControlleClient } from '../ops/controlle/adapters/client';
+import { TenantResolutionError } from '../ops/shared/tenant';
+import '../ops/controlle/functions/sync';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function fakeControlle() {
+  return {
+    getCategorias: jest.fn().mockResolvedValue([
+      { id: 11, name: 'Aluguel', kind: 'expense' },
+      { id: 12, name: 'Serviços', kind: 'income' },
+      { id: 13, name: 'Serviços', kind: 'expense' },
+      { id: 14, name: 'Marketing', kind: 'expense', archive: true },
+    ]),
+    listContatos: jest.fn().mockResolvedValue([
+      { id: 21, name: 'Imobiliária Centro', document: '12.345.678/0001-99' },
+    ]),
+    createContato: jest.fn().mockResolvedValue({ id: 22, name: 'Cliente Beta' }),
+    listLancamentos: jest.fn().mockResolvedValue([]),
+    createLancamento: jest.fn().mockResolvedValue({ id: 301 }),
+    updateLancamento: jest.fn().mockImplementation(async (id: number) => ({ id })),
+  };
+}
+
+function syncRequest(overrides: Partial<SyncRequest> = {}): SyncRequest {
+  return {
+    transactionId: 'tx-1',
+    clientId: 'client-1',
+    descricao: 'Aluguel março',
+    valor: 3500,
+    dataVencimento: '2026-03-10',
+    categoriaId: 'cat-aluguel',
+    categoriaNome: 'Aluguel',
+    contraparte: 'Imobiliaria Centro LTDA',
+    contraparteCnpj: '12345678000199',
+    tipo: 'pagar',
+    ...overrides,
+  };
+}
+
+function mockRequest(body: unknown): any {
+  return { json: async () => body };
+}
+
+const mockContext = {} as any;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  resetControlleWriteBackCache();
+  mockGetCategories.mockResolvedValue([]);
+});
+
+// ============================================================================
+// WRITE-BACK
+// ============================================================================
+
+describe('Controlle write-back', () => {
+  test('creates an expense with category, contact by CNPJ and the mesh mark', async () => {
+    const controlle = fakeControlle();
+
+    const result = await syncToControlle(controlle as any, syncRequest());
+
+    expect(result).toEqual({ action: 'created', controlleId: '301', categoryId: 11, contactId: 21 });
+    expect(controlle.listLancamentos).toHaveBeenCalledWith('2025-03-09', '2027-03-11', 'expense');
+    expect(controlle.createLancamento).toHaveBeenCalledWith({
+      description: 'Aluguel março',
+      date: '2026-03-10',
+      amount_cents: -350000,
+      category_id: 11,
+      contact_id: 21,
+      competency_date: undefined,
+      notes: 'mesh:tx-1',
+      tags: ['mesh:tx-1'],
+    });
+  });
+
+  test('matches the category of the right kind and registers an unknown contact', async () => {
+    const controlle = fakeControlle();
+
+    const result = await syncToControlle(controlle as any, syncRequest({
+      tipo: 'receber', valor: 1200, categoriaId: undefined, categoriaNome: 'servicos', contraparte: 'Cliente Beta', contraparteCnpj: undefined,
+    }));
+
+    expect(result.categoryId).toBe(12);
+    expect(controlle.createContato).toHaveBeenCalledWith({ name: 'Cliente Beta', document: undefined, notes: 'Cadastrado pelo mesh' });
+    expect(controlle.createLancamento).toHaveBeenCalledWith(expect.objectContaining({ amount_cents: 120000, contact_id: 22 }));
+  });
+
+  test('re-sync finds the marked lançamento and updates it instead of duplicating', async () => {
+    const controlle = fakeControlle();
+    controlle.listLancamentos.mockResolvedValue([
+      { id: 299, notes: 'outro' },
+      { id: 301, notes: 'mesh:tx-1', tags: ['mesh:tx-1'] },
+    ]);
+
+    const result = await syncToControlle(controlle as any, syncRequest({ valor: 3600 }));
+
+    expect(result).toEqual(expect.objectContaining({ action: 'updated', controlleId: '301' }));
+    expect(controlle.createLancamento).not.toHaveBeenCalled();
+    expect(controlle.updateLancamento).toHaveBeenCalledWith(301, expect.not.objectContaining({ notes: expect.anything() }));
+  });
+
+  test('known external id skips the lookup; archived categories do not match', async () => {
+    const controlle = fakeControlle();
+
+    const result = await syncToControlle(controlle as any, syncRequest({ existingExternalId: '450' }));
+    expect(result.action).toBe('updated');
+    expect(controlle.listLancamentos).not.toHaveBeenCalled();
+
+    await expect(syncToControlle(controlle as any, syncRequest({ categoriaId: undefined, categoriaNome: 'Marketing' })))
+      .rejects.toBeInstanceOf(ControlleSyncError);
+  });
+
+  test('failed lookups propagate instead of creating duplicates', async () => {
+    const controlle = fakeControlle();
+    controlle.listLancamentos.mockRejectedValue(new Error('Controlle API error 503: busy'));
+
+    await expect(syncToControlle(controlle as any, syncRequest())).rejects.toThrow('503');
+    expect(controlle.createLancamento).not.toHaveBeenCalled();
+
+    const semContatos = fakeControlle();
+    semContatos.listContatos.mockRejectedValue(new Error('Controlle API error 503: busy'));
+
+    await expect(syncToControlle(semContatos as any, syncRequest())).rejects.toThrow('503');
+    expect(semContatos.createContato).not.toHaveBeenCalled();
+    expect(semContatos.createLancamento).not.toHaveBeenCalled();
+  });
+});
+
+// ============================================================================
+// CLIENT
+// ============================================================================
+
+describe('ControlleClient requests', () => {
+  const fetchOriginal = global.fetch;
+  afterEach(() => {
+    global.fetch = fetchOriginal;
+  });
+
+  test('failed POST is not repeated (the lançamento may have been created)', async () => {
+    const fetchMock = jest.fn().mockResolvedValue({ ok: false, status: 504, text: async () => 'gateway timeout' });
+    global.fetch = fetchMock as any;
+
+    await expect(new ControlleClient('key').createLancamento({} as any)).rejects.toThrow('504');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  test('PUT is retried', async () => {
+    const fetchMock = jest.fn()
+      .mockResolvedValueOnce({ ok: false, status: 503, text: async () => 'busy' })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ id: 301 }) });
+    global.fetch = fetchMock as any;
+
+    expect(await new ControlleClient('key').updateLancamento(301, {} as any)).toEqual({ id: 301 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  test('lookups throw after the retries instead of returning an empty list', async () => {
+    jest.useFakeTimers();
+    const fetchMock = jest.fn().mockResolvedValue({ ok: false, status: 503, text: async () => 'busy' });
+    global.fetch = fetchMock as any;
+
+    try {
+      const lookup = expect(new ControlleClient('key').listLancamentos('2026-01-01', '2026-12-31')).rejects.toThrow('503');
+      await jest.runAllTimersAsync();
+      await lookup;
+    } finally {
+      jest.useRealTimers();
+    }
+    expect(fetchMock.mock.calls.length).toBeGreaterThan(1);
+  });
+});
+
+// ============================================================================
+// HANDLER
+// ============================================================================
+
+describe('controlle-sync handler', () => {
+  const handler = () => registeredRoutes['controlle-sync'].handler;
+
+  test('syncs with the client credentials and stores controlleId on the transaction', async () => {
+    mockResolveControlleClient.mockResolvedValue(fakeControlle());
+
+    const res = await handler()(mockRequest(syncRequest()), mockContext);
+
+    expect(mockResolveControlleClient).toHaveBeenCalledWith('client-1');
+    expect(res.jsonBody).toEqual({ success: true, action: 'created', externalId: '301' });
+    expect(mockUpdateTransaction).toHaveBeenCalledWith('client-1', 'tx-1', { controlleId: '301' });
+  });
+
+  test('returns skipped with the reason for transactions without category', async () => {
+    mockResolveControlleClient.mockResolvedValue(fakeControlle());
+
+    const res = await handler()(mockRequest(syncRequest({ categoriaId: undefined, categoriaNome: undefined })), mockContext);
+
+    expect(res.status).toBe(200);
+    expect(res.jsonBody).toEqual({ success: false, action: 'skipped', error: 'Transação sem categoria' });
+    expect(mockUpdateTransaction).not.toHaveBeenCalled();
+  });
+
+  test('client without API key is skipped and unknown clients get 404', async () => {
+    mockResolveControlleClient.mockRejectedValueOnce(new ControlleSyncError('Cliente client-1 sem credenciais Controlle (controlleApiKey)'));
+    const semChave = await handler()(mockRequest(syncRequest()), mockContext);
+    expect(semChave.status).toBe(200);
+    expect(semChave.jsonBody).toMatchObject({ success: false, action: 'skipped' });
+
+    mockResolveControlleClient.mockRejectedValueOnce(new TenantResolutionError('Cliente client-1 não encontrado', 404));
+    const desconhecido = await handler()(mockRequest(syncRequest()), mockContext);
+    expect(desconhecido.status).toBe(404);
+  });
+});
@@ -1,4 +1,4 @@
-import { DecisionEngine } from '../ai/decisionEngine';
+import { DecisionEngine, DEFAULT_DECISION_RULES, validateDecisionRules } from '../ai/decisionEngine';
 import {
   Transaction,
   ClassificationResult,
@@ -240,4 +240,98 @@ describe('DecisionEngine', () => {
       expect(decision.regrasAplicadas).not.toContain('MATCH_CONFIRMADO');
     });
   });
+
+  describe('Custom tenant rules', () => {
+    test('lower value threshold escalates sooner', () => {
+      const custom = new DecisionEngine([
+        ...DEFAULT_DECISION_RULES.filter(r => r.id !== 'VALOR_MUITO_ALTO'),
+        {
+          id: 'VALOR_ALTO_CLIENTE',
+          prioridade: 20,
+          ativo: true,
+          condicoes: [{ campo: 'valor', operador: 'gt', valor: 10000 }],
+          acao: 'escalar',
+          requisitoHumano: true,
+          confianca: 1.0,
+          razao: 'Acima de R$ {valor}',
+        },
+      ]);
+
+      const decision = custom.decide(makeTx({ valor: 12000 }), makeClassification(0.99), []);
+
+      expect(decision.acao).toBe('escalar');
+      expect(decision.regrasAplicadas).toEqual(['VALOR_ALTO_CLIENTE']);
+    });
+
+    test('conditions on source, contraparte and categoria', () => {
+      const custom = new DecisionEngine([
+        {
+          id: 'TARIFA_BANCARIA_AUTO',
+          prioridade: 1,
+          ativo: true,
+          condicoes: [
+            { campo: 'source', operador: 'eq', valor: 'santander' },
+            { campo: 'contraparte', operador: 'contains', valor: 'banco' },
+            { campo: 'categoria', operador: 'in', valor: ['Despesas Financeiras'] },
+          ],
+          acao: 'categorizar_auto',
+          requisitoHumano: false,
+          razao: 'Tarifa bancária',
+        },
+        ...DEFAULT_DECISION_RULES,
+      ]);
+
+      const tarifa = custom.decide(
+        makeTx({ contraparte: 'Banco Santander' }),
+        { ...makeClassification(0.4), categoria: 'Despesas Financeiras' },
+        []
+      );
+      const outra = custom.decide(makeTx(), makeClassification(0.4), []);
+
+      expect(tarifa.regrasAplicadas).toEqual(['TARIFA_BANCARIA_AUTO']);
+      expect(tarifa.confianca).toBe(0.4);
+      expect(outra.regrasAplicadas).toEqual(['CLASSIFICACAO_BAIXA_CONFIANCA']);
+    });
+
+    test('inactive rules are skipped', () => {
+      const custom = new DecisionEngine(
+        DEFAULT_DECISION_RULES.map(r => r.id === 'VALOR_MUITO_ALTO' ? { ...r, ativo: false } : r)
+      );
+
+      const decision = custom.decide(makeTx({ valor: 60000 }), makeClassification(0.99), []);
+
+      expect(decision.acao).toBe('categorizar_auto');
+    });
+
+    test('escalates when no rule fires', () => {
+      const custom = new DecisionEngine([
+        {
+          id: 'SO_RECEBER',
+          prioridade: 1,
+          ativo: true,
+          condicoes: [{ campo: 'tipo', operador: 'eq', valor: 'receber' }],
+          acao: 'categorizar_auto',
+          requisitoHumano: false,
+          razao: 'Receber',
+        },
+      ]);
+
+      const decision = custom.decide(makeTx(), makeClassification(0.99), []);
+
+      expect(decision.acao).toBe('escalar');
+      expect(decision.regrasAplicadas).toEqual(['SEM_REGRA_APLICAVEL']);
+    });
+
+    test('validateDecisionRules reports invalid fields and duplicates', () => {
+      const errors = validateDecisionRules([
+        { ...DEFAULT_DECISION_RULES[0] },
+        { ...DEFAULT_DECISION_RULES[0], condicoes: [{ campo: 'xpto' as any, operador: 'in', valor: 1 }] },
+      ]);
+
+      expect(errors.some(e => e.includes('duplicado'))).toBe(true);
+      expect(errors.some(e => e.includes('campo inválido'))).toBe(true);
+      expect(errors.some(e => e.includes('exige lista'))).toBe(true);
+      expect(validateDecisionRules(DEFAULT_DECISION_RULES)).toEqual([]);
+    });
+  });
 });
@@ -0,0 +1,121 @@
+import { DecisionReplayer, classificationFromTransaction } from '../ai/decisionReplay';
+import { DecisionEngine, DEFAULT_DECISION_RULES } from '../ai/decisionEngine';
+import {
+  Transaction,
+  TransactionType,
+  TransactionStatus,
+  TransactionSource,
+} from '../../shared/types';
+
+function makeTx(overrides: Partial<Transaction> = {}): Transaction {
+  return {
+    id: 'tx-1',
+    clientId: 'client-1',
+    type: TransactionType.RECEBER,
+    status: TransactionStatus.CLASSIFICADO,
+    source: TransactionSource.SANTANDER,
+    valor: 1000,
+    descricao: 'TED RECEBIDA',
+    categoriaNome: 'Receita de Vendas',
+    categoriaConfianca: 0.9,
+    createdAt: '2026-01-14T00:00:00Z',
+    updatedAt: '2026-01-14T00:00:00Z',
+    capturedAt: '2026-01-14T00:00:00Z',
+    dataRealizacao: '2026-01-14',
+    ...overrides,
+  };
+}
+
+describe('DecisionReplayer', () => {
+  test('rebuilds classification from persisted fields', () => {
+    const classification = classificationFromTransaction(makeTx({ categoriaConfianca: 0.7 }));
+
+    expect(classification.categoria).toBe('Receita de Vendas');
+    expect(classification.confianca).toBe(0.7);
+  });
+
+  test('same configuration yields no flips', async () => {
+    const replayer = new DecisionReplayer(
+      { engine: new DecisionEngine() },
+      { engine: new DecisionEngine() }
+    );
+
+    const txs = [makeTx(), makeTx({ id: 'tx-2', valor: 2000, descricao: 'PIX RECEBIDO' })];
+    const report = await replayer.replay(txs, txs);
+
+    expect(report.total).toBe(2);
+    expect(report.alteradas).toBe(0);
+    expect(report.taxaAutomacao.delta).toBe(0);
+  });
+
+  test('stricter confidence threshold flips auto to escalar', async () => {
+    const stricter = DEFAULT_DECISION_RULES.map(r =>
+      r.id === 'CLASSIFICACAO_ALTA_CONFIANCA'
+        ? { ...r, condicoes: [{ campo: 'confianca' as const, operador: 'gte' as const, valor: 0.95 }] }
+        : r
+    );
+
+    const replayer = new DecisionReplayer(
+      { engine: new DecisionEngine() },
+      { engine: new DecisionEngine(stricter) }
+    );
+
+    const txs = [
+      makeTx({ id: 'tx-1', categoriaConfianca: 0.9 }),
+      makeTx({ id: 'tx-2', categoriaConfianca: 0.97, valor: 1500, descricao: 'PIX RECEBIDO' }),
+    ];
+    const report = await replayer.replay(txs, txs);
+
+    expect(report.flips.autoParaEscalar).toBe(1);
+    expect(report.flips.escalarParaAuto).toBe(0);
+    expect(report.taxaAutomacao.atual).toBe(1);
+    expect(report.taxaAutomacao.candidata).toBe(0.5);
+    expect(report.taxaAutomacao.delta).toBe(-0.5);
+    expect(report.itens.find(i => i.transactionId === 'tx-1')?.flip).toBe('auto_para_escalar');
+  });
+
+  test('looser threshold flips escalar to auto', async () => {
+    const looser = DEFAULT_DECISION_RULES.map(r =>
+      r.id === 'CLASSIFICACAO_ALTA_CONFIANCA'
+        ? { ...r, condicoes: [{ campo: 'confianca' as const, operador: 'gte' as const, valor: 0.6 }] }
+        : r
+    );
+
+    const replayer = new DecisionReplayer(
+      { engine: new DecisionEngine() },
+      { engine: new DecisionEngine(looser) }
+    );
+
+    const txs = [makeTx({ categoriaConfianca: 0.7 })];
+    const report = await replayer.replay(txs, txs);
+
+    expect(report.flips.escalarParaAuto).toBe(1);
+    expect(report.porAcao.candidata).toEqual({ categorizar_auto: 1 });
+  });
+
+  test('match-based rules see the match the pipeline had when the transaction was processed', async () => {
+    const semMatchConfirmado = DEFAULT_DECISION_RULES.map(r =>
+      r.id === 'MATCH_CONFIRMADO' ? { ...r, ativo: false } : r
+    );
+
+    const replayer = new DecisionReplayer(
+      { engine: new DecisionEngine() },
+      { engine: new DecisionEngine(semMatchConfirmado) }
+    );
+
+    const previsto = makeTx({ id: 'tx-1', numeroDocumento: 'NF-10', categoriaConfianca: 0.7 });
+    const anterior = makeTx({ id: 'tx-0', numeroDocumento: 'NF-10', descricao: 'LIQUIDACAO NF 10', dataRealizacao: '2026-01-10', createdAt: '2026-01-10T00:00:00Z' });
+    const posterior = makeTx({ id: 'tx-2', numeroDocumento: 'NF-20', descricao: 'LIQUIDACAO NF 20', dataRealizacao: '2026-01-20', createdAt: '2026-01-20T00:00:00Z' });
+    const report = await replayer.replay(
+      [previsto, { ...previsto, id: 'tx-3', numeroDocumento: 'NF-20' }],
+      [anterior, posterior]
+    );
+
+    const comMatch = report.itens.find(i => i.transactionId === 'tx-1');
+    expect(comMatch?.atual).toMatchObject({ acao: 'sync_auto', regras: ['MATCH_CONFIRMADO'] });
+    expect(comMatch?.candidata.acao).toBe('escalar');
+
+    // Realizado criado depois não existia quando o pipeline decidiu
+    expect(report.itens.find(i => i.transactionId === 'tx-3')?.atual.acao).toBe('escalar');
+  });
+});
@@ -60,40 +60,67 @@ jest.mock('openai', () => {
 
 // Capture registered routes
 const registeredRoutes: Record<string, any> = {};
+const registeredQueues: Record<string, any> = {};
 jest.mock('@azure/functions', () => ({
   app: {
     http: (name: string, options: any) => {
       registeredRoutes[name] = options;
     },
     timer: jest.fn(),
+    storageQueue: (name: string, options: any) => {
+      registeredQueues[name] = options;
+    },
   },
   HttpRequest: jest.fn(),
   InvocationContext: jest.fn(),
 }));
 
+const mockEnqueueMessage = jest.fn().mockResolvedValue(undefined);
+jest.mock('../storage/queueClient', () => ({
+  ...jest.requireActual('../storage/queueClient'),
+  enqueueMessage: (...args: any[]) => mockEnqueueMessage(...args),
+}));
+
 // Mock the Getnet SFTP client module
 const mockBuscarArquivoPorData = jest.fn();
 const mockBuscarUltimoArquivo = jest.fn();
+const mockCreateGetnetClient = jest.fn();
 jest.mock('../ops/getnet/adapters/client', () => ({
   getGetnetClient: jest.fn(() => ({
     buscarArquivoPorData: mockBuscarArquivoPorData,
     buscarUltimoArquivo: mockBuscarUltimoArquivo,
   })),
+  createGetnetClient: (...args: any[]) => {
+    mockCreateGetnetClient(...args);
+    return { buscarArquivoPorData: mockBuscarArquivoPorData, buscarUltimoArquivo: mockBuscarUltimoArquivo };
+  },
   resetGetnetClient: jest.fn(),
   GetnetClient: jest.fn(),
 }));
 
 // Mock table client storage functions
+const mockGetClient = jest.fn().mockResolvedValue(null);
+const mockUpsertIdempotent = jest.fn().mockResolvedValue({
+  created: ['tx-1'],
+  updated: [],
+  skipped: [],
+});
+const mockSaveGetnetArquivo = jest.fn().mockResolvedValue(undefined);
+const mockGetGetnetArquivos = jest.fn().mockResolvedValue([]);
+const mockSaveRecebiveisAgenda = jest.fn().mockResolvedValue(0);
 jest.mock('../storage/tableClient', () => ({
+  getClient: (...args: any[]) => mockGetClient(...args),
+  getActiveClients: jest.fn().mockResolvedValue([]),
   getExistingSourceIds: jest.fn().mockResolvedValue(new Set()),
-  upsertTransactionsIdempotent: jest.fn().mockResolvedValue({
-    created: ['tx-1'],
-    updated: [],
-    skipped: [],
-  }),
+  upsertTransactionsIdempotent: (...args: any[]) => mockUpsertIdempotent(...args),
+  saveGetnetArquivo: (...args: any[]) => mockSaveGetnetArquivo(...args),
+  getGetnetArquivos: (...args: any[]) => mockGetGetnetArquivos(...args),
+  saveRecebiveisAgenda: (...args: any[]) => mockSaveRecebiveisAgenda(...args),
+  getRecebiveisAgenda: jest.fn().mockResolvedValue([]),
+  addHistoryAction: jest.fn().mockResolvedValue(undefined),
 }));
 
-import { parseConteudo, filtrarPorEstabelecimento, parearManPos } from '../ops/getnet/adapters/fileHelper';
+import { parseConteudo, filtrarPorEstabelecimento, parearManPos, conferirTrailer } from '../ops/getnet/adapters/fileHelper';
 import type {
   GetnetRegistro,
   GetnetHeader,
@@ -107,6 +134,16 @@ import type {
   DadosEstabelecimento,
 } from '../ops/getnet/adapters/types';
 
+// Capturas de cliente não cadastrado usam o SFTP global (instalação single-tenant)
+const singleTenantOriginal = process.env.OPS_SINGLE_TENANT;
+beforeAll(() => {
+  process.env.OPS_SINGLE_TENANT = 'true';
+});
+afterAll(() => {
+  if (singleTenantOriginal === undefined) delete process.env.OPS_SINGLE_TENANT;
+  else process.env.OPS_SINGLE_TENANT = singleTenantOriginal;
+});
+
 // ============================================================================
 // HELPERS - Build positional lines
 // ============================================================================
@@ -1463,6 +1500,475 @@ describe('Getnet Capture Handler', () => {
   });
 });
 
+// ============================================================================
+// TESTS - PER-TENANT CREDENTIALS / MULTI-ESTABLISHMENT
+// ============================================================================
+
+describe('Getnet Multi-Establishment Capture', () => {
+  const LOJA_A = '000000000000001';
+  const LOJA_B = '000000000000002';
+  const LOJA_FORA = '000000000000009';
+
+  const fileContent = [
+    buildHeader(),
+    buildResumoVendas({ codEstab: LOJA_A, numRV: '111111111', valorBruto: 100000, valorTaxaDesconto: 5000, tipoPgto: 'PF' }),
+    buildResumoVendas({ codEstab: LOJA_B, numRV: '222222222', valorBruto: 50000, valorTaxaDesconto: 2500, tipoPgto: 'PF' }),
+    buildResumoVendas({ codEstab: LOJA_FORA, numRV: '999999999', valorBruto: 70000, valorTaxaDesconto: 3500, tipoPgto: 'PF' }),
+    buildTrailer({ totalRegistros: 5 }),
+  ].join('\n');
+
+  beforeEach(() => {
+    mockCreateGetnetClient.mockClear();
+    mockUpsertIdempotent.mockClear();
+    mockBuscarArquivoPorData.mockResolvedValueOnce({
+      erro: false,
+      mensagem: 'OK',
+      arquivo: 'getnetextr_20260220.txt',
+      conteudo: fileContent,
+      totalLinhas: 5,
+      tamanhoBytes: fileContent.length,
+    });
+  });
+
+  afterEach(() => {
+    mockGetClient.mockResolvedValue(null);
+  });
+
+  test('uses tenant login and captures each configured establishment', async () => {
+    mockGetClient.mockResolvedValue({
+      id: 'rede-1',
+      tenantId: 'rede-1',
+      config: { getnetUser: 'rede-sftp', getnetEstabelecimentos: [LOJA_A, LOJA_B] },
+    });
+    const { executeGetnetCapture } = require('../ops/getnet/functions/capture');
+
+    const result = await executeGetnetCapture({ clientId: 'rede-1', cycleId: 'cycle-1', startDate: '2026-02-20' });
+
+    expect(result.success).toBe(true);
+    expect(mockCreateGetnetClient).toHaveBeenCalledWith(expect.objectContaining({ user: 'rede-sftp' }));
+    expect(result.estabelecimentos.map((e: any) => e.codigo)).toEqual([LOJA_A, LOJA_B]);
+    expect(mockUpsertIdempotent).toHaveBeenCalledTimes(2);
+
+    const persisted = mockUpsertIdempotent.mock.calls.flatMap((c: any[]) => c[0]);
+    expect(persisted.length).toBeGreaterThan(0);
+    expect(new Set(persisted.map((tx: any) => tx.metadata.estabelecimento))).toEqual(new Set([LOJA_A, LOJA_B]));
+  });
+
+  test('explicit codigoEstabelecimento restricts capture to one store', async () => {
+    mockGetClient.mockResolvedValue({
+      id: 'rede-1',
+      tenantId: 'rede-1',
+      config: { getnetUser: 'rede-sftp', getnetEstabelecimentos: [LOJA_A, LOJA_B] },
+    });
+    const { executeGetnetCapture } = require('../ops/getnet/functions/capture');
+
+    const result = await executeGetnetCapture({
+      clientId: 'rede-1', cycleId: 'cycle-1', startDate: '2026-02-20', codigoEstabelecimento: LOJA_B,
+    });
+
+    expect(result.estabelecimentos.map((e: any) => e.codigo)).toEqual([LOJA_B]);
+  });
+
+  test('client without establishments captures the whole file tagged by record', async () => {
+    const { executeGetnetCapture } = require('../ops/getnet/functions/capture');
+
+    const result = await executeGetnetCapture({ clientId: 'client-1', cycleId: 'cycle-1', startDate: '2026-02-20' });
+
+    expect(mockCreateGetnetClient).not.toHaveBeenCalled();
+    expect(result.estabelecimentos).toEqual([expect.objectContaining({ codigo: 'todos' })]);
+
+    const persisted = mockUpsertIdempotent.mock.calls[0][0];
+    expect(new Set(persisted.map((tx: any) => tx.metadata.estabelecimento))).toEqual(new Set([LOJA_A, LOJA_B, LOJA_FORA]));
+  });
+});
+
+describe('Getnet tenant resolution', () => {
+  beforeEach(() => {
+    delete process.env.OPS_SINGLE_TENANT;
+    mockCreateGetnetClient.mockClear();
+    mockBuscarArquivoPorData.mockClear();
+  });
+
+  afterEach(() => {
+    process.env.OPS_SINGLE_TENANT = 'true';
+    mockGetClient.mockResolvedValue(null);
+  });
+
+  test('unknown client gets 404 instead of the global SFTP login', async () => {
+    const handler = registeredRoutes['getnet-capture'].handler;
+    const req = { json: async () => ({ clientId: 'nao-existe', cycleId: 'cycle-1', startDate: '2026-02-20' }) };
+
+    const result = await handler(req, { functionName: 'getnet-capture', invocationId: 'test' });
+
+    expect(result.status).toBe(404);
+    expect(mockBuscarArquivoPorData).not.toHaveBeenCalled();
+  });
+
+  test('client without getnetUser is not captured with the global login', async () => {
+    mockGetClient.mockResolvedValue({ id: 'client-1', tenantId: 'client-1', config: { getnetEstabelecimento: '000000000000001' } });
+    const { executeGetnetCapture } = require('../ops/getnet/functions/capture');
+
+    const result = await executeGetnetCapture({ clientId: 'client-1', cycleId: 'cycle-1', startDate: '2026-02-20' });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('getnetUser');
+    expect(mockBuscarArquivoPorData).not.toHaveBeenCalled();
+  });
+});
+
+// ============================================================================
+// TESTS - TRAILER, CONTROLE DE ARQUIVOS, BACKFILL E LACUNAS
+// ============================================================================
+
+describe('Getnet FileHelper - conferirTrailer', () => {
+  const linhas = [
+    buildHeader(),
+    buildResumoVendas({ numRV: '111111111', valorBruto: 100000 }),
+    buildResumoVendas({ numRV: '222222222', valorBruto: 50000 }),
+  ];
+
+  test('no divergences when trailer matches the parsed file', () => {
+    const conteudo = [...linhas, buildTrailer({ totalRegistros: 4, valorBruto: 150000, qtdRVs: 2 })].join('\n');
+
+    const conferencia = conferirTrailer(conteudo, parseConteudo(conteudo));
+
+    expect(conferencia.divergencias).toEqual([]);
+    expect(conferencia.trailer).toEqual(expect.objectContaining({ totalRegistros: 4, quantidadeRVs: 2 }));
+    expect(conferencia.apurado).toEqual({ linhas: 4, registros: 4, rvs: 2, valorBruto: 1500 });
+  });
+
+  test('flags counts and totals that differ from the trailer', () => {
+    const conteudo = [...linhas, buildTrailer({ totalRegistros: 6, valorBruto: 150000, qtdRVs: 3 })].join('\n');
+
+    const { divergencias } = conferirTrailer(conteudo, parseConteudo(conteudo));
+
+    expect(divergencias).toHaveLength(2);
+    expect(divergencias[0]).toContain('Total de registros');
+    expect(divergencias[1]).toContain('Quantidade de RVs');
+  });
+
+  test('flags a truncated file without trailer', () => {
+    const conteudo = linhas.join('\n');
+
+    const conferencia = conferirTrailer(conteudo, parseConteudo(conteudo));
+
+    expect(conferencia.trailer).toBeNull();
+    expect(conferencia.divergencias[0]).toContain('Trailer');
+  });
+});
+
+describe('Getnet Backfill and Gap Check', () => {
+  const arquivoDoDia = (data: string) => {
+    const ymd = data.replace(/-/g, '');
+    const conteudo = [
+      buildHeader({ data: `${ymd.substring(6, 8)}${ymd.substring(4, 6)}${ymd.substring(0, 4)}` }),
+      buildResumoVendas({ numRV: ymd.substring(0, 9), valorBruto: 100000, tipoPgto: 'PF' }),
+      buildTrailer({ totalRegistros: 3, valorBruto: 100000, qtdRVs: 1 }),
+    ].join('\n');
+    return { erro: false, mensagem: 'OK', arquivo: `getnetextr_${ymd}.txt`, conteudo, totalLinhas: 3 };
+  };
+
+  beforeEach(() => {
+    mockBuscarArquivoPorData.mockReset();
+    mockSaveGetnetArquivo.mockClear();
+    mockGetGetnetArquivos.mockResolvedValue([]);
+  });
+
+  test('capture records the processed file and trailer totals in the ledger', async () => {
+    mockBuscarArquivoPorData.mockResolvedValueOnce(arquivoDoDia('2026-02-20'));
+    const { executeGetnetCapture } = require('../ops/getnet/functions/capture');
+
+    const result = await executeGetnetCapture({ clientId: 'client-1', cycleId: 'cycle-1', startDate: '2026-02-20' });
+
+    expect(result.success).toBe(true);
+    expect(result.conferencia.divergencias).toEqual([]);
+    expect(mockSaveGetnetArquivo).toHaveBeenCalledWith(expect.objectContaining({
+      clientId: 'client-1',
+      dataMovimento: '2026-02-20',
+      arquivo: 'getnetextr_20260220.txt',
+      origem: 'diario',
+      status: 'ok',
+    }));
+  });
+
+  test('manual capture endpoint also records the file in the ledger', async () => {
+    mockBuscarArquivoPorData.mockResolvedValueOnce(arquivoDoDia('2026-02-20'));
+    require('../ops/getnet/functions/capture');
+
+    const result = await registeredRoutes['getnet-capture'].handler(
+      { json: async () => ({ clientId: 'client-1', cycleId: 'manual-1', startDate: '2026-02-20' }) },
+      { functionName: 'getnet-capture', invocationId: 'test' }
+    );
+
+    expect(result.status).toBe(200);
+    expect(mockSaveGetnetArquivo).toHaveBeenCalledWith(expect.objectContaining({
+      dataMovimento: '2026-02-20', origem: 'manual', status: 'ok',
+    }));
+  });
+
+  test('backfill endpoint enqueues one message per date not yet in the ledger', async () => {
+    mockGetGetnetArquivos.mockResolvedValue([{ dataMovimento: '2026-02-19' }]);
+    require('../ops/getnet/functions/backfill');
+
+    const result = await registeredRoutes['getnet-backfill'].handler(
+      { json: async () => ({ clientId: 'client-1', inicio: '2026-02-18', fim: '2026-02-20' }) },
+      { functionName: 'getnet-backfill', invocationId: 'test' }
+    );
+
+    expect(result.status).toBe(202);
+    expect(result.jsonBody).toEqual(expect.objectContaining({
+      enfileiradas: ['2026-02-18', '2026-02-20'], jaProcessadas: ['2026-02-19'],
+    }));
+    expect(mockEnqueueMessage).toHaveBeenCalledWith('queue-backfill-getnet', expect.objectContaining({ clientId: 'client-1', data: '2026-02-18' }));
+    expect(mockBuscarArquivoPorData).not.toHaveBeenCalled();
+  });
+
+  test('backfill worker fetches the exact date; missing file ends, SFTP error retries', async () => {
+    const { handleGetnetBackfillMessage } = require('../ops/getnet/functions/backfill');
+    const mensagem = (data: string) => ({ messageId: 'm', cycleId: `getnet-backfill-${data}`, clientId: 'client-1', timestamp: '', data });
+    expect(registeredQueues['getnet-backfill-worker'].queueName).toBe('queue-backfill-getnet');
+
+    mockBuscarArquivoPorData.mockImplementation(async (data: string) => arquivoDoDia(data));
+    await handleGetnetBackfillMessage(mensagem('2026-02-21'));
+    expect(mockBuscarArquivoPorData).toHaveBeenCalledWith('2026-02-21', true);
+    expect(mockSaveGetnetArquivo).toHaveBeenCalledWith(expect.objectContaining({ origem: 'backfill', dataMovimento: '2026-02-21' }));
+
+    mockBuscarArquivoPorData.mockResolvedValue({ erro: true, mensagem: 'Arquivo não encontrado', arquivoAusente: true });
+    await expect(handleGetnetBackfillMessage(mensagem('2026-02-20'))).resolves.toBeUndefined();
+
+    mockBuscarArquivoPorData.mockResolvedValue({ erro: true, mensagem: 'SFTP timeout' });
+    await expect(handleGetnetBackfillMessage(mensagem('2026-02-19'))).rejects.toThrow('SFTP timeout');
+  });
+
+  test('backfill endpoint rejects ranges above the limit', async () => {
+    require('../ops/getnet/functions/backfill');
+    const handler = registeredRoutes['getnet-backfill'].handler;
+
+    const result = await handler(
+      { json: async () => ({ clientId: 'client-1', inicio: '2026-01-01', fim: '2026-06-30' }) },
+      { functionName: 'getnet-backfill', invocationId: 'test' }
+    );
+
+    expect(result.status).toBe(400);
+    expect(mockBuscarArquivoPorData).not.toHaveBeenCalled();
+  });
+
+  test('gap check reports dates never ingested and files diverging from the trailer', async () => {
+    mockGetGetnetArquivos.mockResolvedValue([
+      { dataMovimento: '2026-02-18', arquivo: 'getnetextr_20260218.txt', status: 'ok', divergencias: [] },
+      { dataMovimento: '2026-02-20', arquivo: 'getnetextr_20260220.txt', status: 'divergente', divergencias: ['Quantidade de RVs: trailer 3, arquivo 2'] },
+    ]);
+    const { verificarLacunasGetnet } = require('../ops/getnet/functions/backfill');
+
+    const lacunas = await verificarLacunasGetnet('client-1', '2026-02-18', '2026-02-21');
+
+    expect(mockGetGetnetArquivos).toHaveBeenCalledWith('client-1', '2026-02-18', '2026-02-21');
+    expect(lacunas.faltantes).toEqual(['2026-02-19', '2026-02-21']);
+    expect(lacunas.divergentes).toEqual([
+      { data: '2026-02-20', arquivo: 'getnetextr_20260220.txt', divergencias: ['Quantidade de RVs: trailer 3, arquivo 2'] },
+    ]);
+  });
+});
+
+describe('Getnet Receivables Agenda', () => {
+  const LOJA = '000000000000001';
+  const OUTRA = '000000000000002';
+
+  const ur = (opts: Partial<GetnetUnidadeRecebivel>): GetnetUnidadeRecebivel => ({
+    TipoRegistro: 6,
+    CodigoEstabelecimento: LOJA,
+    DataPagamento: '2026-03-10',
+    NumeroOperacao: 'UR1',
+    Indicador: 'LQ',
+    TipoProduto: 'SM',
+    DataLiquidacao: '2026-03-10',
+    ValorBrutoUR: 0,
+    ValorDescontoUR: 0,
+    ValorLiquidoUR: 100,
+    LinhaRaw: '',
+    ...opts,
+  });
+
+  const registros = (): GetnetRegistro[] => [
+    { ...parseConteudo(buildResumoVendas({ codEstab: LOJA, produto: 'SM', bandeira: 'MCD' }))[0] },
+    ur({ NumeroOperacao: 'UR1', ValorLiquidoUR: 600 }),
+    ur({ NumeroOperacao: 'UR2', TipoProduto: 'SE', ValorLiquidoUR: 400 }),
+    ur({ NumeroOperacao: 'UR3', CodigoEstabelecimento: OUTRA, ValorLiquidoUR: 999 }),
+    {
+      TipoRegistro: 4, CodigoEstabelecimento: LOJA, Produto: 'SM', Bandeira: 'MCD', NumeroOperacao: 'AN1',
+      DataAntecipacao: '2026-03-01', DataOriginalPagamento: '2026-03-10',
+      ValorBrutoAntecipacao: 100, TaxaAntecipacao: 3, ValorLiquidoAntecipacao: 97,
+    },
+    {
+      TipoRegistro: 5, CodigoEstabelecimento: LOJA, DataCessao: '2026-03-01', DataPagamento: '2026-03-10',
+      NumeroOperacao: 'CS1', Indicador: 'CS', ValorBrutoCessao: 200, ValorTaxaCessao: 5, ValorLiquidoCessao: 195, LinhaRaw: '',
+    },
+  ];
+
+  test('builds agenda items from URs, anticipations and assignments of the client establishments', () => {
+    const { montarAgenda } = require('../ops/getnet/functions/agenda');
+
+    const itens = montarAgenda(registros(), 'client-1', '2026-02-28', 'getnetextr_20260228.txt', [LOJA]);
+
+    expect(itens.map((i: any) => i.tipo)).toEqual(['ur', 'ur', 'antecipacao', 'cessao']);
+    expect(itens[0]).toEqual(expect.objectContaining({ dataPrevista: '2026-03-10', bandeira: 'MCD', valorLiquido: 600 }));
+    expect(itens[1].bandeira).toBe('SE'); // sem RV do produto: usa o código do produto
+  });
+
+  test('projects net inflows per day, brand and establishment', () => {
+    const { montarAgenda, projetarAgenda } = require('../ops/getnet/functions/agenda');
+
+    const { linhas, dias } = projetarAgenda(montarAgenda(registros(), 'client-1', '2026-02-28', 'arq.txt', [LOJA]));
+
+    // Antecipação abate 97 líquidos de MCD; cessão rateia 195 líquidos entre MCD (600) e SE (400)
+    expect(linhas).toEqual([
+      { data: '2026-03-10', bandeira: 'MCD', estabelecimento: LOJA, bruto: 600, antecipado: 97, cedido: 117, liquido: 386 },
+      { data: '2026-03-10', bandeira: 'SE', estabelecimento: LOJA, bruto: 400, antecipado: 0, cedido: 78, liquido: 322 },
+    ]);
+    expect(dias).toEqual([{ data: '2026-03-10', bruto: 1000, antecipado: 97, cedido: 195, liquido: 708 }]);
+  });
+
+  test('UR id stays the same when a later file updates its amount or operation number', () => {
+    const { montarAgenda } = require('../ops/getnet/functions/agenda');
+
+    const [anterior] = montarAgenda([ur({ NumeroOperacao: '', ValorLiquidoUR: 600 })], 'client-1', '2026-02-27', 'a.txt');
+    const [atual] = montarAgenda([ur({ NumeroOperacao: 'UR9', ValorLiquidoUR: 580 })], 'client-1', '2026-02-28', 'b.txt');
+    const [outra] = montarAgenda([ur({ NumeroOperacao: '', ValorLiquidoUR: 600, TipoProduto: 'SE' })], 'client-1', '2026-02-28', 'b.txt');
+
+    expect(atual.id).toBe(anterior.id);
+    expect(outra.id).not.toBe(anterior.id);
+  });
+
+  test('flags settlements with different value or date than forecast', () => {
+    const { conferirLiquidacoes } = require('../ops/getnet/functions/agenda');
+    const dia = (data: string, liquido: number) => ({ data, bruto: liquido, antecipado: 0, cedido: 0, liquido });
+    const credito = (data: string, valor: number) => ({ data, valor, descricao: 'CRED GETNET', banco: 'inter' });
+
+    const result = conferirLiquidacoes(
+      [dia('2026-03-02', 100), dia('2026-03-03', 200), dia('2026-03-04', 300), dia('2026-03-05', 50)],
+      [credito('2026-03-02', 100), credito('2026-03-03', 180), credito('2026-03-06', 300), credito('2026-03-09', 75)]
+    );
+
+    expect(result.map((r: any) => [r.data, r.status])).toEqual([
+      ['2026-03-02', 'ok'],
+      ['2026-03-03', 'valor_divergente'],
+      ['2026-03-04', 'data_divergente'],
+      ['2026-03-05', 'nao_recebido'],
+      ['2026-03-09', 'nao_previsto'],
+    ]);
+    expect(result[2].dataRecebimento).toBe('2026-03-06');
+    expect(result[1].diferenca).toBe(-20);
+  });
+
+  test('capture stores the agenda built from the daily file', async () => {
+    mockSaveRecebiveisAgenda.mockClear();
+    const conteudo = [
+      buildHeader(),
+      buildResumoVendas({ numRV: '111111111', tipoPgto: 'PF' }),
+      buildAntecipacao({}),
+      buildTrailer({ totalRegistros: 4 }),
+    ].join('\n');
+    mockBuscarArquivoPorData.mockResolvedValueOnce({
+      erro: false, mensagem: 'OK', arquivo: 'getnetextr_20260220.txt', conteudo, totalLinhas: 4,
+    });
+    const { executeGetnetCapture } = require('../ops/getnet/functions/capture');
+
+    await executeGetnetCapture({ clientId: 'client-1', cycleId: 'cycle-1', startDate: '2026-02-20' });
+
+    expect(mockSaveRecebiveisAgenda).toHaveBeenCalledWith([
+      expect.objectContaining({ clientId: 'client-1', tipo: 'antecipacao', arquivo: 'getnetextr_20260220.txt' }),
+    ]);
+  });
+});
+
+describe('Getnet MDR Audit', () => {
+  const tabelas = [
+    {
+      clientId: 'client-1', vigenciaInicio: '2026-01-01', atualizadoEm: '', antecipacaoMensal: 2,
+      taxas: [
+        { bandeira: '*', parcelasDe: 1, parcelasAte: 1, mdr: 2 },
+        { bandeira: 'VIS', parcelasDe: 1, parcelasAte: 1, mdr: 1.5 },
+        { bandeira: '*', parcelasDe: 2, parcelasAte: 12, mdr: 3 },
+      ],
+    },
+    {
+      clientId: 'client-1', vigenciaInicio: '2026-03-01', atualizadoEm: '',
+      taxas: [{ bandeira: '*', parcelasDe: 1, parcelasAte: 12, mdr: 1 }],
+    },
+  ];
+
+  const rv = (opts: { numRV: string; bandeira?: string; bruto: number; taxa: number; parcelas?: number; dataRV?: string }) => ({
+    ...(parseConteudo(buildResumoVendas({ numRV: opts.numRV, bandeira: opts.bandeira || 'VIS' }))[0] as GetnetResumoVendas),
+    DataRV: opts.dataRV || '2026-02-10',
+    ValorBruto: opts.bruto,
+    ValorTaxaDesconto: opts.taxa,
+    ValorTaxaServico: 0,
+    QuantidadeParcelas: opts.parcelas || 1,
+    isBrutoDescontado: false,
+  });
+
+  test('picks the most specific rate of the table in force', () => {
+    const { encontrarTaxa, tabelaVigente } = require('../ops/getnet/functions/taxas');
+
+    expect(tabelaVigente(tabelas, '2026-02-28').vigenciaInicio).toBe('2026-01-01');
+    expect(tabelaVigente(tabelas, '2026-03-01').vigenciaInicio).toBe('2026-03-01');
+    expect(tabelaVigente(tabelas, '2025-12-31')).toBeNull();
+    expect(encontrarTaxa(tabelas[0].taxas, 'VIS', 'SM', 1).mdr).toBe(1.5);
+    expect(encontrarTaxa(tabelas[0].taxas, 'MCD', 'SM', 1).mdr).toBe(2);
+    expect(encontrarTaxa(tabelas[0].taxas, 'MCD', 'SM', 6).mdr).toBe(3);
+  });
+
+  test('lists MDR and anticipation charged above contract for the month', () => {
+    const { auditarTaxas } = require('../ops/getnet/functions/taxas');
+    const antecipacao = {
+      ...(parseConteudo(buildAntecipacao({}))[0] as GetnetAntecipacao),
+      DataAntecipacao: '2026-02-01',
+      DataOriginalPagamento: '2026-03-03', // 30 dias
+      ValorBrutoAntecipacao: 1000,
+      TaxaAntecipacao: 25, // contrato: 2% a.m. = 20
+    };
+
+    const auditoria = auditarTaxas('client-1', '2026-02', [
+      rv({ numRV: '000000001', bruto: 1000, taxa: 15 }), // VIS 1,5%: ok
+      rv({ numRV: '000000002', bandeira: 'MCD', bruto: 1000, taxa: 25 }), // 2%: +5
+      rv({ numRV: '000000003', bruto: 1000, taxa: 40, parcelas: 3 }), // 3%: +10
+      rv({ numRV: '000000004', bruto: 1000, taxa: 40, dataRV: '2026-03-02' }), // fora do mês
+    ], [antecipacao], tabelas);
+
+    expect(auditoria.conferidos).toBe(4);
+    expect(auditoria.cobrancas.map((c: any) => [c.tipo, c.referencia, c.diferenca])).toEqual([
+      ['antecipacao', antecipacao.NumeroOperacao, 5],
+      ['mdr', '000000002', 5],
+      ['mdr', '000000003', 10],
+    ]);
+    expect(auditoria.cobrancas[1]).toEqual(expect.objectContaining({ taxaContratada: 2, taxaCobrada: 2.5 }));
+    expect(auditoria.totalCobradoAMais).toBe(20);
+  });
+
+  test('claim file has one line per overcharge and a total', () => {
+    const { auditarTaxas, gerarArquivoContestacao } = require('../ops/getnet/functions/taxas');
+    const auditoria = auditarTaxas('client-1', '2026-02', [rv({ numRV: '000000002', bandeira: 'MCD', bruto: 1000, taxa: 25 })], [], tabelas);
+
+    const linhas = gerarArquivoContestacao(auditoria, '12345678000199').trim().split('\r\n');
+
+    expect(linhas).toHaveLength(3);
+    expect(linhas[1]).toBe('mdr;000000002;2026-02-10;000012345678901;MCD;SM;1;1000,00;2,0000;2,5000;20,00;25,00;5,00');
+    expect(linhas[2]).toContain('TOTAL;1;2026-02;12345678000199');
+  });
+
+  test('audit endpoint validates the month', async () => {
+    require('../ops/getnet/functions/taxas');
+    const handler = registeredRoutes['getnet-auditoria-taxas'].handler;
+
+    const result = await handler(
+      { query: new URLSearchParams({ clientId: 'client-1', mes: '2026-13' }) },
+      { functionName: 'getnet-auditoria-taxas', invocationId: 'test' }
+    );
+
+    expect(result.status).toBe(400);
+  });
+});
+
 // ============================================================================
 // TESTS - GETNET CLIENT (mocked)
 // ============================================================================
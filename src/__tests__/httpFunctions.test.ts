@@ -79,21 +79,26 @@ jest.mock('@azure/functions', () => ({
   InvocationContext: jest.fn(),
 }));
 
+// Bootstrap admin token (BPO_ADMIN_TOKEN) used by default in requests
+const ADMIN_TOKEN = 'test-admin-token';
+
 // Helper to create mock request
 function mockRequest(options: {
   method?: string;
   query?: Record<string, string>;
   params?: Record<string, string>;
   body?: any;
+  token?: string | null;
 }) {
   const queryMap = new URLSearchParams(options.query || {});
+  const token = options.token === undefined ? ADMIN_TOKEN : options.token;
   return {
     method: options.method || 'GET',
     query: queryMap,
     params: options.params || {},
     json: async () => options.body || {},
     text: async () => JSON.stringify(options.body || {}),
-    headers: new Map(),
+    headers: new Map(token ? [['authorization', `Bearer ${token}`]] : []),
   };
 }
 
@@ -118,6 +123,7 @@ function mockContext(name = 'test') {
 beforeAll(() => {
   // Set env for health check
   process.env.AZURE_STORAGE_CONNECTION_STRING = 'UseDevelopmentStorage=true';
+  process.env.BPO_ADMIN_TOKEN = ADMIN_TOKEN;
 
   // Import all functions to trigger registration
   require('../functions/health');
@@ -130,6 +136,12 @@ beforeAll(() => {
   require('../functions/bpoClientes');
   require('../functions/bpoSimulation');
   require('../functions/bpoMetrics');
+  require('../functions/bpoRegras');
+  require('../functions/bpoUsuarios');
+  require('../functions/bpoFluxoCaixa');
+  require('../functions/bpoRelatorios');
+  require('../functions/bpoOrcamentos');
+  require('../functions/whatsappWebhook');
 });
 
 // ============================================================================
@@ -148,20 +160,84 @@ describe('Function Registration', () => {
     expect(registeredRoutes['bpoAutorizacoesList']).toBeDefined();
     expect(registeredRoutes['bpoAutorizacoesAprovar']).toBeDefined();
     expect(registeredRoutes['bpoAutorizacoesRejeitar']).toBeDefined();
+    expect(registeredRoutes['bpoAutorizacoesPagamento']).toBeDefined();
+    expect(registeredRoutes['bpoAutorizacoesPagamentoExecutar']).toBeDefined();
     expect(registeredRoutes['bpoDuvidasList']).toBeDefined();
     expect(registeredRoutes['bpoDuvidasResolver']).toBeDefined();
     expect(registeredRoutes['bpoDuvidasPular']).toBeDefined();
     expect(registeredRoutes['bpoHistorico']).toBeDefined();
     expect(registeredRoutes['bpoFilas']).toBeDefined();
+    expect(registeredRoutes['bpoFilasPoison']).toBeDefined();
+    expect(registeredRoutes['bpoFilasReplay']).toBeDefined();
     expect(registeredRoutes['bpoCycleStart']).toBeDefined();
     expect(registeredRoutes['bpoCycleStatus']).toBeDefined();
     expect(registeredRoutes['bpoClientesList']).toBeDefined();
     expect(registeredRoutes['bpoClientesDetail']).toBeDefined();
     expect(registeredRoutes['bpoClientesCreate']).toBeDefined();
     expect(registeredRoutes['bpoClientesUpdate']).toBeDefined();
+    expect(registeredRoutes['bpoClientesFluxoCaixa']).toBeDefined();
+    expect(registeredRoutes['bpoClientesDre']).toBeDefined();
+    expect(registeredRoutes['bpoOrcamentos']).toBeDefined();
+    expect(registeredRoutes['bpoOrcamentosImportar']).toBeDefined();
     expect(registeredRoutes['bpoSimulate']).toBeDefined();
     expect(registeredRoutes['bpoWorkspace']).toBeDefined();
     expect(registeredRoutes['bpoMetrics']).toBeDefined();
+    expect(registeredRoutes['bpoRegrasList']).toBeDefined();
+    expect(registeredRoutes['bpoRegrasCreate']).toBeDefined();
+    expect(registeredRoutes['bpoRegrasAtivar']).toBeDefined();
+    expect(registeredRoutes['bpoRegrasDryRun']).toBeDefined();
+    expect(registeredRoutes['bpoMe']).toBeDefined();
+    expect(registeredRoutes['bpoUsuariosList']).toBeDefined();
+    expect(registeredRoutes['bpoUsuariosCreate']).toBeDefined();
+    expect(registeredRoutes['bpoUsuariosUpdate']).toBeDefined();
+    expect(registeredRoutes['bpoUsuariosToken']).toBeDefined();
+  });
+
+  test('whatsapp webhook is registered without function key', () => {
+    expect(registeredRoutes['whatsappWebhook'].authLevel).toBe('anonymous');
+    expect(registeredRoutes['whatsappWebhook'].methods).toEqual(['GET', 'POST']);
+  });
+});
+
+describe('BPO Auth', () => {
+  test('bpo routes reject requests without token', async () => {
+    for (const name of ['bpoDashboard', 'bpoClientesList', 'bpoDuvidasList', 'bpoHistorico', 'bpoFilas']) {
+      const result = await registeredRoutes[name].handler(mockRequest({ token: null }), mockContext(name));
+      expect(result.status).toBe(401);
+    }
+  });
+
+  test('unknown token is rejected', async () => {
+    const handler = registeredRoutes['bpoClientesList'].handler;
+    const result = await handler(mockRequest({ token: 'token-invalido' }), mockContext('clientes'));
+
+    expect(result.status).toBe(401);
+  });
+
+  test('bootstrap admin token identifies the admin', async () => {
+    const handler = registeredRoutes['bpoMe'].handler;
+    const result = await handler(mockRequest({}), mockContext('me'));
+
+    expect(result.status).toBe(200);
+    expect(result.jsonBody.role).toBe('admin');
+  });
+
+  test('create user validates role and returns token once', async () => {
+    const handler = registeredRoutes['bpoUsuariosCreate'].handler;
+
+    const invalid = await handler(
+      mockRequest({ method: 'POST', body: { id: 'ana', nome: 'Ana', role: 'root' } }),
+      mockContext('usuarios')
+    );
+    expect(invalid.status).toBe(400);
+
+    const created = await handler(
+      mockRequest({ method: 'POST', body: { id: 'ana', nome: 'Ana', role: 'supervisor', clientes: ['client-1'] } }),
+      mockContext('usuarios')
+    );
+    expect(created.status).toBe(201);
+    expect(created.jsonBody.token).toEqual(expect.any(String));
+    expect(created.jsonBody.user.clientes).toEqual(['client-1']);
   });
 });
 
@@ -234,6 +310,51 @@ describe('BPO Clientes', () => {
     expect(result.status).toBe(400);
     expect(result.jsonBody.error).toContain('obrigatórios');
   });
+
+  test('cash flow returns 404 for unknown client', async () => {
+    const handler = registeredRoutes['bpoClientesFluxoCaixa'].handler;
+    const result = await handler(
+      mockRequest({ params: { id: 'unknown' } }),
+      mockContext('fluxo-caixa')
+    );
+
+    expect(result.status).toBe(404);
+  });
+
+  test('cash flow rejects invalid period', async () => {
+    const handler = registeredRoutes['bpoClientesFluxoCaixa'].handler;
+    const result = await handler(
+      mockRequest({ params: { id: 'client-1' }, query: { inicio: '2026-03-10', fim: '2026-03-01' } }),
+      mockContext('fluxo-caixa')
+    );
+
+    expect(result.status).toBe(400);
+  });
+
+  test('DRE rejects invalid month and format', async () => {
+    const handler = registeredRoutes['bpoClientesDre'].handler;
+    const mes = await handler(
+      mockRequest({ params: { id: 'client-1' }, query: { mes: '2026-13' } }),
+      mockContext('dre')
+    );
+    const formato = await handler(
+      mockRequest({ params: { id: 'client-1' }, query: { mes: '2026-03', formato: 'pdf' } }),
+      mockContext('dre')
+    );
+
+    expect(mes.status).toBe(400);
+    expect(formato.status).toBe(400);
+  });
+
+  test('budget import requires items or csv', async () => {
+    const handler = registeredRoutes['bpoOrcamentosImportar'].handler;
+    const result = await handler(
+      mockRequest({ method: 'POST', params: { id: 'client-1' }, body: { mes: '2026-03' } }),
+      mockContext('orcamentos')
+    );
+
+    expect(result.status).toBe(400);
+  });
 });
 
 describe('BPO Autorizacoes', () => {
@@ -255,6 +376,49 @@ describe('BPO Autorizacoes', () => {
     expect(result.status).toBe(400);
     expect(result.jsonBody.message).toContain('obrigatório');
   });
+
+  test('approve requires bearer token', async () => {
+    const handler = registeredRoutes['bpoAutorizacoesAprovar'].handler;
+    const result = await handler(
+      mockRequest({ method: 'POST', params: { id: 'auth-1' }, body: { notas: 'ok' }, token: null }),
+      mockContext('auth')
+    );
+
+    expect(result.status).toBe(401);
+    expect(result.headers['WWW-Authenticate']).toBe('Bearer');
+  });
+
+  test('approve returns 404 for unknown authorization', async () => {
+    const handler = registeredRoutes['bpoAutorizacoesAprovar'].handler;
+    const result = await handler(
+      mockRequest({ method: 'POST', params: { id: 'auth-inexistente' }, body: {} }),
+      mockContext('auth')
+    );
+
+    expect(result.status).toBe(404);
+  });
+
+  test('payment status returns 404 for unknown authorization', async () => {
+    const handler = registeredRoutes['bpoAutorizacoesPagamento'].handler;
+    const result = await handler(
+      mockRequest({ params: { id: 'auth-inexistente' } }),
+      mockContext('auth')
+    );
+
+    expect(result.status).toBe(404);
+  });
+});
+
+describe('BPO Filas', () => {
+  test('replay rejects unknown queue', async () => {
+    const handler = registeredRoutes['bpoFilasReplay'].handler;
+    const result = await handler(
+      mockRequest({ method: 'POST', params: { fila: 'fila-inexistente' } }),
+      mockContext('replay')
+    );
+
+    expect(result.status).toBe(404);
+  });
 });
 
 describe('BPO Historico', () => {
@@ -283,3 +447,83 @@ describe('BPO Metrics', () => {
     expect(result.jsonBody.transactions).toBeDefined();
   });
 });
+
+describe('BPO Regras', () => {
+  test('list falls back to default rules', async () => {
+    const handler = registeredRoutes['bpoRegrasList'].handler;
+    const result = await handler(
+      mockRequest({ params: { id: 'client-1' } }),
+      mockContext('regras')
+    );
+
+    expect(result.status).toBe(200);
+    expect(result.jsonBody.padrao).toBe(true);
+    expect(result.jsonBody.versaoAtiva).toBe(0);
+    expect(result.jsonBody.regras.map((r: any) => r.id)).toContain('VALOR_MUITO_ALTO');
+  });
+
+  test('create rejects invalid rules', async () => {
+    const handler = registeredRoutes['bpoRegrasCreate'].handler;
+    const result = await handler(
+      mockRequest({
+        method: 'POST',
+        params: { id: 'client-1' },
+        body: { regras: [{ id: 'X', prioridade: 1, condicoes: [{ campo: 'foo', operador: 'eq', valor: 1 }], acao: 'escalar', razao: 'x' }] },
+      }),
+      mockContext('regras')
+    );
+
+    expect(result.status).toBe(400);
+    expect(result.jsonBody.errors.length).toBeGreaterThan(0);
+  });
+
+  test('dry-run reports decisions that would change', async () => {
+    const handler = registeredRoutes['bpoRegrasDryRun'].handler;
+    const result = await handler(
+      mockRequest({
+        method: 'POST',
+        params: { id: 'client-1' },
+        body: {
+          regra: {
+            id: 'VALOR_MUITO_ALTO',
+            prioridade: 20,
+            ativo: true,
+            condicoes: [{ campo: 'valor', operador: 'gt', valor: 5000 }],
+            acao: 'escalar',
+            requisitoHumano: true,
+            razao: 'Acima de R$ 5.000',
+          },
+          transacoes: [
+            { id: 'tx-1', clientId: 'client-1', type: 'pagar', status: 'classificado', source: 'santander', valor: 8000, descricao: 'FORNECEDOR', categoriaNome: 'Fornecedores', categoriaConfianca: 0.95, createdAt: '', updatedAt: '', capturedAt: '' },
+            { id: 'tx-2', clientId: 'client-1', type: 'pagar', status: 'classificado', source: 'santander', valor: 100, descricao: 'TARIFA', categoriaNome: 'Despesas Financeiras', categoriaConfianca: 0.95, createdAt: '', updatedAt: '', capturedAt: '' },
+          ],
+        },
+      }),
+      mockContext('regras')
+    );
+
+    expect(result.status).toBe(200);
+    expect(result.jsonBody.total).toBe(2);
+    expect(result.jsonBody.alteradas).toBe(1);
+    expect(result.jsonBody.resultados[0].candidata.acao).toBe('escalar');
+    // Sem previsto no histórico o matching dá sem_match, como no pipeline
+    expect(result.jsonBody.resultados[0].atual.acao).toBe('aguardar');
+    expect(result.jsonBody.resultados[0].atual.regras).toContain('PAGAMENTO_SEM_PREVISAO');
+  });
+});
+
+describe('BPO Simulate (replay)', () => {
+  test('replay mode reports without persisting', async () => {
+    const handler = registeredRoutes['bpoSimulate'].handler;
+    const result = await handler(
+      mockRequest({ method: 'POST', body: { clientId: 'client-1', modo: 'replay', dias: 7 } }),
+      mockContext('simulate')
+    );
+
+    expect(result.status).toBe(200);
+    expect(result.jsonBody.modo).toBe('replay');
+    expect(result.jsonBody.persistido).toBe(false);
+    expect(result.jsonBody.total).toBe(0);
+    expect(result.jsonBody.taxaAutomacao).toBeDefined();
+  });
+});
@@ -1,5 +1,5 @@
 /**
- * Tests for infrastructure modules: RateLimiter, TenantMonitor, LearningLoop
+ * Tests for infrastructure modules: RateLimiter, TenantMonitor, LearningLoop, Auth, CashFlow
  *
  * These modules use in-memory fallback when AZURE_STORAGE_CONNECTION_STRING is not set,
  * which makes them testable without Azure.
@@ -15,9 +15,24 @@ jest.mock('@azure/data-tables', () => ({
   },
 }));
 
+// CashFlow pulls in the Getnet agenda module, which registers HTTP routes
+jest.mock('@azure/functions', () => ({
+  app: { http: jest.fn(), timer: jest.fn() },
+}));
+
 import { RateLimiter } from '../infra/rateLimiter';
 import { TenantMonitor } from '../infra/monitoring';
 import { LearningLoop, FeedbackRecord } from '../learning/learningLoop';
+import {
+  accessibleClientIds,
+  authorize,
+  canAccessClient,
+  filterByClientAccess,
+  hashToken,
+  ROLES,
+} from '../infra/auth';
+import { montarFluxoCaixa, movimentacoesEmAberto, MovimentacaoCaixa } from '../infra/cashFlow';
+import { OperatorUser, Transaction, TransactionSource, TransactionStatus, TransactionType } from '../../shared/types';
 
 // ============================================================================
 // RateLimiter
@@ -259,3 +274,138 @@ describe('LearningLoop', () => {
     expect(examples).toHaveLength(3);
   });
 });
+
+// ============================================================================
+// Auth
+// ============================================================================
+
+describe('Auth', () => {
+  const viewer: OperatorUser = {
+    id: 'cliente.rey',
+    nome: 'Óticas Rey',
+    role: 'client-viewer',
+    clientes: ['client-1'],
+    ativo: true,
+    criadoEm: '2026-01-01T00:00:00Z',
+    atualizadoEm: '2026-01-01T00:00:00Z',
+  };
+
+  function bearer(token?: string) {
+    return { headers: new Map(token ? [['authorization', `Bearer ${token}`]] : []) } as any;
+  }
+
+  afterEach(() => {
+    delete process.env.BPO_ADMIN_TOKEN;
+  });
+
+  test('client access follows assignment; admin and * see everything', () => {
+    expect(canAccessClient(viewer, 'client-1')).toBe(true);
+    expect(canAccessClient(viewer, 'client-2')).toBe(false);
+    expect(canAccessClient({ ...viewer, clientes: ['*'] }, 'client-2')).toBe(true);
+    expect(canAccessClient({ ...viewer, role: 'admin', clientes: [] }, 'client-2')).toBe(true);
+    expect(accessibleClientIds(viewer)).toEqual(['client-1']);
+    expect(accessibleClientIds({ ...viewer, role: 'admin' })).toBeUndefined();
+  });
+
+  test('filterByClientAccess keeps only assigned clients', () => {
+    const items = [{ clientId: 'client-1' }, { clientId: 'client-2' }];
+    expect(filterByClientAccess(viewer, items)).toEqual([{ clientId: 'client-1' }]);
+  });
+
+  test('token hash is deterministic and does not contain the token', () => {
+    expect(hashToken('abc')).toBe(hashToken('abc'));
+    expect(hashToken('abc')).not.toContain('abc');
+    expect(hashToken('abc')).toHaveLength(64);
+  });
+
+  test('authorize: 401 without token, bootstrap admin with BPO_ADMIN_TOKEN', async () => {
+    process.env.BPO_ADMIN_TOKEN = 'bootstrap';
+
+    const semToken = await authorize(bearer(), ROLES.TODOS);
+    expect(semToken.ok).toBe(false);
+    if (!semToken.ok) expect(semToken.response.status).toBe(401);
+
+    const admin = await authorize(bearer('bootstrap'), ROLES.ADMIN, 'client-9');
+    expect(admin.ok).toBe(true);
+    if (admin.ok) expect(admin.user.role).toBe('admin');
+  });
+});
+
+// ============================================================================
+// CashFlow
+// ============================================================================
+
+describe('CashFlow', () => {
+  const mov = (data: string, tipo: 'entrada' | 'saida', valor: number, realizado = false): MovimentacaoCaixa => ({
+    data, tipo, valor, categoria: 'X', descricao: 'x', realizado,
+  });
+
+  test('anchors on the current balance and flags negative projected days', () => {
+    const fluxo = montarFluxoCaixa({
+      inicio: '2026-03-09',
+      fim: '2026-03-12',
+      hoje: '2026-03-10',
+      saldoAtual: 1000,
+      realizados: [mov('2026-03-09', 'entrada', 300, true), mov('2026-03-10', 'saida', 100, true)],
+      previstos: [mov('2026-03-11', 'saida', 1500), mov('2026-03-12', 'entrada', 800), mov('2026-03-20', 'saida', 50)],
+    });
+
+    expect(fluxo.saldoInicial).toBe(800);
+    expect(fluxo.dias.map((d) => d.saldo)).toEqual([1100, 1000, -500, 300]);
+    expect(fluxo.dias.filter((d) => d.negativo).map((d) => d.data)).toEqual(['2026-03-11']);
+    expect(fluxo.saldoFinal).toBe(300);
+    expect(fluxo.entradas).toBe(1100);
+    expect(fluxo.saidas).toBe(1600);
+    expect(fluxo.movimentacoes).toHaveLength(4);
+  });
+
+  test('future period carries earlier forecasts into the opening balance', () => {
+    const fluxo = montarFluxoCaixa({
+      inicio: '2026-03-15',
+      fim: '2026-03-16',
+      hoje: '2026-03-10',
+      saldoAtual: 1000,
+      realizados: [],
+      previstos: [mov('2026-03-12', 'saida', 400), mov('2026-03-16', 'entrada', 50)],
+    });
+
+    expect(fluxo.saldoInicial).toBe(600);
+    expect(fluxo.saldoFinal).toBe(650);
+    expect(fluxo.movimentacoes).toHaveLength(1);
+  });
+
+  test('past period walks the balance back from today through every realized movement', () => {
+    const fluxo = montarFluxoCaixa({
+      inicio: '2026-03-01',
+      fim: '2026-03-02',
+      hoje: '2026-03-10',
+      saldoAtual: 1000,
+      realizados: [mov('2026-03-02', 'entrada', 200, true), mov('2026-03-05', 'saida', 300, true), mov('2026-03-10', 'entrada', 100, true)],
+      previstos: [mov('2026-03-12', 'saida', 400)],
+    });
+
+    expect(fluxo.saldoInicial).toBe(1000);
+    expect(fluxo.saldoFinal).toBe(1200);
+    expect(fluxo.movimentacoes).toHaveLength(1);
+  });
+
+  test('open ERP items skip settled ones and bring overdue ones to today', () => {
+    const tx = (over: Partial<Transaction>): Transaction => ({
+      id: 'tx', clientId: 'client-1', type: TransactionType.PAGAR, status: TransactionStatus.CAPTURADO,
+      source: TransactionSource.NIBO, valor: 100, descricao: 'Fornecedor',
+      createdAt: '', updatedAt: '', capturedAt: '', ...over,
+    });
+
+    const movs = movimentacoesEmAberto([
+      tx({ dataVencimento: '2026-03-01' }),
+      tx({ dataVencimento: '2026-03-15', type: TransactionType.RECEBER, valor: 250, categoriaNome: 'Vendas' }),
+      tx({ dataVencimento: '2026-03-12', status: TransactionStatus.PAGO }),
+      tx({ dataVencimento: '2026-03-12', type: TransactionType.EXTRATO }),
+    ], '2026-03-10');
+
+    expect(movs).toEqual([
+      expect.objectContaining({ data: '2026-03-10', tipo: 'saida', valor: 100, categoria: 'Sem categoria' }),
+      expect.objectContaining({ data: '2026-03-15', tipo: 'entrada', valor: 250, categoria: 'Vendas' }),
+    ]);
+  });
+});
@@ -0,0 +1,335 @@
+/**
+ * Tests for Notifications (email e WhatsApp)
+ *
+ * SMTP contra um sink local (net.Server que fala o mínimo do protocolo),
+ * templates e o ProactiveNotifier com providers falsos/stub: destinatários,
+ * novas tentativas, digest de autorizações e registro do SentNotification.
+ * Table Storage é mockado.
+ */
+
+import * as net from 'net';
+import { AddressInfo } from 'net';
+
+const mockSaveSent = jest.fn().mockResolvedValue(undefined);
+const mockGetClient = jest.fn().mockResolvedValue(null);
+jest.mock('../storage/tableClient', () => ({
+  saveSentNotification: (...args: any[]) => mockSaveSent(...args),
+  getClient: (...args: any[]) => mockGetClient(...args),
+}));
+
+import { SmtpEmailProvider } from '../notifications/smtpProvider';
+import { EmailMessage, EmailProvider, EmailSendError } from '../notifications/emailProvider';
+import { templateAlerta, templateResumoDiario } from '../notifications/templates';
+import { ProactiveNotifier } from '../notifications/proactiveNotifier';
+import { StubWhatsappProvider } from '../notifications/whatsappProvider';
+import { Client, PendingAuthorization } from '../../shared/types';
+
+// ============================================================================
+// SMTP sink
+// ============================================================================
+
+interface Sink {
+  port: number;
+  comandos: string[];
+  mensagens: string[];
+  close: () => Promise<void>;
+}
+
+function iniciarSink(respostas: Record<string, string> = {}): Promise<Sink> {
+  const comandos: string[] = [];
+  const mensagens: string[] = [];
+
+  const server = net.createServer((socket) => {
+    let buffer = '';
+    let emData = false;
+    socket.write('220 sink ESMTP\r\n');
+
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8');
+
+      while (true) {
+        if (emData) {
+          const fim = buffer.indexOf('\r\n.\r\n');
+          if (fim < 0) return;
+          mensagens.push(buffer.substring(0, fim));
+          buffer = buffer.substring(fim + 5);
+          emData = false;
+          socket.write('250 OK queued\r\n');
+          continue;
+        }
+
+        const fim = buffer.indexOf('\r\n');
+        if (fim < 0) return;
+        const linha = buffer.substring(0, fim);
+        buffer = buffer.substring(fim + 2);
+        comandos.push(linha);
+
+        const verbo = linha.split(/[ :]/)[0].toUpperCase();
+        if (respostas[verbo]) {
+          socket.write(`${respostas[verbo]}\r\n`);
+        } else if (verbo === 'EHLO') {
+          socket.write('250-sink\r\n250 AUTH PLAIN\r\n');
+        } else if (verbo === 'AUTH') {
+          socket.write('235 Authenticated\r\n');
+        } else if (verbo === 'DATA') {
+          emData = true;
+          socket.write('354 End with <CRLF>.<CRLF>\r\n');
+        } else if (verbo === 'QUIT') {
+          socket.end('221 Bye\r\n');
+        } else {
+          socket.write('250 OK\r\n');
+        }
+      }
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve({
+        port: (server.address() as AddressInfo).port,
+        comandos,
+        mensagens,
+        close: () => new Promise((r) => server.close(() => r())),
+      });
+    });
+  });
+}
+
+/** Decodifica a parte base64 do content-type pedido */
+function parteMime(mensagem: string, contentType: string): string {
+  const inicio = mensagem.indexOf(`Content-Type: ${contentType}`);
+  const corpo = mensagem.substring(mensagem.indexOf('\r\n\r\n', inicio) + 4);
+  return Buffer.from(corpo.substring(0, corpo.indexOf('\r\n--')).replace(/\r\n/g, ''), 'base64').toString('utf8');
+}
+
+const MENSAGEM: EmailMessage = {
+  para: ['financeiro@cliente.com.br', 'socio@cliente.com.br'],
+  assunto: 'Resumo diário',
+  html: '<p>Olá</p>',
+  texto: 'Olá',
+};
+
+describe('SmtpEmailProvider', () => {
+  let sink: Sink;
+
+  afterEach(async () => {
+    await sink.close();
+  });
+
+  test('delivers a multipart message with auth to the SMTP sink', async () => {
+    sink = await iniciarSink();
+    const provider = new SmtpEmailProvider({
+      host: '127.0.0.1', port: sink.port, user: 'bpo', pass: 'segredo', from: 'BPO <bpo@wfinance.com.br>', timeoutMs: 5000,
+      allowPlaintextAuth: true,
+    });
+
+    await provider.enviar(MENSAGEM);
+
+    expect(sink.comandos).toEqual([
+      'EHLO localhost',
+      `AUTH PLAIN ${Buffer.from('\0bpo\0segredo').toString('base64')}`,
+      'MAIL FROM:<bpo@wfinance.com.br>',
+      'RCPT TO:<financeiro@cliente.com.br>',
+      'RCPT TO:<socio@cliente.com.br>',
+      'DATA',
+      'QUIT',
+    ]);
+    const [mensagem] = sink.mensagens;
+    expect(mensagem).toContain(`Subject: =?UTF-8?B?${Buffer.from('Resumo diário').toString('base64')}?=`);
+    expect(parteMime(mensagem, 'text/plain')).toBe('Olá');
+    expect(parteMime(mensagem, 'text/html')).toBe('<p>Olá</p>');
+  });
+
+  test('refuses AUTH over a connection without TLS', async () => {
+    sink = await iniciarSink();
+    const provider = new SmtpEmailProvider({
+      host: '127.0.0.1', port: sink.port, user: 'bpo', pass: 'segredo', from: 'bpo@wfinance.com.br', timeoutMs: 5000,
+    });
+
+    await expect(provider.enviar(MENSAGEM)).rejects.toMatchObject({ permanente: true, message: expect.stringContaining('texto claro') });
+    expect(sink.comandos).toEqual(['EHLO localhost']);
+  });
+
+  test('a rejected recipient is a permanent failure', async () => {
+    sink = await iniciarSink({ RCPT: '550 No such user' });
+    const provider = new SmtpEmailProvider({ host: '127.0.0.1', port: sink.port, from: 'bpo@wfinance.com.br', timeoutMs: 5000 });
+
+    await expect(provider.enviar(MENSAGEM)).rejects.toMatchObject({ permanente: true, codigo: 550 });
+    expect(sink.mensagens).toHaveLength(0);
+  });
+
+  test('gives up on a server that never completes the TLS handshake', async () => {
+    // Aceita a conexão e nunca responde ao ClientHello
+    const conexoes: net.Socket[] = [];
+    const mudo = net.createServer((socket) => { conexoes.push(socket); });
+    await new Promise<void>((r) => mudo.listen(0, '127.0.0.1', () => r()));
+    sink = {
+      port: (mudo.address() as AddressInfo).port, comandos: [], mensagens: [],
+      close: () => new Promise((r) => { conexoes.forEach((c) => c.destroy()); mudo.close(() => r()); }),
+    };
+    const provider = new SmtpEmailProvider({ host: '127.0.0.1', port: sink.port, secure: true, from: 'bpo@wfinance.com.br', timeoutMs: 200 });
+
+    await expect(provider.enviar(MENSAGEM)).rejects.toThrow('timeout ao conectar');
+  });
+});
+
+// ============================================================================
+// Templates
+// ============================================================================
+
+describe('Email templates', () => {
+  test('daily summary has html and text versions', () => {
+    const email = templateResumoDiario(
+      { id: 'client-1', nome: 'Apex <Corp>' },
+      { processed: 10, autoApproved: 8, needsReview: 2, anomalies: 1, totalValue: 1234.5 },
+      new Date('2026-03-10T12:00:00Z')
+    );
+
+    expect(email.assunto).toBe('Resumo diário 10/03/2026 - Apex <Corp>');
+    expect(email.html).toContain('Apex &lt;Corp&gt;');
+    expect(email.html).not.toContain('Apex <Corp>');
+    expect(email.texto).toContain('- Aprovadas automaticamente: 8 (economia estimada: 4.0 min)');
+  });
+
+  test('critical alert is flagged as urgent', () => {
+    const email = templateAlerta({ id: 'client-1' }, { title: 'Duplicidade', message: 'Linha 1\nLinha 2', severity: 'critica' });
+
+    expect(email.assunto).toBe('[URGENTE] Duplicidade - client-1');
+    expect(email.html).toContain('Linha 1<br>Linha 2');
+  });
+});
+
+// ============================================================================
+// ProactiveNotifier
+// ============================================================================
+
+describe('ProactiveNotifier', () => {
+  const client = {
+    id: 'client-1',
+    nome: 'Apex',
+    email: 'contato@apex.com.br',
+    config: {
+      notificacoes: {
+        email: true, whatsapp: false, resumoDiario: true, alertaVencimento: true,
+        emailDestino: 'financeiro@apex.com.br; CONTATO@apex.com.br',
+      },
+    },
+  } as unknown as Client;
+
+  const summary = { processed: 1, autoApproved: 1, needsReview: 0, anomalies: 0, totalValue: 10 };
+
+  const providerFalso = (...falhas: Error[]): EmailProvider & { enviar: jest.Mock } => ({
+    nome: 'fake',
+    enviar: jest.fn().mockImplementation(async () => {
+      const falha = falhas.shift();
+      if (falha) throw falha;
+    }),
+  });
+
+  beforeEach(() => {
+    mockSaveSent.mockClear();
+  });
+
+  test('sends to configured recipients and the client email, recording the send', async () => {
+    const provider = providerFalso();
+    await new ProactiveNotifier({ emailProvider: provider }).sendDailySummary('client-1', summary, client);
+
+    expect(provider.enviar).toHaveBeenCalledWith(expect.objectContaining({
+      para: ['financeiro@apex.com.br', 'CONTATO@apex.com.br'],
+    }));
+    expect(mockSaveSent).toHaveBeenCalledWith(expect.objectContaining({
+      clientId: 'client-1', tipo: 'resumo', status: 'enviado', tentativas: 1, provedor: 'fake',
+    }));
+  });
+
+  test('retries transient failures and records falha after the last attempt', async () => {
+    const provider = providerFalso(new Error('ECONNRESET'), new Error('ECONNRESET'), new Error('ECONNRESET'));
+    await new ProactiveNotifier({ emailProvider: provider, esperaMs: 0 })
+      .sendAlert('client-1', { title: 'X', message: 'Y', severity: 'alta' }, client);
+
+    expect(provider.enviar).toHaveBeenCalledTimes(3);
+    expect(mockSaveSent).toHaveBeenCalledWith(expect.objectContaining({ status: 'falha', tentativas: 3, erro: 'ECONNRESET' }));
+  });
+
+  test('does not retry a permanent rejection and recovers from a transient one', async () => {
+    const permanente = providerFalso(new EmailSendError('550', true, 550));
+    await new ProactiveNotifier({ emailProvider: permanente, esperaMs: 0 }).sendDailySummary('client-1', summary, client);
+    expect(permanente.enviar).toHaveBeenCalledTimes(1);
+
+    const transitorio = providerFalso(new EmailSendError('421', false, 421));
+    await new ProactiveNotifier({ emailProvider: transitorio, esperaMs: 0 }).sendDailySummary('client-1', summary, client);
+    expect(mockSaveSent).toHaveBeenLastCalledWith(expect.objectContaining({ status: 'enviado', tentativas: 2 }));
+  });
+
+  test('loads the client when not given and respects disabled summaries', async () => {
+    mockGetClient.mockResolvedValueOnce({
+      ...client,
+      config: { notificacoes: { ...client.config.notificacoes, resumoDiario: false } },
+    });
+    const provider = providerFalso();
+
+    await new ProactiveNotifier({ emailProvider: provider }).sendDailySummary('client-1', summary);
+
+    expect(mockGetClient).toHaveBeenCalledWith('client-1');
+    expect(provider.enviar).not.toHaveBeenCalled();
+  });
+
+  test('client without email falls back to the configured operations address', async () => {
+    const semEmail = { id: 'client-2', config: {} } as unknown as Client;
+    const provider = providerFalso();
+    const original = process.env.NOTIFICACOES_EMAIL_OPERACOES;
+
+    try {
+      process.env.NOTIFICACOES_EMAIL_OPERACOES = 'ops@bpo.com.br';
+      await new ProactiveNotifier({ emailProvider: provider }).sendDailySummary('client-2', summary, semEmail);
+      expect(provider.enviar).toHaveBeenCalledWith(expect.objectContaining({ para: ['ops@bpo.com.br'] }));
+
+      delete process.env.NOTIFICACOES_EMAIL_OPERACOES;
+      await new ProactiveNotifier({ emailProvider: provider }).sendDailySummary('client-2', summary, semEmail);
+      expect(provider.enviar).toHaveBeenLastCalledWith(expect.objectContaining({ para: [] }));
+    } finally {
+      if (original === undefined) delete process.env.NOTIFICACOES_EMAIL_OPERACOES;
+      else process.env.NOTIFICACOES_EMAIL_OPERACOES = original;
+    }
+  });
+});
+
+describe('WhatsApp authorization digest', () => {
+  const client = {
+    id: 'client-1',
+    nome: 'Apex',
+    config: { notificacoes: { email: true, whatsapp: true, resumoDiario: true, alertaVencimento: true, whatsappNumero: '11 99999-8888' } },
+  } as unknown as Client;
+
+  const autorizacao = (id: string, vencimento: string): PendingAuthorization => ({
+    id, clientId: 'client-1', transactionId: `tx-${id}`, tipo: 'pagar', descricao: 'Aluguel', valor: -1500,
+    vencimento, contraparte: 'Imobiliária X', categoria: 'Aluguel', status: 'pendente', criadoEm: '2026-03-01T00:00:00Z',
+  });
+
+  test('sends a summary and one approve/reject message per authorization', async () => {
+    const whatsapp = new StubWhatsappProvider();
+    const enviadas = await new ProactiveNotifier({ whatsappProvider: whatsapp })
+      .sendAuthorizationDigest('client-1', [autorizacao('a2', '2026-03-12'), autorizacao('a1', '2026-03-10')], client);
+
+    expect(enviadas).toBe(2);
+    expect(whatsapp.enviados.map((m) => m.para)).toEqual(['5511999998888', '5511999998888', '5511999998888']);
+    expect(whatsapp.enviados[0].texto).toContain('2 autorização(ões)');
+    expect(whatsapp.enviados[1].botoes).toEqual([
+      { id: 'aprovar:a1', titulo: 'Aprovar' },
+      { id: 'rejeitar:a1', titulo: 'Rejeitar' },
+    ]);
+    expect(whatsapp.enviados[1].texto).toContain('Vencimento: 10/03/2026');
+    expect(mockSaveSent).toHaveBeenCalledWith(expect.objectContaining({ canal: 'whatsapp', status: 'enviado', provedor: 'whatsapp-stub' }));
+  });
+
+  test('skips clients without the WhatsApp channel', async () => {
+    const whatsapp = new StubWhatsappProvider();
+    const semCanal = { ...client, config: { notificacoes: { ...client.config.notificacoes, whatsapp: false } } } as Client;
+
+    const enviadas = await new ProactiveNotifier({ whatsappProvider: whatsapp })
+      .sendAuthorizationDigest('client-1', [autorizacao('a1', '2026-03-10')], semCanal);
+
+    expect(enviadas).toBe(0);
+    expect(whatsapp.enviados).toHaveLength(0);
+  });
+});
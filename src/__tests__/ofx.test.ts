@@ -0,0 +1,316 @@
+/**
+ * Tests for OFX Ops Module
+ *
+ * Tests parser (OFX 1.x SGML / 2.x XML), conversão para Transaction e upload handler.
+ * Table Storage é mockado.
+ */
+
+// ============================================================================
+// MOCKS
+// ============================================================================
+
+const registeredRoutes: Record<string, any> = {};
+jest.mock('@azure/functions', () => ({
+  app: {
+    http: (name: string, options: any) => {
+      registeredRoutes[name] = options;
+    },
+    timer: jest.fn(),
+  },
+  HttpRequest: jest.fn(),
+  InvocationContext: jest.fn(),
+}));
+
+const mockUpsert = jest.fn();
+jest.mock('../storage/tableClient', () => ({
+  getExistingSourceIds: jest.fn().mockResolvedValue(new Set()),
+  upsertTransactionsIdempotent: (...args: any[]) => mockUpsert(...args),
+}));
+
+import { parseOfx, parseOfxDate, parseOfxAmount, decodeOfxBuffer, detectVersion } from '../ops/ofx/adapters/parser';
+import { gerarTransacoesOfx } from '../ops/ofx/functions/upload';
+import { TransactionType, TransactionSource, TransactionStatus } from '../types';
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+const OFX_SGML = [
+  'OFXHEADER:100',
+  'DATA:OFXSGML',
+  'VERSION:102',
+  'SECURITY:NONE',
+  'ENCODING:USASCII',
+  'CHARSET:1252',
+  'COMPRESSION:NONE',
+  'OLDFILEUID:NONE',
+  'NEWFILEUID:NONE',
+  '',
+  '<OFX>',
+  '<SIGNONMSGSRSV1><SONRS><STATUS><CODE>0<SEVERITY>INFO</STATUS><DTSERVER>20260301120000[-3:BRT]<LANGUAGE>POR</SONRS></SIGNONMSGSRSV1>',
+  '<BANKMSGSRSV1>',
+  '<STMTTRNRS>',
+  '<TRNUID>1',
+  '<STMTRS>',
+  '<CURDEF>BRL',
+  '<BANKACCTFROM>',
+  '<BANKID>0341',
+  '<BRANCHID>1234',
+  '<ACCTID>56789-0',
+  '<ACCTTYPE>CHECKING',
+  '</BANKACCTFROM>',
+  '<BANKTRANLIST>',
+  '<DTSTART>20260201000000[-3:BRT]',
+  '<DTEND>20260228000000[-3:BRT]',
+  '<STMTTRN>',
+  '<TRNTYPE>DEBIT',
+  '<DTPOSTED>20260205000000[-3:BRT]',
+  '<TRNAMT>-1500,50',
+  '<FITID>20260205001',
+  '<CHECKNUM>000123',
+  '<MEMO>PAGTO BOLETO FORNECEDOR ABC',
+  '</STMTTRN>',
+  '<STMTTRN>',
+  '<TRNTYPE>CREDIT',
+  '<DTPOSTED>20260210',
+  '<TRNAMT>2300.00',
+  '<FITID>20260210001',
+  '<NAME>CLIENTE XYZ LTDA',
+  '<MEMO>TED RECEBIDA',
+  '</STMTTRN>',
+  '<STMTTRN>',
+  '<TRNTYPE>OTHER',
+  '<DTPOSTED>20260211',
+  '<TRNAMT>10.00',
+  '<MEMO>SEM FITID',
+  '</STMTTRN>',
+  '</BANKTRANLIST>',
+  '<LEDGERBAL>',
+  '<BALAMT>12345.67',
+  '<DTASOF>20260228',
+  '</LEDGERBAL>',
+  '</STMTRS>',
+  '</STMTTRNRS>',
+  '</BANKMSGSRSV1>',
+  '</OFX>',
+].join('\r\n');
+
+const OFX_XML = `<?xml version="1.0" encoding="UTF-8" standalone="no"?>
+<?OFX OFXHEADER="200" VERSION="211" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>
+<OFX>
+  <CREDITCARDMSGSRSV1>
+    <CCSTMTTRNRS>
+      <TRNUID>1</TRNUID>
+      <CCSTMTRS>
+        <CURDEF>BRL</CURDEF>
+        <CCACCTFROM><ACCTID>4111********1111</ACCTID></CCACCTFROM>
+        <BANKTRANLIST>
+          <DTSTART>20260201</DTSTART>
+          <DTEND>20260228</DTEND>
+          <STMTTRN>
+            <TRNTYPE>DEBIT</TRNTYPE>
+            <DTPOSTED>20260215120000.000[-3:BRT]</DTPOSTED>
+            <TRNAMT>-89.90</TRNAMT>
+            <FITID>CC-1</FITID>
+            <NAME>POSTO &amp; CONVENIENCIA</NAME>
+            <MEMO></MEMO>
+          </STMTTRN>
+        </BANKTRANLIST>
+      </CCSTMTRS>
+    </CCSTMTTRNRS>
+  </CREDITCARDMSGSRSV1>
+</OFX>`;
+
+// ============================================================================
+// TESTS - PARSER
+// ============================================================================
+
+describe('OFX Parser', () => {
+  test('detects version from header', () => {
+    expect(detectVersion(OFX_SGML)).toBe('1.x');
+    expect(detectVersion(OFX_XML)).toBe('2.x');
+  });
+
+  test('parses OFX 1.x SGML bank statement', () => {
+    const result = parseOfx(OFX_SGML);
+
+    expect(result.version).toBe('1.x');
+    expect(result.statements).toHaveLength(1);
+
+    const stmt = result.statements[0];
+    expect(stmt.bankId).toBe('0341');
+    expect(stmt.branchId).toBe('1234');
+    expect(stmt.accountId).toBe('56789-0');
+    expect(stmt.accountType).toBe('CHECKING');
+    expect(stmt.currency).toBe('BRL');
+    expect(stmt.dtStart).toBe('2026-02-01');
+    expect(stmt.dtEnd).toBe('2026-02-28');
+    expect(stmt.ledgerBalance).toBe(12345.67);
+
+    // Lançamento sem FITID é descartado
+    expect(stmt.transactions).toHaveLength(2);
+    expect(stmt.transactions[0]).toMatchObject({
+      trnType: 'DEBIT',
+      dtPosted: '2026-02-05',
+      amount: -1500.5,
+      fitId: '20260205001',
+      checkNum: '000123',
+      memo: 'PAGTO BOLETO FORNECEDOR ABC',
+    });
+    expect(stmt.transactions[1].name).toBe('CLIENTE XYZ LTDA');
+  });
+
+  test('parses OFX 2.x XML credit card statement', () => {
+    const result = parseOfx(OFX_XML);
+
+    expect(result.version).toBe('2.x');
+    expect(result.statements).toHaveLength(1);
+    expect(result.statements[0].accountType).toBe('CREDITCARD');
+    expect(result.statements[0].transactions).toEqual([
+      expect.objectContaining({
+        dtPosted: '2026-02-15',
+        amount: -89.9,
+        fitId: 'CC-1',
+        name: 'POSTO & CONVENIENCIA',
+      }),
+    ]);
+  });
+
+  test('throws when content has no OFX body', () => {
+    expect(() => parseOfx('data,valor\n2026-01-01,10')).toThrow('OFX');
+  });
+
+  test('parses dates and amounts', () => {
+    expect(parseOfxDate('20260131235959.000[-3:BRT]')).toBe('2026-01-31');
+    expect(parseOfxDate('2026')).toBeUndefined();
+    expect(parseOfxAmount('-1234,56')).toBe(-1234.56);
+    expect(parseOfxAmount('1,234.56')).toBe(1234.56);
+    expect(parseOfxAmount('abc')).toBeUndefined();
+  });
+
+  test('decodes CP1252 content as latin1', () => {
+    const buffer = Buffer.from('OFXHEADER:100\nCHARSET:1252\n<OFX><MEMO>TARIFA MANUTENÇÃO</OFX>', 'latin1');
+    expect(decodeOfxBuffer(buffer)).toContain('MANUTENÇÃO');
+  });
+});
+
+// ============================================================================
+// TESTS - CONVERSÃO
+// ============================================================================
+
+describe('OFX -> Transaction', () => {
+  test('maps debits to PAGAR and credits to RECEBER with account-scoped sourceId', () => {
+    const txs = gerarTransacoesOfx(parseOfx(OFX_SGML), 'client-1', 'cycle-1', 'extrato.ofx');
+
+    expect(txs).toHaveLength(2);
+    expect(txs[0]).toMatchObject({
+      clientId: 'client-1',
+      type: TransactionType.PAGAR,
+      status: TransactionStatus.CAPTURADO,
+      source: TransactionSource.OFX,
+      valor: 1500.5,
+      dataRealizacao: '2026-02-05',
+      descricao: 'PAGTO BOLETO FORNECEDOR ABC',
+      numeroDocumento: '000123',
+      sourceId: '56789-0:20260205001',
+      sourceName: 'OFX 0341',
+      cycleId: 'cycle-1',
+    });
+    expect(txs[0].metadata?.arquivo).toBe('extrato.ofx');
+    expect(txs[1].type).toBe(TransactionType.RECEBER);
+    expect(txs[1].contraparte).toBe('CLIENTE XYZ LTDA');
+  });
+
+  test('ids are deterministic (reupload does not duplicate)', () => {
+    const a = gerarTransacoesOfx(parseOfx(OFX_SGML), 'client-1', 'cycle-1');
+    const b = gerarTransacoesOfx(parseOfx(OFX_SGML), 'client-1', 'cycle-2');
+
+    expect(a.map((t) => t.id)).toEqual(b.map((t) => t.id));
+  });
+});
+
+// ============================================================================
+// TESTS - UPLOAD HANDLER
+// ============================================================================
+
+describe('OFX Upload Handler', () => {
+  const jsonHeaders = new Map([['content-type', 'application/json']]);
+
+  beforeEach(() => {
+    mockUpsert.mockReset();
+    mockUpsert.mockResolvedValue({ created: ['a', 'b'], updated: [], skipped: [] });
+  });
+
+  test('upload function is registered', () => {
+    expect(registeredRoutes['ofx-upload']).toBeDefined();
+    expect(registeredRoutes['ofx-upload'].methods).toContain('POST');
+    expect(registeredRoutes['ofx-upload'].route).toBe('ofx/upload');
+  });
+
+  test('ingests base64 content idempotently', async () => {
+    const handler = registeredRoutes['ofx-upload'].handler;
+    const req = {
+      headers: jsonHeaders,
+      json: async () => ({
+        clientId: 'client-1',
+        nomeArquivo: 'itau-fev.ofx',
+        conteudoBase64: Buffer.from(OFX_SGML, 'latin1').toString('base64'),
+      }),
+    };
+
+    const result = await handler(req, { functionName: 'ofx-upload', invocationId: 'test' });
+
+    expect(result.status).toBe(200);
+    expect(result.jsonBody.success).toBe(true);
+    expect(result.jsonBody.version).toBe('1.x');
+    expect(result.jsonBody.transactions).toEqual({ total: 2, new: 2, updated: 0, skipped: 0 });
+    expect(mockUpsert).toHaveBeenCalledTimes(1);
+  });
+
+  test('action=listar previews without persisting', async () => {
+    const handler = registeredRoutes['ofx-upload'].handler;
+    const req = {
+      headers: jsonHeaders,
+      json: async () => ({ clientId: 'client-1', conteudo: OFX_XML, action: 'listar' }),
+    };
+
+    const result = await handler(req, { functionName: 'ofx-upload', invocationId: 'test' });
+
+    expect(result.status).toBe(200);
+    expect(result.jsonBody.items).toHaveLength(1);
+    expect(mockUpsert).not.toHaveBeenCalled();
+  });
+
+  test('accepts raw OFX body with clientId in query', async () => {
+    const handler = registeredRoutes['ofx-upload'].handler;
+    const req = {
+      headers: new Map([['content-type', 'application/x-ofx']]),
+      query: new Map([['clientId', 'client-1']]),
+      arrayBuffer: async () => Buffer.from(OFX_SGML, 'latin1'),
+    };
+
+    const result = await handler(req, { functionName: 'ofx-upload', invocationId: 'test' });
+
+    expect(result.status).toBe(200);
+    expect(result.jsonBody.clientId).toBe('client-1');
+  });
+
+  test('returns 400 without clientId or content', async () => {
+    const handler = registeredRoutes['ofx-upload'].handler;
+    const req = { headers: jsonHeaders, json: async () => ({ clientId: 'client-1' }) };
+
+    const result = await handler(req, { functionName: 'ofx-upload', invocationId: 'test' });
+
+    expect(result.status).toBe(400);
+  });
+
+  test('returns 400 for invalid OFX', async () => {
+    const handler = registeredRoutes['ofx-upload'].handler;
+    const req = { headers: jsonHeaders, json: async () => ({ clientId: 'client-1', conteudo: 'not ofx' }) };
+
+    const result = await handler(req, { functionName: 'ofx-upload', invocationId: 'test' });
+
+    expect(result.status).toBe(400);
+    expect(result.jsonBody.success).toBe(false);
+  });
+});
@@ -0,0 +1,311 @@
+/**
+ * Tests for Omie Ops Module - write-back (sync)
+ *
+ * Mapeamento de categoria, resolução/cadastro da contraparte, idempotência
+ * do Upsert e o handler omie/sync. OmieClient e Table Storage são mockados.
+ */
+
+// ============================================================================
+// MOCKS
+// ============================================================================
+
+const registeredRoutes: Record<string, any> = {};
+jest.mock('@azure/functions', () => ({
+  app: {
+    http: (name: string, options: any) => {
+      registeredRoutes[name] = options;
+    },
+  },
+  HttpRequest: jest.fn(),
+  InvocationContext: jest.fn(),
+}));
+
+const mockGetCategories = jest.fn();
+const mockUpdateTransaction = jest.fn().mockResolvedValue(undefined);
+jest.mock('../storage/tableClient', () => ({
+  getCategories: (...args: any[]) => mockGetCategories(...args),
+  updateTransaction: (...args: any[]) => mockUpdateTransaction(...args),
+}));
+
+const mockResolveOmieClient = jest.fn();
+jest.mock('../ops/omie/adapters/tenant', () => ({
+  resolveOmieClient: (...args: any[]) => mockResolveOmieClient(...args),
+}));
+
+import {
+  codigoIntegracao,
+  OmieSyncError,
+  resetOmieWriteBackCache,
+  syncToOmie,
+} from '../ops/omie/adapters/writeBack';
+import { baixarNoOmie } from '../ops/omie/adapters/baixa';
+import { BaixaRequest, SyncRequest } from '../ops/omie/adapters/types';
+import { TenantResolutionError } from '../ops/shared/tenant';
+import '../ops/omie/functions/sync';
+import '../ops/omie/functions/baixa';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function fakeOmie() {
+  return {
+    getCategorias: jest.fn().mockResolvedValue([
+      { codigo: '2.01.01', descricao: 'Aluguel e Condomínio' },
+      { codigo: '2.01.02', descricao: 'Energia Elétrica' },
+      { codigo: '2.01.99', descricao: 'Antiga', conta_inativa: 'S' },
+      { codigo: '1.01.01', descricao: 'Receita de Serviços' },
+    ]),
+    findClienteByCnpj: jest.fn().mockResolvedValue({ codigo_cliente_omie: 5001, cnpj_cpf: '12.345.678/0001-99' }),
+    upsertCliente: jest.fn().mockResolvedValue({
+      codigo_cliente_omie: 6001, codigo_cliente_integracao: 'mesh-x', codigo_status: '0', descricao_status: 'Cliente cadastrado com sucesso!',
+    }),
+    upsertContaPagar: jest.fn().mockResolvedValue({
+      codigo_lancamento_omie: 9001, codigo_lancamento_integracao: 'tx-1', codigo_status: '0', descricao_status: 'Lançamento cadastrado com sucesso!',
+    }),
+    upsertContaReceber: jest.fn().mockResolvedValue({
+      codigo_lancamento_omie: 9002, codigo_lancamento_integracao: 'tx-2', codigo_status: '0', descricao_status: 'Lançamento cadastrado com sucesso!',
+    }),
+    getContasCorrentes: jest.fn().mockResolvedValue([
+      { nCodCC: 701, cDescricao: 'Santander antiga', cCodBanco: '033', cInativo: 'S' },
+      { nCodCC: 702, cDescricao: 'Santander', cCodBanco: '33' },
+      { nCodCC: 703, cDescricao: 'Inter', cCodBanco: '077' },
+    ]),
+    lancarPagamento: jest.fn().mockResolvedValue({
+      codigo_lancamento: 9001, codigo_baixa: 8801, codigo_status: '0', descricao_status: 'Baixa registrada!', liquidado: 'S',
+    }),
+    lancarRecebimento: jest.fn().mockResolvedValue({
+      codigo_lancamento: 9002, codigo_baixa: 8802, codigo_status: '0', descricao_status: 'Baixa registrada!', liquidado: 'S',
+    }),
+  };
+}
+
+function baixaRequest(overrides: Partial<BaixaRequest> = {}): BaixaRequest {
+  return {
+    transactionId: 'tx-1',
+    clientId: 'client-1',
+    externalId: '9001',
+    tipo: 'pagar',
+    dataPagamento: '2026-03-12',
+    valorPago: 3535,
+    valorPrevisto: 3500,
+    juros: 35,
+    desconto: 0,
+    banco: 'santander',
+    realizadoId: 'tx-banco-1',
+    ...overrides,
+  };
+}
+
+function syncRequest(overrides: Partial<SyncRequest> = {}): SyncRequest {
+  return {
+    transactionId: 'tx-1',
+    clientId: 'client-1',
+    descricao: 'Aluguel março',
+    valor: -3500,
+    dataVencimento: '2026-03-10',
+    categoriaId: 'cat-aluguel',
+    categoriaNome: 'Aluguel',
+    contraparte: 'Imobiliária Centro',
+    contraparteCnpj: '12.345.678/0001-99',
+    tipo: 'pagar',
+    ...overrides,
+  };
+}
+
+function mockRequest(body: unknown): any {
+  return { json: async () => body };
+}
+
+const mockContext = {} as any;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  resetOmieWriteBackCache();
+  mockGetCategories.mockResolvedValue([
+    { id: 'cat-aluguel', clientId: 'client-1', codigo: '4.2', nome: 'Aluguel e Condominio', tipo: 'despesa', nivel: 2, ativo: true },
+  ]);
+});
+
+// ============================================================================
+// WRITE-BACK
+// ============================================================================
+
+describe('Omie write-back', () => {
+  test('creates a conta a pagar mapping the mesh category and the supplier CNPJ', async () => {
+    const omie = fakeOmie();
+
+    const result = await syncToOmie(omie as any, syncRequest({ numeroDocumento: 'NF 123', dataEmissao: '2026-03-01T00:00:00Z' }));
+
+    expect(result).toEqual(expect.objectContaining({ action: 'created', omieId: '9001', codigoCategoria: '2.01.01', codigoClienteFornecedor: 5001 }));
+    expect(omie.findClienteByCnpj).toHaveBeenCalledWith('12345678000199');
+    expect(omie.upsertCliente).not.toHaveBeenCalled();
+    expect(omie.upsertContaPagar).toHaveBeenCalledWith({
+      codigo_lancamento_integracao: 'tx-1',
+      codigo_lancamento_omie: undefined,
+      codigo_cliente_fornecedor: 5001,
+      data_vencimento: '10/03/2026',
+      data_previsao: '10/03/2026',
+      valor_documento: 3500,
+      codigo_categoria: '2.01.01',
+      numero_documento: 'NF 123',
+      data_emissao: '01/03/2026',
+      observacao: 'Aluguel março',
+    });
+  });
+
+  test('registers an unknown counterparty before creating a conta a receber', async () => {
+    const omie = fakeOmie();
+    omie.findClienteByCnpj.mockResolvedValueOnce(null);
+
+    const result = await syncToOmie(omie as any, syncRequest({
+      transactionId: 'tx-2',
+      tipo: 'receber',
+      valor: 1200,
+      categoriaId: '1.01.01',
+      categoriaNome: undefined,
+      contraparte: 'Cliente Beta',
+      contraparteCnpj: '98765432000110',
+    }));
+
+    expect(omie.upsertCliente).toHaveBeenCalledWith({
+      codigo_cliente_integracao: 'mesh-98765432000110',
+      razao_social: 'Cliente Beta',
+      nome_fantasia: 'Cliente Beta',
+      cnpj_cpf: '98.765.432/0001-10',
+      tags: [{ tag: 'Cliente' }],
+    });
+    expect(omie.upsertContaReceber).toHaveBeenCalledWith(expect.objectContaining({
+      codigo_lancamento_integracao: 'tx-2',
+      codigo_cliente_fornecedor: 6001,
+      codigo_categoria: '1.01.01',
+    }));
+    expect(result.action).toBe('created');
+  });
+
+  test('re-sync updates the same lançamento and reuses the cached chart of accounts', async () => {
+    const omie = fakeOmie();
+    omie.upsertContaPagar.mockResolvedValue({
+      codigo_lancamento_omie: 9001, codigo_lancamento_integracao: 'tx-1', codigo_status: '0', descricao_status: 'Lançamento alterado com sucesso!',
+    });
+
+    await syncToOmie(omie as any, syncRequest());
+    const result = await syncToOmie(omie as any, syncRequest({ existingExternalId: '9001', valor: -3600 }));
+
+    expect(result.action).toBe('updated');
+    expect(omie.upsertContaPagar).toHaveBeenLastCalledWith(expect.objectContaining({
+      codigo_lancamento_integracao: 'tx-1',
+      codigo_lancamento_omie: 9001,
+      valor_documento: 3600,
+    }));
+    expect(omie.getCategorias).toHaveBeenCalledTimes(1);
+  });
+
+  test('rejects transactions without a matching Omie category', async () => {
+    const omie = fakeOmie();
+    mockGetCategories.mockResolvedValue([]);
+
+    await expect(syncToOmie(omie as any, syncRequest({ categoriaId: 'cat-x', categoriaNome: 'Antiga' })))
+      .rejects.toBeInstanceOf(OmieSyncError);
+    expect(omie.upsertContaPagar).not.toHaveBeenCalled();
+  });
+
+  test('long transaction ids get a stable integration code within the Omie limit', () => {
+    const id = `planilha-${'x'.repeat(80)}`;
+
+    expect(codigoIntegracao(id)).toBe(codigoIntegracao(id));
+    expect(codigoIntegracao(id).length).toBeLessThanOrEqual(60);
+    expect(codigoIntegracao('tx-1')).toBe('tx-1');
+  });
+});
+
+// ============================================================================
+// HANDLER
+// ============================================================================
+
+describe('omie-sync handler', () => {
+  const handler = () => registeredRoutes['omie-sync'].handler;
+
+  test('syncs with the client credentials and stores omieId on the transaction', async () => {
+    const omie = fakeOmie();
+    mockResolveOmieClient.mockResolvedValue(omie);
+
+    const res = await handler()(mockRequest(syncRequest()), mockContext);
+
+    expect(mockResolveOmieClient).toHaveBeenCalledWith('client-1');
+    expect(res.status).toBe(200);
+    expect(res.jsonBody).toEqual({ success: true, action: 'created', externalId: '9001' });
+    expect(mockUpdateTransaction).toHaveBeenCalledWith('client-1', 'tx-1', { omieId: '9001' });
+  });
+
+  test('returns skipped with the reason when the transaction cannot be synced', async () => {
+    mockResolveOmieClient.mockResolvedValue(fakeOmie());
+
+    const res = await handler()(mockRequest(syncRequest({ contraparte: undefined, contraparteCnpj: undefined })), mockContext);
+
+    expect(res.status).toBe(200);
+    expect(res.jsonBody).toEqual({ success: false, action: 'skipped', error: 'Transação sem contraparte' });
+    expect(mockUpdateTransaction).not.toHaveBeenCalled();
+  });
+
+  test('client without Omie keys is skipped and unknown clients get 404', async () => {
+    mockResolveOmieClient.mockRejectedValueOnce(new OmieSyncError('Cliente client-1 sem credenciais Omie (omieAppKey)'));
+    const semChave = await handler()(mockRequest(syncRequest()), mockContext);
+    expect(semChave.status).toBe(200);
+    expect(semChave.jsonBody).toMatchObject({ success: false, action: 'skipped' });
+
+    mockResolveOmieClient.mockRejectedValueOnce(new TenantResolutionError('Cliente client-1 não encontrado', 404));
+    const desconhecido = await handler()(mockRequest(syncRequest()), mockContext);
+    expect(desconhecido.status).toBe(404);
+    expect(mockUpdateTransaction).not.toHaveBeenCalled();
+  });
+
+  test('requires transactionId and clientId', async () => {
+    const res = await handler()(mockRequest({ tipo: 'pagar' }), mockContext);
+
+    expect(res.status).toBe(400);
+    expect(mockResolveOmieClient).not.toHaveBeenCalled();
+  });
+});
+
+// ============================================================================
+// BAIXA
+// ============================================================================
+
+describe('Omie baixa', () => {
+  test('pays the conta with the bank date, the previsto value plus interest on the active account of the bank', async () => {
+    const omie = fakeOmie();
+
+    const result = await baixarNoOmie(omie as any, baixaRequest());
+
+    expect(result).toEqual({ baixaId: '8801', contaCorrente: 702, liquidado: true });
+    expect(omie.lancarPagamento).toHaveBeenCalledWith({
+      codigo_lancamento: 9001,
+      codigo_baixa_integracao: 'baixa-tx-banco-1',
+      codigo_conta_corrente: 702,
+      valor: 3500,
+      juros: 35,
+      desconto: undefined,
+      data: '12/03/2026',
+      observacao: 'Conciliado pelo mesh com tx-banco-1',
+    });
+  });
+
+  test('receipts use LancarRecebimento and the account from the client config', async () => {
+    const omie = fakeOmie();
+
+    await baixarNoOmie(omie as any, baixaRequest({ tipo: 'receber', juros: 0, desconto: 10, contaBancaria: '900' }));
+
+    expect(omie.getContasCorrentes).not.toHaveBeenCalled();
+    expect(omie.lancarRecebimento).toHaveBeenCalledWith(expect.objectContaining({ codigo_conta_corrente: 900, desconto: 10 }));
+  });
+
+  test('handler returns the reason when no account matches the bank', async () => {
+    mockResolveOmieClient.mockResolvedValue(fakeOmie());
+
+    const res = await registeredRoutes['omie-baixa'].handler(mockRequest(baixaRequest({ banco: 'getnet' })), mockContext);
+
+    expect(res.status).toBe(200);
+    expect(res.jsonBody).toEqual({ success: false, error: 'Baixa do getnet exige contasErp.getnet no cadastro do cliente' });
+  });
+});
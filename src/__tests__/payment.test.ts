@@ -0,0 +1,388 @@
+/**
+ * Tests for Payment Execution
+ *
+ * Tests paymentGateway (status mapping, modo api/cnab), as activities de
+ * envio/consulta/falha e o orquestrador. Storage e gateways bancários são mockados.
+ */
+
+// ============================================================================
+// MOCKS
+// ============================================================================
+
+jest.mock('@azure/functions', () => ({
+  app: { http: jest.fn(), timer: jest.fn() },
+}));
+
+const registeredOrchestrations: Record<string, any> = {};
+jest.mock('durable-functions', () => ({
+  app: {
+    orchestration: (name: string, handler: any) => {
+      registeredOrchestrations[name] = handler;
+    },
+    activity: jest.fn(),
+  },
+}));
+
+const mockGetAuthorization = jest.fn();
+const mockUpdatePagamento = jest.fn();
+const mockReturnToQueue = jest.fn();
+const mockGetTransaction = jest.fn();
+const mockUpdateTransaction = jest.fn();
+const mockAddHistory = jest.fn();
+jest.mock('../storage/tableClient', () => ({
+  getClient: jest.fn().mockResolvedValue({ id: 'client-1', config: { banco: 'inter' } }),
+  getAuthorization: (...args: any[]) => mockGetAuthorization(...args),
+  updateAuthorizationPagamento: (...args: any[]) => mockUpdatePagamento(...args),
+  returnAuthorizationToQueue: (...args: any[]) => mockReturnToQueue(...args),
+  getTransaction: (...args: any[]) => mockGetTransaction(...args),
+  updateTransaction: (...args: any[]) => mockUpdateTransaction(...args),
+  addHistoryAction: (...args: any[]) => mockAddHistory(...args),
+}));
+
+const mockPay = jest.fn();
+const mockGetStatus = jest.fn();
+const mockGetPaymentGateway = jest.fn();
+jest.mock('../infra/paymentGateway', () => ({
+  ...jest.requireActual('../infra/paymentGateway'),
+  getPaymentGateway: (...args: any[]) => mockGetPaymentGateway(...args),
+}));
+
+import { mapBankStatus, usaPagamentoViaApi } from '../infra/paymentGateway';
+import { buildPaymentOrder, checkPayment, failPayment, submitPayment } from '../activities/paymentActivity';
+import '../orchestrators/paymentExecutionOrchestrator';
+import {
+  PaymentExecution,
+  PendingAuthorization,
+  Transaction,
+  TransactionSource,
+  TransactionStatus,
+  TransactionType,
+} from '../types';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function makeAuth(overrides: Partial<PendingAuthorization> = {}): PendingAuthorization {
+  return {
+    id: 'auth-1',
+    clientId: 'client-1',
+    transactionId: 'tx-1',
+    tipo: 'pagar',
+    descricao: 'Fornecedor ABC',
+    valor: 1200,
+    vencimento: '2026-01-10',
+    contraparte: 'Fornecedor ABC',
+    categoria: 'Fornecedores',
+    status: 'aprovado',
+    criadoEm: '2026-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+function makeTx(overrides: Partial<Transaction> = {}): Transaction {
+  return {
+    id: 'tx-1',
+    clientId: 'client-1',
+    type: TransactionType.PAGAR,
+    status: TransactionStatus.PAGAMENTO_PENDENTE,
+    source: TransactionSource.NIBO,
+    valor: 1200,
+    descricao: 'Fornecedor ABC',
+    metadata: { favorecido: { nome: 'Fornecedor ABC', chavePix: 'financeiro@abc.com.br', tipoChavePix: 'email' } },
+    createdAt: '2026-01-01T00:00:00Z',
+    updatedAt: '2026-01-01T00:00:00Z',
+    capturedAt: '2026-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+function makePagamento(overrides: Partial<PaymentExecution> = {}): PaymentExecution {
+  return {
+    idempotencyKey: 'auth-1-1',
+    tentativa: 1,
+    banco: 'inter',
+    forma: 'pix',
+    status: 'agendado',
+    bancoPagamentoId: 'SOL-1',
+    atualizadoEm: '2026-01-10T00:00:00Z',
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockGetTransaction.mockResolvedValue(makeTx());
+  mockGetPaymentGateway.mockResolvedValue({ banco: 'inter', pay: mockPay, getStatus: mockGetStatus });
+});
+
+// ============================================================================
+// TESTS - GATEWAY
+// ============================================================================
+
+describe('PaymentGateway', () => {
+  test('maps bank statuses to execution states', () => {
+    expect(mapBankStatus('PAYED')).toBe('pago');
+    expect(mapBankStatus('efetivado')).toBe('pago');
+    expect(mapBankStatus('REJECTED')).toBe('falha');
+    expect(mapBankStatus('CANCELADO')).toBe('falha');
+    expect(mapBankStatus('AGUARDANDO_APROVACAO')).toBe('agendado');
+    expect(mapBankStatus(undefined)).toBe('agendado');
+  });
+
+  test('uses API only for supported banks unless the client chose CNAB', () => {
+    expect(usaPagamentoViaApi({ banco: 'santander' } as any)).toBe(true);
+    expect(usaPagamentoViaApi({ banco: 'Inter' } as any)).toBe(true);
+    expect(usaPagamentoViaApi({ banco: 'inter', pagamentoModo: 'cnab' } as any)).toBe(false);
+    expect(usaPagamentoViaApi({ banco: 'itau' } as any)).toBe(false);
+    expect(usaPagamentoViaApi(undefined)).toBe(false);
+  });
+
+  test('builds orders from transaction payment data', () => {
+    const pix = buildPaymentOrder(makeAuth(), makeTx(), 'auth-1-1');
+    expect(pix).toMatchObject({ forma: 'pix', chavePix: 'financeiro@abc.com.br', valor: 1200, idempotencyKey: 'auth-1-1' });
+
+    const ted = buildPaymentOrder(makeAuth(), makeTx({
+      metadata: { favorecido: { banco: '341', agencia: '1', conta: '2' } },
+    }), 'k');
+    expect(ted).toEqual({ motivo: expect.stringContaining('TED') });
+  });
+});
+
+// ============================================================================
+// TESTS - ACTIVITIES
+// ============================================================================
+
+describe('submitPayment', () => {
+  test('sends to the bank with an idempotency key and schedules the transaction', async () => {
+    mockGetAuthorization.mockResolvedValue(makeAuth());
+    mockPay.mockResolvedValue({ status: 'agendado', bancoPagamentoId: 'SOL-1', statusBanco: 'AGENDADO' });
+
+    const result = await submitPayment('auth-1');
+
+    expect(result.status).toBe('agendado');
+    expect(mockPay).toHaveBeenCalledWith(expect.objectContaining({ idempotencyKey: 'auth-1-1', forma: 'pix' }));
+    // Estado 'enviado' persistido antes de chamar o banco
+    expect(mockUpdatePagamento.mock.calls[0][1]).toMatchObject({ status: 'enviado', idempotencyKey: 'auth-1-1' });
+    expect(mockUpdatePagamento.mock.calls[1][1]).toMatchObject({ status: 'agendado', bancoPagamentoId: 'SOL-1' });
+    expect(mockUpdateTransaction).toHaveBeenCalledWith('client-1', 'tx-1', expect.objectContaining({
+      status: TransactionStatus.AGENDADO,
+    }));
+    expect(mockAddHistory).toHaveBeenCalledWith(expect.objectContaining({ tipo: 'pagamento' }));
+  });
+
+  test('does not resend a payment already accepted by the bank', async () => {
+    mockGetAuthorization.mockResolvedValue(makeAuth({ pagamento: makePagamento() }));
+
+    const result = await submitPayment('auth-1');
+
+    expect(result.status).toBe('agendado');
+    expect(mockPay).not.toHaveBeenCalled();
+  });
+
+  test('retries an interrupted send with the same key and bumps the key after a failure', async () => {
+    mockPay.mockResolvedValue({ status: 'agendado', bancoPagamentoId: 'SOL-2', statusBanco: 'AGENDADO' });
+
+    mockGetAuthorization.mockResolvedValue(makeAuth({
+      pagamento: makePagamento({ status: 'enviado', bancoPagamentoId: undefined }),
+    }));
+    await submitPayment('auth-1');
+    expect(mockPay.mock.calls[0][0].idempotencyKey).toBe('auth-1-1');
+
+    mockGetAuthorization.mockResolvedValue(makeAuth({ pagamento: makePagamento({ status: 'falha' }) }));
+    await submitPayment('auth-1');
+    expect(mockPay.mock.calls[1][0].idempotencyKey).toBe('auth-1-2');
+  });
+
+  test('skips authorizations not approved or already in a CNAB remessa', async () => {
+    mockGetAuthorization.mockResolvedValueOnce(makeAuth({ status: 'pendente' }));
+    mockGetAuthorization.mockResolvedValueOnce(makeAuth({ remessaId: 'rem-1' }));
+
+    expect((await submitPayment('auth-1')).status).toBe('ignorado');
+    expect((await submitPayment('auth-1')).status).toBe('ignorado');
+    expect(mockPay).not.toHaveBeenCalled();
+  });
+
+  test('keeps an unanswered send as enviado so the retry reuses the key', async () => {
+    mockGetAuthorization.mockResolvedValue(makeAuth());
+    mockPay.mockRejectedValue(new Error('socket hang up'));
+
+    const result = await submitPayment('auth-1');
+
+    expect(result).toMatchObject({ status: 'enviado', erro: 'socket hang up' });
+    expect(mockUpdatePagamento.mock.calls[1][1]).toMatchObject({ status: 'enviado', idempotencyKey: 'auth-1-1', erro: 'socket hang up' });
+    expect(mockUpdatePagamento.mock.calls[1][1].bancoPagamentoId).toBeUndefined();
+    expect(mockUpdateTransaction).not.toHaveBeenCalled();
+  });
+
+  test('an explicit bank refusal is recorded as falha', async () => {
+    mockGetAuthorization.mockResolvedValue(makeAuth());
+    mockPay.mockResolvedValue({ status: 'falha', statusBanco: 'REJEITADO' });
+
+    const result = await submitPayment('auth-1');
+
+    expect(result).toMatchObject({ status: 'falha', erro: expect.stringContaining('REJEITADO') });
+    expect(mockUpdatePagamento.mock.calls[1][1]).toMatchObject({ status: 'falha' });
+  });
+
+  test('fails without sending when the bank has no payment API', async () => {
+    mockGetAuthorization.mockResolvedValue(makeAuth());
+    mockGetPaymentGateway.mockRejectedValue(new Error('Banco itau não suporta pagamento via API'));
+
+    const result = await submitPayment('auth-1');
+
+    expect(result).toMatchObject({ status: 'falha', erro: 'Banco itau não suporta pagamento via API' });
+    expect(mockPay).not.toHaveBeenCalled();
+    expect(mockUpdatePagamento).not.toHaveBeenCalled();
+  });
+});
+
+describe('checkPayment', () => {
+  test('marks the transaction PAGO with comprovante when the bank confirms', async () => {
+    mockGetAuthorization.mockResolvedValue(makeAuth({ pagamento: makePagamento() }));
+    mockGetStatus.mockResolvedValue({
+      status: 'pago', statusBanco: 'EFETIVADO', comprovanteId: 'E2E-1', dataPagamento: '2026-01-10',
+    });
+
+    const result = await checkPayment('auth-1');
+
+    expect(result.status).toBe('pago');
+    expect(mockGetStatus).toHaveBeenCalledWith('SOL-1', 'pix');
+    expect(mockUpdateTransaction).toHaveBeenCalledWith('client-1', 'tx-1', expect.objectContaining({
+      status: TransactionStatus.PAGO,
+      dataRealizacao: '2026-01-10',
+      metadata: expect.objectContaining({ pagamento: expect.objectContaining({ comprovanteId: 'E2E-1' }) }),
+    }));
+  });
+
+  test('keeps polling while the bank has no final status', async () => {
+    mockGetAuthorization.mockResolvedValue(makeAuth({ pagamento: makePagamento() }));
+    mockGetStatus.mockResolvedValue(null);
+
+    expect((await checkPayment('auth-1')).status).toBe('agendado');
+    expect(mockUpdateTransaction).not.toHaveBeenCalled();
+  });
+
+  test('records a failed payment when the gateway cannot be resolved', async () => {
+    mockGetAuthorization.mockResolvedValue(makeAuth({ pagamento: makePagamento() }));
+    mockGetPaymentGateway.mockRejectedValue(new Error('Inter credentials not found'));
+
+    const result = await checkPayment('auth-1');
+
+    expect(result).toMatchObject({ status: 'falha', erro: expect.stringContaining('Inter credentials not found') });
+    expect(mockUpdatePagamento).toHaveBeenCalledWith('auth-1', expect.objectContaining({
+      status: 'falha', bancoPagamentoId: 'SOL-1',
+    }));
+    expect(mockGetStatus).not.toHaveBeenCalled();
+  });
+});
+
+describe('failPayment', () => {
+  test('returns the authorization to the queue with the reason', async () => {
+    mockGetAuthorization.mockResolvedValue(makeAuth({ pagamento: makePagamento() }));
+
+    await failPayment('auth-1', 'Saldo insuficiente');
+
+    expect(mockReturnToQueue).toHaveBeenCalledWith(
+      'auth-1',
+      'Falha no pagamento: Saldo insuficiente',
+      expect.objectContaining({ status: 'falha', erro: 'Saldo insuficiente' })
+    );
+    expect(mockUpdateTransaction).toHaveBeenCalledWith('client-1', 'tx-1', expect.objectContaining({
+      status: TransactionStatus.PAGAMENTO_PENDENTE,
+    }));
+    expect(mockAddHistory).toHaveBeenCalledWith(expect.objectContaining({ tipo: 'erro' }));
+  });
+
+  test('an interrupted send stays enviado so re-approval resends the same key', async () => {
+    mockGetAuthorization.mockResolvedValue(makeAuth({
+      pagamento: makePagamento({ status: 'enviado', bancoPagamentoId: undefined }),
+    }));
+
+    await failPayment('auth-1', 'Banco sem resposta ao envio: timeout');
+
+    expect(mockReturnToQueue).toHaveBeenCalledWith('auth-1', expect.any(String), expect.objectContaining({
+      status: 'enviado', idempotencyKey: 'auth-1-1',
+    }));
+  });
+});
+
+// ============================================================================
+// TESTS - ORCHESTRATOR
+// ============================================================================
+
+/** Executa o generator do orquestrador respondendo cada yield com a lista fornecida */
+function runOrchestrator(responses: any[]) {
+  const calls: Array<{ activity?: string; timer?: boolean }> = [];
+  const context = {
+    df: {
+      getInput: () => ({ authorizationId: 'auth-1' }),
+      callActivity: (activity: string) => ({ activity }),
+      createTimer: () => ({ timer: true }),
+      currentUtcDateTime: new Date('2026-01-10T12:00:00Z'),
+      isReplaying: true,
+    },
+    log: jest.fn(),
+  };
+
+  const gen = registeredOrchestrations['paymentExecutionOrchestrator'](context);
+  let step = gen.next();
+  while (!step.done) {
+    calls.push(step.value);
+    step = gen.next(step.value.timer ? undefined : responses.shift());
+  }
+  return { calls, output: step.value };
+}
+
+describe('paymentExecutionOrchestrator', () => {
+  test('polls until the payment is confirmed', () => {
+    const { calls, output } = runOrchestrator([
+      { status: 'agendado' },
+      { status: 'agendado' },
+      { status: 'pago' },
+    ]);
+
+    expect(calls.map((c) => c.activity || 'timer')).toEqual([
+      'submitPaymentActivity', 'checkPaymentActivity', 'timer', 'checkPaymentActivity',
+    ]);
+    expect(output.status).toBe('pago');
+  });
+
+  test('sends failures back to the authorization queue', () => {
+    const { calls, output } = runOrchestrator([
+      { status: 'agendado' },
+      { status: 'falha', erro: 'REJECTED' },
+      { status: 'falha', erro: 'REJECTED' },
+    ]);
+
+    expect(calls.map((c) => c.activity || 'timer')).toEqual([
+      'submitPaymentActivity', 'checkPaymentActivity', 'failPaymentActivity',
+    ]);
+    expect(output.status).toBe('falha');
+  });
+
+  test('resends an unanswered submit before giving up', () => {
+    const { calls, output } = runOrchestrator([
+      { status: 'enviado', erro: 'timeout' },
+      { status: 'enviado', erro: 'timeout' },
+      { status: 'agendado' },
+      { status: 'pago' },
+    ]);
+
+    expect(calls.map((c) => c.activity || 'timer')).toEqual([
+      'submitPaymentActivity', 'timer', 'submitPaymentActivity', 'timer', 'submitPaymentActivity', 'checkPaymentActivity',
+    ]);
+    expect(output.status).toBe('pago');
+
+    const semResposta = runOrchestrator([
+      { status: 'enviado' }, { status: 'enviado' }, { status: 'enviado' }, { status: 'enviado' }, { status: 'falha' },
+    ]);
+    expect(semResposta.calls.map((c) => c.activity || 'timer').slice(-1)).toEqual(['failPaymentActivity']);
+  });
+
+  test('submit failure skips polling', () => {
+    const { calls } = runOrchestrator([{ status: 'falha', erro: 'x' }, { status: 'falha' }]);
+
+    expect(calls.map((c) => c.activity)).toEqual(['submitPaymentActivity', 'failPaymentActivity']);
+  });
+});
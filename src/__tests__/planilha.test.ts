@@ -0,0 +1,348 @@
+/**
+ * Tests for Planilha Ops Module (CSV/Excel)
+ *
+ * Tests leitores (CSV, XLSX), mapper de perfis e handlers de preview/importação.
+ * Table Storage é mockado.
+ */
+
+import * as zlib from 'zlib';
+
+// ============================================================================
+// MOCKS
+// ============================================================================
+
+const registeredRoutes: Record<string, any> = {};
+jest.mock('@azure/functions', () => ({
+  app: {
+    http: (name: string, options: any) => {
+      registeredRoutes[name] = options;
+    },
+    timer: jest.fn(),
+  },
+  HttpRequest: jest.fn(),
+  InvocationContext: jest.fn(),
+}));
+
+const mockUpsert = jest.fn();
+const mockGetProfile = jest.fn();
+jest.mock('../storage/tableClient', () => ({
+  getExistingSourceIds: jest.fn().mockResolvedValue(new Set()),
+  upsertTransactionsIdempotent: (...args: any[]) => mockUpsert(...args),
+  getImportProfile: (...args: any[]) => mockGetProfile(...args),
+  getImportProfiles: jest.fn().mockResolvedValue([]),
+  saveImportProfile: jest.fn().mockResolvedValue(undefined),
+  deleteImportProfile: jest.fn().mockResolvedValue(undefined),
+}));
+
+import { parseCsv, detectDelimiter } from '../ops/planilha/adapters/csv';
+import { readXlsx, isXlsx } from '../ops/planilha/adapters/xlsx';
+import { aplicarPerfil, validateProfile, parseDataPlanilha, parseValorPlanilha } from '../ops/planilha/adapters/mapper';
+import { linhasToTransactions } from '../ops/planilha/functions/importar';
+import '../ops/planilha/functions/perfis';
+import { ImportMappingProfile, TransactionSource, TransactionType } from '../types';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function makePerfil(overrides: Partial<ImportMappingProfile> = {}): ImportMappingProfile {
+  return {
+    id: 'perfil-1',
+    clientId: 'client-1',
+    nome: 'Extrato Itaú',
+    formato: 'csv',
+    colunas: { data: 'Data', valor: 'Valor', descricao: 'Histórico', contraparte: 'Favorecido' },
+    separadorDecimal: ',',
+    separadorMilhar: '.',
+    formatoData: 'DD/MM/YYYY',
+    convencaoSinal: 'negativo_debito',
+    criadoEm: '2026-01-01T00:00:00Z',
+    atualizadoEm: '2026-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+const CSV_ITAU = [
+  'Data;Histórico;Favorecido;Valor',
+  '05/02/2026;PAGTO BOLETO;"Fornecedor; ABC";-1.500,50',
+  '10/02/2026;TED RECEBIDA;Cliente XYZ;2.300,00',
+  '31/02/2026;DATA RUIM;;10,00',
+  '',
+].join('\r\n');
+
+/** Monta um ZIP (deflate) com os arquivos informados */
+function buildZip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const data = zlib.deflateRawSync(Buffer.from(content, 'utf8'));
+    const nameBuf = Buffer.from(name, 'utf8');
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt16LE(nameBuf.length, 26);
+    locals.push(local, nameBuf, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt16LE(nameBuf.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBuf);
+
+    offset += 30 + nameBuf.length + data.length;
+  }
+
+  const centralSize = centrals.reduce((n, b) => n + b.length, 0);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(Object.keys(files).length, 10);
+  eocd.writeUInt32LE(centralSize, 12);
+  eocd.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, ...centrals, eocd]);
+}
+
+function buildXlsx(): Buffer {
+  return buildZip({
+    'xl/workbook.xml': '<workbook><sheets><sheet name="Resumo" sheetId="1" r:id="rId1"/><sheet name="Extrato" sheetId="2" r:id="rId2"/></sheets></workbook>',
+    'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Target="worksheets/sheet2.xml"/></Relationships>',
+    'xl/sharedStrings.xml': '<sst><si><t>Data</t></si><si><t>Descrição</t></si><si><t>Valor</t></si><si><r><t>TARIFA </t></r><r><t>&amp; IOF</t></r></si></sst>',
+    'xl/worksheets/sheet1.xml': '<worksheet><sheetData><row r="1"><c r="A1" t="inlineStr"><is><t>resumo</t></is></c></row></sheetData></worksheet>',
+    'xl/worksheets/sheet2.xml': [
+      '<worksheet><sheetData>',
+      '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="s"><v>2</v></c></row>',
+      '<row r="2"><c r="A2"><v>46058</v></c><c r="B2" t="s"><v>3</v></c><c r="C2"><v>-35.9</v></c></row>',
+      '</sheetData></worksheet>',
+    ].join(''),
+  });
+}
+
+// ============================================================================
+// TESTS - LEITORES
+// ============================================================================
+
+describe('Planilha CSV Reader', () => {
+  test('detects delimiter and handles quoted fields', () => {
+    expect(detectDelimiter(CSV_ITAU)).toBe(';');
+    expect(detectDelimiter('a,b,c\n1,2,3')).toBe(',');
+
+    const grid = parseCsv(CSV_ITAU);
+    expect(grid[0]).toEqual(['Data', 'Histórico', 'Favorecido', 'Valor']);
+    expect(grid[1][2]).toBe('Fornecedor; ABC');
+    expect(grid).toHaveLength(4);
+  });
+
+  test('handles escaped quotes and newlines inside fields', () => {
+    const grid = parseCsv('a,b\n"linha 1\nlinha 2","diz ""oi"""', ',');
+    expect(grid[1]).toEqual(['linha 1\nlinha 2', 'diz "oi"']);
+  });
+});
+
+describe('Planilha XLSX Reader', () => {
+  test('reads the requested sheet with shared strings', () => {
+    const buffer = buildXlsx();
+    expect(isXlsx(buffer)).toBe(true);
+
+    const grid = readXlsx(buffer, 'extrato');
+    expect(grid[0]).toEqual(['Data', 'Descrição', 'Valor']);
+    expect(grid[1]).toEqual(['46058', 'TARIFA & IOF', '-35.9']);
+  });
+
+  test('defaults to first sheet', () => {
+    expect(readXlsx(buildXlsx())[0]).toEqual(['resumo']);
+  });
+
+  test('throws for unknown sheet', () => {
+    expect(() => readXlsx(buildXlsx(), 'Inexistente')).toThrow('Inexistente');
+  });
+});
+
+// ============================================================================
+// TESTS - MAPPER
+// ============================================================================
+
+describe('Planilha Mapper', () => {
+  test('parses dates by mask and Excel serial', () => {
+    expect(parseDataPlanilha('05/02/2026', 'DD/MM/YYYY')).toBe('2026-02-05');
+    expect(parseDataPlanilha('2026-02-05', 'YYYY-MM-DD')).toBe('2026-02-05');
+    expect(parseDataPlanilha('02/05/26', 'MM/DD/YY')).toBe('2026-02-05');
+    expect(parseDataPlanilha('05/02/2026 14:30', 'DD/MM/YYYY')).toBe('2026-02-05');
+    expect(parseDataPlanilha('31/02/2026', 'DD/MM/YYYY')).toBeUndefined();
+    expect(parseDataPlanilha('46058', 'DD/MM/YYYY')).toBe('2026-02-05');
+  });
+
+  test('parses values by separators', () => {
+    expect(parseValorPlanilha('-1.500,50', ',', '.')).toBe(-1500.5);
+    expect(parseValorPlanilha('1,234.56', '.', ',')).toBe(1234.56);
+    expect(parseValorPlanilha('(1.000,00)', ',')).toBe(-1000);
+    expect(parseValorPlanilha('R$ 10,00-', ',')).toBe(-10);
+    expect(parseValorPlanilha('abc', ',')).toBeUndefined();
+  });
+
+  test('applies profile and reports row errors', () => {
+    const { cabecalho, linhas } = aplicarPerfil(parseCsv(CSV_ITAU), makePerfil());
+
+    expect(cabecalho).toHaveLength(4);
+    expect(linhas).toHaveLength(3);
+    expect(linhas[0]).toMatchObject({
+      linha: 2, data: '2026-02-05', valor: 1500.5, tipo: 'saida',
+      descricao: 'PAGTO BOLETO', contraparte: 'Fornecedor; ABC', erros: [],
+    });
+    expect(linhas[1].tipo).toBe('entrada');
+    expect(linhas[2].erros[0]).toContain('Data inválida');
+  });
+
+  test('supports separate debit/credit columns', () => {
+    const grid = parseCsv('Data;Descricao;Debito;Credito\n01/03/2026;Tarifa;12,90;\n02/03/2026;Pix;;50,00');
+    const { linhas } = aplicarPerfil(grid, makePerfil({
+      colunas: { data: 'data', descricao: 'descricao', debito: 'debito', credito: 'credito' },
+      convencaoSinal: 'colunas_separadas',
+    }));
+
+    expect(linhas.map((l) => [l.tipo, l.valor])).toEqual([['saida', 12.9], ['entrada', 50]]);
+  });
+
+  test('supports type column and positive-debit convention', () => {
+    const grid = parseCsv('1,2,3,4\n2026-03-01,Compra,99.90,D\n2026-03-02,Estorno,10.00,C', ',');
+    const base = {
+      linhaCabecalho: 1,
+      colunas: { data: '1', descricao: '2', valor: '3', tipo: '4' },
+      separadorDecimal: '.' as const,
+      formatoData: 'YYYY-MM-DD',
+    };
+
+    const porTipo = aplicarPerfil(grid, makePerfil({ ...base, convencaoSinal: 'coluna_tipo' })).linhas;
+    expect(porTipo.map((l) => l.tipo)).toEqual(['saida', 'entrada']);
+
+    const cartao = aplicarPerfil(grid, makePerfil({ ...base, convencaoSinal: 'positivo_debito' })).linhas;
+    expect(cartao.map((l) => l.tipo)).toEqual(['saida', 'saida']);
+  });
+
+  test('reports missing columns', () => {
+    const { linhas } = aplicarPerfil(parseCsv(CSV_ITAU), makePerfil({
+      colunas: { data: 'Data', valor: 'Montante', descricao: 'Histórico' },
+    }));
+    expect(linhas[0].erros.some((e) => e.includes('"Montante"'))).toBe(true);
+  });
+
+  test('validateProfile checks required mapping', () => {
+    expect(validateProfile(makePerfil())).toEqual([]);
+
+    const errors = validateProfile({
+      nome: 'x', formato: 'csv', separadorDecimal: ',', formatoData: 'YYYY',
+      convencaoSinal: 'colunas_separadas', colunas: { data: 'a', descricao: 'b' },
+    });
+    expect(errors.some((e) => e.includes('formatoData'))).toBe(true);
+    expect(errors.some((e) => e.includes('colunas.debito'))).toBe(true);
+  });
+});
+
+// ============================================================================
+// TESTS - CONVERSÃO + HANDLERS
+// ============================================================================
+
+describe('Planilha -> Transaction', () => {
+  test('maps valid rows and keeps identical rows distinct', () => {
+    const grid = parseCsv('Data;Histórico;Favorecido;Valor\n01/03/2026;Tarifa;;-5,00\n01/03/2026;Tarifa;;-5,00');
+    const { linhas } = aplicarPerfil(grid, makePerfil());
+    const txs = linhasToTransactions(linhas, makePerfil(), 'client-1', 'cycle-1', 'marco.csv');
+
+    expect(txs).toHaveLength(2);
+    expect(txs[0]).toMatchObject({
+      type: TransactionType.PAGAR,
+      source: TransactionSource.CSV,
+      valor: 5,
+      dataRealizacao: '2026-03-01',
+      sourceName: 'Extrato Itaú',
+    });
+    expect(txs[0].sourceId).not.toBe(txs[1].sourceId);
+    expect(txs[0].id).toBe(linhasToTransactions(linhas, makePerfil(), 'client-1', 'cycle-2')[0].id);
+  });
+});
+
+describe('Planilha Handlers', () => {
+  beforeEach(() => {
+    mockUpsert.mockReset();
+    mockUpsert.mockResolvedValue({ created: ['a', 'b'], updated: [], skipped: [] });
+    mockGetProfile.mockReset();
+    mockGetProfile.mockResolvedValue(makePerfil());
+  });
+
+  test('routes are registered', () => {
+    expect(registeredRoutes['planilha-perfis-list'].route).toBe('planilha/clientes/{clientId}/perfis');
+    expect(registeredRoutes['planilha-perfis-save'].methods).toContain('POST');
+    expect(registeredRoutes['planilha-perfis-delete'].methods).toContain('DELETE');
+    expect(registeredRoutes['planilha-preview'].route).toBe('planilha/clientes/{clientId}/preview');
+    expect(registeredRoutes['planilha-importar'].route).toBe('planilha/clientes/{clientId}/importar');
+  });
+
+  test('preview returns parsed rows and errors without persisting', async () => {
+    const req = { params: { clientId: 'client-1' }, json: async () => ({ perfilId: 'perfil-1', conteudo: CSV_ITAU }) };
+
+    const result = await registeredRoutes['planilha-preview'].handler(req, {});
+
+    expect(result.status).toBe(200);
+    expect(result.jsonBody).toMatchObject({ total: 3, validas: 2, invalidas: 1 });
+    expect(result.jsonBody.erros[0].linha).toBe(4);
+    expect(mockUpsert).not.toHaveBeenCalled();
+  });
+
+  test('preview reads xlsx from base64 with inline profile', async () => {
+    const req = {
+      params: { clientId: 'client-1' },
+      json: async () => ({
+        perfil: makePerfil({
+          formato: 'excel', planilha: 'Extrato', separadorDecimal: '.', separadorMilhar: '',
+          colunas: { data: 'Data', descricao: 'Descrição', valor: 'Valor' },
+        }),
+        conteudoBase64: buildXlsx().toString('base64'),
+      }),
+    };
+
+    const result = await registeredRoutes['planilha-preview'].handler(req, {});
+
+    expect(result.status).toBe(200);
+    expect(result.jsonBody.linhas[0]).toMatchObject({ data: '2026-02-05', valor: 35.9, tipo: 'saida' });
+  });
+
+  test('preview returns 404 for unknown profile', async () => {
+    mockGetProfile.mockResolvedValueOnce(null);
+    const req = { params: { clientId: 'client-1' }, json: async () => ({ perfilId: 'x', conteudo: CSV_ITAU }) };
+
+    const result = await registeredRoutes['planilha-preview'].handler(req, {});
+
+    expect(result.status).toBe(404);
+  });
+
+  test('import refuses invalid rows unless ignorarInvalidas', async () => {
+    const handler = registeredRoutes['planilha-importar'].handler;
+
+    const refused = await handler({ params: { clientId: 'client-1' }, json: async () => ({ perfilId: 'perfil-1', conteudo: CSV_ITAU }) }, {});
+    expect(refused.status).toBe(422);
+    expect(mockUpsert).not.toHaveBeenCalled();
+
+    const accepted = await handler({
+      params: { clientId: 'client-1' },
+      json: async () => ({ perfilId: 'perfil-1', conteudo: CSV_ITAU, ignorarInvalidas: true }),
+    }, {});
+    expect(accepted.status).toBe(200);
+    expect(accepted.jsonBody.ignoradas).toBe(1);
+    expect(accepted.jsonBody.transactions).toEqual({ total: 2, new: 2, updated: 0, skipped: 0 });
+    expect(mockUpsert.mock.calls[0][0]).toHaveLength(2);
+  });
+
+  test('saving an invalid profile returns 400', async () => {
+    const req = { params: { clientId: 'client-1' }, json: async () => ({ nome: 'x' }) };
+
+    const result = await registeredRoutes['planilha-perfis-save'].handler(req, {});
+
+    expect(result.status).toBe(400);
+    expect(result.jsonBody.errors.length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,387 @@
+/**
+ * Tests for Queue Workers
+ *
+ * Tests the retry/poison policy (queueWorker) and the stage handlers
+ * (pipelineWorkers). Queue and table storage are mocked.
+ */
+
+// ============================================================================
+// MOCKS
+// ============================================================================
+
+const registeredQueueTriggers: Record<string, any> = {};
+jest.mock('@azure/functions', () => ({
+  app: {
+    http: jest.fn(),
+    timer: jest.fn(),
+    storageQueue: (name: string, options: any) => {
+      registeredQueueTriggers[name] = options;
+    },
+  },
+}));
+
+jest.mock('durable-functions', () => ({
+  app: { orchestration: jest.fn(), activity: jest.fn() },
+}));
+
+const mockEnqueue = jest.fn();
+jest.mock('../storage/queueClient', () => ({
+  QUEUE_CONNECTION_SETTING: 'AZURE_STORAGE_CONNECTION_STRING',
+  enqueueMessage: (...args: any[]) => mockEnqueue(...args),
+}));
+
+const mockGetTransaction = jest.fn();
+const mockGetByStatus = jest.fn();
+const mockUpdateTransaction = jest.fn();
+const mockGetAuthorization = jest.fn();
+const mockCreateAuthorization = jest.fn();
+const mockGetDoubt = jest.fn();
+const mockCreateDoubt = jest.fn();
+const mockAddHistory = jest.fn();
+const mockGetClient = jest.fn();
+const mockGetRuleSet = jest.fn();
+jest.mock('../storage/tableClient', () => ({
+  getClient: (...args: any[]) => mockGetClient(...args),
+  getTransaction: (...args: any[]) => mockGetTransaction(...args),
+  getTransactionsByStatus: (...args: any[]) => mockGetByStatus(...args),
+  getTransactionHistory: jest.fn().mockResolvedValue([]),
+  updateTransaction: (...args: any[]) => mockUpdateTransaction(...args),
+  getActiveDecisionRuleSet: (...args: any[]) => mockGetRuleSet(...args),
+  getAuthorization: (...args: any[]) => mockGetAuthorization(...args),
+  createAuthorization: (...args: any[]) => mockCreateAuthorization(...args),
+  getDoubt: (...args: any[]) => mockGetDoubt(...args),
+  createDoubt: (...args: any[]) => mockCreateDoubt(...args),
+  addHistoryAction: (...args: any[]) => mockAddHistory(...args),
+}));
+
+const mockExecuteCapture = jest.fn();
+jest.mock('../activities/captureActivity', () => ({
+  executeCapture: (...args: any[]) => mockExecuteCapture(...args),
+}));
+
+const mockSync = jest.fn();
+jest.mock('../activities/syncActivity', () => ({
+  syncTransactionToDestination: (...args: any[]) => mockSync(...args),
+}));
+
+const mockClassify = jest.fn();
+jest.mock('../ai/advancedClassifier', () => ({
+  AdvancedClassifier: jest.fn(() => ({ classify: (...args: any[]) => mockClassify(...args) })),
+}));
+
+jest.mock('../notifications/proactiveNotifier', () => ({
+  ProactiveNotifier: jest.fn(() => ({ sendDailySummary: jest.fn(), sendAlert: jest.fn() })),
+}));
+
+import { processQueueMessage, retryDelaySeconds } from '../triggers/queueWorker';
+import {
+  handleCaptureMessage,
+  handleClassifyMessage,
+  handleMatchMessage,
+  handleReviewMessage,
+} from '../triggers/pipelineWorkers';
+import {
+  CAPTURE_QUEUES,
+  PROCESS_QUEUES,
+  REVIEW_QUEUES,
+  SYNC_QUEUES,
+  MAX_QUEUE_RETRIES,
+  poisonQueueName,
+  createCaptureMessage,
+  createTransactionMessage,
+  createReviewMessage,
+  Transaction,
+  TransactionSource,
+  TransactionStatus,
+  TransactionType,
+} from '../types';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function mockContext() {
+  return { log: jest.fn(), warn: jest.fn(), error: jest.fn() } as any;
+}
+
+function makeTx(overrides: Partial<Transaction> = {}): Transaction {
+  return {
+    id: 'tx-1',
+    clientId: 'client-1',
+    type: TransactionType.PAGAR,
+    status: TransactionStatus.CAPTURADO,
+    source: TransactionSource.NIBO,
+    valor: 150,
+    descricao: 'Energia elétrica',
+    contraparte: 'Enel',
+    dataVencimento: '2026-10-20',
+    createdAt: '2026-10-18T00:00:00Z',
+    updatedAt: '2026-10-18T00:00:00Z',
+    capturedAt: '2026-10-18T00:00:00Z',
+    ...overrides,
+  };
+}
+
+const classification = {
+  categoria: 'Energia',
+  tipoDespesa: 'fixa',
+  recorrencia: 'mensal',
+  confianca: 0.95,
+  alternativas: [],
+  explicacao: 'teste',
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockEnqueue.mockResolvedValue(undefined);
+  mockGetClient.mockResolvedValue({ id: 'client-1', sistema: 'nibo', config: {} });
+  mockGetRuleSet.mockResolvedValue(null);
+});
+
+// ============================================================================
+// RETRY / POISON
+// ============================================================================
+
+describe('Queue worker retry policy', () => {
+  const queue = PROCESS_QUEUES.CLASSIFY;
+  const message = createTransactionMessage('client-1', 'cycle-1', 'tx-1');
+
+  test('registers a storage queue trigger for every pipeline queue', () => {
+    expect(registeredQueueTriggers['queueCapture_nibo'].queueName).toBe(CAPTURE_QUEUES.NIBO);
+    expect(registeredQueueTriggers['queueClassify'].queueName).toBe(PROCESS_QUEUES.CLASSIFY);
+    expect(registeredQueueTriggers['queueSync_omie'].queueName).toBe(SYNC_QUEUES.OMIE);
+    expect(registeredQueueTriggers['queueReview_authorization'].queueName).toBe(REVIEW_QUEUES.AUTHORIZATION);
+  });
+
+  test('successful handler does not republish', async () => {
+    const outcome = await processQueueMessage(queue, message, jest.fn().mockResolvedValue(undefined), mockContext());
+
+    expect(outcome).toBe('processed');
+    expect(mockEnqueue).not.toHaveBeenCalled();
+  });
+
+  test('failure republishes with retryCount+1 and backoff', async () => {
+    const handler = jest.fn().mockRejectedValue(new Error('timeout'));
+    const outcome = await processQueueMessage(queue, { ...message, retryCount: 1 }, handler, mockContext());
+
+    expect(outcome).toBe('retried');
+    expect(mockEnqueue).toHaveBeenCalledWith(
+      queue,
+      expect.objectContaining({ retryCount: 2, lastError: 'timeout' }),
+      retryDelaySeconds(2)
+    );
+  });
+
+  test('accepts messages delivered as JSON text', async () => {
+    const handler = jest.fn().mockResolvedValue(undefined);
+    await processQueueMessage(queue, JSON.stringify(message), handler, mockContext());
+
+    expect(handler).toHaveBeenCalledWith(message, expect.anything());
+  });
+
+  test('unparseable text goes straight to the poison queue', async () => {
+    const handler = jest.fn();
+    const outcome = await processQueueMessage(queue, '{quebrado', handler, mockContext());
+
+    expect(outcome).toBe('poisoned');
+    expect(handler).not.toHaveBeenCalled();
+    expect(mockEnqueue).toHaveBeenCalledWith(
+      poisonQueueName(queue),
+      expect.objectContaining({ raw: '{quebrado', lastError: expect.any(String) })
+    );
+  });
+
+  test('last attempt goes to the poison queue and history', async () => {
+    const handler = jest.fn().mockRejectedValue(new Error('boom'));
+    const outcome = await processQueueMessage(
+      queue,
+      { ...message, retryCount: MAX_QUEUE_RETRIES - 1 },
+      handler,
+      mockContext()
+    );
+
+    expect(outcome).toBe('poisoned');
+    expect(mockEnqueue).toHaveBeenCalledWith(
+      poisonQueueName(queue),
+      expect.objectContaining({ retryCount: MAX_QUEUE_RETRIES, lastError: 'boom', failedAt: expect.any(String) })
+    );
+    expect(mockAddHistory).toHaveBeenCalledWith(expect.objectContaining({ tipo: 'erro', clientId: 'client-1' }));
+  });
+
+  test('backoff is exponential and capped', () => {
+    expect(retryDelaySeconds(1)).toBe(60);
+    expect(retryDelaySeconds(2)).toBe(120);
+    expect(retryDelaySeconds(10)).toBe(900);
+  });
+});
+
+// ============================================================================
+// STAGES
+// ============================================================================
+
+describe('Pipeline stages', () => {
+  test('capture failure throws so the message is retried', async () => {
+    mockExecuteCapture.mockResolvedValue({ success: false, error: 'SFTP indisponível' });
+
+    await expect(
+      handleCaptureMessage(createCaptureMessage('client-1', 'cycle-1', 'getnet'), mockContext())
+    ).rejects.toThrow('SFTP indisponível');
+    expect(mockEnqueue).not.toHaveBeenCalled();
+  });
+
+  test('capture publishes only transactions of its source', async () => {
+    mockExecuteCapture.mockResolvedValue({ success: true });
+    mockGetByStatus.mockResolvedValue([
+      makeTx({ id: 'tx-nibo' }),
+      makeTx({ id: 'tx-getnet', source: TransactionSource.GETNET }),
+    ]);
+
+    await handleCaptureMessage(createCaptureMessage('client-1', 'cycle-1', 'nibo'), mockContext());
+
+    expect(mockEnqueue).toHaveBeenCalledTimes(1);
+    expect(mockEnqueue).toHaveBeenCalledWith(
+      PROCESS_QUEUES.CLASSIFY,
+      expect.objectContaining({ transactionId: 'tx-nibo', cycleId: 'cycle-1' })
+    );
+  });
+
+  test('classify skips transactions already processed', async () => {
+    mockGetTransaction.mockResolvedValue(makeTx({ status: TransactionStatus.CLASSIFICADO }));
+
+    await handleClassifyMessage(
+      { ...createTransactionMessage('client-1', 'cycle-1', 'tx-1'), transactionData: {} as any },
+      mockContext()
+    );
+
+    expect(mockClassify).not.toHaveBeenCalled();
+    expect(mockEnqueue).not.toHaveBeenCalled();
+  });
+
+  test('classify persists the result and forwards to enrich', async () => {
+    mockGetTransaction.mockResolvedValue(makeTx());
+    mockClassify.mockResolvedValue(classification);
+
+    await handleClassifyMessage(
+      { ...createTransactionMessage('client-1', 'cycle-1', 'tx-1'), transactionData: {} as any },
+      mockContext()
+    );
+
+    expect(mockUpdateTransaction).toHaveBeenCalledWith('client-1', 'tx-1', expect.objectContaining({
+      status: TransactionStatus.PROCESSANDO,
+      categoriaNome: 'Energia',
+    }));
+    expect(mockEnqueue).toHaveBeenCalledWith(PROCESS_QUEUES.ENRICH, expect.objectContaining({ transactionId: 'tx-1' }));
+  });
+
+  test('classify resumes a classified transaction whose enrich enqueue failed', async () => {
+    mockGetTransaction.mockResolvedValue(makeTx({ status: TransactionStatus.PROCESSANDO, metadata: { classification } }));
+
+    await handleClassifyMessage(
+      { ...createTransactionMessage('client-1', 'cycle-1', 'tx-1'), transactionData: {} as any },
+      mockContext()
+    );
+
+    expect(mockClassify).not.toHaveBeenCalled();
+    expect(mockUpdateTransaction).not.toHaveBeenCalled();
+    expect(mockEnqueue).toHaveBeenCalledWith(PROCESS_QUEUES.ENRICH, expect.objectContaining({ transactionId: 'tx-1' }));
+  });
+
+  test('match routes confident transaction to the client ERP sync queue', async () => {
+    mockGetRuleSet.mockResolvedValue({
+      versao: 2,
+      ativo: true,
+      regras: [{
+        id: 'ENERGIA_AUTO',
+        prioridade: 1,
+        ativo: true,
+        condicoes: [{ campo: 'categoria', operador: 'eq', valor: 'Energia' }],
+        acao: 'sync_auto',
+        requisitoHumano: false,
+        confianca: 1,
+        razao: 'Conta de energia',
+      }],
+    });
+    mockGetTransaction.mockResolvedValue(makeTx({
+      status: TransactionStatus.PROCESSANDO,
+      valor: 50,
+      metadata: { classification, anomalies: [] },
+    }));
+
+    await handleMatchMessage(createTransactionMessage('client-1', 'cycle-1', 'tx-1'), mockContext());
+
+    const queues = mockEnqueue.mock.calls.map((c) => c[0]);
+    expect(queues).toContain(SYNC_QUEUES.NIBO);
+    expect(queues).not.toContain(REVIEW_QUEUES.AUTHORIZATION);
+  });
+
+  test('match routes Controlle clients to the Controlle sync queue', async () => {
+    mockGetClient.mockResolvedValue({ id: 'client-1', sistema: 'controlle', config: {} });
+    mockGetRuleSet.mockResolvedValue({
+      versao: 2,
+      ativo: true,
+      regras: [{
+        id: 'ENERGIA_AUTO',
+        prioridade: 1,
+        ativo: true,
+        condicoes: [{ campo: 'categoria', operador: 'eq', valor: 'Energia' }],
+        acao: 'sync_auto',
+        requisitoHumano: false,
+        confianca: 1,
+        razao: 'Conta de energia',
+      }],
+    });
+    mockGetTransaction.mockResolvedValue(makeTx({
+      status: TransactionStatus.PROCESSANDO,
+      valor: 50,
+      controlleId: '301',
+      metadata: { classification, anomalies: [] },
+    }));
+
+    await handleMatchMessage(createTransactionMessage('client-1', 'cycle-1', 'tx-1'), mockContext());
+
+    expect(mockEnqueue).toHaveBeenCalledWith(SYNC_QUEUES.CONTROLLE, expect.objectContaining({
+      destination: 'controlle',
+      action: 'update',
+    }));
+  });
+
+  test('match sends low-confidence classification to review', async () => {
+    mockGetTransaction.mockResolvedValue(makeTx({
+      status: TransactionStatus.PROCESSANDO,
+      metadata: { classification: { ...classification, confianca: 0.4 }, anomalies: [] },
+    }));
+
+    await handleMatchMessage(createTransactionMessage('client-1', 'cycle-1', 'tx-1'), mockContext());
+
+    const queues = mockEnqueue.mock.calls.map((c) => c[0]);
+    expect(queues).toContain(REVIEW_QUEUES.CLASSIFICATION);
+    expect(queues).not.toContain(SYNC_QUEUES.NIBO);
+  });
+
+  test('review does not duplicate an existing authorization', async () => {
+    mockGetTransaction.mockResolvedValue(makeTx());
+    mockGetAuthorization.mockResolvedValue({ id: 'auth-tx-1' });
+
+    await handleReviewMessage(
+      createReviewMessage('client-1', 'cycle-1', 'tx-1', 'autorizacao', 'valor alto'),
+      mockContext()
+    );
+
+    expect(mockCreateAuthorization).not.toHaveBeenCalled();
+  });
+
+  test('review creates a classification doubt', async () => {
+    mockGetTransaction.mockResolvedValue(makeTx({ metadata: { classification } }));
+    mockGetDoubt.mockResolvedValue(null);
+
+    await handleReviewMessage(
+      createReviewMessage('client-1', 'cycle-1', 'tx-1', 'classificacao', 'baixa confiança'),
+      mockContext()
+    );
+
+    expect(mockCreateDoubt).toHaveBeenCalledWith(expect.objectContaining({
+      id: 'doubt-tx-1',
+      sugestaoIA: expect.objectContaining({ categoria: 'Energia' }),
+    }));
+  });
+});
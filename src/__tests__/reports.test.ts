@@ -0,0 +1,278 @@
+/**
+ * Tests for Reports (DRE e orçamento)
+ *
+ * Tests consolidação pelo plano de contas, comparativos (mês anterior e
+ * orçado), exportação CSV/HTML/XLSX, importação de orçamento e alertas
+ * por limiar, disparados no fim do ciclo diário. Table Storage e
+ * notificações são mockados.
+ */
+
+// ============================================================================
+// MOCKS
+// ============================================================================
+
+const mockGetCategories = jest.fn().mockResolvedValue([]);
+const mockGetOrcamentos = jest.fn().mockResolvedValue([]);
+const mockGetRealizadas = jest.fn().mockResolvedValue([]);
+const mockMarcarLimiar = jest.fn().mockResolvedValue(undefined);
+const mockAddHistory = jest.fn().mockResolvedValue(undefined);
+jest.mock('../storage/tableClient', () => ({
+  getCategories: (...args: any[]) => mockGetCategories(...args),
+  getOrcamentos: (...args: any[]) => mockGetOrcamentos(...args),
+  getTransactionsRealizadas: (...args: any[]) => mockGetRealizadas(...args),
+  marcarLimiarOrcamento: (...args: any[]) => mockMarcarLimiar(...args),
+  addHistoryAction: (...args: any[]) => mockAddHistory(...args),
+}));
+
+const registeredOrchestrations: Record<string, any> = {};
+jest.mock('durable-functions', () => ({
+  app: {
+    orchestration: (name: string, handler: any) => {
+      registeredOrchestrations[name] = handler;
+    },
+  },
+}));
+
+const mockSendAlert = jest.fn().mockResolvedValue(undefined);
+jest.mock('../notifications/proactiveNotifier', () => ({
+  ProactiveNotifier: jest.fn().mockImplementation(() => ({
+    sendAlert: (...args: any[]) => mockSendAlert(...args),
+  })),
+}));
+
+import { montarDre, somarMeses, isMesValido } from '../reports/dre';
+import { dreParaCsv, dreParaHtml, dreParaXlsx } from '../reports/dreExport';
+import { compararOrcamento, linhasDoCsv, validarImportacao, verificarAlertasOrcamento } from '../reports/orcamento';
+import { readXlsx } from '../ops/planilha/adapters/xlsx';
+import '../orchestrators/dailyCycleOrchestrator';
+import { Category, Client, OrcamentoCategoria, Transaction, TransactionSource, TransactionStatus, TransactionType } from '../types';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const CATEGORIAS: Category[] = [
+  { id: 'rec', clientId: 'client-1', codigo: '3', nome: 'Receitas', tipo: 'receita', nivel: 1, ativo: true },
+  { id: 'rec-vendas', clientId: 'client-1', codigo: '3.1', nome: 'Vendas', tipo: 'receita', pai: 'rec', nivel: 2, ativo: true },
+  { id: 'desp', clientId: 'client-1', codigo: '4', nome: 'Despesas', tipo: 'despesa', nivel: 1, ativo: true },
+  { id: 'desp-aluguel', clientId: 'client-1', codigo: '4.2', nome: 'Aluguel', tipo: 'despesa', pai: 'desp', nivel: 2, ativo: true },
+  { id: 'desp-folha', clientId: 'client-1', codigo: '4.10', nome: 'Folha', tipo: 'despesa', pai: 'desp', nivel: 2, ativo: true },
+  { id: 'transf', clientId: 'client-1', codigo: '9', nome: 'Transferências', tipo: 'transferencia', nivel: 1, ativo: true },
+];
+
+let seq = 0;
+function tx(overrides: Partial<Transaction>): Transaction {
+  return {
+    id: `tx-${++seq}`,
+    clientId: 'client-1',
+    type: TransactionType.PAGAR,
+    status: TransactionStatus.CLASSIFICADO,
+    source: TransactionSource.SANTANDER,
+    valor: 100,
+    descricao: 'Lançamento',
+    createdAt: '',
+    updatedAt: '',
+    capturedAt: '',
+    ...overrides,
+  };
+}
+
+function dreExemplo(orcado = false) {
+  return montarDre({
+    clientId: 'client-1',
+    mes: '2026-03',
+    categorias: CATEGORIAS,
+    transacoes: [
+      tx({ type: TransactionType.RECEBER, valor: 10000, categoriaId: 'rec-vendas', dataRealizacao: '2026-03-05' }),
+      tx({ type: TransactionType.RECEBER, valor: 8000, categoriaId: 'rec-vendas', dataRealizacao: '2026-02-05T10:00:00Z' }),
+      tx({ valor: 3000, categoriaNome: 'aluguel', dataRealizacao: '2026-03-10' }),
+      tx({ valor: 3000, categoriaId: 'desp-aluguel', dataRealizacao: '2026-02-10' }),
+      tx({ valor: 4000, categoriaId: 'desp-folha', dataRealizacao: '2026-03-28' }),
+      tx({ valor: 500, dataRealizacao: '2026-03-15' }),
+      tx({ valor: 2000, categoriaId: 'transf', dataRealizacao: '2026-03-02' }),
+      tx({ valor: 999, categoriaId: 'desp-folha', dataRealizacao: '2026-03-03', status: TransactionStatus.REJEITADO }),
+      tx({ type: TransactionType.EXTRATO, valor: 50, dataRealizacao: '2026-03-04' }),
+    ],
+    orcamentos: orcado
+      ? [
+        { clientId: 'client-1', mes: '2026-03', categoriaId: 'desp-folha', valor: 3500, atualizadoEm: '' },
+        { clientId: 'client-1', mes: '2026-03', categoriaId: 'rec-vendas', valor: 12000, atualizadoEm: '' },
+      ]
+      : [],
+  });
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('DRE', () => {
+  test('month helpers handle year boundaries', () => {
+    expect(somarMeses('2026-01', -1)).toBe('2025-12');
+    expect(somarMeses('2025-12', 1)).toBe('2026-01');
+    expect(isMesValido('2026-03')).toBe(true);
+    expect(isMesValido('2026-13')).toBe(false);
+  });
+
+  test('rolls up children into parent accounts ordered by code', () => {
+    const dre = dreExemplo();
+
+    expect(dre.despesas.map((l) => l.codigo)).toEqual(['4', '4.2', '4.10', '']);
+    expect(dre.despesas.find((l) => l.categoriaId === 'desp')).toMatchObject({ valor: 7000, anterior: 3000, quantidade: 2 });
+    expect(dre.despesas.find((l) => l.categoriaId === 'sem-categoria-despesa')).toMatchObject({ valor: 500, nome: 'Sem categoria' });
+    expect(dre.receitas.find((l) => l.categoriaId === 'rec')).toMatchObject({ valor: 10000, anterior: 8000, variacao: 25 });
+
+    expect(dre.totais.receitas.valor).toBe(10000);
+    expect(dre.totais.despesas.valor).toBe(7500);
+    expect(dre.totais.resultado).toEqual({ valor: 2500, anterior: 5000, orcado: undefined });
+    expect(dre.transferencias).toBe(2000);
+    expect(dre.naoClassificadas).toBe(1);
+  });
+
+  test('counts a forecast linked to its realized transaction once', () => {
+    const prevista = tx({ id: 'prev-1', valor: 1200, categoriaId: 'desp-aluguel', dataRealizacao: '2026-03-10' });
+    const realizada = tx({ valor: 1200, categoriaId: 'desp-aluguel', dataRealizacao: '2026-03-10', vinculadoA: 'prev-1' });
+
+    const dre = montarDre({ clientId: 'client-1', mes: '2026-03', categorias: CATEGORIAS, transacoes: [prevista, realizada] });
+
+    expect(dre.totais.despesas.valor).toBe(1200);
+  });
+
+  test('compares with budget per account and in totals', () => {
+    const dre = dreExemplo(true);
+
+    expect(dre.despesas.find((l) => l.categoriaId === 'desp-folha')).toMatchObject({ orcado: 3500, desvio: 500, execucao: 114.3 });
+    expect(dre.despesas.find((l) => l.categoriaId === 'desp-aluguel')?.orcado).toBeUndefined();
+    expect(dre.totais.receitas.orcado).toBe(12000);
+    expect(dre.totais.resultado.orcado).toBe(8500);
+  });
+});
+
+describe('DRE Export', () => {
+  test('CSV uses semicolons and decimal commas', () => {
+    const linhas = dreParaCsv(dreExemplo()).split('\r\n');
+
+    expect(linhas[0]).toBe('Código;Conta;2026-03;2026-02;Var. %');
+    expect(linhas).toContain('3.1;Vendas;10000,00;8000,00;25,00');
+    expect(linhas).toContain(';RESULTADO;2500,00;5000,00;-50,00');
+  });
+
+  test('HTML is a standalone printable document with escaped names', () => {
+    const html = dreParaHtml(dreExemplo(true), 'Óticas <Rey>');
+
+    expect(html).toContain('<!DOCTYPE html>');
+    expect(html).toContain('@page');
+    expect(html).toContain('Óticas &lt;Rey&gt;');
+    expect(html).toContain('<th class="num">Orçado</th>');
+  });
+
+  test('XLSX round-trips through the planilha reader', () => {
+    const grid = readXlsx(dreParaXlsx(dreExemplo(true)));
+
+    expect(grid[0]).toEqual(['Código', 'Conta', '2026-03', '2026-02', 'Var. %', 'Orçado', 'Desvio', 'Exec. %']);
+    const folha = grid.find((r) => r[0] === '4.10')!;
+    expect(folha.slice(1, 6)).toEqual(['Folha', '4000', '0', '', '3500']);
+    expect(grid[grid.length - 1][1]).toBe('RESULTADO');
+  });
+});
+
+describe('Budget', () => {
+  const orcamento = (overrides: Partial<OrcamentoCategoria>): OrcamentoCategoria => ({
+    clientId: 'client-1', mes: '2026-03', categoriaId: 'desp', valor: 1000, atualizadoEm: '', ...overrides,
+  });
+
+  const transacoes = [
+    tx({ valor: 700, categoriaId: 'desp-aluguel', dataRealizacao: '2026-03-10', metadata: { centroCusto: 'Loja 1' } }),
+    tx({ valor: 200, categoriaId: 'desp-folha', dataRealizacao: '2026-03-20', metadata: { centroCusto: 'Loja 2' } }),
+    tx({ valor: 999, categoriaId: 'desp-folha', dataRealizacao: '2026-02-20' }),
+  ];
+
+  beforeEach(() => {
+    mockSendAlert.mockClear();
+    mockMarcarLimiar.mockClear();
+    mockAddHistory.mockClear();
+  });
+
+  test('compares children and cost centers against budget lines', () => {
+    const variacoes = compararOrcamento({
+      mes: '2026-03',
+      categorias: CATEGORIAS,
+      transacoes,
+      orcamentos: [orcamento({}), orcamento({ categoriaId: 'desp-aluguel', centroCusto: 'loja 1', valor: 600 })],
+    });
+
+    expect(variacoes[0]).toMatchObject({ realizado: 900, percentual: 90, limiar: 80, desvio: -100, natureza: 'despesa' });
+    expect(variacoes[1]).toMatchObject({ realizado: 700, percentual: 116.7, limiar: 100, categoriaNome: 'Aluguel' });
+  });
+
+  test('import resolves accounts by code or name and reports invalid lines', () => {
+    const linhas = linhasDoCsv('Mês;Categoria;Centro de custo;Valor\n2026-03;4.2;Loja 1;1.500,00\n;Folha;;800\n2026-03;Marketing;;100\n;Transferências;;10');
+    const { orcamentos, erros } = validarImportacao('client-1', linhas, CATEGORIAS, '2026-04');
+
+    expect(orcamentos).toEqual([
+      expect.objectContaining({ mes: '2026-03', categoriaId: 'desp-aluguel', centroCusto: 'Loja 1', valor: 1500 }),
+      expect.objectContaining({ mes: '2026-04', categoriaId: 'desp-folha', valor: 800 }),
+    ]);
+    expect(erros.map((e) => e.linha)).toEqual([3, 4]);
+  });
+
+  test('alerts each crossed threshold once per month', async () => {
+    const client = { id: 'client-1', config: { limiaresOrcamento: [50, 100] } } as unknown as Client;
+    mockGetCategories.mockResolvedValue(CATEGORIAS);
+    mockGetRealizadas.mockResolvedValue(transacoes);
+    mockGetOrcamentos.mockResolvedValue([
+      orcamento({ valor: 800 }),
+      orcamento({ categoriaId: 'desp-folha', valor: 300, limiarAlertado: 50 }),
+      orcamento({ categoriaId: 'rec-vendas', valor: 10 }),
+    ]);
+
+    const result = await verificarAlertasOrcamento(client, '2026-03');
+
+    expect(result.alertas).toBe(1);
+    expect(mockSendAlert).toHaveBeenCalledWith('client-1', expect.objectContaining({ severity: 'critica' }), client);
+    expect(mockMarcarLimiar).toHaveBeenCalledWith(expect.objectContaining({ categoriaId: 'desp' }), 100);
+    expect(mockAddHistory).toHaveBeenCalledWith(expect.objectContaining({ tipo: 'alerta' }));
+  });
+});
+
+describe('dailyCycleOrchestrator post-cycle', () => {
+  function runCycle(clientResults: any[]) {
+    const calls: any[] = [];
+    const context = {
+      df: {
+        getInput: () => ({ cycleId: 'cycle-1', date: '2026-03-15', clientIds: clientResults.map((r) => r.clientId), force: false }),
+        callActivity: (activity: string, input: any) => ({ activity, input }),
+        callSubOrchestrator: (name: string, input: any) => ({ name, input }),
+        createTimer: (fireAt: Date) => ({ timer: fireAt }),
+        Task: { all: (tasks: any[]) => ({ all: tasks }) },
+        currentUtcDateTime: new Date('2026-03-15T06:00:00Z'),
+      },
+      log: jest.fn(),
+    };
+
+    const gen = registeredOrchestrations['dailyCycleOrchestrator'](context);
+    let step = gen.next();
+    while (!step.done) {
+      calls.push(step.value);
+      step = gen.next(step.value.all?.[0]?.name ? clientResults : undefined);
+    }
+    return calls;
+  }
+
+  test('queue-pipeline clients get budget alerts and digest only after the wait', () => {
+    const calls = runCycle([
+      { clientId: 'client-1', status: 'success', details: { processedCount: 3 } },
+      { clientId: 'client-2', status: 'success', details: { processedCount: 0, pipeline: 'filas' } },
+    ]);
+
+    const etapas = calls.map((c) => c.activity || (c.timer ? 'timer' : c.all.map((t: any) => `${t.activity || t.name}:${t.input.clientId}`)));
+    expect(etapas).toEqual([
+      'updateCycleStatusActivity',
+      ['clientProcessingOrchestrator:client-1', 'clientProcessingOrchestrator:client-2'],
+      ['checkBudgetAlertsActivity:client-1', 'sendAuthorizationDigestActivity:client-1'],
+      'updateCycleStatusActivity',
+      'timer',
+      ['checkBudgetAlertsActivity:client-2', 'sendAuthorizationDigestActivity:client-2'],
+    ]);
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Tests for SettlementService
+ *
+ * Par previsto (Nibo/Omie) × realizado (banco), juros/desconto pela
+ * diferença, baixa no ERP e conciliação das duas transações, e a rota
+ * nibo/baixa (idempotente). Table Storage, a chamada ao ops e o
+ * NiboClient são mockados.
+ */
+
+// ============================================================================
+// MOCKS
+// ============================================================================
+
+const registeredRoutes: Record<string, any> = {};
+jest.mock('@azure/functions', () => ({
+  app: {
+    http: (name: string, options: any) => {
+      registeredRoutes[name] = options;
+    },
+  },
+}));
+
+const mockResolveNiboClient = jest.fn();
+jest.mock('../ops/nibo/adapters/tenant', () => ({
+  resolveNiboClient: (...args: any[]) => mockResolveNiboClient(...args),
+}));
+
+const mockGetClient = jest.fn();
+const mockUpdateTransaction = jest.fn().mockResolvedValue(undefined);
+const mockAddHistory = jest.fn().mockResolvedValue(undefined);
+jest.mock('../storage/tableClient', () => ({
+  getClient: (...args: any[]) => mockGetClient(...args),
+  updateTransaction: (...args: any[]) => mockUpdateTransaction(...args),
+  addHistoryAction: (...args: any[]) => mockAddHistory(...args),
+}));
+
+const mockPostToOps = jest.fn();
+jest.mock('../infra/syncGateway', () => ({
+  ...jest.requireActual('../infra/syncGateway'),
+  postToOps: (...args: any[]) => mockPostToOps(...args),
+}));
+
+import {
+  buildBaixaRequest,
+  conciliarComBaixa,
+  findLiquidacao,
+} from '../infra/settlementService';
+import { Transaction, TransactionSource, TransactionStatus, TransactionType } from '../../shared/types';
+import '../ops/nibo/functions/baixa';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function previsto(overrides: Partial<Transaction> = {}): Transaction {
+  return {
+    id: 'tx-omie-1',
+    clientId: 'client-1',
+    type: TransactionType.PAGAR,
+    status: TransactionStatus.CLASSIFICADO,
+    source: TransactionSource.OMIE,
+    sourceId: '9001',
+    valor: 3500,
+    descricao: 'Aluguel Imobiliaria Centro',
+    dataVencimento: '2026-03-10',
+    numeroDocumento: 'NF-123',
+    createdAt: '2026-03-01T00:00:00.000Z',
+    updatedAt: '2026-03-01T00:00:00.000Z',
+    capturedAt: '2026-03-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function realizado(overrides: Partial<Transaction> = {}): Transaction {
+  return {
+    id: 'tx-banco-1',
+    clientId: 'client-1',
+    type: TransactionType.EXTRATO,
+    status: TransactionStatus.CAPTURADO,
+    source: TransactionSource.SANTANDER,
+    valor: 3535,
+    descricao: 'PAGTO ALUGUEL IMOBILIARIA CENTRO',
+    dataRealizacao: '2026-03-12',
+    numeroDocumento: 'NF-123',
+    metadata: { origem: 'extrato' },
+    createdAt: '2026-03-12T00:00:00.000Z',
+    updatedAt: '2026-03-12T00:00:00.000Z',
+    capturedAt: '2026-03-12T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockGetClient.mockResolvedValue({ id: 'client-1', config: { contasErp: { santander: '702' } } });
+  mockPostToOps.mockResolvedValue({ success: true, baixaId: '8801' });
+});
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+describe('findLiquidacao', () => {
+  test('pairs an ERP payable with a bank movement from either side', async () => {
+    const p = previsto();
+    const r = realizado();
+
+    expect(await findLiquidacao(p, [r])).toEqual(expect.objectContaining({ previsto: p, realizado: r }));
+    expect(await findLiquidacao(r, [p])).toEqual(expect.objectContaining({ previsto: p, realizado: r }));
+  });
+
+  test('ignores weak matches, linked movements and non-bank sources', async () => {
+    const semDocumento = { numeroDocumento: undefined };
+
+    expect(await findLiquidacao(previsto(semDocumento), [realizado({ ...semDocumento, descricao: 'TED DIVERSOS', dataRealizacao: '2026-03-13' })])).toBeNull();
+    expect(await findLiquidacao(previsto(), [realizado({ vinculadoA: 'tx-outro' })])).toBeNull();
+    expect(await findLiquidacao(previsto(), [realizado({ source: TransactionSource.CSV })])).toBeNull();
+  });
+});
+
+// ============================================================================
+// BAIXA
+// ============================================================================
+
+describe('buildBaixaRequest', () => {
+  test('uses the bank date and the previsto value with the difference as interest or discount', () => {
+    const config = { config: { contasErp: { santander: '702' } } } as any;
+
+    expect(buildBaixaRequest({ previsto: previsto(), realizado: realizado(), match: {} as any }, config)).toEqual({
+      transactionId: 'tx-omie-1',
+      clientId: 'client-1',
+      externalId: '9001',
+      tipo: 'pagar',
+      dataPagamento: '2026-03-12',
+      valorPago: 3535,
+      valorPrevisto: 3500,
+      juros: 35,
+      desconto: 0,
+      banco: 'santander',
+      contaBancaria: '702',
+      realizadoId: 'tx-banco-1',
+    });
+
+    const comDesconto = buildBaixaRequest({ previsto: previsto(), realizado: realizado({ valor: 3480.5 }), match: {} as any }, null);
+    expect(comDesconto).toEqual(expect.objectContaining({ juros: 0, desconto: 19.5, contaBancaria: undefined }));
+  });
+});
+
+describe('conciliarComBaixa', () => {
+  test('posts the baixa to the ERP and marks both transactions CONCILIADO', async () => {
+    const result = await conciliarComBaixa('client-1', realizado(), [previsto()]);
+
+    expect(result).toEqual({ status: 'baixado', previstoId: 'tx-omie-1', realizadoId: 'tx-banco-1', baixaId: '8801' });
+    expect(mockPostToOps).toHaveBeenCalledWith('omie', 'baixa', expect.objectContaining({ externalId: '9001', valorPago: 3535 }));
+    expect(mockUpdateTransaction).toHaveBeenCalledWith('client-1', 'tx-omie-1', expect.objectContaining({
+      status: TransactionStatus.CONCILIADO,
+      dataRealizacao: '2026-03-12',
+    }));
+    expect(mockUpdateTransaction).toHaveBeenCalledWith('client-1', 'tx-banco-1', expect.objectContaining({
+      status: TransactionStatus.CONCILIADO,
+      vinculadoA: 'tx-omie-1',
+      vinculacaoTipo: 'automatico',
+      metadata: expect.objectContaining({ origem: 'extrato', baixa: expect.objectContaining({ juros: 35, baixaId: '8801' }) }),
+    }));
+    expect(mockAddHistory).toHaveBeenCalledWith(expect.objectContaining({ tipo: 'pagamento' }));
+  });
+
+  test('records the ERP refusal on the previsto without reconciling', async () => {
+    mockPostToOps.mockResolvedValue({ success: false, error: 'Conta corrente do santander não encontrada no Omie' });
+
+    const result = await conciliarComBaixa('client-1', previsto(), [realizado()]);
+
+    expect(result?.status).toBe('erro');
+    expect(mockUpdateTransaction).toHaveBeenCalledTimes(1);
+    expect(mockUpdateTransaction).toHaveBeenCalledWith('client-1', 'tx-omie-1', {
+      metadata: { baixa: expect.objectContaining({ erro: 'Conta corrente do santander não encontrada no Omie' }) },
+    });
+  });
+
+  test('Getnet settlement without contasErp.getnet is not sent', async () => {
+    const result = await conciliarComBaixa('client-1', previsto(), [realizado({ source: TransactionSource.GETNET })]);
+
+    expect(result).toEqual(expect.objectContaining({ status: 'erro', motivo: expect.stringContaining('contasErp.getnet') }));
+    expect(mockPostToOps).not.toHaveBeenCalled();
+  });
+
+  test('previsto without ERP id is not sent', async () => {
+    const result = await conciliarComBaixa('client-1', previsto({ sourceId: undefined }), [realizado()]);
+
+    expect(result?.status).toBe('ignorado');
+    expect(mockPostToOps).not.toHaveBeenCalled();
+    expect(mockUpdateTransaction).not.toHaveBeenCalled();
+  });
+});
+
+// ============================================================================
+// NIBO
+// ============================================================================
+
+describe('nibo-baixa handler', () => {
+  function fakeNibo(schedule: any) {
+    return {
+      getScheduleById: jest.fn().mockResolvedValue(schedule),
+      getAccounts: jest.fn().mockResolvedValue([{ id: 'acc-santander', name: 'Santander' }]),
+      markAsPaid: jest.fn().mockResolvedValue(true),
+    };
+  }
+
+  function request(body: any) {
+    return { json: async () => body } as any;
+  }
+
+  const baixa = {
+    transactionId: 'tx-nibo-1', clientId: 'client-1', externalId: 'sch-1', tipo: 'pagar',
+    dataPagamento: '2026-03-12', valorPago: 3535, valorPrevisto: 3500, juros: 35, desconto: 0, banco: 'santander', realizadoId: 'tx-banco-1',
+  };
+
+  test('pays an open schedule', async () => {
+    const nibo = fakeNibo({ scheduleId: 'sch-1', isPaid: false });
+    mockResolveNiboClient.mockResolvedValue(nibo);
+
+    const res = await registeredRoutes['nibo-baixa'].handler(request(baixa), {});
+
+    expect(res.jsonBody).toEqual({ success: true, baixaId: 'sch-1' });
+    expect(nibo.markAsPaid).toHaveBeenCalledWith('sch-1', '2026-03-12', 3500, expect.objectContaining({ accountId: 'acc-santander', interest: 35 }));
+  });
+
+  test('schedule already paid is not paid again', async () => {
+    const nibo = fakeNibo({ scheduleId: 'sch-1', isPaid: true });
+    mockResolveNiboClient.mockResolvedValue(nibo);
+
+    const res = await registeredRoutes['nibo-baixa'].handler(request(baixa), {});
+
+    expect(res.jsonBody).toEqual({ success: true, baixaId: 'sch-1' });
+    expect(nibo.markAsPaid).not.toHaveBeenCalled();
+  });
+});
@@ -182,4 +182,143 @@ describe('SmartMatcher', () => {
       expect(matched).toHaveLength(1);
     });
   });
+
+  describe('Agrupamento (N previstos → 1 realizado)', () => {
+    test('links several payables settled by one bank debit', async () => {
+      const previstos = [
+        makeTx({ id: 'prev-1', valor: -300, descricao: 'BOLETO A' }),
+        makeTx({ id: 'prev-2', valor: -450, descricao: 'BOLETO B' }),
+        makeTx({ id: 'prev-3', valor: -250, descricao: 'BOLETO C', dataVencimento: '2026-01-14' }),
+      ];
+      const realizados = [
+        makeTx({ id: 'real-1', valor: -1000, descricao: 'PAGTO LOTE' }),
+      ];
+
+      const results = await matcher.match(previstos, realizados);
+
+      expect(results).toHaveLength(3);
+      expect(results.map(r => r.previstoId).sort()).toEqual(['prev-1', 'prev-2', 'prev-3']);
+      expect(results.every(r => r.tipo === 'agrupamento' && r.realizadoId === 'real-1')).toBe(true);
+      expect(results[0].metadados?.previstoIds).toEqual(expect.arrayContaining(['prev-1', 'prev-2', 'prev-3']));
+      expect(results[0].metadados?.diferencaResidual).toBe(0);
+      expect(results[0].divergencias).toEqual([
+        { campo: 'data', esperado: '2026-01-14', encontrado: '2026-01-15', componenteId: 'prev-3' },
+      ]);
+    });
+
+    test('reports residual difference within tolerance', async () => {
+      const previstos = [
+        makeTx({ id: 'prev-1', valor: -500, descricao: 'BOLETO A' }),
+        makeTx({ id: 'prev-2', valor: -500, descricao: 'BOLETO B' }),
+      ];
+      const realizados = [
+        makeTx({ id: 'real-1', valor: -1010, descricao: 'PAGTO LOTE' }),
+      ];
+
+      const results = await matcher.match(previstos, realizados);
+
+      expect(results[0].tipo).toBe('agrupamento');
+      expect(results[0].metadados?.diferencaResidual).toBe(-10);
+      expect(results[0].divergencias).toContainEqual({ campo: 'valor', esperado: -1000, encontrado: -1010 });
+    });
+
+    test('ignores previstos outside the date window', async () => {
+      const previstos = [
+        makeTx({ id: 'prev-1', valor: -500, descricao: 'BOLETO A' }),
+        makeTx({ id: 'prev-2', valor: -500, descricao: 'BOLETO B', dataVencimento: '2026-02-15' }),
+      ];
+      const realizados = [
+        makeTx({ id: 'real-1', valor: -1000, descricao: 'PAGTO LOTE' }),
+      ];
+
+      const results = await matcher.match(previstos, realizados);
+
+      expect(results.every(r => r.tipo === 'sem_match')).toBe(true);
+    });
+
+    test('finds the group even when many oversized previstos come first', async () => {
+      const previstos = [
+        ...Array.from({ length: 25 }, (_, i) => makeTx({ id: `grande-${i}`, valor: -5000, descricao: `BOLETO G${i}` })),
+        makeTx({ id: 'prev-1', valor: -600, descricao: 'BOLETO A' }),
+        makeTx({ id: 'prev-2', valor: -400, descricao: 'BOLETO B' }),
+      ];
+      const realizados = [
+        makeTx({ id: 'real-1', valor: -1000, descricao: 'PAGTO LOTE' }),
+      ];
+
+      const results = await matcher.match(previstos, realizados);
+
+      expect(results.filter(r => r.tipo === 'agrupamento').map(r => r.previstoId).sort()).toEqual(['prev-1', 'prev-2']);
+    });
+
+    test('unmatched previstos stay sem_match', async () => {
+      const previstos = [
+        makeTx({ id: 'prev-1', valor: 300, type: TransactionType.RECEBER, descricao: 'NF 1' }),
+        makeTx({ id: 'prev-2', valor: 700, type: TransactionType.RECEBER, descricao: 'NF 2' }),
+        makeTx({ id: 'prev-3', valor: 5000, type: TransactionType.RECEBER, descricao: 'NF 3' }),
+      ];
+      const realizados = [
+        makeTx({ id: 'real-1', valor: 1000, type: TransactionType.RECEBER, descricao: 'GETNET LIQUIDACAO' }),
+      ];
+
+      const results = await matcher.match(previstos, realizados);
+
+      const grupo = results.find(r => r.tipo === 'agrupamento');
+      expect(grupo?.metadados?.previstoIds).toEqual(expect.arrayContaining(['prev-1', 'prev-2']));
+      expect(results.find(r => r.previstoId === 'prev-3')?.tipo).toBe('sem_match');
+    });
+  });
+
+  describe('Split (1 previsto → N realizados)', () => {
+    test('links one payable paid in several debits', async () => {
+      const previstos = [
+        makeTx({ id: 'prev-1', valor: -1000, descricao: 'FORNECEDOR XYZ' }),
+      ];
+      const realizados = [
+        makeTx({ id: 'real-1', valor: -600, descricao: 'PIX 1' }),
+        makeTx({ id: 'real-2', valor: -400, descricao: 'PIX 2', dataRealizacao: '2026-01-17' }),
+        makeTx({ id: 'real-3', valor: -999, descricao: 'OUTRO', dataRealizacao: '2026-03-01' }),
+      ];
+
+      const results = await matcher.match(previstos, realizados);
+
+      expect(results).toHaveLength(1);
+      expect(results[0].tipo).toBe('split');
+      expect(results[0].previstoId).toBe('prev-1');
+      expect(results[0].metadados?.realizadoIds).toEqual(['real-1', 'real-2']);
+      expect(results[0].metadados?.diferencaResidual).toBe(0);
+      expect(results[0].divergencias).toEqual([
+        { campo: 'data', esperado: '2026-01-15', encontrado: '2026-01-17', componenteId: 'real-2' },
+      ]);
+    });
+
+    test('does not combine debits with credits', async () => {
+      const previstos = [
+        makeTx({ id: 'prev-1', valor: -1000, descricao: 'FORNECEDOR XYZ' }),
+      ];
+      const realizados = [
+        makeTx({ id: 'real-1', valor: -600, descricao: 'PIX 1' }),
+        makeTx({ id: 'real-2', valor: 400, descricao: 'ESTORNO' }),
+      ];
+
+      const results = await matcher.match(previstos, realizados);
+
+      expect(results[0].tipo).toBe('sem_match');
+    });
+
+    test('exact sum on the same day yields full confidence', async () => {
+      const previstos = [
+        makeTx({ id: 'prev-1', valor: -1000, descricao: 'FORNECEDOR XYZ' }),
+      ];
+      const realizados = [
+        makeTx({ id: 'real-1', valor: -500, descricao: 'PIX 1' }),
+        makeTx({ id: 'real-2', valor: -500, descricao: 'PIX 2' }),
+      ];
+
+      const results = await matcher.match(previstos, realizados);
+
+      expect(results[0].tipo).toBe('split');
+      expect(results[0].confianca).toBe(1.0);
+    });
+  });
 });
@@ -0,0 +1,237 @@
+/**
+ * Tests for SyncGateway + syncBatchActivity
+ *
+ * Destino pelo Client.sistema, registry de adapters, tentativas por
+ * transação (só erro repetível), timeout da chamada ao ops e gravação do
+ * resultado (metadata.sync / id externo).
+ * Table Storage é mockado; os adapters são falsos.
+ */
+
+// ============================================================================
+// MOCKS
+// ============================================================================
+
+jest.mock('durable-functions', () => ({
+  app: { orchestration: jest.fn(), activity: jest.fn() },
+}));
+
+const mockGetClient = jest.fn();
+const mockGetByStatus = jest.fn();
+const mockUpdateTransaction = jest.fn().mockResolvedValue(undefined);
+const mockAddHistory = jest.fn().mockResolvedValue(undefined);
+const mockGetTransaction = jest.fn();
+jest.mock('../storage/tableClient', () => ({
+  getClient: (...args: any[]) => mockGetClient(...args),
+  getTransactionsByStatus: (...args: any[]) => mockGetByStatus(...args),
+  getTransaction: (...args: any[]) => mockGetTransaction(...args),
+  updateTransaction: (...args: any[]) => mockUpdateTransaction(...args),
+  addHistoryAction: (...args: any[]) => mockAddHistory(...args),
+}));
+
+import { executeSyncBatch, syncTransactionToDestination } from '../activities/syncActivity';
+import {
+  buildSyncRequest,
+  externalIdFor,
+  OpsRequestError,
+  postToOps,
+  registerSyncAdapter,
+  resolveSyncDestination,
+  SyncAdapter,
+} from '../infra/syncGateway';
+import { SyncDestination, Transaction, TransactionSource, TransactionStatus, TransactionType } from '../../shared/types';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function makeTx(overrides: Partial<Transaction> = {}): Transaction {
+  return {
+    id: 'tx-1',
+    clientId: 'client-1',
+    type: TransactionType.PAGAR,
+    status: TransactionStatus.CLASSIFICADO,
+    source: TransactionSource.SANTANDER,
+    valor: 150,
+    descricao: 'Conta de luz',
+    categoriaId: 'cat-energia',
+    categoriaNome: 'Energia',
+    dataVencimento: '2026-03-10',
+    createdAt: '2026-03-01T00:00:00.000Z',
+    updatedAt: '2026-03-01T00:00:00.000Z',
+    metadata: { classification: { confianca: 0.95 } },
+    ...overrides,
+  } as Transaction;
+}
+
+function fakeAdapter(destino: SyncDestination): SyncAdapter & { sync: jest.Mock } {
+  const adapter = { destino, sync: jest.fn() };
+  registerSyncAdapter(adapter);
+  return adapter;
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockGetClient.mockResolvedValue({ id: 'client-1', sistema: 'controlle' });
+});
+
+// ============================================================================
+// GATEWAY
+// ============================================================================
+
+describe('SyncGateway', () => {
+  test('resolves the destination from the client ERP', () => {
+    expect(resolveSyncDestination({ id: 'c1', sistema: 'omie' } as any)).toBe('omie');
+    expect(resolveSyncDestination({ id: 'c2', sistema: 'controlle' } as any)).toBe('controlle');
+    expect(resolveSyncDestination({ id: 'c3', sistema: 'planilha' } as any)).toBeUndefined();
+    expect(resolveSyncDestination(null)).toBeUndefined();
+  });
+
+  test('uses the sourceId as external id for transactions captured from the same ERP', () => {
+    const tx = makeTx({ source: 'omie' as any, sourceId: '9001' });
+
+    expect(externalIdFor(tx, 'omie')).toBe('9001');
+    expect(externalIdFor(tx, 'controlle')).toBeUndefined();
+    expect(externalIdFor(makeTx({ controlleId: '301' }), 'controlle')).toBe('301');
+    expect(buildSyncRequest(tx, 'omie')).toEqual(expect.objectContaining({
+      transactionId: 'tx-1', tipo: TransactionType.PAGAR, existingExternalId: '9001',
+    }));
+  });
+});
+
+describe('postToOps', () => {
+  const fetchOriginal = global.fetch;
+  beforeEach(() => {
+    process.env.OMIE_OPS_URL = 'https://omie-ops';
+  });
+  afterEach(() => {
+    global.fetch = fetchOriginal;
+    delete process.env.OMIE_OPS_URL;
+  });
+
+  test('sends a timeout signal and marks only undelivered requests as retryable', async () => {
+    const fetchMock = jest.fn()
+      .mockResolvedValueOnce({ ok: false, status: 503, text: async () => 'unavailable' })
+      .mockResolvedValueOnce({ ok: false, status: 500, text: async () => 'boom' })
+      .mockRejectedValueOnce(Object.assign(new Error('aborted'), { name: 'TimeoutError' }));
+    global.fetch = fetchMock as any;
+
+    await expect(postToOps('omie', 'sync', {})).rejects.toMatchObject({ repetivel: true });
+    await expect(postToOps('omie', 'sync', {})).rejects.toMatchObject({ repetivel: false });
+    await expect(postToOps('omie', 'sync', {})).rejects.toMatchObject({ repetivel: false, message: expect.stringContaining('sem resposta') });
+    expect(fetchMock.mock.calls[0][1].signal).toBeInstanceOf(AbortSignal);
+  });
+});
+
+// ============================================================================
+// BATCH
+// ============================================================================
+
+describe('executeSyncBatch', () => {
+  test('routes to the client ERP and stores the external id', async () => {
+    const controlle = fakeAdapter('controlle');
+    controlle.sync.mockResolvedValue({ action: 'created', externalId: '301' });
+    mockGetByStatus.mockResolvedValue([makeTx()]);
+
+    const result = await executeSyncBatch({ clientId: 'client-1', cycleId: 'cycle-1' }, 0);
+
+    expect(result).toEqual(expect.objectContaining({ destination: 'controlle', synced: 1, created: 1, errors: 0 }));
+    expect(mockUpdateTransaction).toHaveBeenCalledWith('client-1', 'tx-1', expect.objectContaining({
+      status: TransactionStatus.CONCILIADO,
+      controlleId: '301',
+      metadata: expect.objectContaining({
+        classification: { confianca: 0.95 },
+        sync: expect.objectContaining({ destino: 'controlle', action: 'created', tentativas: 1 }),
+      }),
+    }));
+    expect(mockAddHistory).toHaveBeenCalledWith(expect.objectContaining({ tipo: 'sync' }));
+  });
+
+  test('retries failed transactions and counts the ones that never succeed', async () => {
+    const omie = fakeAdapter('omie');
+    omie.sync.mockImplementation(async (tx: Transaction) => {
+      if (tx.id === 'tx-bad') throw new OpsRequestError('Omie indisponível', true);
+      if (omie.sync.mock.calls.length === 1) throw new OpsRequestError('503', true);
+      return { action: 'updated', externalId: '9001' };
+    });
+    mockGetByStatus.mockResolvedValue([makeTx(), makeTx({ id: 'tx-bad' })]);
+
+    const result = await executeSyncBatch({ clientId: 'client-1', cycleId: 'cycle-1', destination: 'omie' }, 0);
+
+    expect(omie.sync).toHaveBeenCalledTimes(5);
+    expect(result).toEqual(expect.objectContaining({
+      synced: 1,
+      updated: 1,
+      errors: 1,
+      failures: [{ transactionId: 'tx-bad', error: 'Omie indisponível' }],
+    }));
+    expect(mockUpdateTransaction).toHaveBeenCalledWith('client-1', 'tx-bad', {
+      metadata: expect.objectContaining({
+        sync: expect.objectContaining({ erro: 'Omie indisponível', tentativas: 3 }),
+      }),
+    });
+  });
+
+  test('errors that may have reached the ERP are not retried', async () => {
+    const controlle = fakeAdapter('controlle');
+    controlle.sync.mockRejectedValue(new OpsRequestError('sync controlle sem resposta em 60s', false));
+    mockGetByStatus.mockResolvedValue([makeTx()]);
+
+    const result = await executeSyncBatch({ clientId: 'client-1', cycleId: 'cycle-1' }, 0);
+
+    expect(controlle.sync).toHaveBeenCalledTimes(1);
+    expect(result).toEqual(expect.objectContaining({ synced: 0, errors: 1 }));
+    expect(mockUpdateTransaction.mock.calls[0][2].metadata.sync).toEqual(expect.objectContaining({ tentativas: 1 }));
+  });
+
+  test('skipped is final: not retried and stays CLASSIFICADO', async () => {
+    const nibo = fakeAdapter('nibo');
+    nibo.sync.mockResolvedValue({ action: 'skipped', error: 'Transação sem categoria' });
+    mockGetClient.mockResolvedValue({ id: 'client-1', sistema: 'nibo' });
+    mockGetByStatus.mockResolvedValue([makeTx()]);
+
+    const result = await executeSyncBatch({ clientId: 'client-1', cycleId: 'cycle-1' }, 0);
+
+    expect(nibo.sync).toHaveBeenCalledTimes(1);
+    expect(result).toEqual(expect.objectContaining({ synced: 0, skipped: 1, errors: 0 }));
+    expect(mockUpdateTransaction.mock.calls[0][2].status).toBeUndefined();
+    expect(mockAddHistory).not.toHaveBeenCalled();
+  });
+
+  test('a synced transaction whose id could not be stored is an error, not created', async () => {
+    const controlle = fakeAdapter('controlle');
+    controlle.sync.mockResolvedValue({ action: 'created', externalId: '301' });
+    mockGetByStatus.mockResolvedValue([makeTx(), makeTx({ id: 'tx-2' })]);
+    mockUpdateTransaction.mockRejectedValueOnce(new Error('Table Storage 503'));
+
+    const result = await executeSyncBatch({ clientId: 'client-1', cycleId: 'cycle-1' }, 0);
+
+    expect(result).toEqual(expect.objectContaining({
+      synced: 1,
+      created: 1,
+      errors: 1,
+      failures: [{ transactionId: 'tx-1', error: 'Resultado do sync não gravado: Table Storage 503' }],
+    }));
+    expect(mockAddHistory).toHaveBeenCalledTimes(1);
+  });
+
+  test('client without a supported ERP does not sync', async () => {
+    mockGetClient.mockResolvedValue({ id: 'client-1', sistema: 'planilha' });
+
+    const result = await executeSyncBatch({ clientId: 'client-1', cycleId: 'cycle-1' }, 0);
+
+    expect(result).toEqual(expect.objectContaining({ destination: undefined, synced: 0, errors: 0 }));
+    expect(mockGetByStatus).not.toHaveBeenCalled();
+  });
+});
+
+describe('syncTransactionToDestination', () => {
+  test('a failed write propagates so the queue retries the message', async () => {
+    const controlle = fakeAdapter('controlle');
+    controlle.sync.mockResolvedValue({ action: 'created', externalId: '301' });
+    mockGetTransaction.mockResolvedValue(makeTx());
+    mockUpdateTransaction.mockRejectedValueOnce(new Error('Table Storage 503'));
+
+    await expect(syncTransactionToDestination('client-1', 'tx-1', 'controlle')).rejects.toThrow('Table Storage 503');
+    expect(mockAddHistory).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Tests for per-tenant Nibo/Inter/Omie/Controlle/Getnet credentials
+ *
+ * Ordem de resolução (Key Vault do tenant → ClientConfig → env), escolha
+ * do client por cliente nos adapters e recusa (400/404) sem cliente válido. Key Vault e Table Storage são mockados.
+ */
+
+// ============================================================================
+// MOCKS
+// ============================================================================
+
+const mockGetTenantSecret = jest.fn();
+const mockReadTenantSecret = jest.fn();
+jest.mock('../infra/keyVaultHelper', () => ({
+  ...jest.requireActual('../infra/keyVaultHelper'),
+  getTenantSecret: (...args: any[]) => mockGetTenantSecret(...args),
+  readTenantSecret: (...args: any[]) => mockReadTenantSecret(...args),
+}));
+
+const mockGetClientById = jest.fn();
+jest.mock('../ops/shared/storage/clientStorage', () => ({
+  getClientById: (...args: any[]) => mockGetClientById(...args),
+}));
+
+import { resolveGetnetCredentials, resolveInterCredentials, resolveNiboCredentials, resolveOmieCredentials } from '../infra/credentialResolver';
+import { resolveNiboClient } from '../ops/nibo/adapters/tenant';
+import { resolveOmieClient } from '../ops/omie/adapters/tenant';
+import { OmieSyncError } from '../ops/omie/adapters/writeBack';
+import { resolveControlleClient } from '../ops/controlle/adapters/tenant';
+import { ControlleSyncError } from '../ops/controlle/adapters/writeBack';
+import { getControlleClient } from '../ops/controlle/adapters/client';
+import { resolveInterClient } from '../ops/inter/adapters/tenant';
+import { getNiboClient, resetNiboClient } from '../ops/nibo/adapters/client';
+import { getInterClientForTenant, resetInterClient } from '../ops/inter/adapters/client';
+import { httpStatusFor, TenantResolutionError } from '../ops/shared/tenant';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const ENV_KEYS = ['OPS_SINGLE_TENANT', 'NIBO_API_KEY', 'OMIE_APP_KEY', 'OMIE_APP_SECRET', 'CONTROLLE_API_KEY', 'GETNET_USER', 'INTER_CLIENT_ID', 'INTER_CLIENT_SECRET', 'INTER_CONTA_CORRENTE', 'INTER_CERT_BASE64', 'INTER_KEY_BASE64'];
+const envOriginal: Record<string, string | undefined> = {};
+
+function secrets(values: Record<string, string>) {
+  const lookup = async (tenantId: string, name: string) => values[`${tenantId}-${name}`] || '';
+  mockGetTenantSecret.mockImplementation(lookup);
+  mockReadTenantSecret.mockImplementation(lookup);
+}
+
+beforeAll(() => {
+  ENV_KEYS.forEach((k) => (envOriginal[k] = process.env[k]));
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  ENV_KEYS.forEach((k) => delete process.env[k]);
+  resetNiboClient();
+  resetInterClient();
+  secrets({});
+});
+
+afterAll(() => {
+  ENV_KEYS.forEach((k) => {
+    if (envOriginal[k] === undefined) delete process.env[k];
+    else process.env[k] = envOriginal[k];
+  });
+});
+
+// ============================================================================
+// RESOLVERS
+// ============================================================================
+
+describe('resolveNiboCredentials', () => {
+  test('prefers the tenant token in Key Vault, then the legacy config, then env', async () => {
+    process.env.NIBO_API_KEY = 'env-token';
+    secrets({ 'wf-001-NIBO-API-TOKEN': 'kv-token' });
+
+    expect(await resolveNiboCredentials({ niboApiKey: 'cfg-token' } as any, 'wf-001')).toEqual({ apiToken: 'kv-token' });
+    expect(await resolveNiboCredentials({ niboApiKey: 'cfg-token' } as any, 'wf-002')).toEqual({ apiToken: 'cfg-token' });
+    expect(await resolveNiboCredentials({} as any, 'wf-002')).toEqual({ apiToken: 'env-token' });
+  });
+
+  test('fails without any token', async () => {
+    await expect(resolveNiboCredentials({} as any, 'wf-001')).rejects.toThrow('Nibo credentials not found');
+  });
+
+  test('tenant client never falls back to the global token', async () => {
+    process.env.NIBO_API_KEY = 'env-token';
+
+    await expect(resolveNiboCredentials({ niboTenantId: 'nibo-1' } as any, 'wf-001')).rejects.toThrow('ausente no Key Vault');
+
+    mockReadTenantSecret.mockRejectedValue(new Error('Failed to read secret wf-001-NIBO-API-TOKEN: timeout'));
+    await expect(resolveNiboCredentials({ niboTenantId: 'nibo-1' } as any, 'wf-001')).rejects.toThrow('timeout');
+  });
+});
+
+describe('resolveInterCredentials', () => {
+  test('uses the client login and account with secret and mTLS from the tenant Key Vault', async () => {
+    process.env.INTER_CLIENT_SECRET = 'env-secret';
+    secrets({
+      'wf-001-INTER-CLIENT-SECRET': 'kv-secret',
+      'wf-001-INTER-CERT-BASE64': 'cert',
+      'wf-001-INTER-KEY-BASE64': 'key',
+    });
+
+    const creds = await resolveInterCredentials({ interClientId: 'inter-cli', interContaCorrente: '12345' } as any, 'wf-001');
+
+    expect(creds).toEqual(expect.objectContaining({
+      clientId: 'inter-cli', clientSecret: 'kv-secret', contaCorrente: '12345', certBase64: 'cert', keyBase64: 'key',
+    }));
+  });
+
+  test('client login never pairs with the global secret', async () => {
+    process.env.INTER_CLIENT_ID = 'env-cli';
+    process.env.INTER_CLIENT_SECRET = 'env-secret';
+
+    await expect(resolveInterCredentials({ interClientId: 'inter-cli' } as any, 'wf-001')).rejects.toThrow('Inter credentials not found');
+    expect(await resolveInterCredentials({} as any, 'wf-001')).toEqual(expect.objectContaining({
+      clientId: 'env-cli', clientSecret: 'env-secret',
+    }));
+  });
+
+  test('global login ignores tenant secrets and the global account stays out of tenant logins', async () => {
+    process.env.INTER_CLIENT_ID = 'env-cli';
+    process.env.INTER_CLIENT_SECRET = 'env-secret';
+    process.env.INTER_CONTA_CORRENTE = '99999';
+    secrets({ 'wf-001-INTER-CLIENT-SECRET': 'kv-secret', 'wf-001-INTER-CERT-BASE64': 'cert' });
+
+    expect(await resolveInterCredentials({} as any, 'wf-001')).toEqual(expect.objectContaining({
+      clientId: 'env-cli', clientSecret: 'env-secret', certBase64: undefined,
+    }));
+    expect((await resolveInterCredentials({ interClientId: 'inter-cli' } as any, 'wf-001')).contaCorrente).toBeUndefined();
+  });
+});
+
+describe('resolveOmieCredentials', () => {
+  test('client app key pairs only with its own secret', async () => {
+    process.env.OMIE_APP_KEY = 'env-key';
+    process.env.OMIE_APP_SECRET = 'env-secret';
+    secrets({ 'wf-001-OMIE-APP-SECRET': 'kv-secret' });
+
+    expect(await resolveOmieCredentials({ omieAppKey: 'cli-key' } as any, 'wf-001')).toEqual({ appKey: 'cli-key', appSecret: 'kv-secret' });
+    expect(await resolveOmieCredentials({ omieAppKey: 'cli-key', omieAppSecret: 'legado' } as any, 'wf-002')).toEqual({ appKey: 'cli-key', appSecret: 'legado' });
+    await expect(resolveOmieCredentials({ omieAppKey: 'cli-key' } as any, 'wf-002')).rejects.toThrow('ausente no Key Vault');
+    expect(await resolveOmieCredentials({} as any, 'wf-001')).toEqual({ appKey: 'env-key', appSecret: 'env-secret' });
+  });
+});
+
+describe('resolveGetnetCredentials', () => {
+  test('client login pairs only with its own password', async () => {
+    process.env.GETNET_USER = 'env-user';
+    secrets({ 'wf-001-GETNET-PASS': 'kv-pass', '-GETNET-PASS': 'shared-pass' });
+
+    expect(await resolveGetnetCredentials({ getnetUser: 'cli-user', getnetEstabelecimento: '001' } as any, 'wf-001'))
+      .toEqual({ user: 'cli-user', password: 'kv-pass', estabelecimento: '001', estabelecimentos: ['001'] });
+    await expect(resolveGetnetCredentials({ getnetUser: 'cli-user' } as any, 'wf-002')).rejects.toThrow('ausente no Key Vault');
+    expect(await resolveGetnetCredentials({} as any, 'wf-001')).toEqual(expect.objectContaining({ user: 'env-user', password: 'shared-pass' }));
+  });
+});
+
+// ============================================================================
+// CLIENTS
+// ============================================================================
+
+describe('tenant clients', () => {
+  test('Nibo routes get a client per tenant token', async () => {
+    secrets({ 'wf-001-NIBO-API-TOKEN': 'kv-token-1', 'wf-002-NIBO-API-TOKEN': 'kv-token-2' });
+    mockGetClientById.mockImplementation(async (id: string) => ({ id, tenantId: id === 'client-1' ? 'wf-001' : 'wf-002', config: {} }));
+
+    const cliente1 = await resolveNiboClient('client-1');
+    const cliente2 = await resolveNiboClient('client-2');
+
+    expect(cliente1).not.toBe(cliente2);
+    expect(await resolveNiboClient('client-1')).toBe(cliente1);
+    expect(mockGetClientById).toHaveBeenCalledTimes(3);
+  });
+
+  test('missing or unknown clientId is refused instead of using the env client', async () => {
+    process.env.NIBO_API_KEY = 'env-token';
+    mockGetClientById.mockResolvedValue(null);
+
+    await expect(resolveNiboClient()).rejects.toMatchObject({ status: 400 });
+    await expect(resolveNiboClient('client-x')).rejects.toMatchObject({ status: 404 });
+    await expect(resolveInterClient()).rejects.toBeInstanceOf(TenantResolutionError);
+    expect(httpStatusFor(await resolveInterClient('client-x').catch((e) => e))).toBe(404);
+  });
+
+  test('Omie write routes never fall back to the env account outside single-tenant mode', async () => {
+    process.env.OMIE_APP_KEY = 'env-key';
+    process.env.OMIE_APP_SECRET = 'env-secret';
+    mockGetClientById.mockImplementation(async (id: string) => (id === 'client-1' ? { id, tenantId: 'wf-001', config: {} } : null));
+
+    await expect(resolveOmieClient()).rejects.toMatchObject({ status: 400 });
+    await expect(resolveOmieClient('client-x')).rejects.toMatchObject({ status: 404 });
+    await expect(resolveOmieClient('client-1')).rejects.toBeInstanceOf(OmieSyncError);
+
+    process.env.OPS_SINGLE_TENANT = 'true';
+    await expect(resolveOmieClient('client-1')).resolves.toBeDefined();
+  });
+
+  test('Controlle uses the client API key and the env key only in single-tenant mode', async () => {
+    process.env.CONTROLLE_API_KEY = 'env-key';
+    mockGetClientById.mockImplementation(async (id: string) => {
+      if (id === 'client-1') return { id, tenantId: 'wf-001', config: { controlleApiKey: 'cli-key' } };
+      if (id === 'client-2') return { id, tenantId: 'wf-002', config: {} };
+      return null;
+    });
+
+    expect(await resolveControlleClient('client-1')).not.toBe(getControlleClient());
+    await expect(resolveControlleClient()).rejects.toMatchObject({ status: 400 });
+    await expect(resolveControlleClient('client-x')).rejects.toMatchObject({ status: 404 });
+    await expect(resolveControlleClient('client-2')).rejects.toBeInstanceOf(ControlleSyncError);
+
+    process.env.OPS_SINGLE_TENANT = 'true';
+    expect(await resolveControlleClient('client-2')).toBe(getControlleClient());
+  });
+
+  test('env client only in explicit single-tenant mode', async () => {
+    process.env.OPS_SINGLE_TENANT = 'true';
+    process.env.NIBO_API_KEY = 'env-token';
+
+    expect(await resolveNiboClient()).toBe(getNiboClient());
+  });
+
+  test('Inter client is reused per account and recreated when the secret rotates', async () => {
+    secrets({ 'wf-001-INTER-CLIENT-SECRET': 'kv-secret' });
+    mockGetClientById.mockResolvedValue({ id: 'client-1', tenantId: 'wf-001', config: { interClientId: 'inter-cli' } });
+
+    const client = await resolveInterClient('client-1');
+
+    expect(await resolveInterClient('client-1')).toBe(client);
+    expect(getInterClientForTenant({ clientId: 'inter-cli', clientSecret: 'novo', environment: 'production' })).not.toBe(client);
+  });
+});
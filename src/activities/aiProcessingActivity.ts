@@ -4,7 +4,7 @@ import { AdvancedClassifier } from "../ai/advancedClassifier";
 import { AnomalyDetector } from "../ai/anomalyDetector";
 import { SmartMatcher } from "../ai/smartMatcher";
 import { DecisionEngine } from "../ai/decisionEngine";
-import { Transaction, TransactionStatus, TransactionType, DoubtType, ClassificationResult, Anomaly, Decision } from "../../shared/types";
+import { Transaction, TransactionStatus, TransactionType, DoubtType, ClassificationResult, Anomaly, Decision, PendingAuthorization, EnrichmentDoubt } from "../../shared/types";
 import {
     getTransactionsByStatus,
     getTransactionHistory,
@@ -12,8 +12,10 @@ import {
     createAuthorization,
     createDoubt,
     addHistoryAction,
+    getActiveDecisionRuleSet,
 } from "../storage/tableClient";
 import { nowISO } from "../../shared/utils";
+import { conciliarComBaixa } from "../infra/settlementService";
 
 interface AIProcessingInput {
     clientId: string;
@@ -41,7 +43,18 @@ export async function aiProcessingActivity(input: AIProcessingInput, context: In
     const classifier = new AdvancedClassifier(apiKey || 'mock-key');
     const anomalyDetector = new AnomalyDetector();
     const matcher = new SmartMatcher();
-    const decisionEngine = new DecisionEngine();
+
+    // Regras de decisão do tenant (fallback: regras padrão)
+    let decisionEngine = new DecisionEngine();
+    try {
+        const ruleSet = await getActiveDecisionRuleSet(clientId);
+        if (ruleSet) {
+            decisionEngine = new DecisionEngine(ruleSet.regras);
+            context.log(`[AI Pipeline] Using decision rules v${ruleSet.versao} for client ${clientId}`);
+        }
+    } catch (err: any) {
+        context.log(`[AI Pipeline] Could not load decision rules: ${err.message}`);
+    }
 
     // 2. Get transactions from storage (CAPTURADO status) + flatten capture results
     let allTransactions: Transaction[] = [];
@@ -79,6 +92,10 @@ export async function aiProcessingActivity(input: AIProcessingInput, context: In
         context.log(`[AI Pipeline] Could not load history: ${err.message}`);
     }
 
+    // Candidatas à baixa com as instâncias do batch: conciliada uma, as seguintes já veem
+    const doBatch = new Set(allTransactions.map(t => t.id));
+    const candidatasBaixa = [...allTransactions, ...history.filter(h => !doBatch.has(h.id))];
+
     for (const tx of allTransactions) {
         try {
             // A. Classify
@@ -88,126 +105,34 @@ export async function aiProcessingActivity(input: AIProcessingInput, context: In
             const anomalies = await anomalyDetector.detect([tx], history);
 
             // C. Match (Placeholder: logic currently matches against history/previstos)
-            const matches = await matcher.match([tx], history);
-            const matchResult = matches.find(m => m.previstoId === tx.id);
+            const matchResult = await matcher.matchTransaction(tx, history);
 
             // D. Decide
             const decision = decisionEngine.decide(tx, classification, anomalies, matchResult);
 
             // Apply Decision Logic & Persist to Storage
-            if (decision.acao === 'categorizar_auto' || decision.acao === 'sync_auto') {
-                tx.categoriaNome = classification.categoria;
-                tx.categoriaConfianca = classification.confianca;
-                tx.status = TransactionStatus.CLASSIFICADO;
-                tx.metadata = {
-                    ...tx.metadata,
-                    aiDecision: decision.acao,
-                    confidence: decision.confianca,
-                };
+            await persistDecision(clientId, tx, classification, anomalies, decision, context);
 
-                // Persist classification to storage
-                try {
-                    await updateTransaction(clientId, tx.id, {
-                        status: TransactionStatus.CLASSIFICADO,
-                        categoriaNome: classification.categoria,
-                        categoriaConfianca: classification.confianca,
-                        processedAt: nowISO(),
-                        metadata: tx.metadata,
-                    });
-                } catch (e: any) {
-                    context.log(`[AI Pipeline] Could not update tx ${tx.id}: ${e.message}`);
-                }
+            // E. Settle: previsto liquidado no banco recebe baixa no ERP (não vai para sync)
+            const baixa = await conciliarComBaixa(clientId, tx, candidatasBaixa);
 
-                if (decision.acao === 'sync_auto') {
-                    syncCandidates.push(tx);
-                }
+            if (baixa?.status === 'baixado') {
+                context.log(`[AI Pipeline] ${baixa.previstoId} settled by ${baixa.realizadoId}`);
+            } else if (decision.acao === 'sync_auto') {
+                syncCandidates.push(tx);
             } else if (decision.acao === 'escalar') {
-                tx.status = TransactionStatus.REVISAO_PENDENTE;
-                tx.metadata = {
-                    ...tx.metadata,
-                    aiDecision: decision.acao,
-                    reviewReason: decision.razao,
-                    anomalies,
-                };
-
-                // Persist status update
-                try {
-                    await updateTransaction(clientId, tx.id, {
-                        status: TransactionStatus.REVISAO_PENDENTE,
-                        categoriaNome: classification.categoria,
-                        categoriaConfianca: classification.confianca,
-                        processedAt: nowISO(),
-                        metadata: tx.metadata,
-                    });
-                } catch (e: any) {
-                    context.log(`[AI Pipeline] Could not update tx ${tx.id}: ${e.message}`);
-                }
-
                 // Create authorization for high-value escalated items
                 try {
-                    await createAuthorization({
-                        id: `auth-${tx.id}`,
-                        clientId,
-                        transactionId: tx.id,
-                        tipo: tx.type === TransactionType.PAGAR ? 'pagar' : 'receber',
-                        descricao: tx.descricao,
-                        valor: tx.valor,
-                        vencimento: tx.dataVencimento || nowISO().split('T')[0],
-                        contraparte: tx.contraparte || 'Desconhecido',
-                        categoria: classification.categoria,
-                        status: 'pendente',
-                        criadoEm: nowISO(),
-                    });
+                    await createAuthorization(buildAuthorization(clientId, tx, classification));
                 } catch (e: any) {
                     context.log(`[AI Pipeline] Could not create auth for ${tx.id}: ${e.message}`);
                 }
-            } else {
-                // aguardar, rejeitar, etc
-                tx.metadata = {
-                    ...tx.metadata,
-                    aiDecision: decision.acao,
-                    reviewReason: decision.razao,
-                    anomalies,
-                };
-
-                try {
-                    await updateTransaction(clientId, tx.id, {
-                        status: TransactionStatus.PROCESSANDO,
-                        categoriaNome: classification.categoria,
-                        categoriaConfianca: classification.confianca,
-                        processedAt: nowISO(),
-                        metadata: tx.metadata,
-                    });
-                } catch (e: any) {
-                    context.log(`[AI Pipeline] Could not update tx ${tx.id}: ${e.message}`);
-                }
             }
 
             // Create doubt for low-confidence classifications
-            if (classification.confianca < 0.8 && decision.acao !== 'sync_auto') {
+            if (needsClassificationReview(classification, decision)) {
                 try {
-                    await createDoubt({
-                        id: `doubt-${tx.id}`,
-                        clientId,
-                        transactionId: tx.id,
-                        tipo: DoubtType.CLASSIFICACAO,
-                        transacao: {
-                            id: tx.id,
-                            descricao: tx.descricao,
-                            valor: tx.valor,
-                            data: tx.dataVencimento || nowISO().split('T')[0],
-                        },
-                        sugestaoIA: {
-                            categoria: classification.categoria,
-                            confianca: classification.confianca,
-                        },
-                        opcoes: classification.alternativas?.map((a, i) => ({
-                            id: `alt-${i}`,
-                            nome: a.categoria,
-                        })) || [],
-                        status: 'pendente',
-                        criadoEm: nowISO(),
-                    });
+                    await createDoubt(buildDoubt(clientId, tx, classification));
                 } catch (e: any) {
                     context.log(`[AI Pipeline] Could not create doubt for ${tx.id}: ${e.message}`);
                 }
@@ -218,6 +143,7 @@ export async function aiProcessingActivity(input: AIProcessingInput, context: In
                 classification,
                 anomalies,
                 decision,
+                baixa,
             });
         } catch (err: any) {
             context.log(`[AI Pipeline][Error] Processing transaction ${tx.id}: ${err.message}`);
@@ -254,6 +180,104 @@ export async function aiProcessingActivity(input: AIProcessingInput, context: In
     };
 }
 
+/**
+ * Aplica a decisão à transação (status, categoria e metadados) e persiste.
+ * Compartilhado entre a activity do orquestrador e o worker de matching.
+ */
+export async function persistDecision(
+    clientId: string,
+    tx: Transaction,
+    classification: ClassificationResult,
+    anomalies: Anomaly[],
+    decision: Decision,
+    context: InvocationContext
+): Promise<void> {
+    let status: TransactionStatus;
+
+    if (decision.acao === 'categorizar_auto' || decision.acao === 'sync_auto') {
+        tx.categoriaNome = classification.categoria;
+        tx.categoriaConfianca = classification.confianca;
+        status = TransactionStatus.CLASSIFICADO;
+        tx.metadata = {
+            ...tx.metadata,
+            aiDecision: decision.acao,
+            confidence: decision.confianca,
+        };
+    } else {
+        // escalar vai para revisão; aguardar, rejeitar etc. ficam em processamento
+        status = decision.acao === 'escalar' ? TransactionStatus.REVISAO_PENDENTE : TransactionStatus.PROCESSANDO;
+        tx.metadata = {
+            ...tx.metadata,
+            aiDecision: decision.acao,
+            reviewReason: decision.razao,
+            anomalies,
+        };
+    }
+
+    if (status !== TransactionStatus.PROCESSANDO) {
+        tx.status = status;
+    }
+
+    try {
+        await updateTransaction(clientId, tx.id, {
+            status,
+            categoriaNome: classification.categoria,
+            categoriaConfianca: classification.confianca,
+            processedAt: nowISO(),
+            metadata: tx.metadata,
+        });
+    } catch (e: any) {
+        context.log(`[AI Pipeline] Could not update tx ${tx.id}: ${e.message}`);
+    }
+}
+
+/** Classificação com baixa confiança vira dúvida (exceto quando já vai para sync) */
+export function needsClassificationReview(classification: ClassificationResult, decision: Decision): boolean {
+    return classification.confianca < 0.8 && decision.acao !== 'sync_auto';
+}
+
+export function buildAuthorization(clientId: string, tx: Transaction, classification: ClassificationResult): PendingAuthorization {
+    return {
+        id: `auth-${tx.id}`,
+        clientId,
+        transactionId: tx.id,
+        tipo: tx.type === TransactionType.PAGAR ? 'pagar' : 'receber',
+        descricao: tx.descricao,
+        valor: tx.valor,
+        vencimento: tx.dataVencimento || nowISO().split('T')[0],
+        contraparte: tx.contraparte || 'Desconhecido',
+        categoria: classification.categoria,
+        preparadoPor: tx.metadata?.preparadoPor,
+        status: 'pendente',
+        criadoEm: nowISO(),
+    };
+}
+
+export function buildDoubt(clientId: string, tx: Transaction, classification: ClassificationResult): EnrichmentDoubt {
+    return {
+        id: `doubt-${tx.id}`,
+        clientId,
+        transactionId: tx.id,
+        tipo: DoubtType.CLASSIFICACAO,
+        transacao: {
+            id: tx.id,
+            descricao: tx.descricao,
+            valor: tx.valor,
+            data: tx.dataVencimento || nowISO().split('T')[0],
+        },
+        sugestaoIA: {
+            categoria: classification.categoria,
+            confianca: classification.confianca,
+        },
+        opcoes: classification.alternativas?.map((a, i) => ({
+            id: `alt-${i}`,
+            nome: a.categoria,
+        })) || [],
+        status: 'pendente',
+        criadoEm: nowISO(),
+    };
+}
+
 // Register as Azure Function Activity
 df.app.activity('aiProcessingActivity', {
     handler: aiProcessingActivity
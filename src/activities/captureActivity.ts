@@ -3,6 +3,7 @@
  *
  * Activity que dispara captura para um ops específico.
  * - Getnet: chamada direta via SFTP (mesmo processo, sem HTTP)
+ * - OFX: local — extratos já chegam por upload (ofx/upload)
  * - Demais: chama o endpoint HTTP do ops correspondente
  */
 
@@ -15,32 +16,74 @@ import {
   TransactionSource,
   TransactionStatus,
   createTransaction,
+  createCaptureMessage,
+  captureQueueName,
 } from '../types';
 import { createLogger, withRetry } from '../../shared/utils';
 import { createTransactions, addHistoryAction } from '../storage/tableClient';
 import { nowISO } from '../../shared/utils';
+import { enqueueMessage } from '../storage/queueClient';
 import { executeGetnetCapture } from '../ops/getnet/functions/capture';
+import { executeOfxCapture } from '../ops/ofx/functions/capture';
 
 const logger = createLogger('CaptureActivity');
 
+/**
+ * Executa a captura de uma fonte. Usada pela activity do orquestrador
+ * e pelos workers da fila de captura.
+ */
+export async function executeCapture(input: CaptureActivityInput): Promise<CaptureActivityOutput> {
+  const startTime = Date.now();
+  const { clientId, cycleId, source } = input;
+
+  logger.info(`Starting capture for ${source}`, { clientId, cycleId });
+
+  // Getnet: chamada direta (SFTP no mesmo processo, sem HTTP)
+  if (source === 'getnet') {
+    return captureGetnetDirect(clientId, cycleId, startTime);
+  }
+
+  // OFX: sem API, apenas levanta os extratos enviados por upload
+  if (source === 'ofx') {
+    return captureOfxLocal(clientId, cycleId, startTime);
+  }
+
+  // Demais fontes: chamada HTTP para o microservico ops
+  return captureViaHttp(clientId, cycleId, source, startTime);
+}
+
 // Capture activity
 df.app.activity('captureActivity', {
   handler: async (
     input: CaptureActivityInput,
     context: InvocationContext
-  ): Promise<CaptureActivityOutput> => {
-    const startTime = Date.now();
-    const { clientId, cycleId, source } = input;
+  ): Promise<CaptureActivityOutput> => executeCapture(input),
+});
 
-    logger.info(`Starting capture for ${source}`, { clientId, cycleId });
+// Enqueue capture activity (pipeline por filas: publica uma mensagem por fonte)
+df.app.activity('enqueueCaptureActivity', {
+  handler: async (
+    input: { clientId: string; cycleId: string; sources: string[] },
+    context: InvocationContext
+  ): Promise<{ enqueued: number }> => {
+    let enqueued = 0;
+
+    for (const source of input.sources) {
+      const queueName = captureQueueName(source);
+      if (!queueName) {
+        logger.warn(`No capture queue for ${source}`, { clientId: input.clientId });
+        continue;
+      }
 
-    // Getnet: chamada direta (SFTP no mesmo processo, sem HTTP)
-    if (source === 'getnet') {
-      return captureGetnetDirect(clientId, cycleId, startTime);
+      await enqueueMessage(
+        queueName,
+        createCaptureMessage(input.clientId, input.cycleId, source as CaptureActivityInput['source'])
+      );
+      enqueued++;
     }
 
-    // Demais fontes: chamada HTTP para o microservico ops
-    return captureViaHttp(clientId, cycleId, source, startTime);
+    logger.info(`Enqueued ${enqueued} capture messages`, { clientId: input.clientId, cycleId: input.cycleId });
+    return { enqueued };
   },
 });
 
@@ -96,7 +139,41 @@ async function captureGetnetDirect(
 }
 
 /**
- * Captura via HTTP — para nibo, santander, inter, omie, controlle, ofx.
+ * Captura OFX — as transações já foram persistidas no upload; aqui só
+ * reportamos o que está pendente para o ciclo.
+ */
+async function captureOfxLocal(
+  clientId: string,
+  cycleId: string,
+  startTime: number
+): Promise<CaptureActivityOutput> {
+  const result = await executeOfxCapture({ clientId, cycleId });
+
+  if (result.success) {
+    await addHistoryAction({
+      id: `hist-cap-${cycleId}-ofx`,
+      clientId,
+      tipo: 'captura',
+      descricao: `Captura ofx: ${result.transactions.total} transacoes pendentes de ${result.arquivos.length} extrato(s)`,
+      data: nowISO(),
+      detalhes: { cycleId, source: 'ofx', arquivos: result.arquivos, ...result.transactions },
+    });
+  }
+
+  return {
+    success: result.success,
+    clientId,
+    source: 'ofx',
+    transactionsCount: result.transactions.total,
+    newCount: result.transactions.new,
+    updatedCount: result.transactions.updated,
+    error: result.error,
+    durationMs: Date.now() - startTime,
+  };
+}
+
+/**
+ * Captura via HTTP — para nibo, santander, inter, omie, controlle.
  */
 async function captureViaHttp(
   clientId: string,
@@ -160,7 +237,6 @@ async function captureViaHttp(
         controlle: TransactionSource.CONTROLLE,
         santander: TransactionSource.SANTANDER,
         inter: TransactionSource.INTER,
-        ofx: TransactionSource.OFX,
       };
 
       const txs = result.transactions.items.map((item: any) =>
@@ -254,7 +330,6 @@ function getOpsUrl(source: string): string {
     controlle: process.env.CONTROLLE_OPS_URL,
     santander: process.env.SANTANDER_OPS_URL,
     inter: process.env.INTER_OPS_URL,
-    ofx: process.env.UTILS_OPS_URL,
   };
   return urls[source] || '';
 }
@@ -266,7 +341,6 @@ function getOpsKey(source: string): string {
     controlle: process.env.CONTROLLE_OPS_KEY,
     santander: process.env.SANTANDER_OPS_KEY,
     inter: process.env.INTER_OPS_KEY,
-    ofx: process.env.UTILS_OPS_KEY,
   };
   return keys[source] || '';
 }
@@ -1,6 +1,8 @@
 import * as df from 'durable-functions';
 import { InvocationContext } from "@azure/functions";
 import { ProactiveNotifier } from "../notifications/proactiveNotifier";
+import { verificarAlertasOrcamento } from "../reports/orcamento";
+import { getClient, getPendingAuthorizations } from "../storage/tableClient";
 
 const notifier = new ProactiveNotifier();
 
@@ -14,6 +16,35 @@ export async function sendAlertActivity(input: { clientId: string, alert: any },
     await notifier.sendAlert(input.clientId, input.alert);
 }
 
+// Activity: Budget threshold alerts (after the daily cycle)
+export async function checkBudgetAlertsActivity(input: { clientId: string, mes: string }, context: InvocationContext): Promise<{ alertas: number }> {
+    try {
+        const client = await getClient(input.clientId);
+        if (!client) return { alertas: 0 };
+
+        const { alertas } = await verificarAlertasOrcamento(client, input.mes);
+        return { alertas };
+    } catch (error: any) {
+        // Falha no orçamento não deve derrubar o ciclo
+        context.warn(`[checkBudgetAlerts] ${input.clientId}: ${error.message}`);
+        return { alertas: 0 };
+    }
+}
+
+// Activity: Pending authorizations digest (WhatsApp, with approve/reject buttons)
+export async function sendAuthorizationDigestActivity(input: { clientId: string }, context: InvocationContext): Promise<{ enviadas: number }> {
+    try {
+        const client = await getClient(input.clientId);
+        if (!client?.config?.notificacoes?.whatsapp) return { enviadas: 0 };
+
+        const pendentes = await getPendingAuthorizations(input.clientId);
+        return { enviadas: await notifier.sendAuthorizationDigest(input.clientId, pendentes, client) };
+    } catch (error: any) {
+        context.warn(`[sendAuthorizationDigest] ${input.clientId}: ${error.message}`);
+        return { enviadas: 0 };
+    }
+}
+
 df.app.activity('sendDailySummaryActivity', {
     handler: sendDailySummaryActivity
 });
@@ -21,3 +52,11 @@ df.app.activity('sendDailySummaryActivity', {
 df.app.activity('sendAlertActivity', {
     handler: sendAlertActivity
 });
+
+df.app.activity('checkBudgetAlertsActivity', {
+    handler: checkBudgetAlertsActivity
+});
+
+df.app.activity('sendAuthorizationDigestActivity', {
+    handler: sendAuthorizationDigestActivity
+});
@@ -0,0 +1,314 @@
+/**
+ * Payment Activity - operacao-head
+ *
+ * Activities do fluxo de execução de pagamentos aprovados via API bancária:
+ * - submitPaymentActivity: envia ao banco (chave de idempotência por autorização/tentativa)
+ * - checkPaymentActivity:  consulta status/comprovante; AGENDADO → PAGO
+ * - failPaymentActivity:   devolve a autorização à fila com o motivo da falha
+ */
+
+import * as df from 'durable-functions';
+import { InvocationContext } from '@azure/functions';
+import { createLogger, nowISO, todayYMD } from '../../shared/utils';
+import {
+  PaymentExecution,
+  PendingAuthorization,
+  Transaction,
+  TransactionStatus,
+} from '../types';
+import {
+  getClient,
+  getAuthorization,
+  updateAuthorizationPagamento,
+  returnAuthorizationToQueue,
+  getTransaction,
+  updateTransaction,
+  addHistoryAction,
+} from '../storage/tableClient';
+import { getPaymentGateway, PaymentGateway, PaymentOrder } from '../infra/paymentGateway';
+import { buildRemessaItem } from '../ops/cnab/functions/remessa';
+
+const logger = createLogger('PaymentActivity');
+
+export interface PaymentActivityInput {
+  authorizationId: string;
+  erro?: string; // failPaymentActivity
+}
+
+export interface PaymentActivityOutput {
+  authorizationId: string;
+  status: PaymentExecution['status'] | 'ignorado';
+  erro?: string;
+}
+
+// ============================================================================
+// CORE (chamável direto, sem durable)
+// ============================================================================
+
+/**
+ * Monta a ordem de pagamento a partir da autorização e da transação
+ * (mesmas regras da remessa CNAB: codigoBarras → boleto, chave PIX → pix).
+ */
+export function buildPaymentOrder(
+  auth: PendingAuthorization,
+  tx: Transaction,
+  idempotencyKey: string
+): PaymentOrder | { motivo: string } {
+  const item = buildRemessaItem(auth, tx);
+  if ('motivo' in item) return item;
+  if (item.forma === 'ted') return { motivo: 'TED não é suportada via API; use remessa CNAB' };
+
+  return {
+    idempotencyKey,
+    forma: item.forma,
+    valor: item.valor,
+    descricao: auth.descricao,
+    dataPagamento: item.dataPagamento,
+    chavePix: item.chavePix,
+    tipoChavePix: item.tipoChavePix,
+    codigoBarras: tx.codigoBarras,
+    vencimento: item.vencimento,
+  };
+}
+
+export async function submitPayment(authorizationId: string): Promise<PaymentActivityOutput> {
+  const auth = await getAuthorization(authorizationId);
+
+  if (!auth || auth.status !== 'aprovado' || auth.tipo !== 'pagar') {
+    return { authorizationId, status: 'ignorado', erro: 'Autorização não encontrada ou não aprovada' };
+  }
+  if (auth.remessaId) {
+    return { authorizationId, status: 'ignorado', erro: `Pagamento incluído na remessa ${auth.remessaId}` };
+  }
+
+  // Já aceito pelo banco: não reenviar (replay da orquestração ou nova chamada)
+  if (auth.pagamento?.bancoPagamentoId && auth.pagamento.status !== 'falha') {
+    return { authorizationId, status: auth.pagamento.status };
+  }
+
+  // 'enviado' sem id = envio interrompido: repete a mesma chave, o banco deduplica
+  const retomando = auth.pagamento?.status === 'enviado';
+  const tentativa = retomando ? auth.pagamento!.tentativa : (auth.pagamento?.tentativa || 0) + 1;
+  const idempotencyKey = `${auth.id}-${tentativa}`;
+
+  const [client, tx] = await Promise.all([
+    getClient(auth.clientId),
+    getTransaction(auth.clientId, auth.transactionId),
+  ]);
+  if (!client || !tx) {
+    return { authorizationId, status: 'falha', erro: 'Cliente ou transação não encontrados' };
+  }
+
+  const order = buildPaymentOrder(auth, tx, idempotencyKey);
+  if ('motivo' in order) {
+    return { authorizationId, status: 'falha', erro: order.motivo };
+  }
+
+  // Banco sem API ou credenciais inválidas: falha sem nada enviado ao banco
+  let gateway: PaymentGateway;
+  try {
+    gateway = await getPaymentGateway(client);
+  } catch (error: any) {
+    logger.error('Gateway de pagamento indisponível', error);
+    return { authorizationId, status: 'falha', erro: error.message };
+  }
+
+  let pagamento: PaymentExecution | undefined;
+  let chamouBanco = false;
+
+  try {
+    pagamento = {
+      idempotencyKey,
+      tentativa,
+      banco: gateway.banco,
+      forma: order.forma,
+      status: 'enviado',
+      atualizadoEm: nowISO(),
+    };
+    await updateAuthorizationPagamento(auth.id, pagamento);
+
+    chamouBanco = true;
+    const result = await gateway.pay(order);
+
+    pagamento = {
+      ...pagamento,
+      status: result.status,
+      bancoPagamentoId: result.bancoPagamentoId,
+      statusBanco: result.statusBanco,
+      enviadoEm: nowISO(),
+      atualizadoEm: nowISO(),
+    };
+    await updateAuthorizationPagamento(auth.id, pagamento);
+
+    if (result.status === 'falha') {
+      return { authorizationId, status: 'falha', erro: `Banco recusou o pagamento (${result.statusBanco})` };
+    }
+
+    await updateTransaction(auth.clientId, tx.id, {
+      status: TransactionStatus.AGENDADO,
+      metadata: {
+        ...(tx.metadata || {}),
+        pagamento: {
+          banco: pagamento.banco,
+          bancoPagamentoId: pagamento.bancoPagamentoId,
+          idempotencyKey,
+        },
+      },
+    });
+
+    await addHistoryAction({
+      id: `hist-pag-${idempotencyKey}`,
+      clientId: auth.clientId,
+      tipo: 'pagamento',
+      descricao: `Pagamento ${order.forma.toUpperCase()} de R$ ${auth.valor.toFixed(2)} enviado ao ${pagamento.banco}`,
+      data: nowISO(),
+      detalhes: { authorizationId, bancoPagamentoId: pagamento.bancoPagamentoId, statusBanco: result.statusBanco },
+    });
+
+    logger.info('Pagamento enviado', { authorizationId, banco: pagamento.banco, status: result.status });
+    return { authorizationId, status: result.status };
+  } catch (error: any) {
+    logger.error('Falha ao enviar pagamento', error);
+    if (!pagamento || !chamouBanco) {
+      return { authorizationId, status: 'falha', erro: error.message };
+    }
+
+    // Banco já respondeu: só o registro local falhou, o status do banco vale
+    if (pagamento.status !== 'enviado') {
+      return { authorizationId, status: pagamento.status, erro: error.message };
+    }
+
+    // Sem resposta (timeout, conexão caída): o banco pode ter aceito. Segue
+    // 'enviado' sem id para o próximo envio repetir a mesma chave.
+    try {
+      await updateAuthorizationPagamento(auth.id, { ...pagamento, erro: error.message, atualizadoEm: nowISO() });
+    } catch (e) {
+      logger.error('Falha ao registrar envio interrompido', e);
+    }
+    return { authorizationId, status: 'enviado', erro: error.message };
+  }
+}
+
+export async function checkPayment(authorizationId: string): Promise<PaymentActivityOutput> {
+  const auth = await getAuthorization(authorizationId);
+  const pagamento = auth?.pagamento;
+
+  if (!auth || !pagamento?.bancoPagamentoId) {
+    return { authorizationId, status: 'falha', erro: 'Pagamento sem identificador do banco' };
+  }
+  if (pagamento.status === 'pago' && pagamento.comprovanteId) {
+    return { authorizationId, status: 'pago' };
+  }
+
+  const client = await getClient(auth.clientId);
+  if (!client) {
+    return { authorizationId, status: pagamento.status, erro: 'Cliente não encontrado' };
+  }
+
+  let gateway: PaymentGateway;
+  try {
+    gateway = await getPaymentGateway(client);
+  } catch (error: any) {
+    logger.error('Gateway de pagamento indisponível', error);
+    const erro = `Gateway de pagamento indisponível: ${error.message}`;
+    await updateAuthorizationPagamento(auth.id, { ...pagamento, status: 'falha', erro, atualizadoEm: nowISO() });
+    return { authorizationId, status: 'falha', erro };
+  }
+
+  const result = await gateway.getStatus(pagamento.bancoPagamentoId, pagamento.forma);
+  if (!result) {
+    return { authorizationId, status: pagamento.status }; // consulta indisponível: tenta no próximo poll
+  }
+
+  const atualizado: PaymentExecution = {
+    ...pagamento,
+    status: result.status,
+    statusBanco: result.statusBanco,
+    comprovanteId: result.comprovanteId || pagamento.comprovanteId,
+    dataPagamento: result.dataPagamento || pagamento.dataPagamento,
+    erro: result.status === 'falha' ? `Banco: ${result.statusBanco}` : undefined,
+    atualizadoEm: nowISO(),
+  };
+  await updateAuthorizationPagamento(auth.id, atualizado);
+
+  if (result.status === 'pago') {
+    const tx = await getTransaction(auth.clientId, auth.transactionId);
+
+    await updateTransaction(auth.clientId, auth.transactionId, {
+      status: TransactionStatus.PAGO,
+      dataRealizacao: atualizado.dataPagamento || todayYMD(),
+      metadata: {
+        ...(tx?.metadata || {}),
+        pagamento: {
+          banco: atualizado.banco,
+          bancoPagamentoId: atualizado.bancoPagamentoId,
+          idempotencyKey: atualizado.idempotencyKey,
+          comprovanteId: atualizado.comprovanteId,
+        },
+      },
+    });
+
+    await addHistoryAction({
+      id: `hist-pag-${atualizado.idempotencyKey}-pago`,
+      clientId: auth.clientId,
+      tipo: 'pagamento',
+      descricao: `Pagamento de R$ ${auth.valor.toFixed(2)} confirmado pelo ${atualizado.banco}`,
+      data: nowISO(),
+      detalhes: { authorizationId, comprovanteId: atualizado.comprovanteId },
+    });
+  }
+
+  return { authorizationId, status: result.status, erro: atualizado.erro };
+}
+
+export async function failPayment(authorizationId: string, erro: string): Promise<PaymentActivityOutput> {
+  const auth = await getAuthorization(authorizationId);
+  if (!auth) return { authorizationId, status: 'ignorado', erro: 'Autorização não encontrada' };
+
+  // Envio sem resposta do banco segue 'enviado': a nova aprovação repete a mesma chave
+  const interrompido = auth.pagamento?.status === 'enviado' && !auth.pagamento.bancoPagamentoId;
+  const pagamento: PaymentExecution | undefined = auth.pagamento
+    ? { ...auth.pagamento, status: interrompido ? 'enviado' : 'falha', erro, atualizadoEm: nowISO() }
+    : undefined;
+
+  await returnAuthorizationToQueue(auth.id, `Falha no pagamento: ${erro}`, pagamento);
+
+  const tx = await getTransaction(auth.clientId, auth.transactionId);
+  if (tx) {
+    await updateTransaction(auth.clientId, tx.id, {
+      status: TransactionStatus.PAGAMENTO_PENDENTE,
+      metadata: { ...(tx.metadata || {}), pagamentoErro: erro },
+    });
+  }
+
+  await addHistoryAction({
+    id: `hist-pag-${auth.id}-falha-${Date.now()}`,
+    clientId: auth.clientId,
+    tipo: 'erro',
+    descricao: `Pagamento da autorização ${auth.id} falhou e voltou para a fila: ${erro}`,
+    data: nowISO(),
+    detalhes: { authorizationId, tentativa: pagamento?.tentativa },
+  });
+
+  logger.warn('Pagamento devolvido à fila de autorizações', { authorizationId, erro });
+  return { authorizationId, status: 'falha', erro };
+}
+
+// ============================================================================
+// ACTIVITIES
+// ============================================================================
+
+df.app.activity('submitPaymentActivity', {
+  handler: async (input: PaymentActivityInput, context: InvocationContext): Promise<PaymentActivityOutput> =>
+    submitPayment(input.authorizationId),
+});
+
+df.app.activity('checkPaymentActivity', {
+  handler: async (input: PaymentActivityInput, context: InvocationContext): Promise<PaymentActivityOutput> =>
+    checkPayment(input.authorizationId),
+});
+
+df.app.activity('failPaymentActivity', {
+  handler: async (input: PaymentActivityInput, context: InvocationContext): Promise<PaymentActivityOutput> =>
+    failPayment(input.authorizationId, input.erro || 'Erro desconhecido'),
+});
@@ -1,112 +1,135 @@
 /**
  * Sync Activity - operacao-head
  *
- * Activity que sincroniza transações classificadas para o sistema de destino (Nibo/Omie).
- * Processa em batch as transações prontas.
+ * Activity que sincroniza transações classificadas para o ERP do cliente
+ * (Nibo/Omie/Controlle, pelo Client.sistema). Processa em batch as
+ * transações prontas; cada uma tem suas próprias tentativas e o resultado
+ * fica gravado nela (metadata.sync).
  */
 
 import * as df from 'durable-functions';
 import { InvocationContext } from '@azure/functions';
-import { createLogger, withRetry } from '../../shared/utils';
-import { TransactionStatus } from '../types';
+import { createLogger, sleep } from '../../shared/utils';
 import {
+  SyncBatchInput,
+  SyncBatchOutput,
+  SyncDestination,
+  Transaction,
+  TransactionStatus,
+} from '../types';
+import {
+  getClient,
   getTransactionsByStatus,
   getTransaction as getTransactionFromStorage,
   updateTransaction,
   addHistoryAction,
 } from '../storage/tableClient';
 import { nowISO } from '../../shared/utils';
+import {
+  EXTERNAL_ID_FIELDS,
+  getSyncAdapter,
+  isRetryableOpsError,
+  resolveSyncDestination,
+  SyncAdapter,
+  SyncResult,
+} from '../infra/syncGateway';
 
 const logger = createLogger('SyncActivity');
 
-interface SyncBatchInput {
-  clientId: string;
-  cycleId: string;
-  destination: 'nibo' | 'omie';
-}
+// Tentativas por transação no batch (só erro repetível; skipped é definitivo)
+const SYNC_TENTATIVAS = 3;
+const SYNC_ESPERA_MS = 2000;
 
-interface SyncBatchOutput {
-  synced: number;
-  created: number;
-  updated: number;
-  skipped: number;
-  errors: number;
+interface SyncOutcome extends SyncResult {
+  tentativas: number;
+  falha?: string; // erro após a última tentativa
 }
 
-// Sync batch activity
-df.app.activity('syncBatchActivity', {
-  handler: async (
-    input: SyncBatchInput,
-    context: InvocationContext
-  ): Promise<SyncBatchOutput> => {
-    const { clientId, cycleId, destination } = input;
-
-    logger.info('Starting batch sync', { clientId, cycleId, destination });
+/**
+ * Sincroniza as transações CLASSIFICADO do cliente. Sem destino no input,
+ * usa o ERP do cadastro; cliente sem ERP suportado não sincroniza.
+ */
+export async function executeSyncBatch(
+  input: SyncBatchInput,
+  esperaMs = SYNC_ESPERA_MS
+): Promise<SyncBatchOutput> {
+  const { clientId, cycleId } = input;
+  const destination = input.destination || resolveSyncDestination(await getClient(clientId));
+  const output: SyncBatchOutput = {
+    destination,
+    synced: 0,
+    created: 0,
+    updated: 0,
+    skipped: 0,
+    errors: 0,
+    failures: [],
+  };
 
-    try {
-      // Get classified transactions ready for sync
-      const transactions = await getTransactionsToSync(clientId, cycleId);
+  const adapter = destination && getSyncAdapter(destination);
+  if (!destination || !adapter) return output;
 
-      if (transactions.length === 0) {
-        logger.info('No transactions to sync');
-        return { synced: 0, created: 0, updated: 0, skipped: 0, errors: 0 };
-      }
+  logger.info('Starting batch sync', { clientId, cycleId, destination });
 
-      logger.info(`Found ${transactions.length} transactions to sync`);
+  const transactions = await getTransactionsToSync(clientId);
+  if (transactions.length === 0) {
+    logger.info('No transactions to sync');
+    return output;
+  }
 
-      // Get ops URL
-      const opsUrl = destination === 'nibo'
-        ? process.env.NIBO_OPS_URL
-        : process.env.OMIE_OPS_URL;
+  logger.info(`Found ${transactions.length} transactions to sync`);
 
-      const opsKey = destination === 'nibo'
-        ? process.env.NIBO_OPS_KEY
-        : process.env.OMIE_OPS_KEY;
+  for (const tx of transactions) {
+    const outcome = await syncWithRetry(adapter, tx, esperaMs);
 
-      if (!opsUrl) {
-        logger.warn(`No URL configured for ${destination}`);
-        return { synced: 0, created: 0, updated: 0, skipped: 0, errors: 1 };
-      }
+    try {
+      await persistSyncResult(tx, destination, outcome);
+    } catch (error: any) {
+      // Sem o id gravado não conta como sincronizada; volta no próximo ciclo
+      output.errors++;
+      output.failures.push({ transactionId: tx.id, error: `Resultado do sync não gravado: ${error.message}` });
+      continue;
+    }
 
-      // Sync each transaction
-      let created = 0;
-      let updated = 0;
-      let skipped = 0;
-      let errors = 0;
-
-      for (const tx of transactions) {
-        try {
-          const result = await syncTransaction(opsUrl, opsKey || '', tx, destination);
-
-          switch (result.action) {
-            case 'created':
-              created++;
-              break;
-            case 'updated':
-              updated++;
-              break;
-            case 'skipped':
-              skipped++;
-              break;
-          }
-
-          // Update transaction with external ID if created
-          if (result.externalId) {
-            await updateTransactionExternalId(tx.id, destination, result.externalId, clientId);
-          }
-        } catch (error) {
-          logger.error(`Error syncing transaction ${tx.id}`, error);
-          errors++;
-        }
-      }
+    if (outcome.falha) {
+      output.errors++;
+      output.failures.push({ transactionId: tx.id, error: outcome.falha });
+    } else {
+      output[outcome.action]++;
+    }
+  }
 
-      const synced = created + updated;
-      logger.info('Sync completed', { synced, created, updated, skipped, errors });
+  output.synced = output.created + output.updated;
+  logger.info('Sync completed', {
+    destination,
+    synced: output.synced,
+    created: output.created,
+    updated: output.updated,
+    skipped: output.skipped,
+    errors: output.errors,
+  });
+
+  return output;
+}
 
-      return { synced, created, updated, skipped, errors };
+// Sync batch activity
+df.app.activity('syncBatchActivity', {
+  handler: async (
+    input: SyncBatchInput,
+    context: InvocationContext
+  ): Promise<SyncBatchOutput> => {
+    try {
+      return await executeSyncBatch(input);
     } catch (error: any) {
       logger.error('Batch sync failed', error);
-      return { synced: 0, created: 0, updated: 0, skipped: 0, errors: 1 };
+      return {
+        destination: input.destination,
+        synced: 0,
+        created: 0,
+        updated: 0,
+        skipped: 0,
+        errors: 1,
+        failures: [{ transactionId: '*', error: error.message }],
+      };
     }
   },
 });
@@ -118,7 +141,7 @@ df.app.activity('syncActivity', {
       transactionId: string;
       clientId: string;
       cycleId: string;
-      destination: 'nibo' | 'omie';
+      destination: SyncDestination;
       action: 'create' | 'update';
     },
     context: InvocationContext
@@ -133,36 +156,26 @@ df.app.activity('syncActivity', {
 
     try {
       // Get transaction data
-      const transaction = await getTransaction(input.transactionId, input.clientId);
+      const transaction = await getTransactionFromStorage(input.clientId, input.transactionId);
+      const adapter = getSyncAdapter(input.destination);
 
-      if (!transaction) {
+      if (!transaction || !adapter) {
         return {
           success: false,
           action: 'skipped',
-          error: 'Transaction not found',
+          error: transaction ? `No sync adapter for ${input.destination}` : 'Transaction not found',
           durationMs: Date.now() - startTime,
         };
       }
 
-      const opsUrl = input.destination === 'nibo'
-        ? process.env.NIBO_OPS_URL
-        : process.env.OMIE_OPS_URL;
-
-      const opsKey = input.destination === 'nibo'
-        ? process.env.NIBO_OPS_KEY
-        : process.env.OMIE_OPS_KEY;
-
-      const result = await syncTransaction(
-        opsUrl || '',
-        opsKey || '',
-        transaction,
-        input.destination
-      );
+      const outcome = await syncWithRetry(adapter, transaction, SYNC_ESPERA_MS);
+      await persistSyncResult(transaction, input.destination, outcome);
 
       return {
-        success: true,
-        action: result.action,
-        externalId: result.externalId,
+        success: !outcome.falha && outcome.action !== 'skipped',
+        action: outcome.action,
+        externalId: outcome.externalId,
+        error: outcome.falha || outcome.error,
         durationMs: Date.now() - startTime,
       };
     } catch (error: any) {
@@ -177,105 +190,122 @@ df.app.activity('syncActivity', {
   },
 });
 
-// Helper functions
-async function getTransactionsToSync(
+/**
+ * Sincroniza uma transação e grava o resultado. Usado pelos workers da
+ * fila de sync: erro repetível é relançado para o retry da fila; os
+ * demais ficam gravados como falha, sem reenvio.
+ */
+export async function syncTransactionToDestination(
   clientId: string,
-  cycleId: string
-): Promise<any[]> {
+  transactionId: string,
+  destination: SyncDestination
+): Promise<SyncResult> {
+  const transaction = await getTransactionFromStorage(clientId, transactionId);
+  if (!transaction) {
+    throw new Error(`Transaction ${transactionId} not found`);
+  }
+
+  const adapter = getSyncAdapter(destination);
+  if (!adapter) {
+    throw new Error(`Sem adapter de sync para ${destination}`);
+  }
+
+  let result: SyncResult;
   try {
-    return await getTransactionsByStatus(clientId, TransactionStatus.CLASSIFICADO);
-  } catch (error) {
-    logger.error('Failed to get transactions to sync', error);
-    return [];
+    result = await adapter.sync(transaction);
+  } catch (error: any) {
+    if (isRetryableOpsError(error)) throw error;
+
+    await persistSyncResult(transaction, destination, { action: 'skipped', tentativas: 1, falha: error.message });
+    return { action: 'skipped', error: error.message };
   }
+
+  await persistSyncResult(transaction, destination, { ...result, tentativas: 1 });
+
+  return result;
 }
 
-async function getTransaction(transactionId: string, clientId?: string): Promise<any> {
-  if (!clientId) return null;
+// Helper functions
+async function getTransactionsToSync(clientId: string): Promise<Transaction[]> {
   try {
-    return await getTransactionFromStorage(clientId, transactionId);
+    return await getTransactionsByStatus(clientId, TransactionStatus.CLASSIFICADO);
   } catch (error) {
-    logger.error('Failed to get transaction', error);
-    return null;
+    logger.error('Failed to get transactions to sync', error);
+    return [];
   }
 }
 
-async function syncTransaction(
-  opsUrl: string,
-  opsKey: string,
-  transaction: any,
-  destination: 'nibo' | 'omie'
-): Promise<{
-  action: 'created' | 'updated' | 'skipped';
-  externalId?: string;
-}> {
-  const response = await withRetry(
-    async () => {
-      const res = await fetch(`${opsUrl}/api/sync`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-functions-key': opsKey,
-        },
-        body: JSON.stringify({
-          transactionId: transaction.id,
-          clientId: transaction.clientId,
-          descricao: transaction.descricao,
-          valor: transaction.valor,
-          dataVencimento: transaction.dataVencimento,
-          categoriaId: transaction.categoriaId,
-          categoriaNome: transaction.categoriaNome,
-          contraparte: transaction.contraparte,
-          tipo: transaction.type,
-          existingExternalId: destination === 'nibo'
-            ? transaction.niboId
-            : transaction.omieId,
-        }),
-      });
+async function syncWithRetry(
+  adapter: SyncAdapter,
+  transaction: Transaction,
+  esperaMs: number
+): Promise<SyncOutcome> {
+  let falha = '';
 
-      if (!res.ok) {
-        const error = await res.text();
-        throw new Error(`Sync failed: ${res.status} - ${error}`);
+  for (let tentativa = 1; tentativa <= SYNC_TENTATIVAS; tentativa++) {
+    try {
+      return { ...(await adapter.sync(transaction)), tentativas: tentativa };
+    } catch (error: any) {
+      falha = error.message;
+      logger.warn(`Sync ${transaction.id} → ${adapter.destino} failed (attempt ${tentativa}): ${falha}`);
+      if (!isRetryableOpsError(error)) {
+        return { action: 'skipped', tentativas: tentativa, falha };
       }
+      if (tentativa < SYNC_TENTATIVAS) await sleep(esperaMs * tentativa);
+    }
+  }
 
-      return res.json();
-    },
-    { maxRetries: 3, delayMs: 2000 }
-  );
-
-  return {
-    action: response.action || 'skipped',
-    externalId: response.externalId,
-  };
+  return { action: 'skipped', tentativas: SYNC_TENTATIVAS, falha };
 }
 
-async function updateTransactionExternalId(
-  transactionId: string,
-  destination: 'nibo' | 'omie',
-  externalId: string,
-  clientId?: string
+/**
+ * Grava o resultado na transação (metadata.sync); sincronizada, recebe o
+ * id externo e sai de CLASSIFICADO. Skipped e falha ficam CLASSIFICADO
+ * para o próximo ciclo. Falha ao gravar propaga: quem chama não pode dar
+ * a transação como sincronizada sem o id guardado.
+ */
+async function persistSyncResult(
+  transaction: Transaction,
+  destination: SyncDestination,
+  outcome: SyncOutcome
 ): Promise<void> {
-  try {
-    if (clientId) {
-      const updates: Record<string, any> = {
-        status: TransactionStatus.CONCILIADO,
-      };
-      if (destination === 'nibo') updates.niboId = externalId;
-      if (destination === 'omie') updates.omieId = externalId;
+  const sincronizada = !outcome.falha && outcome.action !== 'skipped';
+
+  const updates: Partial<Transaction> = {
+    metadata: {
+      ...(transaction.metadata || {}),
+      sync: {
+        destino: destination,
+        action: outcome.action,
+        externalId: outcome.externalId,
+        erro: outcome.falha || outcome.error,
+        tentativas: outcome.tentativas,
+        em: nowISO(),
+      },
+    },
+  };
 
-      await updateTransaction(clientId, transactionId, updates);
+  if (sincronizada) {
+    updates.status = TransactionStatus.CONCILIADO;
+    if (outcome.externalId) updates[EXTERNAL_ID_FIELDS[destination]] = outcome.externalId;
+  }
 
+  await updateTransaction(transaction.clientId, transaction.id, updates);
+
+  if (sincronizada) {
+    logger.info('Updated transaction external ID', { transactionId: transaction.id, destination, externalId: outcome.externalId });
+
+    try {
       await addHistoryAction({
-        id: `hist-sync-${transactionId}`,
-        clientId,
+        id: `hist-sync-${transaction.id}`,
+        clientId: transaction.clientId,
         tipo: 'sync',
-        descricao: `Transação sincronizada para ${destination}: ${externalId}`,
+        descricao: `Transação sincronizada para ${destination}: ${outcome.externalId || outcome.action}`,
         data: nowISO(),
-        detalhes: { transactionId, destination, externalId },
+        detalhes: { transactionId: transaction.id, destination, externalId: outcome.externalId, action: outcome.action },
       });
+    } catch (error) {
+      logger.error('Failed to record sync history', error);
     }
-    logger.info('Updated transaction external ID', { transactionId, destination, externalId });
-  } catch (error) {
-    logger.error('Failed to update transaction external ID', error);
   }
 }
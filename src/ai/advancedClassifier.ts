@@ -4,6 +4,12 @@ import { getOpenAIClient, ADVANCED_MODEL } from './openaiClient';
 import { LearningLoop, FeedbackRecord as LearningFeedbackRecord } from '../learning/learningLoop';
 import { getTransactionHistory } from '../storage/tableClient';
 
+/** Limites das regras de negócio pós-IA (sobrescrevíveis em simulações) */
+export interface AdvancedClassifierOptions {
+    valorRevisaoHumana?: number; // Acima disso a confiança é limitada (default: 10000)
+    confiancaMaximaValorAlto?: number; // Teto de confiança para valor alto (default: 0.79)
+}
+
 /**
  * Classificador Avançado (80/20 System)
  *
@@ -17,7 +23,8 @@ export class AdvancedClassifier {
 
     constructor(
         apiKey: string,
-        private readonly organizationId?: string
+        private readonly organizationId?: string,
+        private readonly options: AdvancedClassifierOptions = {}
     ) {
         if (!apiKey) throw new Error('OpenAI API Key is required');
         this.openai = getOpenAIClient(apiKey);
@@ -199,18 +206,22 @@ export class AdvancedClassifier {
     }
 
     /**
-     * Aplica regras de negócio determinísticas sobre a previsão da IA
+     * Aplica regras de negócio determinísticas sobre a previsão da IA.
+     * Público para permitir replay sobre classificações já persistidas.
      */
-    private applyBusinessRules(
+    applyBusinessRules(
         transaction: Transaction,
         result: ClassificationResult
     ): ClassificationResult {
+        const valorRevisao = this.options.valorRevisaoHumana ?? 10000;
+        const confiancaMaxima = this.options.confiancaMaximaValorAlto ?? 0.79;
+
         // Regra 1: Valor alto requer revisão humana
-        if (Math.abs(transaction.valor) > 10000) {
+        if (Math.abs(transaction.valor) > valorRevisao) {
             return {
                 ...result,
-                confianca: Math.min(result.confianca, 0.79), // Força < 80%
-                explicacao: result.explicacao + ' [ALERT: Valor alto (> 10k) requer revisão humana]'
+                confianca: Math.min(result.confianca, confiancaMaxima), // Força < 80%
+                explicacao: result.explicacao + ` [ALERT: Valor alto (> ${valorRevisao}) requer revisão humana]`
             };
         }
 
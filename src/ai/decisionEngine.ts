@@ -3,22 +3,167 @@ import {
     ClassificationResult,
     Anomaly,
     MatchResult,
-    Decision
+    Decision,
+    DecisionRule,
+    DecisionRuleCondition,
+    DecisionRuleField
 } from '../../shared/types';
 
+// Limites padrão (usados quando o cliente não tem regras próprias)
+const DEFAULT_CONFIDENCE_THRESHOLD_AUTO = 0.85;
+const DEFAULT_VALOR_ESCALACAO = 50000;
+
+/**
+ * Regras padrão, equivalentes ao comportamento histórico do motor.
+ * Um cliente sem conjunto de regras salvo é avaliado com estas.
+ */
+export const DEFAULT_DECISION_RULES: DecisionRule[] = [
+    {
+        id: 'ANOMALIA_CRITICA_DETECTADA',
+        descricao: 'Anomalias críticas ou altas sempre escalam',
+        prioridade: 10,
+        ativo: true,
+        condicoes: [{ campo: 'anomalia_severidade', operador: 'in', valor: ['critica', 'alta'] }],
+        acao: 'escalar',
+        requisitoHumano: true,
+        confianca: 0.0,
+        razao: 'Anomalia crítica detectada: {anomalia}',
+    },
+    {
+        id: 'VALOR_MUITO_ALTO',
+        descricao: 'Valores acima do limite exigem aprovação executiva',
+        prioridade: 20,
+        ativo: true,
+        condicoes: [{ campo: 'valor', operador: 'gt', valor: DEFAULT_VALOR_ESCALACAO }],
+        acao: 'escalar',
+        requisitoHumano: true,
+        confianca: 1.0,
+        razao: 'Valor superior a R$ 50.000 requer aprovação executiva',
+    },
+    {
+        id: 'MATCH_CONFIRMADO',
+        descricao: 'Conciliação exata ou com confiança > 95%',
+        prioridade: 30,
+        ativo: true,
+        combinacao: 'qualquer',
+        condicoes: [
+            { campo: 'match_tipo', operador: 'eq', valor: 'exato' },
+            { campo: 'match_confianca', operador: 'gt', valor: 0.95 },
+        ],
+        acao: 'sync_auto',
+        requisitoHumano: false,
+        confianca: 1.0,
+        razao: 'Conciliação confirmada com alta precisão',
+    },
+    {
+        id: 'PAGAMENTO_SEM_PREVISAO',
+        descricao: 'Pagamento realizado sem previsto correspondente',
+        prioridade: 40,
+        ativo: true,
+        condicoes: [
+            { campo: 'match_tipo', operador: 'eq', valor: 'sem_match' },
+            { campo: 'tipo', operador: 'eq', valor: 'pagar' },
+        ],
+        acao: 'aguardar',
+        requisitoHumano: true,
+        confianca: 0.5,
+        razao: 'Pagamento realizado sem previsão correspondente',
+    },
+    {
+        id: 'CLASSIFICACAO_ALTA_CONFIANCA',
+        prioridade: 50,
+        ativo: true,
+        condicoes: [{ campo: 'confianca', operador: 'gte', valor: DEFAULT_CONFIDENCE_THRESHOLD_AUTO }],
+        acao: 'categorizar_auto',
+        requisitoHumano: false,
+        confianca: 'classificacao',
+        razao: 'Classificação automática com {confianca}% de confiança',
+    },
+    {
+        id: 'CLASSIFICACAO_BAIXA_CONFIANCA',
+        descricao: 'Fallback: nenhuma regra anterior disparou',
+        prioridade: 1000,
+        ativo: true,
+        condicoes: [],
+        acao: 'escalar',
+        requisitoHumano: true,
+        confianca: 'classificacao',
+        razao: 'Baixa confiança na classificação automática',
+    },
+];
+
+const RULE_FIELDS: DecisionRuleField[] = [
+    'valor', 'tipo', 'source', 'contraparte', 'categoria',
+    'confianca', 'anomalia_severidade', 'match_tipo', 'match_confianca',
+];
+const RULE_OPERATORS: DecisionRuleCondition['operador'][] = [
+    'eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'in', 'nin', 'contains',
+];
+const RULE_ACTIONS: Decision['acao'][] = [
+    'aprovar', 'rejeitar', 'escalar', 'aguardar', 'categorizar_auto', 'sync_auto',
+];
+
+/**
+ * Valida um conjunto de regras antes de persistir.
+ * Retorna a lista de erros (vazia = válido).
+ */
+export function validateDecisionRules(regras: DecisionRule[]): string[] {
+    const errors: string[] = [];
+
+    if (!Array.isArray(regras) || regras.length === 0) {
+        return ['regras deve ser uma lista não vazia'];
+    }
+
+    const ids = new Set<string>();
+
+    regras.forEach((regra, i) => {
+        const ref = regra?.id || `#${i}`;
+
+        if (!regra?.id) errors.push(`Regra ${ref}: id é obrigatório`);
+        else if (ids.has(regra.id)) errors.push(`Regra ${ref}: id duplicado`);
+        else ids.add(regra.id);
+
+        if (typeof regra?.prioridade !== 'number') errors.push(`Regra ${ref}: prioridade deve ser numérica`);
+        if (!RULE_ACTIONS.includes(regra?.acao)) errors.push(`Regra ${ref}: acao inválida (${regra?.acao})`);
+        if (!regra?.razao) errors.push(`Regra ${ref}: razao é obrigatória`);
+        if (!Array.isArray(regra?.condicoes)) {
+            errors.push(`Regra ${ref}: condicoes deve ser uma lista`);
+            return;
+        }
+
+        regra.condicoes.forEach((c, j) => {
+            if (!RULE_FIELDS.includes(c?.campo)) errors.push(`Regra ${ref}: condição ${j} com campo inválido (${c?.campo})`);
+            if (!RULE_OPERATORS.includes(c?.operador)) errors.push(`Regra ${ref}: condição ${j} com operador inválido (${c?.operador})`);
+            if ((c?.operador === 'in' || c?.operador === 'nin') && !Array.isArray(c.valor)) {
+                errors.push(`Regra ${ref}: condição ${j} com operador ${c.operador} exige lista`);
+            }
+        });
+    });
+
+    return errors;
+}
+
 /**
  * Motor de Decisão (80/20 System)
- * 
+ *
  * Orquestra a decisão final para cada transação baseado em:
  * 1. Classificação (Confiança)
  * 2. Anomalias (Risco)
  * 3. Matching (Conciliação)
+ *
+ * As regras são declarativas e avaliadas por prioridade; a primeira que
+ * dispara define a decisão. Cada tenant pode ter o seu próprio conjunto
+ * (ver DecisionRuleSet), senão vale DEFAULT_DECISION_RULES.
  */
 export class DecisionEngine {
 
-    // Limites configuráveis
-    private readonly CONFIDENCE_THRESHOLD_AUTO = 0.85;
-    private readonly ANOMALY_SCORE_THRESHOLD = 0.5;
+    private readonly rules: DecisionRule[];
+
+    constructor(rules: DecisionRule[] = DEFAULT_DECISION_RULES) {
+        this.rules = rules
+            .filter(r => r.ativo !== false)
+            .sort((a, b) => a.prioridade - b.prioridade);
+    }
 
     /**
      * Toma uma decisão sobre o que fazer com a transação
@@ -29,76 +174,118 @@ export class DecisionEngine {
         anomalies: Anomaly[],
         match?: MatchResult
     ): Decision {
-        const regrasAplicadas: string[] = [];
+        for (const rule of this.rules) {
+            const evaluation = this.evaluateRule(rule, transaction, classification, anomalies, match);
+            if (!evaluation.fired) continue;
 
-        // 1. Prioridade: Anomalias Críticas -> Escalar
-        const criticalAnomaly = anomalies.find(a => a.severidade === 'critica' || a.severidade === 'alta');
-        if (criticalAnomaly) {
-            regrasAplicadas.push('ANOMALIA_CRITICA_DETECTADA');
             return {
-                acao: 'escalar',
-                confianca: 0.0,
-                razao: `Anomalia crítica detectada: ${criticalAnomaly.descricao}`,
-                requisitoHumano: true,
-                regrasAplicadas
+                acao: rule.acao,
+                confianca: this.resolveConfidence(rule, classification, match),
+                razao: this.formatReason(rule.razao, transaction, classification, evaluation.anomaly),
+                requisitoHumano: rule.requisitoHumano,
+                regrasAplicadas: [rule.id]
             };
         }
 
-        // 2. Prioridade: Regras de Negócio Específicas
-        if (transaction.valor > 50000) {
-            regrasAplicadas.push('VALOR_MUITO_ALTO');
-            return {
-                acao: 'escalar',
-                confianca: 1.0,
-                razao: 'Valor superior a R$ 50.000 requer aprovação executiva',
-                requisitoHumano: true,
-                regrasAplicadas
-            };
-        }
+        // Conjunto customizado sem regra de fallback
+        return {
+            acao: 'escalar',
+            confianca: classification.confianca,
+            razao: 'Nenhuma regra aplicável à transação',
+            requisitoHumano: true,
+            regrasAplicadas: ['SEM_REGRA_APLICAVEL']
+        };
+    }
 
-        // 3. Prioridade: Matching
-        if (match) {
-            if (match.tipo === 'exato' || match.confianca > 0.95) {
-                regrasAplicadas.push('MATCH_CONFIRMADO');
-                return {
-                    acao: 'sync_auto',
-                    confianca: 1.0,
-                    razao: 'Conciliação confirmada com alta precisão',
-                    requisitoHumano: false,
-                    regrasAplicadas
-                };
-            } else if (match.tipo === 'sem_match' && transaction.type === 'pagar') {
-                // Pagamento sem match previsto -> Alerta
-                regrasAplicadas.push('PAGAMENTO_SEM_PREVISAO');
-                return {
-                    acao: 'aguardar',
-                    confianca: 0.5,
-                    razao: 'Pagamento realizado sem previsão correspondente',
-                    requisitoHumano: true,
-                    regrasAplicadas
-                };
+    private evaluateRule(
+        rule: DecisionRule,
+        transaction: Transaction,
+        classification: ClassificationResult,
+        anomalies: Anomaly[],
+        match?: MatchResult
+    ): { fired: boolean; anomaly?: Anomaly } {
+        if (rule.condicoes.length === 0) return { fired: true };
+
+        let anomaly: Anomaly | undefined;
+        const results = rule.condicoes.map(condition => {
+            if (condition.campo === 'anomalia_severidade') {
+                const found = anomalies.find(a => this.compare(a.severidade, condition));
+                if (found && !anomaly) anomaly = found;
+                return condition.operador === 'neq' || condition.operador === 'nin'
+                    ? anomalies.every(a => this.compare(a.severidade, condition))
+                    : !!found;
             }
+            return this.compare(this.resolveField(condition.campo, transaction, classification, match), condition);
+        });
+
+        const fired = rule.combinacao === 'qualquer'
+            ? results.some(Boolean)
+            : results.every(Boolean);
+
+        return { fired, anomaly };
+    }
+
+    private resolveField(
+        campo: DecisionRuleField,
+        transaction: Transaction,
+        classification: ClassificationResult,
+        match?: MatchResult
+    ): string | number | undefined {
+        switch (campo) {
+            case 'valor': return transaction.valor;
+            case 'tipo': return transaction.type;
+            case 'source': return transaction.source;
+            case 'contraparte': return transaction.contraparte;
+            case 'categoria': return classification.categoria || transaction.categoriaNome;
+            case 'confianca': return classification.confianca;
+            case 'match_tipo': return match?.tipo;
+            case 'match_confianca': return match?.confianca;
+            default: return undefined;
         }
+    }
 
-        // 4. Prioridade: Classificação
-        if (classification.confianca >= this.CONFIDENCE_THRESHOLD_AUTO) {
-            regrasAplicadas.push('CLASSIFICACAO_ALTA_CONFIANCA');
-            return {
-                acao: 'categorizar_auto',
-                confianca: classification.confianca,
-                razao: `Classificação automática com ${Math.round(classification.confianca * 100)}% de confiança`,
-                requisitoHumano: false,
-                regrasAplicadas
-            };
-        } else {
-            regrasAplicadas.push('CLASSIFICACAO_BAIXA_CONFIANCA');
-            return {
-                acao: 'escalar',
-                confianca: classification.confianca,
-                razao: 'Baixa confiança na classificação automática',
-                requisitoHumano: true,
-                regrasAplicadas
-            };
+    private compare(actual: string | number | undefined, condition: DecisionRuleCondition): boolean {
+        const { operador, valor } = condition;
+
+        // Campo ausente (ex: sem match) só satisfaz negações
+        if (actual === undefined || actual === null) {
+            return operador === 'neq' || operador === 'nin';
         }
+
+        switch (operador) {
+            case 'eq': return this.normalize(actual) === this.normalize(valor as string | number);
+            case 'neq': return this.normalize(actual) !== this.normalize(valor as string | number);
+            case 'gt': return Number(actual) > Number(valor);
+            case 'gte': return Number(actual) >= Number(valor);
+            case 'lt': return Number(actual) < Number(valor);
+            case 'lte': return Number(actual) <= Number(valor);
+            case 'in': return (valor as Array<string | number>).map(v => this.normalize(v)).includes(this.normalize(actual));
+            case 'nin': return !(valor as Array<string | number>).map(v => this.normalize(v)).includes(this.normalize(actual));
+            case 'contains': return String(this.normalize(actual)).includes(String(this.normalize(valor as string)));
+            default: return false;
+        }
+    }
+
+    private normalize(value: string | number): string | number {
+        if (typeof value === 'number') return value;
+        return value.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim();
+    }
+
+    private resolveConfidence(rule: DecisionRule, classification: ClassificationResult, match?: MatchResult): number {
+        if (typeof rule.confianca === 'number') return rule.confianca;
+        if (rule.confianca === 'match') return match?.confianca ?? 0;
+        return classification.confianca;
+    }
+
+    private formatReason(
+        template: string,
+        transaction: Transaction,
+        classification: ClassificationResult,
+        anomaly?: Anomaly
+    ): string {
+        return template
+            .replace('{anomalia}', anomaly?.descricao || '')
+            .replace('{confianca}', String(Math.round(classification.confianca * 100)))
+            .replace('{valor}', transaction.valor.toFixed(2));
     }
 }
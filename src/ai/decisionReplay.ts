@@ -0,0 +1,178 @@
+import {
+    Transaction,
+    ClassificationResult,
+    Decision
+} from '../../shared/types';
+import type { AdvancedClassifier } from './advancedClassifier';
+import { AnomalyDetector } from './anomalyDetector';
+import { SmartMatcher } from './smartMatcher';
+import { DecisionEngine } from './decisionEngine';
+
+/** Configuração de um lado do replay (atual ou candidata) */
+export interface ReplaySide {
+    engine: DecisionEngine;
+    classifier?: AdvancedClassifier; // Sem classifier: usa a classificação persistida
+}
+
+export type ReplayFlip = 'auto_para_escalar' | 'escalar_para_auto' | 'outra';
+
+export interface ReplayItem {
+    transactionId: string;
+    descricao: string;
+    valor: number;
+    atual: { acao: Decision['acao']; regras: string[]; confianca: number };
+    candidata: { acao: Decision['acao']; regras: string[]; confianca: number };
+    flip?: ReplayFlip;
+}
+
+export interface ReplayReport {
+    total: number;
+    alteradas: number;
+    flips: {
+        autoParaEscalar: number;
+        escalarParaAuto: number;
+        outras: number;
+    };
+    taxaAutomacao: {
+        atual: number;
+        candidata: number;
+        delta: number;
+    };
+    porAcao: {
+        atual: Record<string, number>;
+        candidata: Record<string, number>;
+    };
+    itens: ReplayItem[];
+}
+
+const ACOES_AUTOMATICAS: Decision['acao'][] = ['categorizar_auto', 'sync_auto'];
+
+/** Mesma janela de histórico que o pipeline carrega (getTransactionHistory) */
+const HISTORICO_PIPELINE = 100;
+
+/**
+ * Reconstrói a classificação a partir do que foi persistido na transação
+ * (categoriaNome/categoriaConfianca gravados pelo pipeline IA).
+ */
+export function classificationFromTransaction(tx: Transaction): ClassificationResult {
+    return {
+        categoria: tx.categoriaNome || '',
+        tipoDespesa: 'variavel',
+        recorrencia: 'unica',
+        confianca: tx.categoriaConfianca ?? 0,
+        alternativas: [],
+        explicacao: 'Classificação persistida',
+    };
+}
+
+/**
+ * Histórico que o pipeline via ao processar a transação: as mais recentes
+ * criadas até ela, sem ela mesma.
+ */
+export function historicoNaEpoca(tx: Transaction, history: Transaction[]): Transaction[] {
+    const criacao = new Date(tx.createdAt).getTime();
+
+    return history
+        .filter(h => h.id !== tx.id && new Date(h.createdAt).getTime() <= criacao)
+        .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+        .slice(0, HISTORICO_PIPELINE);
+}
+
+/**
+ * Replay de Decisões (What-if)
+ *
+ * Reexecuta o pipeline (anomalias → matching → decisão) sobre transações
+ * históricas com a configuração atual e uma candidata, sem persistir nada,
+ * e compara as decisões resultantes.
+ */
+export class DecisionReplayer {
+
+    private readonly anomalyDetector = new AnomalyDetector();
+    private readonly matcher = new SmartMatcher();
+
+    constructor(
+        private readonly atual: ReplaySide,
+        private readonly candidata: ReplaySide,
+        private readonly reclassificar: boolean = false
+    ) { }
+
+    async replay(transactions: Transaction[], history: Transaction[]): Promise<ReplayReport> {
+        const itens: ReplayItem[] = [];
+
+        for (const tx of transactions) {
+            const contexto = historicoNaEpoca(tx, history);
+
+            const anomalies = await this.anomalyDetector.detect([tx], contexto);
+            const match = await this.matcher.matchTransaction(tx, contexto);
+
+            const antes = this.atual.engine.decide(tx, await this.classify(this.atual, tx), anomalies, match);
+            const depois = this.candidata.engine.decide(tx, await this.classify(this.candidata, tx), anomalies, match);
+
+            itens.push({
+                transactionId: tx.id,
+                descricao: tx.descricao,
+                valor: tx.valor,
+                atual: { acao: antes.acao, regras: antes.regrasAplicadas, confianca: antes.confianca },
+                candidata: { acao: depois.acao, regras: depois.regrasAplicadas, confianca: depois.confianca },
+                flip: this.detectFlip(antes.acao, depois.acao),
+            });
+        }
+
+        const automacaoAtual = this.automationRate(itens.map(i => i.atual.acao));
+        const automacaoCandidata = this.automationRate(itens.map(i => i.candidata.acao));
+
+        return {
+            total: itens.length,
+            alteradas: itens.filter(i => i.flip).length,
+            flips: {
+                autoParaEscalar: itens.filter(i => i.flip === 'auto_para_escalar').length,
+                escalarParaAuto: itens.filter(i => i.flip === 'escalar_para_auto').length,
+                outras: itens.filter(i => i.flip === 'outra').length,
+            },
+            taxaAutomacao: {
+                atual: automacaoAtual,
+                candidata: automacaoCandidata,
+                delta: Math.round((automacaoCandidata - automacaoAtual) * 10000) / 10000,
+            },
+            porAcao: {
+                atual: this.countByAction(itens.map(i => i.atual.acao)),
+                candidata: this.countByAction(itens.map(i => i.candidata.acao)),
+            },
+            itens,
+        };
+    }
+
+    private async classify(side: ReplaySide, tx: Transaction): Promise<ClassificationResult> {
+        const persisted = classificationFromTransaction(tx);
+        if (!side.classifier) return persisted;
+
+        // Reclassificar chama o LLM; sem isso só as regras de negócio são reaplicadas
+        return this.reclassificar
+            ? side.classifier.classify(tx)
+            : side.classifier.applyBusinessRules(tx, persisted);
+    }
+
+    private detectFlip(antes: Decision['acao'], depois: Decision['acao']): ReplayFlip | undefined {
+        if (antes === depois) return undefined;
+
+        const eraAuto = ACOES_AUTOMATICAS.includes(antes);
+        const ficouAuto = ACOES_AUTOMATICAS.includes(depois);
+
+        if (eraAuto && depois === 'escalar') return 'auto_para_escalar';
+        if (antes === 'escalar' && ficouAuto) return 'escalar_para_auto';
+        return 'outra';
+    }
+
+    private automationRate(acoes: Decision['acao'][]): number {
+        if (acoes.length === 0) return 0;
+        const auto = acoes.filter(a => ACOES_AUTOMATICAS.includes(a)).length;
+        return Math.round((auto / acoes.length) * 10000) / 10000;
+    }
+
+    private countByAction(acoes: Decision['acao'][]): Record<string, number> {
+        return acoes.reduce<Record<string, number>>((acc, acao) => {
+            acc[acao] = (acc[acao] || 0) + 1;
+            return acc;
+        }, {});
+    }
+}
@@ -1,10 +1,16 @@
 import { Transaction, MatchResult } from '../../shared/types';
 
+type Divergencia = NonNullable<MatchResult['divergencias']>[number];
+
 /**
  * Conciliador Inteligente (80/20 System)
  * 
  * Realiza o matching entre previstos (ERP) e realizados (Banco).
- * Suporta fuzzy matching de datas, valores e descrições.
+ * Suporta fuzzy matching de datas, valores e descrições, além de
+ * combinações por soma de subconjunto:
+ * - agrupamento: N previstos liquidados por 1 realizado (ex: um débito pagando vários boletos);
+ *   gera um resultado por previsto, todos com o mesmo realizado e metadados do grupo
+ * - split: 1 previsto liquidado por N realizados (ex: recebível pago em parcelas)
  */
 export class SmartMatcher {
 
@@ -12,6 +18,10 @@ export class SmartMatcher {
     private readonly DATE_TOLERANCE_DAYS = 3;
     private readonly VALUE_TOLERANCE_PERCENT = 0.02; // 2% para diferenças de juros/multa
 
+    // Limites da busca combinatória (subset-sum)
+    private readonly MAX_COMBINATION_SIZE = 6;
+    private readonly MAX_COMBINATION_CANDIDATES = 20;
+
     /**
      * Tenta encontrar matches para uma lista de previstos contra realizados
      */
@@ -21,6 +31,7 @@ export class SmartMatcher {
     ): Promise<MatchResult[]> {
         const results: MatchResult[] = [];
         const matchedRealizados = new Set<string>();
+        const pendentes: Transaction[] = [];
 
         for (const previsto of previstos) {
             // 1. Tenta Match Exato (ID ou Nosso Número)
@@ -41,7 +52,39 @@ export class SmartMatcher {
                 continue;
             }
 
-            // 3. Sem match
+            pendentes.push(previsto);
+        }
+
+        // 3. Agrupamento (N previstos → 1 realizado)
+        const matchedPrevistos = new Set<string>();
+
+        for (const realizado of realizados) {
+            if (matchedRealizados.has(realizado.id)) continue;
+
+            const livres = pendentes.filter(p => !matchedPrevistos.has(p.id));
+            const grupo = this.findAgrupamento(realizado, livres);
+
+            if (grupo) {
+                results.push(...grupo.results);
+                matchedRealizados.add(realizado.id);
+                grupo.componentes.forEach(p => matchedPrevistos.add(p.id));
+            }
+        }
+
+        for (const previsto of pendentes) {
+            if (matchedPrevistos.has(previsto.id)) continue;
+
+            // 4. Split (1 previsto → N realizados)
+            const livres = realizados.filter(r => !matchedRealizados.has(r.id));
+            const split = this.findSplit(previsto, livres);
+
+            if (split) {
+                results.push(split.result);
+                split.componentes.forEach(r => matchedRealizados.add(r.id));
+                continue;
+            }
+
+            // 5. Sem match
             results.push({
                 previstoId: previsto.id,
                 confianca: 0.0,
@@ -52,6 +95,15 @@ export class SmartMatcher {
         return results;
     }
 
+    /**
+     * Match usado na decisão: a transação como previsto contra o histórico
+     * (sem ela mesma). Pipeline e replay passam por aqui para decidir igual.
+     */
+    async matchTransaction(tx: Transaction, history: Transaction[]): Promise<MatchResult | undefined> {
+        const matches = await this.match([tx], history.filter(h => h.id !== tx.id));
+        return matches.find(m => m.previstoId === tx.id);
+    }
+
     private findExactMatch(
         previsto: Transaction,
         realizados: Transaction[],
@@ -110,6 +162,203 @@ export class SmartMatcher {
         return null;
     }
 
+    private findAgrupamento(
+        realizado: Transaction,
+        previstos: Transaction[]
+    ): { results: MatchResult[]; componentes: Transaction[] } | null {
+        const candidatos = this.rankByDate(
+            previstos.filter(p =>
+                this.sameSign(p.valor, realizado.valor) &&
+                this.withinDateWindow(p.dataVencimento, realizado.dataRealizacao)
+            ),
+            p => p.dataVencimento,
+            realizado.dataRealizacao
+        );
+
+        const componentes = this.findSubsetSum(realizado.valor, candidatos);
+        if (!componentes) return null;
+
+        const totalPrevisto = this.sumValues(componentes);
+        const divergencias: Divergencia[] = [];
+
+        for (const previsto of componentes) {
+            divergencias.push(...this.calculateDivergences(previsto, realizado, previsto.id));
+        }
+        divergencias.push(...this.calculateResidualDivergence(totalPrevisto, realizado.valor));
+
+        const confianca = this.calculateGroupScore(totalPrevisto, realizado.valor, divergencias);
+        const metadados = {
+            previstoIds: componentes.map(p => p.id),
+            realizadoIds: [realizado.id],
+            valorPrevisto: totalPrevisto,
+            valorRealizado: realizado.valor,
+            diferencaResidual: this.round(realizado.valor - totalPrevisto),
+        };
+
+        return {
+            componentes,
+            results: componentes.map(previsto => ({
+                previstoId: previsto.id,
+                realizadoId: realizado.id,
+                confianca,
+                tipo: 'agrupamento' as const,
+                divergencias,
+                metadados,
+            })),
+        };
+    }
+
+    private findSplit(
+        previsto: Transaction,
+        realizados: Transaction[]
+    ): { result: MatchResult; componentes: Transaction[] } | null {
+        const candidatos = this.rankByDate(
+            realizados.filter(r =>
+                this.sameSign(previsto.valor, r.valor) &&
+                this.withinDateWindow(previsto.dataVencimento, r.dataRealizacao)
+            ),
+            r => r.dataRealizacao,
+            previsto.dataVencimento
+        );
+
+        const componentes = this.findSubsetSum(previsto.valor, candidatos);
+        if (!componentes) return null;
+
+        const totalRealizado = this.sumValues(componentes);
+        const divergencias: Divergencia[] = [];
+
+        for (const realizado of componentes) {
+            divergencias.push(...this.calculateDivergences(previsto, realizado, realizado.id));
+        }
+        divergencias.push(...this.calculateResidualDivergence(previsto.valor, totalRealizado));
+
+        return {
+            componentes,
+            result: {
+                previstoId: previsto.id,
+                realizadoId: componentes[0].id,
+                confianca: this.calculateGroupScore(previsto.valor, totalRealizado, divergencias),
+                tipo: 'split',
+                divergencias,
+                metadados: {
+                    previstoIds: [previsto.id],
+                    realizadoIds: componentes.map(r => r.id),
+                    valorPrevisto: previsto.valor,
+                    valorRealizado: totalRealizado,
+                    diferencaResidual: this.round(totalRealizado - previsto.valor),
+                },
+            },
+        };
+    }
+
+    /**
+     * Busca o subconjunto (>= 2 itens) cuja soma mais se aproxima do alvo
+     * dentro da tolerância de valor. Em empate de resíduo, prefere menos itens.
+     * Trabalha em centavos para evitar erro de ponto flutuante. Candidatos
+     * chegam ranqueados (mais próximos na data primeiro): o corte em
+     * MAX_COMBINATION_CANDIDATES só acontece depois de descartar os que não cabem no alvo.
+     */
+    private findSubsetSum(target: number, candidatos: Transaction[]): Transaction[] | null {
+        if (candidatos.length < 2) return null;
+
+        const alvo = Math.round(Math.abs(target) * 100);
+        const tolerancia = Math.round(alvo * this.VALUE_TOLERANCE_PERCENT);
+
+        const itens = candidatos
+            .map(tx => ({ tx, cents: Math.round(Math.abs(tx.valor) * 100) }))
+            .filter(i => i.cents > 0 && i.cents <= alvo + tolerancia)
+            .slice(0, this.MAX_COMBINATION_CANDIDATES)
+            .sort((a, b) => b.cents - a.cents);
+
+        let melhor: { indices: number[]; residuo: number } | null = null;
+        const atual: number[] = [];
+
+        const buscar = (inicio: number, soma: number): void => {
+            if (atual.length >= 2) {
+                const residuo = Math.abs(alvo - soma);
+                if (residuo <= tolerancia && (
+                    !melhor ||
+                    residuo < melhor.residuo ||
+                    (residuo === melhor.residuo && atual.length < melhor.indices.length)
+                )) {
+                    melhor = { indices: [...atual], residuo };
+                }
+            }
+
+            if (melhor?.residuo === 0 && atual.length >= melhor.indices.length) return;
+            if (atual.length >= this.MAX_COMBINATION_SIZE) return;
+
+            for (let i = inicio; i < itens.length; i++) {
+                const novaSoma = soma + itens[i].cents;
+                if (novaSoma > alvo + tolerancia) continue;
+
+                atual.push(i);
+                buscar(i + 1, novaSoma);
+                atual.pop();
+            }
+        };
+
+        buscar(0, 0);
+
+        const encontrado = melhor as { indices: number[]; residuo: number } | null;
+        return encontrado ? encontrado.indices.map(i => itens[i].tx) : null;
+    }
+
+    private calculateGroupScore(esperado: number, encontrado: number, divergencias: Divergencia[]): number {
+        let score = 0;
+
+        // 1. Valor agregado (Peso 60%)
+        if (Math.abs(esperado - encontrado) < 0.01) score += 0.6;
+        else score += 0.5;
+
+        // 2. Datas dos componentes (Peso 40%) - janela já garantida na seleção
+        const divergenciasData = divergencias.filter(d => d.campo === 'data');
+        score += divergenciasData.length === 0 ? 0.4 : 0.3;
+
+        return Math.min(score, 1.0);
+    }
+
+    private calculateResidualDivergence(esperado: number, encontrado: number): Divergencia[] {
+        if (Math.abs(esperado - encontrado) <= 0.01) return [];
+
+        return [{
+            campo: 'valor',
+            esperado: this.round(esperado),
+            encontrado: this.round(encontrado)
+        }];
+    }
+
+    /** Ordena pela distância em dias até a data de referência (estável em empates) */
+    private rankByDate(txs: Transaction[], data: (tx: Transaction) => string | undefined, referencia?: string): Transaction[] {
+        const ref = new Date(referencia || '').getTime();
+        const distancia = (tx: Transaction) => Math.abs(new Date(data(tx) || '').getTime() - ref);
+
+        return [...txs].sort((a, b) => distancia(a) - distancia(b));
+    }
+
+    private withinDateWindow(previsto?: string, realizado?: string): boolean {
+        if (!previsto || !realizado) return false;
+
+        const pDate = new Date(previsto).getTime();
+        const rDate = new Date(realizado).getTime();
+        if (isNaN(pDate) || isNaN(rDate)) return false;
+
+        const dayDiff = Math.abs(pDate - rDate) / (1000 * 60 * 60 * 24);
+        return dayDiff <= this.DATE_TOLERANCE_DAYS;
+    }
+
+    private sameSign(a: number, b: number): boolean {
+        return Math.sign(a) === Math.sign(b);
+    }
+
+    private sumValues(txs: Transaction[]): number {
+        return this.round(txs.reduce((acc, tx) => acc + tx.valor, 0));
+    }
+
+    private round(value: number): number {
+        return Math.round(value * 100) / 100;
+    }
+
     private calculateMatchScore(p: Transaction, r: Transaction): number {
         let score = 0;
 
@@ -147,10 +396,15 @@ export class SmartMatcher {
         return Math.min(score, 1.0);
     }
 
-    private calculateDivergences(p: Transaction, r: Transaction): any[] {
-        const divergences = [];
+    /**
+     * Divergências entre previsto e realizado. Com `componenteId` (split/agrupamento)
+     * o valor é conciliado no total do grupo, então só a data é comparada
+     * e a divergência é marcada com o componente.
+     */
+    private calculateDivergences(p: Transaction, r: Transaction, componenteId?: string): Divergencia[] {
+        const divergences: Divergencia[] = [];
 
-        if (Math.abs(p.valor - r.valor) > 0.01) {
+        if (!componenteId && Math.abs(p.valor - r.valor) > 0.01) {
             divergences.push({
                 campo: 'valor',
                 esperado: p.valor,
@@ -158,14 +412,18 @@ export class SmartMatcher {
             });
         }
 
-        const pDate = new Date(p.dataVencimento || '').toISOString().split('T')[0];
-        const rDate = new Date(r.dataRealizacao || '').toISOString().split('T')[0];
+        // Sem uma das datas (ex: extrato casado como previsto) não há o que comparar
+        if (!p.dataVencimento || !r.dataRealizacao) return divergences;
+
+        const pDate = new Date(p.dataVencimento).toISOString().split('T')[0];
+        const rDate = new Date(r.dataRealizacao).toISOString().split('T')[0];
 
         if (pDate !== rDate) {
             divergences.push({
                 campo: 'data',
                 esperado: pDate,
-                encontrado: rDate
+                encontrado: rDate,
+                ...(componenteId ? { componenteId } : {})
             });
         }
 
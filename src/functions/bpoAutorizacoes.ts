@@ -2,8 +2,24 @@
  * BPO Autorizações - operacao-head
  *
  * GET  /api/bpo/autorizacoes
- * POST /api/bpo/autorizacoes/{id}/aprovar
+ * POST /api/bpo/autorizacoes/{id}/aprovar    - Registra voto do usuário autenticado (body: notas)
  * POST /api/bpo/autorizacoes/{id}/rejeitar
+ * GET  /api/bpo/autorizacoes/{id}/pagamento  - Estado da execução do pagamento
+ * POST /api/bpo/autorizacoes/{id}/pagamento  - (Re)dispara a execução via API bancária
+ *
+ * Leitura: todos os papéis (só clientes atribuídos); aprovar, rejeitar e
+ * executar pagamento: supervisor/admin. O votante é o usuário do token.
+ *
+ * A aprovação segue a política do cliente (ClientConfig.politicaAprovacao):
+ * o status só vira 'aprovado' quando o número de votos da faixa de valor
+ * é atingido, e quem preparou o lançamento não vota.
+ *
+ * Pagamentos aprovados de clientes com banco via API (Santander/Inter)
+ * são executados pelo paymentExecutionOrchestrator; os demais seguem
+ * para remessa CNAB.
+ *
+ * Voto e rejeição ficam em infra/authorizationService (também usado pelas
+ * respostas do cliente no WhatsApp).
  */
 
 import {
@@ -12,13 +28,16 @@ import {
   HttpResponseInit,
   InvocationContext,
 } from '@azure/functions';
+import * as df from 'durable-functions';
 import {
   getPendingAuthorizations,
-  approveAuthorization,
-  rejectAuthorization,
-  addHistoryAction,
+  getAuthorization,
+  getClient,
 } from '../storage/tableClient';
-import { nowISO } from '../../shared/utils';
+import { usaPagamentoViaApi } from '../infra/paymentGateway';
+import { aprovarAutorizacao, rejeitarAutorizacao } from '../infra/authorizationService';
+import { startPaymentExecution } from '../orchestrators/paymentExecutionOrchestrator';
+import { authorize, denyClientAccess, filterByClientAccess, ROLES } from '../infra/auth';
 
 // List authorizations
 app.http('bpoAutorizacoesList', {
@@ -31,11 +50,14 @@ app.http('bpoAutorizacoesList', {
   ): Promise<HttpResponseInit> => {
     context.log('[bpoAutorizacoes] List requested');
 
+    const clientId = request.query.get('cliente_id') || undefined;
+    const auth = await authorize(request, ROLES.TODOS, clientId);
+    if (!auth.ok) return auth.response;
+
     try {
-      const clientId = request.query.get('cliente_id') || undefined;
       const tipo = request.query.get('tipo') as 'pagar' | 'receber' | undefined;
 
-      const items = await getPendingAuthorizations(clientId, tipo);
+      const items = filterByClientAccess(auth.user, await getPendingAuthorizations(clientId, tipo));
 
       return {
         status: 200,
@@ -59,6 +81,7 @@ app.http('bpoAutorizacoesAprovar', {
   methods: ['POST'],
   authLevel: 'function',
   route: 'bpo/autorizacoes/{id}/aprovar',
+  extraInputs: [df.input.durableClient()],
   handler: async (
     request: HttpRequest,
     context: InvocationContext
@@ -66,31 +89,71 @@ app.http('bpoAutorizacoesAprovar', {
     const id = request.params.id;
     context.log(`[bpoAutorizacoes] Approving ${id}`);
 
+    const auth = await authorize(request, ROLES.GESTAO);
+    if (!auth.ok) return auth.response;
+    const usuario = auth.user.id;
+
     try {
-      const body = (await request.json()) as { notas?: string };
-
-      // Buscar autorização para obter o clientId antes de aprovar
-      const allAuths = await getPendingAuthorizations();
-      const authRecord = allAuths.find(a => a.id === id);
-      const authClientId = authRecord?.clientId || 'SYSTEM';
-
-      await approveAuthorization(id, body.notas);
-
-      // Add to history
-      await addHistoryAction({
-        id: `hist-${Date.now()}`,
-        clientId: authClientId,
-        tipo: 'aprovacao',
-        descricao: `Autorização ${id} aprovada`,
-        data: nowISO(),
-        detalhes: { authorizationId: id, notas: body.notas },
+      const body = (await request.json().catch(() => ({}))) as { notas?: string };
+
+      const authRecord = await getAuthorization(id);
+
+      if (!authRecord) {
+        return {
+          status: 404,
+          jsonBody: { success: false, message: 'Autorização não encontrada' },
+        };
+      }
+
+      if (authRecord.status !== 'pendente') {
+        return {
+          status: 409,
+          jsonBody: { success: false, message: `Autorização já ${authRecord.status}` },
+        };
+      }
+
+      const denied = denyClientAccess(auth.user, authRecord.clientId);
+      if (denied) return denied;
+
+      const resultado = await aprovarAutorizacao({
+        autorizacao: authRecord,
+        client: await getClient(authRecord.clientId),
+        usuario,
+        notas: body.notas,
+        durableClient: df.getClient(context),
       });
 
+      if (!resultado.permitido) {
+        return {
+          status: resultado.jaResolvida ? 409 : 403,
+          jsonBody: { success: false, message: resultado.motivo },
+        };
+      }
+
+      const { aprovacoes, aprovacoesNecessarias, pagamento } = resultado;
+
+      if (!resultado.concluida) {
+        return {
+          status: 202,
+          jsonBody: {
+            success: true,
+            message: `Aprovação registrada (${aprovacoes.length}/${aprovacoesNecessarias}); aguardando demais aprovadores`,
+            aprovacoes,
+            aprovacoesNecessarias,
+            concluida: false,
+          },
+        };
+      }
+
       return {
         status: 200,
         jsonBody: {
           success: true,
           message: 'Pagamento aprovado com sucesso',
+          aprovacoes,
+          aprovacoesNecessarias,
+          concluida: true,
+          pagamento,
         },
       };
     } catch (error) {
@@ -115,6 +178,9 @@ app.http('bpoAutorizacoesRejeitar', {
     const id = request.params.id;
     context.log(`[bpoAutorizacoes] Rejecting ${id}`);
 
+    const auth = await authorize(request, ROLES.GESTAO);
+    if (!auth.ok) return auth.response;
+
     try {
       const body = (await request.json()) as { motivo: string };
 
@@ -125,22 +191,33 @@ app.http('bpoAutorizacoesRejeitar', {
         };
       }
 
-      // Buscar autorização para obter o clientId antes de rejeitar
-      const rejectAuths = await getPendingAuthorizations();
-      const rejectAuth = rejectAuths.find(a => a.id === id);
-      const rejectClientId = rejectAuth?.clientId || 'SYSTEM';
-
-      await rejectAuthorization(id, body.motivo);
-
-      // Add to history
-      await addHistoryAction({
-        id: `hist-${Date.now()}`,
-        clientId: rejectClientId,
-        tipo: 'rejeicao',
-        descricao: `Autorização ${id} rejeitada: ${body.motivo}`,
-        data: nowISO(),
-        detalhes: { authorizationId: id, motivo: body.motivo },
-      });
+      const rejectAuth = await getAuthorization(id);
+
+      if (!rejectAuth) {
+        return {
+          status: 404,
+          jsonBody: { success: false, message: 'Autorização não encontrada' },
+        };
+      }
+
+      if (rejectAuth.status !== 'pendente') {
+        return {
+          status: 409,
+          jsonBody: { success: false, message: `Autorização já ${rejectAuth.status}` },
+        };
+      }
+
+      const denied = denyClientAccess(auth.user, rejectAuth.clientId);
+      if (denied) return denied;
+
+      const resultado = await rejeitarAutorizacao(rejectAuth, body.motivo, auth.user.id);
+
+      if (!resultado.rejeitada) {
+        return {
+          status: 409,
+          jsonBody: { success: false, message: resultado.motivo },
+        };
+      }
 
       return {
         status: 200,
@@ -158,3 +235,135 @@ app.http('bpoAutorizacoesRejeitar', {
     }
   },
 });
+
+// Payment execution status
+app.http('bpoAutorizacoesPagamento', {
+  methods: ['GET'],
+  authLevel: 'function',
+  route: 'bpo/autorizacoes/{id}/pagamento',
+  extraInputs: [df.input.durableClient()],
+  handler: async (
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> => {
+    const id = request.params.id;
+    context.log(`[bpoAutorizacoes] Payment status requested for ${id}`);
+
+    const access = await authorize(request, ROLES.TODOS);
+    if (!access.ok) return access.response;
+
+    try {
+      const auth = await getAuthorization(id);
+
+      if (!auth) {
+        return {
+          status: 404,
+          jsonBody: { error: 'Autorização não encontrada' },
+        };
+      }
+
+      const denied = denyClientAccess(access.user, auth.clientId);
+      if (denied) return denied;
+
+      let orchestrator = null;
+      try {
+        const status = await df.getClient(context).getStatus(`pagamento-${id}`);
+        if (status) {
+          orchestrator = {
+            runtimeStatus: status.runtimeStatus,
+            output: status.output,
+            lastUpdatedTime: status.lastUpdatedTime,
+          };
+        }
+      } catch {
+        // Execução nunca disparada
+      }
+
+      return {
+        status: 200,
+        jsonBody: {
+          authorizationId: id,
+          status: auth.status,
+          remessaId: auth.remessaId,
+          pagamento: auth.pagamento || null,
+          orchestrator,
+        },
+      };
+    } catch (error) {
+      context.error('[bpoAutorizacoes] Error getting payment status:', error);
+      return {
+        status: 500,
+        jsonBody: { error: 'Erro ao consultar pagamento' },
+      };
+    }
+  },
+});
+
+// (Re)start payment execution
+app.http('bpoAutorizacoesPagamentoExecutar', {
+  methods: ['POST'],
+  authLevel: 'function',
+  route: 'bpo/autorizacoes/{id}/pagamento',
+  extraInputs: [df.input.durableClient()],
+  handler: async (
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> => {
+    const id = request.params.id;
+    context.log(`[bpoAutorizacoes] Payment execution requested for ${id}`);
+
+    const access = await authorize(request, ROLES.GESTAO);
+    if (!access.ok) return access.response;
+
+    try {
+      const auth = await getAuthorization(id);
+
+      if (!auth || auth.tipo !== 'pagar') {
+        return {
+          status: 404,
+          jsonBody: { success: false, message: 'Autorização de pagamento não encontrada' },
+        };
+      }
+
+      const denied = denyClientAccess(access.user, auth.clientId);
+      if (denied) return denied;
+
+      if (auth.status !== 'aprovado' || auth.remessaId) {
+        return {
+          status: 409,
+          jsonBody: {
+            success: false,
+            message: auth.remessaId
+              ? `Pagamento incluído na remessa ${auth.remessaId}`
+              : 'Autorização precisa estar aprovada',
+          },
+        };
+      }
+
+      const client = await getClient(auth.clientId);
+      if (!usaPagamentoViaApi(client?.config)) {
+        return {
+          status: 400,
+          jsonBody: { success: false, message: 'Banco do cliente não executa pagamentos via API (use remessa CNAB)' },
+        };
+      }
+
+      const instanceId = await startPaymentExecution(df.getClient(context), id);
+
+      return {
+        status: 202,
+        jsonBody: {
+          success: true,
+          message: 'Execução do pagamento iniciada',
+          instanceId,
+        },
+      };
+    } catch (error) {
+      context.error('[bpoAutorizacoes] Error starting payment:', error);
+      return {
+        status: 500,
+        jsonBody: { success: false, message: 'Erro ao iniciar pagamento' },
+      };
+    }
+  },
+});
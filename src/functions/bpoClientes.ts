@@ -5,6 +5,8 @@
  * GET  /api/bpo/clientes/{id} - Detalhe de um cliente
  * POST /api/bpo/clientes - Cria novo cliente
  * PUT  /api/bpo/clientes/{id} - Atualiza cliente
+ *
+ * Leitura: todos os papéis (só clientes atribuídos); cadastro/alteração: admin.
  */
 
 import {
@@ -15,6 +17,8 @@ import {
 } from '@azure/functions';
 import { getClients, getClient, upsertClient, countTransactions } from '../storage/tableClient';
 import { Client, ClientSystem, ClientPlano, TransactionStatus, createClient } from '../types';
+import { validateApprovalPolicy } from '../infra/approvalPolicy';
+import { authorize, canAccessClient, ROLES } from '../infra/auth';
 import { nowISO } from '../../shared/utils';
 
 // List clients
@@ -28,8 +32,11 @@ app.http('bpoClientesList', {
   ): Promise<HttpResponseInit> => {
     context.log('[bpoClientes] List requested');
 
+    const auth = await authorize(request, ROLES.TODOS);
+    if (!auth.ok) return auth.response;
+
     try {
-      const clients = await getClients();
+      const clients = (await getClients()).filter((c) => canAccessClient(auth.user, c.id));
 
       return {
         status: 200,
@@ -71,6 +78,9 @@ app.http('bpoClientesDetail', {
     const id = request.params.id;
     context.log(`[bpoClientes] Detail requested for ${id}`);
 
+    const auth = await authorize(request, ROLES.TODOS, id);
+    if (!auth.ok) return auth.response;
+
     try {
       const client = await getClient(id);
 
@@ -122,6 +132,9 @@ app.http('bpoClientesCreate', {
   ): Promise<HttpResponseInit> => {
     context.log('[bpoClientes] Create requested');
 
+    const auth = await authorize(request, ROLES.ADMIN);
+    if (!auth.ok) return auth.response;
+
     try {
       const body = (await request.json()) as {
         nome: string;
@@ -184,6 +197,9 @@ app.http('bpoClientesUpdate', {
     const id = request.params.id;
     context.log(`[bpoClientes] Update requested for ${id}`);
 
+    const auth = await authorize(request, ROLES.ADMIN);
+    if (!auth.ok) return auth.response;
+
     try {
       const existing = await getClient(id);
 
@@ -196,6 +212,16 @@ app.http('bpoClientesUpdate', {
 
       const body = (await request.json()) as Partial<Client>;
 
+      if (body.config?.politicaAprovacao) {
+        const errors = validateApprovalPolicy(body.config.politicaAprovacao);
+        if (errors.length > 0) {
+          return {
+            status: 400,
+            jsonBody: { success: false, message: 'Política de aprovação inválida', errors },
+          };
+        }
+      }
+
       const updated: Client = {
         ...existing,
         ...body,
@@ -3,6 +3,8 @@
  *
  * POST /api/bpo/cycle - Inicia ciclo manualmente
  * GET  /api/bpo/cycle/{id} - Status de um ciclo
+ *
+ * Disparo: operator/supervisor/admin, limitado aos clientes atribuídos.
  */
 
 import {
@@ -13,6 +15,7 @@ import {
 } from '@azure/functions';
 import * as df from 'durable-functions';
 import { createCycle, getCycle, getActiveClients } from '../storage/tableClient';
+import { authorize, canAccessClient, ROLES } from '../infra/auth';
 import { todayYMD, nowISO } from '../../shared/utils';
 
 // Start cycle manually
@@ -27,18 +30,21 @@ app.http('bpoCycleStart', {
   ): Promise<HttpResponseInit> => {
     context.log('[bpoCycle] Manual cycle start requested');
 
-    try {
-      const body = (await request.json().catch(() => ({}))) as {
-        cliente_id?: string;
-        force?: boolean;
-      };
+    const body = (await request.json().catch(() => ({}))) as {
+      cliente_id?: string;
+      force?: boolean;
+    };
 
+    const auth = await authorize(request, ROLES.EQUIPE, body.cliente_id);
+    if (!auth.ok) return auth.response;
+
+    try {
       // Create cycle record
       const date = todayYMD();
       const cycle = await createCycle(date);
 
       // Get clients to process
-      let clients = await getActiveClients();
+      let clients = (await getActiveClients()).filter((c) => canAccessClient(auth.user, c.id));
       if (body.cliente_id) {
         clients = clients.filter((c) => c.id === body.cliente_id);
       }
@@ -102,6 +108,9 @@ app.http('bpoCycleStatus', {
     const id = request.params.id;
     context.log(`[bpoCycle] Status requested for ${id}`);
 
+    const auth = await authorize(request, ROLES.TODOS);
+    if (!auth.ok) return auth.response;
+
     try {
       const cycle = await getCycle(id);
 
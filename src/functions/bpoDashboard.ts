@@ -16,6 +16,7 @@ import {
   getPendingAuthorizations,
   getPendingDoubts,
 } from '../storage/tableClient';
+import { authorize, filterByClientAccess, ROLES } from '../infra/auth';
 import { BPODashboard } from '../types';
 
 app.http('bpoDashboard', {
@@ -28,17 +29,23 @@ app.http('bpoDashboard', {
   ): Promise<HttpResponseInit> => {
     context.log('[bpoDashboard] Dashboard requested');
 
-    try {
-      const clientId = request.query.get('cliente_id') || undefined;
+    const clientId = request.query.get('cliente_id') || undefined;
+    const auth = await authorize(request, ROLES.TODOS, clientId);
+    if (!auth.ok) return auth.response;
 
+    try {
       // Get data in parallel
-      const [clients, cycles, authorizations, doubts] = await Promise.all([
+      const [clients, cycles, allAuthorizations, allDoubts] = await Promise.all([
         getActiveClients(),
         getRecentCycles(5),
         getPendingAuthorizations(clientId),
         getPendingDoubts(clientId),
       ]);
 
+      // Pendências só dos clientes atribuídos ao usuário
+      const authorizations = filterByClientAccess(auth.user, allAuthorizations);
+      const doubts = filterByClientAccess(auth.user, allDoubts);
+
       // Calculate KPIs
       const pendentes = authorizations.length + doubts.length;
       const processando = cycles.filter((c) => c.status === 'running').length;
@@ -4,6 +4,9 @@
  * GET  /api/bpo/duvidas
  * POST /api/bpo/duvidas/{id}/resolver
  * POST /api/bpo/duvidas/{id}/pular
+ *
+ * Leitura: todos os papéis; resolver/pular: operator/supervisor/admin.
+ * Sempre restrito aos clientes atribuídos ao usuário.
  */
 
 import {
@@ -14,12 +17,37 @@ import {
 } from '@azure/functions';
 import {
   getPendingDoubts,
+  getDoubt,
   resolveDoubt,
   skipDoubt,
   addHistoryAction,
+  getTransaction,
+  updateTransaction,
+  getAuthorization,
+  setAuthorizationPreparer,
 } from '../storage/tableClient';
+import { authorize, denyClientAccess, filterByClientAccess, ROLES } from '../infra/auth';
 import { nowISO } from '../../shared/utils';
 
+/**
+ * Quem resolve a dúvida prepara o lançamento: fica na transação (autorizações
+ * criadas depois herdam) e na autorização pendente já aberta para ela.
+ */
+async function registrarPreparador(clientId: string, transactionId: string, usuario: string): Promise<void> {
+  const tx = await getTransaction(clientId, transactionId);
+  if (tx) {
+    await updateTransaction(clientId, transactionId, {
+      metadata: { ...(tx.metadata || {}), preparadoPor: usuario },
+    });
+  }
+
+  const authId = `auth-${transactionId}`;
+  const autorizacao = await getAuthorization(authId);
+  if (autorizacao?.status === 'pendente') {
+    await setAuthorizationPreparer(authId, usuario);
+  }
+}
+
 // List doubts
 app.http('bpoDuvidasList', {
   methods: ['GET'],
@@ -31,11 +59,14 @@ app.http('bpoDuvidasList', {
   ): Promise<HttpResponseInit> => {
     context.log('[bpoDuvidas] List requested');
 
+    const clientId = request.query.get('cliente_id') || undefined;
+    const auth = await authorize(request, ROLES.TODOS, clientId);
+    if (!auth.ok) return auth.response;
+
     try {
-      const clientId = request.query.get('cliente_id') || undefined;
       const tipo = request.query.get('tipo') || undefined;
 
-      const items = await getPendingDoubts(clientId, tipo);
+      const items = filterByClientAccess(auth.user, await getPendingDoubts(clientId, tipo));
 
       return {
         status: 200,
@@ -66,6 +97,9 @@ app.http('bpoDuvidasResolver', {
     const id = request.params.id;
     context.log(`[bpoDuvidas] Resolving ${id}`);
 
+    const auth = await authorize(request, ROLES.EQUIPE);
+    if (!auth.ok) return auth.response;
+
     try {
       const body = (await request.json()) as {
         resolucao: Record<string, unknown>;
@@ -79,14 +113,28 @@ app.http('bpoDuvidasResolver', {
         };
       }
 
-      await resolveDoubt(id, body.resolucao, body.notas);
+      const doubt = await getDoubt(id);
+
+      if (!doubt) {
+        return {
+          status: 404,
+          jsonBody: { success: false, message: 'Dúvida não encontrada' },
+        };
+      }
+
+      const denied = denyClientAccess(auth.user, doubt.clientId);
+      if (denied) return denied;
+
+      await resolveDoubt(id, body.resolucao, body.notas, auth.user.id);
+      await registrarPreparador(doubt.clientId, doubt.transactionId, auth.user.id);
 
       // Add to history
       await addHistoryAction({
         id: `hist-${Date.now()}`,
-        clientId: 'SYSTEM',
+        clientId: doubt.clientId,
         tipo: 'classificacao',
         descricao: `Dúvida ${id} resolvida`,
+        usuario: auth.user.id,
         data: nowISO(),
         detalhes: { doubtId: id, resolucao: body.resolucao },
       });
@@ -120,10 +168,25 @@ app.http('bpoDuvidasPular', {
     const id = request.params.id;
     context.log(`[bpoDuvidas] Skipping ${id}`);
 
+    const auth = await authorize(request, ROLES.EQUIPE);
+    if (!auth.ok) return auth.response;
+
     try {
       const body = (await request.json()) as { motivo?: string };
 
-      await skipDoubt(id, body.motivo || 'Sem motivo informado');
+      const doubt = await getDoubt(id);
+
+      if (!doubt) {
+        return {
+          status: 404,
+          jsonBody: { success: false, message: 'Dúvida não encontrada' },
+        };
+      }
+
+      const denied = denyClientAccess(auth.user, doubt.clientId);
+      if (denied) return denied;
+
+      await skipDoubt(id, body.motivo || 'Sem motivo informado', auth.user.id);
 
       return {
         status: 200,
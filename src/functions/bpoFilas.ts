@@ -1,7 +1,9 @@
 /**
  * BPO Filas - operacao-head
  *
- * GET /api/bpo/filas
+ * GET  /api/bpo/filas                - Status das filas (inclui poison)
+ * GET  /api/bpo/filas/{fila}/poison  - Mensagens que esgotaram as tentativas
+ * POST /api/bpo/filas/{fila}/replay  - Devolve a poison para a fila de origem
  */
 
 import {
@@ -12,7 +14,9 @@ import {
 } from '@azure/functions';
 import { QueueServiceClient } from '@azure/storage-queue';
 import { getRecentCycles } from '../storage/tableClient';
-import { ALL_QUEUES } from '../../shared/queues/contracts';
+import { ALL_QUEUES, poisonQueueName } from '../../shared/queues/contracts';
+import { peekMessages, replayPoisonMessages } from '../storage/queueClient';
+import { authorize, ROLES } from '../infra/auth';
 import { QueueStatus } from '../types';
 
 app.http('bpoFilas', {
@@ -25,6 +29,10 @@ app.http('bpoFilas', {
   ): Promise<HttpResponseInit> => {
     context.log('[bpoFilas] Filas status requested');
 
+    // Filas são globais (todos os clientes): só equipe interna
+    const auth = await authorize(request, ROLES.EQUIPE);
+    if (!auth.ok) return auth.response;
+
     try {
       const filas: QueueStatus[] = [];
 
@@ -39,13 +47,20 @@ app.http('bpoFilas', {
             try {
               const queueClient = queueService.getQueueClient(queueName);
               const properties = await queueClient.getProperties();
+              const poison = await queueService.getQueueClient(poisonQueueName(queueName))
+                .getProperties()
+                .then((p) => p.approximateMessagesCount || 0)
+                .catch(() => 0);
 
               filas.push({
                 nome: queueName,
                 mensagens: properties.approximateMessagesCount || 0,
-                status: properties.approximateMessagesCount && properties.approximateMessagesCount > 0
-                  ? 'processing'
-                  : 'idle',
+                poison,
+                status: poison > 0
+                  ? 'error'
+                  : properties.approximateMessagesCount && properties.approximateMessagesCount > 0
+                    ? 'processing'
+                    : 'idle',
               });
             } catch {
               // Queue might not exist yet
@@ -100,6 +115,99 @@ app.http('bpoFilas', {
   },
 });
 
+// List poison messages
+app.http('bpoFilasPoison', {
+  methods: ['GET'],
+  authLevel: 'function',
+  route: 'bpo/filas/{fila}/poison',
+  handler: async (
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> => {
+    const fila = request.params.fila;
+    context.log(`[bpoFilas] Poison requested for ${fila}`);
+
+    const auth = await authorize(request, ROLES.EQUIPE);
+    if (!auth.ok) return auth.response;
+
+    if (!isKnownQueue(fila)) {
+      return {
+        status: 404,
+        jsonBody: { success: false, message: `Fila ${fila} não existe` },
+      };
+    }
+
+    try {
+      const limit = Math.min(parseInt(request.query.get('limit') || '32', 10) || 32, 32);
+      const items = await peekMessages(poisonQueueName(fila), limit);
+
+      return {
+        status: 200,
+        jsonBody: {
+          fila,
+          poison: poisonQueueName(fila),
+          items,
+          total: items.length,
+        },
+      };
+    } catch (error) {
+      context.error('[bpoFilas] Error reading poison:', error);
+      return {
+        status: 500,
+        jsonBody: { error: 'Erro ao ler fila poison' },
+      };
+    }
+  },
+});
+
+// Replay poison messages
+app.http('bpoFilasReplay', {
+  methods: ['POST'],
+  authLevel: 'function',
+  route: 'bpo/filas/{fila}/replay',
+  handler: async (
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> => {
+    const fila = request.params.fila;
+    context.log(`[bpoFilas] Replay requested for ${fila}`);
+
+    const auth = await authorize(request, ROLES.GESTAO);
+    if (!auth.ok) return auth.response;
+
+    if (!isKnownQueue(fila)) {
+      return {
+        status: 404,
+        jsonBody: { success: false, message: `Fila ${fila} não existe` },
+      };
+    }
+
+    try {
+      const body = (await request.json().catch(() => ({}))) as { max?: number };
+      const result = await replayPoisonMessages(fila, body.max || 100);
+
+      return {
+        status: 200,
+        jsonBody: {
+          success: true,
+          message: `${result.replayed} mensagem(ns) devolvida(s) para ${fila}`,
+          ...result,
+        },
+      };
+    } catch (error) {
+      context.error('[bpoFilas] Error replaying:', error);
+      return {
+        status: 500,
+        jsonBody: { success: false, message: 'Erro ao reprocessar fila poison' },
+      };
+    }
+  },
+});
+
+function isKnownQueue(fila: string): boolean {
+  return (Object.values(ALL_QUEUES) as string[]).includes(fila);
+}
+
 function calculateProgress(cycle: any): number {
   const total = cycle.transactionsCaptured || 1;
   const processed = cycle.transactionsClassified + cycle.transactionsSynced;
@@ -0,0 +1,85 @@
+/**
+ * BPO Fluxo de Caixa - operacao-head
+ *
+ * GET /api/bpo/clientes/{id}/fluxo-caixa?inicio=YYYY-MM-DD&fim=YYYY-MM-DD
+ *
+ * Saldo diário realizado (extrato) até hoje e projetado depois, com
+ * pagar/receber em aberto do ERP e recebíveis de cartão. Dias com saldo
+ * projetado negativo vêm em diasNegativos.
+ *
+ * Padrão: de hoje a hoje+30. Todos os papéis (só clientes atribuídos).
+ */
+
+import {
+  app,
+  HttpRequest,
+  HttpResponseInit,
+  InvocationContext,
+} from '@azure/functions';
+import { getClient } from '../storage/tableClient';
+import { projetarFluxoCaixa } from '../infra/cashFlow';
+import { authorize, ROLES } from '../infra/auth';
+import { todayYMD } from '../../shared/utils';
+
+const DIAS_PADRAO = 30;
+const MAX_DIAS = 180;
+
+function isDataValida(data: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(data) && !isNaN(Date.parse(`${data}T00:00:00Z`));
+}
+
+function somarDias(data: string, dias: number): string {
+  const d = new Date(`${data}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + dias);
+  return d.toISOString().split('T')[0];
+}
+
+app.http('bpoClientesFluxoCaixa', {
+  methods: ['GET'],
+  authLevel: 'function',
+  route: 'bpo/clientes/{id}/fluxo-caixa',
+  handler: async (
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> => {
+    const id = request.params.id;
+    context.log(`[bpoFluxoCaixa] Cash flow requested for ${id}`);
+
+    const auth = await authorize(request, ROLES.TODOS, id);
+    if (!auth.ok) return auth.response;
+
+    const hoje = todayYMD();
+    const inicio = request.query.get('inicio') || hoje;
+    const fim = request.query.get('fim') || somarDias(inicio, DIAS_PADRAO);
+
+    if (!isDataValida(inicio) || !isDataValida(fim)) {
+      return { status: 400, jsonBody: { success: false, message: 'inicio e fim devem estar no formato YYYY-MM-DD' } };
+    }
+    if (inicio > fim) {
+      return { status: 400, jsonBody: { success: false, message: 'inicio deve ser anterior ou igual a fim' } };
+    }
+    if (somarDias(inicio, MAX_DIAS) < fim) {
+      return { status: 400, jsonBody: { success: false, message: `Período máximo de ${MAX_DIAS} dias` } };
+    }
+
+    try {
+      const client = await getClient(id);
+      if (!client) {
+        return {
+          status: 404,
+          jsonBody: { error: 'Cliente não encontrado' },
+        };
+      }
+
+      const fluxo = await projetarFluxoCaixa(client, inicio, fim, hoje);
+
+      return { status: 200, jsonBody: fluxo };
+    } catch (error) {
+      context.error('[bpoFluxoCaixa] Error projecting cash flow:', error);
+      return {
+        status: 500,
+        jsonBody: { error: 'Erro ao projetar fluxo de caixa' },
+      };
+    }
+  },
+});
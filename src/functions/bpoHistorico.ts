@@ -11,6 +11,7 @@ import {
   InvocationContext,
 } from '@azure/functions';
 import { getHistory } from '../storage/tableClient';
+import { accessibleClientIds, authorize, ROLES } from '../infra/auth';
 
 app.http('bpoHistorico', {
   methods: ['GET'],
@@ -22,12 +23,16 @@ app.http('bpoHistorico', {
   ): Promise<HttpResponseInit> => {
     context.log('[bpoHistorico] History requested');
 
+    const clientId = request.query.get('cliente_id') || undefined;
+    const auth = await authorize(request, ROLES.TODOS, clientId);
+    if (!auth.ok) return auth.response;
+
     try {
-      const clientId = request.query.get('cliente_id') || undefined;
       const limit = parseInt(request.query.get('limit') || '50');
       const offset = parseInt(request.query.get('offset') || '0');
 
-      const { items, total } = await getHistory(clientId, limit, offset);
+      // Sem filtro: usuário restrito vê só o histórico dos clientes atribuídos
+      const { items, total } = await getHistory(clientId || accessibleClientIds(auth.user), limit, offset);
 
       return {
         status: 200,
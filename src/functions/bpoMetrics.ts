@@ -3,6 +3,8 @@
  *
  * GET /api/bpo/metrics          → Métricas globais
  * GET /api/bpo/metrics/:clientId → Métricas por tenant
+ *
+ * Globais: supervisor/admin. Por tenant: qualquer papel com acesso ao cliente.
  */
 
 import {
@@ -13,6 +15,7 @@ import {
 } from '@azure/functions';
 import { TenantMonitor } from '../infra/monitoring';
 import { LearningLoop } from '../learning/learningLoop';
+import { authorize, ROLES } from '../infra/auth';
 import { nowISO } from '../../shared/utils';
 
 const monitor = new TenantMonitor();
@@ -29,6 +32,9 @@ app.http('bpoMetrics', {
         const clientId = request.params.clientId;
         const date = (request.query.get('date') as string) || undefined;
 
+        const auth = await authorize(request, clientId ? ROLES.TODOS : ROLES.GESTAO, clientId);
+        if (!auth.ok) return auth.response;
+
         try {
             if (clientId) {
                 // Per-tenant metrics
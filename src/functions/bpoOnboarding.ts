@@ -4,6 +4,8 @@
  * POST /api/bpo/onboarding         - Executa onboarding (salva credenciais + testa)
  * GET  /api/bpo/onboarding/{id}    - Checklist do que falta
  *
+ * Onboarding (grava credenciais): admin. Checklist: equipe com acesso ao cliente.
+ *
  * Uso:
  *   POST /api/bpo/onboarding
  *   {
@@ -39,6 +41,7 @@ import {
   getOnboardingChecklist,
   OnboardingInput,
 } from '../infra/onboardingService';
+import { authorize, ROLES } from '../infra/auth';
 
 // POST /api/bpo/onboarding — executa onboarding
 app.http('bpoOnboardingExecute', {
@@ -51,6 +54,9 @@ app.http('bpoOnboardingExecute', {
   ): Promise<HttpResponseInit> => {
     context.log('[bpoOnboarding] Execute requested');
 
+    const auth = await authorize(request, ROLES.ADMIN);
+    if (!auth.ok) return auth.response;
+
     try {
       const body = (await request.json()) as OnboardingInput;
 
@@ -91,6 +97,9 @@ app.http('bpoOnboardingChecklist', {
     const clientId = request.params.id;
     context.log(`[bpoOnboarding] Checklist for ${clientId}`);
 
+    const auth = await authorize(request, ROLES.EQUIPE, clientId);
+    if (!auth.ok) return auth.response;
+
     try {
       if (!clientId) {
         return {
@@ -0,0 +1,155 @@
+/**
+ * BPO Orçamentos - operacao-head
+ *
+ * GET  /api/bpo/clientes/{id}/orcamentos?mes=YYYY-MM  - Orçado x realizado por categoria/centro de custo
+ * POST /api/bpo/clientes/{id}/orcamentos/importar     - Importa orçamentos (JSON ou CSV)
+ *
+ * Importação: { mes?, itens: [{ mes?, categoria, centroCusto?, valor }] }
+ * ou { mes?, csv: "mes;categoria;centro_custo;valor\n..." }. categoria
+ * aceita id, código ou nome da conta. Com qualquer erro nada é gravado.
+ *
+ * Consulta: todos os papéis (só clientes atribuídos); importação: equipe.
+ */
+
+import {
+  app,
+  HttpRequest,
+  HttpResponseInit,
+  InvocationContext,
+} from '@azure/functions';
+import { getCategories, getClient, saveOrcamentos } from '../storage/tableClient';
+import {
+  carregarVariacoes,
+  limiaresDoCliente,
+  linhasDoCsv,
+  validarImportacao,
+  LinhaImportacaoOrcamento,
+} from '../reports/orcamento';
+import { isMesValido } from '../reports/dre';
+import { authorize, ROLES } from '../infra/auth';
+import { roundMoney, todayYMD } from '../../shared/utils';
+
+// Budget vs actual
+app.http('bpoOrcamentos', {
+  methods: ['GET'],
+  authLevel: 'function',
+  route: 'bpo/clientes/{id}/orcamentos',
+  handler: async (
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> => {
+    const id = request.params.id;
+    context.log(`[bpoOrcamentos] Variance requested for ${id}`);
+
+    const auth = await authorize(request, ROLES.TODOS, id);
+    if (!auth.ok) return auth.response;
+
+    const mes = request.query.get('mes') || todayYMD().substring(0, 7);
+    if (!isMesValido(mes)) {
+      return { status: 400, jsonBody: { success: false, message: 'mes deve estar no formato YYYY-MM' } };
+    }
+
+    try {
+      const client = await getClient(id);
+      if (!client) {
+        return {
+          status: 404,
+          jsonBody: { error: 'Cliente não encontrado' },
+        };
+      }
+
+      const limiares = limiaresDoCliente(client.config);
+      const itens = await carregarVariacoes(id, mes, limiares);
+      const despesas = itens.filter((v) => v.natureza === 'despesa');
+
+      return {
+        status: 200,
+        jsonBody: {
+          clientId: id,
+          mes,
+          limiares,
+          itens,
+          total: itens.length,
+          despesas: {
+            orcado: roundMoney(despesas.reduce((s, v) => s + v.orcado, 0)),
+            realizado: roundMoney(despesas.reduce((s, v) => s + v.realizado, 0)),
+            acimaDoLimiar: despesas.filter((v) => v.limiar !== null).length,
+          },
+        },
+      };
+    } catch (error) {
+      context.error('[bpoOrcamentos] Error comparing:', error);
+      return {
+        status: 500,
+        jsonBody: { error: 'Erro ao comparar orçamento' },
+      };
+    }
+  },
+});
+
+// Import budgets
+app.http('bpoOrcamentosImportar', {
+  methods: ['POST'],
+  authLevel: 'function',
+  route: 'bpo/clientes/{id}/orcamentos/importar',
+  handler: async (
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> => {
+    const id = request.params.id;
+    context.log(`[bpoOrcamentos] Import requested for ${id}`);
+
+    const auth = await authorize(request, ROLES.EQUIPE, id);
+    if (!auth.ok) return auth.response;
+
+    try {
+      const body = (await request.json()) as {
+        mes?: string;
+        itens?: LinhaImportacaoOrcamento[];
+        csv?: string;
+      };
+
+      const linhas = typeof body.csv === 'string' ? linhasDoCsv(body.csv) : body.itens;
+      if (!Array.isArray(linhas) || linhas.length === 0) {
+        return { status: 400, jsonBody: { success: false, message: 'Informe itens ou csv com ao menos uma linha' } };
+      }
+      if (body.mes !== undefined && !isMesValido(body.mes)) {
+        return { status: 400, jsonBody: { success: false, message: 'mes deve estar no formato YYYY-MM' } };
+      }
+
+      const client = await getClient(id);
+      if (!client) {
+        return {
+          status: 404,
+          jsonBody: { error: 'Cliente não encontrado' },
+        };
+      }
+
+      const { orcamentos, erros } = validarImportacao(id, linhas, await getCategories(id), body.mes);
+      if (erros.length > 0) {
+        return {
+          status: 400,
+          jsonBody: { success: false, message: 'Orçamento com linhas inválidas', errors: erros },
+        };
+      }
+
+      const gravados = await saveOrcamentos(orcamentos);
+      context.log(`[bpoOrcamentos] ${gravados} budget lines imported for ${id} by ${auth.user.id}`);
+
+      return {
+        status: 200,
+        jsonBody: {
+          success: true,
+          importados: gravados,
+          meses: [...new Set(orcamentos.map((o) => o.mes))].sort(),
+        },
+      };
+    } catch (error) {
+      context.error('[bpoOrcamentos] Error importing:', error);
+      return {
+        status: 500,
+        jsonBody: { error: 'Erro ao importar orçamento' },
+      };
+    }
+  },
+});
@@ -0,0 +1,295 @@
+/**
+ * BPO Regras de Decisão - operacao-head
+ *
+ * GET  /api/bpo/clientes/{id}/regras                         - Regras ativas + versões
+ * POST /api/bpo/clientes/{id}/regras                         - Cria nova versão (conjunto ou regra avulsa)
+ * POST /api/bpo/clientes/{id}/regras/versoes/{versao}/ativar - Reativa versão anterior
+ * POST /api/bpo/clientes/{id}/regras/dry-run                 - Simula regras candidatas sem persistir
+ *
+ * Consulta e dry-run: equipe; criar/ativar versão: supervisor/admin
+ * (criadoPor = usuário autenticado).
+ */
+
+import {
+  app,
+  HttpRequest,
+  HttpResponseInit,
+  InvocationContext,
+} from '@azure/functions';
+import {
+  getDecisionRuleSets,
+  getActiveDecisionRuleSet,
+  saveDecisionRuleSet,
+  activateDecisionRuleSet,
+  getTransactionHistory,
+} from '../storage/tableClient';
+import {
+  DecisionEngine,
+  DEFAULT_DECISION_RULES,
+  validateDecisionRules,
+} from '../ai/decisionEngine';
+import { classificationFromTransaction, historicoNaEpoca } from '../ai/decisionReplay';
+import { SmartMatcher } from '../ai/smartMatcher';
+import { authorize, ROLES } from '../infra/auth';
+import {
+  Anomaly,
+  Decision,
+  DecisionRule,
+  Transaction,
+} from '../types';
+
+// List rules (active + versions)
+app.http('bpoRegrasList', {
+  methods: ['GET'],
+  authLevel: 'function',
+  route: 'bpo/clientes/{id}/regras',
+  handler: async (
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> => {
+    const clientId = request.params.id;
+    context.log(`[bpoRegras] List requested for ${clientId}`);
+
+    const auth = await authorize(request, ROLES.EQUIPE, clientId);
+    if (!auth.ok) return auth.response;
+
+    try {
+      const sets = await getDecisionRuleSets(clientId);
+      const ativo = sets.find((s) => s.ativo);
+
+      return {
+        status: 200,
+        jsonBody: {
+          clientId,
+          versaoAtiva: ativo?.versao || 0,
+          padrao: !ativo,
+          regras: ativo?.regras || DEFAULT_DECISION_RULES,
+          versoes: sets.map((s) => ({
+            versao: s.versao,
+            ativo: s.ativo,
+            totalRegras: s.regras.length,
+            criadoEm: s.criadoEm,
+            criadoPor: s.criadoPor,
+            notas: s.notas,
+          })),
+        },
+      };
+    } catch (error) {
+      context.error('[bpoRegras] Error listing:', error);
+      return {
+        status: 500,
+        jsonBody: { error: 'Erro ao listar regras' },
+      };
+    }
+  },
+});
+
+// Create new version
+app.http('bpoRegrasCreate', {
+  methods: ['POST'],
+  authLevel: 'function',
+  route: 'bpo/clientes/{id}/regras',
+  handler: async (
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> => {
+    const clientId = request.params.id;
+    context.log(`[bpoRegras] Create requested for ${clientId}`);
+
+    const auth = await authorize(request, ROLES.GESTAO, clientId);
+    if (!auth.ok) return auth.response;
+
+    try {
+      const body = (await request.json()) as {
+        regras?: DecisionRule[];
+        regra?: DecisionRule;
+        notas?: string;
+      };
+
+      if (!body.regras && !body.regra) {
+        return {
+          status: 400,
+          jsonBody: { success: false, message: 'regras ou regra é obrigatório' },
+        };
+      }
+
+      // Regra avulsa: adiciona/substitui (mesmo id) sobre o conjunto ativo
+      const regras = body.regras || mergeRule(
+        (await getActiveDecisionRuleSet(clientId))?.regras || DEFAULT_DECISION_RULES,
+        body.regra!
+      );
+
+      const errors = validateDecisionRules(regras);
+      if (errors.length > 0) {
+        return {
+          status: 400,
+          jsonBody: { success: false, message: 'Regras inválidas', errors },
+        };
+      }
+
+      const ruleSet = await saveDecisionRuleSet(clientId, regras, auth.user.id, body.notas);
+
+      return {
+        status: 201,
+        jsonBody: {
+          success: true,
+          message: `Versão ${ruleSet.versao} criada e ativada`,
+          ruleSet,
+        },
+      };
+    } catch (error) {
+      context.error('[bpoRegras] Error creating:', error);
+      return {
+        status: 500,
+        jsonBody: { success: false, message: 'Erro ao salvar regras' },
+      };
+    }
+  },
+});
+
+// Activate a previous version
+app.http('bpoRegrasAtivar', {
+  methods: ['POST'],
+  authLevel: 'function',
+  route: 'bpo/clientes/{id}/regras/versoes/{versao}/ativar',
+  handler: async (
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> => {
+    const clientId = request.params.id;
+    const versao = parseInt(request.params.versao, 10);
+    context.log(`[bpoRegras] Activate v${versao} for ${clientId}`);
+
+    const auth = await authorize(request, ROLES.GESTAO, clientId);
+    if (!auth.ok) return auth.response;
+
+    try {
+      const ruleSet = await activateDecisionRuleSet(clientId, versao);
+
+      if (!ruleSet) {
+        return {
+          status: 404,
+          jsonBody: { success: false, message: 'Versão não encontrada' },
+        };
+      }
+
+      return {
+        status: 200,
+        jsonBody: {
+          success: true,
+          message: `Versão ${versao} ativada`,
+          ruleSet,
+        },
+      };
+    } catch (error) {
+      context.error('[bpoRegras] Error activating:', error);
+      return {
+        status: 500,
+        jsonBody: { success: false, message: 'Erro ao ativar versão' },
+      };
+    }
+  },
+});
+
+// Dry-run: compara regras candidatas com as ativas, sem persistir nada
+app.http('bpoRegrasDryRun', {
+  methods: ['POST'],
+  authLevel: 'function',
+  route: 'bpo/clientes/{id}/regras/dry-run',
+  handler: async (
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> => {
+    const clientId = request.params.id;
+    context.log(`[bpoRegras] Dry-run requested for ${clientId}`);
+
+    const auth = await authorize(request, ROLES.EQUIPE, clientId);
+    if (!auth.ok) return auth.response;
+
+    try {
+      const body = (await request.json().catch(() => ({}))) as {
+        regras?: DecisionRule[];
+        regra?: DecisionRule;
+        transacoes?: Transaction[];
+        limit?: number;
+      };
+
+      const ativas = (await getActiveDecisionRuleSet(clientId))?.regras || DEFAULT_DECISION_RULES;
+      const candidatas = body.regras || (body.regra ? mergeRule(ativas, body.regra) : ativas);
+
+      const errors = validateDecisionRules(candidatas);
+      if (errors.length > 0) {
+        return {
+          status: 400,
+          jsonBody: { success: false, message: 'Regras inválidas', errors },
+        };
+      }
+
+      const history = await getTransactionHistory(clientId, body.limit || 100);
+      const transacoes = body.transacoes || history;
+
+      const atual = new DecisionEngine(ativas);
+      const candidato = new DecisionEngine(candidatas);
+      const matcher = new SmartMatcher();
+
+      const resultados = [];
+      for (const tx of transacoes) {
+        const classification = classificationFromTransaction(tx);
+        const anomalies = (tx.metadata?.anomalies as Anomaly[]) || [];
+        // Regras de matching (match_tipo, match_confianca) veem o mesmo histórico que no replay
+        const match = await matcher.matchTransaction(tx, historicoNaEpoca(tx, history));
+
+        const antes = atual.decide(tx, classification, anomalies, match);
+        const depois = candidato.decide(tx, classification, anomalies, match);
+
+        resultados.push({
+          transactionId: tx.id,
+          descricao: tx.descricao,
+          valor: tx.valor,
+          atual: summarize(antes),
+          candidata: summarize(depois),
+          alterada: antes.acao !== depois.acao,
+        });
+      }
+
+      return {
+        status: 200,
+        jsonBody: {
+          clientId,
+          total: resultados.length,
+          alteradas: resultados.filter((r) => r.alterada).length,
+          porAcao: {
+            atual: countByAction(resultados.map((r) => r.atual.acao)),
+            candidata: countByAction(resultados.map((r) => r.candidata.acao)),
+          },
+          resultados,
+        },
+      };
+    } catch (error) {
+      context.error('[bpoRegras] Error in dry-run:', error);
+      return {
+        status: 500,
+        jsonBody: { success: false, message: 'Erro ao simular regras' },
+      };
+    }
+  },
+});
+
+function mergeRule(regras: DecisionRule[], regra: DecisionRule): DecisionRule[] {
+  return [...regras.filter((r) => r.id !== regra.id), regra];
+}
+
+function summarize(decision: Decision) {
+  return {
+    acao: decision.acao,
+    regras: decision.regrasAplicadas,
+    razao: decision.razao,
+  };
+}
+
+function countByAction(acoes: Decision['acao'][]): Record<string, number> {
+  return acoes.reduce<Record<string, number>>((acc, acao) => {
+    acc[acao] = (acc[acao] || 0) + 1;
+    return acc;
+  }, {});
+}
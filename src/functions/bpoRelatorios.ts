@@ -0,0 +1,97 @@
+/**
+ * BPO Relatórios - operacao-head
+ *
+ * GET /api/bpo/clientes/{id}/dre?mes=YYYY-MM[&formato=json|csv|html|xlsx]
+ *
+ * DRE do mês pelo plano de contas do cliente, com mês anterior e orçado.
+ * Padrão: mês corrente em JSON. Todos os papéis (só clientes atribuídos).
+ */
+
+import {
+  app,
+  HttpRequest,
+  HttpResponseInit,
+  InvocationContext,
+} from '@azure/functions';
+import { getClient } from '../storage/tableClient';
+import { gerarDre, isMesValido } from '../reports/dre';
+import { dreParaCsv, dreParaHtml, dreParaXlsx } from '../reports/dreExport';
+import { authorize, ROLES } from '../infra/auth';
+import { todayYMD } from '../../shared/utils';
+
+const FORMATOS = ['json', 'csv', 'html', 'xlsx'] as const;
+type Formato = typeof FORMATOS[number];
+
+app.http('bpoClientesDre', {
+  methods: ['GET'],
+  authLevel: 'function',
+  route: 'bpo/clientes/{id}/dre',
+  handler: async (
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> => {
+    const id = request.params.id;
+    context.log(`[bpoRelatorios] DRE requested for ${id}`);
+
+    const auth = await authorize(request, ROLES.TODOS, id);
+    if (!auth.ok) return auth.response;
+
+    const mes = request.query.get('mes') || todayYMD().substring(0, 7);
+    const formato = (request.query.get('formato') || 'json').toLowerCase() as Formato;
+
+    if (!isMesValido(mes)) {
+      return { status: 400, jsonBody: { success: false, message: 'mes deve estar no formato YYYY-MM' } };
+    }
+    if (!FORMATOS.includes(formato)) {
+      return { status: 400, jsonBody: { success: false, message: `formato deve ser ${FORMATOS.join(', ')}` } };
+    }
+
+    try {
+      const client = await getClient(id);
+      if (!client) {
+        return {
+          status: 404,
+          jsonBody: { error: 'Cliente não encontrado' },
+        };
+      }
+
+      const dre = await gerarDre(id, mes);
+      const arquivo = `dre-${id}-${mes}`;
+
+      switch (formato) {
+        case 'csv':
+          return {
+            status: 200,
+            headers: {
+              'Content-Type': 'text/csv; charset=utf-8',
+              'Content-Disposition': `attachment; filename="${arquivo}.csv"`,
+            },
+            body: dreParaCsv(dre),
+          };
+        case 'html':
+          return {
+            status: 200,
+            headers: { 'Content-Type': 'text/html; charset=utf-8' },
+            body: dreParaHtml(dre, client.nome),
+          };
+        case 'xlsx':
+          return {
+            status: 200,
+            headers: {
+              'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+              'Content-Disposition': `attachment; filename="${arquivo}.xlsx"`,
+            },
+            body: dreParaXlsx(dre),
+          };
+        default:
+          return { status: 200, jsonBody: dre };
+      }
+    } catch (error) {
+      context.error('[bpoRelatorios] Error building DRE:', error);
+      return {
+        status: 500,
+        jsonBody: { error: 'Erro ao gerar DRE' },
+      };
+    }
+  },
+});
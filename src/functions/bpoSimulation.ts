@@ -1,8 +1,12 @@
 /**
  * BPO Simulation & Workspace - operacao-head
  * 
- * POST /api/bpo/simulate
+ * POST /api/bpo/simulate                    - Gera transações sintéticas
+ * POST /api/bpo/simulate { modo: 'replay' } - Replay/what-if sobre histórico real (não persiste)
  * GET /api/bpo/workspace/{clientId}
+ *
+ * Simulação sintética (grava transações): admin. Replay: supervisor/admin.
+ * Workspace: qualquer papel com acesso ao cliente.
  */
 
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
@@ -14,9 +18,21 @@ import {
     getCyclesByDate,
     upsertClient,
     createTransactions,
+    getTransactionHistory,
+    getActiveDecisionRuleSet,
 } from '../storage/tableClient';
-import { createTransaction, TransactionType, TransactionSource, TransactionStatus } from '../../shared/types';
-import { createLogger, nowISO } from '../../shared/utils';
+import {
+    createTransaction,
+    TransactionType,
+    TransactionSource,
+    TransactionStatus,
+    DecisionRule,
+} from '../../shared/types';
+import { createLogger, nowISO, addDays } from '../../shared/utils';
+import { DecisionEngine, DEFAULT_DECISION_RULES, validateDecisionRules } from '../ai/decisionEngine';
+import { AdvancedClassifier, AdvancedClassifierOptions } from '../ai/advancedClassifier';
+import { DecisionReplayer } from '../ai/decisionReplay';
+import { authorize, ROLES } from '../infra/auth';
 
 const logger = createLogger('BPOSimulation');
 
@@ -26,7 +42,15 @@ app.http('bpoSimulate', {
     authLevel: 'function',
     route: 'bpo/simulate',
     handler: async (request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> => {
-        const { clientId = 'test-client' } = await request.json() as { clientId?: string };
+        const body = await request.json() as SimulateRequest;
+        const { clientId = 'test-client' } = body;
+
+        const auth = await authorize(request, body.modo === 'replay' ? ROLES.GESTAO : ROLES.ADMIN, clientId);
+        if (!auth.ok) return auth.response;
+
+        if (body.modo === 'replay') {
+            return runReplay(clientId, body);
+        }
 
         logger.info(`Starting simulation for client: ${clientId}`);
 
@@ -135,6 +159,78 @@ app.http('bpoSimulate', {
     }
 });
 
+interface SimulateRequest {
+    clientId?: string;
+    modo?: 'sintetico' | 'replay';
+    // Replay
+    dias?: number;
+    limit?: number;
+    regras?: DecisionRule[];
+    classificador?: AdvancedClassifierOptions;
+    reclassificar?: boolean;
+}
+
+// ============================================================================
+// Replay / What-if (lê histórico real, nada é persistido)
+// ============================================================================
+
+async function runReplay(clientId: string, body: SimulateRequest): Promise<HttpResponseInit> {
+    const dias = body.dias || 30;
+    const inicio = addDays(new Date(), -dias).toISOString().split('T')[0];
+
+    logger.info(`Starting replay for client ${clientId} (last ${dias} days)`);
+
+    try {
+        const ativas = (await getActiveDecisionRuleSet(clientId))?.regras || DEFAULT_DECISION_RULES;
+        const candidatas = body.regras || ativas;
+
+        const errors = validateDecisionRules(candidatas);
+        if (errors.length > 0) {
+            return { status: 400, jsonBody: { error: 'Regras inválidas', errors } };
+        }
+
+        const history = await getTransactionHistory(clientId, body.limit || 500);
+        const transactions = history.filter(tx => {
+            const data = tx.dataRealizacao || tx.dataVencimento || tx.createdAt || '';
+            return data.split('T')[0] >= inicio;
+        });
+
+        // Classificador só entra no replay quando há limites candidatos ou reclassificação
+        const usarClassificador = !!body.classificador || !!body.reclassificar;
+        const apiKey = process.env.OPENAI_API_KEY || 'mock-key';
+
+        const replayer = new DecisionReplayer(
+            {
+                engine: new DecisionEngine(ativas),
+                classifier: usarClassificador ? new AdvancedClassifier(apiKey) : undefined,
+            },
+            {
+                engine: new DecisionEngine(candidatas),
+                classifier: usarClassificador ? new AdvancedClassifier(apiKey, undefined, body.classificador) : undefined,
+            },
+            !!body.reclassificar && isOpenAIConfigured()
+        );
+
+        const report = await replayer.replay(transactions, history);
+
+        logger.info(`Replay finished: ${report.alteradas}/${report.total} decisions changed`);
+
+        return {
+            status: 200,
+            jsonBody: {
+                modo: 'replay',
+                clientId,
+                periodo: { inicio, dias },
+                persistido: false,
+                ...report,
+            }
+        };
+    } catch (error: any) {
+        logger.error('Error in replay:', error);
+        return { status: 500, jsonBody: { error: error.message } };
+    }
+}
+
 // Workspace Details Endpoint
 app.http('bpoWorkspace', {
     methods: ['GET'],
@@ -143,6 +239,9 @@ app.http('bpoWorkspace', {
     handler: async (request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> => {
         const clientId = request.params.clientId;
 
+        const auth = await authorize(request, ROLES.TODOS, clientId);
+        if (!auth.ok) return auth.response;
+
         try {
             const [client, authorizations, doubts, cycles] = await Promise.all([
                 getClient(clientId),
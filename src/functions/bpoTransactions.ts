@@ -4,6 +4,8 @@
  * GET /api/bpo/transactions?clientId=xxx          → Listar transações de um cliente
  * GET /api/bpo/transactions?clientId=xxx&status=xx → Filtrar por status
  * GET /api/bpo/transactions/count?clientId=xxx     → Contar transações
+ *
+ * Qualquer papel com acesso ao cliente; contagem global só com acesso a todos.
  */
 
 import {
@@ -18,6 +20,7 @@ import {
   getTransactionsByCycle,
   countTransactions,
 } from '../storage/tableClient';
+import { authorize, hasAllClients, forbidden, ROLES } from '../infra/auth';
 import { TransactionStatus } from '../types';
 
 app.http('bpoTransactions', {
@@ -40,6 +43,9 @@ app.http('bpoTransactions', {
       };
     }
 
+    const auth = await authorize(request, ROLES.TODOS, clientId);
+    if (!auth.ok) return auth.response;
+
     try {
       let transactions;
 
@@ -82,6 +88,12 @@ app.http('bpoTransactionsCount', {
     const clientId = request.query.get('clientId') as string;
     const status = request.query.get('status') as string;
 
+    const auth = await authorize(request, ROLES.TODOS, clientId || undefined);
+    if (!auth.ok) return auth.response;
+    if (!clientId && !hasAllClients(auth.user)) {
+      return forbidden('clientId é obrigatório para usuários com acesso restrito');
+    }
+
     try {
       const count = await countTransactions(
         clientId || undefined,
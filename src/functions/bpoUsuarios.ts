@@ -0,0 +1,279 @@
+/**
+ * BPO Usuários - operacao-head
+ *
+ * GET  /api/bpo/me                   - Usuário do token
+ * GET  /api/bpo/usuarios             - Lista usuários (admin)
+ * POST /api/bpo/usuarios             - Cria usuário e devolve o token (admin)
+ * PUT  /api/bpo/usuarios/{id}        - Altera papel, clientes ou ativo (admin)
+ * POST /api/bpo/usuarios/{id}/token  - Gera novo token; o anterior deixa de valer (admin)
+ *
+ * O token só aparece na resposta da criação/rotação — guardamos apenas o hash.
+ */
+
+import {
+  app,
+  HttpRequest,
+  HttpResponseInit,
+  InvocationContext,
+} from '@azure/functions';
+import { getUsers, getUser, saveUser } from '../storage/tableClient';
+import { authorize, generateToken, hashToken, ROLES, USER_ROLES } from '../infra/auth';
+import { OperatorUser, UserRole } from '../types';
+import { nowISO } from '../../shared/utils';
+
+// Current user
+app.http('bpoMe', {
+  methods: ['GET'],
+  authLevel: 'function',
+  route: 'bpo/me',
+  handler: async (
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> => {
+    context.log('[bpoUsuarios] Me requested');
+
+    const auth = await authorize(request, ROLES.TODOS);
+    if (!auth.ok) return auth.response;
+
+    return {
+      status: 200,
+      jsonBody: auth.user,
+    };
+  },
+});
+
+// List users
+app.http('bpoUsuariosList', {
+  methods: ['GET'],
+  authLevel: 'function',
+  route: 'bpo/usuarios',
+  handler: async (
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> => {
+    context.log('[bpoUsuarios] List requested');
+
+    const auth = await authorize(request, ROLES.ADMIN);
+    if (!auth.ok) return auth.response;
+
+    try {
+      const items = await getUsers();
+
+      return {
+        status: 200,
+        jsonBody: {
+          items,
+          total: items.length,
+        },
+      };
+    } catch (error) {
+      context.error('[bpoUsuarios] Error listing:', error);
+      return {
+        status: 500,
+        jsonBody: { error: 'Erro ao listar usuários' },
+      };
+    }
+  },
+});
+
+// Create user
+app.http('bpoUsuariosCreate', {
+  methods: ['POST'],
+  authLevel: 'function',
+  route: 'bpo/usuarios',
+  handler: async (
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> => {
+    context.log('[bpoUsuarios] Create requested');
+
+    const auth = await authorize(request, ROLES.ADMIN);
+    if (!auth.ok) return auth.response;
+
+    try {
+      const body = (await request.json()) as {
+        id?: string;
+        nome?: string;
+        email?: string;
+        role?: UserRole;
+        clientes?: string[];
+      };
+
+      if (!body.id || !body.nome || !body.role) {
+        return {
+          status: 400,
+          jsonBody: { success: false, message: 'id, nome e role são obrigatórios' },
+        };
+      }
+
+      const errors = validateUserFields(body);
+      if (errors.length > 0) {
+        return {
+          status: 400,
+          jsonBody: { success: false, message: 'Usuário inválido', errors },
+        };
+      }
+
+      if (await getUser(body.id)) {
+        return {
+          status: 409,
+          jsonBody: { success: false, message: `Usuário ${body.id} já existe` },
+        };
+      }
+
+      const user: OperatorUser = {
+        id: body.id,
+        nome: body.nome,
+        email: body.email,
+        role: body.role,
+        clientes: body.clientes || [],
+        ativo: true,
+        criadoEm: nowISO(),
+        atualizadoEm: nowISO(),
+      };
+      const token = generateToken();
+
+      await saveUser(user, hashToken(token));
+
+      return {
+        status: 201,
+        jsonBody: {
+          success: true,
+          message: 'Usuário criado (guarde o token: ele não será exibido novamente)',
+          user,
+          token,
+        },
+      };
+    } catch (error) {
+      context.error('[bpoUsuarios] Error creating:', error);
+      return {
+        status: 500,
+        jsonBody: { success: false, message: 'Erro ao criar usuário' },
+      };
+    }
+  },
+});
+
+// Update user
+app.http('bpoUsuariosUpdate', {
+  methods: ['PUT'],
+  authLevel: 'function',
+  route: 'bpo/usuarios/{id}',
+  handler: async (
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> => {
+    const id = request.params.id;
+    context.log(`[bpoUsuarios] Update requested for ${id}`);
+
+    const auth = await authorize(request, ROLES.ADMIN);
+    if (!auth.ok) return auth.response;
+
+    try {
+      const existing = await getUser(id);
+
+      if (!existing) {
+        return {
+          status: 404,
+          jsonBody: { success: false, message: 'Usuário não encontrado' },
+        };
+      }
+
+      const body = (await request.json()) as Partial<Pick<OperatorUser, 'nome' | 'email' | 'role' | 'clientes' | 'ativo'>>;
+
+      const errors = validateUserFields(body);
+      if (errors.length > 0) {
+        return {
+          status: 400,
+          jsonBody: { success: false, message: 'Usuário inválido', errors },
+        };
+      }
+
+      const updated: OperatorUser = {
+        ...existing,
+        nome: body.nome ?? existing.nome,
+        email: body.email ?? existing.email,
+        role: body.role ?? existing.role,
+        clientes: body.clientes ?? existing.clientes,
+        ativo: body.ativo ?? existing.ativo,
+        atualizadoEm: nowISO(),
+      };
+
+      await saveUser(updated);
+
+      return {
+        status: 200,
+        jsonBody: {
+          success: true,
+          message: 'Usuário atualizado',
+          user: updated,
+        },
+      };
+    } catch (error) {
+      context.error('[bpoUsuarios] Error updating:', error);
+      return {
+        status: 500,
+        jsonBody: { success: false, message: 'Erro ao atualizar usuário' },
+      };
+    }
+  },
+});
+
+// Rotate token
+app.http('bpoUsuariosToken', {
+  methods: ['POST'],
+  authLevel: 'function',
+  route: 'bpo/usuarios/{id}/token',
+  handler: async (
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> => {
+    const id = request.params.id;
+    context.log(`[bpoUsuarios] Token rotation requested for ${id}`);
+
+    const auth = await authorize(request, ROLES.ADMIN);
+    if (!auth.ok) return auth.response;
+
+    try {
+      const existing = await getUser(id);
+
+      if (!existing) {
+        return {
+          status: 404,
+          jsonBody: { success: false, message: 'Usuário não encontrado' },
+        };
+      }
+
+      const token = generateToken();
+      await saveUser({ ...existing, atualizadoEm: nowISO() }, hashToken(token));
+
+      return {
+        status: 200,
+        jsonBody: {
+          success: true,
+          message: 'Novo token gerado; o anterior foi revogado',
+          token,
+        },
+      };
+    } catch (error) {
+      context.error('[bpoUsuarios] Error rotating token:', error);
+      return {
+        status: 500,
+        jsonBody: { success: false, message: 'Erro ao gerar token' },
+      };
+    }
+  },
+});
+
+function validateUserFields(body: { role?: UserRole; clientes?: string[] }): string[] {
+  const errors: string[] = [];
+
+  if (body.role !== undefined && !USER_ROLES.includes(body.role)) {
+    errors.push(`role inválido (${body.role}); use ${USER_ROLES.join(', ')}`);
+  }
+  if (body.clientes !== undefined && (!Array.isArray(body.clientes) || body.clientes.some((c) => typeof c !== 'string'))) {
+    errors.push('clientes deve ser uma lista de ids');
+  }
+
+  return errors;
+}
@@ -0,0 +1,170 @@
+/**
+ * WhatsApp Webhook - operacao-head
+ *
+ * GET  /api/whatsapp/webhook  - Verificação do webhook pela Meta (hub.challenge)
+ * POST /api/whatsapp/webhook  - Respostas aos botões Aprovar/Rejeitar do digest
+ *
+ * Chamado pela Meta, sem token bpo: a autenticidade vem da assinatura
+ * X-Hub-Signature-256 (HMAC-SHA256 do corpo com WHATSAPP_APP_SECRET).
+ * O número que respondeu precisa ser o WhatsApp cadastrado do cliente
+ * dono da autorização; o voto entra como "whatsapp:<número>" e segue a
+ * mesma política e o mesmo fluxo de bpo/autorizacoes/{id}/aprovar|rejeitar.
+ *
+ * POST assinado sempre responde 200 (a Meta reenvia quando não recebe).
+ */
+
+import {
+  app,
+  HttpRequest,
+  HttpResponseInit,
+  InvocationContext,
+} from '@azure/functions';
+import * as df from 'durable-functions';
+import { DurableClient } from 'durable-functions';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { getAuthorization, getClient } from '../storage/tableClient';
+import { aprovarAutorizacao, rejeitarAutorizacao } from '../infra/authorizationService';
+import { getWhatsappProvider, normalizarTelefone } from '../notifications/whatsappProvider';
+
+interface RespostaBotao {
+  de: string;
+  acao: 'aprovar' | 'rejeitar';
+  authorizationId: string;
+}
+
+/** Assinatura do corpo bruto: "sha256=<hex>" */
+export function assinaturaValida(corpo: string, assinatura: string | null, segredo: string): boolean {
+  if (!assinatura?.startsWith('sha256=')) return false;
+  const esperada = Buffer.from(createHmac('sha256', segredo).update(corpo, 'utf8').digest('hex'));
+  const recebida = Buffer.from(assinatura.substring(7));
+  return esperada.length === recebida.length && timingSafeEqual(esperada, recebida);
+}
+
+/** Extrai as respostas de botão (interactive e template quick reply) do payload */
+export function respostasDeBotao(payload: any): RespostaBotao[] {
+  const respostas: RespostaBotao[] = [];
+
+  for (const entry of payload?.entry || []) {
+    for (const change of entry?.changes || []) {
+      for (const msg of change?.value?.messages || []) {
+        const id: string | undefined =
+          msg?.type === 'interactive' ? msg.interactive?.button_reply?.id :
+          msg?.type === 'button' ? msg.button?.payload :
+          undefined;
+
+        const m = id?.match(/^(aprovar|rejeitar):(.+)$/);
+        if (m && msg.from) {
+          respostas.push({ de: normalizarTelefone(msg.from), acao: m[1] as RespostaBotao['acao'], authorizationId: m[2] });
+        }
+      }
+    }
+  }
+
+  return respostas;
+}
+
+/** Aplica a resposta e devolve o texto de confirmação (null = ignorar em silêncio) */
+async function processarResposta(
+  resposta: RespostaBotao,
+  durableClient: DurableClient,
+  context: InvocationContext
+): Promise<string | null> {
+  const autorizacao = await getAuthorization(resposta.authorizationId);
+  if (!autorizacao) {
+    context.warn(`[whatsappWebhook] Authorization ${resposta.authorizationId} not found`);
+    return null;
+  }
+
+  const client = await getClient(autorizacao.clientId);
+  const cadastrado = normalizarTelefone(client?.config?.notificacoes?.whatsappNumero);
+  if (!cadastrado || cadastrado !== resposta.de) {
+    context.warn(`[whatsappWebhook] ${resposta.de} is not the WhatsApp of ${autorizacao.clientId}; reply ignored`);
+    return null;
+  }
+
+  if (autorizacao.status !== 'pendente') {
+    return `A autorização "${autorizacao.descricao}" já está ${autorizacao.status}.`;
+  }
+
+  const usuario = `whatsapp:${resposta.de}`;
+
+  if (resposta.acao === 'rejeitar') {
+    const rejeicao = await rejeitarAutorizacao(autorizacao, 'Rejeitado pelo cliente via WhatsApp', usuario);
+    if (!rejeicao.rejeitada) return `Não foi possível rejeitar: ${rejeicao.motivo}.`;
+    return `Rejeitado: ${autorizacao.descricao}.`;
+  }
+
+  const resultado = await aprovarAutorizacao({
+    autorizacao,
+    client,
+    usuario,
+    notas: 'Aprovado via WhatsApp',
+    durableClient,
+  });
+
+  if (!resultado.permitido) return `Não foi possível aprovar: ${resultado.motivo}.`;
+  if (!resultado.concluida) {
+    return `Aprovação registrada (${resultado.aprovacoes.length}/${resultado.aprovacoesNecessarias}): ${autorizacao.descricao}. Aguardando demais aprovadores.`;
+  }
+  return `Aprovado: ${autorizacao.descricao}.`;
+}
+
+app.http('whatsappWebhook', {
+  methods: ['GET', 'POST'],
+  authLevel: 'anonymous',
+  route: 'whatsapp/webhook',
+  extraInputs: [df.input.durableClient()],
+  handler: async (
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> => {
+    if (request.method === 'GET') {
+      const verifyToken = process.env.WHATSAPP_VERIFY_TOKEN;
+      if (
+        verifyToken &&
+        request.query.get('hub.mode') === 'subscribe' &&
+        request.query.get('hub.verify_token') === verifyToken
+      ) {
+        return { status: 200, body: request.query.get('hub.challenge') || '' };
+      }
+      return { status: 403, jsonBody: { error: 'Token de verificação inválido' } };
+    }
+
+    const segredo = process.env.WHATSAPP_APP_SECRET;
+    if (!segredo) {
+      context.error('[whatsappWebhook] WHATSAPP_APP_SECRET not configured');
+      return { status: 503, jsonBody: { error: 'Webhook WhatsApp não configurado' } };
+    }
+
+    const corpo = await request.text();
+    if (!assinaturaValida(corpo, request.headers.get('x-hub-signature-256'), segredo)) {
+      return { status: 401, jsonBody: { error: 'Assinatura inválida' } };
+    }
+
+    let payload: any;
+    try {
+      payload = JSON.parse(corpo);
+    } catch {
+      return { status: 400, jsonBody: { success: false, message: 'JSON inválido' } };
+    }
+
+    const respostas = respostasDeBotao(payload);
+    context.log(`[whatsappWebhook] ${respostas.length} button reply(ies) received`);
+
+    const durableClient = df.getClient(context);
+    for (const resposta of respostas) {
+      try {
+        const confirmacao = await processarResposta(resposta, durableClient, context);
+        if (confirmacao) {
+          await getWhatsappProvider().enviarTexto(resposta.de, confirmacao).catch((error) =>
+            context.warn(`[whatsappWebhook] Confirmation to ${resposta.de} not sent: ${error.message}`)
+          );
+        }
+      } catch (error) {
+        context.error(`[whatsappWebhook] Error handling ${resposta.acao} ${resposta.authorizationId}:`, error);
+      }
+    }
+
+    return { status: 200, jsonBody: { success: true, processadas: respostas.length } };
+  },
+});
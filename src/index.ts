@@ -20,13 +20,21 @@ import './functions/bpoCycle';
 import './functions/bpoClientes';
 import './functions/bpoSimulation';
 import './functions/bpoTransactions';
+import './functions/bpoRegras';
+import './functions/bpoUsuarios';
+import './functions/bpoFluxoCaixa';
+import './functions/bpoRelatorios';
+import './functions/bpoOrcamentos';
+import './functions/whatsappWebhook';
 
 // Triggers
 import './triggers/dailyTrigger';
+import './triggers/pipelineWorkers';
 
 // Orchestrators
 import './orchestrators/dailyCycleOrchestrator';
 import './orchestrators/clientProcessingOrchestrator';
+import './orchestrators/paymentExecutionOrchestrator';
 
 // Activities
 import './activities/captureActivity';
@@ -36,6 +44,7 @@ import './activities/aiProcessingActivity';
 import './activities/infraActivities';
 import './activities/notificationActivity';
 import './activities/feedbackActivity';
+import './activities/paymentActivity';
 
 // Metrics
 import './functions/bpoMetrics';
@@ -47,6 +56,9 @@ import './ops/inter/index';
 import './ops/omie/index';
 import './ops/controlle/index';
 import './ops/getnet/index';
+import './ops/ofx/index';
+import './ops/planilha/index';
+import './ops/cnab/index';
 
 // Ensure storage tables exist on startup
 import { ensureAllTables } from './storage/tableClient';
@@ -0,0 +1,113 @@
+/**
+ * ApprovalPolicy - Política de aprovação (quatro olhos) por cliente
+ *
+ * Cada faixa de valor define quantos aprovadores distintos são necessários
+ * e, opcionalmente, quem pode aprovar. Quem preparou o lançamento não
+ * aprova o próprio item, salvo se a política permitir explicitamente.
+ *
+ * Sem política salva (ClientConfig.politicaAprovacao) vale a padrão:
+ * 1 aprovador até R$ 50.000, 2 acima (mesmo limite de escalação do DecisionEngine).
+ */
+
+import { ApprovalBand, ApprovalPolicy, PendingAuthorization } from '../../shared/types';
+
+export const DEFAULT_APPROVAL_POLICY: ApprovalPolicy = {
+    faixas: [
+        { acimaDe: 0, aprovacoes: 1 },
+        { acimaDe: 50000, aprovacoes: 2 },
+    ],
+    preparadorPodeAprovar: false,
+};
+
+export interface ApprovalEvaluation {
+    permitido: boolean;
+    motivo?: string;
+    faixa: ApprovalBand;
+    aprovacoesNecessarias: number;
+    aprovacoesRegistradas: number; // incluindo o voto avaliado, se permitido
+    concluida: boolean;
+}
+
+/** Valida a política antes de persistir. Retorna a lista de erros (vazia = válida). */
+export function validateApprovalPolicy(policy: ApprovalPolicy): string[] {
+    const errors: string[] = [];
+
+    if (!policy || !Array.isArray(policy.faixas) || policy.faixas.length === 0) {
+        return ['faixas deve ser uma lista não vazia'];
+    }
+
+    const limites = new Set<number>();
+    policy.faixas.forEach((faixa, i) => {
+        if (typeof faixa?.acimaDe !== 'number' || faixa.acimaDe < 0) {
+            errors.push(`Faixa ${i}: acimaDe deve ser um número >= 0`);
+        } else if (limites.has(faixa.acimaDe)) {
+            errors.push(`Faixa ${i}: acimaDe ${faixa.acimaDe} duplicado`);
+        } else {
+            limites.add(faixa.acimaDe);
+        }
+
+        if (!Number.isInteger(faixa?.aprovacoes) || faixa.aprovacoes < 1) {
+            errors.push(`Faixa ${i}: aprovacoes deve ser um inteiro >= 1`);
+        }
+        if (faixa?.aprovadores && faixa.aprovadores.length > 0 && faixa.aprovadores.length < faixa.aprovacoes) {
+            errors.push(`Faixa ${i}: ${faixa.aprovacoes} aprovações exigidas mas só ${faixa.aprovadores.length} aprovador(es) permitido(s)`);
+        }
+    });
+
+    return errors;
+}
+
+/** Faixa aplicável ao valor: a de maior limite ainda abaixo do valor */
+export function resolveApprovalBand(policy: ApprovalPolicy, valor: number): ApprovalBand {
+    const absoluto = Math.abs(valor);
+    const aplicaveis = policy.faixas
+        .filter((f) => absoluto > f.acimaDe)
+        .sort((a, b) => b.acimaDe - a.acimaDe);
+
+    return aplicaveis[0] || { acimaDe: 0, aprovacoes: 1 };
+}
+
+function normalizeUser(usuario: string): string {
+    return usuario.trim().toLowerCase();
+}
+
+/**
+ * Avalia o voto de `usuario` sobre a autorização: se ele pode votar
+ * e se, com o voto, a política fica satisfeita.
+ */
+export function evaluateApproval(
+    auth: PendingAuthorization,
+    usuario: string,
+    policy: ApprovalPolicy = DEFAULT_APPROVAL_POLICY
+): ApprovalEvaluation {
+    const faixa = resolveApprovalBand(policy, auth.valor);
+    const votos = auth.aprovacoes || [];
+    const eu = normalizeUser(usuario);
+
+    const base = {
+        faixa,
+        aprovacoesNecessarias: faixa.aprovacoes,
+        aprovacoesRegistradas: votos.length,
+        concluida: false,
+    };
+
+    if (!policy.preparadorPodeAprovar && auth.preparadoPor && normalizeUser(auth.preparadoPor) === eu) {
+        return { ...base, permitido: false, motivo: 'Quem preparou o lançamento não pode aprová-lo' };
+    }
+
+    if (faixa.aprovadores && faixa.aprovadores.length > 0 && !faixa.aprovadores.map(normalizeUser).includes(eu)) {
+        return { ...base, permitido: false, motivo: `Usuário não autorizado a aprovar valores acima de R$ ${faixa.acimaDe.toFixed(2)}` };
+    }
+
+    if (votos.some((v) => normalizeUser(v.usuario) === eu)) {
+        return { ...base, permitido: false, motivo: 'Usuário já aprovou esta autorização' };
+    }
+
+    const aprovacoesRegistradas = votos.length + 1;
+    return {
+        ...base,
+        permitido: true,
+        aprovacoesRegistradas,
+        concluida: aprovacoesRegistradas >= faixa.aprovacoes,
+    };
+}
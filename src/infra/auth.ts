@@ -0,0 +1,150 @@
+/**
+ * Auth - Identidade e controle de acesso da API bpo/*
+ *
+ * Cada requisição traz "Authorization: Bearer <token>". O token é opaco:
+ * guardamos só o SHA-256 na tabela de usuários (OperacaoUsers), então um
+ * vazamento da tabela não expõe credenciais e rotacionar = gravar novo hash.
+ *
+ * BPO_ADMIN_TOKEN (opcional) autentica um admin de bootstrap, usado para
+ * cadastrar os primeiros usuários.
+ *
+ * Papéis (do menor para o maior): client-viewer → operator → supervisor → admin.
+ * Fora o admin, o usuário só enxerga os clientes atribuídos (clientes: ['*'] = todos).
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { HttpRequest, HttpResponseInit } from '@azure/functions';
+import { getUserByTokenHash } from '../storage/tableClient';
+import { OperatorUser, UserRole } from '../../shared/types';
+import { createLogger, nowISO } from '../../shared/utils';
+
+const logger = createLogger('Auth');
+
+/** Grupos de papéis usados pelas rotas */
+export const ROLES: Record<'TODOS' | 'EQUIPE' | 'GESTAO' | 'ADMIN', UserRole[]> = {
+    TODOS: ['client-viewer', 'operator', 'supervisor', 'admin'],
+    EQUIPE: ['operator', 'supervisor', 'admin'],
+    GESTAO: ['supervisor', 'admin'],
+    ADMIN: ['admin'],
+};
+
+export const USER_ROLES: UserRole[] = ROLES.TODOS;
+
+export type AuthResult =
+    | { ok: true; user: OperatorUser }
+    | { ok: false; response: HttpResponseInit };
+
+/** Token novo (exibido uma única vez na criação/rotação) */
+export function generateToken(): string {
+    return randomBytes(32).toString('base64url');
+}
+
+export function hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+}
+
+function bearerToken(request: HttpRequest): string | null {
+    const header = request.headers?.get('authorization') || '';
+    const match = header.match(/^Bearer\s+(.+)$/i);
+    return match ? match[1].trim() : null;
+}
+
+function isBootstrapToken(token: string): boolean {
+    const expected = process.env.BPO_ADMIN_TOKEN;
+    if (!expected) return false;
+
+    const a = Buffer.from(hashToken(token));
+    const b = Buffer.from(hashToken(expected));
+    return timingSafeEqual(a, b);
+}
+
+/** Resolve o usuário do bearer token (null = não autenticado) */
+export async function authenticate(request: HttpRequest): Promise<OperatorUser | null> {
+    const token = bearerToken(request);
+    if (!token) return null;
+
+    if (isBootstrapToken(token)) {
+        return {
+            id: 'admin',
+            nome: 'Administrador (bootstrap)',
+            role: 'admin',
+            clientes: ['*'],
+            ativo: true,
+            criadoEm: nowISO(),
+            atualizadoEm: nowISO(),
+        };
+    }
+
+    try {
+        const user = await getUserByTokenHash(hashToken(token));
+        return user && user.ativo ? user : null;
+    } catch (error) {
+        logger.error('Erro ao validar token', error);
+        return null;
+    }
+}
+
+/** Admin e atribuição '*' enxergam todos os clientes */
+export function hasAllClients(user: OperatorUser): boolean {
+    return user.role === 'admin' || user.clientes.includes('*');
+}
+
+export function canAccessClient(user: OperatorUser, clientId: string): boolean {
+    return hasAllClients(user) || user.clientes.includes(clientId);
+}
+
+/** Clientes visíveis ao usuário (undefined = todos) */
+export function accessibleClientIds(user: OperatorUser): string[] | undefined {
+    return hasAllClients(user) ? undefined : user.clientes;
+}
+
+/** Mantém só os itens de clientes atribuídos ao usuário */
+export function filterByClientAccess<T extends { clientId: string }>(user: OperatorUser, items: T[]): T[] {
+    return hasAllClients(user) ? items : items.filter((i) => user.clientes.includes(i.clientId));
+}
+
+export function unauthorized(): HttpResponseInit {
+    return {
+        status: 401,
+        headers: { 'WWW-Authenticate': 'Bearer' },
+        jsonBody: { success: false, message: 'Token de acesso ausente ou inválido' },
+    };
+}
+
+export function forbidden(message: string = 'Acesso negado'): HttpResponseInit {
+    return {
+        status: 403,
+        jsonBody: { success: false, message },
+    };
+}
+
+/** 403 se o usuário não tiver acesso ao cliente, senão null */
+export function denyClientAccess(user: OperatorUser, clientId: string): HttpResponseInit | null {
+    return canAccessClient(user, clientId) ? null : forbidden(`Sem acesso ao cliente ${clientId}`);
+}
+
+/**
+ * Autentica e verifica papel (e o cliente, quando já conhecido pela rota).
+ *
+ *   const auth = await authorize(request, ROLES.GESTAO, clientId);
+ *   if (!auth.ok) return auth.response;
+ */
+export async function authorize(
+    request: HttpRequest,
+    roles: UserRole[],
+    clientId?: string
+): Promise<AuthResult> {
+    const user = await authenticate(request);
+    if (!user) return { ok: false, response: unauthorized() };
+
+    if (!roles.includes(user.role)) {
+        return { ok: false, response: forbidden(`Papel ${user.role} não tem permissão para esta operação`) };
+    }
+
+    if (clientId) {
+        const denied = denyClientAccess(user, clientId);
+        if (denied) return { ok: false, response: denied };
+    }
+
+    return { ok: true, user };
+}
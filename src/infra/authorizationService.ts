@@ -0,0 +1,139 @@
+/**
+ * AuthorizationService - Voto e rejeição de autorizações
+ *
+ * Fluxo único para o painel (bpo/autorizacoes/{id}/aprovar|rejeitar) e
+ * para as respostas do cliente pelo WhatsApp. Quem chama já validou que
+ * a autorização existe, está pendente e que o votante tem acesso.
+ *
+ * Aprovação: aplica a política do cliente sobre a autorização relida a
+ * cada tentativa de gravação (votos simultâneos não se sobrescrevem),
+ * grava o voto e o histórico e,
+ * quando a política fica satisfeita, dispara o pagamento via API (se o
+ * banco suporta) — falha no disparo não desfaz a aprovação.
+ */
+
+import { DurableClient } from 'durable-functions';
+import { AuthorizationApproval, Client, PendingAuthorization } from '../../shared/types';
+import { createLogger, nowISO } from '../../shared/utils';
+import { addHistoryAction, recordAuthorizationApproval, rejectAuthorization } from '../storage/tableClient';
+import { DEFAULT_APPROVAL_POLICY, evaluateApproval } from './approvalPolicy';
+import { usaPagamentoViaApi } from './paymentGateway';
+import { startPaymentExecution } from '../orchestrators/paymentExecutionOrchestrator';
+
+const logger = createLogger('AuthorizationService');
+
+export type ResultadoAprovacao =
+    | { permitido: false; motivo: string; jaResolvida?: boolean }
+    | {
+        permitido: true;
+        concluida: boolean;
+        aprovacoes: AuthorizationApproval[];
+        aprovacoesNecessarias: number;
+        pagamento?: { modo: 'api' | 'cnab'; instanceId?: string };
+    };
+
+export async function aprovarAutorizacao(params: {
+    autorizacao: PendingAuthorization;
+    client: Client | null;
+    usuario: string;
+    notas?: string;
+    durableClient?: DurableClient;
+}): Promise<ResultadoAprovacao> {
+    const { autorizacao, client, usuario, notas, durableClient } = params;
+    const id = autorizacao.id;
+
+    const politica = client?.config?.politicaAprovacao || DEFAULT_APPROVAL_POLICY;
+    let recusa: { motivo: string; jaResolvida?: boolean } | undefined;
+
+    const voto = await recordAuthorizationApproval(id, (atual) => {
+        if (atual.status !== 'pendente') {
+            recusa = { motivo: `Autorização já ${atual.status}`, jaResolvida: true };
+            return null;
+        }
+
+        const avaliacao = evaluateApproval(atual, usuario, politica);
+        if (!avaliacao.permitido) {
+            recusa = { motivo: avaliacao.motivo || 'Aprovação não permitida' };
+            return null;
+        }
+
+        return {
+            aprovacoes: [...(atual.aprovacoes || []), { usuario, data: nowISO(), notas }],
+            aprovacoesNecessarias: avaliacao.aprovacoesNecessarias,
+            concluida: avaliacao.concluida,
+        };
+    });
+
+    if (!voto) {
+        return { permitido: false, motivo: 'Aprovação não permitida', ...recusa };
+    }
+
+    const { aprovacoes, aprovacoesNecessarias, concluida } = voto;
+
+    // Cada voto entra no histórico
+    await addHistoryAction({
+        id: `hist-${Date.now()}`,
+        clientId: autorizacao.clientId,
+        tipo: 'aprovacao',
+        descricao: concluida
+            ? `Autorização ${id} aprovada (${aprovacoes.length}/${aprovacoesNecessarias})`
+            : `Voto ${aprovacoes.length}/${aprovacoesNecessarias} na autorização ${id}`,
+        usuario,
+        data: nowISO(),
+        detalhes: {
+            authorizationId: id,
+            notas,
+            aprovacoes: aprovacoes.length,
+            aprovacoesNecessarias,
+            concluida,
+        },
+    });
+
+    const resultado: ResultadoAprovacao = {
+        permitido: true,
+        concluida,
+        aprovacoes,
+        aprovacoesNecessarias,
+    };
+
+    // Execução do pagamento via API do banco
+    if (concluida && autorizacao.tipo === 'pagar') {
+        resultado.pagamento = { modo: usaPagamentoViaApi(client?.config) ? 'api' : 'cnab' };
+
+        if (resultado.pagamento.modo === 'api' && durableClient) {
+            try {
+                resultado.pagamento.instanceId = await startPaymentExecution(durableClient, id);
+            } catch (error: any) {
+                logger.error(`Execução do pagamento ${id} não iniciada`, error);
+            }
+        }
+    }
+
+    return resultado;
+}
+
+export type ResultadoRejeicao =
+    | { rejeitada: true }
+    | { rejeitada: false; motivo: string };
+
+export async function rejeitarAutorizacao(
+    autorizacao: PendingAuthorization,
+    motivo: string,
+    usuario: string
+): Promise<ResultadoRejeicao> {
+    // Aprovada/rejeitada por outro usuário depois da leitura de quem chama
+    const { rejeitada, status } = await rejectAuthorization(autorizacao.id, motivo, usuario);
+    if (!rejeitada) return { rejeitada: false, motivo: `Autorização já ${status}` };
+
+    await addHistoryAction({
+        id: `hist-${Date.now()}`,
+        clientId: autorizacao.clientId,
+        tipo: 'rejeicao',
+        descricao: `Autorização ${autorizacao.id} rejeitada: ${motivo}`,
+        usuario,
+        data: nowISO(),
+        detalhes: { authorizationId: autorizacao.id, motivo },
+    });
+
+    return { rejeitada: true };
+}
@@ -0,0 +1,109 @@
+/**
+ * BankAccount - Saldo e extrato da conta do cliente (Santander / Inter)
+ *
+ * Leitura normalizada para quem precisa do dinheiro que de fato está
+ * (ou entrou) na conta: fluxo de caixa e conferência de liquidações.
+ *
+ * Santander não tem endpoint de saldo: usamos o saldo do último
+ * lançamento do extrato. O banco é escolhido por ClientConfig.banco.
+ */
+
+import { Client } from '../../shared/types';
+import { resolveInterCredentials, resolveSantanderCredentials } from './credentialResolver';
+import { getSantanderClient, getSantanderClientForTenant, SantanderClient } from '../ops/santander/adapters/client';
+import { SantanderConfig } from '../ops/santander/adapters/types';
+import { getInterClientForTenant, InterClient } from '../ops/inter/adapters/client';
+
+const BANCOS_EXTRATO = ['santander', 'inter'] as const;
+export type BancoExtrato = typeof BANCOS_EXTRATO[number];
+
+/** Lançamento do extrato (valor positivo = crédito, negativo = débito) */
+export interface LancamentoBancario {
+    data: string; // YYYY-MM-DD
+    valor: number;
+    descricao: string;
+    banco: BancoExtrato;
+}
+
+export interface SaldoBancario {
+    banco: BancoExtrato;
+    saldo: number;
+    dataReferencia: string; // data do saldo (Santander: último lançamento)
+}
+
+export function temExtratoViaApi(client: Client): boolean {
+    return BANCOS_EXTRATO.includes((client.config?.banco || '').toLowerCase() as BancoExtrato);
+}
+
+function bancoDoCliente(client: Client): BancoExtrato {
+    const banco = (client.config?.banco || '').toLowerCase();
+    if (!BANCOS_EXTRATO.includes(banco as BancoExtrato)) {
+        throw new Error(`Banco ${banco || '(não configurado)'} sem extrato via API`);
+    }
+    return banco as BancoExtrato;
+}
+
+/** statement_id do Santander: agência (4) + "." + conta com dígito (12) */
+export function santanderAccountId(config: Pick<SantanderConfig, 'agencia' | 'conta' | 'contaDigito'>): string {
+    const conta = `${config.conta || ''}${config.contaDigito || ''}`;
+    return `${(config.agencia || '').padStart(4, '0')}.${conta.padStart(12, '0')}`;
+}
+
+async function getSantander(client: Client): Promise<{ santander: SantanderClient; accountId: string }> {
+    const creds = await resolveSantanderCredentials(client.config, client.tenantId);
+    // Mesma regra da captura/pagamento: conta cadastrada → credenciais do cliente
+    const santander = client.config.bancoAgencia ? getSantanderClientForTenant(creds) : getSantanderClient();
+    return { santander, accountId: santanderAccountId(creds) };
+}
+
+async function getInter(client: Client): Promise<InterClient> {
+    return getInterClientForTenant(await resolveInterCredentials(client.config, client.tenantId));
+}
+
+function isoDate(data: string): string {
+    return data.split('T')[0];
+}
+
+/** Lançamentos do extrato no período (inclusive) */
+export async function getLancamentos(client: Client, inicio: string, fim: string): Promise<LancamentoBancario[]> {
+    const banco = bancoDoCliente(client);
+
+    if (banco === 'santander') {
+        const { santander, accountId } = await getSantander(client);
+        const statements = await santander.getStatements(accountId, inicio, fim);
+        return statements.map((s) => ({
+            data: isoDate(s.date),
+            valor: s.type === 'debit' ? -Math.abs(s.value) : Math.abs(s.value),
+            descricao: s.description || '',
+            banco,
+        }));
+    }
+
+    const inter = await getInter(client);
+    const extrato = await inter.getExtrato({ dataInicio: inicio, dataFim: fim });
+    return extrato.map((e) => ({
+        data: isoDate(e.dataEntrada),
+        valor: e.tipoOperacao === 'D' ? -Math.abs(parseFloat(e.valor)) : Math.abs(parseFloat(e.valor)),
+        descricao: [e.titulo, e.descricao].filter(Boolean).join(' - '),
+        banco,
+    }));
+}
+
+/** Saldo atual da conta (null se o banco não respondeu) */
+export async function getSaldo(client: Client, hoje: string): Promise<SaldoBancario | null> {
+    const banco = bancoDoCliente(client);
+
+    if (banco === 'santander') {
+        const { santander, accountId } = await getSantander(client);
+        const inicio = new Date(`${hoje}T00:00:00Z`);
+        inicio.setUTCDate(inicio.getUTCDate() - 30);
+
+        const statements = await santander.getStatements(accountId, isoDate(inicio.toISOString()), hoje);
+        const ultimo = statements[statements.length - 1];
+        return ultimo ? { banco, saldo: ultimo.balance, dataReferencia: isoDate(ultimo.date) } : null;
+    }
+
+    const inter = await getInter(client);
+    const saldo = await inter.getSaldo();
+    return saldo ? { banco, saldo: saldo.disponivel, dataReferencia: hoje } : null;
+}
@@ -0,0 +1,234 @@
+/**
+ * CashFlow - Fluxo de caixa realizado + projetado por cliente
+ *
+ * Monta o CashFlow a partir de três fontes:
+ *   - Conta bancária (Santander/Inter): saldo atual e lançamentos até hoje
+ *   - Contas a pagar/receber em aberto capturadas do ERP (Nibo/Omie/Controlle)
+ *   - Agenda de recebíveis de cartão (Getnet), a partir de amanhã
+ *
+ * O saldo atual é a âncora: dias passados descontam o extrato, dias
+ * futuros somam as previsões. Títulos vencidos e não baixados entram
+ * em hoje — ainda são dinheiro a sair/entrar.
+ */
+
+import {
+    CashFlow,
+    Client,
+    FluxoCaixaDia,
+    Transaction,
+    TransactionSource,
+    TransactionStatus,
+    TransactionType,
+} from '../../shared/types';
+import { roundMoney } from '../../shared/utils';
+import { getTransactionsBySource, getRecebiveisAgenda } from '../storage/tableClient';
+import { projetarAgenda } from '../ops/getnet/functions/agenda';
+import { getLancamentos, getSaldo, temExtratoViaApi, LancamentoBancario } from './bankAccount';
+
+export type MovimentacaoCaixa = CashFlow['movimentacoes'][number];
+
+export interface FluxoCaixaProjetado extends CashFlow {
+    clientId: string;
+    hoje: string;
+    saldoAtual: number | null;
+    dias: FluxoCaixaDia[];
+    diasNegativos: string[];
+    avisos: string[];
+}
+
+const FONTES_ERP = [TransactionSource.NIBO, TransactionSource.OMIE, TransactionSource.CONTROLLE];
+
+// Títulos já liquidados ou descartados não movimentam caixa
+const STATUS_FECHADOS = new Set<TransactionStatus>([
+    TransactionStatus.PAGO,
+    TransactionStatus.RECEBIDO,
+    TransactionStatus.CONCILIADO,
+    TransactionStatus.REJEITADO,
+]);
+
+function somarDias(data: string, dias: number): string {
+    const d = new Date(`${data}T00:00:00Z`);
+    d.setUTCDate(d.getUTCDate() + dias);
+    return d.toISOString().split('T')[0];
+}
+
+function listarDatas(inicio: string, fim: string): string[] {
+    const datas: string[] = [];
+    for (let data = inicio; data <= fim; data = somarDias(data, 1)) {
+        datas.push(data);
+    }
+    return datas;
+}
+
+// ============================================================================
+// FONTES → MOVIMENTAÇÕES
+// ============================================================================
+
+export function movimentacoesDoExtrato(lancamentos: LancamentoBancario[]): MovimentacaoCaixa[] {
+    return lancamentos
+        .filter((l) => l.valor !== 0)
+        .map((l) => ({
+            data: l.data,
+            tipo: l.valor > 0 ? 'entrada' as const : 'saida' as const,
+            valor: roundMoney(Math.abs(l.valor)),
+            categoria: `Extrato ${l.banco}`,
+            descricao: l.descricao,
+            realizado: true,
+        }));
+}
+
+/** Pagar/receber em aberto; vencidos são trazidos para hoje */
+export function movimentacoesEmAberto(transacoes: Transaction[], hoje: string): MovimentacaoCaixa[] {
+    const movimentacoes: MovimentacaoCaixa[] = [];
+
+    for (const tx of transacoes) {
+        if (tx.type !== TransactionType.PAGAR && tx.type !== TransactionType.RECEBER) continue;
+        if (STATUS_FECHADOS.has(tx.status) || tx.dataRealizacao) continue;
+
+        const vencimento = (tx.dataVencimento || tx.dataEmissao || '').split('T')[0];
+        if (!vencimento || !tx.valor) continue;
+
+        movimentacoes.push({
+            data: vencimento < hoje ? hoje : vencimento,
+            tipo: tx.type === TransactionType.RECEBER ? 'entrada' : 'saida',
+            valor: roundMoney(Math.abs(tx.valor)),
+            categoria: tx.categoriaNome || 'Sem categoria',
+            descricao: [tx.descricao, tx.contraparte].filter(Boolean).join(' - '),
+            realizado: false,
+        });
+    }
+
+    return movimentacoes;
+}
+
+export function movimentacoesDeCartao(dias: Array<{ data: string; liquido: number }>): MovimentacaoCaixa[] {
+    return dias
+        .filter((d) => Math.abs(d.liquido) >= 0.01)
+        .map((d) => ({
+            data: d.data,
+            tipo: d.liquido > 0 ? 'entrada' as const : 'saida' as const,
+            valor: roundMoney(Math.abs(d.liquido)),
+            categoria: 'Recebíveis de cartão',
+            descricao: 'Liquidação prevista da adquirente',
+            realizado: false,
+        }));
+}
+
+// ============================================================================
+// CORE LOGIC
+// ============================================================================
+
+/**
+ * Saldo dia a dia de inicio a fim.
+ *
+ * saldoAtual é o saldo ao final de hoje já com o extrato de hoje; os
+ * realizados devem cobrir [inicio, hoje] — mesmo com fim no passado, para
+ * o saldo inicial voltar de hoje até inicio — e os previstos começar em hoje.
+ * Previstos antes de inicio (período todo no futuro) só afetam o saldo inicial.
+ */
+export function montarFluxoCaixa(params: {
+    inicio: string;
+    fim: string;
+    hoje: string;
+    saldoAtual: number;
+    realizados: MovimentacaoCaixa[];
+    previstos: MovimentacaoCaixa[];
+}): CashFlow & { dias: FluxoCaixaDia[] } {
+    const { inicio, fim, hoje, saldoAtual } = params;
+    const sinal = (m: MovimentacaoCaixa) => (m.tipo === 'entrada' ? m.valor : -m.valor);
+
+    const realizadosAteHoje = params.realizados.filter((m) => m.data >= inicio && m.data <= hoje);
+    const realizados = realizadosAteHoje.filter((m) => m.data <= fim);
+    const previstos = params.previstos.filter((m) => m.data >= hoje && m.data <= fim);
+
+    const saldoInicial = roundMoney(
+        saldoAtual
+        - realizadosAteHoje.reduce((s, m) => s + sinal(m), 0)
+        + previstos.filter((m) => m.data < inicio).reduce((s, m) => s + sinal(m), 0)
+    );
+
+    const movimentacoes = [...realizados, ...previstos.filter((m) => m.data >= inicio)]
+        .sort((a, b) => a.data.localeCompare(b.data) || Number(b.realizado) - Number(a.realizado));
+
+    const porData = new Map<string, MovimentacaoCaixa[]>();
+    for (const m of movimentacoes) {
+        if (!porData.has(m.data)) porData.set(m.data, []);
+        porData.get(m.data)!.push(m);
+    }
+
+    let saldo = saldoInicial;
+    const dias: FluxoCaixaDia[] = listarDatas(inicio, fim).map((data) => {
+        const doDia = porData.get(data) || [];
+        const entradas = roundMoney(doDia.filter((m) => m.tipo === 'entrada').reduce((s, m) => s + m.valor, 0));
+        const saidas = roundMoney(doDia.filter((m) => m.tipo === 'saida').reduce((s, m) => s + m.valor, 0));
+        saldo = roundMoney(saldo + entradas - saidas);
+        return { data, entradas, saidas, saldo, negativo: saldo < 0 };
+    });
+
+    return {
+        periodo: { inicio, fim },
+        saldoInicial,
+        saldoFinal: dias.length > 0 ? dias[dias.length - 1].saldo : saldoInicial,
+        entradas: roundMoney(dias.reduce((s, d) => s + d.entradas, 0)),
+        saidas: roundMoney(dias.reduce((s, d) => s + d.saidas, 0)),
+        movimentacoes,
+        dias,
+    };
+}
+
+/**
+ * Busca as fontes do cliente e monta o fluxo. Banco fora do ar não
+ * derruba o fluxo: o saldo parte de zero e o motivo vai em avisos.
+ */
+export async function projetarFluxoCaixa(
+    client: Client,
+    inicio: string,
+    fim: string,
+    hoje: string
+): Promise<FluxoCaixaProjetado> {
+    const avisos: string[] = [];
+    let saldoAtual: number | null = null;
+    let realizados: MovimentacaoCaixa[] = [];
+
+    if (temExtratoViaApi(client)) {
+        try {
+            const saldo = await getSaldo(client, hoje);
+            if (saldo) {
+                saldoAtual = saldo.saldo;
+                if (inicio <= hoje) {
+                    realizados = movimentacoesDoExtrato(await getLancamentos(client, inicio, hoje));
+                }
+            } else {
+                avisos.push('Banco não retornou saldo; projeção parte de saldo zero');
+            }
+        } catch (error: any) {
+            avisos.push(`Saldo bancário indisponível (${error.message}); projeção parte de saldo zero`);
+            saldoAtual = null;
+            realizados = [];
+        }
+    } else {
+        avisos.push(`Banco ${client.config?.banco || '(não configurado)'} sem extrato via API; projeção parte de saldo zero`);
+    }
+
+    const [transacoes, agenda] = await Promise.all([
+        Promise.all(FONTES_ERP.map((source) => getTransactionsBySource(client.id, source))).then((r) => r.flat()),
+        fim > hoje ? getRecebiveisAgenda(client.id, somarDias(hoje, 1), fim) : Promise.resolve([]),
+    ]);
+
+    // Liquidação de hoje pode já estar no saldo; cartão entra a partir de amanhã
+    const previstos = [
+        ...movimentacoesEmAberto(transacoes, hoje),
+        ...movimentacoesDeCartao(projetarAgenda(agenda).dias),
+    ];
+
+    const fluxo = montarFluxoCaixa({ inicio, fim, hoje, saldoAtual: saldoAtual ?? 0, realizados, previstos });
+
+    return {
+        clientId: client.id,
+        hoje,
+        saldoAtual,
+        ...fluxo,
+        diasNegativos: fluxo.dias.filter((d) => d.negativo).map((d) => d.data),
+        avisos,
+    };
+}
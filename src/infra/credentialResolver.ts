@@ -12,7 +12,7 @@
 import { Client, ClientConfig } from '../../shared/types';
 import { getClientById } from '../../shared/storage/clientStorage';
 import { createLogger } from '../../shared/utils';
-import { getTenantSecret, SECRET_NAMES } from './keyVaultHelper';
+import { getTenantSecret, readTenantSecret, SECRET_NAMES } from './keyVaultHelper';
 
 const logger = createLogger('CredentialResolver');
 
@@ -41,9 +41,23 @@ export interface SantanderCredentials {
 export interface GetnetCredentials {
   user: string;
   estabelecimento?: string;
+  estabelecimentos: string[]; // todos os códigos do cliente (vazio = arquivo inteiro)
   password?: string;
 }
 
+export interface NiboCredentials {
+  apiToken: string;
+}
+
+export interface InterCredentials {
+  clientId: string;
+  clientSecret: string;
+  environment: 'sandbox' | 'production';
+  contaCorrente?: string;
+  certBase64?: string;
+  keyBase64?: string;
+}
+
 // ============================================================================
 // RESOLVERS
 // ============================================================================
@@ -51,30 +65,35 @@ export interface GetnetCredentials {
 /**
  * Resolve credenciais Omie para um cliente.
  *
- * Login (appKey)   → ClientConfig.omieAppKey → env OMIE_APP_KEY
- * Secret (appSecret) → Key Vault {tenantId}-OMIE-APP-SECRET → env OMIE_APP_SECRET
+ * Com app key no cadastro (ClientConfig.omieAppKey):
+ *   Secret (appSecret) → Key Vault {tenantId}-OMIE-APP-SECRET → ClientConfig.omieAppSecret (legado)
+ * Sem app key: OMIE_APP_KEY + OMIE_APP_SECRET (env).
+ *
+ * A app key do cliente nunca é combinada com o secret global: seria o
+ * par de outra conta Omie.
  */
 export async function resolveOmieCredentials(
   config: ClientConfig,
   tenantId?: string
 ): Promise<OmieCredentials> {
-  // Login — Table Storage ou env
-  const appKey = config.omieAppKey || process.env.OMIE_APP_KEY || '';
+  if (config.omieAppKey) {
+    const appSecret = (tenantId ? await readTenantSecret(tenantId, SECRET_NAMES.omie.APP_SECRET) : '')
+      || config.omieAppSecret || '';
+    if (!appSecret) {
+      throw new Error(`Omie credentials not found (appSecret do tenant ${tenantId || '?'} ausente no Key Vault)`);
+    }
 
-  // Secret — Key Vault ou env
-  let appSecret = '';
-  if (tenantId) {
-    appSecret = await getTenantSecret(tenantId, SECRET_NAMES.omie.APP_SECRET);
-  }
-  if (!appSecret) {
-    appSecret = process.env.OMIE_APP_SECRET || '';
+    logger.info('Omie credentials resolved', { tenantId, loginFrom: 'ClientConfig' });
+    return { appKey: config.omieAppKey, appSecret };
   }
 
+  const appKey = process.env.OMIE_APP_KEY || '';
+  const appSecret = process.env.OMIE_APP_SECRET || '';
   if (!appKey || !appSecret) {
     throw new Error('Omie credentials not found (appKey via ClientConfig, appSecret via Key Vault ou env)');
   }
 
-  logger.info('Omie credentials resolved', { tenantId, loginFrom: config.omieAppKey ? 'ClientConfig' : 'env' });
+  logger.info('Omie credentials resolved', { tenantId, loginFrom: 'env' });
   return { appKey, appSecret };
 }
 
@@ -128,33 +147,140 @@ export async function resolveSantanderCredentials(
 /**
  * Resolve credenciais Getnet para um cliente.
  *
- * Login (user)        → ClientConfig.getnetUser → env GETNET_USER
- * Estabelecimento     → ClientConfig.getnetEstabelecimento
- * Secret (password)   → Key Vault GETNET-PASS (compartilhado)
+ * Com login no cadastro (ClientConfig.getnetUser):
+ *   Secret (password) → Key Vault {tenantId}-GETNET-PASS
+ * Sem login: GETNET_USER (env) + GETNET-PASS (compartilhado).
+ * Estabelecimentos → ClientConfig.getnetEstabelecimentos + getnetEstabelecimento
+ *
+ * O login do cliente nunca é combinado com a senha compartilhada: seria
+ * o par de outro SFTP.
  */
 export async function resolveGetnetCredentials(
-  config: ClientConfig
+  config: ClientConfig,
+  tenantId?: string
 ): Promise<GetnetCredentials> {
-  // Login — Table Storage ou env
-  const user = config.getnetUser || process.env.GETNET_USER || '';
+  let user: string;
+  let password: string;
 
-  // Secret — Key Vault (compartilhado, sem tenantId)
-  const password = await getTenantSecret('', SECRET_NAMES.getnet.PASSWORD);
+  if (config.getnetUser) {
+    user = config.getnetUser;
+    password = tenantId ? await readTenantSecret(tenantId, SECRET_NAMES.getnet.PASSWORD) : '';
+    if (!password) {
+      throw new Error(`Getnet credentials not found (senha do tenant ${tenantId || '?'} ausente no Key Vault)`);
+    }
+  } else {
+    user = process.env.GETNET_USER || '';
+    password = await getTenantSecret('', SECRET_NAMES.getnet.PASSWORD);
+  }
+
+  const estabelecimentos = [
+    ...(config.getnetEstabelecimentos || []),
+    ...(config.getnetEstabelecimento ? [config.getnetEstabelecimento] : []),
+  ].map((e) => e.trim()).filter(Boolean);
 
   return {
     user,
     estabelecimento: config.getnetEstabelecimento,
+    estabelecimentos: [...new Set(estabelecimentos)],
     password: password || undefined,
   };
 }
 
+/**
+ * Resolve credenciais Nibo para um cliente.
+ *
+ * Token (apiToken) → Key Vault {tenantId}-NIBO-API-TOKEN → ClientConfig.niboApiKey (legado) → env NIBO_API_KEY
+ *
+ * Cliente com niboTenantId é por tenant: falha do Key Vault propaga e, sem
+ * token dele, não cai no NIBO_API_KEY (seria a conta de outro cliente).
+ */
+export async function resolveNiboCredentials(
+  config: ClientConfig,
+  tenantId?: string
+): Promise<NiboCredentials> {
+  const porTenant = !!config.niboTenantId;
+
+  let apiToken = '';
+  if (tenantId) {
+    apiToken = porTenant
+      ? await readTenantSecret(tenantId, SECRET_NAMES.nibo.API_TOKEN)
+      : await getTenantSecret(tenantId, SECRET_NAMES.nibo.API_TOKEN);
+  }
+
+  const origem = apiToken ? 'KeyVault' : config.niboApiKey ? 'ClientConfig' : 'env';
+  if (!apiToken) apiToken = config.niboApiKey || (porTenant ? '' : process.env.NIBO_API_KEY || '');
+
+  if (!apiToken) {
+    throw new Error(porTenant
+      ? `Nibo credentials not found (apiToken do tenant ${tenantId || '?'} ausente no Key Vault)`
+      : 'Nibo credentials not found (apiToken via Key Vault ou env)');
+  }
+
+  logger.info('Nibo credentials resolved', { tenantId, tokenFrom: origem });
+  return { apiToken };
+}
+
+/**
+ * Resolve credenciais Inter para um cliente.
+ *
+ * Com login no cadastro (ClientConfig.interClientId):
+ *   Conta corrente        → ClientConfig.interContaCorrente
+ *   Secret (clientSecret) → Key Vault {tenantId}-INTER-CLIENT-SECRET
+ *   Certs (mTLS)          → Key Vault {tenantId}-INTER-CERT-BASE64 / -KEY-BASE64
+ * Sem login no cadastro: tudo das env vars INTER_* (conta global).
+ *
+ * Nunca mistura as duas origens: login de um cliente com secret ou
+ * certificado do env seria outra conta.
+ */
+export async function resolveInterCredentials(
+  config: ClientConfig,
+  tenantId?: string
+): Promise<InterCredentials> {
+  const environment = (process.env.INTER_ENVIRONMENT as 'sandbox' | 'production') || 'production';
+
+  if (config.interClientId) {
+    const clientSecret = tenantId ? await readTenantSecret(tenantId, SECRET_NAMES.inter.CLIENT_SECRET) : '';
+    if (!tenantId || !clientSecret) {
+      throw new Error(`Inter credentials not found (clientSecret do tenant ${tenantId || '?'} ausente no Key Vault)`);
+    }
+
+    logger.info('Inter credentials resolved', { tenantId, loginFrom: 'ClientConfig' });
+    return {
+      clientId: config.interClientId,
+      clientSecret,
+      environment,
+      contaCorrente: config.interContaCorrente,
+      certBase64: (await readTenantSecret(tenantId, SECRET_NAMES.inter.CERT_BASE64)) || undefined,
+      keyBase64: (await readTenantSecret(tenantId, SECRET_NAMES.inter.KEY_BASE64)) || undefined,
+    };
+  }
+
+  const clientId = process.env.INTER_CLIENT_ID || '';
+  const clientSecret = process.env.INTER_CLIENT_SECRET || '';
+  if (!clientId || !clientSecret) {
+    throw new Error('Inter credentials not found (clientId via ClientConfig, clientSecret via Key Vault ou env)');
+  }
+
+  logger.info('Inter credentials resolved', { tenantId, loginFrom: 'env' });
+  return {
+    clientId,
+    clientSecret,
+    environment,
+    contaCorrente: process.env.INTER_CONTA_CORRENTE,
+    certBase64: process.env.INTER_CERT_BASE64,
+    keyBase64: process.env.INTER_KEY_BASE64,
+  };
+}
+
 /**
  * Resolve todas as credenciais de um cliente a partir do seu ID.
  */
 export async function resolveClientCredentials(clientId: string): Promise<{
   client: Client;
   omie?: OmieCredentials;
+  nibo?: NiboCredentials;
   santander?: SantanderCredentials;
+  inter?: InterCredentials;
   getnet?: GetnetCredentials;
 }> {
   const client = await getClientById(clientId);
@@ -166,7 +292,9 @@ export async function resolveClientCredentials(clientId: string): Promise<{
   const result: {
     client: Client;
     omie?: OmieCredentials;
+    nibo?: NiboCredentials;
     santander?: SantanderCredentials;
+    inter?: InterCredentials;
     getnet?: GetnetCredentials;
   } = { client };
 
@@ -174,12 +302,20 @@ export async function resolveClientCredentials(clientId: string): Promise<{
     result.omie = await resolveOmieCredentials(client.config, client.tenantId);
   }
 
+  if (client.sistema === 'nibo') {
+    result.nibo = await resolveNiboCredentials(client.config, client.tenantId);
+  }
+
   if (client.config.banco === 'santander') {
     result.santander = await resolveSantanderCredentials(client.config, client.tenantId);
   }
 
+  if (client.config.banco === 'inter') {
+    result.inter = await resolveInterCredentials(client.config, client.tenantId);
+  }
+
   if (client.config.adquirente === 'getnet') {
-    result.getnet = await resolveGetnetCredentials(client.config);
+    result.getnet = await resolveGetnetCredentials(client.config, client.tenantId);
   }
 
   return result;
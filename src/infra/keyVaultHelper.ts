@@ -10,7 +10,7 @@
  * Exemplos:
  *   oticas-rey-OMIE-APP-SECRET
  *   oticas-rey-SANTANDER-CLIENT-SECRET
- *   GETNET-PASS                          (compartilhado)
+ *   oticas-rey-GETNET-PASS               (fallback: GETNET-PASS compartilhado)
  *
  * Cache em memória com TTL de 15 min para evitar chamadas repetidas.
  */
@@ -109,6 +109,22 @@ export async function setTenantSecret(
 export async function getTenantSecret(
   tenantId: string,
   secretName: string
+): Promise<string> {
+  try {
+    return await readTenantSecret(tenantId, secretName);
+  } catch (error: any) {
+    logger.error(error.message);
+    return '';
+  }
+}
+
+/**
+ * Como getTenantSecret, mas falha do Key Vault (que não seja secret
+ * inexistente) propaga — para quem não pode cair nas env vars globais.
+ */
+export async function readTenantSecret(
+  tenantId: string,
+  secretName: string
 ): Promise<string> {
   const name = buildSecretName(tenantId, secretName);
 
@@ -126,8 +142,7 @@ export async function getTenantSecret(
     if (error.code === 'SecretNotFound' || error.statusCode === 404) {
       return '';
     }
-    logger.error(`Failed to read secret ${name}: ${error.message}`);
-    return '';
+    throw new Error(`Failed to read secret ${name}: ${error.message}`);
   }
 }
 
@@ -176,4 +191,12 @@ export const SECRET_NAMES = {
   getnet: {
     PASSWORD: 'GETNET-PASS',              // senha SFTP — login (user) fica no ClientConfig
   },
+  nibo: {
+    API_TOKEN: 'NIBO-API-TOKEN',          // token da API — não tem login separado
+  },
+  inter: {
+    CLIENT_SECRET: 'INTER-CLIENT-SECRET', // senha OAuth — login (clientId) fica no ClientConfig
+    CERT_BASE64: 'INTER-CERT-BASE64',     // certificado mTLS
+    KEY_BASE64: 'INTER-KEY-BASE64',       // chave privada mTLS
+  },
 } as const;
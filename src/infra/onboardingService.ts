@@ -46,8 +46,9 @@ export interface OnboardingInput {
 
   getnet?: {
     user: string;           // login → Table
-    password: string;       // secret → KV (compartilhado)
+    password: string;       // secret → KV ({tenantId}-GETNET-PASS)
     estabelecimento: string; // config → Table
+    estabelecimentos?: string[]; // demais lojas da rede → Table
   };
 
   notificacoes?: {
@@ -354,6 +355,9 @@ async function processGetnet(
 
   if (data.estabelecimento) {
     configUpdates.getnetEstabelecimento = data.estabelecimento;
+    if (data.estabelecimentos) {
+      configUpdates.getnetEstabelecimentos = data.estabelecimentos;
+    }
     configUpdates.adquirente = 'getnet';
     fields.push({ name: 'Estabelecimento', status: 'saved_to_table' });
   } else {
@@ -361,9 +365,9 @@ async function processGetnet(
     configured = false;
   }
 
-  // Secret → Key Vault (compartilhado)
+  // Secret → Key Vault (por tenant)
   if (data.password) {
-    await setTenantSecret('', SECRET_NAMES.getnet.PASSWORD, data.password);
+    await setTenantSecret(client.tenantId, SECRET_NAMES.getnet.PASSWORD, data.password);
     fields.push({ name: 'Senha SFTP (senha)', status: 'saved_to_kv' });
   } else {
     fields.push({ name: 'Senha SFTP (senha)', status: 'missing' });
@@ -409,8 +413,9 @@ async function checkGetnetStatus(client: Client): Promise<SourceStatus> {
   const fields: SourceStatus['fields'] = [];
 
   const hasUser = !!client.config.getnetUser || !!process.env.GETNET_USER;
-  const hasPassword = await hasTenantSecret('', SECRET_NAMES.getnet.PASSWORD);
-  const hasEstabelecimento = !!client.config.getnetEstabelecimento;
+  const hasPassword = await hasTenantSecret(client.tenantId, SECRET_NAMES.getnet.PASSWORD)
+    || await hasTenantSecret('', SECRET_NAMES.getnet.PASSWORD);
+  const hasEstabelecimento = !!client.config.getnetEstabelecimento || !!client.config.getnetEstabelecimentos?.length;
 
   fields.push({ name: 'Usuário SFTP (login)', status: hasUser ? 'ok' : 'missing' });
   fields.push({ name: 'Senha SFTP (senha)', status: hasPassword ? 'ok' : 'missing' });
@@ -0,0 +1,215 @@
+/**
+ * PaymentGateway - Execução de pagamentos aprovados via API bancária
+ *
+ * Santander: PIX (createPIX). Boleto não tem API de pagamento → remessa CNAB.
+ * Inter:     PIX (createPIX) e boleto (payBoleto).
+ *
+ * O banco é escolhido por ClientConfig.banco. Cada envio carrega uma
+ * chave de idempotência: reenviar a mesma chave não duplica o pagamento.
+ */
+
+import { Client, ClientConfig, PaymentExecution, RemessaItem } from '../../shared/types';
+import { createLogger } from '../../shared/utils';
+import { resolveInterCredentials, resolveSantanderCredentials } from './credentialResolver';
+import { getSantanderClient, getSantanderClientForTenant, SantanderClient } from '../ops/santander/adapters/client';
+import { PIXCreateParams as SantanderPIXParams } from '../ops/santander/adapters/types';
+import { getInterClientForTenant, InterClient } from '../ops/inter/adapters/client';
+
+const logger = createLogger('PaymentGateway');
+
+const BANCOS_PAGAMENTO_API = ['santander', 'inter'] as const;
+type BancoPagamento = typeof BANCOS_PAGAMENTO_API[number];
+
+/** Ordem de pagamento montada a partir da autorização aprovada */
+export interface PaymentOrder {
+    idempotencyKey: string;
+    forma: PaymentExecution['forma'];
+    valor: number;
+    descricao: string;
+    dataPagamento: string; // YYYY-MM-DD
+    chavePix?: string;
+    tipoChavePix?: RemessaItem['tipoChavePix'];
+    codigoBarras?: string; // código de barras ou linha digitável
+    vencimento?: string;
+}
+
+/** Situação normalizada do pagamento no banco */
+export interface PaymentBankStatus {
+    status: PaymentExecution['status'];
+    bancoPagamentoId?: string;
+    statusBanco: string;
+    comprovanteId?: string;
+    dataPagamento?: string;
+}
+
+export interface PaymentGateway {
+    banco: BancoPagamento;
+    pay(order: PaymentOrder): Promise<PaymentBankStatus>;
+    getStatus(bancoPagamentoId: string, forma: PaymentExecution['forma']): Promise<PaymentBankStatus | null>;
+}
+
+/**
+ * Pagamentos aprovados vão pela API quando o banco suporta,
+ * salvo se o cliente optou por remessa CNAB (pagamentoModo = 'cnab').
+ */
+export function usaPagamentoViaApi(config?: ClientConfig): boolean {
+    if (!config?.banco || !BANCOS_PAGAMENTO_API.includes(config.banco.toLowerCase() as BancoPagamento)) {
+        return false;
+    }
+    return (config.pagamentoModo || 'api') === 'api';
+}
+
+// ============================================================================
+// STATUS
+// ============================================================================
+
+const STATUS_PAGO = ['PAYED', 'PAID', 'COMPLETED', 'SETTLED', 'PAGO', 'REALIZADO', 'EFETIVADO', 'PROCESSADO'];
+const STATUS_FALHA = ['REJECTED', 'CANCELED', 'CANCELLED', 'ERROR', 'FAILED', 'EXPIRED',
+    'CANCELADO', 'REJEITADO', 'FALHA', 'ERRO', 'EXPIRADO', 'DEVOLVIDO'];
+
+/** Mapeia o status textual do banco (Santander ou Inter) para o estado da execução */
+export function mapBankStatus(statusBanco: string | undefined): PaymentExecution['status'] {
+    const status = (statusBanco || '').toUpperCase();
+    if (STATUS_PAGO.includes(status)) return 'pago';
+    if (STATUS_FALHA.includes(status)) return 'falha';
+    return 'agendado'; // aguardando aprovação no internet banking, agendado, em processamento
+}
+
+function santanderKeyType(order: PaymentOrder): SantanderPIXParams['keyType'] {
+    switch (order.tipoChavePix) {
+        case 'cpf': return 'CPF';
+        case 'cnpj': return 'CNPJ';
+        case 'email': return 'EMAIL';
+        case 'telefone': return 'PHONE';
+        case 'aleatoria': return 'EVP';
+    }
+
+    const chave = order.chavePix || '';
+    const digits = chave.replace(/\D/g, '');
+    if (chave.includes('@')) return 'EMAIL';
+    if (chave.startsWith('+')) return 'PHONE';
+    if (digits.length === chave.length && digits.length === 11) return 'CPF';
+    if (digits.length === 14 && /^[\d./-]+$/.test(chave)) return 'CNPJ';
+    return 'EVP';
+}
+
+// ============================================================================
+// GATEWAYS
+// ============================================================================
+
+class SantanderPaymentGateway implements PaymentGateway {
+    readonly banco = 'santander' as const;
+
+    constructor(private readonly client: SantanderClient) { }
+
+    async pay(order: PaymentOrder): Promise<PaymentBankStatus> {
+        if (order.forma !== 'pix') {
+            throw new Error('Santander não oferece pagamento de boleto via API; use remessa CNAB (pagamentoModo = cnab)');
+        }
+
+        const pix = await this.client.createPIX({
+            amount: order.valor,
+            key: order.chavePix!,
+            keyType: santanderKeyType(order),
+            description: order.descricao,
+            scheduledDate: order.dataPagamento,
+        }, order.idempotencyKey);
+
+        if (!pix?.id) throw new Error('Santander não aceitou o pagamento PIX');
+
+        return { status: mapBankStatus(pix.status), bancoPagamentoId: pix.id, statusBanco: pix.status };
+    }
+
+    async getStatus(bancoPagamentoId: string): Promise<PaymentBankStatus | null> {
+        const pix = await this.client.getPIX(bancoPagamentoId);
+        if (!pix) return null;
+
+        const status = mapBankStatus(pix.status);
+        const comprovante = status === 'pago' ? await this.client.requestComprovante(bancoPagamentoId) : null;
+
+        return {
+            status,
+            bancoPagamentoId,
+            statusBanco: pix.status,
+            comprovanteId: comprovante?.requestId || pix.e2eId,
+            dataPagamento: status === 'pago' ? pix.createdAt?.split('T')[0] : undefined,
+        };
+    }
+}
+
+class InterPaymentGateway implements PaymentGateway {
+    readonly banco = 'inter' as const;
+
+    constructor(private readonly client: InterClient) { }
+
+    async pay(order: PaymentOrder): Promise<PaymentBankStatus> {
+        if (order.forma === 'boleto') {
+            const result = await this.client.payBoleto({
+                codBarraLinhaDigitavel: (order.codigoBarras || '').replace(/\D/g, ''),
+                valorPagar: order.valor,
+                dataPagamento: order.dataPagamento,
+                dataVencimento: order.vencimento,
+            }, order.idempotencyKey);
+
+            if (!result?.codigoTransacao) throw new Error('Inter não aceitou o pagamento do boleto');
+            return { status: mapBankStatus(result.status), bancoPagamentoId: result.codigoTransacao, statusBanco: result.status };
+        }
+
+        const pix = await this.client.createPIX({
+            valor: order.valor,
+            chave: order.chavePix!,
+            descricao: order.descricao,
+            dataPagamento: order.dataPagamento,
+        }, order.idempotencyKey);
+
+        const id = pix?.codigoSolicitacao || pix?.endToEndId;
+        if (!id) throw new Error('Inter não aceitou o pagamento PIX');
+
+        const statusBanco = pix!.tipoRetorno || pix!.status || 'ENVIADO';
+        return { status: mapBankStatus(statusBanco), bancoPagamentoId: id, statusBanco };
+    }
+
+    async getStatus(bancoPagamentoId: string, forma: PaymentExecution['forma']): Promise<PaymentBankStatus | null> {
+        const result = forma === 'boleto'
+            ? await this.client.getPagamentoBoleto(bancoPagamentoId)
+            : await this.client.getPIXPagamento(bancoPagamentoId);
+        if (!result) return null;
+
+        return {
+            status: mapBankStatus(result.status),
+            bancoPagamentoId,
+            statusBanco: result.status,
+            comprovanteId: result.comprovanteId,
+            dataPagamento: result.dataPagamento,
+        };
+    }
+}
+
+// ============================================================================
+// FACTORY
+// ============================================================================
+
+/**
+ * Gateway do banco configurado no cliente.
+ * Santander usa credenciais per-client quando há conta cadastrada (mesma regra da captura);
+ * Inter sempre resolve pelo tenant (Key Vault, com fallback nas env vars).
+ */
+export async function getPaymentGateway(client: Client): Promise<PaymentGateway> {
+    const banco = (client.config?.banco || '').toLowerCase();
+
+    if (banco === 'santander') {
+        if (client.config.bancoAgencia) {
+            const creds = await resolveSantanderCredentials(client.config, client.tenantId);
+            return new SantanderPaymentGateway(getSantanderClientForTenant(creds));
+        }
+        return new SantanderPaymentGateway(getSantanderClient());
+    }
+
+    if (banco === 'inter') {
+        const creds = await resolveInterCredentials(client.config, client.tenantId);
+        return new InterPaymentGateway(getInterClientForTenant(creds));
+    }
+
+    logger.warn('Banco sem API de pagamento', { clientId: client.id, banco });
+    throw new Error(`Banco ${banco || '(não configurado)'} não suporta pagamento via API`);
+}
@@ -0,0 +1,240 @@
+/**
+ * SettlementService - Baixa no ERP quando o banco confirma a liquidação
+ *
+ * Previsto do ERP (conta a pagar/receber do Nibo/Omie) conciliado com
+ * confiança com um realizado do banco (Santander/Inter/Getnet) vira baixa
+ * no ERP: data do extrato, valor do previsto como base, juros/desconto pela
+ * diferença para o extrato e a conta bancária do ERP correspondente ao banco
+ * (POST {X}_OPS_URL/api/{erp}/baixa). Getnet liquida na conta do cliente,
+ * sem banco próprio: sem contasErp.getnet a baixa não é enviada.
+ * Com a baixa aceita, previsto e realizado ficam CONCILIADO e vinculados.
+ *
+ * Só matches 1:1 (exato/fuzzy); split e agrupamento ficam para a
+ * conciliação manual. Falha da baixa fica em metadata.baixa do previsto.
+ */
+
+import { SmartMatcher } from '../ai/smartMatcher';
+import {
+    Client,
+    MatchResult,
+    SyncDestination,
+    Transaction,
+    TransactionSource,
+    TransactionStatus,
+    TransactionType,
+} from '../../shared/types';
+import { createLogger, nowISO } from '../../shared/utils';
+import { addHistoryAction, getClient, updateTransaction } from '../storage/tableClient';
+import { externalIdFor, postToOps } from './syncGateway';
+
+const logger = createLogger('SettlementService');
+
+export const BAIXA_CONFIANCA_MINIMA = 0.9;
+
+const ERPS_COM_BAIXA: string[] = [TransactionSource.NIBO, TransactionSource.OMIE];
+const BANCOS_REALIZADO: string[] = [TransactionSource.SANTANDER, TransactionSource.INTER, TransactionSource.GETNET];
+
+const matcher = new SmartMatcher();
+
+export interface Liquidacao {
+    previsto: Transaction;
+    realizado: Transaction;
+    match: MatchResult;
+}
+
+/** Corpo do BaixaRequest enviado ao ops */
+export interface BaixaRequest {
+    transactionId: string;
+    clientId: string;
+    externalId: string;
+    tipo: 'pagar' | 'receber';
+    dataPagamento: string;
+    valorPago: number;
+    valorPrevisto: number;
+    juros: number;
+    desconto: number;
+    banco: string;
+    contaBancaria?: string;
+    realizadoId: string;
+}
+
+export interface BaixaResult {
+    status: 'baixado' | 'ignorado' | 'erro';
+    previstoId: string;
+    realizadoId: string;
+    baixaId?: string;
+    motivo?: string;
+}
+
+/** Conta a pagar/receber do ERP ainda em aberto */
+export function isPrevistoErp(tx: Transaction): boolean {
+    return ERPS_COM_BAIXA.includes(tx.source) &&
+        (tx.type === TransactionType.PAGAR || tx.type === TransactionType.RECEBER) &&
+        tx.status !== TransactionStatus.CONCILIADO;
+}
+
+/** Movimento do banco ainda não vinculado a um previsto */
+export function isRealizadoBancario(tx: Transaction): boolean {
+    return BANCOS_REALIZADO.includes(tx.source) &&
+        !!tx.dataRealizacao &&
+        !tx.vinculadoA &&
+        tx.status !== TransactionStatus.CONCILIADO;
+}
+
+/**
+ * Par previsto/realizado da transação entre as candidatas. A transação
+ * pode ser qualquer um dos lados; só vale match 1:1 acima da confiança mínima.
+ */
+export async function findLiquidacao(tx: Transaction, candidatas: Transaction[]): Promise<Liquidacao | null> {
+    const outras = candidatas.filter(c => c.id !== tx.id);
+    let matches: MatchResult[];
+
+    if (isPrevistoErp(tx)) {
+        matches = await matcher.match([tx], outras.filter(isRealizadoBancario));
+    } else if (isRealizadoBancario(tx)) {
+        const previstos = outras.filter(isPrevistoErp);
+        matches = (await matcher.match(previstos, [tx])).filter(m => m.realizadoId === tx.id);
+    } else {
+        return null;
+    }
+
+    const match = matches.find(m =>
+        (m.tipo === 'exato' || m.tipo === 'fuzzy') &&
+        m.confianca >= BAIXA_CONFIANCA_MINIMA &&
+        m.previstoId && m.realizadoId
+    );
+    if (!match) return null;
+
+    const todas = [tx, ...outras];
+    const previsto = todas.find(t => t.id === match.previstoId);
+    const realizado = todas.find(t => t.id === match.realizadoId);
+
+    return previsto && realizado ? { previsto, realizado, match } : null;
+}
+
+/** Baixa do previsto com os dados reais do extrato (undefined: sem id no ERP) */
+export function buildBaixaRequest(liquidacao: Liquidacao, client: Pick<Client, 'config'> | null): BaixaRequest | undefined {
+    const { previsto, realizado } = liquidacao;
+    const externalId = externalIdFor(previsto, previsto.source as SyncDestination);
+    if (!externalId) return undefined;
+
+    const valorPago = round(Math.abs(realizado.valor));
+    const valorPrevisto = round(Math.abs(previsto.valor));
+    const diferenca = round(valorPago - valorPrevisto);
+    const banco = realizado.source as 'santander' | 'inter' | 'getnet';
+
+    return {
+        transactionId: previsto.id,
+        clientId: previsto.clientId,
+        externalId,
+        tipo: previsto.type === TransactionType.PAGAR ? 'pagar' : 'receber',
+        dataPagamento: (realizado.dataRealizacao || '').substring(0, 10),
+        valorPago,
+        valorPrevisto,
+        juros: diferenca > 0 ? diferenca : 0,
+        desconto: diferenca < 0 ? -diferenca : 0,
+        banco,
+        contaBancaria: client?.config?.contasErp?.[banco],
+        realizadoId: realizado.id,
+    };
+}
+
+/** Envia a baixa ao ERP e concilia as duas transações */
+export async function registrarBaixa(clientId: string, liquidacao: Liquidacao): Promise<BaixaResult> {
+    const { previsto, realizado, match } = liquidacao;
+    const destino = previsto.source as SyncDestination;
+    const base = { previstoId: previsto.id, realizadoId: realizado.id };
+
+    const baixa = buildBaixaRequest(liquidacao, await getClient(clientId));
+    if (!baixa) {
+        logger.warn(`Previsto ${previsto.id} sem id no ${destino}; baixa não enviada`);
+        return { ...base, status: 'ignorado', motivo: `Previsto sem id no ${destino}` };
+    }
+
+    let resposta: { success?: boolean; baixaId?: string; error?: string };
+    if (baixa.banco === 'getnet' && !baixa.contaBancaria) {
+        resposta = { success: false, error: 'Baixa da Getnet exige contasErp.getnet no cadastro do cliente' };
+    } else {
+        try {
+            resposta = await postToOps(destino, 'baixa', baixa);
+        } catch (error: any) {
+            resposta = { success: false, error: error.message };
+        }
+    }
+
+    if (!resposta.success) {
+        const motivo = resposta.error || `Baixa recusada pelo ${destino}`;
+        logger.warn(`Baixa ${previsto.id} → ${destino} failed: ${motivo}`);
+        await persistir(previsto, {
+            metadata: { ...(previsto.metadata || {}), baixa: { destino, realizadoId: realizado.id, erro: motivo, em: nowISO() } },
+        });
+        return { ...base, status: 'erro', motivo };
+    }
+
+    const registro = {
+        destino,
+        baixaId: resposta.baixaId,
+        dataPagamento: baixa.dataPagamento,
+        valorPago: baixa.valorPago,
+        juros: baixa.juros,
+        desconto: baixa.desconto,
+        confianca: match.confianca,
+        em: nowISO(),
+    };
+
+    await persistir(previsto, {
+        status: TransactionStatus.CONCILIADO,
+        dataRealizacao: baixa.dataPagamento,
+        metadata: { ...(previsto.metadata || {}), baixa: { ...registro, realizadoId: realizado.id } },
+    });
+    await persistir(realizado, {
+        status: TransactionStatus.CONCILIADO,
+        vinculadoA: previsto.id,
+        vinculacaoTipo: 'automatico',
+        metadata: { ...(realizado.metadata || {}), baixa: { ...registro, previstoId: previsto.id } },
+    });
+
+    try {
+        await addHistoryAction({
+            id: `hist-baixa-${previsto.id}`,
+            clientId,
+            tipo: 'pagamento',
+            descricao: `Baixa no ${destino}: ${previsto.descricao} (R$ ${baixa.valorPago.toFixed(2)} em ${baixa.dataPagamento})`,
+            data: nowISO(),
+            detalhes: { previstoId: previsto.id, realizadoId: realizado.id, ...registro },
+        });
+    } catch (error: any) {
+        logger.warn(`Could not log baixa history: ${error.message}`);
+    }
+
+    logger.info('Baixa registered', { previstoId: previsto.id, realizadoId: realizado.id, destino, baixaId: resposta.baixaId });
+    return { ...base, status: 'baixado', baixaId: resposta.baixaId };
+}
+
+/**
+ * Procura a liquidação da transação e, havendo, dá a baixa no ERP.
+ * Nunca lança: o resultado (ou null, sem par) diz o que aconteceu.
+ */
+export async function conciliarComBaixa(
+    clientId: string,
+    tx: Transaction,
+    candidatas: Transaction[]
+): Promise<BaixaResult | null> {
+    try {
+        const liquidacao = await findLiquidacao(tx, candidatas);
+        return liquidacao ? await registrarBaixa(clientId, liquidacao) : null;
+    } catch (error: any) {
+        logger.error(`Settlement of ${tx.id} failed`, error);
+        return null;
+    }
+}
+
+// Grava e reflete na instância (a mesma lista de candidatas segue no batch)
+async function persistir(tx: Transaction, updates: Partial<Transaction>): Promise<void> {
+    Object.assign(tx, updates);
+    await updateTransaction(tx.clientId, tx.id, updates);
+}
+
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,160 @@
+/**
+ * SyncGateway - Write-back das transações classificadas no ERP do cliente
+ *
+ * O destino é o Client.sistema (nibo | omie | controlle). Cada ERP tem um
+ * adapter registrado; todos falam o mesmo contrato SyncRequest/SyncResponse
+ * com o ops correspondente (POST {X}_OPS_URL/api/{destino}/sync).
+ *
+ * Resultado "skipped" é definitivo (dados insuficientes para o ERP) e não
+ * deve ser repetido. Erro só é repetível quando o ops certamente não
+ * processou o pedido (OpsRequestError.repetivel): conexão recusada, 429,
+ * 502 e 503. Timeout e 500 podem ter gravado no ERP — os adapters do ops
+ * já repetem o que é seguro lá dentro.
+ */
+
+import { Client, SyncDestination, Transaction } from '../../shared/types';
+import { createLogger } from '../../shared/utils';
+
+const logger = createLogger('SyncGateway');
+
+const OPS_TIMEOUT_MS = 60 * 1000;
+const HTTP_REPETIVEL = [429, 502, 503];
+const REDE_SEM_ENVIO = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN'];
+
+export interface SyncResult {
+    action: 'created' | 'updated' | 'skipped';
+    externalId?: string;
+    error?: string; // motivo do skipped
+}
+
+export interface SyncAdapter {
+    destino: SyncDestination;
+    sync(transaction: Transaction): Promise<SyncResult>;
+}
+
+/** Campo da Transaction que guarda o id no ERP */
+export const EXTERNAL_ID_FIELDS: Record<SyncDestination, 'niboId' | 'omieId' | 'controlleId'> = {
+    nibo: 'niboId',
+    omie: 'omieId',
+    controlle: 'controlleId',
+};
+
+/** Id no ERP; capturada do próprio ERP, o sourceId já é o id de lá */
+export function externalIdFor(transaction: Transaction, destino: SyncDestination): string | undefined {
+    return transaction[EXTERNAL_ID_FIELDS[destino]] ||
+        ((transaction.source as string) === destino ? transaction.sourceId : undefined);
+}
+
+/** Corpo do SyncRequest enviado ao ops */
+export function buildSyncRequest(transaction: Transaction, destino: SyncDestination): Record<string, unknown> {
+    return {
+        transactionId: transaction.id,
+        clientId: transaction.clientId,
+        descricao: transaction.descricao,
+        valor: transaction.valor,
+        dataVencimento: transaction.dataVencimento,
+        categoriaId: transaction.categoriaId,
+        categoriaNome: transaction.categoriaNome,
+        contraparte: transaction.contraparte,
+        contraparteCnpj: transaction.contraparteCnpj,
+        numeroDocumento: transaction.numeroDocumento,
+        dataEmissao: transaction.dataEmissao,
+        tipo: transaction.type,
+        existingExternalId: externalIdFor(transaction, destino),
+    };
+}
+
+// ============================================================================
+// HTTP (ops)
+// ============================================================================
+
+/** Falha na chamada ao ops; repetivel só se o pedido não chegou a ser processado */
+export class OpsRequestError extends Error {
+    constructor(message: string, readonly repetivel: boolean) {
+        super(message);
+        this.name = 'OpsRequestError';
+    }
+}
+
+export function isRetryableOpsError(error: unknown): boolean {
+    return error instanceof OpsRequestError && error.repetivel;
+}
+
+/** POST {X}_OPS_URL/api/{destino}/{acao} com timeout; HTTP de erro vira OpsRequestError */
+export async function postToOps<T>(destino: SyncDestination, acao: string, body: unknown): Promise<T> {
+    const prefix = destino.toUpperCase();
+    const opsUrl = process.env[`${prefix}_OPS_URL`];
+    if (!opsUrl) {
+        throw new Error(`${prefix}_OPS_URL não configurada`);
+    }
+
+    let res: Response;
+    try {
+        res = await fetch(`${opsUrl}/api/${destino}/${acao}`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'x-functions-key': process.env[`${prefix}_OPS_KEY`] || '',
+            },
+            body: JSON.stringify(body),
+            signal: AbortSignal.timeout(OPS_TIMEOUT_MS),
+        });
+    } catch (error: any) {
+        if (error?.name === 'TimeoutError') {
+            throw new OpsRequestError(`${acao} ${destino} sem resposta em ${OPS_TIMEOUT_MS / 1000}s`, false);
+        }
+        const code = error?.cause?.code;
+        throw new OpsRequestError(`${acao} ${destino} falhou: ${code || error?.message}`, REDE_SEM_ENVIO.includes(code));
+    }
+
+    if (!res.ok) {
+        const error = await res.text();
+        throw new OpsRequestError(`${acao} ${destino} falhou: ${res.status} - ${error}`, HTTP_REPETIVEL.includes(res.status));
+    }
+
+    return (await res.json()) as T;
+}
+
+class OpsHttpSyncAdapter implements SyncAdapter {
+    constructor(readonly destino: SyncDestination) {}
+
+    async sync(transaction: Transaction): Promise<SyncResult> {
+        const body = await postToOps<{ success?: boolean; action?: SyncResult['action']; externalId?: string; error?: string }>(
+            this.destino,
+            'sync',
+            buildSyncRequest(transaction, this.destino)
+        );
+
+        return {
+            action: body.action || 'skipped',
+            externalId: body.externalId,
+            error: body.success === false ? body.error || 'Recusado pelo ERP' : undefined,
+        };
+    }
+}
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+const adapters = new Map<SyncDestination, SyncAdapter>(
+    (Object.keys(EXTERNAL_ID_FIELDS) as SyncDestination[]).map((d) => [d, new OpsHttpSyncAdapter(d)])
+);
+
+/** Substitui o adapter de um ERP (ex.: chamada direta em vez de HTTP) */
+export function registerSyncAdapter(adapter: SyncAdapter): void {
+    adapters.set(adapter.destino, adapter);
+}
+
+export function getSyncAdapter(destino: SyncDestination): SyncAdapter | undefined {
+    return adapters.get(destino);
+}
+
+/** ERP de destino do cliente (undefined se o sistema não tem adapter) */
+export function resolveSyncDestination(client: Pick<Client, 'id' | 'sistema'> | null): SyncDestination | undefined {
+    const destino = client?.sistema as SyncDestination | undefined;
+    if (destino && adapters.has(destino)) return destino;
+
+    logger.warn(`Cliente ${client?.id} sem ERP de destino para sync (sistema: ${client?.sistema})`);
+    return undefined;
+}
@@ -14,12 +14,14 @@ import { createLogger } from '../../shared/utils';
 const logger = createLogger('TenantManager');
 
 const CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutos
+const BANCOS_COM_API = ['santander', 'inter'];
 
 export interface TenantConfig {
     clientId: string;
     tenantId: string;
     plan: string;
     sources: string[];
+    pipeline: 'orquestrador' | 'filas';
     features: {
         aiClassification: boolean;
         autoSync: boolean;
@@ -40,7 +42,7 @@ interface CacheEntry {
 }
 
 // Mapeamento Plano -> Features/Limites
-const PLAN_CONFIGS: Record<string, Omit<TenantConfig, 'clientId' | 'tenantId' | 'plan' | 'sources'>> = {
+const PLAN_CONFIGS: Record<string, Omit<TenantConfig, 'clientId' | 'tenantId' | 'plan' | 'sources' | 'pipeline'>> = {
     [ClientPlano.ESSENCIAL]: {
         features: {
             aiClassification: true,
@@ -88,6 +90,11 @@ const PLAN_CONFIGS: Record<string, Omit<TenantConfig, 'clientId' | 'tenantId' |
 // Fallback para planos não mapeados
 const DEFAULT_CONFIG = PLAN_CONFIGS[ClientPlano.ESSENCIAL];
 
+/** PIPELINE_MODE=filas liga o pipeline por filas para quem não escolheu */
+function defaultPipeline(): TenantConfig['pipeline'] {
+    return process.env.PIPELINE_MODE === 'filas' ? 'filas' : 'orquestrador';
+}
+
 export class TenantManager {
     private cache: Map<string, CacheEntry> = new Map();
 
@@ -134,6 +141,7 @@ export class TenantManager {
             tenantId: client.tenantId,
             plan: client.plano,
             sources: this.deriveSources(client),
+            pipeline: client.config?.pipeline || defaultPipeline(),
             ...planConfig,
         };
     }
@@ -144,6 +152,7 @@ export class TenantManager {
             tenantId: clientId,
             plan: ClientPlano.ESSENCIAL,
             sources: ['nibo', 'santander', 'getnet'],
+            pipeline: defaultPipeline(),
             ...DEFAULT_CONFIG,
         };
     }
@@ -152,7 +161,7 @@ export class TenantManager {
      * Deriva os ingestores ativos a partir da configuração do cliente.
      *
      * - sistema  → ERP (nibo | omie | controlle)
-     * - config.banco → Banco (santander | inter)
+     * - config.banco → Banco (santander | inter); demais bancos entram por extrato OFX
      * - config.adquirente → Adquirente (getnet)
      */
     private deriveSources(client: Client): string[] {
@@ -165,7 +174,9 @@ export class TenantManager {
 
         // Banco
         if (client.config?.banco) {
-            sources.push(client.config.banco); // 'santander' | 'inter'
+            const banco = client.config.banco.toLowerCase();
+            // Itaú, Bradesco, Sicoob... não têm API: extrato via upload OFX
+            sources.push(BANCOS_COM_API.includes(banco) ? banco : 'ofx');
         }
 
         // Adquirente
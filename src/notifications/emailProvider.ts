@@ -0,0 +1,74 @@
+/**
+ * EmailProvider - envio de email das notificações
+ *
+ * O provedor é escolhido pelo ambiente:
+ *   - SMTP_HOST definido → SMTP (SmtpEmailProvider)
+ *   - sem configuração   → só registra no log (dev/testes)
+ *
+ * Variáveis SMTP: SMTP_HOST, SMTP_PORT (587), SMTP_SECURE ('true' = TLS
+ * direto, porta 465), SMTP_USER, SMTP_PASS e SMTP_FROM (remetente).
+ * Sem SMTP_SECURE, STARTTLS é usado quando o servidor oferece; servidor
+ * sem TLS só recebe AUTH com SMTP_ALLOW_PLAINTEXT_AUTH='true' (relay local).
+ */
+
+import { createLogger } from '../../shared/utils';
+import { SmtpEmailProvider } from './smtpProvider';
+
+const logger = createLogger('EmailProvider');
+
+export interface EmailMessage {
+    para: string[];
+    assunto: string;
+    html: string;
+    texto: string;
+}
+
+export interface EmailProvider {
+    nome: string;
+    enviar(mensagem: EmailMessage): Promise<void>;
+}
+
+/**
+ * Falha de envio. permanente = o servidor recusou (5xx): reenviar a
+ * mesma mensagem não adianta.
+ */
+export class EmailSendError extends Error {
+    constructor(message: string, readonly permanente = false, readonly codigo?: number) {
+        super(message);
+        this.name = 'EmailSendError';
+    }
+}
+
+/** Sem provedor configurado: registra o envio no log */
+export class LogEmailProvider implements EmailProvider {
+    readonly nome = 'log';
+
+    async enviar(mensagem: EmailMessage): Promise<void> {
+        logger.info(`[Email] ${mensagem.assunto} → ${mensagem.para.join(', ')}`);
+        logger.info(`[Content] ${mensagem.texto}`);
+    }
+}
+
+let provider: EmailProvider | null = null;
+
+export function getEmailProvider(): EmailProvider {
+    if (!provider) {
+        const host = process.env.SMTP_HOST;
+        if (host) {
+            const secure = process.env.SMTP_SECURE === 'true';
+            provider = new SmtpEmailProvider({
+                host,
+                port: parseInt(process.env.SMTP_PORT || (secure ? '465' : '587'), 10),
+                secure,
+                user: process.env.SMTP_USER,
+                pass: process.env.SMTP_PASS,
+                from: process.env.SMTP_FROM || 'BPO WFinance <operacoes@wfinance.com.br>',
+                allowPlaintextAuth: process.env.SMTP_ALLOW_PLAINTEXT_AUTH === 'true',
+            });
+        } else {
+            logger.warn('SMTP_HOST não configurado: emails apenas registrados no log');
+            provider = new LogEmailProvider();
+        }
+    }
+    return provider;
+}
@@ -1,111 +1,301 @@
-
-import { createLogger } from '../../shared/utils';
-import { Client } from '../../shared/types';
+import { randomUUID } from 'crypto';
+import { createLogger, nowISO } from '../../shared/utils';
+import { Client, PendingAuthorization, SentNotification } from '../../shared/types';
+import { getClient, saveSentNotification } from '../storage/tableClient';
+import { EmailProvider, getEmailProvider } from './emailProvider';
+import { getWhatsappProvider, WhatsappBotao, WhatsappProvider } from './whatsappProvider';
+import { DadosAlerta, DadosResumoDiario, dashboardUrl, templateAlerta, templateResumoDiario } from './templates';
 
 const logger = createLogger('ProactiveNotifier');
 
+// Autorizações por digest (uma mensagem com botões por autorização)
+const MAX_AUTORIZACOES_DIGEST = 10;
+
 export interface Notification {
-    tipo: 'resumo' | 'alerta' | 'previsao' | 'sugestao';
-    destinatario: string; // Email ou ID do usuário
+    tipo: 'resumo' | 'alerta' | 'previsao' | 'sugestao' | 'autorizacoes';
+    destinatario: string; // Email(s) separados por vírgula ou ID do usuário
     canal: 'email' | 'whatsapp' | 'dashboard';
-    conteudo: string; // Markdown supported
+    assunto?: string;
+    conteudo: string; // Texto (markdown simples)
+    html?: string;
     prioridade: 'baixa' | 'media' | 'alta';
     acoes?: Array<{
         label: string;
         url: string;
         tipo: 'link' | 'botao';
     }>;
+    botoes?: WhatsappBotao[]; // respostas rápidas (WhatsApp)
     metadata?: any;
 }
 
+export interface ProactiveNotifierOptions {
+    emailProvider?: EmailProvider;
+    whatsappProvider?: WhatsappProvider;
+    tentativas?: number; // envios por mensagem (default 3)
+    esperaMs?: number; // espera base entre tentativas, multiplicada pela tentativa
+}
+
 export class ProactiveNotifier {
-    private readonly defaultChannel = 'email';
+    private readonly tentativas: number;
+    private readonly esperaMs: number;
 
-    constructor() {
-        // Inicializar clientes de envio (SendGrid, Twilio, etc.)
+    constructor(private readonly options: ProactiveNotifierOptions = {}) {
+        this.tentativas = Math.max(1, options.tentativas ?? 3);
+        this.esperaMs = options.esperaMs ?? 2000;
+    }
+
+    private get emailProvider(): EmailProvider {
+        return this.options.emailProvider || getEmailProvider();
+    }
+
+    private get whatsappProvider(): WhatsappProvider {
+        return this.options.whatsappProvider || getWhatsappProvider();
     }
 
     /**
-     * Resolve o email de destino a partir do config do cliente
+     * Cliente informado pelo chamador ou buscado no cadastro
      */
-    private getEmailDestinatario(clientId: string, clientConfig?: Client['config']): string {
-        if (clientConfig?.notificacoes?.emailDestino) {
-            return clientConfig.notificacoes.emailDestino;
+    private async resolverCliente(clientId: string, client?: Client | null): Promise<Client | null> {
+        if (client !== undefined) return client;
+        try {
+            return await getClient(clientId);
+        } catch (error: any) {
+            logger.warn(`Cliente ${clientId} não carregado para notificação: ${error.message}`);
+            return null;
         }
-        // Fallback para email padrão baseado no clientId
-        return `operacoes@wfinance.com.br`;
     }
 
     /**
-     * Resolve o número WhatsApp a partir do config do cliente
+     * Emails de destino: notificacoes.emailDestino (aceita lista separada
+     * por vírgula ou ponto e vírgula) e o email do cadastro do cliente.
+     * Sem nenhum, vai para a operação (NOTIFICACOES_EMAIL_OPERACOES).
      */
-    private getWhatsappDestinatario(clientId: string, clientConfig?: Client['config']): string {
-        if (clientConfig?.notificacoes?.whatsappNumero) {
-            return clientConfig.notificacoes.whatsappNumero;
-        }
-        return '';
-    }
+    private getEmailDestinatarios(client: Client | null): string[] {
+        const candidatos = [
+            ...(client?.config?.notificacoes?.emailDestino || '').split(/[;,]/),
+            client?.email || '',
+        ];
 
-    async sendDailySummary(clientId: string, summaryData: {
-        processed: number;
-        autoApproved: number;
-        needsReview: number;
-        anomalies: number;
-        totalValue: number;
-    }, clientConfig?: Client['config']): Promise<void> {
-        const message = `
-# Resumo Diario de Operacoes - ${new Date().toLocaleDateString('pt-BR')}
+        const emails = new Map<string, string>();
+        for (const email of candidatos.map((e) => e.trim())) {
+            if (/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email) && !emails.has(email.toLowerCase())) {
+                emails.set(email.toLowerCase(), email);
+            }
+        }
 
-Ola! Segue o resumo das operacoes de hoje para o cliente ${clientId}:
+        if (emails.size > 0) return [...emails.values()];
 
-- **Processadas**: ${summaryData.processed} transacoes
-- **Aprovadas Automaticamente**: ${summaryData.autoApproved} (Economia de tempo estimada: ${(summaryData.autoApproved * 0.5).toFixed(1)} min)
-- **Requer Revisao**: ${summaryData.needsReview}
-- **Anomalias Detectadas**: ${summaryData.anomalies}
+        const operacoes = (process.env.NOTIFICACOES_EMAIL_OPERACOES || '').trim();
+        if (!operacoes) logger.warn(`Cliente ${client?.id || '-'} sem email e NOTIFICACOES_EMAIL_OPERACOES não configurado`);
+        return operacoes ? [operacoes] : [];
+    }
 
-Valor Total Processado: R$ ${summaryData.totalValue.toFixed(2)}
+    /**
+     * Número WhatsApp do cliente, se o canal estiver ativo
+     */
+    private getWhatsappDestinatario(client: Client | null): string {
+        return client?.config?.notificacoes?.whatsapp ? client.config.notificacoes.whatsappNumero || '' : '';
+    }
 
-[Acessar Dashboard](https://app.wfinance.com.br/dashboard/${clientId})
-    `;
+    async sendDailySummary(clientId: string, summaryData: DadosResumoDiario, client?: Client | null): Promise<void> {
+        const cliente = await this.resolverCliente(clientId, client);
+        if (cliente?.config?.notificacoes?.resumoDiario === false) {
+            logger.info(`Resumo diário desativado para ${clientId}`);
+            return;
+        }
 
-        const destinatario = this.getEmailDestinatario(clientId, clientConfig);
+        const email = templateResumoDiario({ id: clientId, nome: cliente?.nome }, summaryData);
 
-        await this.notify({
+        await this.notify(clientId, cliente, {
             tipo: 'resumo',
-            destinatario,
+            destinatario: this.getEmailDestinatarios(cliente).join(', '),
             canal: 'email',
             prioridade: 'media',
-            conteudo: message,
-            acoes: [{ label: 'Ver Detalhes', url: `https://app.wfinance.com.br/dashboard/${clientId}`, tipo: 'link' }]
+            assunto: email.assunto,
+            conteudo: email.texto,
+            html: email.html,
+            acoes: [{ label: 'Ver Detalhes', url: dashboardUrl(clientId), tipo: 'link' }]
         });
     }
 
-    async sendAlert(clientId: string, alert: {
-        title: string;
-        message: string;
-        severity: 'alta' | 'critica';
-        transactionId?: string;
-    }, clientConfig?: Client['config']): Promise<void> {
-        const prefix = alert.severity === 'critica' ? '[URGENTE]' : '[ALERTA]';
-        const whatsapp = this.getWhatsappDestinatario(clientId, clientConfig);
-        const useWhatsapp = !!whatsapp && clientConfig?.notificacoes?.whatsapp;
-
-        await this.notify({
+    async sendAlert(clientId: string, alert: DadosAlerta, client?: Client | null): Promise<void> {
+        const cliente = await this.resolverCliente(clientId, client);
+        const whatsapp = this.getWhatsappDestinatario(cliente);
+        const useWhatsapp = !!whatsapp;
+        const email = templateAlerta({ id: clientId, nome: cliente?.nome }, alert);
+
+        await this.notify(clientId, cliente, {
             tipo: 'alerta',
-            destinatario: useWhatsapp ? whatsapp : this.getEmailDestinatario(clientId, clientConfig),
+            destinatario: useWhatsapp ? whatsapp : this.getEmailDestinatarios(cliente).join(', '),
             canal: useWhatsapp ? 'whatsapp' : 'email',
             prioridade: 'alta',
-            conteudo: `${prefix} ${alert.title}\n\n${alert.message}`,
+            assunto: email.assunto,
+            conteudo: email.texto,
+            html: email.html,
             metadata: { transactionId: alert.transactionId }
         });
     }
 
-    private async notify(notification: Notification): Promise<void> {
-        // MOCK: Em produção, isso chamaria SendGrid/Twilio/Azure Communication Services
-        logger.info(`[Notification] Enviando ${notification.tipo} via ${notification.canal} para ${notification.destinatario}`);
-        logger.info(`[Content] ${notification.conteudo}`);
+    /**
+     * Autorizações pendentes pelo WhatsApp: uma mensagem de resumo e uma
+     * por autorização com os botões Aprovar/Rejeitar (o id do botão leva
+     * a ação e a autorização, ex.: "aprovar:auth-123"). Retorna quantas
+     * autorizações foram enviadas.
+     */
+    async sendAuthorizationDigest(
+        clientId: string,
+        autorizacoes: PendingAuthorization[],
+        client?: Client | null
+    ): Promise<number> {
+        const pendentes = autorizacoes.filter((a) => a.status === 'pendente');
+        if (pendentes.length === 0) return 0;
 
-        // Simulate async delay
-        await new Promise(resolve => setTimeout(resolve, 100));
+        const cliente = await this.resolverCliente(clientId, client);
+        const whatsapp = this.getWhatsappDestinatario(cliente);
+        if (!whatsapp) {
+            logger.info(`WhatsApp desativado para ${clientId}: digest de autorizações não enviado`);
+            return 0;
+        }
+
+        const enviadas = pendentes
+            .sort((a, b) => (a.vencimento || '').localeCompare(b.vencimento || ''))
+            .slice(0, MAX_AUTORIZACOES_DIGEST);
+        const total = pendentes.reduce((s, a) => s + Math.abs(a.valor), 0);
+        const restantes = pendentes.length - enviadas.length;
+
+        await this.notify(clientId, cliente, {
+            tipo: 'autorizacoes',
+            destinatario: whatsapp,
+            canal: 'whatsapp',
+            prioridade: 'media',
+            conteudo:
+                `Olá! ${pendentes.length} autorização(ões) aguardando sua decisão, total ${formatBRL(total)}.` +
+                (restantes > 0 ? ` Seguem as ${enviadas.length} mais próximas do vencimento; as demais estão no painel: ${dashboardUrl(clientId)}` : ''),
+        });
+
+        let ok = 0;
+        for (const a of enviadas) {
+            const registro = await this.notify(clientId, cliente, {
+                tipo: 'autorizacoes',
+                destinatario: whatsapp,
+                canal: 'whatsapp',
+                prioridade: 'alta',
+                conteudo: [
+                    `*${a.tipo === 'pagar' ? 'Pagamento' : 'Recebimento'}* ${formatBRL(Math.abs(a.valor))}`,
+                    `${a.contraparte || a.descricao}`,
+                    `Vencimento: ${formatarData(a.vencimento)}`,
+                    a.descricao && a.descricao !== a.contraparte ? a.descricao : '',
+                ].filter(Boolean).join('\n'),
+                botoes: [
+                    { id: `aprovar:${a.id}`, titulo: 'Aprovar' },
+                    { id: `rejeitar:${a.id}`, titulo: 'Rejeitar' },
+                ],
+                metadata: { authorizationId: a.id },
+            });
+            if (registro?.status === 'enviado') ok++;
+        }
+
+        return ok;
     }
+
+    private async notify(clientId: string, client: Client | null, notification: Notification): Promise<SentNotification | null> {
+        if (notification.canal === 'whatsapp') {
+            const provider = this.whatsappProvider;
+            return this.entregar(clientId, notification, provider.nome, async () => {
+                if (notification.botoes && notification.botoes.length > 0) {
+                    await provider.enviarBotoes(notification.destinatario, notification.conteudo, notification.botoes);
+                } else {
+                    await provider.enviarTexto(notification.destinatario, notification.conteudo);
+                }
+            });
+        }
+
+        if (notification.canal !== 'email') {
+            // MOCK: dashboard ainda não tem provedor
+            logger.info(`[Notification] Enviando ${notification.tipo} via ${notification.canal} para ${notification.destinatario}`);
+            logger.info(`[Content] ${notification.conteudo}`);
+            return null;
+        }
+
+        if (client?.config?.notificacoes?.email === false) {
+            logger.info(`Email desativado para ${clientId}: ${notification.tipo} não enviado`);
+            return null;
+        }
+
+        const provider = this.emailProvider;
+        const para = notification.destinatario.split(',').map((e) => e.trim()).filter(Boolean);
+        const assunto = notification.assunto || notification.tipo;
+
+        return this.entregar(clientId, { ...notification, destinatario: para.join(', '), assunto }, provider.nome, () =>
+            provider.enviar({ para, assunto, texto: notification.conteudo, html: notification.html || notification.conteudo })
+        );
+    }
+
+    /**
+     * Envia com novas tentativas (falha permanente do provedor não é
+     * repetida) e grava o SentNotification com o resultado. Não lança:
+     * a falha fica registrada e não interrompe o ciclo.
+     */
+    private async entregar(
+        clientId: string,
+        notification: Notification,
+        provedor: string,
+        enviar: () => Promise<unknown>
+    ): Promise<SentNotification> {
+        const canal = notification.canal;
+
+        let tentativas = 0;
+        let erro: string | undefined;
+        while (tentativas < this.tentativas) {
+            tentativas++;
+            try {
+                await enviar();
+                erro = undefined;
+                break;
+            } catch (error: any) {
+                erro = error.message;
+                logger.warn(`${canal} ${notification.tipo} para ${clientId} falhou (tentativa ${tentativas}): ${erro}`);
+                if (error?.permanente === true) break;
+                if (tentativas < this.tentativas) {
+                    await new Promise(resolve => setTimeout(resolve, this.esperaMs * tentativas));
+                }
+            }
+        }
+
+        const registro: SentNotification = {
+            id: `notif-${randomUUID()}`,
+            clientId,
+            tipo: notification.tipo,
+            canal,
+            destinatario: notification.destinatario,
+            assunto: notification.assunto,
+            conteudo: notification.conteudo,
+            enviadoEm: nowISO(),
+            status: erro ? 'falha' : 'enviado',
+            tentativas,
+            provedor,
+            erro,
+        };
+
+        if (erro) {
+            logger.error(`${canal} ${notification.tipo} para ${clientId} não enviado após ${tentativas} tentativa(s)`, erro);
+        }
+
+        try {
+            await saveSentNotification(registro);
+        } catch (error: any) {
+            logger.warn(`Registro da notificação ${registro.id} não gravado: ${error.message}`);
+        }
+
+        return registro;
+    }
+}
+
+const formatBRL = (valor: number) =>
+    valor.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+/** YYYY-MM-DD → DD/MM/YYYY */
+function formatarData(data: string | undefined): string {
+    const [ano, mes, dia] = (data || '').substring(0, 10).split('-');
+    return dia ? `${dia}/${mes}/${ano}` : data || '-';
 }
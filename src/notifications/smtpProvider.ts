@@ -0,0 +1,249 @@
+/**
+ * SmtpEmailProvider - cliente SMTP mínimo (RFC 5321) sobre net/tls
+ *
+ * EHLO → STARTTLS (se oferecido) → AUTH PLAIN (se houver usuário) →
+ * MAIL FROM → RCPT TO → DATA. Uma conexão por mensagem.
+ *
+ * AUTH só sobre TLS (secure ou STARTTLS negociado): sem isso a senha iria
+ * em texto claro, e o envio é recusado salvo allowPlaintextAuth (sink local).
+ *
+ * A mensagem vai como multipart/alternative (texto + HTML) em base64,
+ * então o corpo nunca tem linhas começando com ponto.
+ */
+
+import * as net from 'net';
+import * as tls from 'tls';
+import { randomUUID } from 'crypto';
+import { EmailMessage, EmailProvider, EmailSendError } from './emailProvider';
+
+export interface SmtpConfig {
+    host: string;
+    port: number;
+    secure?: boolean; // TLS desde a conexão (465)
+    user?: string;
+    pass?: string;
+    from: string;
+    timeoutMs?: number;
+    rejectUnauthorized?: boolean;
+    allowPlaintextAuth?: boolean; // AUTH sem TLS (apenas servidor local/testes)
+}
+
+interface SmtpResposta {
+    codigo: number;
+    linhas: string[];
+}
+
+// ============================================================================
+// CONEXÃO
+// ============================================================================
+
+class SmtpConnection {
+    private buffer = '';
+    private linhas: string[] = [];
+    private respostas: SmtpResposta[] = [];
+    private aguardando: Array<{ resolve: (r: SmtpResposta) => void; reject: (e: Error) => void }> = [];
+    private erro: Error | null = null;
+
+    constructor(private socket: net.Socket, private readonly timeoutMs: number) {
+        this.escutar(socket);
+    }
+
+    private escutar(socket: net.Socket): void {
+        socket.setTimeout(this.timeoutMs);
+        socket.on('data', (chunk: Buffer) => this.receber(chunk.toString('utf8')));
+        socket.on('timeout', () => this.falhar(new EmailSendError('SMTP timeout')));
+        socket.on('error', (e) => this.falhar(new EmailSendError(`SMTP: ${e.message}`)));
+        socket.on('close', () => this.falhar(new EmailSendError('SMTP: conexão encerrada pelo servidor')));
+    }
+
+    private receber(texto: string): void {
+        this.buffer += texto;
+        let fim: number;
+        while ((fim = this.buffer.indexOf('\n')) >= 0) {
+            const linha = this.buffer.substring(0, fim).replace(/\r$/, '');
+            this.buffer = this.buffer.substring(fim + 1);
+            this.linhas.push(linha);
+
+            // "250-..." continua; "250 ..." (ou só "250") fecha a resposta
+            if (/^\d{3}(?: |$)/.test(linha)) {
+                const resposta = { codigo: parseInt(linha.substring(0, 3), 10), linhas: this.linhas.map((l) => l.substring(4)) };
+                this.linhas = [];
+                const pendente = this.aguardando.shift();
+                if (pendente) pendente.resolve(resposta);
+                else this.respostas.push(resposta);
+            }
+        }
+    }
+
+    private falhar(erro: Error): void {
+        if (this.erro) return;
+        this.erro = erro;
+        for (const pendente of this.aguardando.splice(0)) pendente.reject(erro);
+    }
+
+    ler(): Promise<SmtpResposta> {
+        const pronta = this.respostas.shift();
+        if (pronta) return Promise.resolve(pronta);
+        if (this.erro) return Promise.reject(this.erro);
+        return new Promise((resolve, reject) => this.aguardando.push({ resolve, reject }));
+    }
+
+    /** Envia e exige um dos códigos esperados */
+    async comando(linha: string | null, esperados: number[], descricao = linha || ''): Promise<SmtpResposta> {
+        if (linha !== null) this.socket.write(`${linha}\r\n`);
+        const resposta = await this.ler();
+        if (!esperados.includes(resposta.codigo)) {
+            throw new EmailSendError(
+                `SMTP ${descricao.split(' ')[0]} recusado: ${resposta.codigo} ${resposta.linhas.join(' ')}`,
+                resposta.codigo >= 500,
+                resposta.codigo
+            );
+        }
+        return resposta;
+    }
+
+    async starttls(host: string, rejectUnauthorized: boolean): Promise<void> {
+        const inseguro = this.socket;
+        inseguro.removeAllListeners('data');
+        inseguro.removeAllListeners('timeout');
+        inseguro.removeAllListeners('error');
+        inseguro.removeAllListeners('close');
+
+        this.socket = await new Promise<tls.TLSSocket>((resolve, reject) => {
+            const seguro = tls.connect({ socket: inseguro, servername: host, rejectUnauthorized }, () => resolve(seguro));
+            seguro.setTimeout(this.timeoutMs);
+            seguro.once('timeout', () => {
+                seguro.destroy();
+                reject(new EmailSendError('SMTP TLS: timeout no handshake'));
+            });
+            seguro.once('error', (e) => reject(new EmailSendError(`SMTP TLS: ${e.message}`)));
+        });
+        this.escutar(this.socket);
+    }
+
+    encerrar(): void {
+        this.socket.removeAllListeners('close');
+        this.socket.end();
+        this.socket.destroy();
+    }
+}
+
+/** Abre a conexão; host inacessível falha em timeoutMs em vez de travar o notifier */
+function conectar(config: SmtpConfig, timeoutMs: number): Promise<net.Socket> {
+    return new Promise((resolve, reject) => {
+        const semResposta = () => {
+            socket.destroy();
+            reject(new EmailSendError(`SMTP ${config.host}:${config.port}: timeout ao conectar`));
+        };
+        const conectado = () => {
+            socket.removeListener('timeout', semResposta);
+            resolve(socket);
+        };
+
+        const socket: net.Socket = config.secure
+            ? tls.connect({ host: config.host, port: config.port, servername: config.host, rejectUnauthorized: config.rejectUnauthorized !== false, timeout: timeoutMs }, conectado)
+            : net.connect({ host: config.host, port: config.port, timeout: timeoutMs }, conectado);
+        socket.once('timeout', semResposta);
+        socket.once('error', (e) => reject(new EmailSendError(`SMTP ${config.host}:${config.port}: ${e.message}`)));
+    });
+}
+
+// ============================================================================
+// MENSAGEM (MIME)
+// ============================================================================
+
+/** Endereço puro de "Nome <email>" */
+export function enderecoDe(remetente: string): string {
+    const m = remetente.match(/<([^>]+)>/);
+    return (m ? m[1] : remetente).trim();
+}
+
+function cabecalhoCodificado(texto: string): string {
+    return /^[\x20-\x7e]*$/.test(texto) ? texto : `=?UTF-8?B?${Buffer.from(texto, 'utf8').toString('base64')}?=`;
+}
+
+function base64Linhas(texto: string): string {
+    return (Buffer.from(texto, 'utf8').toString('base64').match(/.{1,76}/g) || []).join('\r\n');
+}
+
+export function montarMime(from: string, mensagem: EmailMessage, data = new Date()): string {
+    const fronteira = `=_wf_${randomUUID()}`;
+    const dominio = enderecoDe(from).split('@')[1] || 'localhost';
+
+    return [
+        `From: ${from}`,
+        `To: ${mensagem.para.join(', ')}`,
+        `Subject: ${cabecalhoCodificado(mensagem.assunto)}`,
+        `Date: ${data.toUTCString().replace('GMT', '+0000')}`,
+        `Message-ID: <${randomUUID()}@${dominio}>`,
+        'MIME-Version: 1.0',
+        `Content-Type: multipart/alternative; boundary="${fronteira}"`,
+        '',
+        `--${fronteira}`,
+        'Content-Type: text/plain; charset=utf-8',
+        'Content-Transfer-Encoding: base64',
+        '',
+        base64Linhas(mensagem.texto),
+        `--${fronteira}`,
+        'Content-Type: text/html; charset=utf-8',
+        'Content-Transfer-Encoding: base64',
+        '',
+        base64Linhas(mensagem.html),
+        `--${fronteira}--`,
+        '',
+    ].join('\r\n');
+}
+
+// ============================================================================
+// PROVIDER
+// ============================================================================
+
+export class SmtpEmailProvider implements EmailProvider {
+    readonly nome = 'smtp';
+
+    constructor(private readonly config: SmtpConfig) {}
+
+    async enviar(mensagem: EmailMessage): Promise<void> {
+        if (mensagem.para.length === 0) {
+            throw new EmailSendError('Mensagem sem destinatário', true);
+        }
+
+        const { host, user, pass, from } = this.config;
+        const timeoutMs = this.config.timeoutMs || 30000;
+        const conexao = new SmtpConnection(await conectar(this.config, timeoutMs), timeoutMs);
+
+        try {
+            await conexao.comando(null, [220], 'greeting');
+            const nomeLocal = process.env.WEBSITE_HOSTNAME || 'localhost';
+            const ehlo = await conexao.comando(`EHLO ${nomeLocal}`, [250]);
+
+            let cifrada = !!this.config.secure;
+            const ofereceStarttls = ehlo.linhas.some((l) => l.toUpperCase().startsWith('STARTTLS'));
+            if (!cifrada && ofereceStarttls) {
+                await conexao.comando('STARTTLS', [220]);
+                await conexao.starttls(host, this.config.rejectUnauthorized !== false);
+                await conexao.comando(`EHLO ${nomeLocal}`, [250]);
+                cifrada = true;
+            }
+
+            if (user && !cifrada && !this.config.allowPlaintextAuth) {
+                throw new EmailSendError(`SMTP ${host}: servidor sem TLS; AUTH em texto claro recusado`, true);
+            }
+
+            if (user) {
+                const credencial = Buffer.from(`\0${user}\0${pass || ''}`, 'utf8').toString('base64');
+                await conexao.comando(`AUTH PLAIN ${credencial}`, [235], 'AUTH');
+            }
+
+            await conexao.comando(`MAIL FROM:<${enderecoDe(from)}>`, [250]);
+            for (const destinatario of mensagem.para) {
+                await conexao.comando(`RCPT TO:<${destinatario}>`, [250, 251]);
+            }
+            await conexao.comando('DATA', [354]);
+            await conexao.comando(`${montarMime(from, mensagem)}\r\n.`, [250], 'DATA');
+            await conexao.comando('QUIT', [221]).catch(() => undefined);
+        } finally {
+            conexao.encerrar();
+        }
+    }
+}
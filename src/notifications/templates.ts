@@ -0,0 +1,139 @@
+/**
+ * Templates de email - resumo diário e alertas
+ *
+ * Cada template devolve assunto, HTML (tabelas + estilos inline, que é o
+ * que os clientes de email respeitam) e a versão texto.
+ */
+
+export interface EmailRenderizado {
+    assunto: string;
+    html: string;
+    texto: string;
+}
+
+export interface DadosResumoDiario {
+    processed: number;
+    autoApproved: number;
+    needsReview: number;
+    anomalies: number;
+    totalValue: number;
+}
+
+export interface DadosAlerta {
+    title: string;
+    message: string;
+    severity: 'alta' | 'critica';
+    transactionId?: string;
+}
+
+const APP_URL = process.env.APP_URL || 'https://app.wfinance.com.br';
+
+export function dashboardUrl(clientId: string): string {
+    return `${APP_URL}/dashboard/${encodeURIComponent(clientId)}`;
+}
+
+function escapeHtml(texto: string): string {
+    return texto
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+const formatBRL = (valor: number) =>
+    valor.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+/** Moldura comum: cabeçalho, conteúdo e botão para o dashboard */
+function layout(titulo: string, corpo: string, botao: { label: string; url: string }, cor = '#7c3aed'): string {
+    return `<!DOCTYPE html>
+<html lang="pt-BR">
+<head><meta charset="utf-8"><title>${escapeHtml(titulo)}</title></head>
+<body style="margin:0;padding:0;background:#f4f5f8;font-family:Arial,Helvetica,sans-serif;color:#111827;">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f4f5f8;padding:24px 0;">
+<tr><td align="center">
+<table role="presentation" width="600" cellpadding="0" cellspacing="0" style="background:#ffffff;border-radius:12px;overflow:hidden;">
+<tr><td style="background:${cor};color:#ffffff;padding:20px 24px;font-size:18px;font-weight:bold;">${escapeHtml(titulo)}</td></tr>
+<tr><td style="padding:24px;font-size:14px;line-height:1.5;">${corpo}</td></tr>
+<tr><td style="padding:0 24px 24px;"><a href="${escapeHtml(botao.url)}" style="display:inline-block;background:${cor};color:#ffffff;text-decoration:none;padding:10px 18px;border-radius:8px;font-size:14px;">${escapeHtml(botao.label)}</a></td></tr>
+<tr><td style="padding:16px 24px;border-top:1px solid #e5e7ee;color:#9ca3b4;font-size:12px;">BPO WFinance - mensagem automática</td></tr>
+</table>
+</td></tr>
+</table>
+</body>
+</html>`;
+}
+
+export function templateResumoDiario(
+    cliente: { id: string; nome?: string },
+    dados: DadosResumoDiario,
+    data = new Date()
+): EmailRenderizado {
+    const dia = data.toLocaleDateString('pt-BR');
+    const nome = cliente.nome || cliente.id;
+    const url = dashboardUrl(cliente.id);
+    const economiaMin = (dados.autoApproved * 0.5).toFixed(1);
+
+    const linhas: Array<[string, string]> = [
+        ['Processadas', `${dados.processed} transações`],
+        ['Aprovadas automaticamente', `${dados.autoApproved} (economia estimada: ${economiaMin} min)`],
+        ['Requer revisão', String(dados.needsReview)],
+        ['Anomalias detectadas', String(dados.anomalies)],
+        ['Valor total processado', formatBRL(dados.totalValue)],
+    ];
+
+    const tabela = linhas
+        .map(([rotulo, valor]) =>
+            `<tr><td style="padding:8px 0;color:#6b7280;border-bottom:1px solid #f0f1f5;">${escapeHtml(rotulo)}</td>` +
+            `<td align="right" style="padding:8px 0;font-weight:bold;border-bottom:1px solid #f0f1f5;">${escapeHtml(valor)}</td></tr>`)
+        .join('');
+
+    return {
+        assunto: `Resumo diário ${dia} - ${nome}`,
+        html: layout(
+            `Resumo diário - ${dia}`,
+            `<p>Olá! Segue o resumo das operações de hoje para <strong>${escapeHtml(nome)}</strong>:</p>` +
+            `<table role="presentation" width="100%" cellpadding="0" cellspacing="0">${tabela}</table>`,
+            { label: 'Ver detalhes', url }
+        ),
+        texto: [
+            `Resumo diário de operações - ${dia}`,
+            '',
+            `Olá! Segue o resumo das operações de hoje para ${nome}:`,
+            '',
+            ...linhas.map(([rotulo, valor]) => `- ${rotulo}: ${valor}`),
+            '',
+            `Ver detalhes: ${url}`,
+        ].join('\n'),
+    };
+}
+
+export function templateAlerta(cliente: { id: string; nome?: string }, alerta: DadosAlerta): EmailRenderizado {
+    const prefixo = alerta.severity === 'critica' ? '[URGENTE]' : '[ALERTA]';
+    const nome = cliente.nome || cliente.id;
+    const url = dashboardUrl(cliente.id);
+    const paragrafos = alerta.message
+        .split(/\n{2,}/)
+        .map((p) => `<p>${escapeHtml(p).replace(/\n/g, '<br>')}</p>`)
+        .join('');
+    const transacao = alerta.transactionId
+        ? `<p style="color:#6b7280;font-size:12px;">Transação: ${escapeHtml(alerta.transactionId)}</p>`
+        : '';
+
+    return {
+        assunto: `${prefixo} ${alerta.title} - ${nome}`,
+        html: layout(
+            `${prefixo} ${alerta.title}`,
+            `<p style="color:#6b7280;">${escapeHtml(nome)}</p>${paragrafos}${transacao}`,
+            { label: 'Abrir no dashboard', url },
+            alerta.severity === 'critica' ? '#dc2626' : '#f59e0b'
+        ),
+        texto: [
+            `${prefixo} ${alerta.title}`,
+            '',
+            alerta.message,
+            ...(alerta.transactionId ? ['', `Transação: ${alerta.transactionId}`] : []),
+            '',
+            url,
+        ].join('\n'),
+    };
+}
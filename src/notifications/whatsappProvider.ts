@@ -0,0 +1,193 @@
+/**
+ * WhatsappProvider - envio pelo WhatsApp Business Cloud API
+ *
+ * O provedor é escolhido pelo ambiente:
+ *   - WHATSAPP_TOKEN + WHATSAPP_PHONE_NUMBER_ID → Cloud API (Graph)
+ *   - sem configuração → stub em memória (dev/testes)
+ *
+ * Botões de resposta rápida (interactive/button) só podem ser enviados
+ * dentro da janela de 24h de conversa. Fora dela a Meta exige template
+ * aprovado: com WHATSAPP_TEMPLATE_BOTOES definido, as mensagens com botões
+ * usam esse template (corpo com uma variável e botões quick reply cujo
+ * payload é o id do botão).
+ */
+
+import { createLogger } from '../../shared/utils';
+
+const logger = createLogger('WhatsappProvider');
+
+const GRAPH_URL = 'https://graph.facebook.com';
+const MAX_BOTOES = 3; // limite da Cloud API por mensagem
+const MAX_TITULO_BOTAO = 20;
+const MAX_CORPO = 1024;
+
+export interface WhatsappBotao {
+    id: string; // volta no webhook (button_reply.id ou button.payload)
+    titulo: string;
+}
+
+export interface WhatsappProvider {
+    nome: string;
+    enviarTexto(para: string, texto: string): Promise<string>;
+    enviarBotoes(para: string, texto: string, botoes: WhatsappBotao[]): Promise<string>;
+}
+
+export class WhatsappSendError extends Error {
+    constructor(message: string, readonly permanente = false, readonly codigo?: number) {
+        super(message);
+        this.name = 'WhatsappSendError';
+    }
+}
+
+/** Só dígitos, com DDI 55 quando o número vier no formato nacional */
+export function normalizarTelefone(numero: string | undefined): string {
+    const digitos = (numero || '').replace(/\D/g, '');
+    return digitos.length === 10 || digitos.length === 11 ? `55${digitos}` : digitos;
+}
+
+// ============================================================================
+// CLOUD API
+// ============================================================================
+
+export interface CloudApiConfig {
+    token: string;
+    phoneNumberId: string;
+    versao?: string;
+    templateBotoes?: string;
+    idiomaTemplate?: string;
+}
+
+export class CloudApiWhatsappProvider implements WhatsappProvider {
+    readonly nome = 'whatsapp-cloud';
+
+    constructor(private readonly config: CloudApiConfig) {}
+
+    async enviarTexto(para: string, texto: string): Promise<string> {
+        return this.post({
+            to: normalizarTelefone(para),
+            type: 'text',
+            text: { body: texto.substring(0, 4096) },
+        });
+    }
+
+    async enviarBotoes(para: string, texto: string, botoes: WhatsappBotao[]): Promise<string> {
+        const usados = botoes.slice(0, MAX_BOTOES);
+
+        if (this.config.templateBotoes) {
+            return this.post({
+                to: normalizarTelefone(para),
+                type: 'template',
+                template: {
+                    name: this.config.templateBotoes,
+                    language: { code: this.config.idiomaTemplate || 'pt_BR' },
+                    components: [
+                        { type: 'body', parameters: [{ type: 'text', text: texto.substring(0, MAX_CORPO) }] },
+                        ...usados.map((b, i) => ({
+                            type: 'button',
+                            sub_type: 'quick_reply',
+                            index: String(i),
+                            parameters: [{ type: 'payload', payload: b.id }],
+                        })),
+                    ],
+                },
+            });
+        }
+
+        return this.post({
+            recipient_type: 'individual',
+            to: normalizarTelefone(para),
+            type: 'interactive',
+            interactive: {
+                type: 'button',
+                body: { text: texto.substring(0, MAX_CORPO) },
+                action: {
+                    buttons: usados.map((b) => ({
+                        type: 'reply',
+                        reply: { id: b.id, title: b.titulo.substring(0, MAX_TITULO_BOTAO) },
+                    })),
+                },
+            },
+        });
+    }
+
+    private async post(mensagem: Record<string, unknown>): Promise<string> {
+        const url = `${GRAPH_URL}/${this.config.versao || 'v19.0'}/${this.config.phoneNumberId}/messages`;
+
+        let res: Response;
+        try {
+            res = await fetch(url, {
+                method: 'POST',
+                headers: {
+                    Authorization: `Bearer ${this.config.token}`,
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({ messaging_product: 'whatsapp', ...mensagem }),
+            });
+        } catch (error: any) {
+            throw new WhatsappSendError(`WhatsApp: ${error.message}`);
+        }
+
+        const body = (await res.json().catch(() => ({}))) as {
+            messages?: Array<{ id: string }>;
+            error?: { message?: string; code?: number };
+        };
+
+        if (!res.ok) {
+            // 4xx (exceto 429) = número inválido, template recusado, token... não adianta repetir
+            throw new WhatsappSendError(
+                `WhatsApp ${res.status}: ${body.error?.message || res.statusText}`,
+                res.status >= 400 && res.status < 500 && res.status !== 429,
+                body.error?.code ?? res.status
+            );
+        }
+
+        return body.messages?.[0]?.id || '';
+    }
+}
+
+// ============================================================================
+// STUB
+// ============================================================================
+
+/** Guarda as mensagens em memória; usado sem credenciais e nos testes */
+export class StubWhatsappProvider implements WhatsappProvider {
+    readonly nome = 'whatsapp-stub';
+    readonly enviados: Array<{ id: string; para: string; texto: string; botoes?: WhatsappBotao[] }> = [];
+
+    async enviarTexto(para: string, texto: string): Promise<string> {
+        return this.registrar(para, texto);
+    }
+
+    async enviarBotoes(para: string, texto: string, botoes: WhatsappBotao[]): Promise<string> {
+        return this.registrar(para, texto, botoes.slice(0, MAX_BOTOES));
+    }
+
+    private registrar(para: string, texto: string, botoes?: WhatsappBotao[]): string {
+        const id = `wamid.stub-${this.enviados.length + 1}`;
+        this.enviados.push({ id, para: normalizarTelefone(para), texto, botoes });
+        logger.info(`[WhatsApp] ${id} → ${normalizarTelefone(para)}${botoes ? ` (${botoes.map((b) => b.titulo).join(' / ')})` : ''}`);
+        return id;
+    }
+}
+
+let provider: WhatsappProvider | null = null;
+
+export function getWhatsappProvider(): WhatsappProvider {
+    if (!provider) {
+        const token = process.env.WHATSAPP_TOKEN;
+        const phoneNumberId = process.env.WHATSAPP_PHONE_NUMBER_ID;
+        if (token && phoneNumberId) {
+            provider = new CloudApiWhatsappProvider({
+                token,
+                phoneNumberId,
+                versao: process.env.WHATSAPP_API_VERSION,
+                templateBotoes: process.env.WHATSAPP_TEMPLATE_BOTOES,
+                idiomaTemplate: process.env.WHATSAPP_TEMPLATE_IDIOMA,
+            });
+        } else {
+            logger.warn('WHATSAPP_TOKEN/WHATSAPP_PHONE_NUMBER_ID não configurados: usando stub');
+            provider = new StubWhatsappProvider();
+        }
+    }
+    return provider;
+}
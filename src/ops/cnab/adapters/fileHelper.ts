@@ -0,0 +1,464 @@
+/**
+ * CNAB File Helper - Parser de arquivos de retorno FEBRABAN
+ *
+ * Parseia retornos CNAB 240 (cobrança e pagamentos) e CNAB 400 (cobrança)
+ * dos bancos integrados (Santander 033, Inter 077), no mesmo estilo
+ * posicional do parser Getnet.
+ *
+ * CNAB 240 — tipo de registro na posição 8 (0-indexed [7:8]):
+ *   0 - Header de arquivo
+ *   1 - Header de lote
+ *   3 - Detalhe (segmentos T/U cobrança, J/J-52 e A/B pagamentos)
+ *   5 - Trailer de lote
+ *   9 - Trailer de arquivo
+ *
+ * CNAB 400 — tipo de registro na posição 1 ([0:1]):
+ *   0 - Header, 1 - Detalhe (cobrança), 9 - Trailer
+ */
+
+import { createLogger } from '../shared/utils';
+import { TransactionStatus } from '../../../types';
+import { CnabHeaderArquivo, CnabLayout, CnabRetorno, CnabRetornoDetalhe } from './types';
+
+const logger = createLogger('CnabFileHelper');
+
+// ============================================================================
+// OCORRÊNCIAS
+// ============================================================================
+
+/** Cobrança (código de movimento retorno, T e 400): liquidações */
+const COBRANCA_LIQUIDACAO = ['06', '07', '08', '17'];
+/** Cobrança: entrada/instrução rejeitada */
+const COBRANCA_REJEICAO = ['03', '26', '30'];
+
+const DESCRICOES_COBRANCA: Record<string, string> = {
+  '02': 'Entrada confirmada',
+  '03': 'Entrada rejeitada',
+  '06': 'Liquidação',
+  '07': 'Liquidação por conta',
+  '08': 'Liquidação em cartório',
+  '09': 'Baixa',
+  '12': 'Confirmação de abatimento',
+  '14': 'Confirmação de alteração de vencimento',
+  '17': 'Liquidação após baixa',
+  '19': 'Confirmação de protesto',
+  '26': 'Instrução rejeitada',
+  '28': 'Débito de tarifas/custas',
+  '30': 'Alteração de dados rejeitada',
+};
+
+/** Pagamentos (J/A): '00' efetivado, 'BD' agendado; demais são rejeições */
+const DESCRICOES_PAGAMENTO: Record<string, string> = {
+  '00': 'Crédito ou débito efetivado',
+  'BD': 'Inclusão efetuada com sucesso (agendado)',
+  'AB': 'Tipo de operação inválido',
+  'AG': 'Agência/conta/dígito inválido',
+  'AM': 'Valor do pagamento inválido',
+  'AP': 'Data do lançamento inválida',
+  'BE': 'Horário de envio excedido',
+  'HA': 'Lote não aceito',
+  'HD': 'Insuficiência de saldo',
+  'IA': 'Código de barras inválido',
+  'TA': 'Lote não aceito - totais com diferença',
+  'ZA': 'Agência/conta do favorecido substituída',
+};
+
+export function mapOcorrenciaCobranca(codigo: string): TransactionStatus | null {
+  if (COBRANCA_LIQUIDACAO.includes(codigo)) return TransactionStatus.RECEBIDO;
+  if (COBRANCA_REJEICAO.includes(codigo)) return TransactionStatus.REJEITADO;
+  return null;
+}
+
+export function mapOcorrenciaPagamento(ocorrencias: string[]): TransactionStatus {
+  const principal = ocorrencias[0] || '';
+  if (principal === '00') return TransactionStatus.PAGO;
+  if (principal === 'BD') return TransactionStatus.AGENDADO;
+  return TransactionStatus.REJEITADO;
+}
+
+// ============================================================================
+// PARSER PRINCIPAL
+// ============================================================================
+
+/** Detecta layout pelo tamanho da primeira linha útil */
+export function detectLayout(conteudo: string): CnabLayout {
+  const primeira = conteudo.split('\n').find((l) => l.trim()) || '';
+  return primeira.replace(/\r$/, '').length > 300 ? '400' : '240';
+}
+
+/**
+ * Parseia conteúdo completo de um arquivo de retorno CNAB
+ */
+export function parseRetorno(conteudo: string): CnabRetorno {
+  const layout = detectLayout(conteudo);
+  const tamanho = layout === '240' ? 240 : 400;
+  const linhas = conteudo.split('\n').map((l) => l.replace(/\r$/, '').padEnd(tamanho, ' '));
+
+  const retorno = layout === '240' ? parseRetorno240(linhas) : parseRetorno400(linhas);
+
+  if (retorno.header.tipoArquivo !== 'retorno') {
+    logger.warn('Arquivo CNAB não está marcado como retorno no header');
+  }
+
+  logger.info(`CNAB ${layout} parseado: banco ${retorno.header.banco}, ${retorno.detalhes.length} detalhes`);
+  return retorno;
+}
+
+function parseRetorno240(linhas: string[]): CnabRetorno {
+  let header: CnabHeaderArquivo | null = null;
+  const detalhes: CnabRetornoDetalhe[] = [];
+
+  for (let i = 0; i < linhas.length; i++) {
+    const linha = linhas[i];
+    const numeroLinha = i + 1;
+    if (!linha.trim()) continue;
+
+    try {
+      const tipoRegistro = linha.substring(7, 8);
+
+      if (tipoRegistro === '0') {
+        header = parseHeader240(linha);
+        continue;
+      }
+      if (tipoRegistro !== '3') continue;
+
+      const segmento = linha.substring(13, 14);
+
+      switch (segmento) {
+        case 'T': {
+          // U vem logo após o T com valores pagos e datas
+          const proxima = linhas[i + 1];
+          const u = proxima && proxima.substring(7, 8) === '3' && proxima.substring(13, 14) === 'U' ? proxima : null;
+          detalhes.push(parseSegmentoTU(linha, u, numeroLinha));
+          if (u) i++;
+          break;
+        }
+        case 'J':
+          // J-52 (dados de sacado/cedente) é complementar
+          if (linha.substring(17, 19) === '52') break;
+          detalhes.push(parseSegmentoJ(linha, numeroLinha));
+          break;
+        case 'A':
+          detalhes.push(parseSegmentoA(linha, numeroLinha));
+          break;
+        default:
+          // B, U avulso, Z (autenticação): informativos
+          break;
+      }
+    } catch (e: any) {
+      logger.error(`Erro ao parsear linha ${numeroLinha}: ${e.message}`);
+    }
+  }
+
+  if (!header) throw new Error('Arquivo CNAB 240 sem header de arquivo');
+  return { header, detalhes };
+}
+
+function parseRetorno400(linhas: string[]): CnabRetorno {
+  let header: CnabHeaderArquivo | null = null;
+  const detalhes: CnabRetornoDetalhe[] = [];
+
+  for (let i = 0; i < linhas.length; i++) {
+    const linha = linhas[i];
+    const numeroLinha = i + 1;
+    if (!linha.trim()) continue;
+
+    try {
+      const tipoRegistro = linha.substring(0, 1);
+      if (tipoRegistro === '0') header = parseHeader400(linha);
+      else if (tipoRegistro === '1') detalhes.push(parseDetalhe400(linha, numeroLinha));
+    } catch (e: any) {
+      logger.error(`Erro ao parsear linha ${numeroLinha}: ${e.message}`);
+    }
+  }
+
+  if (!header) throw new Error('Arquivo CNAB 400 sem header de arquivo');
+  return { header, detalhes };
+}
+
+// ============================================================================
+// PARSERS POR REGISTRO - CNAB 240
+// ============================================================================
+
+/**
+ * Header de Arquivo (registro 0)
+ *
+ * [0:3]     Código do banco
+ * [7:8]     Tipo registro (0)
+ * [17:18]   Tipo inscrição empresa
+ * [18:32]   CNPJ empresa
+ * [72:102]  Nome empresa
+ * [102:132] Nome banco
+ * [142:143] Código remessa (1) / retorno (2)
+ * [143:151] Data geração (DDMMAAAA)
+ * [157:163] NSA
+ */
+function parseHeader240(linha: string): CnabHeaderArquivo {
+  return {
+    layout: '240',
+    banco: linha.substring(0, 3),
+    nomeBanco: linha.substring(102, 132).trim(),
+    cnpjEmpresa: linha.substring(18, 32).trim(),
+    nomeEmpresa: linha.substring(72, 102).trim(),
+    tipoArquivo: linha.substring(142, 143) === '1' ? 'remessa' : 'retorno',
+    dataGeracao: parseDataDDMMAAAA(linha.substring(143, 151)),
+    sequencial: parseInt(linha.substring(157, 163), 10) || 0,
+  };
+}
+
+/**
+ * Segmento T (cobrança) + Segmento U
+ *
+ * T:
+ * [15:17]   Código de movimento retorno
+ * [37:57]   Nosso número
+ * [58:73]   Número do documento (seu número)
+ * [73:81]   Vencimento (DDMMAAAA)
+ * [81:96]   Valor nominal do título (13,2)
+ * [148:188] Nome do sacado
+ * [198:213] Valor da tarifa
+ * [213:223] Motivos da ocorrência (5 x 2)
+ *
+ * U:
+ * [17:32]   Juros/multa/encargos
+ * [32:47]   Desconto concedido
+ * [47:62]   Abatimento
+ * [77:92]   Valor pago pelo sacado
+ * [137:145] Data da ocorrência (DDMMAAAA)
+ * [145:153] Data do crédito (DDMMAAAA)
+ */
+function parseSegmentoTU(t: string, u: string | null, numeroLinha: number): CnabRetornoDetalhe {
+  const codigo = t.substring(15, 17);
+
+  return {
+    linha: numeroLinha,
+    segmento: 'T',
+    operacao: 'cobranca',
+    codigoOcorrencia: codigo,
+    ocorrencias: splitOcorrencias(t.substring(213, 223)),
+    descricaoOcorrencia: DESCRICOES_COBRANCA[codigo] || `Ocorrência ${codigo}`,
+    status: mapOcorrenciaCobranca(codigo),
+    nossoNumero: stripZeros(t.substring(37, 57)),
+    numeroDocumento: t.substring(58, 73).trim() || undefined,
+    nome: t.substring(148, 188).trim() || undefined,
+    dataVencimento: parseDataDDMMAAAA(t.substring(73, 81)),
+    dataOcorrencia: u ? parseDataDDMMAAAA(u.substring(137, 145)) : null,
+    dataCredito: u ? parseDataDDMMAAAA(u.substring(145, 153)) : null,
+    valorTitulo: parseValor(t.substring(81, 96)),
+    valorPago: u ? parseValor(u.substring(77, 92)) : 0.0,
+    juros: u ? parseValor(u.substring(17, 32)) : 0.0,
+    desconto: u ? parseValor(u.substring(32, 47)) : 0.0,
+    abatimento: u ? parseValor(u.substring(47, 62)) : 0.0,
+    tarifa: parseValor(t.substring(198, 213)),
+  };
+}
+
+/**
+ * Segmento J (pagamento de títulos/boletos)
+ *
+ * [17:61]   Código de barras (44)
+ * [61:91]   Nome do cedente
+ * [91:99]   Vencimento (DDMMAAAA)
+ * [99:114]  Valor do título
+ * [114:129] Desconto + abatimento
+ * [129:144] Mora + multa
+ * [144:152] Data do pagamento (DDMMAAAA)
+ * [152:167] Valor do pagamento
+ * [182:202] Seu número (empresa)
+ * [202:222] Nosso número (banco)
+ * [230:240] Ocorrências (5 x 2)
+ */
+function parseSegmentoJ(linha: string, numeroLinha: number): CnabRetornoDetalhe {
+  const ocorrencias = splitOcorrencias(linha.substring(230, 240));
+  const dataPagamento = parseDataDDMMAAAA(linha.substring(144, 152));
+
+  return {
+    linha: numeroLinha,
+    segmento: 'J',
+    operacao: 'pagamento',
+    codigoOcorrencia: ocorrencias[0] || '',
+    ocorrencias,
+    descricaoOcorrencia: describePagamento(ocorrencias),
+    status: mapOcorrenciaPagamento(ocorrencias),
+    nossoNumero: stripZeros(linha.substring(202, 222)),
+    numeroDocumento: linha.substring(182, 202).trim() || undefined,
+    codigoBarras: linha.substring(17, 61).trim() || undefined,
+    nome: linha.substring(61, 91).trim() || undefined,
+    dataVencimento: parseDataDDMMAAAA(linha.substring(91, 99)),
+    dataOcorrencia: dataPagamento,
+    dataCredito: dataPagamento,
+    valorTitulo: parseValor(linha.substring(99, 114)),
+    valorPago: parseValor(linha.substring(152, 167)),
+    juros: parseValor(linha.substring(129, 144)),
+    desconto: parseValor(linha.substring(114, 129)),
+    abatimento: 0.0,
+    tarifa: 0.0,
+  };
+}
+
+/**
+ * Segmento A (crédito em conta, TED, PIX)
+ *
+ * [20:23]   Banco do favorecido
+ * [43:73]   Nome do favorecido
+ * [73:93]   Seu número (empresa)
+ * [93:101]  Data do pagamento (DDMMAAAA)
+ * [119:134] Valor do pagamento
+ * [134:154] Nosso número (banco)
+ * [154:162] Data real da efetivação (DDMMAAAA)
+ * [162:177] Valor real da efetivação
+ * [230:240] Ocorrências (5 x 2)
+ */
+function parseSegmentoA(linha: string, numeroLinha: number): CnabRetornoDetalhe {
+  const ocorrencias = splitOcorrencias(linha.substring(230, 240));
+  const valorPagamento = parseValor(linha.substring(119, 134));
+  const valorReal = parseValor(linha.substring(162, 177));
+  const dataReal = parseDataDDMMAAAA(linha.substring(154, 162));
+
+  return {
+    linha: numeroLinha,
+    segmento: 'A',
+    operacao: 'pagamento',
+    codigoOcorrencia: ocorrencias[0] || '',
+    ocorrencias,
+    descricaoOcorrencia: describePagamento(ocorrencias),
+    status: mapOcorrenciaPagamento(ocorrencias),
+    nossoNumero: stripZeros(linha.substring(134, 154)),
+    numeroDocumento: linha.substring(73, 93).trim() || undefined,
+    nome: linha.substring(43, 73).trim() || undefined,
+    dataVencimento: parseDataDDMMAAAA(linha.substring(93, 101)),
+    dataOcorrencia: dataReal || parseDataDDMMAAAA(linha.substring(93, 101)),
+    dataCredito: dataReal,
+    valorTitulo: valorPagamento,
+    valorPago: valorReal || valorPagamento,
+    juros: 0.0,
+    desconto: 0.0,
+    abatimento: 0.0,
+    tarifa: 0.0,
+  };
+}
+
+// ============================================================================
+// PARSERS POR REGISTRO - CNAB 400
+// ============================================================================
+
+/**
+ * Header (registro 0)
+ *
+ * [1:2]     Código retorno (2)
+ * [46:76]   Nome empresa
+ * [76:79]   Código do banco
+ * [79:94]   Nome do banco
+ * [94:100]  Data geração (DDMMAA)
+ * [108:113] Sequencial do arquivo (Santander: [391:394] também)
+ */
+function parseHeader400(linha: string): CnabHeaderArquivo {
+  return {
+    layout: '400',
+    banco: linha.substring(76, 79),
+    nomeBanco: linha.substring(79, 94).trim(),
+    cnpjEmpresa: '',
+    nomeEmpresa: linha.substring(46, 76).trim(),
+    tipoArquivo: linha.substring(1, 2) === '1' ? 'remessa' : 'retorno',
+    dataGeracao: parseDataDDMMAA(linha.substring(94, 100)),
+    sequencial: parseInt(linha.substring(108, 113), 10) || 0,
+  };
+}
+
+/**
+ * Detalhe de cobrança (registro 1)
+ *
+ * [3:17]    CNPJ da empresa
+ * [62:70]   Nosso número
+ * [108:110] Código de ocorrência
+ * [110:116] Data da ocorrência (DDMMAA)
+ * [116:126] Seu número
+ * [146:152] Vencimento (DDMMAA)
+ * [152:165] Valor do título
+ * [175:188] Tarifa de cobrança
+ * [227:240] Abatimento
+ * [240:253] Desconto
+ * [253:266] Valor pago
+ * [266:279] Juros de mora
+ * [295:301] Data do crédito (DDMMAA)
+ * [301:337] Motivos de rejeição (Santander) / nome do sacado
+ */
+function parseDetalhe400(linha: string, numeroLinha: number): CnabRetornoDetalhe {
+  const codigo = linha.substring(108, 110);
+
+  return {
+    linha: numeroLinha,
+    segmento: '1',
+    operacao: 'cobranca',
+    codigoOcorrencia: codigo,
+    ocorrencias: [],
+    descricaoOcorrencia: DESCRICOES_COBRANCA[codigo] || `Ocorrência ${codigo}`,
+    status: mapOcorrenciaCobranca(codigo),
+    nossoNumero: stripZeros(linha.substring(62, 70)),
+    numeroDocumento: linha.substring(116, 126).trim() || undefined,
+    dataVencimento: parseDataDDMMAA(linha.substring(146, 152)),
+    dataOcorrencia: parseDataDDMMAA(linha.substring(110, 116)),
+    dataCredito: parseDataDDMMAA(linha.substring(295, 301)),
+    valorTitulo: parseValor(linha.substring(152, 165)),
+    valorPago: parseValor(linha.substring(253, 266)),
+    juros: parseValor(linha.substring(266, 279)),
+    desconto: parseValor(linha.substring(240, 253)),
+    abatimento: parseValor(linha.substring(227, 240)),
+    tarifa: parseValor(linha.substring(175, 188)),
+  };
+}
+
+// ============================================================================
+// FUNÇÕES AUXILIARES DE PARSE
+// ============================================================================
+
+/**
+ * Converte data DDMMAAAA para YYYY-MM-DD (00000000 = sem data)
+ */
+export function parseDataDDMMAAAA(dataStr: string): string | null {
+  const s = dataStr.trim();
+  if (!/^\d{8}$/.test(s) || s === '00000000') return null;
+
+  const dia = parseInt(s.substring(0, 2), 10);
+  const mes = parseInt(s.substring(2, 4), 10);
+  if (dia < 1 || dia > 31 || mes < 1 || mes > 12) return null;
+
+  return `${s.substring(4, 8)}-${s.substring(2, 4)}-${s.substring(0, 2)}`;
+}
+
+/**
+ * Converte data DDMMAA (CNAB 400) para YYYY-MM-DD
+ */
+export function parseDataDDMMAA(dataStr: string): string | null {
+  const s = dataStr.trim();
+  if (!/^\d{6}$/.test(s)) return null;
+  return parseDataDDMMAAAA(`${s.substring(0, 4)}20${s.substring(4, 6)}`);
+}
+
+/**
+ * Converte valor posicional (últimos 2 dígitos são centavos)
+ */
+export function parseValor(valorStr: string): number {
+  const s = valorStr.trim();
+  if (!s || !/^\d+$/.test(s)) return 0.0;
+  return parseInt(s, 10) / 100.0;
+}
+
+function splitOcorrencias(campo: string): string[] {
+  const codigos: string[] = [];
+  for (let i = 0; i < campo.length; i += 2) {
+    const codigo = campo.substring(i, i + 2).trim();
+    if (codigo) codigos.push(codigo);
+  }
+  return codigos;
+}
+
+function describePagamento(ocorrencias: string[]): string {
+  if (ocorrencias.length === 0) return 'Sem ocorrência';
+  return ocorrencias.map((c) => DESCRICOES_PAGAMENTO[c] || `Ocorrência ${c}`).join('; ');
+}
+
+function stripZeros(valor: string): string | undefined {
+  const s = valor.trim().replace(/^0+/, '');
+  return s || undefined;
+}
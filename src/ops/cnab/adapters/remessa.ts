@@ -0,0 +1,377 @@
+/**
+ * CNAB Remessa - Geração de arquivo de pagamentos CNAB 240 (FEBRABAN)
+ *
+ * Um lote por forma de lançamento (boleto próprio banco/outros bancos,
+ * crédito em conta, TED, PIX). Cada pagamento gera:
+ *   - Boleto: segmento J + J-52 (pagador/beneficiário)
+ *   - TED/PIX: segmento A + B (documento do favorecido / chave PIX)
+ *
+ * Posições abaixo são 1-indexed, como no manual FEBRABAN; o parser de
+ * retorno (fileHelper.ts) lê os mesmos campos em 0-indexed.
+ */
+
+import { Remessa, RemessaItem } from '../../../types';
+
+const VERSAO_ARQUIVO = '089';
+const VERSAO_LOTE_A = '046';
+const VERSAO_LOTE_J = '040';
+const SERVICO_PAGAMENTO_FORNECEDOR = '20';
+
+/** Código de compensação por banco configurado no cliente (ClientConfig.banco) */
+export const BANCOS_CNAB: Record<string, string> = {
+  santander: '033',
+  inter: '077',
+  itau: '341',
+  bradesco: '237',
+  sicoob: '756',
+  bb: '001',
+  caixa: '104',
+};
+
+/** Forma de iniciação PIX no segmento B */
+const PIX_INICIACAO: Record<NonNullable<RemessaItem['tipoChavePix']>, string> = {
+  telefone: '01',
+  email: '02',
+  cpf: '03',
+  cnpj: '03',
+  aleatoria: '04',
+};
+
+// ============================================================================
+// GERADOR PRINCIPAL
+// ============================================================================
+
+/**
+ * Gera o conteúdo do arquivo de remessa (linhas de 240 posições, CRLF).
+ * Determinístico: a mesma Remessa sempre gera o mesmo arquivo (download
+ * regenera a partir do que foi persistido).
+ */
+export function gerarArquivoRemessa(remessa: Remessa): string {
+  const linhas: string[] = [headerArquivo(remessa)];
+  const lotes = agruparPorFormaLancamento(remessa);
+
+  let numeroLote = 0;
+  for (const [formaLancamento, itens] of lotes) {
+    numeroLote++;
+    const lote = String(numeroLote).padStart(4, '0');
+    const boleto = itens[0].forma === 'boleto';
+    const detalhes: string[] = [];
+
+    for (const item of itens) {
+      const seq = () => detalhes.length + 1;
+      if (boleto) {
+        detalhes.push(segmentoJ(remessa, lote, seq(), item));
+        detalhes.push(segmentoJ52(remessa, lote, seq(), item));
+      } else {
+        detalhes.push(segmentoA(remessa, lote, seq(), item, formaLancamento));
+        detalhes.push(segmentoB(remessa, lote, seq(), item));
+      }
+    }
+
+    linhas.push(headerLote(remessa, lote, formaLancamento, boleto ? VERSAO_LOTE_J : VERSAO_LOTE_A));
+    linhas.push(...detalhes);
+    linhas.push(trailerLote(remessa, lote, detalhes.length + 2, somaValores(itens)));
+  }
+
+  linhas.push(trailerArquivo(remessa, numeroLote, linhas.length + 1));
+  return linhas.join('\r\n') + '\r\n';
+}
+
+/**
+ * Forma de lançamento (G029):
+ *   30 - Liquidação de títulos do próprio banco
+ *   31 - Pagamento de títulos de outros bancos
+ *   01 - Crédito em conta corrente (mesmo banco)
+ *   41 - TED outra titularidade
+ *   45 - PIX transferência
+ */
+export function formaLancamento(item: RemessaItem, bancoEmpresa: string): string {
+  if (item.forma === 'boleto') return item.codigoBarras?.substring(0, 3) === bancoEmpresa ? '30' : '31';
+  if (item.forma === 'pix') return '45';
+  return item.banco === bancoEmpresa ? '01' : '41';
+}
+
+function agruparPorFormaLancamento(remessa: Remessa): Map<string, RemessaItem[]> {
+  const lotes = new Map<string, RemessaItem[]>();
+  for (const item of remessa.itens) {
+    const forma = formaLancamento(item, remessa.banco);
+    lotes.set(forma, [...(lotes.get(forma) || []), item]);
+  }
+  return lotes;
+}
+
+// ============================================================================
+// REGISTROS
+// ============================================================================
+
+/**
+ * Header de Arquivo (registro 0)
+ *   1-3 banco | 4-7 lote 0000 | 8 tipo 0 | 18 tipo inscrição | 19-32 CNPJ
+ *   33-52 convênio | 53-57 agência | 58 DV | 59-70 conta | 71 DV
+ *   73-102 nome empresa | 143 remessa (1) | 144-151 data | 152-157 hora
+ *   158-163 NSA | 164-166 versão layout
+ */
+function headerArquivo(r: Remessa): string {
+  const geradaEm = new Date(r.geradaEm);
+  return registro([
+    [1, num(r.banco, 3)],
+    [4, '0000'],
+    [8, '0'],
+    [18, '2'],
+    [19, num(r.cnpjEmpresa, 14)],
+    [33, alfa(r.convenio || '', 20)],
+    ...contaEmpresa(r, 53),
+    [73, alfa(r.nomeEmpresa, 30)],
+    [103, alfa(nomeBanco(r.banco), 30)],
+    [143, '1'],
+    [144, dataDDMMAAAA(r.geradaEm)],
+    [152, horaHHMMSS(geradaEm)],
+    [158, num(r.sequencial, 6)],
+    [164, VERSAO_ARQUIVO],
+    [167, '00000'],
+  ]);
+}
+
+/**
+ * Header de Lote (registro 1)
+ *   9 operação C | 10-11 serviço 20 | 12-13 forma lançamento | 14-16 versão
+ */
+function headerLote(r: Remessa, lote: string, forma: string, versao: string): string {
+  return registro([
+    [1, num(r.banco, 3)],
+    [4, lote],
+    [8, '1'],
+    [9, 'C'],
+    [10, SERVICO_PAGAMENTO_FORNECEDOR],
+    [12, forma],
+    [14, versao],
+    [18, '2'],
+    [19, num(r.cnpjEmpresa, 14)],
+    [33, alfa(r.convenio || '', 20)],
+    ...contaEmpresa(r, 53),
+    [73, alfa(r.nomeEmpresa, 30)],
+  ]);
+}
+
+/**
+ * Segmento A (crédito em conta / TED / PIX)
+ *   18-20 câmara | 21-23 banco favorecido | 24-28 agência | 29 DV
+ *   30-41 conta | 42 DV | 44-73 nome | 74-93 seu número | 94-101 data
+ *   102-104 moeda | 120-134 valor | 220-224 finalidade TED | 230 aviso
+ */
+function segmentoA(r: Remessa, lote: string, seq: number, item: RemessaItem, forma: string): string {
+  const camara = forma === '45' ? '009' : forma === '41' ? '018' : '000';
+  const pixPorChave = item.forma === 'pix' && !!item.chavePix;
+
+  return registro([
+    [1, num(r.banco, 3)],
+    [4, lote],
+    [8, '3'],
+    [9, num(seq, 5)],
+    [14, 'A'],
+    [15, '0'],
+    [16, '00'],
+    [18, camara],
+    // PIX por chave não exige dados bancários do favorecido
+    [21, pixPorChave ? num(0, 3) : num(item.banco || '', 3)],
+    [24, pixPorChave ? num(0, 5) : num(item.agencia || '', 5)],
+    [29, alfa(pixPorChave ? '' : item.agenciaDigito || '', 1)],
+    [30, pixPorChave ? num(0, 12) : num(item.conta || '', 12)],
+    [42, alfa(pixPorChave ? '' : item.contaDigito || '', 1)],
+    [44, alfa(item.favorecido, 30)],
+    [74, alfa(item.seuNumero, 20)],
+    [94, dataDDMMAAAA(item.dataPagamento)],
+    [102, 'BRL'],
+    [105, num(0, 15)],
+    [120, valor(item.valor, 15)],
+    [155, num(0, 8)],
+    [163, num(0, 15)],
+    [220, forma === '41' ? '00005' : '     '],
+    [230, '0'],
+  ]);
+}
+
+/**
+ * Segmento B (dados complementares do favorecido)
+ *   15-17 forma de iniciação PIX | 18 tipo inscrição | 19-32 CPF/CNPJ
+ *   128-226 chave PIX
+ */
+function segmentoB(r: Remessa, lote: string, seq: number, item: RemessaItem): string {
+  const documento = (item.documentoFavorecido || '').replace(/\D/g, '');
+  const iniciacao = item.forma === 'pix'
+    ? (item.tipoChavePix ? PIX_INICIACAO[item.tipoChavePix] : '05')
+    : '   ';
+
+  return registro([
+    [1, num(r.banco, 3)],
+    [4, lote],
+    [8, '3'],
+    [9, num(seq, 5)],
+    [14, 'B'],
+    [15, alfa(iniciacao, 3)],
+    [18, documento.length > 11 ? '2' : '1'],
+    [19, num(documento, 14)],
+    [128, alfa(item.chavePix || '', 99, false)],
+  ]);
+}
+
+/**
+ * Segmento J (pagamento de boleto)
+ *   18-61 código de barras | 62-91 nome cedente | 92-99 vencimento
+ *   100-114 valor título | 145-152 data pagamento | 153-167 valor pagamento
+ *   183-202 seu número | 223-224 moeda (09)
+ */
+function segmentoJ(r: Remessa, lote: string, seq: number, item: RemessaItem): string {
+  return registro([
+    [1, num(r.banco, 3)],
+    [4, lote],
+    [8, '3'],
+    [9, num(seq, 5)],
+    [14, 'J'],
+    [15, '0'],
+    [16, '00'],
+    [18, num(item.codigoBarras || '', 44)],
+    [62, alfa(item.favorecido, 30)],
+    [92, dataDDMMAAAA(item.vencimento || item.dataPagamento)],
+    [100, valor(item.valor, 15)],
+    [115, num(0, 15)],
+    [130, num(0, 15)],
+    [145, dataDDMMAAAA(item.dataPagamento)],
+    [153, valor(item.valor, 15)],
+    [168, num(0, 15)],
+    [183, alfa(item.seuNumero, 20)],
+    [223, '09'],
+  ]);
+}
+
+/**
+ * Segmento J-52 (pagador e beneficiário do boleto)
+ *   16-17 movimento | 18-19 '52' | 20 tipo inscrição pagador | 21-35 CNPJ
+ *   36-75 nome pagador | 76 tipo beneficiário | 77-91 doc | 92-131 nome
+ */
+function segmentoJ52(r: Remessa, lote: string, seq: number, item: RemessaItem): string {
+  const documento = (item.documentoFavorecido || '').replace(/\D/g, '');
+
+  return registro([
+    [1, num(r.banco, 3)],
+    [4, lote],
+    [8, '3'],
+    [9, num(seq, 5)],
+    [14, 'J'],
+    [16, '01'],
+    [18, '52'],
+    [20, '2'],
+    [21, num(r.cnpjEmpresa, 15)],
+    [36, alfa(r.nomeEmpresa, 40)],
+    [76, documento ? (documento.length > 11 ? '2' : '1') : '0'],
+    [77, num(documento, 15)],
+    [92, alfa(item.favorecido, 40)],
+    [132, '0'],
+    [133, num(0, 15)],
+  ]);
+}
+
+/**
+ * Trailer de Lote (registro 5)
+ *   18-23 quantidade de registros | 24-41 somatória dos valores
+ */
+function trailerLote(r: Remessa, lote: string, registros: number, total: number): string {
+  return registro([
+    [1, num(r.banco, 3)],
+    [4, lote],
+    [8, '5'],
+    [18, num(registros, 6)],
+    [24, valor(total, 18)],
+    [42, num(0, 18)],
+    [60, num(0, 6)],
+  ]);
+}
+
+/**
+ * Trailer de Arquivo (registro 9)
+ *   18-23 quantidade de lotes | 24-29 quantidade de registros
+ */
+function trailerArquivo(r: Remessa, lotes: number, registros: number): string {
+  return registro([
+    [1, num(r.banco, 3)],
+    [4, '9999'],
+    [8, '9'],
+    [18, num(lotes, 6)],
+    [24, num(registros, 6)],
+    [30, num(0, 6)],
+  ]);
+}
+
+// ============================================================================
+// FUNÇÕES AUXILIARES DE FORMATAÇÃO
+// ============================================================================
+
+/**
+ * Converte linha digitável (47 dígitos) em código de barras (44).
+ * Retorna null para arrecadação/tributos (48 dígitos, iniciam com 8),
+ * que usam segmento O e não são suportados aqui.
+ */
+export function toCodigoBarras(valor: string): string | null {
+  const d = valor.replace(/\D/g, '');
+  if (d.length === 44 && !d.startsWith('8')) return d;
+  if (d.length === 47) {
+    return d.substring(0, 4) + d.substring(32, 33) + d.substring(33, 47)
+      + d.substring(4, 9) + d.substring(10, 20) + d.substring(21, 31);
+  }
+  return null;
+}
+
+/** Monta linha de 240 posições a partir de campos (posição 1-indexed, conteúdo) */
+function registro(campos: Array<[number, string]>): string {
+  const chars = ' '.repeat(240).split('');
+  for (const [pos, conteudo] of campos) {
+    for (let i = 0; i < conteudo.length && pos - 1 + i < 240; i++) {
+      chars[pos - 1 + i] = conteudo[i];
+    }
+  }
+  return chars.join('');
+}
+
+function contaEmpresa(r: Remessa, pos: number): Array<[number, string]> {
+  return [
+    [pos, num(r.agencia, 5)],
+    [pos + 5, alfa(r.agenciaDigito || '', 1)],
+    [pos + 6, num(r.conta, 12)],
+    [pos + 18, alfa(r.contaDigito || '', 1)],
+  ];
+}
+
+function num(value: string | number, len: number): string {
+  const digits = String(value).replace(/\D/g, '');
+  return digits.padStart(len, '0').slice(-len);
+}
+
+function alfa(value: string, len: number, upper: boolean = true): string {
+  const clean = value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7E]/g, '');
+  return (upper ? clean.toUpperCase() : clean).padEnd(len, ' ').substring(0, len);
+}
+
+function valor(v: number, len: number): string {
+  return num(Math.round(v * 100), len);
+}
+
+function somaValores(itens: RemessaItem[]): number {
+  return Math.round(itens.reduce((sum, i) => sum + i.valor, 0) * 100) / 100;
+}
+
+function dataDDMMAAAA(iso: string): string {
+  const [ano, mes, dia] = iso.substring(0, 10).split('-');
+  return `${dia}${mes}${ano}`;
+}
+
+function horaHHMMSS(date: Date): string {
+  return date.toISOString().substring(11, 19).replace(/:/g, '');
+}
+
+function nomeBanco(codigo: string): string {
+  const nome = Object.keys(BANCOS_CNAB).find((k) => BANCOS_CNAB[k] === codigo);
+  return nome ? `BANCO ${nome}` : `BANCO ${codigo}`;
+}
@@ -0,0 +1,98 @@
+/**
+ * CNAB Types - Arquivos posicionais FEBRABAN (240 e 400 posições)
+ *
+ * Retorno de cobrança (segmentos T/U no 240, registro 1 no 400) e
+ * retorno de pagamentos (segmentos J e A no 240).
+ */
+
+import { TransactionStatus } from '../../../types';
+
+export type CnabLayout = '240' | '400';
+
+/** cobranca = boletos emitidos pelo cliente; pagamento = títulos/transferências pagos pelo cliente */
+export type CnabOperacao = 'cobranca' | 'pagamento';
+
+// ============================================================================
+// RECORD TYPES (parsed from positional file)
+// ============================================================================
+
+/** Header de arquivo (registro 0) */
+export interface CnabHeaderArquivo {
+  layout: CnabLayout;
+  banco: string; // código de compensação (033 Santander, 077 Inter...)
+  nomeBanco: string;
+  cnpjEmpresa: string;
+  nomeEmpresa: string;
+  tipoArquivo: 'remessa' | 'retorno';
+  dataGeracao: string | null;
+  sequencial: number; // NSA
+}
+
+/** Detalhe de retorno já normalizado (T+U, J, A ou registro 1 do 400) */
+export interface CnabRetornoDetalhe {
+  linha: number;
+  segmento: 'T' | 'J' | 'A' | '1';
+  operacao: CnabOperacao;
+  /** Código principal (movimento no T/400, primeira ocorrência no J/A) */
+  codigoOcorrencia: string;
+  /** J/A: até 5 códigos de 2 posições; T/400: motivos */
+  ocorrencias: string[];
+  descricaoOcorrencia: string;
+  /** Status resultante; null = registro apenas informativo (ex: entrada confirmada) */
+  status: TransactionStatus | null;
+  nossoNumero?: string;
+  numeroDocumento?: string; // "seu número" da empresa
+  codigoBarras?: string;
+  nome?: string; // sacado (cobrança) ou favorecido/cedente (pagamento)
+  dataVencimento?: string | null;
+  dataOcorrencia?: string | null;
+  dataCredito?: string | null;
+  valorTitulo: number;
+  valorPago: number;
+  juros: number;
+  desconto: number;
+  abatimento: number;
+  tarifa: number;
+}
+
+export interface CnabRetorno {
+  header: CnabHeaderArquivo;
+  detalhes: CnabRetornoDetalhe[];
+}
+
+// ============================================================================
+// HTTP
+// ============================================================================
+
+export interface CnabRetornoRequest {
+  clientId: string;
+  nomeArquivo?: string;
+  conteudo?: string;
+  conteudoBase64?: string;
+  action?: 'listar' | 'processar';
+}
+
+export interface CnabVinculo {
+  linha: number;
+  nossoNumero?: string;
+  numeroDocumento?: string;
+  status: TransactionStatus;
+  transactionId?: string;
+  remessaId?: string; // pagamento de remessa gerada pelo mesh
+  motivo?: string; // quando não vinculado
+}
+
+export interface CnabRetornoResponse {
+  success: boolean;
+  clientId: string;
+  arquivo?: string;
+  banco: string;
+  layout: CnabLayout;
+  registros: number;
+  liquidados: number;
+  rejeitados: number;
+  vinculados: CnabVinculo[];
+  naoVinculados: CnabVinculo[];
+  durationMs: number;
+  error?: string;
+}
@@ -0,0 +1,354 @@
+/**
+ * Remessa - cnab-ops (integrado ao mesh)
+ *
+ * POST /api/cnab/remessa/gerar                               - Agrupa pagamentos aprovados em remessa(s) CNAB 240
+ * GET  /api/cnab/remessas?clientId=...                        - Lista remessas e status de cada item
+ * GET  /api/cnab/remessas/{clientId}/{remessaId}/arquivo      - Download do arquivo de remessa
+ * Timer cnab-remessa-timer                                    - Gera remessas dos clientes ativos (dias úteis)
+ *
+ * Fluxo: autorização aprovada → item de remessa (transação PAGAMENTO_PENDENTE)
+ *        → retorno CNAB confirma (AGENDADO/PAGO) ou rejeita cada item.
+ */
+
+import { app, HttpRequest, HttpResponseInit, InvocationContext, Timer } from '@azure/functions';
+import * as crypto from 'crypto';
+import { BANCOS_CNAB, gerarArquivoRemessa, toCodigoBarras } from '../adapters/remessa';
+import { createLogger, nowISO, todayYMD } from '../shared/utils';
+import { usaPagamentoViaApi } from '../../../infra/paymentGateway';
+import {
+  getActiveClients,
+  getClient,
+  getApprovedAuthorizations,
+  setAuthorizationRemessa,
+  getTransaction,
+  updateTransaction,
+  getRemessas,
+  getRemessa,
+  saveRemessa,
+  acquireRemessaLease,
+  releaseRemessaLease,
+  addHistoryAction,
+} from '../../../storage/tableClient';
+import {
+  Client,
+  PendingAuthorization,
+  Remessa,
+  RemessaItem,
+  Transaction,
+  TransactionStatus,
+} from '../../../types';
+
+const logger = createLogger('CnabRemessa');
+
+// Limite de itens por arquivo
+const MAX_ITENS_POR_REMESSA = 100;
+
+// Validade do lease de geração (cobre uma execução lenta; vencido, outra execução assume)
+const LEASE_REMESSA_MS = 10 * 60 * 1000;
+
+export class RemessaEmAndamentoError extends Error {
+  constructor(clientId: string) {
+    super(`Geração de remessa já em andamento para ${clientId}`);
+    this.name = 'RemessaEmAndamentoError';
+  }
+}
+
+/** Cliente com pagamento via API: os aprovados vão pelo paymentExecutionOrchestrator, nunca em remessa */
+export class PagamentoViaApiError extends Error {
+  constructor(clientId: string) {
+    super(`Cliente ${clientId} executa pagamentos via API do banco (remessa CNAB não se aplica)`);
+    this.name = 'PagamentoViaApiError';
+  }
+}
+
+function shortHash(input: string): string {
+  return crypto.createHash('sha256').update(input).digest('hex').substring(0, 16);
+}
+
+export interface GerarRemessaResult {
+  clientId: string;
+  remessas: Array<{ id: string; nomeArquivo: string; itens: number; valorTotal: number }>;
+  ignorados: Array<{ authorizationId: string; motivo: string }>;
+}
+
+// ============================================================================
+// MONTAGEM DOS ITENS
+// ============================================================================
+
+/**
+ * Converte autorização aprovada + transação em item de remessa.
+ * Boleto quando há codigoBarras; senão usa metadata.favorecido
+ * (chavePix → PIX, banco/agência/conta → TED).
+ */
+export function buildRemessaItem(
+  auth: PendingAuthorization,
+  tx: Transaction,
+  hoje: string = todayYMD()
+): RemessaItem | { motivo: string } {
+  const favorecido = (tx.metadata?.favorecido || {}) as Partial<RemessaItem> & { nome?: string; documento?: string };
+  const vencimento = tx.dataVencimento || auth.vencimento;
+  const base = {
+    authorizationId: auth.id,
+    transactionId: tx.id,
+    seuNumero: shortHash(auth.id).toUpperCase(),
+    valor: auth.valor,
+    dataPagamento: vencimento && vencimento > hoje ? vencimento.substring(0, 10) : hoje,
+    favorecido: favorecido.nome || tx.contraparte || auth.contraparte || 'FAVORECIDO',
+    documentoFavorecido: favorecido.documento || tx.contraparteCnpj,
+    status: 'pendente' as const,
+  };
+
+  if (tx.codigoBarras) {
+    const codigoBarras = toCodigoBarras(tx.codigoBarras);
+    if (!codigoBarras) return { motivo: 'Código de barras de arrecadação/tributo não suportado na remessa' };
+    return { ...base, forma: 'boleto', codigoBarras, vencimento };
+  }
+
+  if (favorecido.chavePix) {
+    return { ...base, forma: 'pix', chavePix: favorecido.chavePix, tipoChavePix: favorecido.tipoChavePix };
+  }
+
+  if (favorecido.banco && favorecido.agencia && favorecido.conta) {
+    return {
+      ...base,
+      forma: 'ted',
+      banco: favorecido.banco,
+      agencia: favorecido.agencia,
+      agenciaDigito: favorecido.agenciaDigito,
+      conta: favorecido.conta,
+      contaDigito: favorecido.contaDigito,
+    };
+  }
+
+  return { motivo: 'Sem dados de pagamento (codigoBarras ou metadata.favorecido)' };
+}
+
+// ============================================================================
+// CORE (chamável direto, sem HTTP)
+// ============================================================================
+
+/**
+ * Gera as remessas do cliente sob lease: seleção das autorizações e
+ * numeração (NSA) nunca rodam em paralelo para o mesmo cliente.
+ */
+export async function gerarRemessas(clientId: string): Promise<GerarRemessaResult> {
+  const client = await getClient(clientId);
+  const banco = BANCOS_CNAB[(client?.config?.banco || '').toLowerCase()];
+  if (!client || !banco || !client.config.bancoAgencia || !client.config.bancoConta) {
+    throw new Error(`Cliente ${clientId} sem conta bancária CNAB configurada (banco/agência/conta)`);
+  }
+  if (usaPagamentoViaApi(client.config)) throw new PagamentoViaApiError(clientId);
+
+  const lease = await acquireRemessaLease(clientId, LEASE_REMESSA_MS);
+  if (!lease) throw new RemessaEmAndamentoError(clientId);
+
+  try {
+    return await gerarRemessasDoCliente(client, banco);
+  } finally {
+    await releaseRemessaLease(clientId, lease);
+  }
+}
+
+async function gerarRemessasDoCliente(client: Client, banco: string): Promise<GerarRemessaResult> {
+  const clientId = client.id;
+  const result: GerarRemessaResult = { clientId, remessas: [], ignorados: [] };
+
+  const aprovadas = (await getApprovedAuthorizations(clientId))
+    .filter((a) => a.tipo === 'pagar' && !a.remessaId && !a.pagamento); // pagamento = em execução via API
+
+  const itens: RemessaItem[] = [];
+  const transacoes = new Map<string, Transaction>();
+  for (const auth of aprovadas) {
+    const tx = await getTransaction(clientId, auth.transactionId);
+    if (!tx) {
+      result.ignorados.push({ authorizationId: auth.id, motivo: 'Transação não encontrada' });
+      continue;
+    }
+
+    const item = buildRemessaItem(auth, tx);
+    if ('motivo' in item) result.ignorados.push({ authorizationId: auth.id, motivo: item.motivo });
+    else {
+      itens.push(item);
+      transacoes.set(item.transactionId, tx);
+    }
+  }
+
+  if (itens.length === 0) return result;
+
+  const existentes = await getRemessas(clientId);
+  let sequencial = existentes
+    .filter((r) => r.banco === banco)
+    .reduce((max, r) => Math.max(max, r.sequencial), 0);
+
+  for (let i = 0; i < itens.length; i += MAX_ITENS_POR_REMESSA) {
+    const lote = itens.slice(i, i + MAX_ITENS_POR_REMESSA);
+    sequencial++;
+    const remessa = buildRemessa(client, banco, sequencial, lote);
+
+    await saveRemessa(remessa);
+
+    for (const item of lote) {
+      await setAuthorizationRemessa(item.authorizationId, remessa.id);
+      await updateTransaction(clientId, item.transactionId, {
+        status: TransactionStatus.PAGAMENTO_PENDENTE,
+        metadata: {
+          ...(transacoes.get(item.transactionId)?.metadata || {}),
+          remessaId: remessa.id,
+          seuNumero: item.seuNumero,
+        },
+      });
+    }
+
+    await addHistoryAction({
+      id: `hist-remessa-${remessa.id}`,
+      clientId,
+      tipo: 'sync',
+      descricao: `Remessa CNAB ${remessa.nomeArquivo} gerada com ${lote.length} pagamento(s)`,
+      data: nowISO(),
+      detalhes: { remessaId: remessa.id, valorTotal: remessa.valorTotal },
+    });
+
+    result.remessas.push({
+      id: remessa.id,
+      nomeArquivo: remessa.nomeArquivo,
+      itens: lote.length,
+      valorTotal: remessa.valorTotal,
+    });
+  }
+
+  logger.info(`Remessas geradas para ${clientId}: ${result.remessas.length}`, {
+    itens: itens.length, ignorados: result.ignorados.length,
+  });
+
+  return result;
+}
+
+function buildRemessa(client: Client, banco: string, sequencial: number, itens: RemessaItem[]): Remessa {
+  const geradaEm = nowISO();
+  const nsa = String(sequencial).padStart(6, '0');
+
+  return {
+    id: `rem-${banco}-${nsa}-${shortHash(`${client.id}-${geradaEm}`).substring(0, 8)}`,
+    clientId: client.id,
+    banco,
+    agencia: client.config.bancoAgencia!,
+    conta: client.config.bancoConta!,
+    contaDigito: client.config.bancoContaDigito,
+    convenio: client.config.bancoConvenio,
+    cnpjEmpresa: client.cnpj,
+    nomeEmpresa: client.nome,
+    sequencial,
+    nomeArquivo: `REM${banco}_${geradaEm.substring(0, 10).replace(/-/g, '')}_${nsa}.REM`,
+    geradaEm,
+    status: 'gerada',
+    valorTotal: Math.round(itens.reduce((s, i) => s + i.valor, 0) * 100) / 100,
+    itens,
+  };
+}
+
+// ============================================================================
+// HTTP HANDLERS
+// ============================================================================
+
+app.http('cnab-remessa-gerar', {
+  methods: ['POST'],
+  authLevel: 'function',
+  route: 'cnab/remessa/gerar',
+  handler: async (req: HttpRequest, ctx: InvocationContext): Promise<HttpResponseInit> => {
+    try {
+      const body = (await req.json()) as { clientId?: string };
+      if (!body.clientId) {
+        return { status: 400, jsonBody: { success: false, error: 'clientId é obrigatório' } };
+      }
+
+      const result = await gerarRemessas(body.clientId);
+      return { status: 200, jsonBody: { success: true, ...result } };
+    } catch (error: any) {
+      logger.error('Erro ao gerar remessa', error);
+      const semConta = error.message?.includes('sem conta bancária') || error instanceof PagamentoViaApiError;
+      const status = error instanceof RemessaEmAndamentoError ? 409 : semConta ? 400 : 500;
+      return { status, jsonBody: { success: false, error: error.message } };
+    }
+  },
+});
+
+app.http('cnab-remessas-list', {
+  methods: ['GET'],
+  authLevel: 'function',
+  route: 'cnab/remessas',
+  handler: async (req: HttpRequest, ctx: InvocationContext): Promise<HttpResponseInit> => {
+    const clientId = req.query.get('clientId');
+    if (!clientId) {
+      return { status: 400, jsonBody: { success: false, error: 'clientId é obrigatório' } };
+    }
+
+    try {
+      const remessas = await getRemessas(clientId);
+      return {
+        status: 200,
+        jsonBody: {
+          clientId,
+          total: remessas.length,
+          remessas: remessas.map((r) => ({
+            ...r,
+            pendentes: r.itens.filter((i) => i.status === 'pendente' || i.status === 'agendado').length,
+          })),
+        },
+      };
+    } catch (error: any) {
+      logger.error('Erro ao listar remessas', error);
+      return { status: 500, jsonBody: { error: 'Erro ao listar remessas' } };
+    }
+  },
+});
+
+app.http('cnab-remessa-arquivo', {
+  methods: ['GET'],
+  authLevel: 'function',
+  route: 'cnab/remessas/{clientId}/{remessaId}/arquivo',
+  handler: async (req: HttpRequest, ctx: InvocationContext): Promise<HttpResponseInit> => {
+    const { clientId, remessaId } = req.params;
+
+    try {
+      const remessa = await getRemessa(clientId, remessaId);
+      if (!remessa) {
+        return { status: 404, jsonBody: { error: 'Remessa não encontrada' } };
+      }
+
+      return {
+        status: 200,
+        headers: {
+          'Content-Type': 'text/plain; charset=us-ascii',
+          'Content-Disposition': `attachment; filename="${remessa.nomeArquivo}"`,
+        },
+        body: gerarArquivoRemessa(remessa),
+      };
+    } catch (error: any) {
+      logger.error('Erro ao gerar arquivo de remessa', error);
+      return { status: 500, jsonBody: { error: 'Erro ao gerar arquivo de remessa' } };
+    }
+  },
+});
+
+// ============================================================================
+// TIMER
+// ============================================================================
+
+app.timer('cnab-remessa-timer', {
+  // Dias úteis às 10:00 e 15:00 (UTC-3), antes dos horários de corte bancários
+  schedule: '0 0 13,18 * * 1-5',
+  handler: async (timer: Timer, ctx: InvocationContext): Promise<void> => {
+    const clients = await getActiveClients();
+
+    for (const client of clients) {
+      if (!BANCOS_CNAB[(client.config?.banco || '').toLowerCase()]) continue;
+      if (usaPagamentoViaApi(client.config)) continue; // executados pelo paymentExecutionOrchestrator
+
+      try {
+        await gerarRemessas(client.id);
+      } catch (error: any) {
+        logger.warn(`Remessa não gerada para ${client.id}: ${error.message}`);
+      }
+    }
+  },
+});
@@ -0,0 +1,268 @@
+/**
+ * Retorno - cnab-ops (integrado ao mesh)
+ *
+ * POST /api/cnab/retorno - Recebe arquivo de retorno CNAB 240/400 e atualiza as transações
+ *
+ * Body JSON: { clientId, conteudo | conteudoBase64, nomeArquivo?, action? }
+ *
+ * Ações:
+ *   - listar: Retorna registros parseados (stateless, não altera nada)
+ *   - processar (default): Vincula por nossoNumero/numeroDocumento e aplica o status
+ *     (PAGO, RECEBIDO, AGENDADO, REJEITADO) nas transações existentes.
+ *     Pagamentos de remessa gerada pelo mesh são vinculados pelo seuNumero
+ *     do item e atualizam também o status da remessa.
+ */
+
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { parseRetorno } from '../adapters/fileHelper';
+import {
+  CnabRetorno,
+  CnabRetornoDetalhe,
+  CnabRetornoRequest,
+  CnabRetornoResponse,
+  CnabVinculo,
+} from '../adapters/types';
+import { createLogger, nowISO } from '../shared/utils';
+import {
+  getTransactionsWithReference,
+  getTransaction,
+  updateTransaction,
+  getRemessas,
+  saveRemessa,
+  addHistoryAction,
+} from '../../../storage/tableClient';
+import { Remessa, RemessaItem, Transaction, TransactionStatus, TransactionType } from '../../../types';
+
+const logger = createLogger('CnabRetorno');
+
+// Status em que a transação já foi liquidada/conciliada e não deve regredir
+const STATUS_FINAIS: TransactionStatus[] = [
+  TransactionStatus.PAGO,
+  TransactionStatus.RECEBIDO,
+  TransactionStatus.CONCILIADO,
+];
+
+// ============================================================================
+// VINCULAÇÃO
+// ============================================================================
+
+function normalizeRef(ref?: string): string {
+  return (ref || '').trim().replace(/^0+/, '').toUpperCase();
+}
+
+/**
+ * Procura a transação do retorno: nossoNumero tem precedência sobre
+ * numeroDocumento; entre candidatas, prefere o tipo compatível com a
+ * operação (cobrança → RECEBER, pagamento → PAGAR).
+ */
+export function findTransactionForDetalhe(
+  detalhe: CnabRetornoDetalhe,
+  transactions: Transaction[]
+): Transaction | undefined {
+  const tipo = detalhe.operacao === 'cobranca' ? TransactionType.RECEBER : TransactionType.PAGAR;
+  const nosso = normalizeRef(detalhe.nossoNumero);
+  const documento = normalizeRef(detalhe.numeroDocumento);
+
+  const porNosso = nosso ? transactions.filter((tx) => normalizeRef(tx.nossoNumero) === nosso) : [];
+  const porDocumento = documento ? transactions.filter((tx) => normalizeRef(tx.numeroDocumento) === documento) : [];
+
+  for (const candidatas of [porNosso, porDocumento]) {
+    if (candidatas.length === 0) continue;
+    return candidatas.find((tx) => tx.type === tipo) || candidatas[0];
+  }
+
+  return undefined;
+}
+
+// ============================================================================
+// REMESSAS
+// ============================================================================
+
+const STATUS_ITEM: Partial<Record<TransactionStatus, RemessaItem['status']>> = {
+  [TransactionStatus.PAGO]: 'pago',
+  [TransactionStatus.AGENDADO]: 'agendado',
+  [TransactionStatus.REJEITADO]: 'rejeitado',
+};
+
+/** Índice seuNumero → item das remessas ainda não concluídas */
+async function indexarRemessasAbertas(
+  clientId: string
+): Promise<Map<string, { remessa: Remessa; item: RemessaItem }>> {
+  const index = new Map<string, { remessa: Remessa; item: RemessaItem }>();
+  const remessas = (await getRemessas(clientId)).filter((r) => r.status !== 'concluida');
+
+  for (const remessa of remessas) {
+    for (const item of remessa.itens) {
+      index.set(normalizeRef(item.seuNumero), { remessa, item });
+    }
+  }
+
+  return index;
+}
+
+/** Recalcula o status da remessa a partir dos itens (pago/rejeitado são finais) */
+export function statusRemessa(itens: RemessaItem[]): Remessa['status'] {
+  if (itens.every((i) => i.status === 'pago' || i.status === 'rejeitado')) return 'concluida';
+  if (itens.some((i) => i.status !== 'pendente')) return 'parcial';
+  return 'gerada';
+}
+
+// ============================================================================
+// CORE (chamável direto, sem HTTP)
+// ============================================================================
+
+export async function processarRetorno(
+  clientId: string,
+  retorno: CnabRetorno,
+  nomeArquivo?: string
+): Promise<{ vinculados: CnabVinculo[]; naoVinculados: CnabVinculo[] }> {
+  const transactions = await getTransactionsWithReference(clientId);
+  const vinculados: CnabVinculo[] = [];
+  const naoVinculados: CnabVinculo[] = [];
+
+  const temPagamentos = retorno.detalhes.some((d) => d.operacao === 'pagamento');
+  const remessaIndex = temPagamentos ? await indexarRemessasAbertas(clientId) : new Map();
+  const remessasAlteradas = new Set<Remessa>();
+
+  for (const detalhe of retorno.detalhes) {
+    if (!detalhe.status) continue; // informativo
+
+    const base: CnabVinculo = {
+      linha: detalhe.linha,
+      nossoNumero: detalhe.nossoNumero,
+      numeroDocumento: detalhe.numeroDocumento,
+      status: detalhe.status,
+    };
+
+    const remessaRef = detalhe.operacao === 'pagamento'
+      ? remessaIndex.get(normalizeRef(detalhe.numeroDocumento))
+      : undefined;
+
+    if (remessaRef && remessaRef.item.status !== 'pago') {
+      remessaRef.item.status = STATUS_ITEM[detalhe.status] || remessaRef.item.status;
+      remessaRef.item.ocorrencia = detalhe.codigoOcorrencia;
+      remessaRef.item.atualizadoEm = nowISO();
+      remessasAlteradas.add(remessaRef.remessa);
+    }
+
+    const tx = remessaRef
+      ? (await getTransaction(clientId, remessaRef.item.transactionId)) || undefined
+      : findTransactionForDetalhe(detalhe, transactions);
+    if (!tx) {
+      naoVinculados.push({ ...base, motivo: 'Nenhuma transação com este nossoNumero/numeroDocumento' });
+      continue;
+    }
+
+    if (STATUS_FINAIS.includes(tx.status)) {
+      naoVinculados.push({ ...base, transactionId: tx.id, motivo: `Transação já ${tx.status}` });
+      continue;
+    }
+
+    const liquidado = detalhe.status === TransactionStatus.PAGO || detalhe.status === TransactionStatus.RECEBIDO;
+
+    await updateTransaction(clientId, tx.id, {
+      status: detalhe.status,
+      ...(liquidado ? { dataRealizacao: detalhe.dataCredito || detalhe.dataOcorrencia || undefined } : {}),
+      nossoNumero: tx.nossoNumero || detalhe.nossoNumero,
+      metadata: {
+        ...(tx.metadata || {}),
+        cnab: {
+          arquivo: nomeArquivo,
+          banco: retorno.header.banco,
+          segmento: detalhe.segmento,
+          ocorrencia: detalhe.codigoOcorrencia,
+          descricao: detalhe.descricaoOcorrencia,
+          valorPago: detalhe.valorPago,
+          juros: detalhe.juros,
+          desconto: detalhe.desconto,
+          tarifa: detalhe.tarifa,
+          processadoEm: nowISO(),
+        },
+      },
+    });
+
+    tx.status = detalhe.status;
+    vinculados.push({ ...base, transactionId: tx.id, remessaId: remessaRef?.remessa.id });
+  }
+
+  for (const remessa of remessasAlteradas) {
+    remessa.status = statusRemessa(remessa.itens);
+    await saveRemessa(remessa);
+  }
+
+  return { vinculados, naoVinculados };
+}
+
+// ============================================================================
+// HTTP HANDLER
+// ============================================================================
+
+app.http('cnab-retorno', {
+  methods: ['POST'],
+  authLevel: 'function',
+  route: 'cnab/retorno',
+  handler: async (req: HttpRequest, ctx: InvocationContext): Promise<HttpResponseInit> => {
+    const startTime = Date.now();
+
+    try {
+      const body = (await req.json()) as CnabRetornoRequest;
+      const conteudo = body.conteudo
+        || (body.conteudoBase64 ? Buffer.from(body.conteudoBase64, 'base64').toString('latin1') : '');
+
+      if (!body.clientId || !conteudo) {
+        return {
+          status: 400,
+          jsonBody: { success: false, error: 'clientId e conteudo (ou conteudoBase64) são obrigatórios' },
+        };
+      }
+
+      const retorno = parseRetorno(conteudo);
+      logger.info(`Retorno CNAB recebido para ${body.clientId}`, {
+        banco: retorno.header.banco, layout: retorno.header.layout, detalhes: retorno.detalhes.length,
+      });
+
+      if (body.action === 'listar') {
+        return { status: 200, jsonBody: { success: true, action: 'listar', ...retorno } };
+      }
+
+      const { vinculados, naoVinculados } = await processarRetorno(body.clientId, retorno, body.nomeArquivo);
+
+      const liquidados = retorno.detalhes.filter(
+        (d) => d.status === TransactionStatus.PAGO || d.status === TransactionStatus.RECEBIDO
+      ).length;
+      const rejeitados = retorno.detalhes.filter((d) => d.status === TransactionStatus.REJEITADO).length;
+
+      await addHistoryAction({
+        id: `hist-cnab-${body.clientId}-${Date.now()}`,
+        clientId: body.clientId,
+        tipo: 'captura',
+        descricao: `Retorno CNAB ${retorno.header.layout} banco ${retorno.header.banco}: ${vinculados.length} vinculados, ${naoVinculados.length} sem vínculo`,
+        data: nowISO(),
+        detalhes: { arquivo: body.nomeArquivo, liquidados, rejeitados },
+      });
+
+      const response: CnabRetornoResponse = {
+        success: true,
+        clientId: body.clientId,
+        arquivo: body.nomeArquivo,
+        banco: retorno.header.banco,
+        layout: retorno.header.layout,
+        registros: retorno.detalhes.length,
+        liquidados,
+        rejeitados,
+        vinculados,
+        naoVinculados,
+        durationMs: Date.now() - startTime,
+      };
+
+      return { status: 200, jsonBody: response };
+    } catch (error: any) {
+      logger.error('CNAB retorno failed', error);
+      const invalid = error.message?.includes('CNAB');
+      return {
+        status: invalid ? 400 : 500,
+        jsonBody: { success: false, error: error.message },
+      };
+    }
+  },
+});
@@ -0,0 +1,19 @@
+/**
+ * cnab-ops (integrado ao mesh)
+ *
+ * Arquivos posicionais FEBRABAN trocados com os bancos (Santander, Inter).
+ *
+ * Responsável por:
+ * - Parse de retorno CNAB 240 (segmentos T/U cobrança, J/A pagamentos) e CNAB 400
+ * - Mapeamento de ocorrências para status (PAGO, RECEBIDO, AGENDADO, REJEITADO)
+ * - Vinculação com transações existentes por nossoNumero/numeroDocumento
+ * - Geração de remessa CNAB 240 de pagamentos aprovados (J/J-52 boletos, A/B PIX/TED)
+ *
+ * Rotas: /api/cnab/*
+ */
+
+// Functions
+import './functions/retorno';
+import './functions/remessa';
+
+console.log('[mesh:cnab-ops] Functions registered');
@@ -0,0 +1,28 @@
+/**
+ * Shared Utils - cnab-ops
+ * Re-exporta utils compartilhados do ops (mesma base)
+ */
+
+export {
+  nowISO,
+  todayYMD,
+  formatDateBR,
+  formatDateTimeBR,
+  parseDate,
+  addDays,
+  diffDays,
+  formatCurrency,
+  parseCurrency,
+  roundMoney,
+  normalizeString,
+  cleanString,
+  truncate,
+  extractNumbers,
+  isValidCNPJ,
+  formatCNPJ,
+  withRetry,
+  sleep,
+  createLogger,
+  processBatch,
+  processBatchConcurrent,
+} from '../../../shared/utils';
@@ -10,8 +10,10 @@
 import { createLogger, withRetry } from '../shared/utils';
 import {
   ControlleLancamento,
+  ControlleLancamentoInput,
   ControlleCategoria,
   ControlleContato,
+  ControlleContatoInput,
   ControlleConta,
   ControllePayable,
   ControlleReceivable,
@@ -92,6 +94,36 @@ export class ControlleClient {
     }
   }
 
+  /**
+   * Leitura que propaga o erro (após os retries): para buscas em que
+   * "nada encontrado" decide uma escrita, falha não pode virar lista vazia.
+   */
+  private async query<T>(endpoint: string, params?: Record<string, string>): Promise<T[]> {
+    const url = new URL(`${this.baseUrl}${endpoint}`);
+    Object.entries(params || {}).forEach(([key, value]) => url.searchParams.append(key, value));
+
+    try {
+      const response = await withRetry(
+        async () => {
+          const res = await fetch(url.toString(), { method: 'GET', headers: this.headers });
+
+          if (!res.ok) {
+            const error = await res.text();
+            throw new Error(`Controlle API error ${res.status}: ${error}`);
+          }
+
+          return res.json();
+        },
+        { maxRetries: 3, delayMs: 1000 }
+      );
+
+      return Array.isArray(response) ? (response as T[]) : [response as T];
+    } catch (error) {
+      logger.error(`Request failed: GET ${endpoint}`, error);
+      throw error;
+    }
+  }
+
   private async requestSingle<T>(
     endpoint: string,
     method: 'GET' | 'POST' | 'PUT' | 'DELETE' = 'GET',
@@ -102,22 +134,67 @@ export class ControlleClient {
     return results[0] || null;
   }
 
+  /**
+   * Escrita: diferente de request(), propaga o erro para quem chamou.
+   * Só o PUT repete: um POST que falhou pode ter gravado, e quem chama
+   * procura o registro antes de tentar criar de novo.
+   */
+  private async send<T>(
+    endpoint: string,
+    method: 'POST' | 'PUT',
+    data: unknown
+  ): Promise<T> {
+    try {
+      return await withRetry(
+        async () => {
+          const res = await fetch(`${this.baseUrl}${endpoint}`, {
+            method,
+            headers: this.headers,
+            body: JSON.stringify(data),
+          });
+
+          if (!res.ok) {
+            const error = await res.text();
+            throw new Error(`Controlle API error ${res.status}: ${error}`);
+          }
+
+          return (await res.json()) as T;
+        },
+        { maxRetries: method === 'PUT' ? 3 : 0, delayMs: 1000 }
+      );
+    } catch (error) {
+      logger.error(`Request failed: ${method} ${endpoint}`, error);
+      throw error;
+    }
+  }
+
   // ============================================================================
   // LANCAMENTOS (Transactions)
   // ============================================================================
 
+  async createLancamento(data: ControlleLancamentoInput): Promise<ControlleLancamento> {
+    return this.send<ControlleLancamento>('/transactions', 'POST', data);
+  }
+
+  async updateLancamento(id: number, data: ControlleLancamentoInput): Promise<ControlleLancamento> {
+    return this.send<ControlleLancamento>(`/transactions/${id}`, 'PUT', data);
+  }
+
   async getLancamentos(
     startDate?: string,
     endDate?: string,
     type?: 'expense' | 'income'
   ): Promise<ControlleLancamento[]> {
-    const params: Record<string, string> = {};
-
-    if (startDate) params.start_date = startDate;
-    if (endDate) params.end_date = endDate;
-    if (type) params.type = type;
+    return this.request<ControlleLancamento>('/transactions', 'GET', lancamentosParams(startDate, endDate, type));
+  }
 
-    return this.request<ControlleLancamento>('/transactions', 'GET', params);
+  /** Como getLancamentos, mas falha da API propaga (busca antes de criar) */
+  async listLancamentos(
+    startDate?: string,
+    endDate?: string,
+    type?: 'expense' | 'income'
+  ): Promise<ControlleLancamento[]> {
+    return this.query<ControlleLancamento>('/transactions', lancamentosParams(startDate, endDate, type));
   }
 
   async getPayables(startDate: string, endDate: string): Promise<ControllePayable[]> {
@@ -192,10 +269,19 @@ export class ControlleClient {
     return this.request<ControlleContato>('/contacts');
   }
 
+  /** Como getContatos, mas falha da API propaga (busca antes de cadastrar) */
+  async listContatos(): Promise<ControlleContato[]> {
+    return this.query<ControlleContato>('/contacts');
+  }
+
   async getContatoById(id: number): Promise<ControlleContato | null> {
     return this.requestSingle<ControlleContato>(`/contacts/${id}`);
   }
 
+  async createContato(data: ControlleContatoInput): Promise<ControlleContato> {
+    return this.send<ControlleContato>('/contacts', 'POST', data);
+  }
+
   // ============================================================================
   // CONTAS BANCARIAS
   // ============================================================================
@@ -230,6 +316,16 @@ export class ControlleClient {
   }
 }
 
+function lancamentosParams(startDate?: string, endDate?: string, type?: 'expense' | 'income'): Record<string, string> {
+  const params: Record<string, string> = {};
+
+  if (startDate) params.start_date = startDate;
+  if (endDate) params.end_date = endDate;
+  if (type) params.type = type;
+
+  return params;
+}
+
 // ============================================================================
 // FACTORY
 // ============================================================================
@@ -247,6 +343,17 @@ export function getControlleClient(): ControlleClient {
   return clientInstance;
 }
 
+/**
+ * Cria ControlleClient com a API key do cliente (ClientConfig.controlleApiKey).
+ * NÃO usa singleton — cada cliente tem sua própria chave.
+ */
+export function getControlleClientForTenant(apiKey: string): ControlleClient {
+  if (!apiKey) {
+    throw new Error('Controlle apiKey is required');
+  }
+  return new ControlleClient(apiKey);
+}
+
 export function resetControlleClient(): void {
   clientInstance = null;
 }
@@ -0,0 +1,34 @@
+/**
+ * ControlleClient por cliente do mesh
+ *
+ * API key do ClientConfig (controlleApiKey). Sem clientId: 400; cliente
+ * desconhecido: 404; cliente sem API key: ControlleSyncError (a rota
+ * responde skipped). CONTROLLE_API_KEY só vale no modo single-tenant
+ * (OPS_SINGLE_TENANT=true).
+ */
+
+import { ControlleClient, getControlleClient, getControlleClientForTenant } from './client';
+import { ControlleSyncError } from './writeBack';
+import { createLogger } from '../shared/utils';
+import { getClientById } from '../../shared/storage/clientStorage';
+import { isSingleTenantMode, TenantResolutionError } from '../../shared/tenant';
+
+const logger = createLogger('ControlleTenant');
+
+export async function resolveControlleClient(clientId?: string): Promise<ControlleClient> {
+  const clientData = clientId ? await getClientById(clientId) : null;
+
+  if (clientData?.config?.controlleApiKey) {
+    logger.info('Using per-client Controlle credentials', { clientId });
+    return getControlleClientForTenant(clientData.config.controlleApiKey);
+  }
+
+  if (!isSingleTenantMode()) {
+    if (!clientId) throw new TenantResolutionError('clientId é obrigatório', 400);
+    if (!clientData) throw new TenantResolutionError(`Cliente ${clientId} não encontrado`, 404);
+    throw new ControlleSyncError(`Cliente ${clientId} sem credenciais Controlle (controlleApiKey)`);
+  }
+
+  logger.info('Using global Controlle credentials (single-tenant)', { clientId });
+  return getControlleClient();
+}
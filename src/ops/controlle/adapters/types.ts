@@ -36,6 +36,20 @@ export interface ControlleLancamento {
   updated_at?: string;
 }
 
+/** Corpo de criação/alteração de lançamento */
+export interface ControlleLancamentoInput {
+  description: string;
+  date: string; // YYYY-MM-DD
+  amount_cents: number; // negativo = despesa
+  notes?: string;
+  paid?: boolean;
+  account_id?: number;
+  category_id?: number;
+  contact_id?: number;
+  competency_date?: string; // YYYY-MM-DD
+  tags?: string[];
+}
+
 // ============================================================================
 // CATEGORIAS
 // ============================================================================
@@ -66,6 +80,12 @@ export interface ControlleContato {
   updated_at?: string;
 }
 
+export interface ControlleContatoInput {
+  name: string;
+  document?: string;
+  notes?: string;
+}
+
 // ============================================================================
 // CONTAS BANCARIAS
 // ============================================================================
@@ -152,6 +172,8 @@ export interface SyncRequest {
   categoriaId?: string;
   categoriaNome?: string;
   contraparte?: string;
+  contraparteCnpj?: string;
+  dataEmissao?: string;
   tipo: 'pagar' | 'receber';
   existingExternalId?: string;
 }
@@ -0,0 +1,217 @@
+/**
+ * Controlle Write-back - lançamentos a partir das transações do mesh
+ *
+ * O Controlle não tem código de integração. Cada lançamento criado pelo
+ * mesh leva a marca "mesh:<transactionId>" (tag e observação); sem id
+ * externo conhecido, procura a marca nos lançamentos do mesmo tipo num
+ * ano para cada lado do vencimento antes de criar, então reenviar a mesma
+ * transação (mesmo com a data alterada) atualiza em vez de duplicar.
+ *
+ * Categoria: pelo id do Controlle (transação capturada de lá) ou pelo
+ * nome, respeitando despesa/receita. Contato: pelo CPF/CNPJ, depois pelo
+ * nome; sem cadastro, cria. Contato é opcional no Controlle.
+ */
+
+import { ControlleClient } from './client';
+import { ControlleCategoria, ControlleLancamento, ControlleLancamentoInput, SyncRequest } from './types';
+import { createLogger } from '../shared/utils';
+import { getCategories } from '../../../storage/tableClient';
+
+const logger = createLogger('ControlleWriteBack');
+
+const CATEGORIAS_TTL_MS = 10 * 60 * 1000;
+const JANELA_MARCA_DIAS = 366;
+
+/** Dados da transação que impedem o envio (não adianta repetir) */
+export class ControlleSyncError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ControlleSyncError';
+  }
+}
+
+export interface ControlleWriteBackResult {
+  action: 'created' | 'updated';
+  controlleId: string;
+  categoryId: number;
+  contactId?: number;
+}
+
+const categoriasCache = new Map<string, { categorias: ControlleCategoria[]; expiraEm: number }>();
+
+export function resetControlleWriteBackCache(): void {
+  categoriasCache.clear();
+}
+
+/** Marca do mesh no lançamento (tag e observação) */
+export function marcaMesh(transactionId: string): string {
+  return `mesh:${transactionId}`;
+}
+
+// ============================================================================
+// CATEGORIA
+// ============================================================================
+
+async function getCategoriasControlle(controlle: ControlleClient, clientId: string): Promise<ControlleCategoria[]> {
+  const cache = categoriasCache.get(clientId);
+  if (cache && cache.expiraEm > Date.now()) return cache.categorias;
+
+  const categorias = (await controlle.getCategorias()).filter((c) => c.id && !c.archive);
+  categoriasCache.set(clientId, { categorias, expiraEm: Date.now() + CATEGORIAS_TTL_MS });
+  return categorias;
+}
+
+export async function resolveCategoryId(
+  controlle: ControlleClient,
+  req: Pick<SyncRequest, 'clientId' | 'categoriaId' | 'categoriaNome' | 'tipo'>
+): Promise<number> {
+  if (!req.categoriaId && !req.categoriaNome) {
+    throw new ControlleSyncError('Transação sem categoria');
+  }
+
+  const kind = req.tipo === 'pagar' ? 'expense' : 'income';
+  const categorias = (await getCategoriasControlle(controlle, req.clientId)).filter((c) => !c.kind || c.kind === kind);
+
+  const porId = categorias.find((c) => String(c.id) === req.categoriaId);
+  if (porId?.id) return porId.id;
+
+  const categoriaMesh = req.categoriaId
+    ? (await getCategories(req.clientId)).find((c) => c.id === req.categoriaId || c.codigo === req.categoriaId)
+    : undefined;
+
+  const nomes = [req.categoriaNome, categoriaMesh?.nome].map(normalizarNome).filter(Boolean);
+  for (const nome of nomes) {
+    const encontrada = categorias.find((c) => normalizarNome(c.name) === nome);
+    if (encontrada?.id) return encontrada.id;
+  }
+
+  throw new ControlleSyncError(
+    `Categoria "${req.categoriaNome || categoriaMesh?.nome || req.categoriaId}" sem correspondente no Controlle`
+  );
+}
+
+// ============================================================================
+// CONTATO
+// ============================================================================
+
+export async function resolveContactId(
+  controlle: ControlleClient,
+  req: Pick<SyncRequest, 'contraparte' | 'contraparteCnpj' | 'existingExternalId'>
+): Promise<number | undefined> {
+  const documento = (req.contraparteCnpj || '').replace(/\D/g, '');
+  const nome = (req.contraparte || '').trim();
+
+  if (!documento && req.existingExternalId && /^\d+$/.test(nome)) {
+    // Lançamento capturado do Controlle: contraparte já é o contact_id
+    return Number(nome);
+  }
+  if (!documento && !nome) return undefined;
+
+  const contatos = await controlle.listContatos();
+  const existente =
+    (documento && contatos.find((c) => (c.document || '').replace(/\D/g, '') === documento)) ||
+    (nome && contatos.find((c) => normalizarNome(c.name) === normalizarNome(nome)));
+  if (existente && existente.id) return existente.id;
+
+  const criado = await controlle.createContato({
+    name: nome || documento,
+    document: documento || undefined,
+    notes: 'Cadastrado pelo mesh',
+  });
+  if (!criado?.id) {
+    throw new Error(`Controlle não cadastrou o contato "${nome || documento}"`);
+  }
+
+  logger.info('Contact registered in Controlle', { contactId: criado.id });
+  return criado.id;
+}
+
+// ============================================================================
+// LANCAMENTO
+// ============================================================================
+
+/** Lançamento já enviado: id externo conhecido ou marca em volta da data */
+async function findLancamentoExistente(
+  controlle: ControlleClient,
+  req: SyncRequest,
+  data: string
+): Promise<number | undefined> {
+  const idExterno = Number(req.existingExternalId);
+  if (Number.isInteger(idExterno) && idExterno > 0) return idExterno;
+
+  const marca = marcaMesh(req.transactionId);
+  const lancamentos = await controlle.listLancamentos(
+    deslocarData(data, -JANELA_MARCA_DIAS),
+    deslocarData(data, JANELA_MARCA_DIAS),
+    req.tipo === 'pagar' ? 'expense' : 'income'
+  );
+  return lancamentos.find((l) => temMarca(l, marca))?.id;
+}
+
+function temMarca(lancamento: ControlleLancamento, marca: string): boolean {
+  return (lancamento.tags || []).includes(marca) || (lancamento.notes || '').includes(marca);
+}
+
+export async function syncToControlle(controlle: ControlleClient, req: SyncRequest): Promise<ControlleWriteBackResult> {
+  if (req.tipo !== 'pagar' && req.tipo !== 'receber') {
+    throw new ControlleSyncError(`Tipo "${req.tipo}" não sincroniza com o Controlle`);
+  }
+  if (!req.dataVencimento) {
+    throw new ControlleSyncError('Transação sem data de vencimento');
+  }
+  const centavos = Math.round(Math.abs(Number(req.valor)) * 100);
+  if (!centavos) {
+    throw new ControlleSyncError('Transação sem valor');
+  }
+
+  const categoryId = await resolveCategoryId(controlle, req);
+  const contactId = await resolveContactId(controlle, req);
+
+  const data = req.dataVencimento.substring(0, 10);
+  const marca = marcaMesh(req.transactionId);
+  const lancamento: ControlleLancamentoInput = {
+    description: req.descricao,
+    date: data,
+    amount_cents: req.tipo === 'pagar' ? -centavos : centavos,
+    category_id: categoryId,
+    contact_id: contactId,
+    competency_date: req.dataEmissao?.substring(0, 10),
+  };
+
+  // Na alteração, observação e tags do lançamento ficam como estão
+  const existenteId = await findLancamentoExistente(controlle, req, data);
+  const salvo = existenteId
+    ? await controlle.updateLancamento(existenteId, lancamento)
+    : await controlle.createLancamento({ ...lancamento, notes: marca, tags: [marca] });
+
+  const controlleId = salvo?.id ?? existenteId;
+  if (!controlleId) {
+    throw new Error('Controlle não retornou o id do lançamento');
+  }
+
+  return {
+    action: existenteId ? 'updated' : 'created',
+    controlleId: String(controlleId),
+    categoryId,
+    contactId,
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function deslocarData(data: string, dias: number): string {
+  const d = new Date(`${data}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + dias);
+  return d.toISOString().substring(0, 10);
+}
+
+function normalizarNome(nome: string | undefined): string {
+  return (nome || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
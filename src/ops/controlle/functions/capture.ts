@@ -6,9 +6,10 @@
 
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
 import * as crypto from 'crypto';
-import { getControlleClient } from '../adapters/client';
+import { resolveControlleClient } from '../adapters/tenant';
 import { CaptureRequest, CaptureResponse, ControllePayable, ControlleReceivable } from '../adapters/types';
 import { createLogger } from '../shared/utils';
+import { httpStatusFor } from '../../shared/tenant';
 import { getExistingSourceIds, upsertTransactionsIdempotent } from '../../../storage/tableClient';
 import { Transaction, TransactionType, TransactionSource, TransactionStatus } from '../../../types';
 
@@ -93,7 +94,8 @@ app.http('controlle-capture', {
         return d.toISOString().split('T')[0];
       })();
 
-      const client = getControlleClient();
+      // Per-client API key: ClientConfig.controlleApiKey (env var só em single-tenant)
+      const client = await resolveControlleClient(clientId);
 
       // Buscar transações existentes para idempotência
       const existingSourceIds = await getExistingSourceIds(clientId, 'controlle');
@@ -148,7 +150,7 @@ app.http('controlle-capture', {
       logger.error('Capture failed', error);
 
       return {
-        status: 500,
+        status: httpStatusFor(error),
         jsonBody: {
           success: false,
           source: 'controlle',
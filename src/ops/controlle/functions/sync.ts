@@ -1,13 +1,19 @@
 /**
- * Sync - controlle-ops
+ * Sync - controlle-ops (integrado ao mesh)
  *
- * POST /api/sync - Sincroniza transacao para Controlle
+ * POST /api/controlle/sync - Cria/atualiza o lançamento no Controlle
+ *
+ * Mesmo contrato SyncRequest/SyncResponse do Nibo. Transação sem categoria
+ * correspondente volta como skipped com o motivo, sem erro HTTP.
  */
 
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
-import { getControlleClient } from '../adapters/client';
+import { resolveControlleClient } from '../adapters/tenant';
+import { ControlleSyncError, syncToControlle } from '../adapters/writeBack';
 import { SyncRequest, SyncResponse } from '../adapters/types';
 import { createLogger } from '../shared/utils';
+import { httpStatusFor } from '../../shared/tenant';
+import { updateTransaction } from '../../../storage/tableClient';
 
 const logger = createLogger('ControlleSync');
 
@@ -18,27 +24,45 @@ app.http('controlle-sync', {
   handler: async (req: HttpRequest, ctx: InvocationContext): Promise<HttpResponseInit> => {
     try {
       const body = (await req.json()) as SyncRequest;
-      const { transactionId, tipo } = body;
+      const { transactionId, clientId, tipo, existingExternalId } = body;
 
-      logger.info('Starting sync', { transactionId, tipo });
+      if (!transactionId || !clientId) {
+        return {
+          status: 400,
+          jsonBody: { success: false, action: 'skipped', error: 'transactionId e clientId são obrigatórios' },
+        };
+      }
 
-      // Controlle sync write operations
-      // Full implementation depends on specific Controlle API methods for creating transactions
+      logger.info('Starting sync', { transactionId, tipo, existingExternalId });
 
-      const response: SyncResponse = {
-        success: false,
-        action: 'skipped',
-        error: 'Controlle sync write operations not yet implemented. Use capture for read-only.',
-      };
+      let response: SyncResponse;
+      try {
+        const client = await resolveControlleClient(clientId);
+        const result = await syncToControlle(client, body);
+        response = { success: true, action: result.action, externalId: result.controlleId };
+      } catch (error) {
+        if (!(error instanceof ControlleSyncError)) throw error;
+        logger.warn('Transaction not synced', { transactionId, motivo: error.message });
+        return { status: 200, jsonBody: { success: false, action: 'skipped', error: error.message } };
+      }
+
+      logger.info('Sync completed', { transactionId, action: response.action, controlleId: response.externalId });
 
-      logger.info('Sync completed', { transactionId, action: response.action });
+      // Update transaction in mesh storage with external ID
+      if (response.externalId && response.externalId !== existingExternalId) {
+        try {
+          await updateTransaction(clientId, transactionId, { controlleId: response.externalId });
+        } catch (err) {
+          logger.error('Failed to update transaction in mesh storage', err as Error);
+        }
+      }
 
       return { status: 200, jsonBody: response };
     } catch (error: any) {
       logger.error('Sync failed', error);
 
       return {
-        status: 500,
+        status: httpStatusFor(error),
         jsonBody: {
           success: false,
           action: 'skipped',
@@ -7,8 +7,8 @@
  *
  * Credenciais:
  *   - Host/Port: hardcoded
- *   - GETNET_USER: env var do Function App
- *   - GETNET_PASS: Key Vault (kv-wf-core)
+ *   - Por tenant: createGetnetClient() com o resolvido por resolveGetnetCredentials
+ *   - Legado (singleton): GETNET_USER (env) + GETNET-PASS (Key Vault kv-wf-core)
  */
 
 import { DefaultAzureCredential } from '@azure/identity';
@@ -18,6 +18,11 @@ import { GetnetArquivoSFTP, GetnetSFTPResult } from './types';
 
 const logger = createLogger('GetnetClient');
 
+export interface GetnetClientCredentials {
+  user: string;
+  password?: string; // ausente: busca GETNET-PASS no Key Vault
+}
+
 // ============================================================================
 // CLIENT CLASS
 // ============================================================================
@@ -44,8 +49,9 @@ export class GetnetClient {
   private password: string | null = null;
   private remoteDir = '.';
 
-  constructor() {
-    this.username = process.env.GETNET_USER || '';
+  constructor(credentials?: GetnetClientCredentials) {
+    this.username = credentials?.user || process.env.GETNET_USER || '';
+    this.password = credentials?.password || null;
     logger.info(`Cliente Getnet inicializado - User: ${this.username}`);
   }
 
@@ -60,8 +66,10 @@ export class GetnetClient {
    * Busca arquivo Getnet por data específica (formato YYYY-MM-DD)
    *
    * Conecta ao SFTP, lista arquivos, encontra o da data, baixa e retorna.
+   * Sem o arquivo da data usa o mais recente — exceto com exato=true
+   * (backfill), que retorna erro com arquivoAusente.
    */
-  async buscarArquivoPorData(dataBusca: string): Promise<GetnetSFTPResult> {
+  async buscarArquivoPorData(dataBusca: string, exato: boolean = false): Promise<GetnetSFTPResult> {
     const resultado: GetnetSFTPResult = {
       erro: true,
       mensagem: '',
@@ -125,6 +133,11 @@ export class GetnetClient {
 
       // Buscar arquivo que contém a data
       let arquivoEncontrado = arquivosValidos.find(a => a.nome.includes(dataFormatada));
+      if (!arquivoEncontrado && exato) {
+        resultado.mensagem = `Arquivo getnetextr_${dataFormatada}.txt não encontrado no SFTP`;
+        resultado.arquivoAusente = true;
+        return resultado;
+      }
       if (!arquivoEncontrado) {
         arquivoEncontrado = arquivosValidos[0];
         logger.warn(`Arquivo para data ${dataBusca} não encontrado, usando mais recente: ${arquivoEncontrado.nome}`);
@@ -269,6 +282,11 @@ export function getGetnetClient(): GetnetClient {
   return clientInstance;
 }
 
+/** Cliente com as credenciais de um tenant (não compartilhado) */
+export function createGetnetClient(credentials: GetnetClientCredentials): GetnetClient {
+  return new GetnetClient(credentials);
+}
+
 export function resetGetnetClient(): void {
   clientInstance = null;
 }
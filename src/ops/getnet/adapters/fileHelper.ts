@@ -27,6 +27,7 @@ import {
   GetnetNegociacaoCessao,
   GetnetUnidadeRecebivel,
   GetnetTrailer,
+  GetnetConferencia,
   DadosEstabelecimento,
 } from './types';
 
@@ -515,6 +516,60 @@ export function filtrarPorEstabelecimento(
   return dados;
 }
 
+// ============================================================================
+// CONFERÊNCIA COM O TRAILER
+// ============================================================================
+
+/**
+ * Confere o que foi lido contra o trailer: total de registros (linhas do
+ * arquivo, header e trailer inclusos), quantidade de RVs e valor bruto.
+ * Linha que falhou no parse aparece como diferença entre linhas e registros.
+ */
+export function conferirTrailer(conteudo: string, registros: GetnetRegistro[]): GetnetConferencia {
+  const linhas = conteudo.split('\n').filter(l => l.trim()).length;
+  const resumos = registros.filter(r => r.TipoRegistro === 1) as GetnetResumoVendas[];
+  const trailer = registros.find(r => r.TipoRegistro === 9) as GetnetTrailer | undefined;
+
+  const apurado = {
+    linhas,
+    registros: registros.length,
+    rvs: resumos.length,
+    valorBruto: Math.round(resumos.reduce((s, r) => s + r.ValorBruto, 0) * 100) / 100,
+  };
+
+  const divergencias: string[] = [];
+
+  if (apurado.registros !== linhas) {
+    divergencias.push(`${linhas - apurado.registros} linha(s) não parseada(s)`);
+  }
+
+  if (!trailer) {
+    divergencias.push('Trailer (Tipo 9) ausente — arquivo possivelmente truncado');
+    return { trailer: null, apurado, divergencias };
+  }
+
+  if (trailer.TotalRegistros !== linhas) {
+    divergencias.push(`Total de registros: trailer ${trailer.TotalRegistros}, arquivo ${linhas}`);
+  }
+  if (trailer.QuantidadeRVs !== apurado.rvs) {
+    divergencias.push(`Quantidade de RVs: trailer ${trailer.QuantidadeRVs}, arquivo ${apurado.rvs}`);
+  }
+  if (Math.abs(trailer.ValorTotalBruto - apurado.valorBruto) > 0.01) {
+    divergencias.push(`Valor bruto: trailer ${trailer.ValorTotalBruto.toFixed(2)}, arquivo ${apurado.valorBruto.toFixed(2)}`);
+  }
+
+  return {
+    trailer: {
+      totalRegistros: trailer.TotalRegistros,
+      valorTotalBruto: trailer.ValorTotalBruto,
+      valorTotalLiquido: trailer.ValorTotalLiquido,
+      quantidadeRVs: trailer.QuantidadeRVs,
+    },
+    apurado,
+    divergencias,
+  };
+}
+
 // ============================================================================
 // PAREAMENTO MAN/POS — corrigir ValorBruto descontado em registros MAN
 // ============================================================================
@@ -168,6 +168,24 @@ export interface GetnetSFTPResult {
   dataModificacao?: string;
   tamanhoBytes?: number;
   totalLinhas?: number;
+  arquivoAusente?: boolean; // busca exata: SFTP ok, mas não há arquivo da data
+}
+
+/** Conferência do arquivo contra os totais do trailer (Tipo 9) */
+export interface GetnetConferencia {
+  trailer: {
+    totalRegistros: number;
+    valorTotalBruto: number;
+    valorTotalLiquido: number;
+    quantidadeRVs: number;
+  } | null;
+  apurado: {
+    linhas: number; // linhas não vazias do arquivo (header e trailer inclusos)
+    registros: number; // registros parseados com sucesso
+    rvs: number;
+    valorBruto: number;
+  };
+  divergencias: string[];
 }
 
 // ============================================================================
@@ -0,0 +1,448 @@
+/**
+ * Agenda de recebíveis - getnet-ops (integrado ao mesh)
+ *
+ * GET /api/getnet/agenda?clientId=...&dias=90                     - Entradas de cartão previstas por dia, bandeira e estabelecimento
+ * GET /api/getnet/agenda/liquidacoes?clientId=...&inicio=...&fim=... - Previsto x creditado no banco (Santander/Inter)
+ *
+ * A agenda vem dos registros do arquivo diário, sempre pelo líquido:
+ *   Tipo 6 (UR)          → valor líquido a receber na data de liquidação
+ *   Tipo 4 (antecipação) → retira o líquido antecipado da data original
+ *   Tipo 5 (cessão CS)   → retira o líquido cedido da data (todas as bandeiras)
+ *
+ * A UR é identificada por estabelecimento × arranjo (produto) × data de
+ * liquidação — o mesmo item volta em arquivos seguintes com valor
+ * atualizado e deve sobrescrever o anterior.
+ *
+ * A UR não traz bandeira: usamos a bandeira dos RVs (Tipo 1) do mesmo
+ * estabelecimento e produto no arquivo, ou o código do produto.
+ */
+
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import * as crypto from 'crypto';
+import {
+  GetnetRegistro,
+  GetnetResumoVendas,
+  GetnetAntecipacao,
+  GetnetNegociacaoCessao,
+  GetnetUnidadeRecebivel,
+} from '../adapters/types';
+import { createLogger, todayYMD } from '../shared/utils';
+import { getClient, getRecebiveisAgenda } from '../../../storage/tableClient';
+import { getLancamentos } from '../../../infra/bankAccount';
+import { Client, RecebivelAgenda } from '../../../types';
+
+const logger = createLogger('GetnetAgenda');
+
+const DIAS_PROJECAO = 90;
+const MAX_DIAS_LIQUIDACAO = 92;
+
+// Diferença aceita entre previsto e creditado (arredondamento do rateio)
+const TOLERANCIA_VALOR = 0.05;
+
+// Janela para achar crédito que caiu em outra data
+const JANELA_DATA_DIAS = 3;
+
+const CREDITO_ADQUIRENTE = /getnet/i;
+
+function shortHash(input: string): string {
+  return crypto.createHash('sha256').update(input).digest('hex').substring(0, 16);
+}
+
+function round2(valor: number): number {
+  return Math.round(valor * 100) / 100;
+}
+
+function somarDias(data: string, dias: number): string {
+  const d = new Date(`${data}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + dias);
+  return d.toISOString().split('T')[0];
+}
+
+function diasEntre(de: string, ate: string): number {
+  return Math.round((Date.parse(`${ate}T00:00:00Z`) - Date.parse(`${de}T00:00:00Z`)) / 86400000);
+}
+
+function isDataValida(data: string | null | undefined): data is string {
+  return !!data && /^\d{4}-\d{2}-\d{2}$/.test(data) && !isNaN(Date.parse(`${data}T00:00:00Z`));
+}
+
+// ============================================================================
+// MONTAGEM (arquivo → itens da agenda)
+// ============================================================================
+
+/** Bandeira mais frequente dos RVs por estabelecimento|produto */
+function mapearBandeiras(resumos: GetnetResumoVendas[]): Map<string, string> {
+  const contagem = new Map<string, Map<string, number>>();
+
+  for (const rv of resumos) {
+    if (!rv.Bandeira) continue;
+    const chave = `${rv.CodigoEstabelecimento.trim()}|${rv.Produto}`;
+    const porBandeira = contagem.get(chave) || new Map<string, number>();
+    porBandeira.set(rv.Bandeira, (porBandeira.get(rv.Bandeira) || 0) + 1);
+    contagem.set(chave, porBandeira);
+  }
+
+  const bandeiras = new Map<string, string>();
+  for (const [chave, porBandeira] of contagem) {
+    const [maisFrequente] = [...porBandeira.entries()].sort((a, b) => b[1] - a[1]);
+    bandeiras.set(chave, maisFrequente[0]);
+  }
+  return bandeiras;
+}
+
+/**
+ * Converte URs, antecipações e cessões do arquivo em itens da agenda.
+ * Com estabelecimentos informados, ignora os demais do arquivo.
+ */
+export function montarAgenda(
+  registros: GetnetRegistro[],
+  clientId: string,
+  dataMovimento: string,
+  arquivo: string,
+  estabelecimentos: string[] = []
+): RecebivelAgenda[] {
+  const filtro = new Set(estabelecimentos);
+  const doCliente = (codigo: string) => filtro.size === 0 || filtro.has(codigo.trim());
+
+  const bandeiras = mapearBandeiras(registros.filter((r) => r.TipoRegistro === 1) as GetnetResumoVendas[]);
+  const itens: RecebivelAgenda[] = [];
+  const base = { clientId, dataMovimento, arquivo };
+
+  for (const ur of registros.filter((r) => r.TipoRegistro === 6) as GetnetUnidadeRecebivel[]) {
+    const estabelecimento = ur.CodigoEstabelecimento.trim();
+    const dataPrevista = ur.DataLiquidacao || ur.DataPagamento;
+    if (!dataPrevista || !doCliente(estabelecimento) || ur.ValorLiquidoUR <= 0) continue;
+
+    itens.push({
+      ...base,
+      id: `ur-${shortHash(`${estabelecimento}|${ur.TipoProduto}|${dataPrevista}`)}`,
+      tipo: 'ur',
+      dataPrevista,
+      estabelecimento,
+      bandeira: bandeiras.get(`${estabelecimento}|${ur.TipoProduto}`) || ur.TipoProduto,
+      produto: ur.TipoProduto,
+      valorBruto: ur.ValorBrutoUR || ur.ValorLiquidoUR,
+      valorLiquido: ur.ValorLiquidoUR,
+      numeroOperacao: ur.NumeroOperacao || undefined,
+      indicador: ur.Indicador || undefined,
+    });
+  }
+
+  for (const antecipacao of registros.filter((r) => r.TipoRegistro === 4) as GetnetAntecipacao[]) {
+    const estabelecimento = antecipacao.CodigoEstabelecimento.trim();
+    const dataPrevista = antecipacao.DataOriginalPagamento;
+    if (!dataPrevista || !doCliente(estabelecimento)) continue;
+
+    itens.push({
+      ...base,
+      id: `antec-${shortHash(`${estabelecimento}|${antecipacao.NumeroOperacao}|${dataPrevista}|${antecipacao.Bandeira}`)}`,
+      tipo: 'antecipacao',
+      dataPrevista,
+      estabelecimento,
+      bandeira: antecipacao.Bandeira,
+      produto: antecipacao.Produto,
+      valorBruto: antecipacao.ValorBrutoAntecipacao,
+      valorLiquido: antecipacao.ValorLiquidoAntecipacao || antecipacao.ValorBrutoAntecipacao,
+      numeroOperacao: antecipacao.NumeroOperacao || undefined,
+    });
+  }
+
+  // Só CS (solicitada) retira valor da data; CL é a liquidação — mesma regra da captura
+  const cessoes = (registros.filter((r) => r.TipoRegistro === 5) as GetnetNegociacaoCessao[])
+    .filter((c) => c.Indicador === 'CS');
+
+  for (const cessao of cessoes) {
+    const estabelecimento = cessao.CodigoEstabelecimento.trim();
+    const dataPrevista = cessao.DataPagamento;
+    if (!dataPrevista || !doCliente(estabelecimento)) continue;
+
+    itens.push({
+      ...base,
+      id: `cessao-${shortHash(`${estabelecimento}|${cessao.NumeroOperacao}|${dataPrevista}`)}`,
+      tipo: 'cessao',
+      dataPrevista,
+      estabelecimento,
+      bandeira: '',
+      valorBruto: cessao.ValorBrutoCessao,
+      valorLiquido: cessao.ValorLiquidoCessao || cessao.ValorBrutoCessao,
+      numeroOperacao: cessao.NumeroOperacao || undefined,
+      indicador: cessao.Indicador,
+    });
+  }
+
+  return itens;
+}
+
+// ============================================================================
+// PROJEÇÃO
+// ============================================================================
+
+export interface AgendaLinha {
+  data: string;
+  bandeira: string;
+  estabelecimento: string;
+  bruto: number; // soma do líquido das URs, antes de antecipações e cessões
+  antecipado: number;
+  cedido: number;
+  liquido: number; // o que deve cair na conta
+}
+
+export interface AgendaDia {
+  data: string;
+  bruto: number;
+  antecipado: number;
+  cedido: number;
+  liquido: number;
+}
+
+/**
+ * Consolida os itens em linhas data × bandeira × estabelecimento.
+ * URs e abatimentos entram pelo valor líquido.
+ * Antecipação abate a própria bandeira (ou rateia se a bandeira não tem UR);
+ * cessão rateia entre as bandeiras do estabelecimento na data.
+ */
+export function projetarAgenda(itens: RecebivelAgenda[]): { linhas: AgendaLinha[]; dias: AgendaDia[] } {
+  const linhas = new Map<string, AgendaLinha>();
+  const linha = (data: string, estabelecimento: string, bandeira: string): AgendaLinha => {
+    const chave = `${data}|${estabelecimento}|${bandeira}`;
+    if (!linhas.has(chave)) {
+      linhas.set(chave, { data, bandeira, estabelecimento, bruto: 0, antecipado: 0, cedido: 0, liquido: 0 });
+    }
+    return linhas.get(chave)!;
+  };
+
+  for (const ur of itens.filter((i) => i.tipo === 'ur')) {
+    linha(ur.dataPrevista, ur.estabelecimento, ur.bandeira).bruto += ur.valorLiquido;
+  }
+
+  const ratear = (item: RecebivelAgenda, campo: 'antecipado' | 'cedido', alvos: AgendaLinha[]) => {
+    const total = alvos.reduce((s, l) => s + l.bruto, 0);
+    if (total <= 0) {
+      // Sem UR conhecida para a data: registra o abatimento mesmo assim
+      linha(item.dataPrevista, item.estabelecimento, item.bandeira)[campo] += item.valorLiquido;
+      return;
+    }
+    for (const alvo of alvos) {
+      alvo[campo] += item.valorLiquido * (alvo.bruto / total);
+    }
+  };
+
+  const doDia = (item: RecebivelAgenda) => [...linhas.values()].filter(
+    (l) => l.data === item.dataPrevista && l.estabelecimento === item.estabelecimento && l.bruto > 0
+  );
+
+  for (const antecipacao of itens.filter((i) => i.tipo === 'antecipacao')) {
+    const mesmaBandeira = doDia(antecipacao).filter((l) => l.bandeira === antecipacao.bandeira);
+    ratear(antecipacao, 'antecipado', mesmaBandeira.length > 0 ? mesmaBandeira : doDia(antecipacao));
+  }
+
+  for (const cessao of itens.filter((i) => i.tipo === 'cessao')) {
+    ratear(cessao, 'cedido', doDia(cessao));
+  }
+
+  const resultado = [...linhas.values()]
+    .map((l) => ({
+      ...l,
+      bruto: round2(l.bruto),
+      antecipado: round2(l.antecipado),
+      cedido: round2(l.cedido),
+      liquido: round2(Math.max(0, l.bruto - l.antecipado - l.cedido)),
+    }))
+    .sort((a, b) => a.data.localeCompare(b.data)
+      || a.estabelecimento.localeCompare(b.estabelecimento)
+      || a.bandeira.localeCompare(b.bandeira));
+
+  const dias = new Map<string, AgendaDia>();
+  for (const l of resultado) {
+    const dia = dias.get(l.data) || { data: l.data, bruto: 0, antecipado: 0, cedido: 0, liquido: 0 };
+    dia.bruto = round2(dia.bruto + l.bruto);
+    dia.antecipado = round2(dia.antecipado + l.antecipado);
+    dia.cedido = round2(dia.cedido + l.cedido);
+    dia.liquido = round2(dia.liquido + l.liquido);
+    dias.set(l.data, dia);
+  }
+
+  return { linhas: resultado, dias: [...dias.values()] };
+}
+
+// ============================================================================
+// LIQUIDAÇÕES (previsto x creditado)
+// ============================================================================
+
+export interface CreditoBancario {
+  data: string;
+  valor: number;
+  descricao: string;
+  banco: 'santander' | 'inter';
+}
+
+export interface LiquidacaoConferida {
+  data: string;
+  previsto: number;
+  recebido: number;
+  status: 'ok' | 'valor_divergente' | 'data_divergente' | 'nao_recebido' | 'nao_previsto';
+  dataRecebimento?: string;
+  diferenca: number;
+}
+
+/**
+ * Compara o líquido previsto de cada dia com os créditos Getnet do extrato.
+ * Sem crédito na data, procura um de mesmo valor até JANELA_DATA_DIAS antes/depois.
+ */
+export function conferirLiquidacoes(dias: AgendaDia[], creditos: CreditoBancario[]): LiquidacaoConferida[] {
+  const porData = new Map<string, number>();
+  for (const c of creditos) {
+    porData.set(c.data, round2((porData.get(c.data) || 0) + c.valor));
+  }
+
+  const usadas = new Set<string>();
+  const resultado: LiquidacaoConferida[] = [];
+  const previstos = dias.filter((d) => d.liquido > 0);
+
+  // Primeiro as datas com crédito no próprio dia, para não serem "roubadas" pela janela
+  for (const dia of previstos) {
+    const recebido = porData.get(dia.data);
+    if (recebido === undefined) continue;
+
+    usadas.add(dia.data);
+    const diferenca = round2(recebido - dia.liquido);
+    resultado.push({
+      data: dia.data,
+      previsto: dia.liquido,
+      recebido,
+      status: Math.abs(diferenca) <= TOLERANCIA_VALOR ? 'ok' : 'valor_divergente',
+      dataRecebimento: dia.data,
+      diferenca,
+    });
+  }
+
+  for (const dia of previstos) {
+    if (resultado.some((r) => r.data === dia.data)) continue;
+
+    const deslocada = [...porData.entries()]
+      .filter(([data, valor]) => !usadas.has(data)
+        && Math.abs(diasEntre(dia.data, data)) <= JANELA_DATA_DIAS
+        && Math.abs(valor - dia.liquido) <= TOLERANCIA_VALOR)
+      .sort((a, b) => Math.abs(diasEntre(dia.data, a[0])) - Math.abs(diasEntre(dia.data, b[0])))[0];
+
+    if (deslocada) {
+      usadas.add(deslocada[0]);
+      resultado.push({
+        data: dia.data,
+        previsto: dia.liquido,
+        recebido: deslocada[1],
+        status: 'data_divergente',
+        dataRecebimento: deslocada[0],
+        diferenca: round2(deslocada[1] - dia.liquido),
+      });
+    } else {
+      resultado.push({ data: dia.data, previsto: dia.liquido, recebido: 0, status: 'nao_recebido', diferenca: round2(-dia.liquido) });
+    }
+  }
+
+  for (const [data, valor] of porData) {
+    if (usadas.has(data)) continue;
+    resultado.push({ data, previsto: 0, recebido: valor, status: 'nao_previsto', dataRecebimento: data, diferenca: valor });
+  }
+
+  return resultado.sort((a, b) => a.data.localeCompare(b.data));
+}
+
+/** Créditos da adquirente no extrato do banco do cliente */
+export async function buscarCreditosAdquirente(client: Client, inicio: string, fim: string): Promise<CreditoBancario[]> {
+  const lancamentos = await getLancamentos(client, inicio, fim);
+  return lancamentos
+    .filter((l) => l.valor > 0 && CREDITO_ADQUIRENTE.test(l.descricao))
+    .map((l) => ({ data: l.data, valor: l.valor, descricao: l.descricao, banco: l.banco }));
+}
+
+// ============================================================================
+// HTTP HANDLERS
+// ============================================================================
+
+app.http('getnet-agenda', {
+  methods: ['GET'],
+  authLevel: 'function',
+  route: 'getnet/agenda',
+  handler: async (req: HttpRequest, ctx: InvocationContext): Promise<HttpResponseInit> => {
+    const clientId = req.query.get('clientId');
+    if (!clientId) {
+      return { status: 400, jsonBody: { success: false, error: 'clientId é obrigatório' } };
+    }
+
+    const dias = Math.min(Math.max(parseInt(req.query.get('dias') || String(DIAS_PROJECAO), 10) || DIAS_PROJECAO, 1), DIAS_PROJECAO);
+    const inicio = todayYMD();
+    const fim = somarDias(inicio, dias - 1);
+
+    try {
+      const { linhas, dias: porDia } = projetarAgenda(await getRecebiveisAgenda(clientId, inicio, fim));
+
+      return {
+        status: 200,
+        jsonBody: {
+          clientId,
+          inicio,
+          fim,
+          totais: {
+            bruto: round2(porDia.reduce((s, d) => s + d.bruto, 0)),
+            antecipado: round2(porDia.reduce((s, d) => s + d.antecipado, 0)),
+            cedido: round2(porDia.reduce((s, d) => s + d.cedido, 0)),
+            liquido: round2(porDia.reduce((s, d) => s + d.liquido, 0)),
+          },
+          dias: porDia,
+          linhas,
+        },
+      };
+    } catch (error: any) {
+      logger.error('Erro ao montar agenda de recebíveis', error);
+      return { status: 500, jsonBody: { error: 'Erro ao montar agenda de recebíveis' } };
+    }
+  },
+});
+
+app.http('getnet-agenda-liquidacoes', {
+  methods: ['GET'],
+  authLevel: 'function',
+  route: 'getnet/agenda/liquidacoes',
+  handler: async (req: HttpRequest, ctx: InvocationContext): Promise<HttpResponseInit> => {
+    const clientId = req.query.get('clientId');
+    if (!clientId) {
+      return { status: 400, jsonBody: { success: false, error: 'clientId é obrigatório' } };
+    }
+
+    const fim = req.query.get('fim') || todayYMD();
+    const inicio = req.query.get('inicio') || somarDias(fim, -29);
+    if (!isDataValida(inicio) || !isDataValida(fim) || inicio > fim || diasEntre(inicio, fim) >= MAX_DIAS_LIQUIDACAO) {
+      return { status: 400, jsonBody: { success: false, error: `inicio/fim inválidos (YYYY-MM-DD, até ${MAX_DIAS_LIQUIDACAO} dias)` } };
+    }
+
+    try {
+      const client = await getClient(clientId);
+      if (!client) {
+        return { status: 404, jsonBody: { success: false, error: 'Cliente não encontrado' } };
+      }
+
+      const { dias } = projetarAgenda(await getRecebiveisAgenda(clientId, inicio, fim));
+      const creditos = await buscarCreditosAdquirente(client, inicio, fim);
+      const liquidacoes = conferirLiquidacoes(dias, creditos);
+      const divergentes = liquidacoes.filter((l) => l.status !== 'ok');
+
+      return {
+        status: 200,
+        jsonBody: {
+          clientId,
+          inicio,
+          fim,
+          banco: client.config?.banco,
+          total: liquidacoes.length,
+          divergentes: divergentes.length,
+          liquidacoes,
+        },
+      };
+    } catch (error: any) {
+      logger.error('Erro ao conferir liquidações', error);
+      const semBanco = error.message?.includes('sem extrato via API');
+      return { status: semBanco ? 400 : 500, jsonBody: { success: false, error: error.message } };
+    }
+  },
+});
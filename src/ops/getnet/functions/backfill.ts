@@ -0,0 +1,303 @@
+/**
+ * Backfill e lacunas - getnet-ops (integrado ao mesh)
+ *
+ * POST /api/getnet/backfill                               - Enfileira o reprocessamento de um intervalo, uma mensagem por dia
+ * GET  /api/getnet/lacunas?clientId=...&inicio=...&fim=...  - Datas sem arquivo ingerido ou com trailer divergente
+ * Timer getnet-lacunas-timer                               - Confere os últimos 7 dias dos clientes Getnet
+ * Queue queue-backfill-getnet                              - Baixa e ingere o arquivo de uma data
+ *
+ * A captura diária baixa um único getnetextr_YYYYMMDD.txt; se o SFTP fica
+ * fora do ar, os dias perdidos só aparecem no controle de arquivos
+ * (OperacaoGetnetArquivos). O backfill busca cada data exata — sem cair
+ * no arquivo mais recente — e pula as datas já registradas. Cada download
+ * roda na sua mensagem (retry/poison do queueWorker), fora do tempo da
+ * requisição HTTP; o andamento aparece em /api/getnet/lacunas.
+ */
+
+import { app, HttpRequest, HttpResponseInit, InvocationContext, Timer } from '@azure/functions';
+import { executeGetnetCapture } from './capture';
+import { createLogger, nowISO, todayYMD } from '../shared/utils';
+import {
+  getActiveClients,
+  getGetnetArquivos,
+  addHistoryAction,
+} from '../../../storage/tableClient';
+import { enqueueMessage } from '../../../storage/queueClient';
+import { registerQueueWorker } from '../../../triggers/queueWorker';
+import { BACKFILL_QUEUES, BackfillQueueMessage, createBackfillMessage } from '../../../types';
+import { ProactiveNotifier } from '../../../notifications/proactiveNotifier';
+
+const logger = createLogger('GetnetBackfill');
+
+// Uma mensagem (download SFTP) por data; intervalos maiores devem ser quebrados
+const MAX_DIAS_BACKFILL = 92;
+
+// Janela conferida pelo timer diário (até D-1)
+const DIAS_CONFERENCIA = 7;
+
+export interface GetnetBackfillInput {
+  clientId: string;
+  inicio: string; // YYYY-MM-DD
+  fim: string; // YYYY-MM-DD
+  reprocessar?: boolean; // reingere também as datas já registradas
+}
+
+export interface GetnetBackfillDia {
+  data: string;
+  status: 'ok' | 'divergente' | 'ausente' | 'erro';
+  arquivo?: string;
+  transacoes?: number;
+  divergencias?: string[];
+  erro?: string;
+}
+
+export interface GetnetBackfillAgendado {
+  clientId: string;
+  inicio: string;
+  fim: string;
+  enfileiradas: string[];
+  jaProcessadas: string[];
+}
+
+export interface GetnetLacunas {
+  clientId: string;
+  inicio: string;
+  fim: string;
+  faltantes: string[];
+  divergentes: Array<{ data: string; arquivo: string; divergencias: string[] }>;
+}
+
+// ============================================================================
+// DATAS
+// ============================================================================
+
+function isDataValida(data: string | null | undefined): data is string {
+  return !!data && /^\d{4}-\d{2}-\d{2}$/.test(data) && !isNaN(Date.parse(`${data}T00:00:00Z`));
+}
+
+function somarDias(data: string, dias: number): string {
+  const d = new Date(`${data}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + dias);
+  return d.toISOString().split('T')[0];
+}
+
+/** Datas de inicio a fim (inclusive) */
+export function listarDatas(inicio: string, fim: string): string[] {
+  const datas: string[] = [];
+  for (let data = inicio; data <= fim; data = somarDias(data, 1)) {
+    datas.push(data);
+  }
+  return datas;
+}
+
+function validarIntervalo(inicio?: string | null, fim?: string | null): string | null {
+  if (!isDataValida(inicio) || !isDataValida(fim)) {
+    return 'inicio e fim são obrigatórios (YYYY-MM-DD)';
+  }
+  if (inicio > fim) {
+    return 'inicio deve ser anterior ou igual a fim';
+  }
+  if (listarDatas(inicio, fim).length > MAX_DIAS_BACKFILL) {
+    return `Intervalo máximo de ${MAX_DIAS_BACKFILL} dias`;
+  }
+  return null;
+}
+
+// ============================================================================
+// CORE LOGIC
+// ============================================================================
+
+/**
+ * Enfileira uma mensagem por data do intervalo. Datas já no controle de
+ * arquivos são puladas (salvo reprocessar).
+ */
+export async function agendarGetnetBackfill(input: GetnetBackfillInput): Promise<GetnetBackfillAgendado> {
+  const { clientId, inicio, fim, reprocessar } = input;
+
+  const registradas = new Set(
+    reprocessar ? [] : (await getGetnetArquivos(clientId, inicio, fim)).map((a) => a.dataMovimento)
+  );
+
+  const datas = listarDatas(inicio, fim);
+  const enfileiradas = datas.filter((data) => !registradas.has(data));
+
+  for (const data of enfileiradas) {
+    await enqueueMessage(BACKFILL_QUEUES.GETNET, createBackfillMessage(clientId, `getnet-backfill-${data}`, data));
+  }
+
+  logger.info(`Backfill ${clientId} ${inicio}..${fim}: ${enfileiradas.length} data(s) enfileirada(s)`);
+
+  return { clientId, inicio, fim, enfileiradas, jaProcessadas: datas.filter((data) => registradas.has(data)) };
+}
+
+/** Busca e ingere o arquivo exato de uma data */
+export async function processarDiaGetnetBackfill(clientId: string, data: string): Promise<GetnetBackfillDia> {
+  const result = await executeGetnetCapture({
+    clientId,
+    cycleId: `getnet-backfill-${data}`,
+    startDate: data,
+    exato: true,
+    origem: 'backfill',
+  });
+
+  if (!result.success) {
+    return { data, status: result.arquivoAusente ? 'ausente' : 'erro', erro: result.error };
+  }
+
+  const divergencias = result.conferencia?.divergencias || [];
+  return {
+    data,
+    status: divergencias.length > 0 ? 'divergente' : 'ok',
+    arquivo: result.arquivo,
+    transacoes: result.transactions.total,
+    divergencias: divergencias.length > 0 ? divergencias : undefined,
+  };
+}
+
+/** Worker da fila: arquivo ausente é definitivo; erro volta para retry */
+export async function handleGetnetBackfillMessage(message: BackfillQueueMessage): Promise<void> {
+  const dia = await processarDiaGetnetBackfill(message.clientId, message.data);
+
+  if (dia.status === 'erro') {
+    throw new Error(dia.erro || `Backfill Getnet ${message.data} falhou`);
+  }
+
+  logger.info(`Backfill ${message.clientId} ${message.data}: ${dia.status}`, { arquivo: dia.arquivo, transacoes: dia.transacoes });
+}
+
+/** Datas do intervalo sem arquivo ingerido ou com trailer divergente */
+export async function verificarLacunasGetnet(
+  clientId: string,
+  inicio: string,
+  fim: string
+): Promise<GetnetLacunas> {
+  const arquivos = await getGetnetArquivos(clientId, inicio, fim);
+  const porData = new Map(arquivos.map((a) => [a.dataMovimento, a]));
+
+  return {
+    clientId,
+    inicio,
+    fim,
+    faltantes: listarDatas(inicio, fim).filter((data) => !porData.has(data)),
+    divergentes: arquivos
+      .filter((a) => a.status === 'divergente')
+      .map((a) => ({ data: a.dataMovimento, arquivo: a.arquivo, divergencias: a.divergencias })),
+  };
+}
+
+// ============================================================================
+// HTTP HANDLERS
+// ============================================================================
+
+app.http('getnet-backfill', {
+  methods: ['POST'],
+  authLevel: 'function',
+  route: 'getnet/backfill',
+  handler: async (req: HttpRequest, ctx: InvocationContext): Promise<HttpResponseInit> => {
+    try {
+      const body = (await req.json()) as Partial<GetnetBackfillInput>;
+      if (!body.clientId) {
+        return { status: 400, jsonBody: { success: false, error: 'clientId é obrigatório' } };
+      }
+
+      const invalido = validarIntervalo(body.inicio, body.fim);
+      if (invalido) {
+        return { status: 400, jsonBody: { success: false, error: invalido } };
+      }
+
+      const result = await agendarGetnetBackfill({
+        clientId: body.clientId,
+        inicio: body.inicio!,
+        fim: body.fim!,
+        reprocessar: body.reprocessar === true,
+      });
+
+      return { status: 202, jsonBody: { success: true, ...result } };
+    } catch (error: any) {
+      logger.error('Erro no backfill Getnet', error);
+      return { status: 500, jsonBody: { success: false, error: error.message } };
+    }
+  },
+});
+
+app.http('getnet-lacunas', {
+  methods: ['GET'],
+  authLevel: 'function',
+  route: 'getnet/lacunas',
+  handler: async (req: HttpRequest, ctx: InvocationContext): Promise<HttpResponseInit> => {
+    const clientId = req.query.get('clientId');
+    if (!clientId) {
+      return { status: 400, jsonBody: { success: false, error: 'clientId é obrigatório' } };
+    }
+
+    const fim = req.query.get('fim') || somarDias(todayYMD(), -1);
+    const inicio = req.query.get('inicio') || somarDias(fim, -(DIAS_CONFERENCIA - 1));
+
+    const invalido = validarIntervalo(inicio, fim);
+    if (invalido) {
+      return { status: 400, jsonBody: { success: false, error: invalido } };
+    }
+
+    try {
+      return { status: 200, jsonBody: await verificarLacunasGetnet(clientId, inicio, fim) };
+    } catch (error: any) {
+      logger.error('Erro ao verificar lacunas Getnet', error);
+      return { status: 500, jsonBody: { error: 'Erro ao verificar lacunas' } };
+    }
+  },
+});
+
+// ============================================================================
+// TIMER
+// ============================================================================
+
+const notifier = new ProactiveNotifier();
+
+app.timer('getnet-lacunas-timer', {
+  // Diário às 08:00 (UTC-3), depois da captura da madrugada
+  schedule: '0 0 11 * * *',
+  handler: async (timer: Timer, ctx: InvocationContext): Promise<void> => {
+    const fim = somarDias(todayYMD(), -1);
+    const inicio = somarDias(fim, -(DIAS_CONFERENCIA - 1));
+
+    for (const client of await getActiveClients()) {
+      if (client.config?.adquirente !== 'getnet') continue;
+
+      try {
+        const lacunas = await verificarLacunasGetnet(client.id, inicio, fim);
+        if (lacunas.faltantes.length === 0 && lacunas.divergentes.length === 0) continue;
+
+        const partes: string[] = [];
+        if (lacunas.faltantes.length > 0) {
+          partes.push(`Sem arquivo ingerido: ${lacunas.faltantes.join(', ')}`);
+        }
+        for (const d of lacunas.divergentes) {
+          partes.push(`${d.arquivo} diverge do trailer: ${d.divergencias.join('; ')}`);
+        }
+
+        await addHistoryAction({
+          id: `hist-getnet-lacunas-${client.id}-${fim}`,
+          clientId: client.id,
+          tipo: 'erro',
+          descricao: `Getnet ${inicio}..${fim}: ${lacunas.faltantes.length} data(s) sem arquivo, ${lacunas.divergentes.length} divergente(s)`,
+          data: nowISO(),
+          detalhes: { ...lacunas },
+        });
+
+        await notifier.sendAlert(client.id, {
+          title: 'Arquivos Getnet pendentes',
+          message: `${partes.join('\n')}\n\nUse POST /api/getnet/backfill para reprocessar o período.`,
+          severity: 'alta',
+        }, client);
+      } catch (error: any) {
+        logger.warn(`Lacunas Getnet não verificadas para ${client.id}: ${error.message}`);
+      }
+    }
+  },
+});
+
+// ============================================================================
+// QUEUE
+// ============================================================================
+
+registerQueueWorker('getnet-backfill-worker', BACKFILL_QUEUES.GETNET, handleGetnetBackfillMessage);
@@ -20,8 +20,8 @@
 
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
 import * as crypto from 'crypto';
-import { getGetnetClient } from '../adapters/client';
-import { parseConteudo, parearManPos } from '../adapters/fileHelper';
+import { createGetnetClient, getGetnetClient, GetnetClient } from '../adapters/client';
+import { parseConteudo, parearManPos, conferirTrailer } from '../adapters/fileHelper';
 import {
   CaptureRequest,
   CaptureResponse,
@@ -31,10 +31,20 @@ import {
   GetnetAjusteFinanceiro,
   GetnetAntecipacao,
   GetnetNegociacaoCessao,
+  GetnetConferencia,
 } from '../adapters/types';
 import { createLogger, nowISO } from '../shared/utils';
-import { getExistingSourceIds, upsertTransactionsIdempotent } from '../../../storage/tableClient';
-import { Transaction, TransactionType, TransactionSource, TransactionStatus } from '../../../types';
+import {
+  getClient,
+  getExistingSourceIds,
+  upsertTransactionsIdempotent,
+  saveGetnetArquivo,
+  saveRecebiveisAgenda,
+} from '../../../storage/tableClient';
+import { resolveGetnetCredentials } from '../../../infra/credentialResolver';
+import { httpStatusFor, isSingleTenantMode, TenantResolutionError } from '../../shared/tenant';
+import { montarAgenda } from './agenda';
+import { GetnetArquivoProcessado, Transaction, TransactionType, TransactionSource, TransactionStatus } from '../../../types';
 
 const logger = createLogger('GetnetCapture');
 
@@ -837,10 +847,10 @@ function gerarTransacoes(
   const totalPagar = faturamento.totalPagar + ajustesResult.totalPagar + antecCessaoResult.totalPagar;
   const totalVendas = faturamento.totalVendas;
 
-  // Tipo 6 (URs) - IGNORADO
+  // Tipo 6 (URs) - não gera transação; alimenta a agenda de recebíveis (agenda.ts)
   const urs = registros.filter(r => r.TipoRegistro === 6);
   if (urs.length > 0) {
-    logger.info(`Tipo 6 (URs): ${urs.length} registros ignorados (apenas agenda/informativo)`);
+    logger.info(`Tipo 6 (URs): ${urs.length} registros fora das transações (agenda de recebíveis)`);
   }
 
   // Resumo com valores BRUTOS (fonte de verdade — líquidos se calculam)
@@ -861,6 +871,112 @@ function gerarTransacoes(
   };
 }
 
+/**
+ * Gera as transações de cada estabelecimento do cliente (sem códigos =
+ * arquivo inteiro) e marca cada transação com o estabelecimento de origem.
+ */
+function gerarPorEstabelecimento(
+  registros: GetnetRegistro[],
+  clientId: string,
+  cycleId: string,
+  dataMovimento: string,
+  codigos: string[]
+) {
+  const alvos: Array<string | undefined> = codigos.length > 0 ? [...new Set(codigos)] : [undefined];
+
+  return alvos.map((codigo) => {
+    const gerado = gerarTransacoes(registros, clientId, cycleId, dataMovimento, codigo);
+
+    for (const tx of gerado.transactions as Transaction[]) {
+      tx.metadata = {
+        ...tx.metadata,
+        estabelecimento: codigo
+          || String(tx.metadata?.codigo_estabelecimento ?? tx.rawData?.CodigoEstabelecimento ?? '').trim()
+          || undefined,
+      };
+    }
+
+    return { codigo: codigo || 'todos', ...gerado };
+  });
+}
+
+// ============================================================================
+// CREDENCIAIS POR TENANT
+// ============================================================================
+
+/**
+ * Cliente SFTP com o login/senha do tenant e os estabelecimentos a capturar.
+ * Cliente desconhecido: 404; cliente sem getnetUser: erro. O singleton
+ * legado (GETNET_USER + GETNET-PASS) só vale no modo single-tenant.
+ */
+async function getTenantGetnet(
+  clientId: string,
+  codigoEstabelecimento?: string
+): Promise<{ cliente: GetnetClient; estabelecimentos: string[] }> {
+  const client = clientId ? await getClient(clientId) : null;
+  // Código explícito na requisição restringe a captura a uma loja
+  const restringir = (configurados: string[]) => (codigoEstabelecimento ? [codigoEstabelecimento] : configurados);
+
+  if (client?.config?.getnetUser) {
+    const credentials = await resolveGetnetCredentials(client.config, client.tenantId);
+    return {
+      cliente: createGetnetClient({ user: credentials.user, password: credentials.password }),
+      estabelecimentos: restringir(credentials.estabelecimentos),
+    };
+  }
+
+  if (!isSingleTenantMode()) {
+    if (!clientId) throw new TenantResolutionError('clientId é obrigatório', 400);
+    if (!client) throw new TenantResolutionError(`Cliente ${clientId} não encontrado`, 404);
+    throw new Error(`Cliente ${clientId} sem credenciais Getnet (getnetUser)`);
+  }
+
+  logger.info(`Usando credenciais Getnet globais (single-tenant) para ${clientId}`);
+  const credentials = client ? await resolveGetnetCredentials(client.config, client.tenantId) : null;
+  return {
+    cliente: getGetnetClient(),
+    estabelecimentos: restringir(credentials?.estabelecimentos || []),
+  };
+}
+
+// ============================================================================
+// CONTROLE DE ARQUIVOS
+// ============================================================================
+
+/**
+ * Registra o arquivo ingerido em OperacaoGetnetArquivos (base da checagem
+ * de lacunas). Falha no registro não desfaz a ingestão.
+ */
+async function registrarArquivoProcessado(params: {
+  clientId: string;
+  cycleId: string;
+  dataMovimento: string;
+  nomeArquivo: string;
+  origem: GetnetArquivoProcessado['origem'];
+  transacoes: number;
+  conferencia: ReturnType<typeof conferirTrailer>;
+}): Promise<void> {
+  const { clientId, cycleId, dataMovimento, nomeArquivo, origem, transacoes, conferencia } = params;
+
+  try {
+    await saveGetnetArquivo({
+      clientId,
+      dataMovimento,
+      arquivo: nomeArquivo,
+      processadoEm: nowISO(),
+      cycleId,
+      origem,
+      transacoes,
+      trailer: conferencia.trailer,
+      apurado: conferencia.apurado,
+      divergencias: conferencia.divergencias,
+      status: conferencia.divergencias.length > 0 ? 'divergente' : 'ok',
+    });
+  } catch (error: any) {
+    logger.warn(`Nao foi possivel registrar ${nomeArquivo} no controle de arquivos: ${error.message}`);
+  }
+}
+
 // ============================================================================
 // CORE LOGIC (reutilizável pelo captureActivity sem HTTP)
 // ============================================================================
@@ -870,6 +986,16 @@ export interface GetnetCaptureInput {
   cycleId: string;
   startDate?: string;
   codigoEstabelecimento?: string;
+  exato?: boolean; // só o arquivo da data (sem cair no mais recente)
+  origem?: GetnetArquivoProcessado['origem'];
+}
+
+export interface GetnetEstabelecimentoResult {
+  codigo: string; // 'todos' quando o cliente não tem estabelecimentos configurados
+  transactions: { total: number; new: number; updated: number; skipped: number };
+  receber: number;
+  pagar: number;
+  vendas: number;
 }
 
 export interface GetnetCaptureOutput {
@@ -881,6 +1007,11 @@ export interface GetnetCaptureOutput {
   receber: number;
   pagar: number;
   vendas: number;
+  estabelecimentos?: GetnetEstabelecimentoResult[];
+  arquivo?: string;
+  dataMovimento?: string;
+  conferencia?: GetnetConferencia;
+  arquivoAusente?: boolean;
   durationMs: number;
   error?: string;
 }
@@ -896,15 +1027,16 @@ export async function executeGetnetCapture(input: GetnetCaptureInput): Promise<G
   try {
     const dataBusca = input.startDate || new Date().toISOString().split('T')[0];
 
-    // 1. Conectar e baixar arquivo SFTP
-    const cliente = getGetnetClient();
-    const resultado = await cliente.buscarArquivoPorData(dataBusca);
+    // 1. Conectar (login do tenant) e baixar arquivo SFTP
+    const { cliente, estabelecimentos } = await getTenantGetnet(clientId, codigoEstabelecimento);
+    const resultado = await cliente.buscarArquivoPorData(dataBusca, input.exato);
 
     if (resultado.erro || !resultado.conteudo) {
       return {
         success: false, source: 'getnet', clientId, cycleId,
         transactions: { total: 0, new: 0, updated: 0, skipped: 0 },
         receber: 0, pagar: 0, vendas: 0,
+        arquivoAusente: resultado.arquivoAusente,
         durationMs: Date.now() - startTime,
         error: `Falha SFTP: ${resultado.mensagem}`,
       };
@@ -934,31 +1066,73 @@ export async function executeGetnetCapture(input: GetnetCaptureInput): Promise<G
       };
     }
 
-    // 4. Gerar transacoes
-    const { transactions, totais } = gerarTransacoes(
-      registros, clientId, cycleId, dataMovimento, codigoEstabelecimento
-    );
-    logger.info(`Transacoes geradas: RECEBER=${totais.receber} PAGAR=${totais.pagar} VENDAS=${totais.vendas}`);
+    const conferencia = conferirTrailer(resultado.conteudo, registros);
+    if (conferencia.divergencias.length > 0) {
+      logger.warn(`Arquivo ${nomeArquivo} diverge do trailer`, { divergencias: conferencia.divergencias });
+    }
 
-    // 5. Persistir com idempotencia
+    // 4. Gerar e persistir (idempotente) por estabelecimento
     const existingSourceIds = await getExistingSourceIds(clientId, 'getnet');
-    let result = { created: [] as string[], updated: [] as string[], skipped: [] as string[] };
-    if (transactions.length > 0) {
-      result = await upsertTransactionsIdempotent(transactions, existingSourceIds);
-      logger.info('Transactions persisted (idempotent)', {
-        created: result.created.length, updated: result.updated.length, skipped: result.skipped.length,
+    const porEstabelecimento: GetnetEstabelecimentoResult[] = [];
+
+    for (const grupo of gerarPorEstabelecimento(registros, clientId, cycleId, dataMovimento, estabelecimentos)) {
+      const { codigo, transactions, totais } = grupo;
+      logger.info(`Estabelecimento ${codigo}: RECEBER=${totais.receber} PAGAR=${totais.pagar} VENDAS=${totais.vendas}`);
+
+      let result = { created: [] as string[], updated: [] as string[], skipped: [] as string[] };
+      if (transactions.length > 0) {
+        result = await upsertTransactionsIdempotent(transactions, existingSourceIds);
+      }
+
+      porEstabelecimento.push({
+        codigo,
+        transactions: {
+          total: transactions.length,
+          new: result.created.length,
+          updated: result.updated.length,
+          skipped: result.skipped.length,
+        },
+        receber: totais.receber, pagar: totais.pagar, vendas: totais.vendas,
       });
     }
 
+    const soma = (f: (e: GetnetEstabelecimentoResult) => number) =>
+      porEstabelecimento.reduce((acc, e) => acc + f(e), 0);
+
+    logger.info('Transactions persisted (idempotent)', {
+      estabelecimentos: porEstabelecimento.length,
+      created: soma((e) => e.transactions.new),
+      updated: soma((e) => e.transactions.updated),
+    });
+
+    // 5. Agenda de recebíveis (URs, antecipações e cessões)
+    try {
+      const agenda = montarAgenda(registros, clientId, dataMovimento, nomeArquivo, estabelecimentos);
+      if (agenda.length > 0) await saveRecebiveisAgenda(agenda);
+    } catch (error: any) {
+      logger.warn(`Agenda de recebiveis nao atualizada para ${nomeArquivo}: ${error.message}`);
+    }
+
+    // 6. Controle de arquivos processados (base da checagem de lacunas)
+    await registrarArquivoProcessado({
+      clientId, cycleId, dataMovimento, nomeArquivo, conferencia,
+      origem: input.origem || 'diario',
+      transacoes: soma((e) => e.transactions.total),
+    });
+
     return {
       success: true, source: 'getnet', clientId, cycleId,
       transactions: {
-        total: transactions.length,
-        new: result.created.length,
-        updated: result.updated.length,
-        skipped: result.skipped.length,
+        total: soma((e) => e.transactions.total),
+        new: soma((e) => e.transactions.new),
+        updated: soma((e) => e.transactions.updated),
+        skipped: soma((e) => e.transactions.skipped),
       },
-      receber: totais.receber, pagar: totais.pagar, vendas: totais.vendas,
+      receber: soma((e) => e.receber), pagar: soma((e) => e.pagar), vendas: soma((e) => e.vendas),
+      estabelecimentos: porEstabelecimento,
+      arquivo: nomeArquivo,
+      dataMovimento,
+      conferencia,
       durationMs: Date.now() - startTime,
     };
   } catch (error: any) {
@@ -993,8 +1167,8 @@ app.http('getnet-capture', {
       // Data padrão: hoje
       const dataBusca = startDate || new Date().toISOString().split('T')[0];
 
-      // 1. Conectar e baixar arquivo SFTP
-      const cliente = getGetnetClient();
+      // 1. Conectar (login do tenant) e baixar arquivo SFTP
+      const { cliente, estabelecimentos } = await getTenantGetnet(clientId, codigoEstabelecimento);
       const resultado = await cliente.buscarArquivoPorData(dataBusca);
 
       if (resultado.erro || !resultado.conteudo) {
@@ -1067,10 +1241,14 @@ app.http('getnet-capture', {
         };
       }
 
-      // 6. Gerar transações (lógica unificada para listar e ingerir)
-      const { transactions, totais, resumoBruto } = gerarTransacoes(
-        registros, clientId, cycleId, dataMovimento, codigoEstabelecimento
-      );
+      // 6. Gerar transações por estabelecimento (lógica unificada para listar e ingerir)
+      const grupos = gerarPorEstabelecimento(registros, clientId, cycleId, dataMovimento, estabelecimentos);
+      const transactions = grupos.flatMap((g) => g.transactions);
+      const totais = {
+        receber: grupos.reduce((acc, g) => acc + g.totais.receber, 0),
+        pagar: grupos.reduce((acc, g) => acc + g.totais.pagar, 0),
+        vendas: grupos.reduce((acc, g) => acc + g.totais.vendas, 0),
+      };
 
       logger.info(`Transações geradas: RECEBER=${totais.receber} PAGAR=${totais.pagar} VENDAS=${totais.vendas}`);
 
@@ -1090,7 +1268,8 @@ app.http('getnet-capture', {
               total_linhas: resultado.totalLinhas,
               data_movimento: dataMovimento,
             },
-            resumo: resumoBruto,
+            resumo: grupos.length === 1 ? grupos[0].resumoBruto : undefined,
+            estabelecimentos: grupos.map((g) => ({ codigo: g.codigo, totais: g.totais, resumo: g.resumoBruto })),
             transactions,
             totais,
             durationMs: Date.now() - startTime,
@@ -1112,6 +1291,14 @@ app.http('getnet-capture', {
         });
       }
 
+      // 9. Controle de arquivos (captura manual também fecha lacunas)
+      await registrarArquivoProcessado({
+        clientId, cycleId, dataMovimento, nomeArquivo,
+        origem: 'manual',
+        transacoes: transactions.length,
+        conferencia: conferirTrailer(resultado.conteudo, registros),
+      });
+
       logger.info(`Captura Getnet concluída: RECEBER=${totais.receber} PAGAR=${totais.pagar} VENDAS=${totais.vendas}`);
 
       const response: CaptureResponse = {
@@ -1136,7 +1323,7 @@ app.http('getnet-capture', {
       logger.error('Capture failed', error);
 
       return {
-        status: 500,
+        status: httpStatusFor(error),
         jsonBody: {
           success: false,
           source: 'getnet',
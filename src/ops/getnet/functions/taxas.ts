@@ -0,0 +1,359 @@
+/**
+ * Auditoria de taxas (MDR) - getnet-ops (integrado ao mesh)
+ *
+ * GET  /api/getnet/taxas?clientId=...                                 - Tabelas de taxas contratadas
+ * POST /api/getnet/taxas                                              - Cadastra/substitui tabela (por início de vigência)
+ * GET  /api/getnet/auditoria-taxas?clientId=...&mes=YYYY-MM[&formato=csv] - Cobranças acima do contrato no mês
+ *
+ * Fonte: transações Getnet já capturadas — RVs (rawData = GetnetResumoVendas)
+ * e antecipações (rawData = GetnetAntecipacao). Cada item é conferido com a
+ * tabela vigente na data da venda/antecipação. O CSV é o arquivo de
+ * contestação enviado à adquirente.
+ */
+
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { GetnetResumoVendas, GetnetAntecipacao } from '../adapters/types';
+import { createLogger, nowISO } from '../shared/utils';
+import {
+  getClient,
+  getTransactionsBySource,
+  getTabelasTaxasCartao,
+  saveTabelaTaxasCartao,
+} from '../../../storage/tableClient';
+import { TabelaTaxasCartao, TaxaCartao, Transaction, TransactionType } from '../../../types';
+
+const logger = createLogger('GetnetTaxas');
+
+// Abaixo disso a diferença é arredondamento da adquirente
+const TOLERANCIA_COBRANCA = 0.01;
+
+export interface CobrancaIndevida {
+  tipo: 'mdr' | 'antecipacao';
+  referencia: string; // RV ou número da operação
+  data: string;
+  estabelecimento: string;
+  bandeira: string;
+  produto: string;
+  parcelas: number;
+  valorBruto: number;
+  taxaContratada: number; // % (MDR) ou % a.m. (antecipação)
+  taxaCobrada: number;
+  valorEsperado: number;
+  valorCobrado: number;
+  diferenca: number;
+}
+
+export interface AuditoriaTaxas {
+  clientId: string;
+  mes: string;
+  conferidos: number;
+  semTaxa: number; // itens sem tabela/taxa aplicável
+  cobrancas: CobrancaIndevida[];
+  totalCobradoAMais: number;
+}
+
+function round2(valor: number): number {
+  return Math.round(valor * 100) / 100;
+}
+
+function round4(valor: number): number {
+  return Math.round(valor * 10000) / 10000;
+}
+
+// ============================================================================
+// TAXA CONTRATADA
+// ============================================================================
+
+/** Tabela vigente na data (a de início mais recente até a data) */
+export function tabelaVigente(tabelas: TabelaTaxasCartao[], data: string): TabelaTaxasCartao | null {
+  return [...tabelas]
+    .sort((a, b) => b.vigenciaInicio.localeCompare(a.vigenciaInicio))
+    .find((t) => t.vigenciaInicio <= data) || null;
+}
+
+/** Taxa mais específica: bandeira exata vale mais que '*', produto informado mais que ausente */
+export function encontrarTaxa(
+  taxas: TaxaCartao[],
+  bandeira: string,
+  produto: string,
+  parcelas: number
+): TaxaCartao | null {
+  const candidatas = taxas.filter((t) =>
+    (t.bandeira === '*' || t.bandeira === bandeira)
+    && (!t.produto || t.produto === produto)
+    && parcelas >= t.parcelasDe && parcelas <= t.parcelasAte
+  );
+
+  const peso = (t: TaxaCartao) => (t.bandeira === bandeira ? 2 : 0) + (t.produto ? 1 : 0);
+  return candidatas.sort((a, b) => peso(b) - peso(a))[0] || null;
+}
+
+function validarTabela(body: Partial<TabelaTaxasCartao>): string[] {
+  const errors: string[] = [];
+
+  if (!body.vigenciaInicio || !/^\d{4}-\d{2}-\d{2}$/.test(body.vigenciaInicio)) {
+    errors.push('vigenciaInicio obrigatório (YYYY-MM-DD)');
+  }
+  if (!Array.isArray(body.taxas) || body.taxas.length === 0) {
+    errors.push('taxas deve ter ao menos uma linha');
+  }
+
+  (body.taxas || []).forEach((t, i) => {
+    if (!t.bandeira) errors.push(`taxas[${i}]: bandeira obrigatória ('*' para todas)`);
+    if (!(t.parcelasDe >= 1) || !(t.parcelasAte >= t.parcelasDe)) errors.push(`taxas[${i}]: faixa de parcelas inválida`);
+    if (!(t.mdr >= 0 && t.mdr < 100)) errors.push(`taxas[${i}]: mdr deve ser % entre 0 e 100`);
+  });
+
+  if (body.antecipacaoMensal !== undefined && !(body.antecipacaoMensal >= 0 && body.antecipacaoMensal < 100)) {
+    errors.push('antecipacaoMensal deve ser % entre 0 e 100');
+  }
+
+  return errors;
+}
+
+// ============================================================================
+// AUDITORIA
+// ============================================================================
+
+/**
+ * Confere RVs (MDR = taxa de desconto + taxa de serviço) e antecipações
+ * do mês contra o contrato. Só cobranças acima do contratado viram item.
+ * RV MAN sem par POS (bruto já descontado) não dá para conferir e é ignorado.
+ */
+export function auditarTaxas(
+  clientId: string,
+  mes: string,
+  resumos: GetnetResumoVendas[],
+  antecipacoes: GetnetAntecipacao[],
+  tabelas: TabelaTaxasCartao[]
+): AuditoriaTaxas {
+  const cobrancas: CobrancaIndevida[] = [];
+  let conferidos = 0;
+  let semTaxa = 0;
+
+  for (const rv of resumos) {
+    const data = rv.DataRV;
+    if (!data?.startsWith(mes) || rv.ValorBruto <= 0 || rv.isBrutoDescontado) continue;
+
+    const parcelas = rv.QuantidadeParcelas || 1;
+    const taxa = encontrarTaxa(tabelaVigente(tabelas, data)?.taxas || [], rv.Bandeira, rv.Produto, parcelas);
+    if (!taxa) {
+      semTaxa++;
+      continue;
+    }
+
+    conferidos++;
+    const valorCobrado = round2(rv.ValorTaxaDesconto + rv.ValorTaxaServico);
+    const valorEsperado = round2(rv.ValorBruto * taxa.mdr / 100);
+    const diferenca = round2(valorCobrado - valorEsperado);
+
+    if (diferenca > TOLERANCIA_COBRANCA) {
+      cobrancas.push({
+        tipo: 'mdr',
+        referencia: rv.NumeroRV,
+        data,
+        estabelecimento: rv.CodigoEstabelecimento.trim(),
+        bandeira: rv.Bandeira,
+        produto: rv.Produto,
+        parcelas,
+        valorBruto: rv.ValorBruto,
+        taxaContratada: taxa.mdr,
+        taxaCobrada: round4(valorCobrado / rv.ValorBruto * 100),
+        valorEsperado,
+        valorCobrado,
+        diferenca,
+      });
+    }
+  }
+
+  for (const antecipacao of antecipacoes) {
+    const data = antecipacao.DataAntecipacao;
+    const original = antecipacao.DataOriginalPagamento;
+    if (!data?.startsWith(mes) || !original || antecipacao.ValorBrutoAntecipacao <= 0) continue;
+
+    const taxaMensal = tabelaVigente(tabelas, data)?.antecipacaoMensal;
+    if (taxaMensal === undefined) {
+      semTaxa++;
+      continue;
+    }
+
+    conferidos++;
+    const dias = Math.max(0, Math.round((Date.parse(`${original}T00:00:00Z`) - Date.parse(`${data}T00:00:00Z`)) / 86400000));
+    const valorEsperado = round2(antecipacao.ValorBrutoAntecipacao * taxaMensal / 100 * dias / 30);
+    const valorCobrado = round2(antecipacao.TaxaAntecipacao);
+    const diferenca = round2(valorCobrado - valorEsperado);
+
+    if (diferenca > TOLERANCIA_COBRANCA) {
+      cobrancas.push({
+        tipo: 'antecipacao',
+        referencia: antecipacao.NumeroOperacao,
+        data,
+        estabelecimento: antecipacao.CodigoEstabelecimento.trim(),
+        bandeira: antecipacao.Bandeira,
+        produto: antecipacao.Produto,
+        parcelas: 1,
+        valorBruto: antecipacao.ValorBrutoAntecipacao,
+        taxaContratada: taxaMensal,
+        taxaCobrada: dias > 0 ? round4(valorCobrado / antecipacao.ValorBrutoAntecipacao * 100 * 30 / dias) : 0,
+        valorEsperado,
+        valorCobrado,
+        diferenca,
+      });
+    }
+  }
+
+  return {
+    clientId,
+    mes,
+    conferidos,
+    semTaxa,
+    cobrancas: cobrancas.sort((a, b) => a.data.localeCompare(b.data) || a.referencia.localeCompare(b.referencia)),
+    totalCobradoAMais: round2(cobrancas.reduce((s, c) => s + c.diferenca, 0)),
+  };
+}
+
+/** Arquivo de contestação (CSV ; com decimal em vírgula, abre direto no Excel) */
+export function gerarArquivoContestacao(auditoria: AuditoriaTaxas, cnpj?: string): string {
+  const num = (v: number, casas = 2) => v.toFixed(casas).replace('.', ',');
+  const linhas = [
+    ['tipo', 'referencia', 'data', 'estabelecimento', 'bandeira', 'produto', 'parcelas', 'valor_bruto',
+      'taxa_contratada', 'taxa_cobrada', 'valor_esperado', 'valor_cobrado', 'diferenca'].join(';'),
+    ...auditoria.cobrancas.map((c) => [
+      c.tipo, c.referencia, c.data, c.estabelecimento, c.bandeira, c.produto, c.parcelas,
+      num(c.valorBruto), num(c.taxaContratada, 4), num(c.taxaCobrada, 4),
+      num(c.valorEsperado), num(c.valorCobrado), num(c.diferenca),
+    ].join(';')),
+    `TOTAL;${auditoria.cobrancas.length};${auditoria.mes};${cnpj || ''};;;;;;;;;${num(auditoria.totalCobradoAMais)}`,
+  ];
+  return linhas.join('\r\n') + '\r\n';
+}
+
+/** Registros Getnet guardados no rawData das transações capturadas */
+function registrosDoMes(transacoes: Transaction[]) {
+  const resumos: GetnetResumoVendas[] = [];
+  const antecipacoes = new Map<string, GetnetAntecipacao>();
+
+  for (const tx of transacoes) {
+    const tipo = tx.metadata?.tipo_registro;
+    if (tipo === 'resumo_venda_receber' && tx.rawData) {
+      resumos.push(tx.rawData as unknown as GetnetResumoVendas);
+    } else if ((tipo === 'antecipacao_receber' || tipo === 'antecipacao_taxa') && tx.rawData) {
+      // Receber e taxa carregam o mesmo registro: um por operação
+      const antecipacao = tx.rawData as unknown as GetnetAntecipacao;
+      antecipacoes.set(antecipacao.NumeroOperacao, antecipacao);
+    }
+  }
+
+  return { resumos, antecipacoes: [...antecipacoes.values()] };
+}
+
+export async function executarAuditoriaTaxas(clientId: string, mes: string): Promise<AuditoriaTaxas> {
+  const [receber, pagar, tabelas] = await Promise.all([
+    getTransactionsBySource(clientId, 'getnet', TransactionType.RECEBER),
+    getTransactionsBySource(clientId, 'getnet', TransactionType.PAGAR),
+    getTabelasTaxasCartao(clientId),
+  ]);
+
+  const { resumos, antecipacoes } = registrosDoMes([...receber, ...pagar]);
+  const auditoria = auditarTaxas(clientId, mes, resumos, antecipacoes, tabelas);
+
+  logger.info(`Auditoria de taxas ${clientId} ${mes}`, {
+    conferidos: auditoria.conferidos,
+    cobrancas: auditoria.cobrancas.length,
+    total: auditoria.totalCobradoAMais,
+  });
+
+  return auditoria;
+}
+
+// ============================================================================
+// HTTP HANDLERS
+// ============================================================================
+
+app.http('getnet-taxas-list', {
+  methods: ['GET'],
+  authLevel: 'function',
+  route: 'getnet/taxas',
+  handler: async (req: HttpRequest, ctx: InvocationContext): Promise<HttpResponseInit> => {
+    const clientId = req.query.get('clientId');
+    if (!clientId) {
+      return { status: 400, jsonBody: { success: false, error: 'clientId é obrigatório' } };
+    }
+
+    try {
+      const tabelas = await getTabelasTaxasCartao(clientId);
+      return { status: 200, jsonBody: { clientId, total: tabelas.length, tabelas } };
+    } catch (error: any) {
+      logger.error('Erro ao listar tabelas de taxas', error);
+      return { status: 500, jsonBody: { error: 'Erro ao listar tabelas de taxas' } };
+    }
+  },
+});
+
+app.http('getnet-taxas-save', {
+  methods: ['POST'],
+  authLevel: 'function',
+  route: 'getnet/taxas',
+  handler: async (req: HttpRequest, ctx: InvocationContext): Promise<HttpResponseInit> => {
+    try {
+      const body = (await req.json()) as Partial<TabelaTaxasCartao>;
+      if (!body.clientId) {
+        return { status: 400, jsonBody: { success: false, error: 'clientId é obrigatório' } };
+      }
+
+      const errors = validarTabela(body);
+      if (errors.length > 0) {
+        return { status: 400, jsonBody: { success: false, error: 'Tabela de taxas inválida', errors } };
+      }
+
+      const tabela: TabelaTaxasCartao = {
+        clientId: body.clientId,
+        vigenciaInicio: body.vigenciaInicio!,
+        taxas: body.taxas!,
+        antecipacaoMensal: body.antecipacaoMensal,
+        observacao: body.observacao,
+        atualizadoEm: nowISO(),
+      };
+      await saveTabelaTaxasCartao(tabela);
+
+      return { status: 200, jsonBody: { success: true, tabela } };
+    } catch (error: any) {
+      logger.error('Erro ao salvar tabela de taxas', error);
+      return { status: 500, jsonBody: { success: false, error: error.message } };
+    }
+  },
+});
+
+app.http('getnet-auditoria-taxas', {
+  methods: ['GET'],
+  authLevel: 'function',
+  route: 'getnet/auditoria-taxas',
+  handler: async (req: HttpRequest, ctx: InvocationContext): Promise<HttpResponseInit> => {
+    const clientId = req.query.get('clientId');
+    const mes = req.query.get('mes') || '';
+    if (!clientId || !/^\d{4}-(0[1-9]|1[0-2])$/.test(mes)) {
+      return { status: 400, jsonBody: { success: false, error: 'clientId e mes (YYYY-MM) são obrigatórios' } };
+    }
+
+    try {
+      const auditoria = await executarAuditoriaTaxas(clientId, mes);
+
+      if (req.query.get('formato') === 'csv') {
+        const client = await getClient(clientId);
+        return {
+          status: 200,
+          headers: {
+            'Content-Type': 'text/csv; charset=utf-8',
+            'Content-Disposition': `attachment; filename="contestacao-taxas-${clientId}-${mes}.csv"`,
+          },
+          body: gerarArquivoContestacao(auditoria, client?.cnpj),
+        };
+      }
+
+      return { status: 200, jsonBody: auditoria };
+    } catch (error: any) {
+      logger.error('Erro na auditoria de taxas', error);
+      return { status: 500, jsonBody: { error: 'Erro na auditoria de taxas' } };
+    }
+  },
+});
@@ -17,9 +17,13 @@
  *   3 - Ajuste financeiro (chargeback, cancelamento)
  *   4 - Antecipação de recebíveis
  *   5 - Cessão/negociação (CS/CL)
- *   6 - Unidade de recebível (UR) - apenas informativo
+ *   6 - Unidade de recebível (UR) - agenda de recebíveis (functions/agenda)
  *   9 - Trailer (totais)
  *
+ * Controle de arquivos: cada data ingerida fica em OperacaoGetnetArquivos
+ * com os totais do trailer; backfill e checagem de lacunas em functions/backfill.
+ * Taxas cobradas (MDR/antecipação) são auditadas contra o contrato em functions/taxas.
+ *
  * Rotas: /api/getnet/*
  * Env vars: GETNET_USER, GETNET_PASS
  */
@@ -27,5 +31,8 @@
 // Functions
 import './functions/health';
 import './functions/capture';
+import './functions/backfill';
+import './functions/agenda';
+import './functions/taxas';
 
 console.log('[mesh:getnet-ops] Functions registered');
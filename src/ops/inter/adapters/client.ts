@@ -13,6 +13,7 @@
  * - Saldo → consulta
  */
 
+import * as crypto from 'crypto';
 import * as https from 'https';
 import * as fs from 'fs';
 import * as os from 'os';
@@ -32,6 +33,7 @@ import {
   PIXCreateParams,
   BoletoListParams,
   BoletoPagamentoParams,
+  InterPagamentoStatus,
   ComprovanteListParams,
   ExtratoParams,
 } from './types';
@@ -210,7 +212,8 @@ export class InterClient {
     endpoint: string,
     method: 'GET' | 'POST' | 'PUT' | 'DELETE' = 'GET',
     params?: Record<string, string | number | undefined>,
-    body?: unknown
+    body?: unknown,
+    extraHeaders?: Record<string, string>
   ): Promise<T> {
     const token = await this.getToken();
 
@@ -240,6 +243,8 @@ export class InterClient {
       headers['x-conta-corrente'] = this.config.contaCorrente;
     }
 
+    Object.assign(headers, extraHeaders);
+
     return withRetry(
       async () => {
         const res = await fetch(url, {
@@ -327,8 +332,12 @@ export class InterClient {
     }
   }
 
-  async createPIX(data: PIXCreateParams): Promise<InterPIX | null> {
-    logger.info('Creating PIX payment', { valor: data.valor, chave: data.chave });
+  /**
+   * Cria pagamento PIX. idempotencyKey vai no header x-id-idempotente:
+   * o Inter devolve a mesma solicitação se a chave já foi usada.
+   */
+  async createPIX(data: PIXCreateParams, idempotencyKey?: string): Promise<InterPIX | null> {
+    logger.info('Creating PIX payment', { valor: data.valor, chave: data.chave, idempotencyKey });
 
     try {
       return await this.request<InterPIX>(
@@ -337,12 +346,14 @@ export class InterClient {
         undefined,
         {
           valor: String(data.valor),
+          dataPagamento: data.dataPagamento,
           destinatario: {
             tipo: 'CHAVE',
             chave: data.chave,
           },
           descricao: data.descricao || 'Pagamento PIX',
-        }
+        },
+        idempotencyKey ? { 'x-id-idempotente': idempotencyKey } : undefined
       );
     } catch (error) {
       logger.error('Failed to create PIX', error);
@@ -350,6 +361,26 @@ export class InterClient {
     }
   }
 
+  async getPIXPagamento(codigoSolicitacao: string): Promise<InterPagamentoStatus | null> {
+    logger.info('Getting PIX payment', { codigoSolicitacao });
+
+    try {
+      const response = await this.request<{ transacaoPix?: { status?: string; dataHoraMovimento?: string; endToEnd?: string } }>(
+        `/banking/v2/pix/${codigoSolicitacao}`
+      );
+
+      return {
+        codigo: codigoSolicitacao,
+        status: response?.transacaoPix?.status || 'DESCONHECIDO',
+        dataPagamento: response?.transacaoPix?.dataHoraMovimento?.split('T')[0],
+        comprovanteId: response?.transacaoPix?.endToEnd,
+      };
+    } catch (error) {
+      logger.error('Failed to get PIX payment', error);
+      return null;
+    }
+  }
+
   // ============================================================================
   // BOLETOS
   // ============================================================================
@@ -395,10 +426,14 @@ export class InterClient {
     }
   }
 
-  async payBoleto(data: BoletoPagamentoParams): Promise<{ codigoTransacao: string; status: string } | null> {
+  async payBoleto(
+    data: BoletoPagamentoParams,
+    idempotencyKey?: string
+  ): Promise<{ codigoTransacao: string; status: string } | null> {
     logger.info('Paying boleto', {
       barCode: data.codBarraLinhaDigitavel?.substring(0, 10) + '...',
       valor: data.valorPagar,
+      idempotencyKey,
     });
 
     try {
@@ -411,7 +446,8 @@ export class InterClient {
           valorPagar: data.valorPagar,
           dataPagamento: data.dataPagamento || new Date().toISOString().split('T')[0],
           dataVencimento: data.dataVencimento,
-        }
+        },
+        idempotencyKey ? { 'x-id-idempotente': idempotencyKey } : undefined
       );
     } catch (error) {
       logger.error('Failed to pay boleto', error);
@@ -419,6 +455,31 @@ export class InterClient {
     }
   }
 
+  async getPagamentoBoleto(codigoTransacao: string): Promise<InterPagamentoStatus | null> {
+    logger.info('Getting boleto payment', { codigoTransacao });
+
+    try {
+      const response = await this.request<Array<{ codigoTransacao: string; statusPagamento?: string; dataPagamento?: string }>>(
+        '/banking/v2/pagamento',
+        'GET',
+        { codigoTransacao }
+      );
+
+      const pagamento = this.extractContent(response).find((p) => p.codigoTransacao === codigoTransacao);
+      if (!pagamento) return null;
+
+      return {
+        codigo: codigoTransacao,
+        status: pagamento.statusPagamento || 'DESCONHECIDO',
+        dataPagamento: pagamento.dataPagamento,
+        comprovanteId: codigoTransacao,
+      };
+    } catch (error) {
+      logger.error('Failed to get boleto payment', error);
+      return null;
+    }
+  }
+
   // ============================================================================
   // COMPROVANTES
   // ============================================================================
@@ -590,9 +651,36 @@ export function getInterClient(): InterClient {
   return clientInstance;
 }
 
+// Um cliente por conta: evita regravar os certificados mTLS a cada request
+const tenantInstances = new Map<string, InterClient>();
+
+/**
+ * Cria (ou reaproveita) InterClient a partir de credenciais per-client.
+ * A chave inclui secret e certificado: rotacionados, nasce outro cliente.
+ */
+export function getInterClientForTenant(config: InterConfig): InterClient {
+  if (!config.clientId || !config.clientSecret) {
+    throw new Error('Inter clientId and clientSecret are required');
+  }
+
+  const key = crypto
+    .createHash('sha256')
+    .update([config.clientId, config.clientSecret, config.contaCorrente, config.certBase64, config.environment].join('|'))
+    .digest('hex');
+
+  let client = tenantInstances.get(key);
+  if (!client) {
+    client = new InterClient(config);
+    tenantInstances.set(key, client);
+  }
+  return client;
+}
+
 export function resetInterClient(): void {
   if (clientInstance) {
     clientInstance.cleanup();
     clientInstance = null;
   }
+  tenantInstances.forEach((client) => client.cleanup());
+  tenantInstances.clear();
 }
@@ -0,0 +1,34 @@
+/**
+ * InterClient por cliente do mesh
+ *
+ * Login e conta do ClientConfig (interClientId/interContaCorrente), secret
+ * e certificado mTLS do Key Vault do tenant (resolveInterCredentials).
+ * Sem clientId: 400; cliente desconhecido: 404. As env vars globais só
+ * valem no modo single-tenant (OPS_SINGLE_TENANT=true).
+ */
+
+import { getInterClient, getInterClientForTenant, InterClient } from './client';
+import { createLogger } from '../shared/utils';
+import { getClientById } from '../../shared/storage/clientStorage';
+import { isSingleTenantMode, TenantResolutionError } from '../../shared/tenant';
+import { resolveInterCredentials } from '../../../infra/credentialResolver';
+
+const logger = createLogger('InterTenant');
+
+export async function resolveInterClient(clientId?: string): Promise<InterClient> {
+  const clientData = clientId ? await getClientById(clientId) : null;
+
+  if (clientData) {
+    const creds = await resolveInterCredentials(clientData.config, clientData.tenantId);
+    logger.info('Using per-client Inter credentials', { clientId });
+    return getInterClientForTenant(creds);
+  }
+
+  if (!isSingleTenantMode()) {
+    if (!clientId) throw new TenantResolutionError('clientId é obrigatório', 400);
+    throw new TenantResolutionError(`Cliente ${clientId} não encontrado`, 404);
+  }
+
+  logger.info('Using global Inter credentials (single-tenant)', { clientId });
+  return getInterClient();
+}
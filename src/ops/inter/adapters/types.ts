@@ -77,6 +77,8 @@ export interface DDAListParams {
 // ============================================================================
 
 export interface InterPIX {
+  codigoSolicitacao?: string; // retornado na criação de pagamento
+  tipoRetorno?: string; // PROCESSADO | AGENDADO | APROVACAO
   endToEndId?: string;
   txid?: string;
   valor: string;
@@ -111,6 +113,7 @@ export interface PIXCreateParams {
   valor: number;
   chave: string;
   descricao?: string;
+  dataPagamento?: string; // YYYY-MM-DD (agendamento)
   pagador?: {
     cpf?: string;
     cnpj?: string;
@@ -175,6 +178,14 @@ export interface BoletoPagamentoParams {
   dataVencimento?: string;
 }
 
+/** Situação de um pagamento (PIX ou boleto) consultado após o envio */
+export interface InterPagamentoStatus {
+  codigo: string;
+  status: string; // ex: AGUARDANDO_APROVACAO, AGENDADO, PAGO/REALIZADO/EFETIVADO, CANCELADO, FALHA
+  dataPagamento?: string;
+  comprovanteId?: string;
+}
+
 // ============================================================================
 // COMPROVANTES
 // ============================================================================
@@ -7,9 +7,10 @@
  */
 
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
-import { getInterClient } from '../adapters/client';
+import { resolveInterClient } from '../adapters/tenant';
 import { BoletoListParams, BoletoPagamentoParams } from '../adapters/types';
 import { createLogger } from '../shared/utils';
+import { httpStatusFor } from '../../shared/tenant';
 
 const logger = createLogger('InterBoletos');
 
@@ -26,7 +27,7 @@ app.http('inter-boletos-list', {
 
       logger.info('Listing boletos', { dataInicial, dataFinal, situacao });
 
-      const client = getInterClient();
+      const client = await resolveInterClient(req.query.get('clientId') || undefined);
       const boletos = await client.listBoletos({ dataInicial, dataFinal, situacao });
 
       return {
@@ -40,7 +41,7 @@ app.http('inter-boletos-list', {
       logger.error('Failed to list boletos', error);
 
       return {
-        status: 500,
+        status: httpStatusFor(error),
         jsonBody: { error: error instanceof Error ? error.message : String(error) },
       };
     }
@@ -65,7 +66,7 @@ app.http('inter-boletos-detail', {
 
       logger.info('Getting boleto detail', { nossoNumero });
 
-      const client = getInterClient();
+      const client = await resolveInterClient(req.query.get('clientId') || undefined);
       const boleto = await client.getBoleto(nossoNumero);
 
       if (!boleto) {
@@ -83,7 +84,7 @@ app.http('inter-boletos-detail', {
       logger.error('Failed to get boleto detail', error);
 
       return {
-        status: 500,
+        status: httpStatusFor(error),
         jsonBody: { error: error instanceof Error ? error.message : String(error) },
       };
     }
@@ -97,8 +98,8 @@ app.http('inter-boletos-pay', {
   route: 'inter/boletos/pay',
   handler: async (req: HttpRequest, ctx: InvocationContext): Promise<HttpResponseInit> => {
     try {
-      const body = (await req.json()) as BoletoPagamentoParams;
-      const { codBarraLinhaDigitavel, valorPagar } = body;
+      const { clientId, ...pagamento } = (await req.json()) as BoletoPagamentoParams & { clientId?: string };
+      const { codBarraLinhaDigitavel, valorPagar } = pagamento;
 
       if (!codBarraLinhaDigitavel) {
         return {
@@ -112,8 +113,8 @@ app.http('inter-boletos-pay', {
         valor: valorPagar,
       });
 
-      const client = getInterClient();
-      const result = await client.payBoleto(body);
+      const client = await resolveInterClient(clientId);
+      const result = await client.payBoleto(pagamento);
 
       if (!result) {
         return {
@@ -130,7 +131,7 @@ app.http('inter-boletos-pay', {
       logger.error('Failed to pay boleto', error);
 
       return {
-        status: 500,
+        status: httpStatusFor(error),
         jsonBody: {
           success: false,
           error: error instanceof Error ? error.message : String(error),
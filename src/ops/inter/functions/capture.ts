@@ -6,9 +6,10 @@
 
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
 import * as crypto from 'crypto';
-import { getInterClient } from '../adapters/client';
+import { resolveInterClient } from '../adapters/tenant';
 import { CaptureRequest, CaptureResponse, InterDDA, InterPIX, InterBoleto } from '../adapters/types';
 import { createLogger, nowISO } from '../shared/utils';
+import { httpStatusFor } from '../../shared/tenant';
 import { getExistingSourceIds, upsertTransactionsIdempotent } from '../../../storage/tableClient';
 import { Transaction, TransactionType, TransactionSource, TransactionStatus } from '../../../types';
 
@@ -117,7 +118,7 @@ app.http('inter-capture', {
           return d.toISOString().split('T')[0];
         })();
 
-      const client = getInterClient();
+      const client = await resolveInterClient(clientId);
 
       // Buscar transações existentes para idempotência
       const existingSourceIds = await getExistingSourceIds(clientId, 'inter');
@@ -227,7 +228,7 @@ app.http('inter-capture', {
       logger.error('Capture failed', error);
 
       return {
-        status: 500,
+        status: httpStatusFor(error),
         jsonBody: {
           success: false,
           source: 'inter',
@@ -5,9 +5,10 @@
  */
 
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
-import { getInterClient } from '../adapters/client';
+import { resolveInterClient } from '../adapters/tenant';
 import { DDAListParams } from '../adapters/types';
 import { createLogger } from '../shared/utils';
+import { httpStatusFor } from '../../shared/tenant';
 
 const logger = createLogger('InterDDA');
 
@@ -29,7 +30,7 @@ app.http('inter-dda-list', {
         situacao,
       };
 
-      const client = getInterClient();
+      const client = await resolveInterClient(req.query.get('clientId') || undefined);
       const boletos = await client.listDDA(params);
 
       return {
@@ -43,7 +44,7 @@ app.http('inter-dda-list', {
       logger.error('Failed to list DDA boletos', error);
 
       return {
-        status: 500,
+        status: httpStatusFor(error),
         jsonBody: { error: error instanceof Error ? error.message : String(error) },
       };
     }
@@ -8,8 +8,9 @@
  */
 
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
-import { getInterClient } from '../adapters/client';
+import { resolveInterClient } from '../adapters/tenant';
 import { createLogger } from '../shared/utils';
+import { httpStatusFor } from '../../shared/tenant';
 
 const logger = createLogger('InterExtrato');
 
@@ -32,7 +33,7 @@ app.http('inter-extrato', {
 
       logger.info('Getting extrato', { dataInicio, dataFim });
 
-      const client = getInterClient();
+      const client = await resolveInterClient(req.query.get('clientId') || undefined);
       const extrato = await client.getExtrato({ dataInicio, dataFim });
 
       return {
@@ -47,7 +48,7 @@ app.http('inter-extrato', {
       logger.error('Failed to get extrato', error);
 
       return {
-        status: 500,
+        status: httpStatusFor(error),
         jsonBody: { error: error instanceof Error ? error.message : String(error) },
       };
     }
@@ -63,7 +64,7 @@ app.http('inter-saldo', {
     try {
       logger.info('Getting saldo');
 
-      const client = getInterClient();
+      const client = await resolveInterClient(req.query.get('clientId') || undefined);
       const saldo = await client.getSaldo();
 
       if (!saldo) {
@@ -84,7 +85,7 @@ app.http('inter-saldo', {
       logger.error('Failed to get saldo', error);
 
       return {
-        status: 500,
+        status: httpStatusFor(error),
         jsonBody: { error: error instanceof Error ? error.message : String(error) },
       };
     }
@@ -104,7 +105,7 @@ app.http('inter-comprovantes-list', {
 
       logger.info('Listing comprovantes', { dataInicio, dataFim });
 
-      const client = getInterClient();
+      const client = await resolveInterClient(req.query.get('clientId') || undefined);
       const comprovantes = await client.listComprovantes({
         dataInicio,
         dataFim,
@@ -122,7 +123,7 @@ app.http('inter-comprovantes-list', {
       logger.error('Failed to list comprovantes', error);
 
       return {
-        status: 500,
+        status: httpStatusFor(error),
         jsonBody: { error: error instanceof Error ? error.message : String(error) },
       };
     }
@@ -147,7 +148,7 @@ app.http('inter-comprovantes-pdf', {
 
       logger.info('Getting comprovante PDF', { idTransacao });
 
-      const client = getInterClient();
+      const client = await resolveInterClient(req.query.get('clientId') || undefined);
       const result = await client.getComprovantePDF(idTransacao);
 
       if (!result?.pdfBase64) {
@@ -168,7 +169,7 @@ app.http('inter-comprovantes-pdf', {
       logger.error('Failed to get comprovante PDF', error);
 
       return {
-        status: 500,
+        status: httpStatusFor(error),
         jsonBody: { error: error instanceof Error ? error.message : String(error) },
       };
     }
@@ -6,9 +6,10 @@
  */
 
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
-import { getInterClient } from '../adapters/client';
+import { resolveInterClient } from '../adapters/tenant';
 import { PIXCreateParams } from '../adapters/types';
 import { createLogger } from '../shared/utils';
+import { httpStatusFor } from '../../shared/tenant';
 
 const logger = createLogger('InterPIX');
 
@@ -26,7 +27,7 @@ app.http('inter-pix-list', {
 
       logger.info('Listing PIX', { dataInicio, dataFim });
 
-      const client = getInterClient();
+      const client = await resolveInterClient(req.query.get('clientId') || undefined);
       const pix = await client.listPIX({ dataInicio, dataFim });
 
       return {
@@ -40,7 +41,7 @@ app.http('inter-pix-list', {
       logger.error('Failed to list PIX', error);
 
       return {
-        status: 500,
+        status: httpStatusFor(error),
         jsonBody: { error: error instanceof Error ? error.message : String(error) },
       };
     }
@@ -54,8 +55,8 @@ app.http('inter-pix-pay', {
   route: 'inter/pix/pay',
   handler: async (req: HttpRequest, ctx: InvocationContext): Promise<HttpResponseInit> => {
     try {
-      const body = (await req.json()) as PIXCreateParams;
-      const { valor, chave, descricao } = body;
+      const body = (await req.json()) as PIXCreateParams & { clientId?: string };
+      const { clientId, valor, chave, descricao } = body;
 
       if (!valor || !chave) {
         return {
@@ -66,7 +67,7 @@ app.http('inter-pix-pay', {
 
       logger.info('Creating PIX payment', { valor, chave });
 
-      const client = getInterClient();
+      const client = await resolveInterClient(clientId);
       const result = await client.createPIX({ valor, chave, descricao });
 
       if (!result) {
@@ -84,7 +85,7 @@ app.http('inter-pix-pay', {
       logger.error('Failed to create PIX payment', error);
 
       return {
-        status: 500,
+        status: httpStatusFor(error),
         jsonBody: {
           success: false,
           error: error instanceof Error ? error.message : String(error),
@@ -9,6 +9,8 @@
  * - Comprovantes (extração) → wf-extrato
  * - Extrato bancário → wf-extrato
  * - Saldo
+ *
+ * Credenciais: clientId (body ou query) → resolveInterCredentials; sem ele, env INTER_*
  */
 
 // Functions
@@ -131,6 +131,23 @@ export class NiboClient {
     return results[0] || null;
   }
 
+  /** Escrita sem retry: propaga o erro (um POST repetido pode duplicar) */
+  private async send<T>(endpoint: string, method: 'POST' | 'PUT', data: unknown): Promise<T> {
+    const res = await fetch(`${this.baseUrl}${endpoint}`, {
+      method,
+      headers: this.headers,
+      body: JSON.stringify(data),
+    });
+
+    if (!res.ok) {
+      const error = await res.text();
+      throw new Error(`Nibo API error ${res.status}: ${error}`);
+    }
+
+    const text = await res.text();
+    return (text ? JSON.parse(text) : null) as T;
+  }
+
   private async getAccountId(): Promise<string | null> {
     if (this.cachedAccountId) {
       return this.cachedAccountId;
@@ -319,15 +336,21 @@ export class NiboClient {
   async markAsPaid(
     scheduleId: string,
     paidDate: string,
-    paidValue: number
+    paidValue: number,
+    options: { accountId?: string; interest?: number; discount?: number; notes?: string } = {}
   ): Promise<boolean> {
     try {
-      await this.request(`/schedules/${scheduleId}/pay`, 'POST', undefined, {
+      await this.send(`/schedules/${scheduleId}/pay`, 'POST', {
         paymentDate: paidDate,
         value: paidValue,
+        accountId: options.accountId,
+        interest: options.interest || undefined,
+        discount: options.discount || undefined,
+        notes: options.notes,
       });
       return true;
-    } catch {
+    } catch (error) {
+      logger.error(`Payment failed: schedule ${scheduleId}`, error);
       return false;
     }
   }
@@ -717,6 +740,24 @@ export function getNiboClient(): NiboClient {
   return clientInstance;
 }
 
+// Um cliente por token: mantém o accountId em cache entre requests
+const tenantInstances = new Map<string, NiboClient>();
+
+/** NiboClient a partir do token do cliente (resolveNiboCredentials) */
+export function getNiboClientForTenant(apiToken: string): NiboClient {
+  if (!apiToken) {
+    throw new Error('Nibo apiToken is required');
+  }
+
+  let client = tenantInstances.get(apiToken);
+  if (!client) {
+    client = new NiboClient(apiToken);
+    tenantInstances.set(apiToken, client);
+  }
+  return client;
+}
+
 export function resetNiboClient(): void {
   clientInstance = null;
+  tenantInstances.clear();
 }
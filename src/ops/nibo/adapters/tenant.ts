@@ -0,0 +1,34 @@
+/**
+ * NiboClient por cliente do mesh
+ *
+ * Token resolvido por resolveNiboCredentials (Key Vault do tenant, depois
+ * ClientConfig.niboApiKey e NIBO_API_KEY). Sem clientId: 400; cliente
+ * desconhecido: 404. As env vars globais só valem no modo single-tenant
+ * (OPS_SINGLE_TENANT=true).
+ */
+
+import { getNiboClient, getNiboClientForTenant, NiboClient } from './client';
+import { createLogger } from '../shared/utils';
+import { getClientById } from '../../shared/storage/clientStorage';
+import { isSingleTenantMode, TenantResolutionError } from '../../shared/tenant';
+import { resolveNiboCredentials } from '../../../infra/credentialResolver';
+
+const logger = createLogger('NiboTenant');
+
+export async function resolveNiboClient(clientId?: string): Promise<NiboClient> {
+  const clientData = clientId ? await getClientById(clientId) : null;
+
+  if (clientData) {
+    const creds = await resolveNiboCredentials(clientData.config, clientData.tenantId);
+    logger.info('Using per-client Nibo credentials', { clientId });
+    return getNiboClientForTenant(creds.apiToken);
+  }
+
+  if (!isSingleTenantMode()) {
+    if (!clientId) throw new TenantResolutionError('clientId é obrigatório', 400);
+    throw new TenantResolutionError(`Cliente ${clientId} não encontrado`, 404);
+  }
+
+  logger.info('Using global Nibo credentials (single-tenant)', { clientId });
+  return getNiboClient();
+}
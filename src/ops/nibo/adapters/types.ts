@@ -336,6 +336,28 @@ export interface SyncResponse {
   error?: string;
 }
 
+/** Baixa de um previsto conciliado com o extrato */
+export interface BaixaRequest {
+  transactionId: string; // previsto no mesh
+  clientId: string;
+  externalId: string; // scheduleId
+  tipo: 'pagar' | 'receber';
+  dataPagamento: string; // YYYY-MM-DD (data real no banco)
+  valorPago: number; // total no extrato = valorPrevisto + juros - desconto
+  valorPrevisto: number; // base da baixa
+  juros: number;
+  desconto: number;
+  banco: string; // fonte do realizado: santander, inter, getnet
+  contaBancaria?: string; // accountId no Nibo (ClientConfig.contasErp)
+  realizadoId?: string;
+}
+
+export interface BaixaResponse {
+  success: boolean;
+  baixaId?: string;
+  error?: string;
+}
+
 // ============================================================================
 // CONNECTION TEST
 // ============================================================================
@@ -0,0 +1,93 @@
+/**
+ * Baixa - nibo-ops (integrado ao mesh)
+ *
+ * POST /api/nibo/baixa - Marca o agendamento como pago/recebido com o realizado do banco
+ *
+ * Data do extrato e valor do previsto; a diferença para o extrato vai
+ * como juros ou desconto. Sem conta no cadastro do cliente, usa a conta do
+ * Nibo cujo nome/banco contém o banco do realizado (ou a padrão do Nibo).
+ *
+ * Idempotente: agendamento já pago no Nibo não recebe nova baixa.
+ */
+
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { NiboClient } from '../adapters/client';
+import { resolveNiboClient } from '../adapters/tenant';
+import { BaixaRequest, BaixaResponse } from '../adapters/types';
+import { createLogger } from '../shared/utils';
+import { httpStatusFor } from '../../shared/tenant';
+
+const logger = createLogger('NiboBaixa');
+
+async function resolveAccountId(client: NiboClient, req: BaixaRequest): Promise<string | undefined> {
+  if (req.contaBancaria) return req.contaBancaria;
+
+  const banco = (req.banco || '').toLowerCase();
+  if (!banco) return undefined;
+
+  const conta = (await client.getAccounts()).find((a) =>
+    `${a.bankName || ''} ${a.name || ''}`.toLowerCase().includes(banco)
+  );
+  return conta?.id;
+}
+
+app.http('nibo-baixa', {
+  methods: ['POST'],
+  authLevel: 'function',
+  route: 'nibo/baixa',
+  handler: async (req: HttpRequest, ctx: InvocationContext): Promise<HttpResponseInit> => {
+    try {
+      const body = (await req.json()) as BaixaRequest;
+      const { transactionId, clientId, externalId, tipo, dataPagamento, valorPago, valorPrevisto, juros, desconto, realizadoId } = body;
+
+      if (!transactionId || !clientId || !externalId) {
+        return {
+          status: 400,
+          jsonBody: { success: false, error: 'transactionId, clientId e externalId são obrigatórios' },
+        };
+      }
+      if (!dataPagamento || !(valorPrevisto > 0)) {
+        return { status: 200, jsonBody: { success: false, error: 'Baixa sem data ou valor' } };
+      }
+
+      logger.info('Starting baixa', { transactionId, tipo, externalId, valorPago });
+
+      const client = await resolveNiboClient(clientId);
+
+      const agendamento = await client.getScheduleById(externalId);
+      if (!agendamento) {
+        return { status: 200, jsonBody: { success: false, error: `Agendamento ${externalId} não encontrado no Nibo` } };
+      }
+      if (agendamento.isPaid) {
+        logger.info('Schedule already paid; baixa skipped', { transactionId, externalId });
+        const response: BaixaResponse = { success: true, baixaId: externalId };
+        return { status: 200, jsonBody: response };
+      }
+
+      const accountId = await resolveAccountId(client, body);
+
+      const paid = await client.markAsPaid(externalId, dataPagamento.substring(0, 10), valorPrevisto, {
+        accountId,
+        interest: juros,
+        discount: desconto,
+        notes: realizadoId ? `Conciliado pelo mesh com ${realizadoId}` : undefined,
+      });
+
+      if (!paid) {
+        throw new Error(`Nibo não registrou a baixa do agendamento ${externalId}`);
+      }
+
+      const response: BaixaResponse = { success: true, baixaId: externalId };
+      logger.info('Baixa registered', { transactionId, externalId, accountId });
+
+      return { status: 200, jsonBody: response };
+    } catch (error: any) {
+      logger.error('Baixa failed', error);
+
+      return {
+        status: httpStatusFor(error),
+        jsonBody: { success: false, error: error.message },
+      };
+    }
+  },
+});
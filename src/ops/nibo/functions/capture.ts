@@ -6,9 +6,10 @@
 
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
 import * as crypto from 'crypto';
-import { getNiboClient } from '../adapters/client';
+import { resolveNiboClient } from '../adapters/tenant';
 import { CaptureRequest, CaptureResponse, NiboPayable, NiboReceivable } from '../adapters/types';
 import { createLogger, nowISO } from '../shared/utils';
+import { httpStatusFor } from '../../shared/tenant';
 import { getExistingSourceIds, upsertTransactionsIdempotent } from '../../../storage/tableClient';
 import { Transaction, TransactionType, TransactionSource, TransactionStatus } from '../../../types';
 
@@ -89,7 +90,7 @@ app.http('nibo-capture', {
         return d.toISOString().split('T')[0];
       })();
 
-      const client = getNiboClient();
+      const client = await resolveNiboClient(clientId);
 
       // Buscar transações existentes para idempotência
       const existingSourceIds = await getExistingSourceIds(clientId, 'nibo');
@@ -144,7 +145,7 @@ app.http('nibo-capture', {
       logger.error('Capture failed', error);
 
       return {
-        status: 500,
+        status: httpStatusFor(error),
         jsonBody: {
           success: false,
           source: 'nibo',
@@ -5,8 +5,9 @@
  */
 
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
-import { getNiboClient } from '../adapters/client';
+import { resolveNiboClient } from '../adapters/tenant';
 import { createLogger } from '../shared/utils';
+import { httpStatusFor } from '../../shared/tenant';
 
 const logger = createLogger('NiboCategories');
 
@@ -16,7 +17,7 @@ app.http('nibo-categories', {
   route: 'nibo/categories',
   handler: async (req: HttpRequest, ctx: InvocationContext): Promise<HttpResponseInit> => {
     try {
-      const client = getNiboClient();
+      const client = await resolveNiboClient(req.query.get('clientId') || undefined);
       const categories = await client.getCategories();
 
       return {
@@ -30,7 +31,7 @@ app.http('nibo-categories', {
       logger.error('Failed to get categories', error);
 
       return {
-        status: 500,
+        status: httpStatusFor(error),
         jsonBody: { error: error.message },
       };
     }
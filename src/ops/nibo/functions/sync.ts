@@ -5,9 +5,10 @@
  */
 
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
-import { getNiboClient } from '../adapters/client';
+import { resolveNiboClient } from '../adapters/tenant';
 import { SyncRequest, SyncResponse } from '../adapters/types';
 import { createLogger } from '../shared/utils';
+import { httpStatusFor } from '../../shared/tenant';
 import { updateTransaction } from '../../../storage/tableClient';
 
 const logger = createLogger('NiboSync');
@@ -33,7 +34,7 @@ app.http('nibo-sync', {
 
       logger.info('Starting sync', { transactionId, tipo, existingExternalId });
 
-      const client = getNiboClient();
+      const client = await resolveNiboClient(clientId);
 
       let response: SyncResponse;
 
@@ -88,7 +89,7 @@ app.http('nibo-sync', {
       logger.error('Sync failed', error);
 
       return {
-        status: 500,
+        status: httpStatusFor(error),
         jsonBody: {
           success: false,
           action: 'skipped',
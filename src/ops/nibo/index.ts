@@ -6,15 +6,17 @@
  * - Captura de contas a pagar/receber
  * - Captura de pagamentos/recebimentos realizados
  * - Sync de transações categorizadas
+ * - Baixa dos agendamentos conciliados com o extrato
  *
  * Rotas: /api/nibo/*
- * Env vars: NIBO_API_KEY
+ * Credenciais: por cliente (clientId → resolveNiboCredentials); fallback NIBO_API_KEY
  */
 
 // Functions
 import './functions/health';
 import './functions/capture';
 import './functions/sync';
+import './functions/baixa';
 import './functions/categories';
 
 console.log('[mesh:nibo-ops] Functions registered');
@@ -0,0 +1,206 @@
+/**
+ * OFX Parser - Extratos bancários OFX 1.x (SGML) e 2.x (XML)
+ *
+ * OFX 1.x: header "OFXHEADER:100" + corpo SGML, onde elementos folha
+ *          (ex: <TRNAMT>-10.00) não têm tag de fechamento.
+ * OFX 2.x: header XML (<?xml ...?><?OFX ...?>) + corpo XML bem formado.
+ *
+ * Ambos são lidos pelo mesmo tokenizador tolerante: tags de agregado
+ * (<STMTTRN>...</STMTTRN>) abrem/fecham escopo, elementos folha
+ * são lidos como texto até a próxima tag.
+ */
+
+import { createLogger } from '../shared/utils';
+import { OfxParseResult, OfxStatement, OfxTransaction, OfxVersion } from './types';
+
+const logger = createLogger('OfxParser');
+
+type OfxNode = {
+  name: string;
+  value?: string;
+  children: OfxNode[];
+};
+
+// ============================================================================
+// ENCODING
+// ============================================================================
+
+/**
+ * Decodifica o buffer respeitando o CHARSET do header SGML.
+ * Bancos brasileiros costumam gerar OFX 1.x em CP1252.
+ */
+export function decodeOfxBuffer(buffer: Buffer): string {
+  const head = buffer.subarray(0, 512).toString('ascii').toUpperCase();
+  const isLatin = /CHARSET:\s*(1252|ISO-8859-1|8859-1)/.test(head) || /ENCODING="?(ISO-8859-1|WINDOWS-1252)/.test(head);
+  return buffer.toString(isLatin ? 'latin1' : 'utf8');
+}
+
+// ============================================================================
+// PARSE
+// ============================================================================
+
+export function detectVersion(content: string): OfxVersion {
+  const head = content.trimStart().substring(0, 200).toUpperCase();
+  return head.startsWith('<?XML') || head.includes('<?OFX') ? '2.x' : '1.x';
+}
+
+export function parseOfx(content: string): OfxParseResult {
+  const version = detectVersion(content);
+  const start = content.toUpperCase().indexOf('<OFX>');
+
+  if (start < 0) {
+    throw new Error('Conteúdo não é um arquivo OFX válido (tag <OFX> não encontrada)');
+  }
+
+  const root = tokenize(content.substring(start));
+  const statements: OfxStatement[] = [];
+
+  for (const stmt of findAll(root, ['STMTRS', 'CCSTMTRS'])) {
+    statements.push(parseStatement(stmt));
+  }
+
+  logger.info(`OFX ${version} parseado: ${statements.length} conta(s), ${statements.reduce((n, s) => n + s.transactions.length, 0)} lançamentos`);
+
+  return { version, statements };
+}
+
+function tokenize(body: string): OfxNode {
+  const root: OfxNode = { name: 'ROOT', children: [] };
+  const stack: OfxNode[] = [root];
+  const tagRegex = /<(\/?)([A-Za-z0-9_.]+)[^>]*>([^<]*)/g;
+
+  let m: RegExpExecArray | null;
+  while ((m = tagRegex.exec(body)) !== null) {
+    const closing = m[1] === '/';
+    const name = m[2].toUpperCase();
+    const text = decodeEntities(m[3].trim());
+    const parent = stack[stack.length - 1];
+
+    if (closing) {
+      // Fecha até o agregado correspondente; fechamento de folha (XML) é ignorado
+      const idx = findLastIndex(stack, (n) => n.name === name);
+      if (idx > 0) stack.length = idx;
+      continue;
+    }
+
+    if (text) {
+      parent.children.push({ name, value: text, children: [] });
+    } else {
+      const node: OfxNode = { name, children: [] };
+      parent.children.push(node);
+      stack.push(node);
+    }
+  }
+
+  return root;
+}
+
+function parseStatement(stmt: OfxNode): OfxStatement {
+  const bankAcct = findFirst(stmt, ['BANKACCTFROM', 'CCACCTFROM']);
+  const tranList = findFirst(stmt, ['BANKTRANLIST']);
+  const ledger = findFirst(stmt, ['LEDGERBAL']);
+
+  const transactions: OfxTransaction[] = [];
+  for (const trn of findAll(tranList || stmt, ['STMTTRN'])) {
+    const tx = parseTransaction(trn);
+    if (tx) transactions.push(tx);
+  }
+
+  return {
+    bankId: leaf(bankAcct, 'BANKID'),
+    branchId: leaf(bankAcct, 'BRANCHID'),
+    accountId: leaf(bankAcct, 'ACCTID') || 'UNKNOWN',
+    accountType: leaf(bankAcct, 'ACCTTYPE') || (bankAcct?.name === 'CCACCTFROM' ? 'CREDITCARD' : undefined),
+    currency: leaf(stmt, 'CURDEF'),
+    dtStart: parseOfxDate(leaf(tranList, 'DTSTART')),
+    dtEnd: parseOfxDate(leaf(tranList, 'DTEND')),
+    ledgerBalance: ledger ? parseOfxAmount(leaf(ledger, 'BALAMT')) : undefined,
+    ledgerBalanceDate: parseOfxDate(leaf(ledger, 'DTASOF')),
+    transactions,
+  };
+}
+
+function parseTransaction(trn: OfxNode): OfxTransaction | null {
+  const fitId = leaf(trn, 'FITID');
+  const dtPosted = parseOfxDate(leaf(trn, 'DTPOSTED'));
+  const amount = parseOfxAmount(leaf(trn, 'TRNAMT'));
+
+  if (!fitId || !dtPosted || amount === undefined) {
+    logger.warn('STMTTRN ignorado: FITID, DTPOSTED ou TRNAMT ausente', { fitId });
+    return null;
+  }
+
+  return {
+    trnType: (leaf(trn, 'TRNTYPE') || 'OTHER').toUpperCase(),
+    dtPosted,
+    amount,
+    fitId,
+    checkNum: leaf(trn, 'CHECKNUM'),
+    refNum: leaf(trn, 'REFNUM'),
+    name: leaf(trn, 'NAME') || leaf(findFirst(trn, ['PAYEE']), 'NAME'),
+    memo: leaf(trn, 'MEMO'),
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** YYYYMMDD[HHMMSS[.XXX]][[-3:BRT]] → YYYY-MM-DD */
+export function parseOfxDate(value?: string): string | undefined {
+  if (!value) return undefined;
+  const digits = value.trim().substring(0, 8);
+  if (!/^\d{8}$/.test(digits)) return undefined;
+  return `${digits.substring(0, 4)}-${digits.substring(4, 6)}-${digits.substring(6, 8)}`;
+}
+
+/** Aceita "1234.56", "-1234.56" e o formato com vírgula usado por alguns bancos ("-1234,56") */
+export function parseOfxAmount(value?: string): number | undefined {
+  if (!value) return undefined;
+  let normalized = value.trim().replace(/\s/g, '');
+  if (normalized.includes(',') && !normalized.includes('.')) {
+    normalized = normalized.replace(',', '.');
+  } else {
+    normalized = normalized.replace(/,/g, '');
+  }
+  const amount = parseFloat(normalized);
+  return isNaN(amount) ? undefined : Math.round(amount * 100) / 100;
+}
+
+function leaf(node: OfxNode | undefined, name: string): string | undefined {
+  return node?.children.find((c) => c.name === name && c.value !== undefined)?.value;
+}
+
+function findFirst(node: OfxNode | undefined, names: string[]): OfxNode | undefined {
+  if (!node) return undefined;
+  for (const child of node.children) {
+    if (names.includes(child.name) && child.value === undefined) return child;
+    const nested = findFirst(child, names);
+    if (nested) return nested;
+  }
+  return undefined;
+}
+
+function findAll(node: OfxNode, names: string[], acc: OfxNode[] = []): OfxNode[] {
+  for (const child of node.children) {
+    if (names.includes(child.name) && child.value === undefined) acc.push(child);
+    else findAll(child, names, acc);
+  }
+  return acc;
+}
+
+function findLastIndex<T>(arr: T[], predicate: (item: T) => boolean): number {
+  for (let i = arr.length - 1; i >= 0; i--) {
+    if (predicate(arr[i])) return i;
+  }
+  return -1;
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,71 @@
+/**
+ * OFX Types - Extratos bancários OFX 1.x (SGML) e 2.x (XML)
+ */
+
+// ============================================================================
+// PARSED TYPES
+// ============================================================================
+
+export type OfxVersion = '1.x' | '2.x';
+
+/** Lançamento do extrato (<STMTTRN>) */
+export interface OfxTransaction {
+  trnType: string; // CREDIT, DEBIT, PAYMENT, XFER, FEE, ...
+  dtPosted: string; // YYYY-MM-DD
+  amount: number; // Com sinal: negativo = saída
+  fitId: string; // ID único do lançamento no banco (por conta)
+  checkNum?: string;
+  refNum?: string;
+  name?: string;
+  memo?: string;
+}
+
+/** Extrato de uma conta (<STMTRS> ou <CCSTMTRS>) */
+export interface OfxStatement {
+  bankId?: string;
+  branchId?: string;
+  accountId: string;
+  accountType?: string; // CHECKING, SAVINGS, CREDITCARD
+  currency?: string;
+  dtStart?: string;
+  dtEnd?: string;
+  ledgerBalance?: number;
+  ledgerBalanceDate?: string;
+  transactions: OfxTransaction[];
+}
+
+export interface OfxParseResult {
+  version: OfxVersion;
+  statements: OfxStatement[];
+}
+
+// ============================================================================
+// UPLOAD / CAPTURE TYPES
+// ============================================================================
+
+export interface OfxUploadRequest {
+  clientId: string;
+  cycleId?: string;
+  nomeArquivo?: string;
+  conteudo?: string; // Texto do arquivo
+  conteudoBase64?: string; // Alternativa para arquivos binários/CP1252
+  action?: 'listar' | 'ingerir';
+}
+
+export interface OfxUploadResponse {
+  success: boolean;
+  source: 'ofx';
+  clientId: string;
+  cycleId: string;
+  arquivo?: string;
+  version?: OfxVersion;
+  contas: Array<{ bankId?: string; accountId: string; lancamentos: number }>;
+  transactions: {
+    total: number;
+    new: number;
+    updated: number;
+    skipped: number;
+  };
+  error?: string;
+  durationMs: number;
+}
@@ -0,0 +1,59 @@
+/**
+ * Capture - ofx-ops (integrado ao mesh)
+ *
+ * OFX não tem API: os extratos entram por upload (POST /api/ofx/upload) e já
+ * são persistidos como CAPTURADO. No ciclo diário a captura apenas levanta o
+ * que foi enviado e ainda aguarda processamento pelo pipeline IA.
+ */
+
+import { createLogger } from '../shared/utils';
+import { getTransactionsByStatus } from '../../../storage/tableClient';
+import { TransactionSource, TransactionStatus } from '../../../types';
+
+const logger = createLogger('OfxCapture');
+
+export interface OfxCaptureInput {
+  clientId: string;
+  cycleId: string;
+}
+
+export interface OfxCaptureOutput {
+  success: boolean;
+  source: 'ofx';
+  clientId: string;
+  cycleId: string;
+  transactions: { total: number; new: number; updated: number; skipped: number };
+  arquivos: string[];
+  durationMs: number;
+  error?: string;
+}
+
+export async function executeOfxCapture(input: OfxCaptureInput): Promise<OfxCaptureOutput> {
+  const startTime = Date.now();
+  const { clientId, cycleId } = input;
+
+  try {
+    const pendentes = (await getTransactionsByStatus(clientId, TransactionStatus.CAPTURADO))
+      .filter((tx) => tx.source === TransactionSource.OFX);
+
+    const arquivos = [...new Set(pendentes.map((tx) => tx.metadata?.arquivo).filter(Boolean))] as string[];
+
+    logger.info(`OFX pendentes para ${clientId}: ${pendentes.length} (${arquivos.length} arquivo(s))`);
+
+    return {
+      success: true, source: 'ofx', clientId, cycleId,
+      transactions: { total: pendentes.length, new: pendentes.length, updated: 0, skipped: 0 },
+      arquivos,
+      durationMs: Date.now() - startTime,
+    };
+  } catch (error: any) {
+    logger.error('OFX capture failed', error);
+    return {
+      success: false, source: 'ofx', clientId, cycleId,
+      transactions: { total: 0, new: 0, updated: 0, skipped: 0 },
+      arquivos: [],
+      durationMs: Date.now() - startTime,
+      error: error.message,
+    };
+  }
+}
@@ -0,0 +1,199 @@
+/**
+ * Upload - ofx-ops (integrado ao mesh)
+ *
+ * POST /api/ofx/upload - Recebe extrato OFX de um cliente e persiste no storage do mesh
+ *
+ * Para bancos sem API (Itaú, Bradesco, Sicoob...) o extrato chega por upload.
+ * As transações entram como CAPTURADO e seguem no ciclo diário normalmente.
+ *
+ * Body JSON: { clientId, conteudo | conteudoBase64, nomeArquivo?, cycleId?, action? }
+ * Ou corpo bruto (text/plain, application/x-ofx) com ?clientId=...&nomeArquivo=...
+ *
+ * Ações:
+ *   - listar: Retorna transações parseadas (stateless, não salva)
+ *   - ingerir (default): Salva com idempotência por FITID
+ */
+
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import * as crypto from 'crypto';
+import { parseOfx, decodeOfxBuffer } from '../adapters/parser';
+import { OfxParseResult, OfxStatement, OfxTransaction, OfxUploadRequest, OfxUploadResponse } from '../adapters/types';
+import { createLogger, nowISO, todayYMD } from '../shared/utils';
+import { getExistingSourceIds, upsertTransactionsIdempotent } from '../../../storage/tableClient';
+import { Transaction, TransactionType, TransactionSource, TransactionStatus } from '../../../types';
+
+const logger = createLogger('OfxUpload');
+
+function shortHash(input: string): string {
+  return crypto.createHash('sha256').update(input).digest('hex').substring(0, 16);
+}
+
+// ============================================================================
+// CONVERSOR STMTTRN -> TRANSACTION
+// ============================================================================
+
+/**
+ * Converte lançamento OFX em Transaction.
+ * sourceId = FITID prefixado pela conta (FITID só é único dentro da conta).
+ */
+export function ofxToTransaction(
+  trn: OfxTransaction,
+  stmt: OfxStatement,
+  clientId: string,
+  cycleId: string,
+  nomeArquivo?: string
+): Transaction {
+  const sourceId = `${stmt.accountId}:${trn.fitId}`;
+  const descricao = trn.memo || trn.name || trn.trnType;
+  const now = nowISO();
+
+  return {
+    id: `ofx-${shortHash(`${clientId}-${sourceId}`)}`,
+    clientId,
+    type: trn.amount < 0 ? TransactionType.PAGAR : TransactionType.RECEBER,
+    status: TransactionStatus.CAPTURADO,
+    source: TransactionSource.OFX,
+    valor: Math.abs(trn.amount),
+    dataVencimento: trn.dtPosted,
+    dataRealizacao: trn.dtPosted,
+    descricao,
+    descricaoOriginal: [trn.name, trn.memo].filter(Boolean).join(' | ') || descricao,
+    contraparte: trn.name && trn.name !== trn.memo ? trn.name : undefined,
+    numeroDocumento: trn.checkNum || trn.refNum,
+    sourceId,
+    sourceName: stmt.bankId ? `OFX ${stmt.bankId}` : 'OFX',
+    rawData: { ...trn },
+    metadata: {
+      bankId: stmt.bankId,
+      branchId: stmt.branchId,
+      accountId: stmt.accountId,
+      accountType: stmt.accountType,
+      trnType: trn.trnType,
+      arquivo: nomeArquivo,
+    },
+    createdAt: now,
+    updatedAt: now,
+    capturedAt: now,
+    cycleId,
+  } as Transaction;
+}
+
+export function gerarTransacoesOfx(
+  parsed: OfxParseResult,
+  clientId: string,
+  cycleId: string,
+  nomeArquivo?: string
+): Transaction[] {
+  const transactions: Transaction[] = [];
+  for (const stmt of parsed.statements) {
+    for (const trn of stmt.transactions) {
+      transactions.push(ofxToTransaction(trn, stmt, clientId, cycleId, nomeArquivo));
+    }
+  }
+  return transactions;
+}
+
+// ============================================================================
+// CORE (chamável direto, sem HTTP)
+// ============================================================================
+
+export async function executeOfxImport(
+  input: { clientId: string; cycleId?: string; conteudo: string; nomeArquivo?: string },
+  persist: boolean = true
+): Promise<OfxUploadResponse & { items?: Transaction[] }> {
+  const startTime = Date.now();
+  const { clientId, nomeArquivo } = input;
+  const cycleId = input.cycleId || `ofx-upload-${todayYMD()}`;
+
+  const parsed = parseOfx(input.conteudo);
+  const transactions = gerarTransacoesOfx(parsed, clientId, cycleId, nomeArquivo);
+
+  const contas = parsed.statements.map((s) => ({
+    bankId: s.bankId,
+    accountId: s.accountId,
+    lancamentos: s.transactions.length,
+  }));
+
+  let result = { created: [] as string[], updated: [] as string[], skipped: [] as string[] };
+  if (persist && transactions.length > 0) {
+    const existingSourceIds = await getExistingSourceIds(clientId, TransactionSource.OFX);
+    result = await upsertTransactionsIdempotent(transactions, existingSourceIds);
+    logger.info('OFX persisted (idempotent)', {
+      created: result.created.length, updated: result.updated.length, skipped: result.skipped.length,
+    });
+  }
+
+  return {
+    success: true,
+    source: 'ofx',
+    clientId,
+    cycleId,
+    arquivo: nomeArquivo,
+    version: parsed.version,
+    contas,
+    transactions: {
+      total: transactions.length,
+      new: result.created.length,
+      updated: result.updated.length,
+      skipped: result.skipped.length,
+    },
+    items: persist ? undefined : transactions,
+    durationMs: Date.now() - startTime,
+  };
+}
+
+// ============================================================================
+// HTTP HANDLER
+// ============================================================================
+
+app.http('ofx-upload', {
+  methods: ['POST'],
+  authLevel: 'function',
+  route: 'ofx/upload',
+  handler: async (req: HttpRequest, ctx: InvocationContext): Promise<HttpResponseInit> => {
+    try {
+      const contentType = req.headers.get('content-type') || '';
+      let body: OfxUploadRequest;
+
+      if (contentType.includes('application/json')) {
+        body = (await req.json()) as OfxUploadRequest;
+      } else {
+        // Corpo bruto: arquivo OFX direto
+        const buffer = Buffer.from(await req.arrayBuffer());
+        body = {
+          clientId: req.query.get('clientId') || '',
+          cycleId: req.query.get('cycleId') || undefined,
+          nomeArquivo: req.query.get('nomeArquivo') || undefined,
+          action: (req.query.get('action') as OfxUploadRequest['action']) || undefined,
+          conteudo: decodeOfxBuffer(buffer),
+        };
+      }
+
+      const conteudo = body.conteudo
+        || (body.conteudoBase64 ? decodeOfxBuffer(Buffer.from(body.conteudoBase64, 'base64')) : '');
+
+      if (!body.clientId || !conteudo) {
+        return {
+          status: 400,
+          jsonBody: { success: false, error: 'clientId e conteudo (ou conteudoBase64) são obrigatórios' },
+        };
+      }
+
+      logger.info('Upload OFX recebido', { clientId: body.clientId, arquivo: body.nomeArquivo, action: body.action });
+
+      const result = await executeOfxImport(
+        { clientId: body.clientId, cycleId: body.cycleId, conteudo, nomeArquivo: body.nomeArquivo },
+        body.action !== 'listar'
+      );
+
+      return { status: 200, jsonBody: { ...result, action: body.action || 'ingerir' } };
+    } catch (error: any) {
+      logger.error('OFX upload failed', error);
+      const invalid = error.message?.includes('OFX');
+      return {
+        status: invalid ? 400 : 500,
+        jsonBody: { success: false, source: 'ofx', error: error.message },
+      };
+    }
+  },
+});
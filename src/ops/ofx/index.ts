@@ -0,0 +1,17 @@
+/**
+ * ofx-ops (integrado ao mesh)
+ *
+ * Ingestão de extratos bancários OFX para bancos sem API (Itaú, Bradesco, Sicoob...).
+ *
+ * Responsável por:
+ * - Parse de OFX 1.x (SGML) e 2.x (XML)
+ * - Conversão de STMTTRN em transações (sourceId = conta:FITID)
+ * - Persistência idempotente (reupload do mesmo extrato não duplica)
+ *
+ * Rotas: /api/ofx/*
+ */
+
+// Functions
+import './functions/upload';
+
+console.log('[mesh:ofx-ops] Functions registered');
@@ -0,0 +1,83 @@
+/**
+ * Omie Baixa - liquidação das contas a pagar/receber conciliadas
+ *
+ * LancarPagamento/LancarRecebimento com a data do extrato e o valor do
+ * previsto; a diferença para o extrato vai como juros (pagou a mais) ou
+ * desconto (pagou a menos) — o Omie soma valor + juros − desconto.
+ * A conta corrente vem do cadastro do cliente ou é a conta ativa do mesmo
+ * banco no Omie. Getnet não tem banco próprio (liquida na conta do
+ * cliente): exige contasErp.getnet no cadastro.
+ */
+
+import { OmieClient, toOmieDate } from './client';
+import { codigoIntegracao, OmieSyncError } from './writeBack';
+import { BaixaRequest } from './types';
+
+// Código FEBRABAN dos bancos que geram realizados no mesh
+const CODIGOS_BANCO: Record<string, string> = {
+  santander: '033',
+  inter: '077',
+};
+
+export interface OmieBaixaResult {
+  baixaId: string;
+  contaCorrente: number;
+  liquidado: boolean;
+}
+
+export async function resolveContaCorrente(omie: OmieClient, req: Pick<BaixaRequest, 'banco' | 'contaBancaria'>): Promise<number> {
+  if (req.contaBancaria) {
+    const codigo = Number(req.contaBancaria);
+    if (!Number.isInteger(codigo) || codigo <= 0) {
+      throw new OmieSyncError(`Conta corrente "${req.contaBancaria}" inválida para o Omie`);
+    }
+    return codigo;
+  }
+
+  const codigoBanco = CODIGOS_BANCO[req.banco];
+  const conta = codigoBanco
+    ? (await omie.getContasCorrentes()).find(
+        (c) => c.nCodCC && c.cInativo !== 'S' && (c.cCodBanco || '').padStart(3, '0') === codigoBanco
+      )
+    : undefined;
+
+  if (!conta?.nCodCC) {
+    throw new OmieSyncError(codigoBanco
+      ? `Conta corrente do ${req.banco} não encontrada no Omie`
+      : `Baixa do ${req.banco} exige contasErp.${req.banco} no cadastro do cliente`);
+  }
+  return conta.nCodCC;
+}
+
+export async function baixarNoOmie(omie: OmieClient, req: BaixaRequest): Promise<OmieBaixaResult> {
+  const codigoLancamento = Number(req.externalId);
+  if (!Number.isInteger(codigoLancamento) || codigoLancamento <= 0) {
+    throw new OmieSyncError(`Lançamento "${req.externalId}" não é um código do Omie`);
+  }
+  if (!req.dataPagamento || !(req.valorPrevisto > 0)) {
+    throw new OmieSyncError('Baixa sem data ou valor');
+  }
+
+  const contaCorrente = await resolveContaCorrente(omie, req);
+  const baixa = {
+    codigo_lancamento: codigoLancamento,
+    codigo_baixa_integracao: codigoIntegracao(`baixa-${req.realizadoId || req.transactionId}`),
+    codigo_conta_corrente: contaCorrente,
+    valor: req.valorPrevisto,
+    juros: req.juros || undefined,
+    desconto: req.desconto || undefined,
+    data: toOmieDate(req.dataPagamento.substring(0, 10)),
+    observacao: req.realizadoId ? `Conciliado pelo mesh com ${req.realizadoId}` : undefined,
+  };
+
+  const res = req.tipo === 'pagar' ? await omie.lancarPagamento(baixa) : await omie.lancarRecebimento(baixa);
+  if (!res?.codigo_baixa) {
+    throw new Error(`Omie não registrou a baixa: ${res?.descricao_status || 'sem resposta'}`);
+  }
+
+  return {
+    baixaId: String(res.codigo_baixa),
+    contaCorrente,
+    liquidado: res.liquidado !== 'N',
+  };
+}
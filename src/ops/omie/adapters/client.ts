@@ -24,6 +24,8 @@ import {
   OmieUpsertContaPagarResponse,
   OmieUpsertContaReceberRequest,
   OmieUpsertContaReceberResponse,
+  OmieLancarBaixaRequest,
+  OmieLancarBaixaResponse,
 } from './types';
 
 const logger = createLogger('OmieClient');
@@ -270,6 +272,27 @@ export class OmieClient {
     }
   }
 
+  /** Busca cliente/fornecedor pelo CNPJ/CPF (só dígitos) */
+  async findClienteByCnpj(cnpjCpf: string): Promise<OmieClienteFornecedor | null> {
+    const digitos = cnpjCpf.replace(/\D/g, '');
+    if (!digitos) return null;
+
+    try {
+      const response = await this.request<{ clientes_cadastro?: OmieClienteFornecedor[] }>(
+        '/geral/clientes/',
+        'ListarClientes',
+        [{ pagina: 1, registros_por_pagina: 50, clientesFiltro: { cnpj_cpf: digitos } }]
+      );
+      return (response.clientes_cadastro || []).find(
+        (c) => (c.cnpj_cpf || '').replace(/\D/g, '') === digitos
+      ) || null;
+    } catch (error) {
+      // Omie responde erro quando o filtro não encontra nada
+      if (String((error as Error)?.message).includes('Não existem registros')) return null;
+      throw error;
+    }
+  }
+
   // ============================================================================
   // CONTAS CORRENTES
   // ============================================================================
@@ -298,6 +321,18 @@ export class OmieClient {
     return this.request<OmieUpsertContaReceberResponse>('/financas/contareceber/', 'UpsertContaReceber', [data]);
   }
 
+  // ============================================================================
+  // BAIXAS (Write)
+  // ============================================================================
+
+  async lancarPagamento(data: OmieLancarBaixaRequest): Promise<OmieLancarBaixaResponse> {
+    return this.request<OmieLancarBaixaResponse>('/financas/contapagar/', 'LancarPagamento', [data]);
+  }
+
+  async lancarRecebimento(data: OmieLancarBaixaRequest): Promise<OmieLancarBaixaResponse> {
+    return this.request<OmieLancarBaixaResponse>('/financas/contareceber/', 'LancarRecebimento', [data]);
+  }
+
   // ============================================================================
   // CONNECTION TEST
   // ============================================================================
@@ -0,0 +1,36 @@
+/**
+ * OmieClient por cliente do mesh
+ *
+ * App key do ClientConfig (omieAppKey) com o secret resolvido por
+ * resolveOmieCredentials. Sem clientId: 400; cliente desconhecido: 404;
+ * cliente sem app key: OmieSyncError (a rota responde skipped). As env
+ * vars globais só valem no modo single-tenant (OPS_SINGLE_TENANT=true).
+ */
+
+import { getOmieClient, getOmieClientForTenant, OmieClient } from './client';
+import { OmieSyncError } from './writeBack';
+import { createLogger } from '../shared/utils';
+import { getClientById } from '../../shared/storage/clientStorage';
+import { isSingleTenantMode, TenantResolutionError } from '../../shared/tenant';
+import { resolveOmieCredentials } from '../../../infra/credentialResolver';
+
+const logger = createLogger('OmieTenant');
+
+export async function resolveOmieClient(clientId?: string): Promise<OmieClient> {
+  const clientData = clientId ? await getClientById(clientId) : null;
+
+  if (clientData?.config?.omieAppKey) {
+    const creds = await resolveOmieCredentials(clientData.config, clientData.tenantId);
+    logger.info('Using per-client Omie credentials', { clientId });
+    return getOmieClientForTenant(creds.appKey, creds.appSecret);
+  }
+
+  if (!isSingleTenantMode()) {
+    if (!clientId) throw new TenantResolutionError('clientId é obrigatório', 400);
+    if (!clientData) throw new TenantResolutionError(`Cliente ${clientId} não encontrado`, 404);
+    throw new OmieSyncError(`Cliente ${clientId} sem credenciais Omie (omieAppKey)`);
+  }
+
+  logger.info('Using global Omie credentials (single-tenant)', { clientId });
+  return getOmieClient();
+}
@@ -294,6 +294,9 @@ export interface SyncRequest {
   categoriaId?: string;
   categoriaNome?: string;
   contraparte?: string;
+  contraparteCnpj?: string;
+  numeroDocumento?: string;
+  dataEmissao?: string;
   tipo: 'pagar' | 'receber';
   existingExternalId?: string;
 }
@@ -305,6 +308,28 @@ export interface SyncResponse {
   error?: string;
 }
 
+/** Baixa de um previsto conciliado com o extrato */
+export interface BaixaRequest {
+  transactionId: string; // previsto no mesh
+  clientId: string;
+  externalId: string; // lançamento no ERP
+  tipo: 'pagar' | 'receber';
+  dataPagamento: string; // YYYY-MM-DD (data real no banco)
+  valorPago: number; // total no extrato = valorPrevisto + juros - desconto
+  valorPrevisto: number; // base da baixa
+  juros: number;
+  desconto: number;
+  banco: string; // fonte do realizado: santander, inter, getnet
+  contaBancaria?: string; // conta no ERP (ClientConfig.contasErp)
+  realizadoId?: string;
+}
+
+export interface BaixaResponse {
+  success: boolean;
+  baixaId?: string;
+  error?: string;
+}
+
 // ============================================================================
 // CONNECTION TEST
 // ============================================================================
@@ -348,6 +373,7 @@ export interface OmieUpsertClienteResponse {
 
 export interface OmieUpsertContaPagarRequest {
   codigo_lancamento_integracao: string;
+  codigo_lancamento_omie?: number; // lançamento já existente no Omie
   codigo_cliente_fornecedor: number;
   data_vencimento: string; // DD/MM/YYYY
   valor_documento: number;
@@ -368,6 +394,7 @@ export interface OmieUpsertContaPagarResponse {
 
 export interface OmieUpsertContaReceberRequest {
   codigo_lancamento_integracao: string;
+  codigo_lancamento_omie?: number; // lançamento já existente no Omie
   codigo_cliente_fornecedor: number;
   data_vencimento: string; // DD/MM/YYYY
   valor_documento: number;
@@ -385,3 +412,22 @@ export interface OmieUpsertContaReceberResponse {
   codigo_status: string;
   descricao_status: string;
 }
+
+export interface OmieLancarBaixaRequest {
+  codigo_lancamento: number;
+  codigo_baixa_integracao: string;
+  codigo_conta_corrente: number;
+  valor: number;
+  desconto?: number;
+  juros?: number;
+  data: string; // DD/MM/YYYY
+  observacao?: string;
+}
+
+export interface OmieLancarBaixaResponse {
+  codigo_lancamento: number;
+  codigo_baixa: number;
+  codigo_status: string;
+  descricao_status: string;
+  liquidado?: string; // 'S' or 'N'
+}
@@ -0,0 +1,221 @@
+/**
+ * Omie Write-back - contas a pagar/receber a partir das transações do mesh
+ *
+ * Idempotência: o id da transação vira codigo_lancamento_integracao e o
+ * Upsert do Omie altera o lançamento quando esse código já existe, então
+ * reenviar a mesma transação não duplica a conta.
+ *
+ * Categoria: categoriaId pode ser o código Omie (transação capturada do
+ * próprio Omie) ou o id da categoria do mesh. Tenta pelo código e, sem
+ * correspondência, pelo nome (plano de contas do mesh e do Omie diferem
+ * na numeração).
+ *
+ * Contraparte: busca o fornecedor/cliente pelo CNPJ/CPF; sem cadastro,
+ * cria com codigo_cliente_integracao "mesh-<documento>".
+ */
+
+import * as crypto from 'crypto';
+import { OmieClient, toOmieDate } from './client';
+import { OmieCategoria, SyncRequest } from './types';
+import { createLogger } from '../shared/utils';
+import { getCategories } from '../../../storage/tableClient';
+
+const logger = createLogger('OmieWriteBack');
+
+// Plano de contas muda pouco; evita listar tudo a cada transação do batch
+const CATEGORIAS_TTL_MS = 10 * 60 * 1000;
+
+// Limites de tamanho dos campos no Omie
+const MAX_CODIGO_INTEGRACAO = 60;
+const MAX_RAZAO_SOCIAL = 60;
+const MAX_OBSERVACAO = 500;
+
+/** Dados da transação que impedem o envio (não adianta repetir) */
+export class OmieSyncError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OmieSyncError';
+  }
+}
+
+export interface OmieWriteBackResult {
+  action: 'created' | 'updated';
+  omieId: string;
+  codigoIntegracao: string;
+  codigoCategoria: string;
+  codigoClienteFornecedor: number;
+}
+
+const categoriasCache = new Map<string, { categorias: OmieCategoria[]; expiraEm: number }>();
+
+export function resetOmieWriteBackCache(): void {
+  categoriasCache.clear();
+}
+
+/** codigo_lancamento_integracao estável para a transação */
+export function codigoIntegracao(transactionId: string): string {
+  if (transactionId.length <= MAX_CODIGO_INTEGRACAO) return transactionId;
+  return `mesh-${hash(transactionId).substring(0, 40)}`;
+}
+
+// ============================================================================
+// CATEGORIA
+// ============================================================================
+
+async function getCategoriasOmie(omie: OmieClient, clientId: string): Promise<OmieCategoria[]> {
+  const cache = categoriasCache.get(clientId);
+  if (cache && cache.expiraEm > Date.now()) return cache.categorias;
+
+  const categorias = (await omie.getCategorias()).filter((c) => c.codigo && c.conta_inativa !== 'S');
+  categoriasCache.set(clientId, { categorias, expiraEm: Date.now() + CATEGORIAS_TTL_MS });
+  return categorias;
+}
+
+export async function resolveCategoryCode(
+  omie: OmieClient,
+  clientId: string,
+  categoriaId?: string,
+  categoriaNome?: string
+): Promise<string> {
+  if (!categoriaId && !categoriaNome) {
+    throw new OmieSyncError('Transação sem categoria');
+  }
+
+  const categoriasOmie = await getCategoriasOmie(omie, clientId);
+  const categoriaMesh = categoriaId
+    ? (await getCategories(clientId)).find((c) => c.id === categoriaId || c.codigo === categoriaId)
+    : undefined;
+
+  const codigos = [categoriaId, categoriaMesh?.codigo].filter(Boolean);
+  for (const codigo of codigos) {
+    const encontrada = categoriasOmie.find((c) => c.codigo === codigo);
+    if (encontrada?.codigo) return encontrada.codigo;
+  }
+
+  const nomes = [categoriaNome, categoriaMesh?.nome].map(normalizarNome).filter(Boolean);
+  for (const nome of nomes) {
+    const encontrada = categoriasOmie.find(
+      (c) => normalizarNome(c.descricao) === nome || normalizarNome(c.descricao_padrao) === nome
+    );
+    if (encontrada?.codigo) return encontrada.codigo;
+  }
+
+  throw new OmieSyncError(`Categoria "${categoriaNome || categoriaMesh?.nome || categoriaId}" sem correspondente no Omie`);
+}
+
+// ============================================================================
+// CONTRAPARTE
+// ============================================================================
+
+export async function resolveCounterparty(
+  omie: OmieClient,
+  req: Pick<SyncRequest, 'contraparte' | 'contraparteCnpj' | 'tipo' | 'existingExternalId'>
+): Promise<number> {
+  const documento = (req.contraparteCnpj || '').replace(/\D/g, '');
+  const nome = (req.contraparte || '').trim();
+  const temDocumento = documento.length === 11 || documento.length === 14;
+
+  if (temDocumento) {
+    const existente = await omie.findClienteByCnpj(documento);
+    if (existente?.codigo_cliente_omie) return existente.codigo_cliente_omie;
+  } else if (req.existingExternalId && /^\d+$/.test(nome)) {
+    // Lançamento capturado do Omie: contraparte já é o codigo_cliente_omie
+    return Number(nome);
+  }
+
+  if (!nome && !temDocumento) {
+    throw new OmieSyncError('Transação sem contraparte');
+  }
+
+  const criado = await omie.upsertCliente({
+    codigo_cliente_integracao: temDocumento ? `mesh-${documento}` : `mesh-${hash(normalizarNome(nome)).substring(0, 32)}`,
+    razao_social: (nome || formatarDocumento(documento)).substring(0, MAX_RAZAO_SOCIAL),
+    nome_fantasia: nome ? nome.substring(0, MAX_RAZAO_SOCIAL) : undefined,
+    cnpj_cpf: temDocumento ? formatarDocumento(documento) : undefined,
+    tags: [{ tag: req.tipo === 'pagar' ? 'Fornecedor' : 'Cliente' }],
+  });
+
+  if (!criado?.codigo_cliente_omie) {
+    throw new Error(`Omie não cadastrou a contraparte "${nome || documento}": ${criado?.descricao_status || 'sem resposta'}`);
+  }
+
+  logger.info('Counterparty registered in Omie', {
+    codigo: criado.codigo_cliente_omie,
+    integracao: criado.codigo_cliente_integracao,
+  });
+  return criado.codigo_cliente_omie;
+}
+
+// ============================================================================
+// CONTA A PAGAR / RECEBER
+// ============================================================================
+
+export async function syncToOmie(omie: OmieClient, req: SyncRequest): Promise<OmieWriteBackResult> {
+  if (req.tipo !== 'pagar' && req.tipo !== 'receber') {
+    throw new OmieSyncError(`Tipo "${req.tipo}" não sincroniza com o Omie`);
+  }
+  if (!req.dataVencimento) {
+    throw new OmieSyncError('Transação sem data de vencimento');
+  }
+  const valor = Math.round(Math.abs(Number(req.valor)) * 100) / 100;
+  if (!valor) {
+    throw new OmieSyncError('Transação sem valor');
+  }
+
+  const codigoCategoria = await resolveCategoryCode(omie, req.clientId, req.categoriaId, req.categoriaNome);
+  const codigoClienteFornecedor = await resolveCounterparty(omie, req);
+
+  const vencimento = toOmieDate(req.dataVencimento.substring(0, 10));
+  const codigoOmie = Number(req.existingExternalId);
+  const conta = {
+    codigo_lancamento_integracao: codigoIntegracao(req.transactionId),
+    codigo_lancamento_omie: Number.isInteger(codigoOmie) && codigoOmie > 0 ? codigoOmie : undefined,
+    codigo_cliente_fornecedor: codigoClienteFornecedor,
+    data_vencimento: vencimento,
+    data_previsao: vencimento,
+    valor_documento: valor,
+    codigo_categoria: codigoCategoria,
+    numero_documento: req.numeroDocumento,
+    data_emissao: req.dataEmissao ? toOmieDate(req.dataEmissao.substring(0, 10)) : undefined,
+    observacao: req.descricao?.substring(0, MAX_OBSERVACAO),
+  };
+
+  const response = req.tipo === 'pagar'
+    ? await omie.upsertContaPagar(conta)
+    : await omie.upsertContaReceber(conta);
+
+  if (!response?.codigo_lancamento_omie || (response.codigo_status && response.codigo_status !== '0')) {
+    throw new Error(`Omie recusou o lançamento: ${response?.descricao_status || 'sem resposta'}`);
+  }
+
+  return {
+    action: req.existingExternalId || /alterad/i.test(response.descricao_status || '') ? 'updated' : 'created',
+    omieId: String(response.codigo_lancamento_omie),
+    codigoIntegracao: conta.codigo_lancamento_integracao,
+    codigoCategoria,
+    codigoClienteFornecedor,
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function hash(input: string): string {
+  return crypto.createHash('sha256').update(input).digest('hex');
+}
+
+function normalizarNome(nome: string | undefined): string {
+  return (nome || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function formatarDocumento(documento: string): string {
+  return documento.length === 14
+    ? documento.replace(/^(\d{2})(\d{3})(\d{3})(\d{4})(\d{2})$/, '$1.$2.$3/$4-$5')
+    : documento.replace(/^(\d{3})(\d{3})(\d{3})(\d{2})$/, '$1.$2.$3-$4');
+}
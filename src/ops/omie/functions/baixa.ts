@@ -0,0 +1,57 @@
+/**
+ * Baixa - omie-ops (integrado ao mesh)
+ *
+ * POST /api/omie/baixa - Liquida a conta a pagar/receber com o realizado do banco
+ *
+ * Lançamento ou conta corrente que não existem no Omie voltam como
+ * success: false com o motivo, sem erro HTTP.
+ */
+
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { resolveOmieClient } from '../adapters/tenant';
+import { baixarNoOmie } from '../adapters/baixa';
+import { OmieSyncError } from '../adapters/writeBack';
+import { BaixaRequest } from '../adapters/types';
+import { createLogger } from '../shared/utils';
+import { httpStatusFor } from '../../shared/tenant';
+
+const logger = createLogger('OmieBaixa');
+
+app.http('omie-baixa', {
+  methods: ['POST'],
+  authLevel: 'function',
+  route: 'omie/baixa',
+  handler: async (req: HttpRequest, ctx: InvocationContext): Promise<HttpResponseInit> => {
+    try {
+      const body = (await req.json()) as BaixaRequest;
+      const { transactionId, clientId, externalId, tipo } = body;
+
+      if (!transactionId || !clientId || !externalId) {
+        return {
+          status: 400,
+          jsonBody: { success: false, error: 'transactionId, clientId e externalId são obrigatórios' },
+        };
+      }
+
+      logger.info('Starting baixa', { transactionId, tipo, externalId, valorPago: body.valorPago });
+
+      try {
+        const client = await resolveOmieClient(clientId);
+        const result = await baixarNoOmie(client, body);
+        logger.info('Baixa registered', { transactionId, baixaId: result.baixaId, liquidado: result.liquidado });
+        return { status: 200, jsonBody: { success: true, baixaId: result.baixaId } };
+      } catch (error) {
+        if (!(error instanceof OmieSyncError)) throw error;
+        logger.warn('Baixa not registered', { transactionId, motivo: error.message });
+        return { status: 200, jsonBody: { success: false, error: error.message } };
+      }
+    } catch (error: any) {
+      logger.error('Baixa failed', error);
+
+      return {
+        status: httpStatusFor(error),
+        jsonBody: { success: false, error: error.message },
+      };
+    }
+  },
+});
@@ -6,13 +6,12 @@
 
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
 import * as crypto from 'crypto';
-import { getOmieClient, getOmieClientForTenant } from '../adapters/client';
+import { resolveOmieClient } from '../adapters/tenant';
 import { CaptureRequest, CaptureResponse, OmiePayable, OmieReceivable } from '../adapters/types';
 import { createLogger } from '../shared/utils';
+import { httpStatusFor } from '../../shared/tenant';
 import { getExistingSourceIds, upsertTransactionsIdempotent } from '../../../storage/tableClient';
 import { Transaction, TransactionType, TransactionSource, TransactionStatus } from '../../../types';
-import { getClientById } from '../../shared/storage/clientStorage';
-import { resolveOmieCredentials } from '../../../infra/credentialResolver';
 
 const logger = createLogger('OmieCapture');
 
@@ -95,17 +94,8 @@ app.http('omie-capture', {
         return d.toISOString().split('T')[0];
       })();
 
-      // Per-client credentials: resolve from ClientConfig, fallback to env vars
-      let client;
-      const clientData = await getClientById(clientId);
-      if (clientData?.config?.omieAppKey && clientData?.config?.omieAppSecret) {
-        const creds = await resolveOmieCredentials(clientData.config, clientData.tenantId);
-        client = getOmieClientForTenant(creds.appKey, creds.appSecret);
-        logger.info('Using per-client Omie credentials', { clientId });
-      } else {
-        client = getOmieClient();
-        logger.info('Using global Omie credentials (env vars)', { clientId });
-      }
+      // Per-client credentials: cliente sem cadastro/app key não usa as env vars (só single-tenant)
+      const client = await resolveOmieClient(clientId);
 
       // Buscar transações existentes para idempotência
       const existingSourceIds = await getExistingSourceIds(clientId, 'omie');
@@ -160,7 +150,7 @@ app.http('omie-capture', {
       logger.error('Capture failed', error);
 
       return {
-        status: 500,
+        status: httpStatusFor(error),
         jsonBody: {
           success: false,
           source: 'omie',
@@ -1,13 +1,20 @@
 /**
- * Sync - omie-ops
+ * Sync - omie-ops (integrado ao mesh)
  *
- * POST /api/sync - Sincroniza transacao para Omie
+ * POST /api/omie/sync - Cria/atualiza a conta a pagar/receber no Omie
+ *
+ * Reenvio da mesma transação atualiza o lançamento (codigo_lancamento_integracao
+ * = id da transação). Dados insuficientes (sem categoria correspondente,
+ * sem contraparte...) voltam como skipped com o motivo, sem erro HTTP.
  */
 
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
-import { getOmieClient } from '../adapters/client';
+import { resolveOmieClient } from '../adapters/tenant';
+import { OmieSyncError, syncToOmie } from '../adapters/writeBack';
 import { SyncRequest, SyncResponse } from '../adapters/types';
 import { createLogger } from '../shared/utils';
+import { httpStatusFor } from '../../shared/tenant';
+import { updateTransaction } from '../../../storage/tableClient';
 
 const logger = createLogger('OmieSync');
 
@@ -18,28 +25,45 @@ app.http('omie-sync', {
   handler: async (req: HttpRequest, ctx: InvocationContext): Promise<HttpResponseInit> => {
     try {
       const body = (await req.json()) as SyncRequest;
-      const { transactionId, tipo } = body;
+      const { transactionId, clientId, tipo, existingExternalId } = body;
 
-      logger.info('Starting sync', { transactionId, tipo });
+      if (!transactionId || !clientId) {
+        return {
+          status: 400,
+          jsonBody: { success: false, action: 'skipped', error: 'transactionId e clientId são obrigatórios' },
+        };
+      }
 
-      // Omie sync uses JSON-RPC for creating contas a pagar/receber
-      // For now, return a placeholder - full implementation depends on
-      // the specific Omie methods needed (IncluirContaPagar, IncluirContaReceber)
+      logger.info('Starting sync', { transactionId, tipo, existingExternalId });
 
-      const response: SyncResponse = {
-        success: false,
-        action: 'skipped',
-        error: 'Omie sync write operations not yet implemented. Use capture for read-only.',
-      };
+      let response: SyncResponse;
+      try {
+        const client = await resolveOmieClient(clientId);
+        const result = await syncToOmie(client, body);
+        response = { success: true, action: result.action, externalId: result.omieId };
+      } catch (error) {
+        if (!(error instanceof OmieSyncError)) throw error;
+        logger.warn('Transaction not synced', { transactionId, motivo: error.message });
+        return { status: 200, jsonBody: { success: false, action: 'skipped', error: error.message } };
+      }
+
+      logger.info('Sync completed', { transactionId, action: response.action, omieId: response.externalId });
 
-      logger.info('Sync completed', { transactionId, action: response.action });
+      // Update transaction in mesh storage with external ID
+      if (response.externalId && response.externalId !== existingExternalId) {
+        try {
+          await updateTransaction(clientId, transactionId, { omieId: response.externalId });
+        } catch (err) {
+          logger.error('Failed to update transaction in mesh storage', err as Error);
+        }
+      }
 
       return { status: 200, jsonBody: response };
     } catch (error: any) {
       logger.error('Sync failed', error);
 
       return {
-        status: 500,
+        status: httpStatusFor(error),
         jsonBody: {
           success: false,
           action: 'skipped',
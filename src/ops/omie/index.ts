@@ -5,6 +5,7 @@
  * Responsavel por:
  * - Captura de contas a pagar/receber
  * - Sync de transacoes categorizadas
+ * - Baixa das contas conciliadas com o extrato
  * - Listagem de categorias
  */
 
@@ -12,6 +13,7 @@
 import './functions/health';
 import './functions/capture';
 import './functions/sync';
+import './functions/baixa';
 import './functions/categories';
 
 console.log('[mesh:omie-ops] Functions registered');
@@ -0,0 +1,75 @@
+/**
+ * CSV Reader - planilha-ops
+ *
+ * Leitor CSV (RFC 4180) com aspas, aspas escapadas ("") e quebras de linha
+ * dentro de campos. Delimitador detectado pela primeira linha quando não
+ * informado no perfil (bancos brasileiros usam ';' na maioria dos casos).
+ */
+
+import { PlanilhaGrid } from './types';
+
+const DELIMITADORES = [';', ',', '\t', '|'];
+
+export function detectDelimiter(content: string): string {
+  const firstLine = content.split(/\r?\n/, 1)[0] || '';
+  let melhor = ';';
+  let maior = 0;
+
+  for (const d of DELIMITADORES) {
+    const count = firstLine.split(d).length - 1;
+    if (count > maior) {
+      maior = count;
+      melhor = d;
+    }
+  }
+
+  return melhor;
+}
+
+export function parseCsv(content: string, delimitador?: string): PlanilhaGrid {
+  const text = content.replace(/^\uFEFF/, '');
+  const sep = delimitador === '\\t' ? '\t' : delimitador || detectDelimiter(text);
+  const rows: PlanilhaGrid = [];
+
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === sep) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.map((r) => r.map((c) => c.trim()));
+}
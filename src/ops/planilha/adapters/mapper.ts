@@ -0,0 +1,249 @@
+/**
+ * Mapper - planilha-ops
+ *
+ * Aplica um ImportMappingProfile sobre a grade lida do CSV/XLSX:
+ * localiza colunas, converte datas/valores conforme o perfil e decide
+ * entrada/saída pela convenção de sinal. Cada linha carrega seus erros,
+ * para o preview mostrar exatamente o que será (ou não) importado.
+ */
+
+import { ImportMappingProfile } from '../../../types';
+import { PlanilhaGrid, PlanilhaLinha } from './types';
+
+type Colunas = ImportMappingProfile['colunas'];
+
+const FORMATOS_SINAL: ImportMappingProfile['convencaoSinal'][] = [
+  'negativo_debito', 'positivo_debito', 'colunas_separadas', 'coluna_tipo',
+];
+const VALORES_DEBITO_PADRAO = ['D', 'DEBITO', 'DÉBITO', 'SAIDA', 'SAÍDA', '-'];
+
+// Excel: dia 0 = 1899-12-30 (bug do ano bissexto 1900 incluso)
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30);
+
+// ============================================================================
+// VALIDAÇÃO DO PERFIL
+// ============================================================================
+
+export function validateProfile(perfil: Partial<ImportMappingProfile>): string[] {
+  const errors: string[] = [];
+
+  if (!perfil.nome) errors.push('nome é obrigatório');
+  if (perfil.formato !== 'csv' && perfil.formato !== 'excel') errors.push('formato deve ser csv ou excel');
+  if (!perfil.colunas?.data) errors.push('colunas.data é obrigatório');
+  if (!perfil.colunas?.descricao) errors.push('colunas.descricao é obrigatório');
+  if (perfil.separadorDecimal !== ',' && perfil.separadorDecimal !== '.') errors.push('separadorDecimal deve ser "," ou "."');
+  if (perfil.separadorMilhar && perfil.separadorMilhar === perfil.separadorDecimal) {
+    errors.push('separadorMilhar não pode ser igual ao separadorDecimal');
+  }
+  if (!perfil.formatoData || !/DD/.test(perfil.formatoData) || !/MM/.test(perfil.formatoData) || !/YY/.test(perfil.formatoData)) {
+    errors.push('formatoData deve conter DD, MM e YY/YYYY');
+  }
+
+  if (!perfil.convencaoSinal || !FORMATOS_SINAL.includes(perfil.convencaoSinal)) {
+    errors.push(`convencaoSinal deve ser um de: ${FORMATOS_SINAL.join(', ')}`);
+  } else if (perfil.convencaoSinal === 'colunas_separadas') {
+    if (!perfil.colunas?.debito || !perfil.colunas?.credito) errors.push('colunas_separadas exige colunas.debito e colunas.credito');
+  } else {
+    if (!perfil.colunas?.valor) errors.push('colunas.valor é obrigatório');
+    if (perfil.convencaoSinal === 'coluna_tipo' && !perfil.colunas?.tipo) errors.push('coluna_tipo exige colunas.tipo');
+  }
+
+  return errors;
+}
+
+// ============================================================================
+// APLICAÇÃO
+// ============================================================================
+
+export function aplicarPerfil(
+  grid: PlanilhaGrid,
+  perfil: ImportMappingProfile
+): { cabecalho: string[]; linhas: PlanilhaLinha[] } {
+  const headerRow = perfil.linhaCabecalho ?? 1;
+  const cabecalho = headerRow > 0 ? grid[headerRow - 1] || [] : [];
+  const indices = resolveColumns(perfil.colunas, cabecalho);
+  const linhas: PlanilhaLinha[] = [];
+
+  for (let i = headerRow; i < grid.length; i++) {
+    const row = grid[i] || [];
+    if (row.every((c) => !c)) continue;
+
+    const linha = mapRow(row, i + 1, indices, perfil);
+    linhas.push(linha);
+  }
+
+  return { cabecalho, linhas };
+}
+
+function mapRow(
+  row: string[],
+  numero: number,
+  indices: Record<keyof Colunas, number | undefined>,
+  perfil: ImportMappingProfile
+): PlanilhaLinha {
+  const erros: string[] = [];
+  const cell = (col: keyof Colunas) => {
+    const idx = indices[col];
+    return idx === undefined ? '' : (row[idx] || '').trim();
+  };
+
+  for (const [col, idx] of Object.entries(indices)) {
+    if (idx === undefined && perfil.colunas[col as keyof Colunas]) {
+      erros.push(`Coluna "${perfil.colunas[col as keyof Colunas]}" (${col}) não encontrada`);
+    }
+  }
+
+  const rawData = cell('data');
+  const data = parseDataPlanilha(rawData, perfil.formatoData);
+  if (!data) erros.push(`Data inválida: "${rawData}" (esperado ${perfil.formatoData})`);
+
+  const { valor, tipo, erro } = resolveValor(cell, perfil);
+  if (erro) erros.push(erro);
+
+  const descricao = cell('descricao');
+  if (!descricao) erros.push('Descrição vazia');
+
+  return {
+    linha: numero,
+    data,
+    valor,
+    tipo,
+    descricao: descricao || undefined,
+    contraparte: cell('contraparte') || undefined,
+    documento: cell('documento') || undefined,
+    erros,
+  };
+}
+
+function resolveValor(
+  cell: (col: keyof Colunas) => string,
+  perfil: ImportMappingProfile
+): { valor?: number; tipo?: 'entrada' | 'saida'; erro?: string } {
+  const parse = (raw: string) => parseValorPlanilha(raw, perfil.separadorDecimal, perfil.separadorMilhar);
+
+  if (perfil.convencaoSinal === 'colunas_separadas') {
+    const debito = cell('debito') ? parse(cell('debito')) : undefined;
+    const credito = cell('credito') ? parse(cell('credito')) : undefined;
+
+    if (debito) return { valor: Math.abs(debito), tipo: 'saida' };
+    if (credito) return { valor: Math.abs(credito), tipo: 'entrada' };
+    return { erro: `Valor inválido: débito "${cell('debito')}", crédito "${cell('credito')}"` };
+  }
+
+  const raw = cell('valor');
+  const valor = parse(raw);
+  if (valor === undefined || valor === 0) return { erro: `Valor inválido: "${raw}"` };
+
+  if (perfil.convencaoSinal === 'coluna_tipo') {
+    const marcador = cell('tipo').toUpperCase();
+    const debitos = (perfil.valoresDebito || VALORES_DEBITO_PADRAO).map((v) => v.toUpperCase());
+    return { valor: Math.abs(valor), tipo: debitos.includes(marcador) ? 'saida' : 'entrada' };
+  }
+
+  const negativoEhSaida = perfil.convencaoSinal === 'negativo_debito';
+  return {
+    valor: Math.abs(valor),
+    tipo: (valor < 0) === negativoEhSaida ? 'saida' : 'entrada',
+  };
+}
+
+/** Coluna por nome do cabeçalho (sem acento/caixa) ou índice 1-based */
+function resolveColumns(
+  colunas: Colunas,
+  cabecalho: string[]
+): Record<keyof Colunas, number | undefined> {
+  const normalizado = cabecalho.map(normalizeHeader);
+  const result = {} as Record<keyof Colunas, number | undefined>;
+
+  for (const [key, ref] of Object.entries(colunas) as Array<[keyof Colunas, string | undefined]>) {
+    if (!ref) continue;
+    if (/^\d+$/.test(ref)) {
+      result[key] = parseInt(ref, 10) - 1;
+      continue;
+    }
+    const idx = normalizado.indexOf(normalizeHeader(ref));
+    result[key] = idx >= 0 ? idx : undefined;
+  }
+
+  return result;
+}
+
+// ============================================================================
+// CONVERSORES
+// ============================================================================
+
+/**
+ * Converte data conforme máscara (DD, MM, YYYY, YY). Aceita também número
+ * serial do Excel, que é como datas chegam do .xlsx sem leitura de estilos.
+ */
+export function parseDataPlanilha(raw: string, formato: string): string | undefined {
+  if (!raw) return undefined;
+
+  if (/^\d{5}(\.\d+)?$/.test(raw)) {
+    const date = new Date(EXCEL_EPOCH_MS + Math.floor(parseFloat(raw)) * 86400000);
+    return date.toISOString().substring(0, 10);
+  }
+
+  const tokens: string[] = [];
+  const pattern = formato
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/YYYY|YY|MM|DD/g, (token) => {
+      tokens.push(token);
+      return token === 'YYYY' ? '(\\d{4})' : '(\\d{1,2})';
+    });
+
+  const match = raw.trim().match(new RegExp(`^${pattern}(?:[ T].*)?$`));
+  if (!match) return undefined;
+
+  let year = 0, month = 0, day = 0;
+  tokens.forEach((token, i) => {
+    const value = parseInt(match[i + 1], 10);
+    if (token === 'DD') day = value;
+    else if (token === 'MM') month = value;
+    else year = token === 'YY' ? 2000 + value : value;
+  });
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return undefined;
+
+  return date.toISOString().substring(0, 10);
+}
+
+/** Converte valor conforme separadores do perfil ("1.234,56", "(1,234.56)", "-R$ 10,00") */
+export function parseValorPlanilha(
+  raw: string,
+  decimal: ',' | '.',
+  milhar?: string
+): number | undefined {
+  if (!raw) return undefined;
+
+  let text = raw.trim();
+  let negative = false;
+
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (/-\s*$/.test(text) || /^\s*-/.test(text) || /-\s*R\$/.test(text)) {
+    negative = true;
+  }
+
+  // Sem separadorMilhar no perfil, assume o oposto do decimal; '' = nenhum
+  const sepMilhar = milhar ?? (decimal === ',' ? '.' : ',');
+  text = text.replace(/R\$|[\s-]/g, '');
+  if (sepMilhar) text = text.split(sepMilhar).join('');
+  if (decimal === ',') text = text.replace(',', '.');
+
+  if (!/^\d+(\.\d+)?$/.test(text)) return undefined;
+
+  const value = Math.round(parseFloat(text) * 100) / 100;
+  return negative ? -value : value;
+}
+
+function normalizeHeader(value: string): string {
+  return (value || '')
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]/g, '');
+}
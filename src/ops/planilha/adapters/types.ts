@@ -0,0 +1,47 @@
+/**
+ * Types - planilha-ops
+ *
+ * Importação de extratos em CSV/Excel com perfis de mapeamento por cliente.
+ * O perfil em si (ImportMappingProfile) é compartilhado e fica em shared/types.
+ */
+
+import { ImportMappingProfile } from '../../../types';
+
+/** Grade de células lida do arquivo (linhas x colunas, tudo como texto) */
+export type PlanilhaGrid = string[][];
+
+/** Linha da planilha após aplicar o perfil */
+export interface PlanilhaLinha {
+  linha: number; // número da linha no arquivo (1-based)
+  data?: string; // YYYY-MM-DD
+  valor?: number; // sempre positivo
+  tipo?: 'entrada' | 'saida';
+  descricao?: string;
+  contraparte?: string;
+  documento?: string;
+  erros: string[];
+}
+
+export interface PlanilhaRequest {
+  perfilId?: string;
+  perfil?: Partial<ImportMappingProfile>; // perfil avulso (não salvo), útil para testar mapeamento
+  nomeArquivo?: string;
+  conteudo?: string; // CSV em texto
+  conteudoBase64?: string; // CSV ou XLSX
+  cycleId?: string;
+  ignorarInvalidas?: boolean;
+  limite?: number; // preview: máximo de linhas retornadas
+}
+
+export interface PlanilhaPreviewResponse {
+  success: boolean;
+  clientId: string;
+  perfil: { id?: string; nome?: string };
+  formato: 'csv' | 'excel';
+  cabecalho: string[];
+  total: number;
+  validas: number;
+  invalidas: number;
+  linhas: PlanilhaLinha[];
+  erros: Array<{ linha: number; mensagens: string[] }>;
+}
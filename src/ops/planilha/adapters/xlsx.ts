@@ -0,0 +1,171 @@
+/**
+ * XLSX Reader - planilha-ops
+ *
+ * Leitor mínimo de .xlsx (Office Open XML) sem dependências externas:
+ * o arquivo é um ZIP com XMLs; lemos o diretório central, descompactamos
+ * (deflate) com zlib e extraímos a aba pedida + sharedStrings.
+ *
+ * Suporta células texto (shared/inline), número e booleano. Fórmulas
+ * retornam o último valor calculado (<v>). Estilos não são lidos, então
+ * datas chegam como número serial do Excel (tratado no mapper).
+ */
+
+import * as zlib from 'zlib';
+import { PlanilhaGrid } from './types';
+
+const SIG_EOCD = 0x06054b50;
+const SIG_CENTRAL = 0x02014b50;
+const SIG_LOCAL = 0x04034b50;
+
+// ============================================================================
+// ZIP
+// ============================================================================
+
+export function isXlsx(buffer: Buffer): boolean {
+  return buffer.length > 4 && buffer.readUInt32LE(0) === SIG_LOCAL;
+}
+
+function readZipEntries(buffer: Buffer): Map<string, Buffer> {
+  const entries = new Map<string, Buffer>();
+
+  // End of central directory: últimos 22 bytes + comentário opcional (até 64KB)
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+    if (buffer.readUInt32LE(i) === SIG_EOCD) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('Arquivo Excel inválido (ZIP sem diretório central)');
+
+  const total = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+
+  for (let n = 0; n < total; n++) {
+    if (buffer.readUInt32LE(offset) !== SIG_CENTRAL) break;
+
+    const method = buffer.readUInt16LE(offset + 10);
+    const compSize = buffer.readUInt32LE(offset + 20);
+    const nameLen = buffer.readUInt16LE(offset + 28);
+    const extraLen = buffer.readUInt16LE(offset + 30);
+    const commentLen = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLen);
+
+    const localNameLen = buffer.readUInt16LE(localOffset + 26);
+    const localExtraLen = buffer.readUInt16LE(localOffset + 28);
+    const start = localOffset + 30 + localNameLen + localExtraLen;
+    const data = buffer.subarray(start, start + compSize);
+
+    if (method === 0) entries.set(name, data);
+    else if (method === 8) entries.set(name, zlib.inflateRawSync(data));
+
+    offset += 46 + nameLen + extraLen + commentLen;
+  }
+
+  return entries;
+}
+
+// ============================================================================
+// WORKBOOK
+// ============================================================================
+
+export function readXlsx(buffer: Buffer, planilha?: string): PlanilhaGrid {
+  const entries = readZipEntries(buffer);
+  const text = (name: string) => entries.get(name)?.toString('utf8');
+
+  const sharedStrings = parseSharedStrings(text('xl/sharedStrings.xml'));
+  const sheetPath = resolveSheetPath(text('xl/workbook.xml'), text('xl/_rels/workbook.xml.rels'), planilha);
+  const sheetXml = text(sheetPath);
+
+  if (!sheetXml) {
+    throw new Error(planilha ? `Aba "${planilha}" não encontrada na planilha` : 'Planilha sem abas');
+  }
+
+  return parseSheet(sheetXml, sharedStrings);
+}
+
+function resolveSheetPath(workbook?: string, rels?: string, planilha?: string): string {
+  const sheets = [...(workbook || '').matchAll(/<sheet\b([^>]*)\/?>/g)].map((m) => ({
+    name: decodeXml(attr(m[1], 'name') || ''),
+    rId: attr(m[1], 'r:id'),
+  }));
+
+  const sheet = planilha
+    ? sheets.find((s) => s.name.toLowerCase() === planilha.toLowerCase())
+    : sheets[0];
+  if (!sheet) return planilha ? '' : 'xl/worksheets/sheet1.xml';
+
+  const rel = [...(rels || '').matchAll(/<Relationship\b([^>]*)\/?>/g)]
+    .map((m) => m[1])
+    .find((r) => attr(r, 'Id') === sheet.rId);
+  const target = rel ? attr(rel, 'Target') || '' : '';
+
+  if (!target) return 'xl/worksheets/sheet1.xml';
+  return target.startsWith('/') ? target.substring(1) : `xl/${target}`;
+}
+
+function parseSharedStrings(xml?: string): string[] {
+  if (!xml) return [];
+  return [...xml.matchAll(/<si>([\s\S]*?)<\/si>/g)].map((m) => textRuns(m[1]));
+}
+
+function parseSheet(xml: string, sharedStrings: string[]): PlanilhaGrid {
+  const grid: PlanilhaGrid = [];
+
+  for (const rowMatch of xml.matchAll(/<row\b([^>]*)>([\s\S]*?)<\/row>/g)) {
+    const rowIndex = parseInt(attr(rowMatch[1], 'r') || String(grid.length + 1), 10) - 1;
+    const row: string[] = [];
+
+    for (const cell of rowMatch[2].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const ref = attr(cell[1], 'r');
+      const col = ref ? columnIndex(ref) : row.length;
+      const type = attr(cell[1], 't');
+      const body = cell[2] || '';
+      const v = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let value = '';
+      if (type === 's') value = sharedStrings[parseInt(v || '0', 10)] || '';
+      else if (type === 'inlineStr') value = textRuns(body);
+      else if (type === 'b') value = v === '1' ? 'TRUE' : 'FALSE';
+      else value = decodeXml(v || '');
+
+      row[col] = value.trim();
+    }
+
+    grid[rowIndex] = Array.from(row, (c) => c ?? '');
+  }
+
+  return Array.from(grid, (r) => r ?? []);
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** "AB12" → 27 (0-based) */
+function columnIndex(ref: string): number {
+  const letters = ref.replace(/\d+$/, '').toUpperCase();
+  let index = 0;
+  for (const ch of letters) index = index * 26 + (ch.charCodeAt(0) - 64);
+  return index - 1;
+}
+
+function textRuns(xml: string): string {
+  return [...xml.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g)].map((m) => decodeXml(m[1])).join('');
+}
+
+function attr(attrs: string, name: string): string | undefined {
+  const escaped = name.replace(':', '\\:');
+  return attrs.match(new RegExp(`(?:^|\\s)${escaped}="([^"]*)"`))?.[1];
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,253 @@
+/**
+ * Importação - planilha-ops (integrado ao mesh)
+ *
+ * POST /api/planilha/clientes/{clientId}/preview  - Aplica o perfil e mostra linhas + erros (não salva)
+ * POST /api/planilha/clientes/{clientId}/importar - Persiste as linhas válidas como CAPTURADO
+ *
+ * Body: { perfilId | perfil, conteudo | conteudoBase64, nomeArquivo?, cycleId?, ignorarInvalidas?, limite? }
+ *
+ * Sem ignorarInvalidas, a importação é recusada (422) se houver qualquer linha
+ * inválida — o operador corrige o perfil/arquivo no preview antes de confirmar.
+ */
+
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import * as crypto from 'crypto';
+import { parseCsv } from '../adapters/csv';
+import { readXlsx, isXlsx } from '../adapters/xlsx';
+import { aplicarPerfil, validateProfile } from '../adapters/mapper';
+import { PlanilhaGrid, PlanilhaLinha, PlanilhaPreviewResponse, PlanilhaRequest } from '../adapters/types';
+import { createLogger, nowISO, todayYMD } from '../shared/utils';
+import {
+  getImportProfile,
+  getExistingSourceIds,
+  upsertTransactionsIdempotent,
+} from '../../../storage/tableClient';
+import {
+  ImportMappingProfile,
+  Transaction,
+  TransactionSource,
+  TransactionStatus,
+  TransactionType,
+} from '../../../types';
+
+const logger = createLogger('PlanilhaImport');
+
+const PREVIEW_LIMITE_PADRAO = 200;
+
+function shortHash(input: string): string {
+  return crypto.createHash('sha256').update(input).digest('hex').substring(0, 16);
+}
+
+class PlanilhaRequestError extends Error {
+  constructor(message: string, public readonly status: number = 400, public readonly errors?: string[]) {
+    super(message);
+  }
+}
+
+// ============================================================================
+// LEITURA + MAPEAMENTO
+// ============================================================================
+
+async function resolvePerfil(clientId: string, body: PlanilhaRequest): Promise<ImportMappingProfile> {
+  if (body.perfilId) {
+    const perfil = await getImportProfile(clientId, body.perfilId);
+    if (!perfil) throw new PlanilhaRequestError('Perfil não encontrado', 404);
+    return perfil;
+  }
+
+  if (!body.perfil) throw new PlanilhaRequestError('perfilId ou perfil é obrigatório');
+
+  const errors = validateProfile(body.perfil);
+  if (errors.length > 0) throw new PlanilhaRequestError('Perfil inválido', 400, errors);
+
+  return { ...(body.perfil as ImportMappingProfile), clientId };
+}
+
+function lerArquivo(body: PlanilhaRequest, perfil: ImportMappingProfile): PlanilhaGrid {
+  if (body.conteudoBase64) {
+    const buffer = Buffer.from(body.conteudoBase64, 'base64');
+    if (isXlsx(buffer)) return readXlsx(buffer, perfil.planilha);
+    if (perfil.formato === 'excel') throw new PlanilhaRequestError('Perfil é Excel mas o arquivo não é .xlsx');
+    return parseCsv(buffer.toString('utf8'), perfil.delimitador);
+  }
+
+  if (body.conteudo) {
+    if (perfil.formato === 'excel') throw new PlanilhaRequestError('Arquivo Excel deve ser enviado em conteudoBase64');
+    return parseCsv(body.conteudo, perfil.delimitador);
+  }
+
+  throw new PlanilhaRequestError('conteudo ou conteudoBase64 é obrigatório');
+}
+
+export function buildPreview(
+  clientId: string,
+  grid: PlanilhaGrid,
+  perfil: ImportMappingProfile,
+  limite: number = PREVIEW_LIMITE_PADRAO
+): PlanilhaPreviewResponse {
+  const { cabecalho, linhas } = aplicarPerfil(grid, perfil);
+  const invalidas = linhas.filter((l) => l.erros.length > 0);
+
+  return {
+    success: true,
+    clientId,
+    perfil: { id: perfil.id, nome: perfil.nome },
+    formato: perfil.formato,
+    cabecalho,
+    total: linhas.length,
+    validas: linhas.length - invalidas.length,
+    invalidas: invalidas.length,
+    linhas: linhas.slice(0, limite),
+    erros: invalidas.map((l) => ({ linha: l.linha, mensagens: l.erros })),
+  };
+}
+
+// ============================================================================
+// CONVERSOR LINHA -> TRANSACTION
+// ============================================================================
+
+/**
+ * sourceId = hash do conteúdo da linha + ordinal entre linhas idênticas,
+ * para que reimportar o mesmo arquivo não duplique e dois lançamentos
+ * iguais no mesmo dia continuem distintos.
+ */
+export function linhasToTransactions(
+  linhas: PlanilhaLinha[],
+  perfil: ImportMappingProfile,
+  clientId: string,
+  cycleId: string,
+  nomeArquivo?: string
+): Transaction[] {
+  const source = perfil.formato === 'excel' ? TransactionSource.EXCEL : TransactionSource.CSV;
+  const ocorrencias = new Map<string, number>();
+  const now = nowISO();
+
+  return linhas
+    .filter((l) => l.erros.length === 0)
+    .map((l) => {
+      const chave = shortHash([l.data, l.valor, l.tipo, l.descricao, l.documento || ''].join('|'));
+      const ordinal = (ocorrencias.get(chave) || 0) + 1;
+      ocorrencias.set(chave, ordinal);
+      const sourceId = `${chave}-${ordinal}`;
+
+      return {
+        id: `${source}-${shortHash(`${clientId}-${sourceId}`)}`,
+        clientId,
+        type: l.tipo === 'saida' ? TransactionType.PAGAR : TransactionType.RECEBER,
+        status: TransactionStatus.CAPTURADO,
+        source,
+        valor: l.valor!,
+        dataVencimento: l.data,
+        dataRealizacao: l.data,
+        descricao: l.descricao!,
+        descricaoOriginal: l.descricao,
+        contraparte: l.contraparte,
+        numeroDocumento: l.documento,
+        sourceId,
+        sourceName: perfil.nome,
+        metadata: {
+          perfilId: perfil.id,
+          arquivo: nomeArquivo,
+          linha: l.linha,
+        },
+        createdAt: now,
+        updatedAt: now,
+        capturedAt: now,
+        cycleId,
+      } as Transaction;
+    });
+}
+
+// ============================================================================
+// HTTP HANDLERS
+// ============================================================================
+
+function errorResponse(error: any): HttpResponseInit {
+  if (error instanceof PlanilhaRequestError) {
+    return { status: error.status, jsonBody: { success: false, message: error.message, errors: error.errors } };
+  }
+  logger.error('Erro na importação de planilha', error);
+  return { status: 500, jsonBody: { success: false, message: error.message || 'Erro ao processar planilha' } };
+}
+
+app.http('planilha-preview', {
+  methods: ['POST'],
+  authLevel: 'function',
+  route: 'planilha/clientes/{clientId}/preview',
+  handler: async (req: HttpRequest, ctx: InvocationContext): Promise<HttpResponseInit> => {
+    const clientId = req.params.clientId;
+
+    try {
+      const body = (await req.json()) as PlanilhaRequest;
+      const perfil = await resolvePerfil(clientId, body);
+      const grid = lerArquivo(body, perfil);
+
+      return { status: 200, jsonBody: buildPreview(clientId, grid, perfil, body.limite) };
+    } catch (error: any) {
+      return errorResponse(error);
+    }
+  },
+});
+
+app.http('planilha-importar', {
+  methods: ['POST'],
+  authLevel: 'function',
+  route: 'planilha/clientes/{clientId}/importar',
+  handler: async (req: HttpRequest, ctx: InvocationContext): Promise<HttpResponseInit> => {
+    const startTime = Date.now();
+    const clientId = req.params.clientId;
+
+    try {
+      const body = (await req.json()) as PlanilhaRequest;
+      const perfil = await resolvePerfil(clientId, body);
+      const grid = lerArquivo(body, perfil);
+      const { linhas } = aplicarPerfil(grid, perfil);
+
+      const invalidas = linhas.filter((l) => l.erros.length > 0);
+      if (invalidas.length > 0 && !body.ignorarInvalidas) {
+        return {
+          status: 422,
+          jsonBody: {
+            success: false,
+            message: `${invalidas.length} linha(s) inválida(s); corrija ou envie ignorarInvalidas=true`,
+            erros: invalidas.map((l) => ({ linha: l.linha, mensagens: l.erros })),
+          },
+        };
+      }
+
+      const cycleId = body.cycleId || `planilha-${todayYMD()}`;
+      const transactions = linhasToTransactions(linhas, perfil, clientId, cycleId, body.nomeArquivo);
+
+      let result = { created: [] as string[], updated: [] as string[], skipped: [] as string[] };
+      if (transactions.length > 0) {
+        const existingSourceIds = await getExistingSourceIds(clientId, transactions[0].source);
+        result = await upsertTransactionsIdempotent(transactions, existingSourceIds);
+      }
+
+      logger.info(`Planilha importada para ${clientId}`, {
+        perfil: perfil.id, created: result.created.length, skipped: result.skipped.length,
+      });
+
+      return {
+        status: 200,
+        jsonBody: {
+          success: true,
+          clientId,
+          cycleId,
+          perfil: { id: perfil.id, nome: perfil.nome },
+          arquivo: body.nomeArquivo,
+          ignoradas: invalidas.length,
+          transactions: {
+            total: transactions.length,
+            new: result.created.length,
+            updated: result.updated.length,
+            skipped: result.skipped.length,
+          },
+          durationMs: Date.now() - startTime,
+        },
+      };
+    } catch (error: any) {
+      return errorResponse(error);
+    }
+  },
+});
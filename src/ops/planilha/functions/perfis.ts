@@ -0,0 +1,95 @@
+/**
+ * Perfis de Mapeamento - planilha-ops (integrado ao mesh)
+ *
+ * GET    /api/planilha/clientes/{clientId}/perfis             - Lista perfis do cliente
+ * POST   /api/planilha/clientes/{clientId}/perfis             - Cria/atualiza perfil (id no body = atualização)
+ * DELETE /api/planilha/clientes/{clientId}/perfis/{perfilId}  - Remove perfil
+ */
+
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import * as crypto from 'crypto';
+import { validateProfile } from '../adapters/mapper';
+import { createLogger, nowISO } from '../shared/utils';
+import {
+  getImportProfiles,
+  getImportProfile,
+  saveImportProfile,
+  deleteImportProfile,
+} from '../../../storage/tableClient';
+import { ImportMappingProfile } from '../../../types';
+
+const logger = createLogger('PlanilhaPerfis');
+
+app.http('planilha-perfis-list', {
+  methods: ['GET'],
+  authLevel: 'function',
+  route: 'planilha/clientes/{clientId}/perfis',
+  handler: async (req: HttpRequest, ctx: InvocationContext): Promise<HttpResponseInit> => {
+    try {
+      const perfis = await getImportProfiles(req.params.clientId);
+      return { status: 200, jsonBody: { clientId: req.params.clientId, total: perfis.length, perfis } };
+    } catch (error: any) {
+      logger.error('Erro ao listar perfis', error);
+      return { status: 500, jsonBody: { error: 'Erro ao listar perfis de importação' } };
+    }
+  },
+});
+
+app.http('planilha-perfis-save', {
+  methods: ['POST'],
+  authLevel: 'function',
+  route: 'planilha/clientes/{clientId}/perfis',
+  handler: async (req: HttpRequest, ctx: InvocationContext): Promise<HttpResponseInit> => {
+    const clientId = req.params.clientId;
+
+    try {
+      const body = (await req.json()) as Partial<ImportMappingProfile>;
+
+      const errors = validateProfile(body);
+      if (errors.length > 0) {
+        return { status: 400, jsonBody: { success: false, message: 'Perfil inválido', errors } };
+      }
+
+      const existing = body.id ? await getImportProfile(clientId, body.id) : null;
+      const now = nowISO();
+
+      const perfil: ImportMappingProfile = {
+        ...(body as ImportMappingProfile),
+        id: existing?.id || body.id || `perfil-${crypto.randomUUID().substring(0, 8)}`,
+        clientId,
+        criadoEm: existing?.criadoEm || now,
+        atualizadoEm: now,
+      };
+
+      await saveImportProfile(perfil);
+      logger.info(`Perfil ${perfil.id} salvo para ${clientId}`);
+
+      return { status: existing ? 200 : 201, jsonBody: { success: true, perfil } };
+    } catch (error: any) {
+      logger.error('Erro ao salvar perfil', error);
+      return { status: 500, jsonBody: { success: false, message: 'Erro ao salvar perfil de importação' } };
+    }
+  },
+});
+
+app.http('planilha-perfis-delete', {
+  methods: ['DELETE'],
+  authLevel: 'function',
+  route: 'planilha/clientes/{clientId}/perfis/{perfilId}',
+  handler: async (req: HttpRequest, ctx: InvocationContext): Promise<HttpResponseInit> => {
+    const { clientId, perfilId } = req.params;
+
+    try {
+      const existing = await getImportProfile(clientId, perfilId);
+      if (!existing) {
+        return { status: 404, jsonBody: { success: false, message: 'Perfil não encontrado' } };
+      }
+
+      await deleteImportProfile(clientId, perfilId);
+      return { status: 200, jsonBody: { success: true, message: `Perfil ${perfilId} removido` } };
+    } catch (error: any) {
+      logger.error('Erro ao remover perfil', error);
+      return { status: 500, jsonBody: { success: false, message: 'Erro ao remover perfil de importação' } };
+    }
+  },
+});
@@ -0,0 +1,19 @@
+/**
+ * planilha-ops (integrado ao mesh)
+ *
+ * Importação de extratos em CSV/Excel com perfis de mapeamento por cliente.
+ *
+ * Responsável por:
+ * - Leitura de CSV (delimitador detectado) e .xlsx (leitor ZIP/XML interno)
+ * - Perfis salvos por cliente: colunas, separadores, formato de data e sinal
+ * - Preview com erros por linha antes de confirmar
+ * - Persistência idempotente como CAPTURADO (source csv | excel)
+ *
+ * Rotas: /api/planilha/*
+ */
+
+// Functions
+import './functions/perfis';
+import './functions/importar';
+
+console.log('[mesh:planilha-ops] Functions registered');
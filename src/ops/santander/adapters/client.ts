@@ -272,7 +272,8 @@ export class SantanderClient {
     endpoint: string,
     method: 'GET' | 'POST' = 'GET',
     params?: Record<string, string | number | undefined>,
-    body?: unknown
+    body?: unknown,
+    extraHeaders?: Record<string, string>
   ): Promise<T> {
     const token = await this.getToken();
 
@@ -302,6 +303,8 @@ export class SantanderClient {
       headers['X-Workspace-Id'] = this.config.workspaceId;
     }
 
+    Object.assign(headers, extraHeaders);
+
     return withRetry(
       async () => {
         // Use httpFetch for mTLS support
@@ -500,8 +503,12 @@ export class SantanderClient {
     }
   }
 
-  async createPIX(data: PIXCreateParams): Promise<SantanderPIX | null> {
-    logger.info('Creating PIX payment', { amount: data.amount });
+  /**
+   * Cria pagamento PIX. Com idempotencyKey, reenvios da mesma chave
+   * retornam o pagamento já criado em vez de duplicar.
+   */
+  async createPIX(data: PIXCreateParams, idempotencyKey?: string): Promise<SantanderPIX | null> {
+    logger.info('Creating PIX payment', { amount: data.amount, idempotencyKey });
 
     try {
       const workspace = await this.getWorkspace();
@@ -513,7 +520,8 @@ export class SantanderClient {
         `/management_payments_partners/v1/workspaces/${workspace.id}/pix_payments`,
         'POST',
         undefined,
-        data
+        data,
+        idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined
       );
     } catch (error) {
       logger.error('Failed to create PIX', error);
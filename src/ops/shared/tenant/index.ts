@@ -0,0 +1,25 @@
+/**
+ * Tenant - Resolução do cliente nas rotas do ops
+ *
+ * Rotas por cliente exigem o clientId de um cliente cadastrado: sem ele,
+ * 400; desconhecido, 404. As credenciais globais (env vars) só valem com
+ * OPS_SINGLE_TENANT=true, instalação dedicada a um único cliente.
+ */
+
+/** clientId ausente (400) ou cliente não cadastrado (404) */
+export class TenantResolutionError extends Error {
+  constructor(message: string, public readonly status: 400 | 404) {
+    super(message);
+    this.name = 'TenantResolutionError';
+  }
+}
+
+/** Modo single-tenant explícito: rotas sem clientId usam as env vars */
+export function isSingleTenantMode(): boolean {
+  return process.env.OPS_SINGLE_TENANT === 'true';
+}
+
+/** Status HTTP de um erro da rota (resolução do tenant ou 500) */
+export function httpStatusFor(error: unknown): number {
+  return error instanceof TenantResolutionError ? error.status : 500;
+}
@@ -1,6 +1,6 @@
 import * as df from 'durable-functions';
 import { OrchestrationContext, OrchestrationHandler } from 'durable-functions';
-import { CycleStatus } from '../types';
+import { CycleStatus, SyncBatchOutput } from '../types';
 
 /**
  * Client Processing Orchestrator (Sub-Orchestrator)
@@ -12,7 +12,10 @@ import { CycleStatus } from '../types';
  * 4. Detect Anomalies
  * 5. Match
  * 6. Decide
- * 7. Sync / Notify
+ * 7. Sync (ERP do cliente) / Notify
+ *
+ * Com pipeline 'filas' o orquestrador só publica as capturas nas filas;
+ * as demais etapas rodam nos workers (triggers/pipelineWorkers).
  */
 export interface ClientProcessingInput {
     clientId: string;
@@ -44,6 +47,16 @@ const clientOrchestrator: OrchestrationHandler = function* (context: Orchestrati
         const sources: string[] = tenantConfig.sources && tenantConfig.sources.length > 0
             ? tenantConfig.sources
             : ['nibo', 'santander', 'getnet']; // fallback seguro
+
+        if (tenantConfig.pipeline === 'filas') {
+            const queued = yield context.df.callActivity('enqueueCaptureActivity', { clientId, cycleId, sources });
+            return {
+                status: 'success',
+                clientId,
+                details: { processedCount: 0, autoApprovedCount: 0, pipeline: 'filas', ...queued }
+            };
+        }
+
         const captureTasks = sources.map(source =>
             context.df.callActivity('captureActivity', { clientId, cycleId, source })
         );
@@ -57,13 +70,10 @@ const clientOrchestrator: OrchestrationHandler = function* (context: Orchestrati
             captureResults
         });
 
-        // 4. Sync (Only for approved transactions)
+        // 4. Sync (Only for approved transactions) — ERP vem do Client.sistema
+        let syncResult: SyncBatchOutput | null = null;
         if (aiResult.syncCandidates.length > 0) {
-            yield context.df.callActivity('syncBatchActivity', {
-                clientId,
-                cycleId,
-                transactions: aiResult.syncCandidates
-            });
+            syncResult = yield context.df.callActivity('syncBatchActivity', { clientId, cycleId });
         }
 
         // 5. Notify (Daily Summary)
@@ -110,7 +120,7 @@ const clientOrchestrator: OrchestrationHandler = function* (context: Orchestrati
         return {
             status: 'success',
             clientId,
-            details: aiResult
+            details: { ...aiResult, sync: syncResult }
         };
 
     } catch (error: any) {
@@ -5,8 +5,13 @@
  * 1. Para cada cliente (fan-out)
  * 2. Captura de todas as fontes (paralelo)
  * 3. Classificação IA
- * 4. Sync para destino (Nibo/Omie)
- * 5. Agrega resultados (fan-in)
+ * 4. Sync para o ERP do cliente (Nibo/Omie/Controlle)
+ * 5. Agrega resultados (fan-in) e o relatório de sync por ERP
+ * 6. Alertas de orçamento dos clientes processados
+ * 7. Digest de autorizações pendentes por WhatsApp (clientes com o canal ativo)
+ *
+ * Clientes com pipeline 'filas' só têm as capturas publicadas no passo 2;
+ * para eles os passos 6 e 7 rodam depois de uma janela para as filas drenarem.
  */
 
 import * as df from 'durable-functions';
@@ -20,9 +25,14 @@ import {
   CaptureActivityInput,
   CaptureActivityOutput,
   CycleStatus,
+  SyncBatchOutput,
+  SyncReport,
 } from '../types';
 import { updateCycle } from '../storage/tableClient';
 
+/** Espera antes dos alertas de clientes em filas (o pipeline não tem marco de fim) */
+const POS_CICLO_FILAS_ESPERA_MIN = 120;
+
 interface OrchestratorInput {
   cycleId: string;
   date: string;
@@ -52,6 +62,8 @@ const orchestrator: OrchestrationHandler = function* (
   let totalSynced = 0;
   let totalReview = 0;
   const errors: any[] = [];
+  const syncReport: SyncReport = {};
+  const clientesEmFilas: string[] = [];
 
   // Process each client in parallel (fan-out) using Sub-Orchestrator
   const clientTasks = clientIds.map((clientId) =>
@@ -69,17 +81,28 @@ const orchestrator: OrchestrationHandler = function* (
   for (const res of clientResults) {
     if (res.status === 'success') {
       const details = res.details;
+      const sync: SyncBatchOutput | null = details.sync || null;
+      if (details.pipeline === 'filas') clientesEmFilas.push(res.clientId);
       totalCaptured += details.processedCount || 0;
-      totalSynced += details.autoApprovedCount || 0;
+      totalSynced += sync?.synced || 0;
+
+      if (sync?.destination) {
+        const erp = syncReport[sync.destination] || { created: 0, updated: 0, skipped: 0, errors: 0 };
+        erp.created += sync.created;
+        erp.updated += sync.updated;
+        erp.skipped += sync.skipped;
+        erp.errors += sync.errors;
+        syncReport[sync.destination] = erp;
+      }
 
       results.push({
         clientId: res.clientId,
         status: 'success',
         captures: [], // Simplified for now
         classified: details.processedCount || 0,
-        synced: details.autoApprovedCount || 0,
+        synced: sync?.synced || 0,
         review: (details.processedCount || 0) - (details.autoApprovedCount || 0),
-        errors: [],
+        errors: (sync?.failures || []).map((f) => `sync ${f.transactionId}: ${f.error}`),
         durationMs: 0
       });
     } else {
@@ -97,6 +120,22 @@ const orchestrator: OrchestrationHandler = function* (
     }
   }
 
+  // Post-cycle: budget alerts (realizado do mês x orçado) and WhatsApp authorization digest
+  const postCycle = (ids: string[]) =>
+    ids.flatMap((clientId) => [
+      context.df.callActivity('checkBudgetAlertsActivity', { clientId, mes: date.substring(0, 7) }),
+      context.df.callActivity('sendAuthorizationDigestActivity', { clientId }),
+    ]);
+
+  const postCycleTasks = postCycle(
+    results
+      .filter((r) => r.status === 'success' && !clientesEmFilas.includes(r.clientId))
+      .map((r) => r.clientId)
+  );
+  if (postCycleTasks.length > 0) {
+    yield context.df.Task.all(postCycleTasks);
+  }
+
   // Update cycle with final stats
   const finalStatus =
     errors.length === 0
@@ -117,10 +156,18 @@ const orchestrator: OrchestrationHandler = function* (
     transactionsReview: totalReview,
     completedAt: new Date().toISOString(),
     errors,
+    syncReport,
   });
 
   context.log(`[Orchestrator] Cycle ${cycleId} completed with status ${finalStatus}`);
 
+  // Filas: alertas e digest só depois que as transações do dia passaram pelo pipeline
+  if (clientesEmFilas.length > 0) {
+    const espera = new Date(context.df.currentUtcDateTime.getTime() + POS_CICLO_FILAS_ESPERA_MIN * 60 * 1000);
+    yield context.df.createTimer(espera);
+    yield context.df.Task.all(postCycle(clientesEmFilas));
+  }
+
   return {
     cycleId,
     status: finalStatus,
@@ -132,6 +179,7 @@ const orchestrator: OrchestrationHandler = function* (
       review: totalReview,
       errors: errors.length,
     },
+    syncReport,
   };
 };
 
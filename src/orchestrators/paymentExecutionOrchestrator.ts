@@ -0,0 +1,92 @@
+/**
+ * Payment Execution Orchestrator - operacao-head
+ *
+ * Executa um pagamento aprovado via API do banco do cliente:
+ * 1. Envia ao banco (idempotente por autorização/tentativa) → transação AGENDADO;
+ *    sem resposta do banco, reenvia com a mesma chave
+ * 2. Consulta status periodicamente até PAGO (com comprovante)
+ * 3. Em falha, devolve a autorização à fila de aprovações
+ *
+ * Disparado na aprovação (bpoAutorizacoesAprovar) ou manualmente
+ * (POST /api/bpo/autorizacoes/{id}/pagamento). Uma instância por autorização.
+ */
+
+import * as df from 'durable-functions';
+import {
+  DurableClient,
+  OrchestrationContext,
+  OrchestrationHandler,
+} from 'durable-functions';
+import type { PaymentActivityOutput } from '../activities/paymentActivity';
+
+export interface PaymentExecutionInput {
+  authorizationId: string;
+}
+
+const REENVIO_INTERVAL_MIN = 5;
+const MAX_REENVIOS = 3;
+const POLL_INTERVAL_MIN = 15;
+const MAX_POLLS = 96; // 24h; depois disso segue AGENDADO até novo disparo manual
+
+const STATUS_FINAIS = ['pago', 'falha', 'ignorado'];
+
+const orchestrator: OrchestrationHandler = function* (context: OrchestrationContext) {
+  const { authorizationId } = context.df.getInput() as PaymentExecutionInput;
+
+  let result: PaymentActivityOutput = yield context.df.callActivity('submitPaymentActivity', { authorizationId });
+
+  // 'enviado' = envio sem resposta: o submit seguinte repete a mesma chave
+  for (let reenvio = 0; result.status === 'enviado' && reenvio < MAX_REENVIOS; reenvio++) {
+    const next = new Date(context.df.currentUtcDateTime.getTime() + REENVIO_INTERVAL_MIN * 60 * 1000);
+    yield context.df.createTimer(next);
+    result = yield context.df.callActivity('submitPaymentActivity', { authorizationId });
+  }
+  if (result.status === 'enviado') {
+    result = { ...result, status: 'falha', erro: `Banco sem resposta ao envio: ${result.erro || 'timeout'}` };
+  }
+
+  for (let poll = 0; result.status !== 'falha' && result.status !== 'ignorado'; poll++) {
+    result = yield context.df.callActivity('checkPaymentActivity', { authorizationId });
+    if (STATUS_FINAIS.includes(result.status) || poll >= MAX_POLLS) break;
+
+    const next = new Date(context.df.currentUtcDateTime.getTime() + POLL_INTERVAL_MIN * 60 * 1000);
+    yield context.df.createTimer(next);
+  }
+
+  if (result.status === 'falha') {
+    result = yield context.df.callActivity('failPaymentActivity', { authorizationId, erro: result.erro });
+  }
+
+  if (!context.df.isReplaying) {
+    context.log(`[PaymentOrchestrator] ${authorizationId} finalizado: ${result.status}`);
+  }
+
+  return result;
+};
+
+df.app.orchestration('paymentExecutionOrchestrator', orchestrator);
+
+/**
+ * Inicia a execução do pagamento, a menos que já exista uma em andamento
+ * para a mesma autorização. Retorna o instanceId.
+ */
+export async function startPaymentExecution(
+  durableClient: DurableClient,
+  authorizationId: string
+): Promise<string> {
+  const instanceId = `pagamento-${authorizationId}`;
+
+  try {
+    const status = await durableClient.getStatus(instanceId);
+    if (status && ['Running', 'Pending'].includes(String(status.runtimeStatus))) {
+      return instanceId;
+    }
+  } catch {
+    // Instância inexistente
+  }
+
+  return durableClient.startNew('paymentExecutionOrchestrator', {
+    instanceId,
+    input: { authorizationId } as PaymentExecutionInput,
+  });
+}
@@ -0,0 +1,284 @@
+/**
+ * DRE mensal - relatórios
+ *
+ * Consolida as transações realizadas no mês (dataRealizacao) pelo plano
+ * de contas do cliente (Category + hierarquia pai), com o mês anterior
+ * e o orçado ao lado.
+ *
+ * Regras:
+ *   - Natureza vem da categoria (receita/despesa); sem categoria, do tipo
+ *     da transação (RECEBER → receita, PAGAR → despesa)
+ *   - Contas de transferência ficam fora do resultado
+ *   - Previsto já vinculado a um realizado (vinculadoA) conta uma vez só
+ *   - Conta pai soma o próprio valor e o das filhas
+ */
+
+import {
+  Category,
+  Dre,
+  DreLinha,
+  OrcamentoCategoria,
+  Transaction,
+  TransactionStatus,
+  TransactionType,
+} from '../../shared/types';
+import { createLogger, nowISO, roundMoney } from '../../shared/utils';
+import { getCategories, getOrcamentos, getTransactionsRealizadas } from '../storage/tableClient';
+
+const logger = createLogger('Dre');
+
+type Natureza = DreLinha['natureza'];
+
+const SEM_CATEGORIA: Record<Natureza, string> = {
+  receita: 'sem-categoria-receita',
+  despesa: 'sem-categoria-despesa',
+};
+
+interface Conta {
+  id: string;
+  codigo: string;
+  nome: string;
+  natureza: Natureza;
+  nivel: number;
+  pai?: string;
+}
+
+interface Acumulado {
+  valor: number;
+  anterior: number;
+  quantidade: number;
+  orcado: number;
+  temOrcado: boolean;
+}
+
+// ============================================================================
+// PERÍODO
+// ============================================================================
+
+export function isMesValido(mes: string | null | undefined): mes is string {
+  return !!mes && /^\d{4}-(0[1-9]|1[0-2])$/.test(mes);
+}
+
+/** "2026-01" + (-1) → "2025-12" */
+export function somarMeses(mes: string, meses: number): string {
+  const [ano, m] = mes.split('-').map((n) => parseInt(n, 10));
+  const total = ano * 12 + (m - 1) + meses;
+  return `${Math.floor(total / 12)}-${String((total % 12) + 1).padStart(2, '0')}`;
+}
+
+// ============================================================================
+// CORE LOGIC
+// ============================================================================
+
+function percentual(parte: number, base: number): number | null {
+  return base === 0 ? null : Math.round((parte / Math.abs(base)) * 1000) / 10;
+}
+
+function compararCodigo(a: string, b: string): number {
+  // Contas sem código (ex.: "Sem categoria") vão para o fim
+  if (!a || !b) return a ? -1 : b ? 1 : 0;
+  return a.localeCompare(b, 'pt-BR', { numeric: true });
+}
+
+/** Busca de conta por id, com fallback pelo nome (categoriaNome do ERP/IA) */
+export function indiceCategorias(categorias: Category[]) {
+  const porId = new Map(categorias.map((c) => [c.id, c]));
+  const porNome = new Map(categorias.map((c) => [c.nome.trim().toLowerCase(), c]));
+  return {
+    porId,
+    categoriaDe: (id?: string, nome?: string): Category | undefined =>
+      (id && porId.get(id)) || (nome ? porNome.get(nome.trim().toLowerCase()) : undefined),
+  };
+}
+
+/** Descarta rejeitadas e previstos já representados por um realizado vinculado */
+export function transacoesEfetivas(transacoes: Transaction[]): Transaction[] {
+  const representados = new Set(transacoes.map((t) => t.vinculadoA).filter(Boolean) as string[]);
+  return transacoes.filter((t) => t.status !== TransactionStatus.REJEITADO && !representados.has(t.id));
+}
+
+/**
+ * Monta a DRE a partir das transações do mês e do mês anterior.
+ * Transações fora dos dois meses são ignoradas.
+ */
+export function montarDre(params: {
+  clientId: string;
+  mes: string;
+  categorias: Category[];
+  transacoes: Transaction[];
+  orcamentos?: OrcamentoCategoria[];
+}): Dre {
+  const { clientId, mes, categorias, transacoes, orcamentos = [] } = params;
+  const mesAnterior = somarMeses(mes, -1);
+
+  const { porId, categoriaDe } = indiceCategorias(categorias);
+
+  const acumulado = new Map<string, Acumulado>();
+  const acc = (id: string): Acumulado => {
+    if (!acumulado.has(id)) acumulado.set(id, { valor: 0, anterior: 0, quantidade: 0, orcado: 0, temOrcado: false });
+    return acumulado.get(id)!;
+  };
+
+  const contas = new Map<string, Conta>();
+  const conta = (categoria: Category): Conta => {
+    if (!contas.has(categoria.id)) {
+      contas.set(categoria.id, {
+        id: categoria.id,
+        codigo: categoria.codigo,
+        nome: categoria.nome,
+        natureza: categoria.tipo === 'receita' ? 'receita' : 'despesa',
+        nivel: categoria.nivel,
+        pai: categoria.pai && porId.has(categoria.pai) ? categoria.pai : undefined,
+      });
+    }
+    return contas.get(categoria.id)!;
+  };
+
+  let transferencias = 0;
+  let naoClassificadas = 0;
+
+  for (const tx of transacoesEfetivas(transacoes)) {
+    const competencia = (tx.dataRealizacao || '').substring(0, 7);
+    if (competencia !== mes && competencia !== mesAnterior) continue;
+
+    const categoria = categoriaDe(tx.categoriaId, tx.categoriaNome);
+    const valor = Math.abs(tx.valor || 0);
+
+    if (categoria?.tipo === 'transferencia') {
+      if (competencia === mes) transferencias = roundMoney(transferencias + valor);
+      continue;
+    }
+
+    let id: string;
+    if (categoria) {
+      id = conta(categoria).id;
+    } else if (tx.type === TransactionType.RECEBER || tx.type === TransactionType.PAGAR) {
+      const natureza: Natureza = tx.type === TransactionType.RECEBER ? 'receita' : 'despesa';
+      id = SEM_CATEGORIA[natureza];
+      contas.set(id, { id, codigo: '', nome: 'Sem categoria', natureza, nivel: 1 });
+    } else {
+      if (competencia === mes) naoClassificadas++;
+      continue;
+    }
+
+    const a = acc(id);
+    if (competencia === mes) {
+      a.valor += valor;
+      a.quantidade++;
+    } else {
+      a.anterior += valor;
+    }
+  }
+
+  for (const o of orcamentos) {
+    if (o.mes !== mes) continue;
+    const categoria = categoriaDe(o.categoriaId, o.categoriaNome);
+    if (!categoria || categoria.tipo === 'transferencia') {
+      logger.warn(`Orçamento de ${clientId} sem conta no plano: ${o.categoriaNome || o.categoriaId}`);
+      continue;
+    }
+    const a = acc(conta(categoria).id);
+    a.orcado += o.valor;
+    a.temOrcado = true;
+  }
+
+  // Sobe os valores pela hierarquia (cada conta soma nas ancestrais)
+  const consolidado = new Map<string, Acumulado>();
+  for (const [id, a] of acumulado) {
+    const visitados = new Set<string>();
+    for (let atual: string | undefined = id; atual && !visitados.has(atual); atual = contas.get(atual)?.pai) {
+      visitados.add(atual);
+      const categoria = porId.get(atual);
+      if (categoria) conta(categoria);
+
+      if (!consolidado.has(atual)) {
+        consolidado.set(atual, { valor: 0, anterior: 0, quantidade: 0, orcado: 0, temOrcado: false });
+      }
+      const c = consolidado.get(atual)!;
+      c.valor += a.valor;
+      c.anterior += a.anterior;
+      c.quantidade += a.quantidade;
+      c.orcado += a.orcado;
+      c.temOrcado = c.temOrcado || a.temOrcado;
+    }
+  }
+
+  const linhas: DreLinha[] = [...consolidado.entries()].map(([id, c]) => {
+    const { codigo, nome, natureza, nivel, pai } = contas.get(id)!;
+    const valor = roundMoney(c.valor);
+    const anterior = roundMoney(c.anterior);
+    const linha: DreLinha = {
+      categoriaId: id,
+      codigo,
+      nome,
+      natureza,
+      nivel,
+      pai,
+      valor,
+      quantidade: c.quantidade,
+      anterior,
+      variacao: percentual(valor - anterior, anterior),
+    };
+
+    if (c.temOrcado) {
+      linha.orcado = roundMoney(c.orcado);
+      linha.desvio = roundMoney(valor - c.orcado);
+      linha.execucao = percentual(valor, c.orcado) ?? undefined;
+    }
+    return linha;
+  });
+
+  const ordenar = (natureza: Natureza) =>
+    linhas
+      .filter((l) => l.natureza === natureza)
+      .sort((a, b) => compararCodigo(a.codigo, b.codigo) || a.nome.localeCompare(b.nome));
+
+  const receitas = ordenar('receita');
+  const despesas = ordenar('despesa');
+
+  // Totais pelas contas raiz (as filhas já estão somadas nelas)
+  const total = (itens: DreLinha[]) => {
+    const raizes = itens.filter((l) => !l.pai);
+    const orcadas = raizes.filter((l) => l.orcado !== undefined);
+    return {
+      valor: roundMoney(raizes.reduce((s, l) => s + l.valor, 0)),
+      anterior: roundMoney(raizes.reduce((s, l) => s + l.anterior, 0)),
+      orcado: orcadas.length > 0 ? roundMoney(orcadas.reduce((s, l) => s + (l.orcado || 0), 0)) : undefined,
+    };
+  };
+
+  const totalReceitas = total(receitas);
+  const totalDespesas = total(despesas);
+  const temOrcado = totalReceitas.orcado !== undefined || totalDespesas.orcado !== undefined;
+
+  return {
+    clientId,
+    mes,
+    mesAnterior,
+    receitas,
+    despesas,
+    totais: {
+      receitas: totalReceitas,
+      despesas: totalDespesas,
+      resultado: {
+        valor: roundMoney(totalReceitas.valor - totalDespesas.valor),
+        anterior: roundMoney(totalReceitas.anterior - totalDespesas.anterior),
+        orcado: temOrcado ? roundMoney((totalReceitas.orcado || 0) - (totalDespesas.orcado || 0)) : undefined,
+      },
+    },
+    transferencias,
+    naoClassificadas,
+    geradoEm: nowISO(),
+  };
+}
+
+/** Busca categorias, transações realizadas (mês e anterior) e orçamentos */
+export async function gerarDre(clientId: string, mes: string): Promise<Dre> {
+  const [categorias, transacoes, orcamentos] = await Promise.all([
+    getCategories(clientId),
+    getTransactionsRealizadas(clientId, `${somarMeses(mes, -1)}-01`, `${somarMeses(mes, 1)}-01`),
+    getOrcamentos(clientId, mes),
+  ]);
+
+  return montarDre({ clientId, mes, categorias, transacoes, orcamentos });
+}
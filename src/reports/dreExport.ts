@@ -0,0 +1,205 @@
+/**
+ * Exportação da DRE - relatórios
+ *
+ * Mesma tabela em três formatos:
+ *   CSV  - ";" e vírgula decimal (abre direto no Excel pt-BR)
+ *   HTML - documento único com CSS de impressão (A4), pronto para PDF
+ *   XLSX - valores numéricos, títulos e totais em negrito
+ *
+ * Colunas de orçamento só aparecem quando o mês tem orçado.
+ */
+
+import { Dre, DreLinha } from '../../shared/types';
+import { writeXlsx, XlsxCelula } from './xlsx';
+
+type Celula = XlsxCelula;
+
+interface LinhaTabela {
+  tipo: 'cabecalho' | 'secao' | 'conta' | 'total';
+  nivel: number;
+  celulas: Celula[];
+}
+
+const SECOES: Array<{ chave: 'receitas' | 'despesas'; titulo: string }> = [
+  { chave: 'receitas', titulo: 'RECEITAS' },
+  { chave: 'despesas', titulo: 'DESPESAS' },
+];
+
+function temOrcado(dre: Dre): boolean {
+  return dre.totais.resultado.orcado !== undefined;
+}
+
+function variacao(valor: number, anterior: number): number | null {
+  return anterior === 0 ? null : Math.round(((valor - anterior) / Math.abs(anterior)) * 1000) / 10;
+}
+
+/** Tabela comum aos formatos: cabeçalho, contas por seção e totais */
+function montarTabela(dre: Dre): LinhaTabela[] {
+  const orcado = temOrcado(dre);
+
+  const colunas = (
+    valor: number,
+    anterior: number,
+    varPct: number | null,
+    o?: { orcado?: number; desvio?: number; execucao?: number }
+  ): Celula[] => [
+    valor,
+    anterior,
+    varPct,
+    ...(orcado ? [o?.orcado ?? null, o?.desvio ?? null, o?.execucao ?? null] : []),
+  ];
+
+  const total = (nome: string, t: Dre['totais']['receitas']): LinhaTabela => ({
+    tipo: 'total',
+    nivel: 0,
+    celulas: [
+      '',
+      nome,
+      ...colunas(t.valor, t.anterior, variacao(t.valor, t.anterior), t.orcado === undefined ? undefined : {
+        orcado: t.orcado,
+        desvio: Math.round((t.valor - t.orcado) * 100) / 100,
+        execucao: t.orcado === 0 ? undefined : Math.round((t.valor / Math.abs(t.orcado)) * 1000) / 10,
+      }),
+    ],
+  });
+
+  const linhas: LinhaTabela[] = [{
+    tipo: 'cabecalho',
+    nivel: 0,
+    celulas: [
+      'Código', 'Conta', dre.mes, dre.mesAnterior, 'Var. %',
+      ...(orcado ? ['Orçado', 'Desvio', 'Exec. %'] : []),
+    ],
+  }];
+
+  for (const { chave, titulo } of SECOES) {
+    linhas.push({ tipo: 'secao', nivel: 0, celulas: ['', titulo] });
+    for (const l of dre[chave] as DreLinha[]) {
+      linhas.push({
+        tipo: 'conta',
+        nivel: l.nivel,
+        celulas: [l.codigo, l.nome, ...colunas(l.valor, l.anterior, l.variacao, l)],
+      });
+    }
+    linhas.push(total(`Total ${titulo.toLowerCase()}`, dre.totais[chave]));
+  }
+
+  linhas.push(total('RESULTADO', dre.totais.resultado));
+  return linhas;
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+export function dreParaCsv(dre: Dre): string {
+  const campo = (c: Celula): string => {
+    if (c === null) return '';
+    if (typeof c === 'number') return c.toFixed(2).replace('.', ',');
+    return /[;"\r\n]/.test(c) ? `"${c.replace(/"/g, '""')}"` : c;
+  };
+
+  return montarTabela(dre)
+    .map((l) => l.celulas.map(campo).join(';'))
+    .join('\r\n') + '\r\n';
+}
+
+// ============================================================================
+// HTML
+// ============================================================================
+
+function escapeHtml(texto: string): string {
+  return texto
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function formatarNumero(valor: number, casas = 2): string {
+  return valor.toLocaleString('pt-BR', { minimumFractionDigits: casas, maximumFractionDigits: casas });
+}
+
+export function dreParaHtml(dre: Dre, clienteNome?: string): string {
+  const tabela = montarTabela(dre);
+  // Colunas de percentual: Var. % e, com orçado, Exec. %
+  const percentuais = new Set(temOrcado(dre) ? [4, 7] : [4]);
+
+  const celula = (c: Celula, i: number, tag: 'td' | 'th', atributos = ''): string => {
+    if (typeof c === 'number') {
+      const texto = percentuais.has(i) ? `${formatarNumero(c, 1)}%` : formatarNumero(c);
+      return `<${tag} class="num${c < 0 ? ' neg' : ''}">${texto}</${tag}>`;
+    }
+    return `<${tag}${i >= 2 ? ' class="num"' : ''}${atributos}>${escapeHtml(c ?? '')}</${tag}>`;
+  };
+
+  const [cabecalho, ...corpo] = tabela;
+  const linhas = corpo.map((l) => {
+    // Recuo da conta pelo nível no plano
+    const recuo = l.tipo === 'conta' && l.nivel > 1 ? ` style="padding-left:${(l.nivel - 1) * 16 + 6}px"` : '';
+    const celulas = l.celulas.map((c, i) => celula(c, i, 'td', i === 1 ? recuo : ''));
+    return `<tr class="${l.tipo}">${celulas.join('')}</tr>`;
+  });
+
+  const titulo = `DRE ${dre.mes}${clienteNome ? ` - ${clienteNome}` : ''}`;
+  const rodape = [
+    `Gerado em ${dre.geradoEm}`,
+    dre.transferencias ? `Transferências fora do resultado: ${formatarNumero(dre.transferencias)}` : '',
+    dre.naoClassificadas ? `Transações sem natureza identificada: ${dre.naoClassificadas}` : '',
+  ].filter(Boolean);
+
+  return `<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(titulo)}</title>
+<style>
+  @page { size: A4 landscape; margin: 15mm; }
+  body { font-family: Arial, Helvetica, sans-serif; font-size: 11px; color: #222; }
+  h1 { font-size: 16px; margin: 0 0 4px; }
+  p.sub { margin: 0 0 12px; color: #666; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { padding: 3px 6px; border-bottom: 1px solid #e5e5e5; }
+  th { background: #f2f2f2; text-align: left; }
+  .num { text-align: right; white-space: nowrap; }
+  .neg { color: #b00020; }
+  tr.secao td { font-weight: bold; background: #fafafa; padding-top: 8px; }
+  tr.total td { font-weight: bold; border-top: 1px solid #999; }
+  tr { page-break-inside: avoid; }
+  footer { margin-top: 12px; color: #666; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(titulo)}</h1>
+<p class="sub">Realizado em ${escapeHtml(dre.mes)} comparado a ${escapeHtml(dre.mesAnterior)}</p>
+<table>
+<thead><tr>${cabecalho.celulas.map((c, i) => celula(c, i, 'th')).join('')}</tr></thead>
+<tbody>
+${linhas.join('\n')}
+</tbody>
+</table>
+<footer>${rodape.map(escapeHtml).join('<br>')}</footer>
+</body>
+</html>
+`;
+}
+
+// ============================================================================
+// XLSX
+// ============================================================================
+
+export function dreParaXlsx(dre: Dre): Buffer {
+  const tabela = montarTabela(dre);
+
+  return writeXlsx([{
+    nome: `DRE ${dre.mes}`,
+    larguras: [10, 42, 14, 14, 10, ...(temOrcado(dre) ? [14, 14, 10] : [])],
+    linhas: tabela.map((l) => ({
+      // Excel não tem padding por célula: recuo com espaços
+      celulas: l.tipo === 'conta' && l.nivel > 1
+        ? l.celulas.map((c, i) => (i === 1 ? `${'  '.repeat(l.nivel - 1)}${c}` : c))
+        : l.celulas,
+      negrito: l.tipo !== 'conta',
+    })),
+  }]);
+}
@@ -0,0 +1,299 @@
+/**
+ * Orçamento - relatórios
+ *
+ * Realizado x orçado por linha de orçamento (mês + categoria + centro de
+ * custo) e alertas de estouro depois do ciclo diário.
+ *
+ * Uma linha de orçamento cobre a categoria e as filhas no plano de contas.
+ * Com centro de custo, só entram transações marcadas com o mesmo centro
+ * (metadata.centroCusto, vindo do ERP).
+ *
+ * Alertas são só para despesas: cada limiar (default 80% e 100%) é
+ * notificado uma vez por mês; o maior já notificado fica no orçamento.
+ */
+
+import {
+  Category,
+  Client,
+  OrcamentoCategoria,
+  Transaction,
+  VariacaoOrcamento,
+} from '../../shared/types';
+import { createLogger, nowISO, roundMoney } from '../../shared/utils';
+import {
+  addHistoryAction,
+  getCategories,
+  getOrcamentos,
+  getTransactionsRealizadas,
+  marcarLimiarOrcamento,
+} from '../storage/tableClient';
+import { ProactiveNotifier } from '../notifications/proactiveNotifier';
+import { parseCsv } from '../ops/planilha/adapters/csv';
+import { parseValorPlanilha } from '../ops/planilha/adapters/mapper';
+import { indiceCategorias, isMesValido, somarMeses, transacoesEfetivas } from './dre';
+
+const logger = createLogger('Orcamento');
+
+export const LIMIARES_ORCAMENTO_PADRAO = [80, 100];
+
+/** Linha de importação: categoria por id, código ou nome */
+export interface LinhaImportacaoOrcamento {
+  mes?: string;
+  categoria: string;
+  centroCusto?: string;
+  valor: number | string;
+}
+
+export interface ResultadoAlertasOrcamento {
+  clientId: string;
+  mes: string;
+  variacoes: VariacaoOrcamento[];
+  alertas: number;
+}
+
+// ============================================================================
+// COMPARAÇÃO
+// ============================================================================
+
+export function centroCustoDe(tx: Transaction): string | undefined {
+  const centro = tx.metadata?.centroCusto ?? tx.rawData?.centroCusto;
+  return typeof centro === 'string' && centro ? centro : undefined;
+}
+
+function normalizarCentro(centro?: string): string {
+  return (centro || '').trim().toLowerCase();
+}
+
+/** Limiares válidos (0 < x), em ordem crescente */
+export function limiaresDoCliente(config?: Client['config']): number[] {
+  const limiares = (config?.limiaresOrcamento || []).filter((l) => typeof l === 'number' && l > 0);
+  return limiares.length > 0 ? [...new Set(limiares)].sort((a, b) => a - b) : LIMIARES_ORCAMENTO_PADRAO;
+}
+
+/**
+ * Compara cada orçamento do mês com o realizado. Orçamento sem conta no
+ * plano é comparado só pela categoria exata (id ou nome).
+ */
+export function compararOrcamento(params: {
+  mes: string;
+  categorias: Category[];
+  transacoes: Transaction[];
+  orcamentos: OrcamentoCategoria[];
+  limiares?: number[];
+}): VariacaoOrcamento[] {
+  const { mes, categorias, transacoes, orcamentos, limiares = LIMIARES_ORCAMENTO_PADRAO } = params;
+  const { porId, categoriaDe } = indiceCategorias(categorias);
+
+  // Contas da transação: a própria e as ancestrais
+  const ancestrais = (categoria: Category): Set<string> => {
+    const ids = new Set<string>();
+    for (let atual: Category | undefined = categoria; atual && !ids.has(atual.id); atual = atual.pai ? porId.get(atual.pai) : undefined) {
+      ids.add(atual.id);
+    }
+    return ids;
+  };
+
+  const realizadas = transacoesEfetivas(transacoes)
+    .filter((tx) => (tx.dataRealizacao || '').substring(0, 7) === mes)
+    .map((tx) => {
+      const categoria = categoriaDe(tx.categoriaId, tx.categoriaNome);
+      return {
+        contas: categoria ? ancestrais(categoria) : new Set([tx.categoriaId || tx.categoriaNome || '']),
+        centro: normalizarCentro(centroCustoDe(tx)),
+        valor: Math.abs(tx.valor || 0),
+      };
+    });
+
+  return orcamentos
+    .filter((o) => o.mes === mes)
+    .map((o) => {
+      const categoria = categoriaDe(o.categoriaId, o.categoriaNome);
+      const chave = categoria?.id || o.categoriaId;
+      const centro = normalizarCentro(o.centroCusto);
+
+      const realizado = roundMoney(
+        realizadas
+          .filter((r) => r.contas.has(chave) && (!centro || r.centro === centro))
+          .reduce((s, r) => s + r.valor, 0)
+      );
+      const percentual = o.valor === 0 ? null : Math.round((realizado / Math.abs(o.valor)) * 1000) / 10;
+      const atingidos = percentual === null ? [] : limiares.filter((l) => percentual >= l);
+
+      return {
+        categoriaId: chave,
+        categoriaNome: categoria?.nome || o.categoriaNome || o.categoriaId,
+        natureza: categoria?.tipo === 'receita' ? 'receita' as const : 'despesa' as const,
+        centroCusto: o.centroCusto,
+        orcado: roundMoney(o.valor),
+        realizado,
+        desvio: roundMoney(realizado - o.valor),
+        percentual,
+        limiar: atingidos.length > 0 ? atingidos[atingidos.length - 1] : null,
+      };
+    });
+}
+
+// ============================================================================
+// IMPORTAÇÃO
+// ============================================================================
+
+const COLUNAS_CSV: Record<string, keyof LinhaImportacaoOrcamento> = {
+  mes: 'mes',
+  competencia: 'mes',
+  categoria: 'categoria',
+  conta: 'categoria',
+  centro_custo: 'centroCusto',
+  centrocusto: 'centroCusto',
+  centro_de_custo: 'centroCusto',
+  valor: 'valor',
+  orcado: 'valor',
+};
+
+function normalizarColuna(nome: string): string {
+  return nome
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, '_');
+}
+
+/** CSV com cabeçalho mes;categoria;centro_custo;valor (valor em formato pt-BR) */
+export function linhasDoCsv(conteudo: string): LinhaImportacaoOrcamento[] {
+  const [cabecalho = [], ...linhas] = parseCsv(conteudo).filter((r) => r.some((c) => c.trim() !== ''));
+  const colunas = cabecalho.map((c) => COLUNAS_CSV[normalizarColuna(c)]);
+
+  return linhas.map((celulas) => {
+    const linha: LinhaImportacaoOrcamento = { categoria: '', valor: '' };
+    colunas.forEach((campo, i) => {
+      if (campo) (linha as any)[campo] = (celulas[i] || '').trim();
+    });
+    return linha;
+  });
+}
+
+/**
+ * Valida as linhas contra o plano de contas. Retorna os orçamentos
+ * prontos para gravar e os erros por linha (1 = primeira linha de dados).
+ */
+export function validarImportacao(
+  clientId: string,
+  linhas: LinhaImportacaoOrcamento[],
+  categorias: Category[],
+  mesPadrao?: string
+): { orcamentos: OrcamentoCategoria[]; erros: Array<{ linha: number; mensagem: string }> } {
+  const { categoriaDe } = indiceCategorias(categorias);
+  const porCodigo = new Map(categorias.map((c) => [c.codigo, c]));
+  const orcamentos = new Map<string, OrcamentoCategoria>();
+  const erros: Array<{ linha: number; mensagem: string }> = [];
+  const agora = nowISO();
+
+  linhas.forEach((l, i) => {
+    const linha = i + 1;
+    const mes = l.mes || mesPadrao;
+    const categoria = porCodigo.get(String(l.categoria || '').trim()) || categoriaDe(l.categoria, l.categoria);
+    const valor = typeof l.valor === 'number' ? l.valor : parseValorPlanilha(String(l.valor || ''), ',');
+
+    if (!isMesValido(mes)) {
+      erros.push({ linha, mensagem: 'mes deve estar no formato YYYY-MM' });
+    } else if (!categoria) {
+      erros.push({ linha, mensagem: `Categoria "${l.categoria || ''}" não existe no plano de contas` });
+    } else if (categoria.tipo === 'transferencia') {
+      erros.push({ linha, mensagem: `Categoria "${categoria.nome}" é de transferência` });
+    } else if (valor === undefined || !Number.isFinite(valor) || valor < 0) {
+      erros.push({ linha, mensagem: `Valor inválido: "${l.valor}"` });
+    } else {
+      const centroCusto = l.centroCusto?.trim() || undefined;
+      // Linha repetida (mesma chave) soma: planilhas costumam quebrar por subitem
+      const chave = `${mes}|${categoria.id}|${normalizarCentro(centroCusto)}`;
+      const existente = orcamentos.get(chave);
+      if (existente) {
+        existente.valor = roundMoney(existente.valor + valor);
+      } else {
+        orcamentos.set(chave, {
+          clientId,
+          mes,
+          categoriaId: categoria.id,
+          categoriaNome: categoria.nome,
+          centroCusto,
+          valor: roundMoney(valor),
+          atualizadoEm: agora,
+        });
+      }
+    }
+  });
+
+  return { orcamentos: [...orcamentos.values()], erros };
+}
+
+// ============================================================================
+// CARGA
+// ============================================================================
+
+async function carregarRealizado(clientId: string, mes: string) {
+  const [categorias, transacoes] = await Promise.all([
+    getCategories(clientId),
+    getTransactionsRealizadas(clientId, `${mes}-01`, `${somarMeses(mes, 1)}-01`),
+  ]);
+  return { categorias, transacoes };
+}
+
+/** Busca orçamentos, plano de contas e realizado do mês e compara */
+export async function carregarVariacoes(clientId: string, mes: string, limiares?: number[]): Promise<VariacaoOrcamento[]> {
+  const orcamentos = await getOrcamentos(clientId, mes);
+  if (orcamentos.length === 0) return [];
+
+  return compararOrcamento({ mes, orcamentos, limiares, ...(await carregarRealizado(clientId, mes)) });
+}
+
+// ============================================================================
+// ALERTAS
+// ============================================================================
+
+const notifier = new ProactiveNotifier();
+
+/**
+ * Depois do ciclo: notifica despesas que cruzaram um limiar ainda não
+ * alertado no mês e registra o limiar no orçamento.
+ */
+export async function verificarAlertasOrcamento(client: Client, mes: string): Promise<ResultadoAlertasOrcamento> {
+  const limiares = limiaresDoCliente(client.config);
+  const orcamentos = await getOrcamentos(client.id, mes);
+  if (orcamentos.length === 0) return { clientId: client.id, mes, variacoes: [], alertas: 0 };
+
+  const variacoes = compararOrcamento({ mes, orcamentos, limiares, ...(await carregarRealizado(client.id, mes)) });
+
+  let alertas = 0;
+  for (let i = 0; i < orcamentos.length; i++) {
+    const orcamento = orcamentos[i];
+    const v = variacoes[i];
+    if (v.natureza !== 'despesa' || v.limiar === null || v.limiar <= (orcamento.limiarAlertado || 0)) continue;
+
+    const linha = v.centroCusto ? `${v.categoriaNome} / ${v.centroCusto}` : v.categoriaNome;
+    const estourou = v.limiar >= 100;
+
+    await notifier.sendAlert(client.id, {
+      title: estourou ? `Orçamento estourado: ${linha}` : `Orçamento em ${v.limiar}%: ${linha}`,
+      message:
+        `${linha} em ${mes}: realizado R$ ${v.realizado.toFixed(2)} de R$ ${v.orcado.toFixed(2)} orçados ` +
+        `(${v.percentual}%).`,
+      severity: estourou ? 'critica' : 'alta',
+    }, client);
+
+    await addHistoryAction({
+      id: `hist-orcamento-${client.id}-${mes}-${v.categoriaId}-${v.centroCusto || 'geral'}-${v.limiar}`,
+      clientId: client.id,
+      tipo: 'alerta',
+      descricao: `Alerta de orçamento ${linha} (${mes}): ${v.percentual}% do orçado`,
+      data: nowISO(),
+      detalhes: { ...v, mes },
+    });
+
+    await marcarLimiarOrcamento(orcamento, v.limiar);
+    alertas++;
+  }
+
+  if (alertas > 0) logger.info(`${alertas} alerta(s) de orçamento para ${client.id} em ${mes}`);
+
+  return { clientId: client.id, mes, variacoes, alertas };
+}
@@ -0,0 +1,238 @@
+/**
+ * XLSX Writer - relatórios
+ *
+ * Gerador mínimo de .xlsx sem dependências externas, par do leitor em
+ * ops/planilha/adapters/xlsx.ts: monta os XMLs do Office Open XML e
+ * empacota num ZIP (deflate via zlib, CRC32 calculado aqui).
+ *
+ * Texto vai como inlineStr (sem sharedStrings). Números usam o formato
+ * "#,##0.00"; linhas podem ser marcadas em negrito (títulos e totais).
+ */
+
+import * as zlib from 'zlib';
+
+export type XlsxCelula = string | number | null;
+
+export interface XlsxLinha {
+  celulas: XlsxCelula[];
+  negrito?: boolean;
+}
+
+export interface XlsxAba {
+  nome: string;
+  linhas: XlsxLinha[];
+  larguras?: number[]; // largura das colunas em caracteres
+}
+
+// Índices em cellXfs de styles.xml
+const ESTILO = { texto: 0, textoNegrito: 1, numero: 2, numeroNegrito: 3 } as const;
+
+// ============================================================================
+// ZIP
+// ============================================================================
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function zip(arquivos: Array<{ nome: string; conteudo: string }>): Buffer {
+  const locais: Buffer[] = [];
+  const centrais: Buffer[] = [];
+  let offset = 0;
+
+  for (const arquivo of arquivos) {
+    const nome = Buffer.from(arquivo.nome, 'utf8');
+    const dados = Buffer.from(arquivo.conteudo, 'utf8');
+    const comprimido = zlib.deflateRawSync(dados);
+    const crc = crc32(dados);
+
+    // Data DOS fixa (1980-01-01): o mesmo relatório gera o mesmo arquivo
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4); // versão mínima
+    local.writeUInt16LE(0x0800, 6); // nomes em UTF-8
+    local.writeUInt16LE(8, 8); // deflate
+    local.writeUInt16LE(0, 10);
+    local.writeUInt16LE(0x21, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(comprimido.length, 18);
+    local.writeUInt32LE(dados.length, 22);
+    local.writeUInt16LE(nome.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt16LE(0, 12);
+    central.writeUInt16LE(0x21, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(comprimido.length, 20);
+    central.writeUInt32LE(dados.length, 24);
+    central.writeUInt16LE(nome.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locais.push(local, nome, comprimido);
+    centrais.push(central, nome);
+    offset += local.length + nome.length + comprimido.length;
+  }
+
+  const diretorio = Buffer.concat(centrais);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(arquivos.length, 8);
+  eocd.writeUInt16LE(arquivos.length, 10);
+  eocd.writeUInt32LE(diretorio.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locais, diretorio, eocd]);
+}
+
+// ============================================================================
+// WORKBOOK
+// ============================================================================
+
+export function writeXlsx(abas: XlsxAba[]): Buffer {
+  if (abas.length === 0) throw new Error('Planilha sem abas');
+
+  const nomes = abas.map((a, i) => nomeAba(a.nome, i));
+
+  return zip([
+    {
+      nome: '[Content_Types].xml',
+      conteudo: xml(
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        abas.map((_, i) =>
+          `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+        ).join('') +
+        '</Types>'
+      ),
+    },
+    {
+      nome: '_rels/.rels',
+      conteudo: xml(
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>'
+      ),
+    },
+    {
+      nome: 'xl/workbook.xml',
+      conteudo: xml(
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+        'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>' +
+        nomes.map((nome, i) => `<sheet name="${escapeXml(nome)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('') +
+        '</sheets></workbook>'
+      ),
+    },
+    {
+      nome: 'xl/_rels/workbook.xml.rels',
+      conteudo: xml(
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        abas.map((_, i) =>
+          `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`
+        ).join('') +
+        `<Relationship Id="rId${abas.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+        '</Relationships>'
+      ),
+    },
+    { nome: 'xl/styles.xml', conteudo: estilos() },
+    ...abas.map((aba, i) => ({ nome: `xl/worksheets/sheet${i + 1}.xml`, conteudo: planilha(aba) })),
+  ]);
+}
+
+function estilos(): string {
+  return xml(
+    '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<numFmts count="1"><numFmt numFmtId="164" formatCode="#,##0.00"/></numFmts>' +
+    '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+    '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+    '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+    '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+    '<cellXfs count="4">' +
+    '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+    '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+    '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+    '<xf numFmtId="164" fontId="1" fillId="0" borderId="0" xfId="0" applyNumberFormat="1" applyFont="1"/>' +
+    '</cellXfs></styleSheet>'
+  );
+}
+
+function planilha(aba: XlsxAba): string {
+  const cols = aba.larguras?.length
+    ? '<cols>' + aba.larguras.map((w, i) => `<col min="${i + 1}" max="${i + 1}" width="${w}" customWidth="1"/>`).join('') + '</cols>'
+    : '';
+
+  const linhas = aba.linhas.map((linha, r) => {
+    const celulas = linha.celulas.map((valor, c) => {
+      if (valor === null || valor === '') return '';
+      const ref = `${colunaRef(c)}${r + 1}`;
+
+      if (typeof valor === 'number') {
+        const s = linha.negrito ? ESTILO.numeroNegrito : ESTILO.numero;
+        return Number.isFinite(valor) ? `<c r="${ref}" s="${s}"><v>${valor}</v></c>` : '';
+      }
+
+      const s = linha.negrito ? ESTILO.textoNegrito : ESTILO.texto;
+      return `<c r="${ref}" s="${s}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(valor)}</t></is></c>`;
+    }).join('');
+
+    return `<row r="${r + 1}">${celulas}</row>`;
+  }).join('');
+
+  return xml(
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    `${cols}<sheetData>${linhas}</sheetData></worksheet>`
+  );
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function xml(corpo: string): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n${corpo}`;
+}
+
+/** 27 (0-based) → "AB" */
+function colunaRef(index: number): string {
+  let ref = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    ref = String.fromCharCode(65 + ((n - 1) % 26)) + ref;
+  }
+  return ref;
+}
+
+/** Excel limita o nome da aba a 31 caracteres, sem []:*?/\ */
+function nomeAba(nome: string, index: number): string {
+  const limpo = nome.replace(/[[\]:*?/\\]/g, ' ').trim().substring(0, 31);
+  return limpo || `Planilha${index + 1}`;
+}
+
+function escapeXml(texto: string): string {
+  return texto
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Caracteres de controle não são válidos em XML 1.0
+    .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, '');
+}
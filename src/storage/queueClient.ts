@@ -0,0 +1,162 @@
+/**
+ * Queue Storage Client - operacao-head
+ *
+ * Cliente para Azure Queue Storage (filas do pipeline).
+ * As mensagens vão em base64 (JSON), que é o formato esperado
+ * pelo trigger de fila do Functions host.
+ */
+
+import { QueueClient, QueueServiceClient } from '@azure/storage-queue';
+import {
+  BaseQueueMessage,
+  poisonQueueName,
+} from '../../shared/queues/contracts';
+import { createLogger } from '../../shared/utils';
+
+const logger = createLogger('QueueClient');
+
+/** Nome da app setting usada pelos triggers de fila */
+export const QUEUE_CONNECTION_SETTING = process.env.EXEC_STORAGE_CONNECTION_STRING
+  ? 'EXEC_STORAGE_CONNECTION_STRING'
+  : 'AZURE_STORAGE_CONNECTION_STRING';
+
+// ============================================================================
+// CLIENT CACHE (Lazy Initialization)
+// ============================================================================
+
+let queueService: QueueServiceClient | null = null;
+const queueClients: Map<string, QueueClient> = new Map();
+const ensuredQueues: Set<string> = new Set();
+
+function getQueueService(): QueueServiceClient {
+  if (!queueService) {
+    const connString = process.env.EXEC_STORAGE_CONNECTION_STRING || process.env.AZURE_STORAGE_CONNECTION_STRING;
+    if (!connString) {
+      throw new Error('EXEC_STORAGE_CONNECTION_STRING/AZURE_STORAGE_CONNECTION_STRING não configurada');
+    }
+    queueService = QueueServiceClient.fromConnectionString(connString);
+  }
+  return queueService;
+}
+
+function getQueueClient(queueName: string): QueueClient {
+  if (!queueClients.has(queueName)) {
+    queueClients.set(queueName, getQueueService().getQueueClient(queueName));
+  }
+  return queueClients.get(queueName)!;
+}
+
+async function ensureQueue(queueName: string): Promise<QueueClient> {
+  const client = getQueueClient(queueName);
+  if (!ensuredQueues.has(queueName)) {
+    await client.createIfNotExists();
+    ensuredQueues.add(queueName);
+  }
+  return client;
+}
+
+function encode(message: BaseQueueMessage): string {
+  return Buffer.from(JSON.stringify(message)).toString('base64');
+}
+
+function decode<T extends BaseQueueMessage>(text: string): T | null {
+  try {
+    return JSON.parse(Buffer.from(text, 'base64').toString('utf8')) as T;
+  } catch {
+    try {
+      return JSON.parse(text) as T;
+    } catch {
+      return null;
+    }
+  }
+}
+
+// ============================================================================
+// MESSAGES
+// ============================================================================
+
+/** Publica uma mensagem (visibilityTimeoutSeconds adia a entrega — usado no backoff) */
+export async function enqueueMessage(
+  queueName: string,
+  message: BaseQueueMessage,
+  visibilityTimeoutSeconds?: number
+): Promise<void> {
+  const client = await ensureQueue(queueName);
+  await client.sendMessage(encode(message), {
+    visibilityTimeout: visibilityTimeoutSeconds,
+  });
+}
+
+/** Publica várias mensagens na mesma fila */
+export async function enqueueMessages(
+  queueName: string,
+  messages: BaseQueueMessage[]
+): Promise<number> {
+  for (const message of messages) {
+    await enqueueMessage(queueName, message);
+  }
+  return messages.length;
+}
+
+/** Lê mensagens sem removê-las (máx. 32, limite do serviço) */
+export async function peekMessages<T extends BaseQueueMessage = BaseQueueMessage>(
+  queueName: string,
+  max: number = 32
+): Promise<T[]> {
+  const client = getQueueClient(queueName);
+  if (!(await client.exists())) return [];
+
+  const response = await client.peekMessages({ numberOfMessages: Math.min(max, 32) });
+  return response.peekedMessageItems
+    .map((item) => decode<T>(item.messageText))
+    .filter((m): m is T => m !== null);
+}
+
+/** Mensagens aproximadas na fila (0 se ainda não existe) */
+export async function getQueueDepth(queueName: string): Promise<number> {
+  try {
+    const properties = await getQueueClient(queueName).getProperties();
+    return properties.approximateMessagesCount || 0;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Devolve mensagens da fila poison para a fila de origem, com a
+ * contagem de tentativas zerada. Retorna quantas foram reprocessadas.
+ */
+export async function replayPoisonMessages(
+  queueName: string,
+  max: number = 32
+): Promise<{ replayed: number; discarded: number }> {
+  const poison = getQueueClient(poisonQueueName(queueName));
+  if (!(await poison.exists())) return { replayed: 0, discarded: 0 };
+
+  let replayed = 0;
+  let discarded = 0;
+
+  while (replayed + discarded < max) {
+    const batch = Math.min(max - replayed - discarded, 32);
+    const response = await poison.receiveMessages({ numberOfMessages: batch });
+    if (response.receivedMessageItems.length === 0) break;
+
+    for (const item of response.receivedMessageItems) {
+      const message = decode(item.messageText);
+
+      if (message) {
+        const { lastError, failedAt, ...original } = message;
+        await enqueueMessage(queueName, { ...original, retryCount: 0 });
+        replayed++;
+      } else {
+        logger.warn(`Mensagem ilegível descartada de ${poisonQueueName(queueName)}`, { messageId: item.messageId });
+        discarded++;
+      }
+
+      await poison.deleteMessage(item.messageId, item.popReceipt);
+    }
+  }
+
+  logger.info(`Replay de ${queueName}: ${replayed} mensagens reenfileiradas`, { discarded });
+  return { replayed, discarded };
+}
@@ -11,9 +11,21 @@ import {
   DailyCycle,
   Transaction,
   PendingAuthorization,
+  AuthorizationApproval,
+  OperatorUser,
   EnrichmentDoubt,
   HistoryAction,
   Category,
+  DecisionRule,
+  DecisionRuleSet,
+  ImportMappingProfile,
+  PaymentExecution,
+  Remessa,
+  GetnetArquivoProcessado,
+  RecebivelAgenda,
+  TabelaTaxasCartao,
+  OrcamentoCategoria,
+  SentNotification,
   CycleStatus,
   TransactionStatus,
 } from '../types';
@@ -45,6 +57,15 @@ const TABLES = {
   DOUBTS: 'OperacaoDoubts',
   HISTORY: 'OperacaoHistory',
   CATEGORIES: 'OperacaoCategories',
+  DECISION_RULES: 'OperacaoDecisionRules',
+  IMPORT_PROFILES: 'OperacaoImportProfiles',
+  REMESSAS: 'OperacaoRemessas',
+  USERS: 'OperacaoUsers',
+  GETNET_FILES: 'OperacaoGetnetArquivos',
+  CARD_AGENDA: 'OperacaoAgendaRecebiveis',
+  CARD_RATES: 'OperacaoTaxasCartao',
+  BUDGETS: 'OperacaoOrcamentos',
+  NOTIFICATIONS: 'OperacaoNotificacoes',
 } as const;
 
 // ============================================================================
@@ -224,7 +245,8 @@ export async function getPendingAuthorizations(
 
 export async function approveAuthorization(
   id: string,
-  notas?: string
+  notas?: string,
+  usuario?: string
 ): Promise<void> {
   const client = getTableClient(TABLES.AUTHORIZATIONS);
 
@@ -235,14 +257,136 @@ export async function approveAuthorization(
       status: 'aprovado',
       resolvidoEm: nowISO(),
       notas: notas || '',
+      ...(usuario ? { resolvidoPor: usuario } : {}),
     },
     'Merge'
   );
 }
 
-export async function rejectAuthorization(
+export interface AuthorizationVote {
+  aprovacoes: AuthorizationApproval[];
+  aprovacoesNecessarias: number;
+  concluida: boolean;
+}
+
+// Votos e rejeições simultâneos: tentativas de gravar sobre um ETag atualizado
+const MAX_TENTATIVAS_VOTO = 5;
+
+/**
+ * Registra os votos de aprovação. Só muda o status para 'aprovado'
+ * quando a política do cliente estiver satisfeita (concluida).
+ *
+ * Concorrência otimista: `votar` calcula o voto sobre a autorização lida
+ * com ETag; se outro voto gravou no meio (412), relê e recalcula. `votar`
+ * devolve null para desistir (nada é gravado).
+ */
+export async function recordAuthorizationApproval(
+  id: string,
+  votar: (atual: PendingAuthorization) => AuthorizationVote | null
+): Promise<AuthorizationVote | null> {
+  const client = getTableClient(TABLES.AUTHORIZATIONS);
+
+  for (let tentativa = 1; ; tentativa++) {
+    const entity = await client.getEntity<TableEntity<PendingAuthorization>>('AUTH', id);
+    const voto = votar(entityToAuthorization(entity));
+    if (!voto) return null;
+
+    const { aprovacoes, aprovacoesNecessarias, concluida } = voto;
+    const ultimo = aprovacoes[aprovacoes.length - 1];
+
+    try {
+      await client.updateEntity(
+        {
+          partitionKey: 'AUTH',
+          rowKey: id,
+          aprovacoes: JSON.stringify(aprovacoes),
+          aprovacoesNecessarias,
+          ...(concluida
+            ? {
+                status: 'aprovado',
+                resolvidoEm: ultimo?.data || nowISO(),
+                resolvidoPor: aprovacoes.map((a) => a.usuario).join(', '),
+                notas: ultimo?.notas || '',
+              }
+            : {}),
+        },
+        'Merge',
+        { etag: entity.etag }
+      );
+      return voto;
+    } catch (error: any) {
+      if (error.statusCode !== 412 || tentativa >= MAX_TENTATIVAS_VOTO) throw error;
+      logger.warn(`Voto concorrente na autorização ${id}; recalculando (tentativa ${tentativa})`);
+    }
+  }
+}
+
+/** Autorizações aprovadas (pagamentos prontos para execução) */
+export async function getApprovedAuthorizations(
+  clientId?: string
+): Promise<PendingAuthorization[]> {
+  const client = getTableClient(TABLES.AUTHORIZATIONS);
+  const authorizations: PendingAuthorization[] = [];
+
+  try {
+    let filter = `status eq 'aprovado'`;
+    if (clientId) filter += ` and clientId eq '${clientId}'`;
+
+    const entities = client.listEntities<TableEntity<PendingAuthorization>>({
+      queryOptions: { filter },
+    });
+
+    for await (const entity of entities) {
+      authorizations.push(entityToAuthorization(entity));
+    }
+  } catch (error) {
+    logger.error('Erro ao listar autorizações aprovadas', error);
+  }
+
+  return authorizations;
+}
+
+/** Busca autorização por id (null se não existir) */
+export async function getAuthorization(id: string): Promise<PendingAuthorization | null> {
+  const client = getTableClient(TABLES.AUTHORIZATIONS);
+
+  try {
+    const entity = await client.getEntity<TableEntity<PendingAuthorization>>('AUTH', id);
+    return entityToAuthorization(entity);
+  } catch (error: any) {
+    if (error.statusCode === 404) return null;
+    throw error;
+  }
+}
+
+/** Registra quem preparou o item (bloqueia o próprio voto pela regra dos quatro olhos) */
+export async function setAuthorizationPreparer(id: string, usuario: string): Promise<void> {
+  const client = getTableClient(TABLES.AUTHORIZATIONS);
+
+  await client.updateEntity(
+    { partitionKey: 'AUTH', rowKey: id, preparadoPor: usuario },
+    'Merge'
+  );
+}
+
+/** Atualiza o estado da execução do pagamento via API bancária */
+export async function updateAuthorizationPagamento(
+  id: string,
+  pagamento: PaymentExecution
+): Promise<void> {
+  const client = getTableClient(TABLES.AUTHORIZATIONS);
+
+  await client.updateEntity(
+    { partitionKey: 'AUTH', rowKey: id, pagamento: JSON.stringify(pagamento) },
+    'Merge'
+  );
+}
+
+/** Devolve a autorização à fila (pagamento falhou após aprovação) */
+export async function returnAuthorizationToQueue(
   id: string,
-  motivo: string
+  motivo: string,
+  pagamento?: PaymentExecution
 ): Promise<void> {
   const client = getTableClient(TABLES.AUTHORIZATIONS);
 
@@ -250,14 +394,68 @@ export async function rejectAuthorization(
     {
       partitionKey: 'AUTH',
       rowKey: id,
-      status: 'rejeitado',
-      resolvidoEm: nowISO(),
+      status: 'pendente',
+      resolvidoEm: '',
       notas: motivo,
+      aprovacoes: '[]',
+      ...(pagamento ? { pagamento: JSON.stringify(pagamento) } : {}),
     },
     'Merge'
   );
 }
 
+/** Marca a remessa CNAB em que a autorização foi incluída */
+export async function setAuthorizationRemessa(
+  id: string,
+  remessaId: string
+): Promise<void> {
+  const client = getTableClient(TABLES.AUTHORIZATIONS);
+
+  await client.updateEntity(
+    { partitionKey: 'AUTH', rowKey: id, remessaId },
+    'Merge'
+  );
+}
+
+/**
+ * Rejeita a autorização se ainda estiver pendente. Status lido e gravado
+ * sob o mesmo ETag (como em recordAuthorizationApproval): uma aprovação
+ * gravada no meio não é sobrescrita. Quando já não está pendente, nada é
+ * gravado e o status encontrado é devolvido.
+ */
+export async function rejectAuthorization(
+  id: string,
+  motivo: string,
+  usuario?: string
+): Promise<{ rejeitada: boolean; status: PendingAuthorization['status'] }> {
+  const client = getTableClient(TABLES.AUTHORIZATIONS);
+
+  for (let tentativa = 1; ; tentativa++) {
+    const entity = await client.getEntity<TableEntity<PendingAuthorization>>('AUTH', id);
+    const atual = entityToAuthorization(entity);
+    if (atual.status !== 'pendente') return { rejeitada: false, status: atual.status };
+
+    try {
+      await client.updateEntity(
+        {
+          partitionKey: 'AUTH',
+          rowKey: id,
+          status: 'rejeitado',
+          resolvidoEm: nowISO(),
+          notas: motivo,
+          ...(usuario ? { resolvidoPor: usuario } : {}),
+        },
+        'Merge',
+        { etag: entity.etag }
+      );
+      return { rejeitada: true, status: 'rejeitado' };
+    } catch (error: any) {
+      if (error.statusCode !== 412 || tentativa >= MAX_TENTATIVAS_VOTO) throw error;
+      logger.warn(`Autorização ${id} alterada durante a rejeição; relendo (tentativa ${tentativa})`);
+    }
+  }
+}
+
 // ============================================================================
 // DOUBTS
 // ============================================================================
@@ -288,10 +486,24 @@ export async function getPendingDoubts(
   return doubts;
 }
 
+/** Busca dúvida por id (null se não existir) */
+export async function getDoubt(id: string): Promise<EnrichmentDoubt | null> {
+  const client = getTableClient(TABLES.DOUBTS);
+
+  try {
+    const entity = await client.getEntity<TableEntity<EnrichmentDoubt>>('DOUBT', id);
+    return entityToDoubt(entity);
+  } catch (error: any) {
+    if (error.statusCode === 404) return null;
+    throw error;
+  }
+}
+
 export async function resolveDoubt(
   id: string,
   resolucao: Record<string, unknown>,
-  notas?: string
+  notas?: string,
+  usuario?: string
 ): Promise<void> {
   const client = getTableClient(TABLES.DOUBTS);
 
@@ -303,12 +515,13 @@ export async function resolveDoubt(
       resolvidoEm: nowISO(),
       resolucao: JSON.stringify(resolucao),
       notas: notas || '',
+      ...(usuario ? { resolvidoPor: usuario } : {}),
     },
     'Merge'
   );
 }
 
-export async function skipDoubt(id: string, motivo: string): Promise<void> {
+export async function skipDoubt(id: string, motivo: string, usuario?: string): Promise<void> {
   const client = getTableClient(TABLES.DOUBTS);
 
   await client.updateEntity(
@@ -318,6 +531,7 @@ export async function skipDoubt(id: string, motivo: string): Promise<void> {
       status: 'pulado',
       resolvidoEm: nowISO(),
       notas: motivo,
+      ...(usuario ? { resolvidoPor: usuario } : {}),
     },
     'Merge'
   );
@@ -328,16 +542,21 @@ export async function skipDoubt(id: string, motivo: string): Promise<void> {
 // ============================================================================
 
 export async function getHistory(
-  clientId?: string,
+  clientId?: string | string[],
   limit: number = 50,
   offset: number = 0
 ): Promise<{ items: HistoryAction[]; total: number }> {
   const client = getTableClient(TABLES.HISTORY);
   const actions: HistoryAction[] = [];
 
+  // Lista de clientes (usuário com acesso restrito): nenhum cliente = nada a listar
+  const clientIds = Array.isArray(clientId) ? clientId : clientId ? [clientId] : [];
+  if (Array.isArray(clientId) && clientIds.length === 0) {
+    return { items: [], total: 0 };
+  }
+
   try {
-    let filter = '';
-    if (clientId) filter = `clientId eq '${clientId}'`;
+    const filter = clientIds.map((id) => `clientId eq '${id}'`).join(' or ');
 
     const entities = client.listEntities<TableEntity<HistoryAction>>({
       queryOptions: filter ? { filter } : undefined,
@@ -550,6 +769,87 @@ export async function getTransactionsByStatus(
   return txs;
 }
 
+/** Buscar transações de uma fonte (opcionalmente de um tipo) */
+export async function getTransactionsBySource(
+  clientId: string,
+  source: string,
+  type?: string
+): Promise<Transaction[]> {
+  const client = getTableClient(TABLES.TRANSACTIONS);
+  const txs: Transaction[] = [];
+
+  try {
+    let filter = `PartitionKey eq '${clientId}' and source eq '${source}'`;
+    if (type) filter += ` and type eq '${type}'`;
+
+    const entities = client.listEntities<TableEntity>({
+      queryOptions: { filter },
+    });
+
+    for await (const entity of entities) {
+      txs.push(entityToTransaction(entity));
+    }
+  } catch (error) {
+    logger.error('Erro ao listar transações por fonte', error);
+  }
+
+  return txs;
+}
+
+/**
+ * Transações realizadas no período (dataRealizacao em [inicio, fimExclusivo)).
+ * Aceita datas YYYY-MM-DD ou ISO completas, pois a comparação é por string.
+ */
+export async function getTransactionsRealizadas(
+  clientId: string,
+  inicio: string,
+  fimExclusivo: string
+): Promise<Transaction[]> {
+  const client = getTableClient(TABLES.TRANSACTIONS);
+  const txs: Transaction[] = [];
+
+  try {
+    const entities = client.listEntities<TableEntity>({
+      queryOptions: {
+        filter: `PartitionKey eq '${clientId}' and dataRealizacao ge '${inicio}' and dataRealizacao lt '${fimExclusivo}'`,
+      },
+    });
+
+    for await (const entity of entities) {
+      txs.push(entityToTransaction(entity));
+    }
+  } catch (error) {
+    logger.error('Erro ao listar transações realizadas', error);
+  }
+
+  return txs;
+}
+
+/**
+ * Buscar transações que têm nossoNumero ou numeroDocumento
+ * (vinculação de retornos bancários; comparação normalizada é feita pelo chamador)
+ */
+export async function getTransactionsWithReference(clientId: string): Promise<Transaction[]> {
+  const client = getTableClient(TABLES.TRANSACTIONS);
+  const txs: Transaction[] = [];
+
+  try {
+    const entities = client.listEntities<TableEntity>({
+      queryOptions: {
+        filter: `PartitionKey eq '${clientId}' and (nossoNumero ne '' or numeroDocumento ne '')`,
+      },
+    });
+
+    for await (const entity of entities) {
+      txs.push(entityToTransaction(entity));
+    }
+  } catch (error) {
+    logger.error('Erro ao listar transações com referência bancária', error);
+  }
+
+  return txs;
+}
+
 /** Buscar transações por clientId e cycleId */
 export async function getTransactionsByCycle(
   clientId: string,
@@ -668,6 +968,7 @@ export async function createAuthorization(
     contraparte: auth.contraparte,
     categoria: auth.categoria,
     documento: auth.documento || '',
+    preparadoPor: auth.preparadoPor || '',
     status: auth.status,
     criadoEm: auth.criadoEm,
   };
@@ -783,6 +1084,684 @@ function entityToCategory(entity: TableEntity): Category {
   };
 }
 
+// ============================================================================
+// DECISION RULES (versionadas por cliente)
+// ============================================================================
+
+function ruleSetRowKey(versao: number): string {
+  return `v${String(versao).padStart(6, '0')}`;
+}
+
+/** Lista todas as versões de regras de um cliente (mais recente primeiro) */
+export async function getDecisionRuleSets(clientId: string): Promise<DecisionRuleSet[]> {
+  const client = getTableClient(TABLES.DECISION_RULES);
+  const sets: DecisionRuleSet[] = [];
+
+  const entities = client.listEntities<TableEntity>({
+    queryOptions: { filter: `PartitionKey eq '${clientId}'` },
+  });
+
+  for await (const entity of entities) {
+    sets.push(entityToRuleSet(entity));
+  }
+
+  return sets.sort((a, b) => b.versao - a.versao);
+}
+
+/** Conjunto de regras ativo do cliente (null = usar regras padrão) */
+export async function getActiveDecisionRuleSet(clientId: string): Promise<DecisionRuleSet | null> {
+  const sets = await getDecisionRuleSets(clientId);
+  return sets.find((s) => s.ativo) || null;
+}
+
+/** Salva nova versão de regras e a torna ativa */
+export async function saveDecisionRuleSet(
+  clientId: string,
+  regras: DecisionRule[],
+  criadoPor?: string,
+  notas?: string
+): Promise<DecisionRuleSet> {
+  const client = getTableClient(TABLES.DECISION_RULES);
+  const existing = await getDecisionRuleSets(clientId);
+
+  const ruleSet: DecisionRuleSet = {
+    clientId,
+    versao: (existing[0]?.versao || 0) + 1,
+    regras,
+    ativo: true,
+    criadoEm: nowISO(),
+    criadoPor,
+    notas,
+  };
+
+  await client.createEntity({
+    partitionKey: clientId,
+    rowKey: ruleSetRowKey(ruleSet.versao),
+    versao: ruleSet.versao,
+    regras: JSON.stringify(regras),
+    ativo: true,
+    criadoEm: ruleSet.criadoEm,
+    criadoPor: criadoPor || '',
+    notas: notas || '',
+  });
+
+  for (const previous of existing.filter((s) => s.ativo)) {
+    await client.updateEntity(
+      { partitionKey: clientId, rowKey: ruleSetRowKey(previous.versao), ativo: false },
+      'Merge'
+    );
+  }
+
+  return ruleSet;
+}
+
+/** Reativa uma versão anterior (rollback) */
+export async function activateDecisionRuleSet(
+  clientId: string,
+  versao: number
+): Promise<DecisionRuleSet | null> {
+  const client = getTableClient(TABLES.DECISION_RULES);
+  const sets = await getDecisionRuleSets(clientId);
+  const target = sets.find((s) => s.versao === versao);
+
+  if (!target) return null;
+
+  for (const set of sets) {
+    if (set.ativo === (set.versao === versao)) continue;
+    await client.updateEntity(
+      { partitionKey: clientId, rowKey: ruleSetRowKey(set.versao), ativo: set.versao === versao },
+      'Merge'
+    );
+  }
+
+  return { ...target, ativo: true };
+}
+
+function entityToRuleSet(entity: TableEntity): DecisionRuleSet {
+  return {
+    clientId: entity.partitionKey as string,
+    versao: entity.versao as number,
+    regras: JSON.parse((entity.regras as string) || '[]'),
+    ativo: entity.ativo === true,
+    criadoEm: entity.criadoEm as string,
+    criadoPor: (entity.criadoPor as string) || undefined,
+    notas: (entity.notas as string) || undefined,
+  };
+}
+
+// ============================================================================
+// IMPORT PROFILES (mapeamento de planilhas por cliente)
+// ============================================================================
+
+/** Lista perfis de importação do cliente */
+export async function getImportProfiles(clientId: string): Promise<ImportMappingProfile[]> {
+  const client = getTableClient(TABLES.IMPORT_PROFILES);
+  const profiles: ImportMappingProfile[] = [];
+
+  const entities = client.listEntities<TableEntity>({
+    queryOptions: { filter: `PartitionKey eq '${clientId}'` },
+  });
+
+  for await (const entity of entities) {
+    profiles.push(entityToImportProfile(entity));
+  }
+
+  return profiles.sort((a, b) => a.nome.localeCompare(b.nome));
+}
+
+/** Busca perfil por id (null se não existir) */
+export async function getImportProfile(
+  clientId: string,
+  id: string
+): Promise<ImportMappingProfile | null> {
+  const client = getTableClient(TABLES.IMPORT_PROFILES);
+
+  try {
+    const entity = await client.getEntity<TableEntity>(clientId, id);
+    return entityToImportProfile(entity);
+  } catch (error: any) {
+    if (error.statusCode === 404) return null;
+    throw error;
+  }
+}
+
+/** Cria/atualiza perfil (colunas e convenções serializadas em JSON) */
+export async function saveImportProfile(profile: ImportMappingProfile): Promise<void> {
+  const client = getTableClient(TABLES.IMPORT_PROFILES);
+  const { id, clientId, ...rest } = profile;
+
+  await client.upsertEntity(
+    {
+      partitionKey: clientId,
+      rowKey: id,
+      nome: rest.nome,
+      formato: rest.formato,
+      perfil: JSON.stringify(rest),
+      atualizadoEm: rest.atualizadoEm,
+    },
+    'Replace'
+  );
+}
+
+/** Remove perfil */
+export async function deleteImportProfile(clientId: string, id: string): Promise<void> {
+  const client = getTableClient(TABLES.IMPORT_PROFILES);
+  await client.deleteEntity(clientId, id);
+}
+
+function entityToImportProfile(entity: TableEntity): ImportMappingProfile {
+  return {
+    ...JSON.parse((entity.perfil as string) || '{}'),
+    id: entity.rowKey as string,
+    clientId: entity.partitionKey as string,
+  };
+}
+
+// ============================================================================
+// REMESSAS (CNAB 240 de pagamentos)
+// ============================================================================
+
+/** Lista remessas do cliente (mais recente primeiro) */
+export async function getRemessas(clientId: string): Promise<Remessa[]> {
+  const client = getTableClient(TABLES.REMESSAS);
+  const remessas: Remessa[] = [];
+
+  const entities = client.listEntities<TableEntity>({
+    queryOptions: { filter: `PartitionKey eq '${clientId}'` },
+  });
+
+  for await (const entity of entities) {
+    remessas.push(entityToRemessa(entity));
+  }
+
+  return remessas.sort((a, b) => b.geradaEm.localeCompare(a.geradaEm));
+}
+
+/** Busca remessa por id (null se não existir) */
+export async function getRemessa(clientId: string, id: string): Promise<Remessa | null> {
+  const client = getTableClient(TABLES.REMESSAS);
+
+  try {
+    const entity = await client.getEntity<TableEntity>(clientId, id);
+    return entityToRemessa(entity);
+  } catch (error: any) {
+    if (error.statusCode === 404) return null;
+    throw error;
+  }
+}
+
+// Propriedade string da tabela aceita até 32K caracteres: itens vão em partes (itens, itens1, itens2...)
+const REMESSA_ITENS_PARTE = 30000;
+
+/** Cria/atualiza remessa (itens serializados em JSON, em partes) */
+export async function saveRemessa(remessa: Remessa): Promise<void> {
+  const client = getTableClient(TABLES.REMESSAS);
+  const { id, clientId, itens, ...rest } = remessa;
+
+  const json = JSON.stringify(itens);
+  const partes: Record<string, string> = {};
+  for (let i = 0; i * REMESSA_ITENS_PARTE < json.length; i++) {
+    partes[i === 0 ? 'itens' : `itens${i}`] = json.substring(i * REMESSA_ITENS_PARTE, (i + 1) * REMESSA_ITENS_PARTE);
+  }
+
+  await client.upsertEntity(
+    {
+      partitionKey: clientId,
+      rowKey: id,
+      ...rest,
+      agenciaDigito: rest.agenciaDigito || '',
+      contaDigito: rest.contaDigito || '',
+      convenio: rest.convenio || '',
+      ...partes,
+      itensPartes: Object.keys(partes).length,
+    },
+    'Replace'
+  );
+}
+
+/**
+ * Lease da geração de remessas do cliente: timer e chamada manual não
+ * podem numerar (NSA) nem escolher autorizações ao mesmo tempo.
+ * Entidade LEASE/{clientId} com validade; vencida, é tomada via ETag.
+ * Retorna o ETag do lease, ou null se outra geração o detém.
+ */
+export async function acquireRemessaLease(clientId: string, duracaoMs: number): Promise<string | null> {
+  const client = getTableClient(TABLES.REMESSAS);
+  const lease = { partitionKey: 'LEASE', rowKey: clientId, expiraEm: new Date(Date.now() + duracaoMs).toISOString() };
+
+  try {
+    const created = await client.createEntity(lease);
+    return created.etag || '*';
+  } catch (error: any) {
+    if (error.statusCode !== 409) throw error;
+  }
+
+  const atual = await client.getEntity<TableEntity>('LEASE', clientId);
+  if ((atual.expiraEm as string) > nowISO()) return null;
+
+  try {
+    const updated = await client.updateEntity(lease, 'Replace', { etag: atual.etag });
+    return updated.etag || '*';
+  } catch (error: any) {
+    if (error.statusCode === 412) return null;
+    throw error;
+  }
+}
+
+/** Libera o lease (só se ainda for o mesmo ETag) */
+export async function releaseRemessaLease(clientId: string, etag: string): Promise<void> {
+  const client = getTableClient(TABLES.REMESSAS);
+
+  try {
+    await client.deleteEntity('LEASE', clientId, { etag });
+  } catch (error: any) {
+    if (error.statusCode !== 404 && error.statusCode !== 412) throw error;
+  }
+}
+
+function entityToRemessa(entity: TableEntity): Remessa {
+  return {
+    id: entity.rowKey as string,
+    clientId: entity.partitionKey as string,
+    banco: entity.banco as string,
+    agencia: entity.agencia as string,
+    agenciaDigito: (entity.agenciaDigito as string) || undefined,
+    conta: entity.conta as string,
+    contaDigito: (entity.contaDigito as string) || undefined,
+    convenio: (entity.convenio as string) || undefined,
+    cnpjEmpresa: entity.cnpjEmpresa as string,
+    nomeEmpresa: entity.nomeEmpresa as string,
+    sequencial: entity.sequencial as number,
+    nomeArquivo: entity.nomeArquivo as string,
+    geradaEm: entity.geradaEm as string,
+    status: entity.status as Remessa['status'],
+    valorTotal: entity.valorTotal as number,
+    itens: JSON.parse(remessaItensJson(entity) || '[]'),
+  };
+}
+
+function remessaItensJson(entity: TableEntity): string {
+  let json = (entity.itens as string) || '';
+  for (let i = 1; i < ((entity.itensPartes as number) || 1); i++) {
+    json += (entity[`itens${i}`] as string) || '';
+  }
+  return json;
+}
+
+// ============================================================================
+// USERS (acesso à API bpo/*; token guardado só como hash)
+// ============================================================================
+
+/** Lista usuários */
+export async function getUsers(): Promise<OperatorUser[]> {
+  const client = getTableClient(TABLES.USERS);
+  const users: OperatorUser[] = [];
+
+  const entities = client.listEntities<TableEntity>({
+    queryOptions: { filter: `PartitionKey eq 'USER'` },
+  });
+
+  for await (const entity of entities) {
+    users.push(entityToUser(entity));
+  }
+
+  return users.sort((a, b) => a.id.localeCompare(b.id));
+}
+
+/** Busca usuário por id (null se não existir) */
+export async function getUser(id: string): Promise<OperatorUser | null> {
+  const client = getTableClient(TABLES.USERS);
+
+  try {
+    const entity = await client.getEntity<TableEntity>('USER', id);
+    return entityToUser(entity);
+  } catch (error: any) {
+    if (error.statusCode === 404) return null;
+    throw error;
+  }
+}
+
+/** Busca usuário pelo hash do bearer token (null se não existir) */
+export async function getUserByTokenHash(tokenHash: string): Promise<OperatorUser | null> {
+  const client = getTableClient(TABLES.USERS);
+
+  const entities = client.listEntities<TableEntity>({
+    queryOptions: { filter: `PartitionKey eq 'USER' and tokenHash eq '${tokenHash}'` },
+  });
+
+  for await (const entity of entities) {
+    return entityToUser(entity);
+  }
+
+  return null;
+}
+
+/** Cria/atualiza usuário (tokenHash só é alterado quando informado) */
+export async function saveUser(user: OperatorUser, tokenHash?: string): Promise<void> {
+  const client = getTableClient(TABLES.USERS);
+  const { id, clientes, ...rest } = user;
+
+  await client.upsertEntity(
+    {
+      partitionKey: 'USER',
+      rowKey: id,
+      ...rest,
+      email: rest.email || '',
+      clientes: JSON.stringify(clientes),
+      ...(tokenHash ? { tokenHash } : {}),
+    },
+    'Merge'
+  );
+}
+
+function entityToUser(entity: TableEntity): OperatorUser {
+  return {
+    id: entity.rowKey as string,
+    nome: entity.nome as string,
+    email: (entity.email as string) || undefined,
+    role: entity.role as OperatorUser['role'],
+    clientes: JSON.parse((entity.clientes as string) || '[]'),
+    ativo: entity.ativo !== false,
+    criadoEm: entity.criadoEm as string,
+    atualizadoEm: entity.atualizadoEm as string,
+  };
+}
+
+// ============================================================================
+// GETNET - ARQUIVOS PROCESSADOS (controle de lacunas e backfill)
+// ============================================================================
+
+/** Arquivos Getnet ingeridos pelo cliente, opcionalmente num intervalo de datas */
+export async function getGetnetArquivos(
+  clientId: string,
+  inicio?: string,
+  fim?: string
+): Promise<GetnetArquivoProcessado[]> {
+  const client = getTableClient(TABLES.GETNET_FILES);
+  const arquivos: GetnetArquivoProcessado[] = [];
+
+  let filter = `PartitionKey eq '${clientId}'`;
+  if (inicio) filter += ` and RowKey ge '${inicio}'`;
+  if (fim) filter += ` and RowKey le '${fim}'`;
+
+  const entities = client.listEntities<TableEntity>({
+    queryOptions: { filter },
+  });
+
+  for await (const entity of entities) {
+    arquivos.push(entityToGetnetArquivo(entity));
+  }
+
+  return arquivos.sort((a, b) => a.dataMovimento.localeCompare(b.dataMovimento));
+}
+
+/** Registra (ou reescreve, no reprocessamento) o arquivo de uma data */
+export async function saveGetnetArquivo(arquivo: GetnetArquivoProcessado): Promise<void> {
+  const client = getTableClient(TABLES.GETNET_FILES);
+  const { clientId, dataMovimento, trailer, apurado, divergencias, ...rest } = arquivo;
+
+  await client.upsertEntity(
+    {
+      partitionKey: clientId,
+      rowKey: dataMovimento,
+      ...rest,
+      trailer: JSON.stringify(trailer),
+      apurado: JSON.stringify(apurado),
+      divergencias: JSON.stringify(divergencias),
+    },
+    'Replace'
+  );
+}
+
+function entityToGetnetArquivo(entity: TableEntity): GetnetArquivoProcessado {
+  return {
+    clientId: entity.partitionKey as string,
+    dataMovimento: entity.rowKey as string,
+    arquivo: entity.arquivo as string,
+    processadoEm: entity.processadoEm as string,
+    cycleId: entity.cycleId as string,
+    origem: entity.origem as GetnetArquivoProcessado['origem'],
+    transacoes: entity.transacoes as number,
+    trailer: JSON.parse((entity.trailer as string) || 'null'),
+    apurado: JSON.parse(entity.apurado as string),
+    divergencias: JSON.parse((entity.divergencias as string) || '[]'),
+    status: entity.status as GetnetArquivoProcessado['status'],
+  };
+}
+
+// ============================================================================
+// AGENDA DE RECEBÍVEIS (cartão; RowKey começa pela data prevista)
+// ============================================================================
+
+/** Itens da agenda com data prevista no intervalo (inclusive) */
+export async function getRecebiveisAgenda(
+  clientId: string,
+  inicio: string,
+  fim: string
+): Promise<RecebivelAgenda[]> {
+  const client = getTableClient(TABLES.CARD_AGENDA);
+  const itens: RecebivelAgenda[] = [];
+
+  // '~' ordena depois de '_' e dos dígitos: inclui todos os itens do último dia
+  const entities = client.listEntities<TableEntity>({
+    queryOptions: { filter: `PartitionKey eq '${clientId}' and RowKey ge '${inicio}' and RowKey le '${fim}~'` },
+  });
+
+  for await (const entity of entities) {
+    itens.push(entityToRecebivel(entity));
+  }
+
+  return itens.sort((a, b) => a.dataPrevista.localeCompare(b.dataPrevista));
+}
+
+/** Grava itens da agenda; o arquivo mais recente sobrescreve o mesmo item */
+export async function saveRecebiveisAgenda(itens: RecebivelAgenda[]): Promise<number> {
+  const client = getTableClient(TABLES.CARD_AGENDA);
+
+  for (const item of itens) {
+    const { id, clientId, ...rest } = item;
+    await client.upsertEntity(
+      {
+        partitionKey: clientId,
+        rowKey: `${item.dataPrevista}_${id}`,
+        ...rest,
+        produto: rest.produto || '',
+        numeroOperacao: rest.numeroOperacao || '',
+        indicador: rest.indicador || '',
+      },
+      'Replace'
+    );
+  }
+
+  return itens.length;
+}
+
+function entityToRecebivel(entity: TableEntity): RecebivelAgenda {
+  return {
+    id: (entity.rowKey as string).split('_').slice(1).join('_'),
+    clientId: entity.partitionKey as string,
+    tipo: entity.tipo as RecebivelAgenda['tipo'],
+    dataPrevista: entity.dataPrevista as string,
+    estabelecimento: entity.estabelecimento as string,
+    bandeira: (entity.bandeira as string) || '',
+    produto: (entity.produto as string) || undefined,
+    valorBruto: entity.valorBruto as number,
+    valorLiquido: entity.valorLiquido as number,
+    numeroOperacao: (entity.numeroOperacao as string) || undefined,
+    indicador: (entity.indicador as string) || undefined,
+    dataMovimento: entity.dataMovimento as string,
+    arquivo: entity.arquivo as string,
+  };
+}
+
+// ============================================================================
+// TAXAS DE CARTÃO CONTRATADAS (uma tabela por início de vigência)
+// ============================================================================
+
+/** Tabelas de taxas do cliente (vigência mais recente primeiro) */
+export async function getTabelasTaxasCartao(clientId: string): Promise<TabelaTaxasCartao[]> {
+  const client = getTableClient(TABLES.CARD_RATES);
+  const tabelas: TabelaTaxasCartao[] = [];
+
+  const entities = client.listEntities<TableEntity>({
+    queryOptions: { filter: `PartitionKey eq '${clientId}'` },
+  });
+
+  for await (const entity of entities) {
+    tabelas.push(entityToTabelaTaxas(entity));
+  }
+
+  return tabelas.sort((a, b) => b.vigenciaInicio.localeCompare(a.vigenciaInicio));
+}
+
+/** Cria/substitui a tabela que começa em vigenciaInicio */
+export async function saveTabelaTaxasCartao(tabela: TabelaTaxasCartao): Promise<void> {
+  const client = getTableClient(TABLES.CARD_RATES);
+  const { clientId, vigenciaInicio, taxas, ...rest } = tabela;
+
+  await client.upsertEntity(
+    {
+      partitionKey: clientId,
+      rowKey: vigenciaInicio,
+      ...rest,
+      observacao: rest.observacao || '',
+      taxas: JSON.stringify(taxas),
+    },
+    'Replace'
+  );
+}
+
+function entityToTabelaTaxas(entity: TableEntity): TabelaTaxasCartao {
+  return {
+    clientId: entity.partitionKey as string,
+    vigenciaInicio: entity.rowKey as string,
+    taxas: JSON.parse((entity.taxas as string) || '[]'),
+    antecipacaoMensal: entity.antecipacaoMensal as number | undefined,
+    observacao: (entity.observacao as string) || undefined,
+    atualizadoEm: entity.atualizadoEm as string,
+  };
+}
+
+// ============================================================================
+// ORÇAMENTOS (por cliente, mês, categoria e centro de custo)
+// ============================================================================
+
+function orcamentoRowKey(o: Pick<OrcamentoCategoria, 'mes' | 'categoriaId' | 'centroCusto'>): string {
+  const chave = `${o.mes}_${o.categoriaId}${o.centroCusto ? `_${o.centroCusto}` : ''}`;
+  // RowKey não aceita / \ # ?
+  return chave.replace(/[/\\#?]/g, '-');
+}
+
+/** Orçamentos do mês (YYYY-MM) */
+export async function getOrcamentos(clientId: string, mes: string): Promise<OrcamentoCategoria[]> {
+  const client = getTableClient(TABLES.BUDGETS);
+  const orcamentos: OrcamentoCategoria[] = [];
+
+  const entities = client.listEntities<TableEntity>({
+    queryOptions: {
+      filter: `PartitionKey eq '${clientId}' and RowKey ge '${mes}_' and RowKey lt '${mes}~'`,
+    },
+  });
+
+  for await (const entity of entities) {
+    orcamentos.push(entityToOrcamento(entity));
+  }
+
+  return orcamentos;
+}
+
+/**
+ * Cria/substitui orçamentos (mesma chave mês + categoria + centro de custo).
+ * Reimportar zera o limiar alertado: o valor novo é reavaliado no próximo ciclo.
+ */
+export async function saveOrcamentos(orcamentos: OrcamentoCategoria[]): Promise<number> {
+  const client = getTableClient(TABLES.BUDGETS);
+
+  for (const o of orcamentos) {
+    await client.upsertEntity(
+      {
+        partitionKey: o.clientId,
+        rowKey: orcamentoRowKey(o),
+        mes: o.mes,
+        categoriaId: o.categoriaId,
+        categoriaNome: o.categoriaNome || '',
+        centroCusto: o.centroCusto || '',
+        valor: o.valor,
+        limiarAlertado: o.limiarAlertado || 0,
+        atualizadoEm: o.atualizadoEm,
+      },
+      'Replace'
+    );
+  }
+
+  return orcamentos.length;
+}
+
+/** Registra o maior limiar já notificado (evita alerta repetido a cada ciclo) */
+export async function marcarLimiarOrcamento(orcamento: OrcamentoCategoria, limiar: number): Promise<void> {
+  const client = getTableClient(TABLES.BUDGETS);
+  await client.updateEntity(
+    { partitionKey: orcamento.clientId, rowKey: orcamentoRowKey(orcamento), limiarAlertado: limiar },
+    'Merge'
+  );
+}
+
+function entityToOrcamento(entity: TableEntity): OrcamentoCategoria {
+  return {
+    clientId: entity.partitionKey as string,
+    mes: entity.mes as string,
+    categoriaId: entity.categoriaId as string,
+    categoriaNome: (entity.categoriaNome as string) || undefined,
+    centroCusto: (entity.centroCusto as string) || undefined,
+    valor: entity.valor as number,
+    limiarAlertado: (entity.limiarAlertado as number) || undefined,
+    atualizadoEm: entity.atualizadoEm as string,
+  };
+}
+
+// ============================================================================
+// NOTIFICAÇÕES ENVIADAS (uma linha por envio, com status e tentativas)
+// ============================================================================
+
+export async function saveSentNotification(notificacao: SentNotification): Promise<void> {
+  const client = getTableClient(TABLES.NOTIFICATIONS);
+  const { clientId, id, ...rest } = notificacao;
+  await client.upsertEntity({ partitionKey: clientId, rowKey: id, ...rest }, 'Replace');
+}
+
+/** Envios do cliente, mais recentes primeiro */
+export async function getSentNotifications(clientId: string, limit = 50): Promise<SentNotification[]> {
+  const client = getTableClient(TABLES.NOTIFICATIONS);
+  const notificacoes: SentNotification[] = [];
+
+  const entities = client.listEntities<TableEntity>({
+    queryOptions: { filter: `PartitionKey eq '${clientId}'` },
+  });
+
+  for await (const entity of entities) {
+    notificacoes.push(entityToSentNotification(entity));
+  }
+
+  return notificacoes.sort((a, b) => b.enviadoEm.localeCompare(a.enviadoEm)).slice(0, limit);
+}
+
+function entityToSentNotification(entity: TableEntity): SentNotification {
+  return {
+    id: entity.rowKey as string,
+    clientId: entity.partitionKey as string,
+    tipo: entity.tipo as string,
+    canal: entity.canal as string,
+    destinatario: entity.destinatario as string,
+    assunto: (entity.assunto as string) || undefined,
+    conteudo: entity.conteudo as string,
+    enviadoEm: entity.enviadoEm as string,
+    status: entity.status as SentNotification['status'],
+    tentativas: (entity.tentativas as number) || 1,
+    provedor: (entity.provedor as string) || undefined,
+    erro: (entity.erro as string) || undefined,
+  };
+}
+
 // ============================================================================
 // ENTITY MAPPERS
 // ============================================================================
@@ -803,6 +1782,7 @@ function entityToCycle(entity: TableEntity<DailyCycle>): DailyCycle {
     completedAt: entity.completedAt as string | undefined,
     durationMs: entity.durationMs as number | undefined,
     errors: JSON.parse((entity.errors as unknown as string) || '[]'),
+    syncReport: entity.syncReport ? JSON.parse(entity.syncReport as unknown as string) : undefined,
   };
 }
 
@@ -820,6 +1800,7 @@ function cycleToEntity(cycle: DailyCycle): Record<string, unknown> {
     completedAt: cycle.completedAt || '',
     durationMs: cycle.durationMs || 0,
     errors: JSON.stringify(cycle.errors),
+    syncReport: cycle.syncReport ? JSON.stringify(cycle.syncReport) : undefined,
   };
 }
 
@@ -842,6 +1823,15 @@ function entityToAuthorization(
     resolvidoEm: entity.resolvidoEm as string | undefined,
     resolvidoPor: entity.resolvidoPor as string | undefined,
     notas: entity.notas as string | undefined,
+    remessaId: (entity.remessaId as string) || undefined,
+    preparadoPor: (entity.preparadoPor as string) || undefined,
+    aprovacoes: entity.aprovacoes
+      ? JSON.parse(entity.aprovacoes as unknown as string)
+      : [],
+    aprovacoesNecessarias: (entity.aprovacoesNecessarias as number) || undefined,
+    pagamento: entity.pagamento
+      ? JSON.parse(entity.pagamento as unknown as string)
+      : undefined,
   };
 }
 
@@ -857,6 +1847,7 @@ function entityToDoubt(entity: TableEntity<EnrichmentDoubt>): EnrichmentDoubt {
     status: entity.status as any,
     criadoEm: entity.criadoEm as string,
     resolvidoEm: entity.resolvidoEm as string | undefined,
+    resolvidoPor: (entity.resolvidoPor as string) || undefined,
     resolucao: JSON.parse((entity.resolucao as unknown as string) || 'null'),
     notas: entity.notas as string | undefined,
   };
@@ -895,6 +1886,7 @@ function transactionToEntity(tx: Partial<Transaction>): Record<string, unknown>
   if (tx.sourceName !== undefined) entity.sourceName = tx.sourceName;
   if (tx.niboId !== undefined) entity.niboId = tx.niboId;
   if (tx.omieId !== undefined) entity.omieId = tx.omieId;
+  if (tx.controlleId !== undefined) entity.controlleId = tx.controlleId;
   if (tx.codigoBarras !== undefined) entity.codigoBarras = tx.codigoBarras;
   if (tx.nossoNumero !== undefined) entity.nossoNumero = tx.nossoNumero;
   if (tx.numeroDocumento !== undefined) entity.numeroDocumento = tx.numeroDocumento;
@@ -934,6 +1926,7 @@ function entityToTransaction(entity: TableEntity): Transaction {
     sourceName: entity.sourceName as string | undefined,
     niboId: entity.niboId as string | undefined,
     omieId: entity.omieId as string | undefined,
+    controlleId: entity.controlleId as string | undefined,
     codigoBarras: entity.codigoBarras as string | undefined,
     nossoNumero: entity.nossoNumero as string | undefined,
     numeroDocumento: entity.numeroDocumento as string | undefined,
@@ -0,0 +1,340 @@
+/**
+ * Pipeline Workers - operacao-head
+ *
+ * Workers disparados pelas filas do pipeline (modo "filas"):
+ *
+ *   captura → classificação → enriquecimento (anomalias) → matching/decisão
+ *     ├─ sync_auto     → fila de sync do ERP do cliente
+ *     ├─ escalar       → fila de revisão (autorização)
+ *     └─ baixa confiança → fila de revisão (dúvida de classificação)
+ *   anomalias alta/crítica → fila de notificação
+ *
+ * Cada mensagem carrega uma única fonte ou transação, então um cliente
+ * ou fonte lenta só atrasa as próprias mensagens. Retry e poison ficam
+ * em queueWorker.
+ */
+
+import { InvocationContext } from '@azure/functions';
+import {
+  CAPTURE_QUEUES,
+  PROCESS_QUEUES,
+  SYNC_QUEUES,
+  NOTIFY_QUEUES,
+  REVIEW_QUEUES,
+  CaptureQueueMessage,
+  ClassifyQueueMessage,
+  TransactionQueueMessage,
+  SyncQueueMessage,
+  NotifyQueueMessage,
+  ReviewQueueMessage,
+  createClassifyMessage,
+  createTransactionMessage,
+  createSyncMessage,
+  createNotifyMessage,
+  createReviewMessage,
+  syncQueueName,
+  ClassificationResult,
+  Anomaly,
+  Transaction,
+  TransactionStatus,
+  TransactionType,
+} from '../types';
+import {
+  getClient,
+  getTransaction,
+  getTransactionsByStatus,
+  getTransactionHistory,
+  updateTransaction,
+  getActiveDecisionRuleSet,
+  getAuthorization,
+  createAuthorization,
+  getDoubt,
+  createDoubt,
+} from '../storage/tableClient';
+import { enqueueMessage } from '../storage/queueClient';
+import { executeCapture } from '../activities/captureActivity';
+import { syncTransactionToDestination } from '../activities/syncActivity';
+import { externalIdFor, resolveSyncDestination } from '../infra/syncGateway';
+import { conciliarComBaixa } from '../infra/settlementService';
+import {
+  persistDecision,
+  needsClassificationReview,
+  buildAuthorization,
+  buildDoubt,
+} from '../activities/aiProcessingActivity';
+import { AdvancedClassifier } from '../ai/advancedClassifier';
+import { AnomalyDetector } from '../ai/anomalyDetector';
+import { SmartMatcher } from '../ai/smartMatcher';
+import { DecisionEngine } from '../ai/decisionEngine';
+import { classificationFromTransaction } from '../ai/decisionReplay';
+import { ProactiveNotifier } from '../notifications/proactiveNotifier';
+import { registerQueueWorker } from './queueWorker';
+import { nowISO } from '../../shared/utils';
+
+let classifier: AdvancedClassifier | null = null;
+const anomalyDetector = new AnomalyDetector();
+const matcher = new SmartMatcher();
+const notifier = new ProactiveNotifier();
+
+function getClassifier(): AdvancedClassifier {
+  if (!classifier) {
+    classifier = new AdvancedClassifier(process.env.OPENAI_API_KEY || 'mock-key');
+  }
+  return classifier;
+}
+
+async function loadTransaction(
+  clientId: string,
+  transactionId: string,
+  context: InvocationContext
+): Promise<Transaction | null> {
+  const tx = await getTransaction(clientId, transactionId);
+  if (!tx) {
+    context.warn(`[Pipeline] Transaction ${transactionId} not found for ${clientId}; skipping`);
+  }
+  return tx;
+}
+
+async function loadHistory(clientId: string, exceptId: string): Promise<Transaction[]> {
+  const history = await getTransactionHistory(clientId, 100);
+  return history.filter((h) => h.id !== exceptId);
+}
+
+// ============================================================================
+// STAGES
+// ============================================================================
+
+/** Captura uma fonte e publica as transações capturadas para classificação */
+export async function handleCaptureMessage(
+  message: CaptureQueueMessage,
+  context: InvocationContext
+): Promise<void> {
+  const { clientId, cycleId, source } = message;
+
+  const result = await executeCapture({ clientId, cycleId, source });
+  if (!result.success) {
+    throw new Error(result.error || `Captura ${source} falhou`);
+  }
+
+  const captured = (await getTransactionsByStatus(clientId, TransactionStatus.CAPTURADO))
+    .filter((tx) => tx.source === source);
+
+  for (const tx of captured) {
+    await enqueueMessage(
+      PROCESS_QUEUES.CLASSIFY,
+      createClassifyMessage(clientId, cycleId, tx.id, {
+        descricao: tx.descricao,
+        valor: tx.valor,
+        tipo: tx.type === TransactionType.PAGAR ? 'pagar' : 'receber',
+        contraparte: tx.contraparte,
+      })
+    );
+  }
+
+  context.log(`[Pipeline] ${source}/${clientId}: ${captured.length} transações enviadas para classificação`);
+}
+
+/**
+ * Classifica e segue para enriquecimento (só transações ainda CAPTURADO).
+ * PROCESSANDO já classificada e sem decisão é retomada: o envio para o
+ * enriquecimento falhou depois de gravar a classificação.
+ */
+export async function handleClassifyMessage(
+  message: ClassifyQueueMessage,
+  context: InvocationContext
+): Promise<void> {
+  const { clientId, cycleId, transactionId } = message;
+
+  const tx = await loadTransaction(clientId, transactionId, context);
+  if (!tx) return;
+
+  const retomada = tx.status === TransactionStatus.PROCESSANDO &&
+    !!tx.metadata?.classification && !tx.metadata?.aiDecision;
+
+  if (tx.status !== TransactionStatus.CAPTURADO && !retomada) {
+    context.log(`[Pipeline] ${transactionId} já está ${tx.status}; classificação ignorada`);
+    return;
+  }
+
+  if (!retomada) {
+    const classification = await getClassifier().classify(tx);
+
+    await updateTransaction(clientId, transactionId, {
+      status: TransactionStatus.PROCESSANDO,
+      categoriaNome: classification.categoria,
+      categoriaConfianca: classification.confianca,
+      metadata: { ...tx.metadata, classification },
+    });
+  }
+
+  await enqueueMessage(PROCESS_QUEUES.ENRICH, createTransactionMessage(clientId, cycleId, transactionId));
+}
+
+/** Detecta anomalias, alerta as graves e segue para matching */
+export async function handleEnrichMessage(
+  message: TransactionQueueMessage,
+  context: InvocationContext
+): Promise<void> {
+  const { clientId, cycleId, transactionId } = message;
+
+  const tx = await loadTransaction(clientId, transactionId, context);
+  if (!tx) return;
+
+  const anomalies = await anomalyDetector.detect([tx], await loadHistory(clientId, tx.id));
+
+  await updateTransaction(clientId, transactionId, {
+    metadata: { ...tx.metadata, anomalies },
+  });
+
+  const graves = anomalies.filter(
+    (a): a is Anomaly & { severidade: 'alta' | 'critica' } => a.severidade === 'alta' || a.severidade === 'critica'
+  );
+  if (graves.length > 0) {
+    const notificacoes = (await getClient(clientId))?.config?.notificacoes;
+    const canal = notificacoes?.whatsapp && notificacoes.whatsappNumero ? 'whatsapp' : 'email';
+    const destinatario = (canal === 'whatsapp' ? notificacoes?.whatsappNumero : notificacoes?.emailDestino) || '';
+
+    for (const anomaly of graves) {
+      await enqueueMessage(
+        canal === 'whatsapp' ? NOTIFY_QUEUES.WHATSAPP : NOTIFY_QUEUES.EMAIL,
+        createNotifyMessage(clientId, cycleId, 'alerta_anomalia', canal, destinatario, {
+          title: 'Anomalia Crítica Detectada',
+          message: `${anomaly.razao} (Transação: ${tx.id})`,
+          severity: anomaly.severidade,
+          transactionId: tx.id,
+        })
+      );
+    }
+  }
+
+  await enqueueMessage(PROCESS_QUEUES.MATCH, createTransactionMessage(clientId, cycleId, transactionId));
+}
+
+/** Matching + decisão; encaminha para sync ou revisão */
+export async function handleMatchMessage(
+  message: TransactionQueueMessage,
+  context: InvocationContext
+): Promise<void> {
+  const { clientId, cycleId, transactionId } = message;
+
+  const tx = await loadTransaction(clientId, transactionId, context);
+  if (!tx) return;
+
+  const classification: ClassificationResult = tx.metadata?.classification || classificationFromTransaction(tx);
+  const anomalies: Anomaly[] = tx.metadata?.anomalies || [];
+
+  const history = await loadHistory(clientId, tx.id);
+  const matchResult = await matcher.matchTransaction(tx, history);
+
+  const ruleSet = await getActiveDecisionRuleSet(clientId);
+  const decision = new DecisionEngine(ruleSet?.regras).decide(tx, classification, anomalies, matchResult);
+
+  await persistDecision(clientId, tx, classification, anomalies, decision, context);
+
+  // Liquidação confirmada pelo banco: baixa no ERP em vez de novo lançamento
+  const baixa = await conciliarComBaixa(clientId, tx, history);
+  if (baixa?.status === 'baixado') {
+    context.log(`[Pipeline] ${baixa.previstoId} settled by ${baixa.realizadoId} (baixa ${baixa.baixaId || '-'})`);
+  } else if (decision.acao === 'sync_auto') {
+    const client = await getClient(clientId);
+    const destino = resolveSyncDestination(client);
+    const queueName = destino && syncQueueName(destino);
+
+    if (destino && queueName) {
+      await enqueueMessage(
+        queueName,
+        createSyncMessage(clientId, cycleId, tx.id, destino, externalIdFor(tx, destino) ? 'update' : 'create', {
+          descricao: tx.descricao,
+          valor: tx.valor,
+          dataVencimento: tx.dataVencimento || nowISO().split('T')[0],
+          categoriaId: tx.categoriaId,
+          contraparte: tx.contraparte,
+        })
+      );
+    } else {
+      context.warn(`[Pipeline] No sync queue for sistema ${client?.sistema}; ${tx.id} stays CLASSIFICADO`);
+    }
+  } else if (decision.acao === 'escalar') {
+    await enqueueMessage(
+      REVIEW_QUEUES.AUTHORIZATION,
+      createReviewMessage(clientId, cycleId, tx.id, 'autorizacao', decision.razao)
+    );
+  }
+
+  if (needsClassificationReview(classification, decision)) {
+    await enqueueMessage(
+      REVIEW_QUEUES.CLASSIFICATION,
+      createReviewMessage(clientId, cycleId, tx.id, 'classificacao', 'Classificação com baixa confiança', {
+        categoriaNome: classification.categoria,
+        confianca: classification.confianca,
+      })
+    );
+  }
+}
+
+/** Envia ao ERP; qualquer falha volta para retry */
+export async function handleSyncMessage(
+  message: SyncQueueMessage,
+  context: InvocationContext
+): Promise<void> {
+  const result = await syncTransactionToDestination(message.clientId, message.transactionId, message.destination);
+  context.log(`[Pipeline] ${message.transactionId} → ${message.destination}: ${result.action}`);
+}
+
+/** Cria autorização/dúvida (idempotente: mensagem repetida não duplica) */
+export async function handleReviewMessage(
+  message: ReviewQueueMessage,
+  context: InvocationContext
+): Promise<void> {
+  const { clientId, transactionId } = message;
+
+  const tx = await loadTransaction(clientId, transactionId, context);
+  if (!tx) return;
+
+  const classification: ClassificationResult = tx.metadata?.classification || classificationFromTransaction(tx);
+
+  if (message.tipo === 'autorizacao') {
+    if (await getAuthorization(`auth-${tx.id}`)) return;
+    await createAuthorization(buildAuthorization(clientId, tx, classification));
+  } else {
+    if (await getDoubt(`doubt-${tx.id}`)) return;
+    await createDoubt(buildDoubt(clientId, tx, classification));
+  }
+}
+
+export async function handleNotifyMessage(
+  message: NotifyQueueMessage,
+  context: InvocationContext
+): Promise<void> {
+  const client = await getClient(message.clientId);
+
+  if (message.tipo === 'resumo_diario') {
+    await notifier.sendDailySummary(message.clientId, message.dados, client);
+  } else {
+    await notifier.sendAlert(message.clientId, message.dados, client);
+  }
+}
+
+// ============================================================================
+// REGISTRATION
+// ============================================================================
+
+for (const [key, queueName] of Object.entries(CAPTURE_QUEUES)) {
+  registerQueueWorker(`queueCapture_${key.toLowerCase()}`, queueName, handleCaptureMessage);
+}
+
+registerQueueWorker('queueClassify', PROCESS_QUEUES.CLASSIFY, handleClassifyMessage);
+registerQueueWorker('queueEnrich', PROCESS_QUEUES.ENRICH, handleEnrichMessage);
+registerQueueWorker('queueMatch', PROCESS_QUEUES.MATCH, handleMatchMessage);
+
+for (const [key, queueName] of Object.entries(SYNC_QUEUES)) {
+  registerQueueWorker(`queueSync_${key.toLowerCase()}`, queueName, handleSyncMessage);
+}
+
+for (const [key, queueName] of Object.entries(NOTIFY_QUEUES)) {
+  registerQueueWorker(`queueNotify_${key.toLowerCase()}`, queueName, handleNotifyMessage);
+}
+
+for (const [key, queueName] of Object.entries(REVIEW_QUEUES)) {
+  registerQueueWorker(`queueReview_${key.toLowerCase()}`, queueName, handleReviewMessage);
+}
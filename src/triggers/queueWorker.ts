@@ -0,0 +1,126 @@
+/**
+ * Queue Worker - operacao-head
+ *
+ * Base dos workers de fila do pipeline. A contagem de tentativas fica
+ * na própria mensagem (BaseQueueMessage.retryCount): em caso de erro a
+ * mensagem é republicada com backoff exponencial e, esgotadas as
+ * tentativas, vai para a fila "-poison" com o último erro — de onde
+ * pode ser reprocessada pelo endpoint de replay (bpo/filas/{fila}/replay).
+ *
+ * Assim uma mensagem com problema nunca segura as demais da fila.
+ */
+
+import { app, InvocationContext } from '@azure/functions';
+import { randomUUID } from 'crypto';
+import {
+  BaseQueueMessage,
+  MAX_QUEUE_RETRIES,
+  poisonQueueName,
+} from '../../shared/queues/contracts';
+import { enqueueMessage, QUEUE_CONNECTION_SETTING } from '../storage/queueClient';
+import { addHistoryAction } from '../storage/tableClient';
+import { createLogger, nowISO } from '../../shared/utils';
+
+const logger = createLogger('QueueWorker');
+
+const BASE_BACKOFF_SECONDS = 30;
+const MAX_BACKOFF_SECONDS = 15 * 60;
+
+export type QueueMessageHandler<T extends BaseQueueMessage> = (
+  message: T,
+  context: InvocationContext
+) => Promise<void>;
+
+export type QueueOutcome = 'processed' | 'retried' | 'poisoned';
+
+/** Atraso da próxima tentativa: 30s, 60s, 120s... até 15 min */
+export function retryDelaySeconds(retryCount: number): number {
+  return Math.min(BASE_BACKOFF_SECONDS * 2 ** retryCount, MAX_BACKOFF_SECONDS);
+}
+
+/**
+ * Processa uma mensagem aplicando a política de retry/poison.
+ *
+ * Só relança o erro se não conseguir republicar a mensagem — nesse caso
+ * o retry nativo do host (maxDequeueCount) assume.
+ */
+export async function processQueueMessage<T extends BaseQueueMessage>(
+  queueName: string,
+  raw: unknown,
+  handler: QueueMessageHandler<T>,
+  context: InvocationContext
+): Promise<QueueOutcome> {
+  let message: T;
+  try {
+    message = (typeof raw === 'string' ? JSON.parse(raw) : raw) as T;
+  } catch (error: any) {
+    // Sem JSON válido não há retryCount nem clientId: direto para a poison
+    context.error(`[${queueName}] Mensagem ilegível enviada para ${poisonQueueName(queueName)}: ${error.message}`);
+    const poison: BaseQueueMessage & { raw: unknown } = {
+      messageId: randomUUID(),
+      cycleId: '',
+      clientId: '',
+      timestamp: nowISO(),
+      lastError: error.message,
+      failedAt: nowISO(),
+      raw,
+    };
+    await enqueueMessage(poisonQueueName(queueName), poison);
+    return 'poisoned';
+  }
+
+  try {
+    await handler(message, context);
+    return 'processed';
+  } catch (error: any) {
+    const retryCount = (message.retryCount || 0) + 1;
+    const lastError = error?.message || String(error);
+
+    if (retryCount < MAX_QUEUE_RETRIES) {
+      const delay = retryDelaySeconds(retryCount);
+      context.warn(`[${queueName}] Tentativa ${retryCount}/${MAX_QUEUE_RETRIES} falhou (${lastError}); nova tentativa em ${delay}s`);
+
+      await enqueueMessage(queueName, { ...message, retryCount, lastError }, delay);
+      return 'retried';
+    }
+
+    context.error(`[${queueName}] Mensagem ${message.messageId} esgotou ${MAX_QUEUE_RETRIES} tentativas: ${lastError}`);
+
+    await enqueueMessage(poisonQueueName(queueName), {
+      ...message,
+      retryCount,
+      lastError,
+      failedAt: nowISO(),
+    });
+
+    try {
+      await addHistoryAction({
+        id: `hist-poison-${message.messageId}`,
+        clientId: message.clientId,
+        tipo: 'erro',
+        descricao: `Mensagem enviada para ${poisonQueueName(queueName)} após ${MAX_QUEUE_RETRIES} tentativas: ${lastError}`,
+        data: nowISO(),
+        detalhes: { queueName, messageId: message.messageId, cycleId: message.cycleId },
+      });
+    } catch (e) {
+      logger.warn('Could not log poison message to history', { error: String(e) });
+    }
+
+    return 'poisoned';
+  }
+}
+
+/** Registra um worker com trigger na fila indicada */
+export function registerQueueWorker<T extends BaseQueueMessage>(
+  name: string,
+  queueName: string,
+  handler: QueueMessageHandler<T>
+): void {
+  app.storageQueue(name, {
+    queueName,
+    connection: QUEUE_CONNECTION_SETTING,
+    handler: async (raw: unknown, context: InvocationContext): Promise<void> => {
+      await processQueueMessage(queueName, raw, handler, context);
+    },
+  });
+}
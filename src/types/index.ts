@@ -7,6 +7,8 @@
 // Re-export shared types
 export * from '../../shared/types';
 export * from '../../shared/queues/contracts';
+import type { CaptureQueueMessage } from '../../shared/queues/contracts';
+import type { SyncCounts, SyncDestination } from '../../shared/types';
 
 // ============================================================================
 // HEAD-SPECIFIC TYPES
@@ -41,7 +43,7 @@ export interface ClientCycleResult {
 export interface CaptureActivityInput {
   clientId: string;
   cycleId: string;
-  source: 'nibo' | 'santander' | 'getnet' | 'ofx';
+  source: CaptureQueueMessage['source'];
 }
 
 /** Output da activity de captura */
@@ -80,12 +82,26 @@ export interface ClassifyActivityOutput {
   durationMs: number;
 }
 
+/** Input do sync em batch (destino vem do Client.sistema quando omitido) */
+export interface SyncBatchInput {
+  clientId: string;
+  cycleId: string;
+  destination?: SyncDestination;
+}
+
+/** Output do sync em batch: contagem do ERP e falhas por transação */
+export interface SyncBatchOutput extends SyncCounts {
+  destination?: SyncDestination;
+  synced: number;
+  failures: Array<{ transactionId: string; error: string }>;
+}
+
 /** Input para activity de sync */
 export interface SyncActivityInput {
   transactionId: string;
   clientId: string;
   cycleId: string;
-  destination: 'nibo' | 'omie';
+  destination: SyncDestination;
   action: 'create' | 'update';
 }
 